@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ShieldAlert, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useGuestsStore } from '@/lib/stores';
+import { BAN_REVIEW_WINDOW_DAYS, describeBanEnd, describeBanScope } from '@/lib/utils/guestBans';
+import type { GuestBanReview, GuestBanReviewOutcome } from '@/lib/types';
+import { getBansDueForReviewAction, reviewGuestBanAction } from './actions';
+
+const EXTEND_DAYS = 30;
+
+/**
+ * Bans ending within the review window, for an admin to let expire, extend
+ * or lift before the guest is back
+ */
+export function BanReviewQueue() {
+  const [reviews, setReviews] = useState<GuestBanReview[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getBansDueForReviewAction(BAN_REVIEW_WINDOW_DAYS);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setReviews(result.data || []);
+    } catch {
+      toast.error('Failed to load bans due for review');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const handleReview = async (review: GuestBanReview, outcome: GuestBanReviewOutcome) => {
+    // Extensions run a further stretch from when the ban was due to end
+    const endsAt =
+      outcome === 'extend' && review.endsAt
+        ? new Date(new Date(review.endsAt).getTime() + EXTEND_DAYS * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+    setBusyId(review.id);
+    try {
+      const result = await reviewGuestBanAction(review.id, outcome, endsAt);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(
+        outcome === 'expire'
+          ? `${review.guestName}'s ban will expire as planned`
+          : outcome === 'extend'
+            ? `${review.guestName}'s ban extended by ${EXTEND_DAYS} days`
+            : `${review.guestName}'s ban lifted`
+      );
+      setReviews((current) => current.filter((r) => r.id !== review.id));
+      // The guest's current ban changed on the server
+      if (outcome !== 'expire') await useGuestsStore.getState().fetchGuests();
+    } catch {
+      toast.error('Failed to review ban');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <ShieldAlert size={20} /> Bans due for review
+          </h2>
+          <p className="text-sm text-gray-500">
+            Bans ending in the next {BAN_REVIEW_WINDOW_DAYS} days that nobody has reviewed yet
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchReviews} isLoading={loading} leftIcon={<RefreshCw size={16} />}>
+          Refresh
+        </Button>
+      </div>
+
+      {!loading && reviews.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-6">No bans are about to end.</p>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {reviews.map((review) => (
+            <li key={review.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+              <div className="text-sm space-y-0.5">
+                <p className="font-medium text-gray-900">{review.guestName}</p>
+                <p className="text-gray-700">
+                  {describeBanScope(review.services)} · {describeBanEnd(review.endsAt)}
+                </p>
+                {review.reason && <p className="text-gray-500">{review.reason}</p>}
+                <p className="text-xs text-gray-400">
+                  Issued {new Date(review.createdAt).toLocaleDateString()}
+                  {review.issuedByEmail && ` by ${review.issuedByEmail}`}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId !== null}
+                  onClick={() => handleReview(review, 'expire')}
+                >
+                  Let expire
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId !== null}
+                  onClick={() => handleReview(review, 'extend')}
+                >
+                  Extend {EXTEND_DAYS} days
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId !== null}
+                  onClick={() => handleReview(review, 'lift')}
+                >
+                  Lift now
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default BanReviewQueue;
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { MoonStar, RefreshCw, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useGuestsStore, useServicesStore } from '@/lib/stores';
+import { todayPacificDateString } from '@/lib/utils/date';
+import type { DayCloseout } from '@/lib/types';
+import { closeServiceDayAction, getDayCloseoutsAction, reopenServiceDayAction } from './actions';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const formatServiceDate = (value: string) =>
+  new Date(`${value}T12:00:00`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+/**
+ * End-of-day close-out: close a day now, review what each close changed and
+ * reopen a day that was closed too early
+ */
+export function DayCloseoutPanel() {
+  const guests = useGuestsStore((state) => state.guests);
+  const showerRecords = useServicesStore((state) => state.showerRecords);
+  const laundryRecords = useServicesStore((state) => state.laundryRecords);
+  const [closeouts, setCloseouts] = useState<DayCloseout[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [serviceDate, setServiceDate] = useState(todayPacificDateString());
+  const [closing, setClosing] = useState(false);
+  const [reopeningId, setReopeningId] = useState<string | null>(null);
+
+  const fetchCloseouts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getDayCloseoutsAction();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setCloseouts(result.data || []);
+    } catch {
+      toast.error('Failed to load day close-outs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCloseouts();
+  }, [fetchCloseouts]);
+
+  const handleClose = async () => {
+    if (!confirm(`Close out ${formatServiceDate(serviceDate)}? Booked showers past their slot become no-shows.`)) {
+      return;
+    }
+    setClosing(true);
+    try {
+      const result = await closeServiceDayAction(serviceDate);
+      if (result.error || !result.data) {
+        toast.error(result.error || 'Failed to close service day');
+        return;
+      }
+      const { summary } = result.data;
+      toast.success(
+        `Closed ${formatServiceDate(serviceDate)}: ${summary.noShowShowerIds.length} no-shows, ` +
+          `${summary.unclaimedLaundryIds.length} unclaimed, ${summary.carriedOverLaundryIds.length} carried over`
+      );
+      await Promise.all([useServicesStore.getState().loadFromSupabase(), fetchCloseouts()]);
+    } catch {
+      toast.error('Failed to close service day');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleReopen = async (closeout: DayCloseout) => {
+    if (!confirm(`Reopen ${formatServiceDate(closeout.serviceDate)}? Its no-shows and laundry flags will be undone.`)) {
+      return;
+    }
+    setReopeningId(closeout.id);
+    try {
+      const result = await reopenServiceDayAction(closeout.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(`Reopened ${formatServiceDate(closeout.serviceDate)}`);
+      await Promise.all([useServicesStore.getState().loadFromSupabase(), fetchCloseouts()]);
+    } catch {
+      toast.error('Failed to reopen service day');
+    } finally {
+      setReopeningId(null);
+    }
+  };
+
+  const showerGuestName = (recordId: string) => {
+    const record = showerRecords.find((r) => r.id === recordId);
+    const guest = record && guests.find((g) => g.id === record.guestId);
+    return guest ? `${guest.firstName} ${guest.lastName}` : 'Unknown guest';
+  };
+
+  const bagLabel = (recordId: string) => {
+    const record = laundryRecords.find((r) => r.id === recordId);
+    return record?.bagNumber ? `#${record.bagNumber}` : 'No bag #';
+  };
+
+  const renderList = (label: string, ids: string[], describe: (id: string) => string) =>
+    ids.length > 0 && (
+      <p className="text-xs text-gray-600">
+        <span className="font-medium text-gray-700">{label}:</span> {ids.map(describe).join(', ')}
+      </p>
+    );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-start justify-between gap-3 mb-1">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <MoonStar size={20} className="text-indigo-600" />
+          End-of-Day Close-out
+        </h2>
+        <Button variant="ghost" size="sm" onClick={fetchCloseouts} isLoading={loading} leftIcon={<RefreshCw size={14} />}>
+          Refresh
+        </Button>
+      </div>
+      <p className="text-gray-500 mb-4">
+        Each day is closed automatically overnight. Closing marks booked showers past their slot as no-shows,
+        flags onsite laundry that was never picked up and carries open offsite laundry over to the next day.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-2 mb-6">
+        <label className="text-sm text-gray-700">
+          Service day
+          <input
+            type="date"
+            value={serviceDate}
+            max={todayPacificDateString()}
+            onChange={(e) => setServiceDate(e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </label>
+        <Button variant="primary" onClick={handleClose} isLoading={closing} disabled={!serviceDate}>
+          Close out day
+        </Button>
+      </div>
+
+      {loading && closeouts.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading…</p>
+      ) : closeouts.length === 0 ? (
+        <p className="text-sm text-gray-500">No days have been closed yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {closeouts.map((closeout) => (
+            <li key={closeout.id} className="flex items-start justify-between gap-3 py-3">
+              <div className="space-y-1">
+                <p className={`text-sm font-medium ${closeout.reopenedAt ? 'text-gray-400' : 'text-gray-900'}`}>
+                  {formatServiceDate(closeout.serviceDate)}
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {closeout.automatic ? 'Closed automatically' : 'Closed manually'} · {formatDateTime(closeout.closedAt)}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {closeout.summary.noShowShowerIds.length} shower no-shows ·{' '}
+                  {closeout.summary.unclaimedLaundryIds.length} unclaimed loads ·{' '}
+                  {closeout.summary.carriedOverLaundryIds.length} offsite loads carried over
+                </p>
+                {renderList('No-shows', closeout.summary.noShowShowerIds, showerGuestName)}
+                {renderList('Unclaimed', closeout.summary.unclaimedLaundryIds, bagLabel)}
+                {renderList('Carried over', closeout.summary.carriedOverLaundryIds, bagLabel)}
+                {closeout.reopenedAt && (
+                  <p className="text-xs text-amber-700">Reopened {formatDateTime(closeout.reopenedAt)}</p>
+                )}
+              </div>
+              {!closeout.reopenedAt && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleReopen(closeout)}
+                  isLoading={reopeningId === closeout.id}
+                  leftIcon={<RotateCcw size={14} />}
+                >
+                  Reopen
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
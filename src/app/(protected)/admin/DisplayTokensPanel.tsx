@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { MonitorPlay, Copy, Ban } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { createDisplayTokenAction, getDisplayTokensAction, revokeDisplayTokenAction } from './actions';
+
+interface DisplayTokenRecord {
+  id: string;
+  label: string;
+  created_at: string;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+}
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : 'Never';
+
+/**
+ * Admin panel for the public /display board: one revocable link per device
+ */
+export function DisplayTokensPanel() {
+  const [tokens, setTokens] = useState<DisplayTokenRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [label, setLabel] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newLink, setNewLink] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getDisplayTokensAction();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setTokens((result.data || []) as DisplayTokenRecord[]);
+    } catch {
+      toast.error('Failed to load display boards');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const handleCreate = async () => {
+    if (!label.trim()) {
+      toast.error('Name the device first');
+      return;
+    }
+    setCreating(true);
+    try {
+      const result = await createDisplayTokenAction(label);
+      if (result.error || !result.data) {
+        toast.error(result.error || 'Failed to create display link');
+        return;
+      }
+      setNewLink(`${window.location.origin}/display?token=${encodeURIComponent(result.data.token)}`);
+      setLabel('');
+      await fetchTokens();
+    } catch {
+      toast.error('Failed to create display link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newLink) return;
+    try {
+      await navigator.clipboard.writeText(newLink);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Copy failed; select the link instead');
+    }
+  };
+
+  const handleRevoke = async (token: DisplayTokenRecord) => {
+    if (!confirm(`Revoke "${token.label}"? That screen will stop showing the board.`)) return;
+    setRevokingId(token.id);
+    try {
+      const result = await revokeDisplayTokenAction(token.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(`Revoked ${token.label}`);
+      await fetchTokens();
+    } catch {
+      toast.error('Failed to revoke display link');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+        <MonitorPlay size={20} className="text-indigo-600" />
+        Display Boards
+      </h2>
+      <p className="text-gray-500 mb-4">
+        The now-serving board shows first initials for showers and laundry bag numbers without a staff login.
+        Open a device&apos;s link once on the screen that should show it.
+      </p>
+
+      <div className="flex gap-2 mb-4 max-w-md">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. Lobby TV"
+          aria-label="Display device name"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <Button variant="primary" size="sm" onClick={handleCreate} isLoading={creating}>
+          Create link
+        </Button>
+      </div>
+
+      {newLink && (
+        <div className="mb-4 p-3 bg-indigo-50 border border-indigo-200 rounded-lg">
+          <p className="text-sm text-indigo-900 mb-2">
+            Copy this link now. It won&apos;t be shown again.
+          </p>
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={newLink}
+              aria-label="New display link"
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 border border-indigo-200 rounded-lg text-xs font-mono bg-white"
+            />
+            <Button variant="outline" size="sm" onClick={handleCopy} leftIcon={<Copy size={14} />}>
+              Copy
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading && tokens.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading…</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-gray-500">No display boards set up yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center justify-between gap-3 py-2">
+              <div>
+                <p className={`text-sm font-medium ${token.revoked_at ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                  {token.label}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {token.revoked_at
+                    ? `Revoked ${formatDateTime(token.revoked_at)}`
+                    : `Last seen ${formatDateTime(token.last_seen_at)}`}
+                </p>
+              </div>
+              {!token.revoked_at && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(token)}
+                  isLoading={revokingId === token.id}
+                  leftIcon={<Ban size={14} />}
+                >
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { GitMerge, Undo2, RefreshCw, UserX } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useGuestsStore, useMealsStore, useServicesStore } from '@/lib/stores';
+import { findDuplicateCandidates } from '@/lib/utils/guestDuplicates';
+import { describeBanEnd, describeBanScope } from '@/lib/utils/guestBans';
+import type { Guest } from '@/lib/types';
+import { mergeGuestsAction, undoGuestMergeAction, getGuestMergesAction } from './actions';
+
+interface GuestMergeRecord {
+  id: string;
+  survivor_id: string;
+  merged_guest_id: string;
+  merged_guest_snapshot: Record<string, unknown>;
+  merged_at: string;
+  undone_at: string | null;
+}
+
+const pairKey = (a: string, b: string) => [a, b].sort().join(':');
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString() : '—';
+
+const COMPARED_FIELDS: Array<{ label: string; value: (guest: Guest) => string }> = [
+  { label: 'Name', value: (g) => `${g.firstName} ${g.lastName}`.trim() },
+  { label: 'Preferred name', value: (g) => g.preferredName || '—' },
+  { label: 'Guest ID', value: (g) => g.guestId },
+  { label: 'Housing', value: (g) => g.housingStatus },
+  { label: 'Age group', value: (g) => g.age },
+  { label: 'Gender', value: (g) => g.gender },
+  { label: 'Location', value: (g) => g.location || '—' },
+  { label: 'Created', value: (g) => formatDate(g.createdAt) },
+  { label: 'Notes', value: (g) => g.notes || '—' },
+  {
+    label: 'Ban',
+    value: (g) => (g.isBanned ? `${describeBanScope(g.bannedServices)} · ${describeBanEnd(g.bannedUntil)}` : '—'),
+  },
+];
+
+// Service rows moved by a merge live in the meals and services stores
+const reloadServiceRecords = () =>
+  Promise.all([
+    useMealsStore.getState().loadFromSupabase(),
+    useServicesStore.getState().loadFromSupabase(),
+  ]);
+
+export function GuestMergeTool() {
+  const guests = useGuestsStore((state) => state.guests);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [survivorId, setSurvivorId] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [merges, setMerges] = useState<GuestMergeRecord[]>([]);
+  const [loadingMerges, setLoadingMerges] = useState(false);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const candidates = useMemo(
+    () =>
+      findDuplicateCandidates(guests).filter(
+        (c) => !dismissed.has(pairKey(c.primary.id, c.duplicate.id))
+      ),
+    [guests, dismissed]
+  );
+
+  const selected =
+    candidates.find((c) => pairKey(c.primary.id, c.duplicate.id) === selectedKey) || candidates[0];
+  const survivor =
+    selected && survivorId === selected.duplicate.id ? selected.duplicate : selected?.primary;
+  const duplicate = selected && survivor === selected.primary ? selected.duplicate : selected?.primary;
+
+  const fetchMerges = useCallback(async () => {
+    setLoadingMerges(true);
+    try {
+      const result = await getGuestMergesAction();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setMerges((result.data || []) as GuestMergeRecord[]);
+    } catch {
+      toast.error('Failed to load merge history');
+    } finally {
+      setLoadingMerges(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMerges();
+  }, [fetchMerges]);
+
+  const selectPair = (primaryId: string, duplicateId: string) => {
+    setSelectedKey(pairKey(primaryId, duplicateId));
+    setSurvivorId(null);
+  };
+
+  const handleDismiss = () => {
+    if (!selected) return;
+    setDismissed((prev) => new Set(prev).add(pairKey(selected.primary.id, selected.duplicate.id)));
+    setSelectedKey(null);
+    setSurvivorId(null);
+  };
+
+  const handleMerge = async () => {
+    if (!survivor || !duplicate) return;
+    const duplicateName = `${duplicate.firstName} ${duplicate.lastName}`;
+    const survivorName = `${survivor.firstName} ${survivor.lastName}`;
+    if (
+      !confirm(
+        `Merge ${duplicateName} (${duplicate.guestId}) into ${survivorName} (${survivor.guestId})? ` +
+          'All visits, services, waivers and linked guests will move to the surviving profile.'
+      )
+    ) {
+      return;
+    }
+
+    setMerging(true);
+    try {
+      const result = await mergeGuestsAction(survivor.id, duplicate.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      useGuestsStore.getState().removeServerGuest(duplicate.id);
+      await reloadServiceRecords();
+      setSelectedKey(null);
+      setSurvivorId(null);
+      toast.success(`Merged ${duplicateName} into ${survivorName}`);
+      await fetchMerges();
+    } catch {
+      toast.error('Failed to merge guests');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleUndo = async (merge: GuestMergeRecord) => {
+    setUndoingId(merge.id);
+    try {
+      const result = await undoGuestMergeAction(merge.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      useGuestsStore.getState().mergeServerGuest(merge.merged_guest_snapshot);
+      await reloadServiceRecords();
+      toast.success('Merge undone');
+      await fetchMerges();
+    } catch {
+      toast.error('Failed to undo merge');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const guestName = (id: string) => {
+    const guest = guests.find((g) => g.id === id);
+    return guest ? `${guest.firstName} ${guest.lastName}` : 'Unknown guest';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Possible Duplicates</h2>
+        <p className="text-gray-500 mb-4">
+          Profiles with closely matching names. Pick the profile to keep; everything recorded
+          against the other one moves over and the merge can be undone below.
+        </p>
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-gray-500">No likely duplicates found.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <ul className="space-y-1 max-h-[28rem] overflow-y-auto">
+              {candidates.map((c) => {
+                const key = pairKey(c.primary.id, c.duplicate.id);
+                const isSelected = selected && key === pairKey(selected.primary.id, selected.duplicate.id);
+                return (
+                  <li key={key}>
+                    <button
+                      type="button"
+                      onClick={() => selectPair(c.primary.id, c.duplicate.id)}
+                      className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+                        isSelected ? 'bg-emerald-50 border border-emerald-200' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="font-medium text-gray-900">
+                        {c.primary.firstName} {c.primary.lastName} · {c.duplicate.firstName}{' '}
+                        {c.duplicate.lastName}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {Math.round(c.score * 100)}% match
+                        {c.reasons.length > 0 && ` · ${c.reasons.join(', ')}`}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {selected && survivor && duplicate && (
+              <div className="lg:col-span-2 space-y-4">
+                <table className="w-full text-sm border border-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-gray-500 font-medium">Field</th>
+                      {[selected.primary, selected.duplicate].map((guest) => (
+                        <th key={guest.id} className="px-3 py-2 text-left">
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name="merge-survivor"
+                              checked={survivor.id === guest.id}
+                              onChange={() => setSurvivorId(guest.id)}
+                            />
+                            <span className="font-semibold text-gray-900">
+                              {survivor.id === guest.id ? 'Keep' : 'Merge away'}
+                            </span>
+                          </label>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {COMPARED_FIELDS.map((field) => {
+                      const left = field.value(selected.primary);
+                      const right = field.value(selected.duplicate);
+                      return (
+                        <tr key={field.label}>
+                          <td className="px-3 py-2 text-gray-500">{field.label}</td>
+                          <td className={`px-3 py-2 ${left !== right ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
+                            {left}
+                          </td>
+                          <td className={`px-3 py-2 ${left !== right ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
+                            {right}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button variant="ghost" onClick={handleDismiss} leftIcon={<UserX size={16} />}>
+                    Not a duplicate
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={handleMerge}
+                    isLoading={merging}
+                    leftIcon={<GitMerge size={16} />}
+                  >
+                    Merge into {survivor.firstName} {survivor.lastName}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Recent Merges</h2>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchMerges}
+            disabled={loadingMerges}
+            leftIcon={<RefreshCw size={14} />}
+          >
+            Refresh
+          </Button>
+        </div>
+
+        {merges.length === 0 ? (
+          <p className="text-sm text-gray-500">No merges yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {merges.map((merge) => {
+              const snapshot = merge.merged_guest_snapshot;
+              return (
+                <li key={merge.id} className="flex items-center justify-between py-3 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900">
+                      {String(snapshot.full_name || snapshot.external_id || merge.merged_guest_id)}
+                    </span>{' '}
+                    <span className="text-gray-500">into {guestName(merge.survivor_id)}</span>
+                    <div className="text-xs text-gray-400">
+                      {new Date(merge.merged_at).toLocaleString()}
+                      {merge.undone_at && ` · undone ${new Date(merge.undone_at).toLocaleString()}`}
+                    </div>
+                  </div>
+                  {!merge.undone_at && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUndo(merge)}
+                      isLoading={undoingId === merge.id}
+                      disabled={undoingId !== null}
+                      leftIcon={<Undo2 size={14} />}
+                    >
+                      Undo
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,25 @@
 'use client';
 
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { Button } from '@/components/ui';
-import { UserRole } from '@/lib/supabase/roles';
-import { updateUserRoleAction, deleteUserAction, getAllUsersAction } from './actions';
+import {
+  UserRole,
+  USER_ROLES,
+  RESOURCES,
+  ACTIONS,
+  APP_ROUTES,
+  type Resource,
+  type Action,
+} from '@/lib/supabase/roles';
+import {
+  updateUserRoleAction,
+  deleteUserAction,
+  getAllUsersAction,
+  getPermissionConfigAction,
+  setRolePermissionAction,
+  setRoleRouteAction,
+  setUserPermissionOverrideAction,
+} from './actions';
 import toast from 'react-hot-toast';
 
 interface User {
@@ -13,17 +29,195 @@ interface User {
   created_at: string;
 }
 
+interface PermissionConfig {
+  rolePermissions: Array<{ role: UserRole; resource: Resource; action: Action }>;
+  roleRoutes: Array<{ role: UserRole; path: string }>;
+  overrides: Array<{ user_id: string; resource: Resource; action: Action; allowed: boolean }>;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+interface PermissionsGridProps {
+  config: PermissionConfig;
+  onChange: (config: PermissionConfig) => void;
+}
+
+function PermissionsGrid({ config, onChange }: PermissionsGridProps) {
+  const roleHas = (role: UserRole, resource: Resource, action: Action) =>
+    config.rolePermissions.some((p) => p.role === role && p.resource === resource && p.action === action);
+
+  const roleHasRoute = (role: UserRole, path: string) =>
+    config.roleRoutes.some((r) => r.role === role && r.path === path);
+
+  const togglePermission = async (role: UserRole, resource: Resource, action: Action) => {
+    const allowed = !roleHas(role, resource, action);
+    const result = await setRolePermissionAction(role, resource, action, allowed);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+    onChange({
+      ...config,
+      rolePermissions: allowed
+        ? [...config.rolePermissions, { role, resource, action }]
+        : config.rolePermissions.filter(
+            (p) => !(p.role === role && p.resource === resource && p.action === action)
+          ),
+    });
+  };
+
+  const toggleRoute = async (role: UserRole, path: string) => {
+    const allowed = !roleHasRoute(role, path);
+    const result = await setRoleRouteAction(role, path, allowed);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+    onChange({
+      ...config,
+      roleRoutes: allowed
+        ? [...config.roleRoutes, { role, path }]
+        : config.roleRoutes.filter((r) => !(r.role === role && r.path === path)),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-xl font-semibold">Role Permissions</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse border border-gray-300 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="border border-gray-300 px-4 py-2 text-left">Permission</th>
+              {USER_ROLES.map((role) => (
+                <th key={role} className="border border-gray-300 px-4 py-2 text-center">
+                  {capitalize(role)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {RESOURCES.map((resource) =>
+              ACTIONS.map((action) => (
+                <tr key={`${resource}-${action}`} className="hover:bg-gray-50">
+                  <td className="border border-gray-300 px-4 py-1">
+                    {capitalize(resource)} · {action}
+                  </td>
+                  {USER_ROLES.map((role) => (
+                    <td key={role} className="border border-gray-300 px-4 py-1 text-center">
+                      <input
+                        type="checkbox"
+                        checked={roleHas(role, resource, action)}
+                        onChange={() => togglePermission(role, resource, action)}
+                        aria-label={`${role} can ${action} ${resource}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))
+            )}
+            {APP_ROUTES.map((path) => (
+              <tr key={path} className="hover:bg-gray-50 bg-gray-50/50">
+                <td className="border border-gray-300 px-4 py-1">Page access · {path}</td>
+                {USER_ROLES.map((role) => (
+                  <td key={role} className="border border-gray-300 px-4 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={roleHasRoute(role, path)}
+                      disabled={role === 'admin' && path === '/admin'}
+                      onChange={() => toggleRoute(role, path)}
+                      aria-label={`${role} can open ${path}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+interface UserOverridesProps {
+  user: User;
+  config: PermissionConfig;
+  onChange: (config: PermissionConfig) => void;
+}
+
+function UserOverrides({ user, config, onChange }: UserOverridesProps) {
+  const overrideFor = (resource: Resource, action: Action) =>
+    config.overrides.find((o) => o.user_id === user.id && o.resource === resource && o.action === action);
+
+  const roleDefault = (resource: Resource, action: Action) =>
+    config.rolePermissions.some((p) => p.role === user.role && p.resource === resource && p.action === action);
+
+  const handleChange = async (resource: Resource, action: Action, value: string) => {
+    const allowed = value === 'allow' ? true : value === 'deny' ? false : null;
+    const result = await setUserPermissionOverrideAction(user.id, resource, action, allowed);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+    const remaining = config.overrides.filter(
+      (o) => !(o.user_id === user.id && o.resource === resource && o.action === action)
+    );
+    onChange({
+      ...config,
+      overrides: allowed === null ? remaining : [...remaining, { user_id: user.id, resource, action, allowed }],
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 text-sm">
+      {RESOURCES.map((resource) => (
+        <div key={resource} className="space-y-1">
+          <p className="font-medium">{capitalize(resource)}</p>
+          {ACTIONS.map((action) => {
+            const override = overrideFor(resource, action);
+            const value = override ? (override.allowed ? 'allow' : 'deny') : 'role';
+            return (
+              <label key={action} className="flex items-center justify-between gap-2">
+                <span className="text-gray-600">{action}</span>
+                <select
+                  value={value}
+                  onChange={(e) => handleChange(resource, action, e.target.value)}
+                  className={`border rounded px-1 py-0.5 ${override ? 'border-blue-400' : ''}`}
+                >
+                  <option value="role">Role ({roleDefault(resource, action) ? 'yes' : 'no'})</option>
+                  <option value="allow">Allow</option>
+                  <option value="deny">Deny</option>
+                </select>
+              </label>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function UserManagement() {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedRole, setSelectedRole] = useState<Record<string, UserRole>>({});
+  const [permissionConfig, setPermissionConfig] = useState<PermissionConfig | null>(null);
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
 
-  const roles: UserRole[] = ['admin', 'board', 'staff', 'checkin'];
+  const roles: UserRole[] = USER_ROLES;
 
   const fetchUsers = async () => {
     setLoading(true);
     try {
-      const result = await getAllUsersAction();
+      const [result, permissionsResult] = await Promise.all([
+        getAllUsersAction(),
+        getPermissionConfigAction(),
+      ]);
+      if (permissionsResult.error) {
+        toast.error(permissionsResult.error);
+      } else if (permissionsResult.data) {
+        setPermissionConfig(permissionsResult.data);
+      }
       if (result.error) {
         toast.error(result.error);
         return;
@@ -99,51 +293,73 @@ export function UserManagement() {
             </thead>
             <tbody>
               {users.map((user) => (
-                <tr key={user.id} className="hover:bg-gray-50">
-                  <td className="border border-gray-300 px-4 py-2">{user.email}</td>
-                  <td className="border border-gray-300 px-4 py-2">
-                    <select
-                      value={selectedRole[user.id] || user.role}
-                      onChange={(e) =>
-                        setSelectedRole({
-                          ...selectedRole,
-                          [user.id]: e.target.value as UserRole,
-                        })
-                      }
-                      className="border rounded px-2 py-1"
-                    >
-                      {roles.map((role) => (
-                        <option key={role} value={role}>
-                          {role.charAt(0).toUpperCase() + role.slice(1)}
-                        </option>
-                      ))}
-                    </select>
-                  </td>
-                  <td className="border border-gray-300 px-4 py-2 text-sm text-gray-600">
-                    {new Date(user.created_at).toLocaleDateString()}
-                  </td>
-                  <td className="border border-gray-300 px-4 py-2 space-x-2">
-                    <Button
-                      size="sm"
-                      onClick={() => handleRoleChange(user.id)}
-                      className="bg-blue-500 hover:bg-blue-600"
-                    >
-                      Save
-                    </Button>
-                    <Button
-                      size="sm"
-                      onClick={() => handleDeleteUser(user.id, user.email)}
-                      className="bg-red-500 hover:bg-red-600"
-                    >
-                      Delete
-                    </Button>
-                  </td>
-                </tr>
+                <Fragment key={user.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="border border-gray-300 px-4 py-2">{user.email}</td>
+                    <td className="border border-gray-300 px-4 py-2">
+                      <select
+                        value={selectedRole[user.id] || user.role}
+                        onChange={(e) =>
+                          setSelectedRole({
+                            ...selectedRole,
+                            [user.id]: e.target.value as UserRole,
+                          })
+                        }
+                        className="border rounded px-2 py-1"
+                      >
+                        {roles.map((role) => (
+                          <option key={role} value={role}>
+                            {role.charAt(0).toUpperCase() + role.slice(1)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="border border-gray-300 px-4 py-2 text-sm text-gray-600">
+                      {new Date(user.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="border border-gray-300 px-4 py-2 space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleRoleChange(user.id)}
+                        className="bg-blue-500 hover:bg-blue-600"
+                      >
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleDeleteUser(user.id, user.email)}
+                        className="bg-red-500 hover:bg-red-600"
+                      >
+                        Delete
+                      </Button>
+                      {permissionConfig && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setExpandedUserId(expandedUserId === user.id ? null : user.id)}
+                        >
+                          Overrides
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                  {permissionConfig && expandedUserId === user.id && (
+                    <tr>
+                      <td colSpan={4} className="border border-gray-300 px-4 py-3 bg-gray-50">
+                        <UserOverrides user={user} config={permissionConfig} onChange={setPermissionConfig} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
         </div>
       )}
+
+      {permissionConfig && (
+        <PermissionsGrid config={permissionConfig} onChange={setPermissionConfig} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,417 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { FileSignature, Plus, Pencil, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useWaiverStore } from '@/lib/stores';
+import {
+  WAIVER_LANGUAGES,
+  WAIVER_SERVICE_LABELS,
+  WAIVER_VALIDITY_LABELS,
+  currentWaiverTemplates,
+  describeWaiverCoverage,
+} from '@/lib/utils/waivers';
+import type { WaiverLanguage, WaiverService, WaiverTemplate, WaiverValidityRule } from '@/lib/types';
+import { getWaiverTemplatesAction, publishWaiverTemplateAction, saveWaiverTemplateDraftAction } from './actions';
+
+interface DraftForm {
+  id?: string;
+  kind: string;
+  isNewKind: boolean;
+  title: string;
+  description: string;
+  services: WaiverService[];
+  validityRule: WaiverValidityRule;
+  validityDays: string;
+  signingUrl: string;
+  // Paragraphs separated by blank lines
+  text: Record<WaiverLanguage, { title: string; body: string }>;
+}
+
+const SERVICES: WaiverService[] = ['shower', 'laundry', 'bicycle'];
+
+const emptyText = (): DraftForm['text'] => ({
+  en: { title: '', body: '' },
+  es: { title: '', body: '' },
+});
+
+const formFrom = (template: WaiverTemplate, asDraft: boolean): DraftForm => ({
+  id: asDraft ? template.id : undefined,
+  kind: template.kind,
+  isNewKind: false,
+  title: template.title,
+  description: template.description,
+  services: [...template.services],
+  validityRule: template.validityRule,
+  validityDays: template.validityDays ? String(template.validityDays) : '',
+  signingUrl: template.signingUrl || '',
+  text: {
+    en: { title: template.text.en.title, body: template.text.en.body.join('\n\n') },
+    es: { title: template.text.es.title, body: template.text.es.body.join('\n\n') },
+  },
+});
+
+const describeValidity = (template: WaiverTemplate) =>
+  template.validityRule === 'rolling_days'
+    ? `${template.validityDays} days after signing`
+    : WAIVER_VALIDITY_LABELS[template.validityRule];
+
+const toParagraphs = (body: string) =>
+  body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+/**
+ * Admin panel for waiver versions: edit a draft, then publish it as the
+ * version guests must sign. Guests holding an older version are flagged.
+ */
+export function WaiverTemplatesPanel() {
+  const [templates, setTemplates] = useState<WaiverTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<DraftForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [publishingId, setPublishingId] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getWaiverTemplatesAction();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setTemplates(result.data || []);
+    } catch {
+      toast.error('Failed to load waivers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const kinds = useMemo(() => {
+    const current = currentWaiverTemplates(templates);
+    return [...new Set(templates.map((t) => t.kind))].map((kind) => ({
+      kind,
+      current: current.find((t) => t.kind === kind) ?? null,
+      drafts: templates.filter((t) => t.kind === kind && !t.publishedAt),
+    }));
+  }, [templates]);
+
+  const startNewVersion = (kind: string) => {
+    const latest = templates.filter((t) => t.kind === kind).sort((a, b) => b.version - a.version)[0];
+    if (latest) setForm(formFrom(latest, false));
+  };
+
+  const startNewWaiver = () => {
+    setForm({
+      kind: '',
+      isNewKind: true,
+      title: '',
+      description: '',
+      services: [],
+      validityRule: 'calendar_year',
+      validityDays: '',
+      signingUrl: '',
+      text: emptyText(),
+    });
+  };
+
+  const updateForm = (changes: Partial<DraftForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const updateText = (language: WaiverLanguage, changes: Partial<DraftForm['text'][WaiverLanguage]>) => {
+    setForm((prev) =>
+      prev ? { ...prev, text: { ...prev.text, [language]: { ...prev.text[language], ...changes } } } : prev
+    );
+  };
+
+  const toggleService = (service: WaiverService) => {
+    if (!form) return;
+    updateForm({
+      services: form.services.includes(service)
+        ? form.services.filter((s) => s !== service)
+        : SERVICES.filter((s) => s === service || form.services.includes(s)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const result = await saveWaiverTemplateDraftAction({
+        id: form.id,
+        kind: form.kind,
+        title: form.title,
+        description: form.description,
+        services: form.services,
+        validityRule: form.validityRule,
+        validityDays: form.validityRule === 'rolling_days' ? Number(form.validityDays) || null : null,
+        signingUrl: form.signingUrl,
+        text: {
+          en: { title: form.text.en.title, body: toParagraphs(form.text.en.body) },
+          es: { title: form.text.es.title, body: toParagraphs(form.text.es.body) },
+        },
+      });
+      if (result.error || !result.data) {
+        toast.error(result.error || 'Failed to save waiver draft');
+        return;
+      }
+      toast.success(`Saved ${result.data.title} version ${result.data.version} as a draft`);
+      setForm(null);
+      await fetchTemplates();
+    } catch {
+      toast.error('Failed to save waiver draft');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePublish = async (template: WaiverTemplate) => {
+    if (
+      !confirm(
+        `Publish ${template.title} version ${template.version}? Guests who signed an earlier version will need to sign again.`
+      )
+    ) {
+      return;
+    }
+    setPublishingId(template.id);
+    try {
+      const result = await publishWaiverTemplateAction(template.id);
+      if (result.error || !result.data) {
+        toast.error(result.error || 'Failed to publish waiver');
+        return;
+      }
+      const { flaggedGuests } = result.data;
+      toast.success(
+        `Published version ${template.version}. ${flaggedGuests} ${
+          flaggedGuests === 1 ? 'guest needs' : 'guests need'
+        } to sign again.`
+      );
+      await Promise.all([fetchTemplates(), useWaiverStore.getState().loadFromSupabase()]);
+    } catch {
+      toast.error('Failed to publish waiver');
+    } finally {
+      setPublishingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+            <FileSignature size={20} className="text-emerald-600" />
+            Waivers
+          </h2>
+          <p className="text-gray-500">
+            Guests sign the newest published version of each waiver. Publishing a new version asks
+            everyone who signed an older one to sign again.
+          </p>
+        </div>
+        {!form && (
+          <Button variant="outline" size="sm" onClick={startNewWaiver} leftIcon={<Plus size={14} />}>
+            New waiver
+          </Button>
+        )}
+      </div>
+
+      {form ? (
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block text-sm text-gray-700">
+              Kind
+              <input
+                type="text"
+                value={form.kind}
+                onChange={(e) => updateForm({ kind: e.target.value })}
+                disabled={!form.isNewKind}
+                placeholder="e.g. kitchen_volunteer"
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Title
+              <input
+                type="text"
+                value={form.title}
+                onChange={(e) => updateForm({ title: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+          </div>
+
+          <label className="block text-sm text-gray-700">
+            Description
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => updateForm({ description: e.target.value })}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+
+          <fieldset>
+            <legend className="text-sm text-gray-700 mb-1">Covers</legend>
+            <div className="flex gap-4">
+              {SERVICES.map((service) => (
+                <label key={service} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.services.includes(service)}
+                    onChange={() => toggleService(service)}
+                    className="rounded border-gray-300 text-emerald-600"
+                  />
+                  {WAIVER_SERVICE_LABELS[service]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <label className="block text-sm text-gray-700">
+              Signature lasts
+              <select
+                value={form.validityRule}
+                onChange={(e) => updateForm({ validityRule: e.target.value as WaiverValidityRule })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {(Object.keys(WAIVER_VALIDITY_LABELS) as WaiverValidityRule[]).map((rule) => (
+                  <option key={rule} value={rule}>
+                    {WAIVER_VALIDITY_LABELS[rule]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {form.validityRule === 'rolling_days' && (
+              <label className="block text-sm text-gray-700">
+                Days
+                <input
+                  type="number"
+                  min={1}
+                  value={form.validityDays}
+                  onChange={(e) => updateForm({ validityDays: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+            )}
+            <label className="block text-sm text-gray-700">
+              Online signing link
+              <input
+                type="url"
+                value={form.signingUrl}
+                onChange={(e) => updateForm({ signingUrl: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </label>
+          </div>
+
+          {WAIVER_LANGUAGES.map((language) => (
+            <div key={language.id} className="space-y-2">
+              <label className="block text-sm text-gray-700">
+                {language.label} title
+                <input
+                  type="text"
+                  value={form.text[language.id].title}
+                  onChange={(e) => updateText(language.id, { title: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                {language.label} text (separate paragraphs with a blank line)
+                <textarea
+                  value={form.text[language.id].body}
+                  onChange={(e) => updateText(language.id, { body: e.target.value })}
+                  rows={6}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button variant="primary" size="sm" onClick={handleSave} isLoading={saving}>
+              Save draft
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : loading && templates.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading…</p>
+      ) : kinds.length === 0 ? (
+        <p className="text-sm text-gray-500">No waivers set up yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {kinds.map(({ kind, current, drafts }) => (
+            <li key={kind} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {current?.title ?? drafts[0]?.title ?? kind}
+                    {current && <span className="ml-2 text-xs text-gray-500">Version {current.version}</span>}
+                  </p>
+                  {current ? (
+                    <p className="text-xs text-gray-500">
+                      Covers {describeWaiverCoverage(current)} · {describeValidity(current)} · published{' '}
+                      {new Date(current.publishedAt!).toLocaleDateString()}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-500">Not published yet</p>
+                  )}
+                </div>
+                {drafts.length === 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => startNewVersion(kind)}
+                    leftIcon={<Plus size={14} />}
+                  >
+                    New version
+                  </Button>
+                )}
+              </div>
+              {drafts.map((draft) => (
+                <div
+                  key={draft.id}
+                  className="flex items-center justify-between gap-3 pl-3 border-l-2 border-amber-200"
+                >
+                  <p className="text-xs text-gray-600">
+                    Draft version {draft.version} · covers {describeWaiverCoverage(draft)} ·{' '}
+                    {describeValidity(draft)}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm(formFrom(draft, true))}
+                      leftIcon={<Pencil size={14} />}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => handlePublish(draft)}
+                      isLoading={publishingId === draft.id}
+                      leftIcon={<Send size={14} />}
+                    >
+                      Publish
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
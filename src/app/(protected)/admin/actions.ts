@@ -1,7 +1,16 @@
 'use server';
 
 import { createClient, getUserRole, updateUserRole, deleteUser } from '@/lib/supabase/server';
-import { UserRole } from '@/lib/supabase/roles';
+import { createHash, randomBytes } from 'crypto';
+import { UserRole, type Resource, type Action } from '@/lib/supabase/roles';
+import type { DayCloseout, GuestBanReviewOutcome, WaiverTemplate } from '@/lib/types';
+import { WAIVER_TEMPLATE_COLUMNS, mapWaiverTemplateRow, type WaiverTemplateRow } from '@/lib/utils/waivers';
+import {
+  GUEST_BAN_COLUMNS,
+  mapGuestBanReviewRow,
+  mapGuestBanRow,
+  type GuestBanRow,
+} from '@/lib/utils/guestBans';
 
 /**
  * Server action to update a user's role (admin only)
@@ -70,3 +79,615 @@ export async function getAllUsersAction() {
 
   return { success: true, data };
 }
+
+/**
+ * Server action to merge a duplicate guest into a surviving profile (admin only).
+ * Runs as a single database transaction and returns the undo record id.
+ */
+export async function mergeGuestsAction(survivorId: string, duplicateId: string) {
+  const adminRole = await getUserRole();
+
+  // Only admins can merge guests
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can merge guests', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('merge_guests', {
+    p_survivor_id: survivorId,
+    p_duplicate_id: duplicateId,
+  });
+
+  if (error) {
+    return { error: `Failed to merge guests: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: data as string };
+}
+
+/**
+ * Server action to reverse a guest merge from its undo record (admin only)
+ */
+export async function undoGuestMergeAction(mergeId: string) {
+  const adminRole = await getUserRole();
+
+  // Only admins can undo merges
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can undo guest merges', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('undo_guest_merge', {
+    p_merge_id: mergeId,
+  });
+
+  if (error) {
+    return { error: `Failed to undo merge: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: data as string };
+}
+
+/**
+ * Server action to list recent guest merges (admin only)
+ */
+export async function getGuestMergesAction() {
+  const adminRole = await getUserRole();
+
+  // Only admins can view merge history
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can view guest merges', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('guest_merges')
+    .select('id,survivor_id,merged_guest_id,merged_guest_snapshot,merged_at,undone_at')
+    .order('merged_at', { ascending: false })
+    .limit(25);
+
+  if (error) {
+    return { error: `Failed to fetch guest merges: ${error.message}`, data: null };
+  }
+
+  return { success: true, data };
+}
+
+/**
+ * Server action to load the role permission matrix, route access and
+ * per-user overrides (admin only)
+ */
+export async function getPermissionConfigAction() {
+  const adminRole = await getUserRole();
+
+  // Only admins can view permissions
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can view permissions', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const [permissionsRes, routesRes, overridesRes] = await Promise.all([
+    supabase.from('role_permissions').select('role,resource,action'),
+    supabase.from('role_routes').select('role,path'),
+    supabase.from('user_permission_overrides').select('user_id,resource,action,allowed'),
+  ]);
+
+  const error = permissionsRes.error || routesRes.error || overridesRes.error;
+  if (error) {
+    return { error: `Failed to fetch permissions: ${error.message}`, data: null };
+  }
+
+  return {
+    success: true,
+    data: {
+      rolePermissions: (permissionsRes.data || []) as Array<{ role: UserRole; resource: Resource; action: Action }>,
+      roleRoutes: (routesRes.data || []) as Array<{ role: UserRole; path: string }>,
+      overrides: (overridesRes.data || []) as Array<{
+        user_id: string;
+        resource: Resource;
+        action: Action;
+        allowed: boolean;
+      }>,
+    },
+  };
+}
+
+/**
+ * Server action to grant or revoke an action for a role (admin only)
+ */
+export async function setRolePermissionAction(
+  role: UserRole,
+  resource: Resource,
+  action: Action,
+  allowed: boolean
+) {
+  const adminRole = await getUserRole();
+
+  // Only admins can edit permissions
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can edit permissions' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = allowed
+    ? await supabase
+        .from('role_permissions')
+        .upsert({ role, resource, action }, { onConflict: 'role,resource,action', ignoreDuplicates: true })
+    : await supabase
+        .from('role_permissions')
+        .delete()
+        .eq('role', role)
+        .eq('resource', resource)
+        .eq('action', action);
+
+  if (error) {
+    return { error: `Failed to update permission: ${error.message}` };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Server action to grant or revoke route access for a role (admin only)
+ */
+export async function setRoleRouteAction(role: UserRole, path: string, allowed: boolean) {
+  const adminRole = await getUserRole();
+
+  // Only admins can edit route access
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can edit route access' };
+  }
+
+  // Keep admins from locking themselves out of this screen
+  if (role === 'admin' && path === '/admin' && !allowed) {
+    return { error: 'Admins must keep access to the admin dashboard' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = allowed
+    ? await supabase
+        .from('role_routes')
+        .upsert({ role, path }, { onConflict: 'role,path', ignoreDuplicates: true })
+    : await supabase.from('role_routes').delete().eq('role', role).eq('path', path);
+
+  if (error) {
+    return { error: `Failed to update route access: ${error.message}` };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Server action to set or clear a per-user permission override (admin only).
+ * Pass `allowed: null` to fall back to the user's role.
+ */
+export async function setUserPermissionOverrideAction(
+  userId: string,
+  resource: Resource,
+  action: Action,
+  allowed: boolean | null
+) {
+  const adminRole = await getUserRole();
+
+  // Only admins can edit permissions
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can edit permissions' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } =
+    allowed === null
+      ? await supabase
+          .from('user_permission_overrides')
+          .delete()
+          .eq('user_id', userId)
+          .eq('resource', resource)
+          .eq('action', action)
+      : await supabase.from('user_permission_overrides').upsert(
+          { user_id: userId, resource, action, allowed, updated_at: new Date().toISOString() },
+          { onConflict: 'user_id,resource,action' }
+        );
+
+  if (error) {
+    return { error: `Failed to update override: ${error.message}` };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Server action to list display board tokens (admin only)
+ */
+export async function getDisplayTokensAction() {
+  const adminRole = await getUserRole();
+
+  // Only admins can manage display boards
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can manage display boards', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('display_tokens')
+    .select('id,label,created_at,last_seen_at,revoked_at')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { error: `Failed to fetch display tokens: ${error.message}`, data: null };
+  }
+
+  return { success: true, data };
+}
+
+/**
+ * Server action to set up a new display board device (admin only).
+ * Only the token's hash is stored, so the token is returned this once.
+ */
+export async function createDisplayTokenAction(label: string) {
+  const adminRole = await getUserRole();
+
+  // Only admins can manage display boards
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can manage display boards', data: null };
+  }
+
+  const trimmedLabel = label.trim();
+  if (!trimmedLabel) {
+    return { error: 'A label is required', data: null };
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const tokenHash = createHash('sha256').update(token).digest('hex');
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('display_tokens')
+    .insert({ label: trimmedLabel, token_hash: tokenHash })
+    .select('id,label,created_at,last_seen_at,revoked_at')
+    .single();
+
+  if (error) {
+    return { error: `Failed to create display token: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: { ...data, token } };
+}
+
+/**
+ * Server action to revoke a display board token (admin only)
+ */
+export async function revokeDisplayTokenAction(tokenId: string) {
+  const adminRole = await getUserRole();
+
+  // Only admins can manage display boards
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can manage display boards' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('display_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId);
+
+  if (error) {
+    return { error: `Failed to revoke display token: ${error.message}` };
+  }
+
+  return { success: true };
+}
+
+interface DayCloseoutRow {
+  id: string;
+  service_date: string;
+  automatic: boolean;
+  summary: Partial<DayCloseout['summary']> | null;
+  closed_at: string;
+  closed_by: string | null;
+  reopened_at: string | null;
+  reopened_by: string | null;
+}
+
+const mapDayCloseoutRow = (row: DayCloseoutRow): DayCloseout => ({
+  id: row.id,
+  serviceDate: row.service_date,
+  automatic: row.automatic,
+  summary: {
+    noShowShowerIds: row.summary?.noShowShowerIds || [],
+    unclaimedLaundryIds: row.summary?.unclaimedLaundryIds || [],
+    carriedOverLaundryIds: row.summary?.carriedOverLaundryIds || [],
+  },
+  closedAt: row.closed_at,
+  closedBy: row.closed_by,
+  reopenedAt: row.reopened_at,
+  reopenedBy: row.reopened_by,
+});
+
+/**
+ * Server action to list recent service day close-outs (admin only)
+ */
+export async function getDayCloseoutsAction() {
+  const adminRole = await getUserRole();
+
+  // Only admins can review close-outs
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can review day close-outs', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('day_closeouts')
+    .select('id,service_date,automatic,summary,closed_at,closed_by,reopened_at,reopened_by')
+    .order('closed_at', { ascending: false })
+    .limit(30);
+
+  if (error) {
+    return { error: `Failed to fetch day close-outs: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: (data as DayCloseoutRow[]).map(mapDayCloseoutRow) };
+}
+
+/**
+ * Server action to close out a service day (YYYY-MM-DD) now rather than
+ * waiting for the nightly job (admin only)
+ */
+export async function closeServiceDayAction(serviceDate: string) {
+  const adminRole = await getUserRole();
+
+  // Only admins can close a day from the dashboard
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can close a service day', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('close_service_day', {
+    p_date: serviceDate,
+  });
+
+  if (error) {
+    return { error: `Failed to close service day: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: mapDayCloseoutRow(data as DayCloseoutRow) };
+}
+
+/**
+ * Server action to reopen a closed service day, undoing its close-out (admin only)
+ */
+export async function reopenServiceDayAction(closeoutId: string) {
+  const adminRole = await getUserRole();
+
+  // Only admins can reopen a day
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can reopen a service day', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('reopen_service_day', {
+    p_closeout_id: closeoutId,
+  });
+
+  if (error) {
+    return { error: `Failed to reopen service day: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: mapDayCloseoutRow(data as DayCloseoutRow) };
+}
+
+/**
+ * Server action to list every waiver version, drafts included (admin only)
+ */
+export async function getWaiverTemplatesAction() {
+  const adminRole = await getUserRole();
+
+  // Only admins can manage waivers
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can manage waivers', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('waiver_templates')
+    .select(WAIVER_TEMPLATE_COLUMNS)
+    .order('kind', { ascending: true })
+    .order('version', { ascending: false });
+
+  if (error) {
+    return { error: `Failed to fetch waiver templates: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: (data as WaiverTemplateRow[]).map(mapWaiverTemplateRow) };
+}
+
+export type WaiverTemplateDraftInput = Pick<
+  WaiverTemplate,
+  'kind' | 'title' | 'description' | 'text' | 'services' | 'validityRule' | 'validityDays' | 'signingUrl'
+> & {
+  // Update this draft rather than starting a new version
+  id?: string;
+};
+
+/**
+ * Server action to save a draft waiver version (admin only). A new draft takes
+ * the next version number of its kind; nothing changes for guests until it is
+ * published.
+ */
+export async function saveWaiverTemplateDraftAction(input: WaiverTemplateDraftInput) {
+  const adminRole = await getUserRole();
+
+  // Only admins can manage waivers
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can manage waivers', data: null };
+  }
+
+  const kind = input.kind.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!kind || !input.title.trim()) {
+    return { error: 'A waiver needs a kind and a title', data: null };
+  }
+  if (input.services.length === 0) {
+    return { error: 'Choose at least one service the waiver covers', data: null };
+  }
+  if (input.validityRule === 'rolling_days' && !(input.validityDays && input.validityDays > 0)) {
+    return { error: 'Enter how many days a signature lasts', data: null };
+  }
+  if (Object.values(input.text).some((text) => !text.title.trim() || text.body.length === 0)) {
+    return { error: 'Waiver text is required in every language', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const values = {
+    title: input.title.trim(),
+    description: input.description.trim(),
+    content: input.text,
+    services: input.services,
+    validity_rule: input.validityRule,
+    validity_days: input.validityRule === 'rolling_days' ? input.validityDays : null,
+    signing_url: input.signingUrl?.trim() || null,
+  };
+
+  if (input.id) {
+    const { data, error } = await supabase
+      .from('waiver_templates')
+      .update(values)
+      .eq('id', input.id)
+      .is('published_at', null)
+      .select(WAIVER_TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      return { error: `Failed to save waiver draft: ${error.message}`, data: null };
+    }
+
+    return { success: true, data: mapWaiverTemplateRow(data as WaiverTemplateRow) };
+  }
+
+  const { data: latest, error: latestError } = await supabase
+    .from('waiver_templates')
+    .select('version')
+    .eq('kind', kind)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    return { error: `Failed to save waiver draft: ${latestError.message}`, data: null };
+  }
+
+  const { data, error } = await supabase
+    .from('waiver_templates')
+    .insert({ ...values, kind, version: (latest?.version ?? 0) + 1 })
+    .select(WAIVER_TEMPLATE_COLUMNS)
+    .single();
+
+  if (error) {
+    return { error: `Failed to save waiver draft: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: mapWaiverTemplateRow(data as WaiverTemplateRow) };
+}
+
+/**
+ * Server action to publish a draft as the version guests must sign (admin
+ * only). Returns how many guests signed an older version and must sign again.
+ */
+export async function publishWaiverTemplateAction(templateId: string) {
+  const adminRole = await getUserRole();
+
+  // Only admins can manage waivers
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can manage waivers', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('publish_waiver_template', {
+    p_template_id: templateId,
+  });
+
+  if (error) {
+    return { error: `Failed to publish waiver: ${error.message}`, data: null };
+  }
+
+  return {
+    success: true,
+    data: data as { templateId: string; kind: string; version: number; flaggedGuests: number },
+  };
+}
+
+/**
+ * Server action to list current bans ending within the given number of days
+ * that nobody has reviewed yet (admin only)
+ */
+export async function getBansDueForReviewAction(withinDays: number) {
+  const adminRole = await getUserRole();
+
+  // Only admins review bans
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can review bans', data: null };
+  }
+
+  const supabase = await createClient();
+  const horizon = new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('guest_bans_due_for_review')
+    .select(`${GUEST_BAN_COLUMNS},guest_name`)
+    .lte('ends_at', horizon)
+    .order('ends_at', { ascending: true });
+
+  if (error) {
+    return { error: `Failed to fetch bans due for review: ${error.message}`, data: null };
+  }
+
+  return {
+    success: true,
+    data: (data as (GuestBanRow & { guest_name: string | null })[]).map(mapGuestBanReviewRow),
+  };
+}
+
+/**
+ * Server action to review a ban about to end: let it expire, extend it to a
+ * new end date or lift it now (admin only)
+ */
+export async function reviewGuestBanAction(
+  banId: string,
+  outcome: GuestBanReviewOutcome,
+  endsAt: string | null = null
+) {
+  const adminRole = await getUserRole();
+
+  // Only admins review bans
+  if (adminRole !== 'admin') {
+    return { error: 'Unauthorized: Only admins can review bans', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('review_guest_ban', {
+    p_ban_id: banId,
+    p_outcome: outcome,
+    p_ends_at: endsAt,
+  });
+
+  if (error) {
+    return { error: `Failed to review ban: ${error.message}`, data: null };
+  }
+
+  return { success: true, data: mapGuestBanRow(data as GuestBanRow) };
+}
@@ -18,13 +18,46 @@ import {
   FileText,
   Package,
   User,
+  GitMerge,
+  History,
+  MoonStar,
+  ShieldCheck,
+  Settings,
+  FileSignature,
+  ShieldAlert,
 } from 'lucide-react';
 import { useMealsStore, useServicesStore, useDonationsStore, useGuestsStore } from '@/lib/stores';
 import { GuestBatchUpload } from '@/components/guest';
 import AttendanceBatchUpload from '@/components/admin/AttendanceBatchUpload';
 import MonthlySummaryReport from '@/components/admin/MonthlySummaryReport';
+import { InventoryMonthlyReport } from '@/components/admin/InventoryMonthlyReport';
+import { FoodRescueReport } from '@/components/admin/FoodRescueReport';
+import { AuditLogViewer } from '@/components/admin/AuditLogViewer';
+import { ShowerSlotSettingsPanel } from '@/components/admin/ShowerSlotSettingsPanel';
+import { WaitlistSettingsPanel } from '@/components/admin/WaitlistSettingsPanel';
+import { EligibilityRulesPanel } from '@/components/admin/EligibilityRulesPanel';
+import { FoodSafetySettingsPanel } from '@/components/admin/FoodSafetySettingsPanel';
+import { TaxonomySettingsPanel } from '@/components/admin/TaxonomySettingsPanel';
+import { BanReviewQueue } from './BanReviewQueue';
+import { DayCloseoutPanel } from './DayCloseoutPanel';
+import { DisplayTokensPanel } from './DisplayTokensPanel';
+import { GuestMergeTool } from './GuestMergeTool';
+import { UserManagement } from './UserManagement';
+import { WaiverTemplatesPanel } from './WaiverTemplatesPanel';
 
-type AdminTab = 'overview' | 'exports' | 'guests' | 'attendance' | 'analytics';
+type AdminTab =
+  | 'overview'
+  | 'exports'
+  | 'guests'
+  | 'merge'
+  | 'bans'
+  | 'attendance'
+  | 'analytics'
+  | 'audit'
+  | 'closeout'
+  | 'waivers'
+  | 'users'
+  | 'settings';
 
 interface TabItem {
   id: AdminTab;
@@ -36,8 +69,15 @@ const TABS: TabItem[] = [
   { id: 'overview', label: 'Overview', icon: <LayoutDashboard size={18} /> },
   { id: 'exports', label: 'Data Exports', icon: <Download size={18} /> },
   { id: 'guests', label: 'Guest Upload', icon: <UserPlus size={18} /> },
+  { id: 'merge', label: 'Merge Guests', icon: <GitMerge size={18} /> },
+  { id: 'bans', label: 'Ban Reviews', icon: <ShieldAlert size={18} /> },
   { id: 'attendance', label: 'Attendance', icon: <CalendarCheck size={18} /> },
   { id: 'analytics', label: 'Analytics', icon: <BarChart3 size={18} /> },
+  { id: 'audit', label: 'Audit Log', icon: <History size={18} /> },
+  { id: 'closeout', label: 'Day Close-out', icon: <MoonStar size={18} /> },
+  { id: 'waivers', label: 'Waivers', icon: <FileSignature size={18} /> },
+  { id: 'users', label: 'Users & Permissions', icon: <ShieldCheck size={18} /> },
+  { id: 'settings', label: 'Service Settings', icon: <Settings size={18} /> },
 ];
 
 // Progress bar component
@@ -384,6 +424,20 @@ function AnalyticsSection() {
         </p>
         <MonthlySummaryReport />
       </div>
+      <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Inventory In and Out</h2>
+        <p className="text-gray-500 mb-4">
+          Items received, handed to guests and adjusted each month, with opening and closing stock.
+        </p>
+        <InventoryMonthlyReport />
+      </div>
+      <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Food Rescue In and Out</h2>
+        <p className="text-gray-500 mb-4">
+          Donated and La Plaza weight against food served, redistributed, composted and discarded, with the diversion rate for food-rescue partners.
+        </p>
+        <FoodRescueReport />
+      </div>
     </div>
   );
 }
@@ -406,10 +460,37 @@ export default function AdminPage() {
         return <ExportsSection />;
       case 'guests':
         return <GuestUploadSection />;
+      case 'merge':
+        return <GuestMergeTool />;
+      case 'bans':
+        return <BanReviewQueue />;
       case 'attendance':
         return <AttendanceSection />;
       case 'analytics':
         return <AnalyticsSection />;
+      case 'audit':
+        return <AuditLogViewer />;
+      case 'closeout':
+        return <DayCloseoutPanel />;
+      case 'waivers':
+        return <WaiverTemplatesPanel />;
+      case 'users':
+        return (
+          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+            <UserManagement />
+          </div>
+        );
+      case 'settings':
+        return (
+          <div className="space-y-6">
+            <ShowerSlotSettingsPanel />
+            <WaitlistSettingsPanel />
+            <EligibilityRulesPanel />
+            <FoodSafetySettingsPanel />
+            <TaxonomySettingsPanel />
+            <DisplayTokensPanel />
+          </div>
+        );
       default:
         return <OverviewSection />;
     }
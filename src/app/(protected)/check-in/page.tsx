@@ -4,18 +4,31 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useGuestsStore } from '@/lib/stores/useGuestsStore';
 import { useMealsStore } from '@/lib/stores/useMealsStore';
 import { useServicesStore } from '@/lib/stores/useServicesStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
 import { WelcomeBanner, ServiceStatusOverview } from '@/components/check-in';
 import { GuestList } from '@/components/guest/GuestList';
 import { BanGuestModal } from '@/components/guest/BanGuestModal';
+import { EligibilityOverrideModal } from '@/components/guest/EligibilityOverrideModal';
+import { GuestEditModal } from '@/components/guest/GuestEditModal';
 import { ShowerBooking, LaundryBooking, BicycleRepairBooking } from '@/components/services';
 import { WaiverModal } from '@/components/common/WaiverModal';
 import type { GuestFormData } from '@/components/guest/GuestCreateForm';
-import type { Guest } from '@/lib/types';
+import type {
+  Guest,
+  GuestBanInput,
+  WaiverService,
+  EligibilityOverride,
+  EligibilityViolation,
+} from '@/lib/types';
 import { useUserRole } from '@/hooks/useUserRole';
 import { todayPacificDateString } from '@/lib/utils/date';
+import { getShowerSlotFill } from '@/lib/utils/showerSlots';
+import { EligibilityError } from '@/lib/utils/eligibility';
+import { enhancedToast } from '@/utils/toast';
 
 export default function CheckInPage() {
-  const { guests, fetchGuests, isLoading, addGuest, updateGuest, deleteGuest } = useGuestsStore();
+  const { guests, fetchGuests, isLoading, addGuest, deleteGuest, issueGuestBan } = useGuestsStore();
   const { addMealRecord, getTodayMeals, undoMealForGuest } = useMealsStore();
   const { 
     getTodayShowers, 
@@ -27,6 +40,8 @@ export default function CheckInPage() {
     showerRecords: allShowerRecords,
     laundryRecords: allLaundryRecords,
   } = useServicesStore();
+  const showerSlotSettings = useSettingsStore((state) => state.showerSlots);
+  const getWaiverStatus = useWaiverStore((state) => state.getWaiverStatus);
   const { role } = useUserRole();
 
   // Modal states
@@ -35,20 +50,23 @@ export default function CheckInPage() {
   const [showLaundryModal, setShowLaundryModal] = useState(false);
   const [showBicycleModal, setShowBicycleModal] = useState(false);
   const [banTarget, setBanTarget] = useState<Guest | null>(null);
+  const [editTarget, setEditTarget] = useState<Guest | null>(null);
 
-  type WaiverService = 'shower' | 'laundry' | 'bicycle';
-  const [showWaiverModal, setShowWaiverModal] = useState(false);
   const [pendingServiceAction, setPendingServiceAction] = useState<{
     guest: Guest;
     service: WaiverService;
     onContinue: () => void;
   } | null>(null);
-  const [waiverSignatures, setWaiverSignatures] = useState<
-    Record<string, Partial<Record<WaiverService, string>>>
-  >({});
+
+  const [pendingOverride, setPendingOverride] = useState<{
+    guestName: string;
+    violations: EligibilityViolation[];
+    retry: (override: EligibilityOverride) => Promise<void>;
+  } | null>(null);
 
   // Determine if user can navigate to services
   const canNavigateToServices = role === 'admin' || role === 'staff';
+  const canOverrideEligibility = role === 'admin' || role === 'staff';
 
   // Fetch guests on mount
   useEffect(() => {
@@ -74,15 +92,16 @@ export default function CheckInPage() {
 
   // Calculate stats from records
   const showerStats = useMemo(() => {
-    const total = 8; // Default total shower slots
-    const booked = todayShowerRecords.filter(r => r.status === 'booked' || r.status === 'done').length;
+    const slotFill = getShowerSlotFill(showerSlotSettings, todayPacificDateString(), todayShowerRecords);
+    const total = slotFill.reduce((sum, slot) => sum + slot.capacity, 0);
+    const available = slotFill.reduce((sum, slot) => sum + slot.available, 0);
     const waitlistCount = todayShowerRecords.filter(r => r.status === 'waitlisted').length;
     return {
-      available: Math.max(0, total - booked),
+      available,
       total,
       waitlistCount,
     };
-  }, [todayShowerRecords]);
+  }, [todayShowerRecords, showerSlotSettings]);
 
   const laundryStats = useMemo(() => {
     const total = 5; // Default total laundry slots
@@ -111,110 +130,96 @@ export default function CheckInPage() {
 
   const ensureWaiverThen = useCallback(
     (guest: Guest, service: WaiverService, onContinue: () => void) => {
-      const guestSignatures = waiverSignatures[guest.id] || {};
-      const hasServicesWaiver = guestSignatures.shower || guestSignatures.laundry;
-      if ((service === 'shower' || service === 'laundry') && hasServicesWaiver) {
-        onContinue();
-        return;
-      }
-      if (service === 'bicycle' && guestSignatures.bicycle) {
+      const { status } = getWaiverStatus(guest.id, service);
+      if (status === 'valid' || status === 'not_required') {
         onContinue();
         return;
       }
       setPendingServiceAction({ guest, service, onContinue });
-      setShowWaiverModal(true);
     },
-    [waiverSignatures]
+    [getWaiverStatus]
   );
 
-  const waiverModalWaivers = useMemo(() => {
-    if (!pendingServiceAction) return [];
-    const { guest, service } = pendingServiceAction;
-    const guestSignatures = waiverSignatures[guest.id] || {};
-    const sharedSignedAt = guestSignatures.shower || guestSignatures.laundry || null;
-
-    if (service === 'bicycle') {
-      return [
-        {
-          id: 'bicycle-waiver',
-          name: 'Bicycle Program Waiver',
-          description: 'Confirm bicycle waiver is signed before logging repair work.',
-          required: true,
-          signedAt: guestSignatures.bicycle || null,
-        },
-      ];
-    }
-
-    return [
-      {
-        id: 'services-waiver',
-        name: 'Services Waiver',
-        description: 'Required once per year and covers both shower and laundry services.',
-        required: true,
-        signedAt: sharedSignedAt,
-      },
-    ];
-  }, [pendingServiceAction, waiverSignatures]);
-
-  const handleWaiverSigned = useCallback(async () => {
+  const handleWaiverSigned = useCallback(() => {
     if (!pendingServiceAction) return;
-    const { guest, service, onContinue } = pendingServiceAction;
-    const timestamp = new Date().toISOString();
-
-    setWaiverSignatures((prev) => {
-      const guestRecord = prev[guest.id] || {};
-      const updated = { ...guestRecord };
-      if (service === 'bicycle') {
-        updated.bicycle = timestamp;
-      } else {
-        updated.shower = timestamp;
-        updated.laundry = timestamp;
-      }
-      return { ...prev, [guest.id]: updated };
-    });
-
-    setShowWaiverModal(false);
+    const { onContinue } = pendingServiceAction;
     setPendingServiceAction(null);
     onContinue();
   }, [pendingServiceAction]);
 
   const handleCloseWaiverModal = useCallback(() => {
-    setShowWaiverModal(false);
     setPendingServiceAction(null);
   }, []);
 
-  // Handler for adding a meal
-  const handleAddMeal1 = useCallback(
-    async (guestId: string) => {
+  // Runs a check-in; when it goes past an eligibility limit, staff get the
+  // chance to record it anyway with a reason. The error still reaches the
+  // caller so it can roll back or show the limit.
+  const withEligibilityOverride = useCallback(
+    async (guestId: string, record: (override?: EligibilityOverride) => Promise<void>) => {
       try {
-        await addMealRecord?.(guestId, 1);
+        await record();
       } catch (error) {
-        console.error('Failed to add 1 meal:', error);
+        if (error instanceof EligibilityError && canOverrideEligibility) {
+          const guest = guests.find((g) => g.id === guestId);
+          setPendingOverride({
+            guestName: guest ? `${guest.firstName} ${guest.lastName}` : 'Guest',
+            violations: error.violations,
+            retry: record,
+          });
+        }
+        throw error;
       }
     },
-    [addMealRecord]
+    [guests, canOverrideEligibility]
   );
 
-  const handleAddMeal2 = useCallback(
-    async (guestId: string) => {
-      try {
-        await addMealRecord?.(guestId, 2);
-      } catch (error) {
-        console.error('Failed to add 2 meals:', error);
-      }
+  const handleOverrideEligibility = useCallback(
+    async (override: EligibilityOverride) => {
+      if (!pendingOverride) return;
+      await pendingOverride.retry(override);
+      enhancedToast.success('Recorded with override');
     },
-    [addMealRecord]
+    [pendingOverride]
+  );
+
+  // Handler for adding a meal
+  const handleAddMeal1 = useCallback(
+    (guestId: string) =>
+      withEligibilityOverride(guestId, async (override) => {
+        try {
+          await addMealRecord?.(guestId, 1, undefined, override);
+        } catch (error) {
+          console.error('Failed to add 1 meal:', error);
+          throw error;
+        }
+      }),
+    [addMealRecord, withEligibilityOverride]
+  );
+
+  const handleAddMeal2 = useCallback(
+    (guestId: string) =>
+      withEligibilityOverride(guestId, async (override) => {
+        try {
+          await addMealRecord?.(guestId, 2, undefined, override);
+        } catch (error) {
+          console.error('Failed to add 2 meals:', error);
+          throw error;
+        }
+      }),
+    [addMealRecord, withEligibilityOverride]
   );
 
   const handleAddExtraMeal = useCallback(
-    async (guestId: string) => {
-      try {
-        await addMealRecord?.(guestId, 1);
-      } catch (error) {
-        console.error('Failed to add extra meal:', error);
-      }
-    },
-    [addMealRecord]
+    (guestId: string) =>
+      withEligibilityOverride(guestId, async (override) => {
+        try {
+          await addMealRecord?.(guestId, 1, undefined, override);
+        } catch (error) {
+          console.error('Failed to add extra meal:', error);
+          throw error;
+        }
+      }),
+    [addMealRecord, withEligibilityOverride]
   );
 
   const handleUndoMeal = useCallback(
@@ -244,16 +249,34 @@ export default function CheckInPage() {
 
   // Handler for booking shower
   const handleBookShower = useCallback(
-    async (guestId: string, slotTime: string) => {
-      try {
-        await addShowerRecord?.(guestId, slotTime);
-        setShowShowerModal(false);
-        setSelectedGuest(null);
-      } catch (error) {
-        console.error('Failed to book shower:', error);
-      }
-    },
-    [addShowerRecord]
+    (guestId: string, slotTime: string) =>
+      withEligibilityOverride(guestId, async (override) => {
+        try {
+          await addShowerRecord?.(guestId, slotTime, override);
+          setShowShowerModal(false);
+          setSelectedGuest(null);
+        } catch (error) {
+          console.error('Failed to book shower:', error);
+          throw error;
+        }
+      }),
+    [addShowerRecord, withEligibilityOverride]
+  );
+
+  // Handler for waitlisting a shower once today's grid is full
+  const handleWaitlistShower = useCallback(
+    (guestId: string) =>
+      withEligibilityOverride(guestId, async (override) => {
+        try {
+          await addShowerRecord?.(guestId, undefined, override);
+          setShowShowerModal(false);
+          setSelectedGuest(null);
+        } catch (error) {
+          console.error('Failed to waitlist shower:', error);
+          throw error;
+        }
+      }),
+    [addShowerRecord, withEligibilityOverride]
   );
 
   // Handler for adding laundry
@@ -274,14 +297,18 @@ export default function CheckInPage() {
   const handleBookLaundry = useCallback(
     async (guestId: string, bagNumber: string, laundryType: 'onsite' | 'offsite') => {
       try {
-        await addLaundryRecord?.(guestId, laundryType);
-        setShowLaundryModal(false);
-        setSelectedGuest(null);
+        await withEligibilityOverride(guestId, async (override) => {
+          await addLaundryRecord?.(guestId, laundryType, override);
+          setShowLaundryModal(false);
+          setSelectedGuest(null);
+        });
       } catch (error) {
         console.error('Failed to book laundry:', error);
+        // Show the limit in the booking form
+        if (error instanceof EligibilityError) throw error;
       }
     },
-    [addLaundryRecord]
+    [addLaundryRecord, withEligibilityOverride]
   );
 
   // Handler for adding bicycle service
@@ -335,13 +362,9 @@ export default function CheckInPage() {
   );
 
   // Handler for editing a guest
-  const handleEditGuest = useCallback(
-    (guest: Guest) => {
-      // TODO: Open edit modal
-      console.log('Edit guest:', guest);
-    },
-    []
-  );
+  const handleEditGuest = useCallback((guest: Guest) => {
+    setEditTarget(guest);
+  }, []);
 
   // Handler for deleting a guest
   const handleDeleteGuest = useCallback(
@@ -368,38 +391,29 @@ export default function CheckInPage() {
   const handleClearBan = useCallback(
     async (guestId: string) => {
       if (confirm('Are you sure you want to clear the ban for this guest?')) {
-        await updateGuest(guestId, {
-          bannedAt: null,
-          bannedUntil: null,
-          banReason: '',
-          isBanned: false,
-        });
+        try {
+          await issueGuestBan(guestId, { action: 'lift', services: [], reason: '', endsAt: null });
+        } catch (error) {
+          enhancedToast.error(error instanceof Error ? error.message : 'Failed to clear ban');
+        }
       }
     },
-    [updateGuest]
+    [issueGuestBan]
   );
 
   const handleConfirmBan = useCallback(
-    async (reason: string, duration: string) => {
+    async (input: GuestBanInput) => {
       if (!banTarget) return;
-      const now = new Date();
-      let bannedUntil: string | null = null;
-
-      if (duration === '1d' || duration === '1w') {
-        const hours = duration === '1d' ? 24 : 24 * 7;
-        bannedUntil = new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
+      try {
+        await issueGuestBan(banTarget.id, input);
+      } catch (error) {
+        enhancedToast.error(error instanceof Error ? error.message : 'Failed to ban guest');
+        throw error;
       }
-
-      await updateGuest(banTarget.id, {
-        bannedAt: now.toISOString(),
-        bannedUntil,
-        banReason: reason,
-        isBanned: true,
-      });
-
+      enhancedToast.success(input.action === 'warning' ? 'Warning recorded' : 'Guest banned');
       setBanTarget(null);
     },
-    [banTarget, updateGuest]
+    [banTarget, issueGuestBan]
   );
 
   const handleCloseBanModal = useCallback(() => {
@@ -448,6 +462,7 @@ export default function CheckInPage() {
         guest={selectedGuest}
         onClose={() => { setShowShowerModal(false); setSelectedGuest(null); }}
         onBook={handleBookShower}
+        onWaitlist={handleWaitlistShower}
         showerRecords={allShowerRecords as any}
         todayDateString={todayPacificDateString()}
       />
@@ -472,18 +487,30 @@ export default function CheckInPage() {
       )}
 
       <WaiverModal
-        isOpen={showWaiverModal && Boolean(pendingServiceAction)}
+        isOpen={Boolean(pendingServiceAction)}
         onClose={handleCloseWaiverModal}
-        onSign={async () => handleWaiverSigned()}
-        waivers={waiverModalWaivers}
+        onSigned={handleWaiverSigned}
+        guestId={pendingServiceAction?.guest.id ?? ''}
+        service={pendingServiceAction?.service ?? 'shower'}
       />
 
+      <GuestEditModal guest={editTarget} onClose={() => setEditTarget(null)} />
+
       <BanGuestModal
         isOpen={Boolean(banTarget)}
         guestName={banTarget ? `${banTarget.firstName} ${banTarget.lastName}` : ''}
         onClose={handleCloseBanModal}
         onBan={handleConfirmBan}
       />
+
+      {/* Eligibility Override Modal */}
+      <EligibilityOverrideModal
+        isOpen={Boolean(pendingOverride)}
+        guestName={pendingOverride?.guestName ?? ''}
+        violations={pendingOverride?.violations ?? []}
+        onClose={() => setPendingOverride(null)}
+        onOverride={handleOverrideEligibility}
+      />
     </div>
   );
 }
@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { GuestServiceHistory } from '@/components/guest/GuestServiceHistory';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+
+export default function GuestHistoryPage() {
+  const { id } = useParams<{ id: string }>();
+  const { fetchGuests } = useGuestsStore();
+
+  useEffect(() => {
+    fetchGuests();
+  }, [fetchGuests]);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <Link
+        href="/check-in"
+        className="flex items-center gap-2 text-blue-600 hover:text-blue-800 transition-colors mb-4 print:hidden"
+      >
+        <ArrowLeft size={20} />
+        Back to Check In
+      </Link>
+      <GuestServiceHistory guestId={id} />
+    </div>
+  );
+}
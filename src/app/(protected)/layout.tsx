@@ -2,6 +2,8 @@ import { redirect } from 'next/navigation';
 import { getUser } from '@/lib/supabase/server';
 import { hasAccess, type UserRole } from '@/lib/supabase/roles';
 import { MainNav } from '@/components/layout/MainNav';
+import { SyncProvider } from '@/components/providers/SyncProvider';
+import { SyncConflictReview } from '@/components/common/SyncConflictReview';
 
 export default async function ProtectedLayout({
   children,
@@ -17,9 +19,12 @@ export default async function ProtectedLayout({
   const role = user.user_metadata?.role as UserRole | undefined;
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <MainNav user={user} role={role || null} />
-      <main className="pb-20 md:pb-6">{children}</main>
-    </div>
+    <SyncProvider>
+      <div className="min-h-screen bg-gray-50">
+        <MainNav user={user} role={role || null} />
+        <main className="pb-20 md:pb-6">{children}</main>
+        <SyncConflictReview />
+      </div>
+    </SyncProvider>
   );
 }
@@ -1,19 +1,30 @@
 'use client';
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Droplets, Shirt, Gift, Bike, Clock, LayoutGrid } from 'lucide-react';
+import { Droplets, Shirt, Gift, Bike, Clock, LayoutGrid, Package, Thermometer } from 'lucide-react';
 import { useSearchParams } from 'next/navigation';
 import { MealOverview } from '@/components/services/MealOverview';
 import { ShowerSection } from '@/components/services/ShowerSection';
 import { LaundrySection } from '@/components/services/LaundrySection';
 import { BicycleSection } from '@/components/services/BicycleSection';
 import { DonationsSection } from '@/components/services/DonationsSection';
+import { InventorySection } from '@/components/services/InventorySection';
+import { FoodSafetySection } from '@/components/services/FoodSafetySection';
+import { LowStockAlert } from '@/components/services/LowStockAlert';
 import { TimelineSection } from '@/components/services/TimelineSection';
 import { StickyQuickActions } from '@/components/services/StickyQuickActions';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 
-type ServiceTab = 'overview' | 'timeline' | 'showers' | 'laundry' | 'bicycles' | 'donations';
+type ServiceTab =
+  | 'overview'
+  | 'timeline'
+  | 'showers'
+  | 'laundry'
+  | 'bicycles'
+  | 'donations'
+  | 'inventory'
+  | 'food-safety';
 
 const TABS = [
   { id: 'overview' as const, label: 'Overview', icon: LayoutGrid },
@@ -22,6 +33,8 @@ const TABS = [
   { id: 'laundry' as const, label: 'Laundry', icon: Shirt },
   { id: 'bicycles' as const, label: 'Bicycles', icon: Bike },
   { id: 'donations' as const, label: 'Donations', icon: Gift },
+  { id: 'inventory' as const, label: 'Inventory', icon: Package },
+  { id: 'food-safety' as const, label: 'Food Safety', icon: Thermometer },
 ];
 
 export default function ServicesPage() {
@@ -32,7 +45,7 @@ export default function ServicesPage() {
   useEffect(() => {
     const section = searchParams.get('section') || searchParams.get('tab');
     if (!section) return;
-    if (section === 'showers' || section === 'laundry' || section === 'bicycles' || section === 'donations' || section === 'timeline' || section === 'overview') {
+    if (section === 'showers' || section === 'laundry' || section === 'bicycles' || section === 'donations' || section === 'inventory' || section === 'food-safety' || section === 'timeline' || section === 'overview') {
       setActiveTab(section);
     }
   }, [searchParams]);
@@ -79,6 +92,10 @@ export default function ServicesPage() {
         return <BicycleSection />;
       case 'donations':
         return <DonationsSection />;
+      case 'inventory':
+        return <InventorySection />;
+      case 'food-safety':
+        return <FoodSafetySection />;
       default:
         return <MealOverview />;
     }
@@ -98,7 +115,7 @@ export default function ServicesPage() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-32">
       {/* Tab Navigation */}
-      <div className="mb-6 overflow-x-auto">
+      <div className="mb-6 overflow-x-auto print:hidden">
         <div className="flex gap-1 p-1 bg-gray-100 rounded-xl min-w-max">
           {allowedTabs.map((tab) => {
             const Icon = tab.icon;
@@ -121,6 +138,9 @@ export default function ServicesPage() {
         </div>
       </div>
 
+      {/* Low-stock warnings */}
+      {activeTab !== 'inventory' && <LowStockAlert onViewInventory={() => setActiveTab('inventory')} />}
+
       {/* Tab Content */}
       <div className="min-h-[60vh]">
         {renderContent()}
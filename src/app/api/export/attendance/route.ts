@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getUserRole } from '@/lib/supabase/server';
-import { hasPermission, type UserRole } from '@/lib/supabase/roles';
+import { getUserPermissions } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/supabase/roles';
 
 // CSV escape helper
 function escapeCSV(value: string | number | null | undefined): string {
@@ -26,17 +26,16 @@ interface MealAttendanceRow {
 export async function GET(request: NextRequest) {
   try {
     // Check authentication and authorization
-    const role = await getUserRole();
-    const userRole = role as UserRole | null;
-    if (!userRole || !hasPermission(userRole, 'meals', 'read')) {
+    const permissions = await getUserPermissions();
+    if (!permissions || !hasPermission(permissions, 'meals', 'read')) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
 
-    // Only admin and board can export data
-    if (userRole !== 'admin' && userRole !== 'board') {
+    // Export rights come from the role matrix plus any per-user override
+    if (!hasPermission(permissions, 'meals', 'export')) {
       return NextResponse.json(
         { error: 'Insufficient permissions for data export' },
         { status: 403 }
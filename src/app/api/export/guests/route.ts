@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getUserRole } from '@/lib/supabase/server';
-import { hasPermission, type UserRole } from '@/lib/supabase/roles';
+import { getUserPermissions } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/supabase/roles';
 import type { Guest } from '@/lib/types';
+import { computeIsGuestBanned } from '@/lib/utils/normalizers';
+import { describeBanScope } from '@/lib/utils/guestBans';
 
 // CSV escape helper
 function escapeCSV(value: string | null | undefined): string {
@@ -32,6 +34,7 @@ function guestToCSVRow(guest: Guest): string {
     guest.isBanned ? 'Yes' : 'No',
     escapeCSV(guest.banReason),
     escapeCSV(guest.bannedUntil),
+    escapeCSV(guest.isBanned ? describeBanScope(guest.bannedServices) : ''),
     escapeCSV(guest.createdAt),
   ].join(',');
 }
@@ -39,7 +42,8 @@ function guestToCSVRow(guest: Guest): string {
 // Map database row to Guest
 function mapGuestRow(row: Record<string, unknown>): Guest {
   const bannedUntil = row.banned_until as string | null;
-  const isBanned = bannedUntil ? new Date(bannedUntil) > new Date() : false;
+  const bannedAt = row.banned_at as string | null;
+  const isBanned = computeIsGuestBanned(bannedUntil, bannedAt);
 
   return {
     id: row.id as string,
@@ -54,10 +58,11 @@ function mapGuestRow(row: Record<string, unknown>): Guest {
     location: (row.location as string) || 'Mountain View',
     notes: (row.notes as string) || '',
     bicycleDescription: (row.bicycle_description as string) || '',
-    bannedAt: row.banned_at as string | null,
+    bannedAt,
     bannedUntil,
     banReason: (row.ban_reason as string) || '',
     isBanned,
+    bannedServices: (row.banned_services as Guest['bannedServices'] | null) ?? [],
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
@@ -66,17 +71,16 @@ function mapGuestRow(row: Record<string, unknown>): Guest {
 export async function GET() {
   try {
     // Check authentication and authorization
-    const role = await getUserRole();
-    const userRole = role as UserRole | null;
-    if (!userRole || !hasPermission(userRole, 'guests', 'read')) {
+    const permissions = await getUserPermissions();
+    if (!permissions || !hasPermission(permissions, 'guests', 'read')) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       );
     }
 
-    // Only admin and board can export data
-    if (userRole !== 'admin' && userRole !== 'board') {
+    // Export rights come from the role matrix plus any per-user override
+    if (!hasPermission(permissions, 'guests', 'export')) {
       return NextResponse.json(
         { error: 'Insufficient permissions for data export' },
         { status: 403 }
@@ -117,6 +121,7 @@ export async function GET() {
       'Is Banned',
       'Ban Reason',
       'Banned Until',
+      'Banned From',
       'Created At',
     ].join(',');
 
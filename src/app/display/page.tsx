@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { ShowerHead, WashingMachine, MonitorOff } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { DEFAULT_SHOWER_SLOTS } from '@/lib/stores/useSettingsStore';
+import {
+  buildDisplayBoard,
+  DISPLAY_REFRESH_MS,
+  DISPLAY_TOKEN_STORAGE_KEY,
+  mapDisplayLaundryRow,
+  mapDisplayShowerRow,
+  type DisplayBoardLaundryRow,
+  type DisplayBoardShowerRow,
+  type DisplayBoardSlot,
+} from '@/lib/utils/displayBoard';
+import { formatShowerSlotLabel } from '@/lib/utils/showerSlots';
+import { nowPacificTimeString, todayPacificDateString } from '@/lib/utils/date';
+import type { LaundryRecord, ShowerRecord, ShowerSlotSettings } from '@/lib/types';
+
+interface DisplayBoardResponse {
+  date: string;
+  showerSlots: Partial<ShowerSlotSettings> | null;
+  showers: DisplayBoardShowerRow[];
+  laundry: DisplayBoardLaundryRow[];
+}
+
+type BoardStatus = 'loading' | 'ready' | 'unconfigured' | 'offline';
+
+// The board is read through get_display_board(), which checks the device token
+// and only ever returns initials and bag numbers
+const fetchDisplayBoard = async (token: string | null): Promise<DisplayBoardResponse | null> => {
+  if (!token) return null;
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc('get_display_board', { p_token: token });
+  if (error) throw error;
+  return (data as DisplayBoardResponse | null) || null;
+};
+
+// Fetch now and every DISPLAY_REFRESH_MS; returns a function that stops polling
+const pollDisplayBoard = (
+  token: string | null,
+  onBoard: (board: DisplayBoardResponse | null) => void,
+  onError: (error: unknown) => void
+): (() => void) => {
+  const poll = () => fetchDisplayBoard(token).then(onBoard, onError);
+  poll();
+  const interval = setInterval(poll, DISPLAY_REFRESH_MS);
+  return () => clearInterval(interval);
+};
+
+function SlotPanel({ title, slot }: { title: string; slot: DisplayBoardSlot | null }) {
+  return (
+    <div className="flex-1 rounded-3xl bg-white/10 p-8">
+      <p className="text-2xl font-semibold uppercase tracking-wide text-blue-200">{title}</p>
+      {slot ? (
+        <>
+          <p className="mt-2 text-6xl font-black">
+            {formatShowerSlotLabel(slot.time)}
+            <span className="text-3xl font-semibold text-blue-200"> – {formatShowerSlotLabel(slot.endsAt)}</span>
+          </p>
+          <p className="mt-6 text-5xl font-bold tracking-wider">
+            {slot.initials.length > 0 ? slot.initials.join('   ') : 'Open'}
+          </p>
+        </>
+      ) : (
+        <p className="mt-2 text-4xl font-bold text-blue-200">No more showers today</p>
+      )}
+    </div>
+  );
+}
+
+function BagList({ title, bags, tone }: { title: string; bags: string[]; tone: string }) {
+  return (
+    <div className="flex-1 rounded-3xl bg-white/10 p-8">
+      <p className={`text-2xl font-semibold uppercase tracking-wide ${tone}`}>{title}</p>
+      {bags.length > 0 ? (
+        <ul className="mt-4 flex flex-wrap gap-4">
+          {bags.map((bag) => (
+            <li key={bag} className="rounded-2xl bg-white px-6 py-3 text-5xl font-black text-slate-900">
+              {bag}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-4xl font-bold text-blue-200">None yet</p>
+      )}
+    </div>
+  );
+}
+
+function DisplayBoardScreen() {
+  const searchParams = useSearchParams();
+  const [status, setStatus] = useState<BoardStatus>('loading');
+  const [showerRecords, setShowerRecords] = useState<ShowerRecord[]>([]);
+  const [laundryRecords, setLaundryRecords] = useState<LaundryRecord[]>([]);
+  const [initials, setInitials] = useState<Record<string, string>>({});
+  const [slotSettings, setSlotSettings] = useState<ShowerSlotSettings>(DEFAULT_SHOWER_SLOTS);
+  const [clock, setClock] = useState({ date: todayPacificDateString(), time: nowPacificTimeString() });
+
+  useEffect(() => {
+    // A ?token= link sets the device up once; after that the saved token is used
+    const urlToken = searchParams.get('token');
+    if (urlToken) localStorage.setItem(DISPLAY_TOKEN_STORAGE_KEY, urlToken);
+    const token = urlToken || localStorage.getItem(DISPLAY_TOKEN_STORAGE_KEY);
+
+    return pollDisplayBoard(
+      token,
+      (board) => {
+        setClock({ date: todayPacificDateString(), time: nowPacificTimeString() });
+        if (!board) {
+          setStatus('unconfigured');
+          return;
+        }
+        setShowerRecords(board.showers.map(mapDisplayShowerRow));
+        setLaundryRecords(board.laundry.map(mapDisplayLaundryRow));
+        setInitials(Object.fromEntries(board.showers.map((row) => [row.id, row.initials])));
+        setSlotSettings({ ...DEFAULT_SHOWER_SLOTS, ...(board.showerSlots || {}) });
+        setStatus('ready');
+      },
+      (error) => {
+        // Keep showing the last board; the next poll will try again
+        console.error('Failed to refresh display board:', error);
+        setClock({ date: todayPacificDateString(), time: nowPacificTimeString() });
+        setStatus((prev) => (prev === 'ready' ? prev : 'offline'));
+      }
+    );
+  }, [searchParams]);
+
+  if (status === 'unconfigured' || status === 'offline') {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center gap-4 bg-slate-900 p-8 text-center text-white">
+        <MonitorOff size={64} className="text-blue-300" />
+        <h1 className="text-4xl font-bold">
+          {status === 'offline' ? 'Display board unavailable' : 'Display not set up'}
+        </h1>
+        <p className="max-w-xl text-xl text-blue-200">
+          {status === 'offline'
+            ? 'Trying again shortly.'
+            : 'Open the display link from Admin → Service Settings on this device to show the board.'}
+        </p>
+      </main>
+    );
+  }
+
+  const board = buildDisplayBoard(showerRecords, laundryRecords, initials, slotSettings, clock.date, clock.time);
+
+  return (
+    <main className="min-h-screen bg-slate-900 p-8 text-white">
+      <header className="mb-8 flex items-center justify-between">
+        <h1 className="text-5xl font-black">Now Serving</h1>
+        <p className="text-4xl font-bold text-blue-200" aria-live="polite">
+          {formatShowerSlotLabel(clock.time)}
+        </p>
+      </header>
+
+      {status === 'loading' ? (
+        <p className="text-3xl text-blue-200">Loading…</p>
+      ) : (
+        <div className="space-y-8">
+          <section aria-label="Showers">
+            <h2 className="mb-4 flex items-center gap-3 text-3xl font-bold">
+              <ShowerHead size={36} /> Showers
+            </h2>
+            <div className="flex flex-col gap-6 lg:flex-row">
+              <SlotPanel title="Now" slot={board.currentSlot} />
+              <SlotPanel title="Next" slot={board.nextSlot} />
+            </div>
+          </section>
+
+          <section aria-label="Laundry">
+            <h2 className="mb-4 flex items-center gap-3 text-3xl font-bold">
+              <WashingMachine size={36} /> Laundry
+            </h2>
+            <div className="flex flex-col gap-6 lg:flex-row">
+              <BagList title="In the dryer" bags={board.dryingBags} tone="text-orange-300" />
+              <BagList title="Ready for pickup" bags={board.readyBags} tone="text-emerald-300" />
+            </div>
+          </section>
+        </div>
+      )}
+    </main>
+  );
+}
+
+export default function DisplayPage() {
+  return (
+    <Suspense fallback={<main className="min-h-screen bg-slate-900" />}>
+      <DisplayBoardScreen />
+    </Suspense>
+  );
+}
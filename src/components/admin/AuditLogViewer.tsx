@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, ChevronDown, ChevronRight, RefreshCw, Plus, Pencil, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  AUDITED_TABLES,
+  AUDIT_PAGE_SIZE,
+  describeAuditEvent,
+  fetchAuditEvents,
+  getAuditFieldChanges,
+  type AuditAction,
+  type AuditEvent,
+  type AuditEventFilters,
+} from '@/lib/utils/auditLog';
+
+const ACTION_STYLES: Record<AuditAction, { icon: React.ReactNode; className: string }> = {
+  insert: { icon: <Plus size={14} />, className: 'bg-emerald-100 text-emerald-700' },
+  update: { icon: <Pencil size={14} />, className: 'bg-blue-100 text-blue-700' },
+  delete: { icon: <Trash2 size={14} />, className: 'bg-red-100 text-red-700' },
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+function AuditEventRow({ event }: { event: AuditEvent }) {
+  const [expanded, setExpanded] = useState(false);
+  const style = ACTION_STYLES[event.action];
+  const changes = getAuditFieldChanges(event);
+
+  return (
+    <li className="py-3">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-start gap-3 text-left"
+        aria-expanded={expanded}
+      >
+        <span className={`mt-0.5 p-1 rounded-full ${style.className}`}>{style.icon}</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900">{describeAuditEvent(event)}</p>
+          <p className="text-xs text-gray-500">
+            {new Date(event.occurredAt).toLocaleString()} · {event.actorEmail || 'System'}
+            {event.actorRole && ` (${event.actorRole})`}
+          </p>
+        </div>
+        {changes.length > 0 &&
+          (expanded ? (
+            <ChevronDown size={16} className="text-gray-400" />
+          ) : (
+            <ChevronRight size={16} className="text-gray-400" />
+          ))}
+      </button>
+
+      {expanded && changes.length > 0 && (
+        <table className="mt-2 ml-9 text-xs border border-gray-200">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">Field</th>
+              <th className="px-2 py-1 text-left font-medium">Before</th>
+              <th className="px-2 py-1 text-left font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {changes.map((change) => (
+              <tr key={change.column}>
+                <td className="px-2 py-1 text-gray-600">{change.label}</td>
+                <td className="px-2 py-1 text-gray-500 line-through decoration-gray-300">
+                  {formatValue(change.before)}
+                </td>
+                <td className="px-2 py-1 text-gray-900">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Filterable timeline of staff changes recorded in audit_events
+ */
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const loadEvents = useCallback(async (activeFilters: AuditEventFilters, nextPage: number) => {
+    setLoading(true);
+    try {
+      const rows = await fetchAuditEvents(activeFilters, nextPage);
+      setEvents((prev) => (nextPage === 0 ? rows : [...prev, ...rows]));
+      setPage(nextPage);
+      setHasMore(rows.length === AUDIT_PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load audit events:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents(filters, 0);
+  }, [filters, loadEvents]);
+
+  const updateFilter = (key: keyof AuditEventFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <History size={20} className="text-gray-500" />
+          Audit Log
+        </h2>
+        <button
+          type="button"
+          onClick={() => loadEvents(filters, 0)}
+          disabled={loading}
+          className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-4">
+        <select
+          aria-label="Filter by table"
+          value={filters.tableName || ''}
+          onChange={(e) => updateFilter('tableName', e.target.value)}
+          className={inputClass}
+        >
+          <option value="">All records</option>
+          {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+            <option key={table} value={table}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by action"
+          value={filters.action || ''}
+          onChange={(e) => updateFilter('action', e.target.value)}
+          className={inputClass}
+        >
+          <option value="">All actions</option>
+          <option value="insert">Added</option>
+          <option value="update">Changed</option>
+          <option value="delete">Deleted</option>
+        </select>
+        <input
+          type="search"
+          aria-label="Filter by staff email"
+          placeholder="Staff email"
+          value={filters.actorEmail || ''}
+          onChange={(e) => updateFilter('actorEmail', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="date"
+          aria-label="From date"
+          value={filters.startDate || ''}
+          onChange={(e) => updateFilter('startDate', e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="date"
+          aria-label="To date"
+          value={filters.endDate || ''}
+          onChange={(e) => updateFilter('endDate', e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">
+          {loading ? 'Loading…' : 'No changes match these filters.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {events.map((event) => (
+            <AuditEventRow key={event.id} event={event} />
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <div className="mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => loadEvents(filters, page + 1)}
+            disabled={loading}
+            className="px-4 py-2 text-sm font-medium text-emerald-700 hover:bg-emerald-50 rounded-lg disabled:opacity-50"
+          >
+            Load older changes
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AuditLogViewer;
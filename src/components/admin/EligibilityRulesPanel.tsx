@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Scale, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { createClientId } from '@/lib/utils/offlineOperations';
+import { ELIGIBILITY_SERVICES, describeEligibilityRule } from '@/lib/utils/eligibility';
+import type { EligibilityRule, EligibilityService } from '@/lib/types';
+
+const validateEligibilityRules = (rules: EligibilityRule[]): string | null => {
+  for (const rule of rules) {
+    if (!Number.isInteger(rule.limit) || rule.limit < 1) {
+      return 'Each limit must be at least 1';
+    }
+    if (!Number.isInteger(rule.periodDays) || rule.periodDays < 1) {
+      return 'Each period must be at least 1 day';
+    }
+  }
+  return null;
+};
+
+/**
+ * Admin editor for eligibility rules: how many of a service a guest can get
+ * within a number of days before staff have to override
+ */
+export function EligibilityRulesPanel() {
+  const savedRules = useSettingsStore((state) => state.eligibilityRules);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+  const [draft, setDraft] = useState<EligibilityRule[]>(savedRules);
+  const [saving, setSaving] = useState(false);
+
+  const error = validateEligibilityRules(draft);
+
+  const update = (id: string, changes: Partial<EligibilityRule>) => {
+    setDraft((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    setDraft((prev) => [
+      ...prev,
+      { id: createClientId(), service: 'meal', itemKey: null, limit: 1, periodDays: 1, enabled: true },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setSaving(true);
+    try {
+      // Only item rules name an item
+      await updateSettings({
+        eligibilityRules: draft.map((rule) => ({
+          ...rule,
+          itemKey: rule.service === 'item' && rule.itemKey?.trim() ? rule.itemKey.trim() : null,
+        })),
+      });
+      toast.success('Eligibility rules saved');
+    } catch {
+      toast.error('Failed to save eligibility rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+        <Scale size={20} className="text-amber-600" />
+        Eligibility Rules
+      </h2>
+      <p className="text-gray-500 mb-4">
+        Check-ins past a limit are blocked until staff override them with a reason. A period of 1 day means once per
+        service day.
+      </p>
+
+      {draft.length === 0 && <p className="text-sm text-gray-500 mb-4">No rules; every check-in is allowed.</p>}
+
+      <ul className="space-y-3 mb-4">
+        {draft.map((rule) => (
+          <li key={rule.id} className="grid grid-cols-2 lg:grid-cols-6 gap-3 items-end border-b border-gray-100 pb-3">
+            <label className="text-sm text-gray-700">
+              Service
+              <select
+                value={rule.service}
+                onChange={(e) => update(rule.id, { service: e.target.value as EligibilityService })}
+                className={inputClass}
+              >
+                {ELIGIBILITY_SERVICES.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Item
+              <input
+                type="text"
+                value={rule.itemKey ?? ''}
+                disabled={rule.service !== 'item'}
+                placeholder={rule.service === 'item' ? 'Any item' : ''}
+                onChange={(e) => update(rule.id, { itemKey: e.target.value })}
+                className={`${inputClass} disabled:bg-gray-50`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Limit
+              <input
+                type="number"
+                min={1}
+                value={rule.limit}
+                onChange={(e) => update(rule.id, { limit: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Per days
+              <input
+                type="number"
+                min={1}
+                value={rule.periodDays}
+                onChange={(e) => update(rule.id, { periodDays: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+              />
+              Enforced
+            </label>
+            <div className="flex items-center justify-end gap-2 py-2">
+              <button
+                type="button"
+                onClick={() => setDraft((prev) => prev.filter((r) => r.id !== rule.id))}
+                aria-label={`Remove ${describeEligibilityRule(rule)}`}
+                className="text-gray-400 hover:text-red-600"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 border-t border-gray-100 pt-4">
+        <Button variant="outline" size="sm" onClick={addRule} leftIcon={<Plus size={14} />}>
+          Add rule
+        </Button>
+        <div className="flex items-center gap-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button variant="primary" onClick={handleSave} isLoading={saving} disabled={Boolean(error)}>
+            Save rules
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EligibilityRulesPanel;
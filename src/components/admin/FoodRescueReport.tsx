@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { useDonationsStore } from '@/lib/stores/useDonationsStore';
+import { useFoodRescueStore } from '@/lib/stores/useFoodRescueStore';
+import { useMealsStore } from '@/lib/stores/useMealsStore';
+import { formatDisplayDate, todayPacificDateString } from '@/lib/utils/date';
+import { exportDataAsCSV } from '@/lib/utils/export';
+import {
+  FOOD_DISPOSITION_KINDS,
+  FOOD_DISPOSITION_LABELS,
+  buildFoodRescueLedger,
+  formatDiversionRate,
+  totalFoodRescueLedger,
+  type FoodRescueLedgerRow,
+} from '@/lib/utils/foodRescue';
+
+const monthEnd = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return `${month}-${String(new Date(Date.UTC(year, monthIndex, 0)).getUTCDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Food rescue in and out for a month: intake weight and meals served
+ * against what was served, redistributed, composted or discarded each day,
+ * with the diversion rate reported to food-rescue partners
+ */
+export function FoodRescueReport() {
+  const { donationRecords, laPlazaRecords } = useDonationsStore();
+  const foodDispositions = useFoodRescueStore((state) => state.foodDispositions);
+  const {
+    mealRecords,
+    rvMealRecords,
+    extraMealRecords,
+    shelterMealRecords,
+    unitedEffortMealRecords,
+    dayWorkerMealRecords,
+    lunchBagMealRecords,
+  } = useMealsStore();
+  const [month, setMonth] = useState(() => todayPacificDateString().slice(0, 7));
+
+  const { days, total } = useMemo(() => {
+    const today = todayPacificDateString();
+    const lastDay = monthEnd(month);
+    const rows = buildFoodRescueLedger({
+      donations: donationRecords,
+      laPlazaDonations: laPlazaRecords,
+      dispositions: foodDispositions,
+      meals: [
+        ...mealRecords,
+        ...rvMealRecords,
+        ...extraMealRecords,
+        ...shelterMealRecords,
+        ...unitedEffortMealRecords,
+        ...dayWorkerMealRecords,
+        ...lunchBagMealRecords,
+      ],
+      from: `${month}-01`,
+      to: lastDay < today ? lastDay : today,
+    });
+    return { days: rows, total: totalFoodRescueLedger(rows, month) };
+  }, [
+    donationRecords,
+    laPlazaRecords,
+    foodDispositions,
+    mealRecords,
+    rvMealRecords,
+    extraMealRecords,
+    shelterMealRecords,
+    unitedEffortMealRecords,
+    dayWorkerMealRecords,
+    lunchBagMealRecords,
+    month,
+  ]);
+
+  // Days with nothing in, out or served are left off the table
+  const activeDays = days.filter((row) => row.intakeLbs > 0 || row.totalOutLbs > 0 || row.mealsServed > 0);
+
+  const handleExport = () => {
+    const toCsvRow = (row: FoodRescueLedgerRow, label: string) => ({
+      Date: label,
+      'Donated (lbs)': row.donatedLbs,
+      'La Plaza (lbs)': row.laPlazaLbs,
+      'Food in (lbs)': row.intakeLbs,
+      'Meals served': row.mealsServed,
+      ...Object.fromEntries(
+        FOOD_DISPOSITION_KINDS.map((kind) => [`${FOOD_DISPOSITION_LABELS[kind]} (lbs)`, row.outLbs[kind]])
+      ),
+      'Food out (lbs)': row.totalOutLbs,
+      'Not recorded (lbs)': row.unaccountedLbs,
+      'Diversion rate': formatDiversionRate(row.diversionRate),
+    });
+    exportDataAsCSV(
+      [...activeDays.map((row) => toCsvRow(row, row.period)), toCsvRow(total, 'Total')],
+      `food-rescue-${month}.csv`
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <label className="text-sm text-gray-700">
+          Month
+          <input
+            type="month"
+            value={month}
+            max={todayPacificDateString().slice(0, 7)}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </label>
+        <Button variant="outline" onClick={handleExport} disabled={activeDays.length === 0} leftIcon={<Download size={16} />}>
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="rounded-lg bg-gray-50 p-3">
+          <div className="text-xs text-gray-500">Food in</div>
+          <div className="text-xl font-semibold text-gray-900">{total.intakeLbs} lbs</div>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-3">
+          <div className="text-xs text-gray-500">Food out</div>
+          <div className="text-xl font-semibold text-gray-900">{total.totalOutLbs} lbs</div>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-3">
+          <div className="text-xs text-gray-500">Meals served</div>
+          <div className="text-xl font-semibold text-gray-900">{total.mealsServed}</div>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-3">
+          <div className="text-xs text-gray-500">Diversion rate</div>
+          <div className="text-xl font-semibold text-emerald-700">{formatDiversionRate(total.diversionRate)}</div>
+        </div>
+      </div>
+
+      {activeDays.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No food in or out recorded this month.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-3 py-2 font-medium">Date</th>
+                <th className="text-right px-3 py-2 font-medium">Food in</th>
+                <th className="text-right px-3 py-2 font-medium">Meals</th>
+                {FOOD_DISPOSITION_KINDS.map((kind) => (
+                  <th key={kind} className="text-right px-3 py-2 font-medium">
+                    {FOOD_DISPOSITION_LABELS[kind]}
+                  </th>
+                ))}
+                <th className="text-right px-3 py-2 font-medium">Not recorded</th>
+                <th className="text-right px-3 py-2 font-medium">Diverted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...activeDays, total].map((row) => (
+                <tr key={row.period} className={row === total ? 'font-semibold bg-gray-50' : undefined}>
+                  <td className="px-3 py-2 text-gray-900">
+                    {row === total
+                      ? 'Total'
+                      : formatDisplayDate(`${row.period}T12:00:00`, { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </td>
+                  <td className="px-3 py-2 text-right text-emerald-700">{row.intakeLbs}</td>
+                  <td className="px-3 py-2 text-right">{row.mealsServed}</td>
+                  {FOOD_DISPOSITION_KINDS.map((kind) => (
+                    <td key={kind} className={`px-3 py-2 text-right ${kind === 'discarded' ? 'text-red-700' : ''}`}>
+                      {row.outLbs[kind]}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right text-gray-500">{row.unaccountedLbs}</td>
+                  <td className="px-3 py-2 text-right">{formatDiversionRate(row.diversionRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FoodRescueReport;
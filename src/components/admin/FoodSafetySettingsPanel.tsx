@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Thermometer } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { FOOD_HOLDING_LABELS, describeSafeRange } from '@/lib/utils/foodSafety';
+import type { FoodHolding, FoodSafetyRange, FoodSafetyRanges } from '@/lib/types';
+
+const HOLDINGS = Object.keys(FOOD_HOLDING_LABELS) as FoodHolding[];
+
+// Blank inputs mean no limit on that side
+type RangeDraft = Record<FoodHolding, { minF: string; maxF: string }>;
+
+const toDraft = (ranges: FoodSafetyRanges): RangeDraft =>
+  Object.fromEntries(
+    HOLDINGS.map((holding) => [
+      holding,
+      { minF: ranges[holding].minF?.toString() ?? '', maxF: ranges[holding].maxF?.toString() ?? '' },
+    ])
+  ) as RangeDraft;
+
+const parseBound = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const fromDraft = (draft: RangeDraft): FoodSafetyRanges =>
+  Object.fromEntries(
+    HOLDINGS.map((holding) => [
+      holding,
+      { minF: parseBound(draft[holding].minF), maxF: parseBound(draft[holding].maxF) },
+    ])
+  ) as FoodSafetyRanges;
+
+const validateRanges = (ranges: FoodSafetyRanges): string | null => {
+  for (const holding of HOLDINGS) {
+    const { minF, maxF }: FoodSafetyRange = ranges[holding];
+    if ((minF !== null && !Number.isFinite(minF)) || (maxF !== null && !Number.isFinite(maxF))) {
+      return 'Temperatures must be numbers';
+    }
+    if (minF !== null && maxF !== null && minF > maxF) {
+      return `${FOOD_HOLDING_LABELS[holding]}: the minimum is above the maximum`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Admin editor for the safe holding temperatures readings are checked against
+ */
+export function FoodSafetySettingsPanel() {
+  const savedRanges = useSettingsStore((state) => state.foodSafetyRanges);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+  const [draft, setDraft] = useState<RangeDraft>(() => toDraft(savedRanges));
+  const [saving, setSaving] = useState(false);
+
+  const ranges = fromDraft(draft);
+  const error = validateRanges(ranges);
+
+  const update = (holding: FoodHolding, changes: Partial<RangeDraft[FoodHolding]>) => {
+    setDraft((prev) => ({ ...prev, [holding]: { ...prev[holding], ...changes } }));
+  };
+
+  const handleSave = async () => {
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setSaving(true);
+    try {
+      await updateSettings({ foodSafetyRanges: ranges });
+      toast.success('Safe temperature ranges saved');
+    } catch {
+      toast.error('Failed to save safe temperature ranges');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+        <Thermometer size={20} className="text-orange-600" />
+        Food Safety Temperatures
+      </h2>
+      <p className="text-gray-500 mb-4">
+        Readings outside these ranges need a corrective action. Leave a side blank for no limit. Changes apply to new
+        readings; logged ones keep the range they were checked against.
+      </p>
+
+      <ul className="space-y-3 mb-4">
+        {HOLDINGS.map((holding) => (
+          <li key={holding} className="grid grid-cols-2 lg:grid-cols-4 gap-3 items-end border-b border-gray-100 pb-3">
+            <p className="text-sm font-medium text-gray-900 py-2">{FOOD_HOLDING_LABELS[holding]}</p>
+            <label className="text-sm text-gray-700">
+              Minimum (°F)
+              <input
+                type="number"
+                step="0.1"
+                value={draft[holding].minF}
+                placeholder="No minimum"
+                onChange={(e) => update(holding, { minF: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Maximum (°F)
+              <input
+                type="number"
+                step="0.1"
+                value={draft[holding].maxF}
+                placeholder="No maximum"
+                onChange={(e) => update(holding, { maxF: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <p className="text-sm text-gray-500 py-2">Safe: {describeSafeRange(ranges[holding])}</p>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-end gap-3 border-t border-gray-100 pt-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button variant="primary" onClick={handleSave} isLoading={saving} disabled={Boolean(error)}>
+          Save ranges
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default FoodSafetySettingsPanel;
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Download, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useInventoryStore } from '@/lib/stores/useInventoryStore';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { exportDataAsCSV } from '@/lib/utils/export';
+import { buildInventoryMonthReport, describeStockSlot } from '@/lib/utils/inventory';
+import type { InventoryTransaction } from '@/lib/types';
+
+// A day early so the whole first Pacific day of the month is included
+const monthStartQuery = (month: string) => {
+  const start = new Date(`${month}-01T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - 1);
+  return start.toISOString();
+};
+
+/**
+ * Stock in and out per item for a month: opening count, received,
+ * given to guests, adjustments and closing count
+ */
+export function InventoryMonthlyReport() {
+  const inventoryItems = useInventoryStore((state) => state.inventoryItems);
+  const stockLevels = useInventoryStore((state) => state.stockLevels);
+  const fetchInventoryTransactions = useInventoryStore((state) => state.fetchInventoryTransactions);
+  const [month, setMonth] = useState(() => todayPacificDateString().slice(0, 7));
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadTransactions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTransactions(await fetchInventoryTransactions(monthStartQuery(month)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load stock history');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchInventoryTransactions, month]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const rows = useMemo(
+    () => buildInventoryMonthReport(inventoryItems, stockLevels, transactions, month),
+    [inventoryItems, stockLevels, transactions, month]
+  );
+
+  const handleExport = () => {
+    exportDataAsCSV(
+      rows.map((row) => ({
+        Item: row.name,
+        Size: row.size ?? '',
+        Opening: row.opening,
+        Received: row.received,
+        'Given to guests': row.distributed,
+        Adjustments: row.adjusted,
+        Closing: row.closing,
+      })),
+      `inventory-${month}.csv`
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <label className="text-sm text-gray-700">
+          Month
+          <input
+            type="month"
+            value={month}
+            max={todayPacificDateString().slice(0, 7)}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </label>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadTransactions} isLoading={loading} leftIcon={<RefreshCw size={16} />}>
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={rows.length === 0} leftIcon={<Download size={16} />}>
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No items in the inventory catalog.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-3 py-2 font-medium">Item</th>
+                <th className="text-right px-3 py-2 font-medium">Opening</th>
+                <th className="text-right px-3 py-2 font-medium">Received</th>
+                <th className="text-right px-3 py-2 font-medium">Given to guests</th>
+                <th className="text-right px-3 py-2 font-medium">Adjustments</th>
+                <th className="text-right px-3 py-2 font-medium">Closing</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row) => (
+                <tr key={`${row.itemKey}:${row.size ?? ''}`}>
+                  <td className="px-3 py-2 text-gray-900">{describeStockSlot(row, row.size)}</td>
+                  <td className="px-3 py-2 text-right">{row.opening}</td>
+                  <td className="px-3 py-2 text-right text-emerald-700">{row.received}</td>
+                  <td className="px-3 py-2 text-right text-blue-700">{row.distributed}</td>
+                  <td className="px-3 py-2 text-right">
+                    {row.adjusted > 0 ? `+${row.adjusted}` : row.adjusted}
+                  </td>
+                  <td className="px-3 py-2 text-right font-semibold">{row.closing}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InventoryMonthlyReport;
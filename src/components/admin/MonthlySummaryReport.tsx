@@ -8,6 +8,7 @@ import {
   Info,
   ChevronDown,
   Lightbulb,
+  Link2,
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { useMealsStore } from '@/lib/stores/useMealsStore';
@@ -286,6 +287,13 @@ interface ShowerLaundryRow {
   isYearToDate: boolean;
 }
 
+interface OnBehalfRow {
+  month: string;
+  meals: number;
+  laundryLoads: number;
+  isYearToDate: boolean;
+}
+
 interface BicycleRow {
   month: string;
   newBikes: number;
@@ -533,6 +541,43 @@ const MonthlySummaryReport: React.FC = () => {
     return { rows, totals };
   }, [bicycleRecords, normalizeRepairTypes, reportYear, currentMonth]);
 
+  // Meals and laundry collected by a linked guest for someone who wasn't there
+  const onBehalfSummary = useMemo(() => {
+    const pickedUpStatuses = new Set<string>([LAUNDRY_STATUS.PICKED_UP, LAUNDRY_STATUS.OFFSITE_PICKED_UP]);
+    const monthOf = (value: string) => {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) || date.getFullYear() !== reportYear ? null : date.getMonth();
+    };
+
+    const rows: OnBehalfRow[] = MONTH_NAMES.map((monthName, monthIndex) => ({
+      month: monthName,
+      meals: 0,
+      laundryLoads: 0,
+      isYearToDate: monthIndex <= currentMonth,
+    }));
+
+    (mealRecords || []).forEach((record) => {
+      if (!record?.pickedUpCount || !record.date) return;
+      const monthIndex = monthOf(record.date);
+      if (monthIndex !== null) rows[monthIndex].meals += record.pickedUpCount;
+    });
+
+    (laundryRecords || []).forEach((record) => {
+      if (!record?.pickedUpBy || !record.date || !pickedUpStatuses.has(record.status)) return;
+      const monthIndex = monthOf(record.date);
+      if (monthIndex !== null) rows[monthIndex].laundryLoads += 1;
+    });
+
+    const totals = rows
+      .filter((row) => row.isYearToDate)
+      .reduce(
+        (acc, row) => ({ meals: acc.meals + row.meals, laundryLoads: acc.laundryLoads + row.laundryLoads }),
+        { meals: 0, laundryLoads: 0 }
+      );
+
+    return { rows, totals };
+  }, [mealRecords, laundryRecords, reportYear, currentMonth]);
+
   // Shower & Laundry summary
   const showerLaundrySummary = useMemo(() => {
     const guestMap = new Map<string, Guest>();
@@ -1127,6 +1172,53 @@ const MonthlySummaryReport: React.FC = () => {
           </table>
         </div>
       </div>
+
+      {/* On-behalf pick-ups */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Link2 className="text-indigo-600" size={20} />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Pick-ups on Behalf of Linked Guests</h3>
+            <p className="text-sm text-gray-600">
+              Meals and finished laundry collected by a linked guest in {reportYear}
+            </p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="bg-gray-200">
+                <th className="border border-gray-300 px-3 py-2 text-left font-semibold text-gray-900">Month</th>
+                <th className="border border-gray-300 px-3 py-2 text-right font-semibold text-gray-900 bg-emerald-50">Meals</th>
+                <th className="border border-gray-300 px-3 py-2 text-right font-semibold text-gray-900 bg-purple-50">Laundry Loads</th>
+              </tr>
+            </thead>
+            <tbody>
+              {onBehalfSummary.rows.filter((r) => r.isYearToDate).map((row) => (
+                <tr key={row.month} className="hover:bg-gray-50">
+                  <td className="border border-gray-300 px-3 py-2 font-medium text-gray-900">{row.month}</td>
+                  <td className="border border-gray-300 px-3 py-2 text-right bg-emerald-50 tabular-nums">
+                    {row.meals.toLocaleString()}
+                  </td>
+                  <td className="border border-gray-300 px-3 py-2 text-right bg-purple-50 tabular-nums">
+                    {row.laundryLoads.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-200 font-bold">
+                <td className="border border-gray-300 px-3 py-2 text-gray-900">Year to Date</td>
+                <td className="border border-gray-300 px-3 py-2 text-right bg-emerald-50 tabular-nums">
+                  {onBehalfSummary.totals.meals.toLocaleString()}
+                </td>
+                <td className="border border-gray-300 px-3 py-2 text-right bg-purple-50 tabular-nums">
+                  {onBehalfSummary.totals.laundryLoads.toLocaleString()}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ShowerHead, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { generateShowerSlots, formatShowerSlotLabel } from '@/lib/utils/showerSlots';
+import type { ShowerSlotSettings } from '@/lib/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const validateShowerSlots = (settings: ShowerSlotSettings): string | null => {
+  if (!Number.isInteger(settings.stallCount) || settings.stallCount < 1) {
+    return 'Stall count must be at least 1';
+  }
+  if (!Number.isInteger(settings.slotMinutes) || settings.slotMinutes < 5) {
+    return 'Slots must be at least 5 minutes long';
+  }
+  if (!settings.startTime || !settings.endTime || settings.startTime >= settings.endTime) {
+    return 'Service hours must end after they start';
+  }
+  return null;
+};
+
+/**
+ * Admin editor for the shower grid: stalls, slot length, hours and closures
+ */
+export function ShowerSlotSettingsPanel() {
+  const savedSettings = useSettingsStore((state) => state.showerSlots);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+  const [draft, setDraft] = useState<ShowerSlotSettings>(savedSettings);
+  const [newBlackoutDate, setNewBlackoutDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Preview against a day that isn't blacked out so closures don't hide the grid
+  const previewSlots = generateShowerSlots({ ...draft, blackoutWeekdays: [], blackoutDates: [] }, '2000-01-03');
+  const error = validateShowerSlots(draft);
+
+  const update = <K extends keyof ShowerSlotSettings>(key: K, value: ShowerSlotSettings[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const toggleWeekday = (day: number) => {
+    update(
+      'blackoutWeekdays',
+      draft.blackoutWeekdays.includes(day)
+        ? draft.blackoutWeekdays.filter((d) => d !== day)
+        : [...draft.blackoutWeekdays, day].sort()
+    );
+  };
+
+  const addBlackoutDate = () => {
+    if (!newBlackoutDate || draft.blackoutDates.includes(newBlackoutDate)) return;
+    update('blackoutDates', [...draft.blackoutDates, newBlackoutDate].sort());
+    setNewBlackoutDate('');
+  };
+
+  const handleSave = async () => {
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setSaving(true);
+    try {
+      await updateSettings({ showerSlots: draft });
+      toast.success('Shower schedule saved');
+    } catch {
+      toast.error('Failed to save shower schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+        <ShowerHead size={20} className="text-blue-600" />
+        Shower Schedule
+      </h2>
+      <p className="text-gray-500 mb-4">
+        Bookings are checked against this grid. Once every stall is taken, new guests go on the waitlist.
+      </p>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+        <label className="text-sm text-gray-700">
+          Stalls
+          <input
+            type="number"
+            min={1}
+            value={draft.stallCount}
+            onChange={(e) => update('stallCount', Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Slot length (minutes)
+          <input
+            type="number"
+            min={5}
+            step={5}
+            value={draft.slotMinutes}
+            onChange={(e) => update('slotMinutes', Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Opens
+          <input
+            type="time"
+            value={draft.startTime}
+            onChange={(e) => update('startTime', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Closes
+          <input
+            type="time"
+            value={draft.endTime}
+            onChange={(e) => update('endTime', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <fieldset className="mb-4">
+        <legend className="text-sm text-gray-700 mb-2">Closed every</legend>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map((label, day) => (
+            <label key={label} className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.blackoutWeekdays.includes(day)}
+                onChange={() => toggleWeekday(day)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="mb-4">
+        <p className="text-sm text-gray-700 mb-2">Closed on</p>
+        <div className="flex gap-2 mb-2 max-w-sm">
+          <input
+            type="date"
+            aria-label="Blackout date"
+            value={newBlackoutDate}
+            onChange={(e) => setNewBlackoutDate(e.target.value)}
+            className={inputClass}
+          />
+          <Button variant="outline" size="sm" onClick={addBlackoutDate} leftIcon={<Plus size={14} />}>
+            Add
+          </Button>
+        </div>
+        {draft.blackoutDates.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {draft.blackoutDates.map((date) => (
+              <li
+                key={date}
+                className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-xs text-gray-700"
+              >
+                {date}
+                <button
+                  type="button"
+                  onClick={() => update('blackoutDates', draft.blackoutDates.filter((d) => d !== date))}
+                  aria-label={`Remove ${date}`}
+                  className="text-gray-400 hover:text-gray-700"
+                >
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 border-t border-gray-100 pt-4">
+        <p className={`text-sm ${error ? 'text-red-600' : 'text-gray-500'}`}>
+          {error ||
+            (previewSlots.length > 0
+              ? `${previewSlots.length} slots from ${formatShowerSlotLabel(previewSlots[0])} · ${
+                  previewSlots.length * draft.stallCount
+                } showers per open day`
+              : 'No slots fit in these hours')}
+        </p>
+        <Button variant="primary" onClick={handleSave} isLoading={saving} disabled={Boolean(error)}>
+          Save schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default ShowerSlotSettingsPanel;
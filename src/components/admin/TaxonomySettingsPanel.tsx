@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ListOrdered, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui';
+import { useTaxonomyStore } from '@/lib/stores/useTaxonomyStore';
+import { GUEST_MEAL_TYPES, TAXONOMY_KINDS, TAXONOMY_LABELS, taxonomyValuesFor } from '@/lib/utils/taxonomies';
+import type { TaxonomyKind, TaxonomyValue } from '@/lib/types';
+
+const TAXONOMY_HINTS: Record<TaxonomyKind, string> = {
+  meal_type: 'New meal types show up as partner programs on the meals overview, where their counts are entered.',
+  donation_type: 'Offered when logging a donation and printed on donor receipts.',
+  la_plaza_category: 'Used for La Plaza Market deliveries and their receipt lines.',
+};
+
+const TAXONOMY_SINGULAR: Record<TaxonomyKind, string> = {
+  meal_type: 'meal type',
+  donation_type: 'donation type',
+  la_plaza_category: 'La Plaza category',
+};
+
+interface ValueDraft {
+  label: string;
+  sortOrder: string;
+  active: boolean;
+}
+
+const draftKey = (entry: Pick<TaxonomyValue, 'taxonomy' | 'value'>) => `${entry.taxonomy}:${entry.value}`;
+
+const toDraft = (entry: TaxonomyValue): ValueDraft => ({
+  label: entry.label,
+  sortOrder: String(entry.sortOrder),
+  active: entry.active,
+});
+
+/**
+ * Admin editor for meal types, donation types and La Plaza categories.
+ * Values are retired rather than deleted so past records keep their label.
+ */
+export function TaxonomySettingsPanel() {
+  const taxonomyValues = useTaxonomyStore((state) => state.taxonomyValues);
+  const saveTaxonomyValue = useTaxonomyStore((state) => state.saveTaxonomyValue);
+  const [taxonomy, setTaxonomy] = useState<TaxonomyKind>('meal_type');
+  const [drafts, setDrafts] = useState<Record<string, ValueDraft>>({});
+  const [newLabel, setNewLabel] = useState('');
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const entries = taxonomyValuesFor(taxonomyValues, taxonomy);
+  const nextSortOrder = entries.reduce((max, entry) => Math.max(max, entry.sortOrder), 0) + 10;
+
+  const draftFor = (entry: TaxonomyValue) => drafts[draftKey(entry)] ?? toDraft(entry);
+
+  const isDirty = (entry: TaxonomyValue) => {
+    const draft = draftFor(entry);
+    return (
+      draft.label !== entry.label || draft.sortOrder !== String(entry.sortOrder) || draft.active !== entry.active
+    );
+  };
+
+  const update = (entry: TaxonomyValue, changes: Partial<ValueDraft>) => {
+    setDrafts((prev) => ({ ...prev, [draftKey(entry)]: { ...draftFor(entry), ...changes } }));
+  };
+
+  const handleSave = async (entry: TaxonomyValue) => {
+    const draft = draftFor(entry);
+    const key = draftKey(entry);
+    setSavingKey(key);
+    try {
+      await saveTaxonomyValue({
+        taxonomy: entry.taxonomy,
+        value: entry.value,
+        label: draft.label,
+        sortOrder: Number(draft.sortOrder),
+        active: draft.active,
+      });
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      toast.success(`${draft.label.trim()} saved`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingKey('new');
+    try {
+      const saved = await saveTaxonomyValue({ taxonomy, label: newLabel, sortOrder: nextSortOrder, active: true });
+      setNewLabel('');
+      toast.success(`${saved.label} added`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+        <ListOrdered size={20} className="text-emerald-600" />
+        Lists
+      </h2>
+      <p className="text-gray-500 mb-4">
+        Labels and order for the choices offered in forms, charts and reports. Retire a value to stop offering it;
+        records that already use it keep showing its label.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {TAXONOMY_KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => setTaxonomy(kind)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              taxonomy === kind ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {TAXONOMY_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">{TAXONOMY_HINTS[taxonomy]}</p>
+
+      <ul className="space-y-3 mb-4">
+        {entries.map((entry) => {
+          const draft = draftFor(entry);
+          // Guest, RV and extra meals are recorded per guest and can't be switched off here
+          const fixed = taxonomy === 'meal_type' && GUEST_MEAL_TYPES.includes(entry.value);
+          return (
+            <li
+              key={entry.value}
+              className="grid grid-cols-2 lg:grid-cols-5 gap-3 items-end border-b border-gray-100 pb-3"
+            >
+              <p className={`text-sm py-2 font-mono ${entry.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                {entry.value}
+              </p>
+              <label className="text-sm text-gray-700">
+                Label
+                <input
+                  type="text"
+                  value={draft.label}
+                  onChange={(e) => update(entry, { label: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Sort order
+                <input
+                  type="number"
+                  step="1"
+                  value={draft.sortOrder}
+                  onChange={(e) => update(entry, { sortOrder: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+                <input
+                  type="checkbox"
+                  checked={draft.active}
+                  disabled={fixed}
+                  onChange={(e) => update(entry, { active: e.target.checked })}
+                />
+                {draft.active ? 'Active' : 'Retired'}
+              </label>
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSave(entry)}
+                  isLoading={savingKey === draftKey(entry)}
+                  disabled={!isDirty(entry)}
+                >
+                  Save
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3 border-t border-gray-100 pt-4">
+        <label className="text-sm text-gray-700 flex-1 min-w-[12rem]">
+          New {TAXONOMY_SINGULAR[taxonomy]}
+          <input
+            type="text"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="Label"
+            className={inputClass}
+          />
+        </label>
+        <Button
+          type="submit"
+          variant="primary"
+          isLoading={savingKey === 'new'}
+          disabled={!newLabel.trim()}
+          leftIcon={<Plus size={16} />}
+        >
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default TaxonomySettingsPanel;
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { BellRing } from 'lucide-react';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { playChime } from '@/utils/chime';
+
+/**
+ * Admin toggle for the chime played when a waitlisted guest moves up
+ */
+export function WaitlistSettingsPanel() {
+  const waitlistChime = useSettingsStore((state) => state.waitlistChime);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-1">
+        <BellRing size={20} className="text-amber-600" />
+        Waitlist Alerts
+      </h2>
+      <p className="text-gray-500 mb-4">
+        When a shower is cancelled or marked no-show, or an onsite load leaves the machines, the
+        next guest in line moves up automatically and staff get a notification.
+      </p>
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={waitlistChime}
+            onChange={(e) => updateSettings({ waitlistChime: e.target.checked })}
+          />
+          Play a chime with each notification
+        </label>
+        <button
+          type="button"
+          onClick={playChime}
+          className="text-sm text-emerald-700 hover:underline"
+        >
+          Test chime
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default WaitlistSettingsPanel;
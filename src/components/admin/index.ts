@@ -2,7 +2,15 @@
 export * from './OverviewDashboard';
 export * from './GuestsByCityReport';
 export * from './TableBrowser';
+export * from './AuditLogViewer';
+export * from './ShowerSlotSettingsPanel';
+export * from './WaitlistSettingsPanel';
+export * from './EligibilityRulesPanel';
+export * from './FoodSafetySettingsPanel';
+export * from './TaxonomySettingsPanel';
 export * from './OnsiteMealDemographics';
 export { default as MealReport } from './MealReport';
 export { default as MonthlySummaryReport } from './MonthlySummaryReport';
+export { default as InventoryMonthlyReport } from './InventoryMonthlyReport';
+export { default as FoodRescueReport } from './FoodRescueReport';
 export { default as AttendanceBatchUpload } from './AttendanceBatchUpload';
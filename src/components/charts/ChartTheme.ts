@@ -59,6 +59,20 @@ export const MEAL_TYPE_LABELS: Record<string, string> = {
   lunch_bag: 'Lunch Bags',
 };
 
+// Chart data keys that differ from the stored meal type
+const MEAL_CHART_KEY_TYPES: Record<string, string> = {
+  unitedEffort: 'united_effort',
+  extras: 'extra',
+  dayWorker: 'day_worker',
+  lunchBags: 'lunch_bag',
+};
+
+export const mealTypeForChartKey = (key: string): string => MEAL_CHART_KEY_TYPES[key] ?? key;
+
+// Meal programs added by admins have no fixed color, so take one from the palette
+export const mealTypeColor = (key: string, index = 0): string =>
+  MEAL_TYPE_COLORS[key] ?? CHART_COLOR_PALETTE[index % CHART_COLOR_PALETTE.length];
+
 // Service type colors
 export const SERVICE_COLORS: Record<string, string> = {
   meals: '#3b82f6',     // Blue
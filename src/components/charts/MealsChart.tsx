@@ -14,9 +14,11 @@ import {
   Bar,
 } from 'recharts';
 import { Download, Utensils } from 'lucide-react';
+import { useTaxonomyStore } from '@/lib/stores/useTaxonomyStore';
+import { taxonomyLabel } from '@/lib/utils/taxonomies';
 import { 
-  MEAL_TYPE_COLORS, 
-  MEAL_TYPE_LABELS,
+  mealTypeColor,
+  mealTypeForChartKey,
   CHART_GRID_STYLE,
   CHART_TOOLTIP_STYLE,
 } from './ChartTheme';
@@ -38,10 +40,12 @@ interface CustomTooltipProps {
   active?: boolean;
   payload?: Array<{ payload: MealDataPoint }>;
   selectedMealTypes: string[];
+  labels: Record<string, string>;
+  colors: Record<string, string>;
 }
 
 // Move CustomTooltip outside component to avoid React Compiler error
-function MealsChartTooltip({ active, payload, selectedMealTypes }: CustomTooltipProps) {
+function MealsChartTooltip({ active, payload, selectedMealTypes, labels, colors }: CustomTooltipProps) {
   if (!active || !payload || !payload.length) return null;
 
   const dayData = payload[0].payload;
@@ -57,10 +61,10 @@ function MealsChartTooltip({ active, payload, selectedMealTypes }: CustomTooltip
           return (
             <p
               key={type}
-              style={{ color: MEAL_TYPE_COLORS[type] }}
+              style={{ color: colors[type] }}
               className="font-medium"
             >
-              {MEAL_TYPE_LABELS[type]}: {value}
+              {labels[type]}: {value}
             </p>
           );
         })}
@@ -85,6 +89,13 @@ export function MealsChart({
   title = 'Meals Served',
 }: MealsChartProps) {
   const chartRef = useRef<HTMLDivElement>(null);
+  const taxonomyValues = useTaxonomyStore((state) => state.taxonomyValues);
+
+  // Labels come from the meal type list, so renamed and retired types read as admins set them
+  const labels = Object.fromEntries(
+    selectedMealTypes.map((type) => [type, taxonomyLabel(taxonomyValues, 'meal_type', mealTypeForChartKey(type))])
+  );
+  const colors = Object.fromEntries(selectedMealTypes.map((type, index) => [type, mealTypeColor(type, index)]));
 
   if (!data || data.length === 0) {
     return (
@@ -130,11 +141,11 @@ export function MealsChart({
             className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3 border border-gray-200 dark:border-gray-600"
           >
             <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">
-              {MEAL_TYPE_LABELS[type]}
+              {labels[type]}
             </div>
             <div
               className="text-lg font-semibold"
-              style={{ color: MEAL_TYPE_COLORS[type] }}
+              style={{ color: colors[type] }}
             >
               {totals[type]?.toLocaleString() || 0}
             </div>
@@ -158,14 +169,14 @@ export function MealsChart({
                 tickLine={false}
                 axisLine={false}
               />
-              <Tooltip content={<MealsChartTooltip selectedMealTypes={selectedMealTypes} />} />
+              <Tooltip content={<MealsChartTooltip selectedMealTypes={selectedMealTypes} labels={labels} colors={colors} />} />
               <Legend />
               {selectedMealTypes.map((type) => (
                 <Bar
                   key={type}
                   dataKey={type}
-                  fill={MEAL_TYPE_COLORS[type]}
-                  name={MEAL_TYPE_LABELS[type]}
+                  fill={colors[type]}
+                  name={labels[type]}
                   stackId="meals"
                 />
               ))}
@@ -175,8 +186,8 @@ export function MealsChart({
               <defs>
                 {selectedMealTypes.map((type) => (
                   <linearGradient key={type} id={`gradient-${type}`} x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor={MEAL_TYPE_COLORS[type]} stopOpacity={0.3} />
-                    <stop offset="95%" stopColor={MEAL_TYPE_COLORS[type]} stopOpacity={0} />
+                    <stop offset="5%" stopColor={colors[type]} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={colors[type]} stopOpacity={0} />
                   </linearGradient>
                 ))}
               </defs>
@@ -191,16 +202,16 @@ export function MealsChart({
                 tickLine={false}
                 axisLine={false}
               />
-              <Tooltip content={<MealsChartTooltip selectedMealTypes={selectedMealTypes} />} />
+              <Tooltip content={<MealsChartTooltip selectedMealTypes={selectedMealTypes} labels={labels} colors={colors} />} />
               <Legend />
               {selectedMealTypes.map((type) => (
                 <Area
                   key={type}
                   type="monotone"
                   dataKey={type}
-                  stroke={MEAL_TYPE_COLORS[type]}
+                  stroke={colors[type]}
                   fill={`url(#gradient-${type})`}
-                  name={MEAL_TYPE_LABELS[type]}
+                  name={labels[type]}
                   stackId="meals"
                 />
               ))}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { PointerEvent } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (signatureImage: string | null) => void;
+  label?: string;
+  clearLabel?: string;
+}
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 200;
+
+/**
+ * Canvas a guest signs with a finger, stylus or mouse. Reports the signature
+ * as a PNG data URL after each stroke, or null once cleared.
+ */
+export function SignaturePad({ onChange, label = 'Sign here', clearLabel = 'Clear' }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [hasInk, setHasInk] = useState(false);
+
+  const pointFor = (e: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / (rect.width || canvas.width),
+      y: ((e.clientY - rect.top) * canvas.height) / (rect.height || canvas.height),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    const { x, y } = pointFor(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    drawingRef.current = true;
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    setHasInk(true);
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={!hasInk}
+          className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1 disabled:opacity-40"
+        >
+          <Eraser size={12} />
+          {clearLabel}
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        aria-label={label}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        className="w-full h-40 bg-white border-2 border-dashed border-gray-300 rounded-lg touch-none cursor-crosshair"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { AlertTriangle, GitMerge, Smartphone, Server } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { useSyncStatus } from '@/components/providers/SyncProvider';
+import {
+  getConflictFields,
+  getTableLabel,
+  resolveConflict,
+  type ConflictResolution,
+  type FieldChoice,
+} from '@/lib/utils/conflictResolution';
+import type { FailedOperation } from '@/lib/utils/indexedDB';
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  return String(value);
+};
+
+interface ConflictComparisonProps {
+  operation: FailedOperation;
+  onResolved: () => void;
+}
+
+/**
+ * Side-by-side comparison of one conflicted edit
+ */
+export function ConflictComparison({ operation, onResolved }: ConflictComparisonProps) {
+  const conflict = operation.errorContext?.conflict;
+  const fields = useMemo(() => (conflict ? getConflictFields(conflict) : []), [conflict]);
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [pending, setPending] = useState<ConflictResolution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResolve = useCallback(
+    async (resolution: ConflictResolution) => {
+      setPending(resolution);
+      setError(null);
+      try {
+        await resolveConflict(operation, resolution, choices);
+        toast.success('Conflict resolved');
+        onResolved();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+      } finally {
+        setPending(null);
+      }
+    },
+    [operation, choices, onResolved]
+  );
+
+  if (!conflict) return null;
+
+  const serverDeleted = !conflict.serverVersion;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+        <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="font-medium">
+            {getTableLabel(conflict.table)} was changed on another device while this one was offline.
+          </p>
+          <p className="text-xs text-amber-700 mt-1">
+            Queued {new Date(operation.createdAt).toLocaleString()} · detected{' '}
+            {new Date(conflict.detectedAt).toLocaleString()}
+          </p>
+        </div>
+      </div>
+
+      {serverDeleted ? (
+        <p className="text-sm text-gray-700">
+          The record no longer exists on the server. Your offline edit can only be discarded.
+        </p>
+      ) : (
+        <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+          <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500">
+            <tr>
+              <th className="px-3 py-2">Field</th>
+              <th className="px-3 py-2">
+                <span className="inline-flex items-center gap-1">
+                  <Smartphone size={12} /> This device
+                </span>
+              </th>
+              <th className="px-3 py-2">
+                <span className="inline-flex items-center gap-1">
+                  <Server size={12} /> Server
+                </span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {fields.map((field) => {
+              const choice = choices[field.column] || field.defaultChoice;
+              return (
+                <tr key={field.column} className={field.differs ? 'bg-white' : 'bg-gray-50 text-gray-500'}>
+                  <td className="px-3 py-2 font-medium text-gray-700">
+                    {field.label}
+                    <div className="text-xs font-normal text-gray-400">
+                      was {formatValue(field.original)}
+                    </div>
+                  </td>
+                  {(['mine', 'theirs'] as const).map((side) => (
+                    <td key={side} className="px-3 py-2">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`conflict-${operation.id}-${field.column}`}
+                          checked={choice === side}
+                          disabled={!field.differs}
+                          onChange={() =>
+                            setChoices((prev) => ({ ...prev, [field.column]: side }))
+                          }
+                          aria-label={`Use ${side === 'mine' ? 'this device' : 'server'} value for ${field.label}`}
+                        />
+                        <span>{formatValue(side === 'mine' ? field.mine : field.theirs)}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => handleResolve('keep-theirs')}
+          isLoading={pending === 'keep-theirs'}
+          disabled={pending !== null}
+          leftIcon={<Server size={16} />}
+        >
+          {serverDeleted ? 'Discard my edit' : 'Keep theirs'}
+        </Button>
+        {!serverDeleted && (
+          <>
+            <Button
+              variant="secondary"
+              onClick={() => handleResolve('merge')}
+              isLoading={pending === 'merge'}
+              disabled={pending !== null}
+              leftIcon={<GitMerge size={16} />}
+            >
+              Apply merge
+            </Button>
+            <Button
+              variant="primary"
+              onClick={() => handleResolve('keep-mine')}
+              isLoading={pending === 'keep-mine'}
+              disabled={pending !== null}
+              leftIcon={<Smartphone size={16} />}
+            >
+              Keep mine
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Banner plus review modal for offline edits that hit a changed server row
+ */
+export function SyncConflictReview() {
+  const { conflicts, refreshConflicts } = useSyncStatus();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const current = conflicts[0];
+
+  const handleResolved = useCallback(async () => {
+    await refreshConflicts();
+  }, [refreshConflicts]);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-24 right-4 md:bottom-6 z-40 flex items-center gap-2 px-4 py-2 rounded-full bg-amber-500 text-white text-sm font-semibold shadow-lg hover:bg-amber-600"
+      >
+        <AlertTriangle size={16} />
+        {conflicts.length} offline {conflicts.length === 1 ? 'edit needs' : 'edits need'} review
+      </button>
+
+      <Modal isOpen={isOpen && !!current} onClose={() => setIsOpen(false)} size="xl">
+        <ModalHeader onClose={() => setIsOpen(false)}>
+          Review sync conflict
+          {conflicts.length > 1 && (
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              1 of {conflicts.length}
+            </span>
+          )}
+        </ModalHeader>
+        <ModalBody>
+          {current && (
+            <ConflictComparison
+              key={current.id}
+              operation={current}
+              onResolved={handleResolved}
+            />
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" onClick={() => setIsOpen(false)}>
+            Review later
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </>
+  );
+}
+
+export default SyncConflictReview;
@@ -1,40 +1,87 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { X, CheckCircle, AlertCircle } from 'lucide-react';
-
-interface Waiver {
-  id: string;
-  name: string;
-  description: string;
-  required: boolean;
-  signedAt: string | null;
-}
+import toast from 'react-hot-toast';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
+import {
+  WAIVER_LANGUAGES,
+  buildWaiverDocument,
+  describeWaiverCoverage,
+  getWaiverStatus,
+} from '@/lib/utils/waivers';
+import type { WaiverLanguage, WaiverService } from '@/lib/types';
+import { SignaturePad } from './SignaturePad';
 
 interface WaiverModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSign: (waivers: string[]) => Promise<void>;
-  waivers: Waiver[];
+  onSigned: () => void;
+  guestId: string;
+  service: WaiverService;
 }
 
-export function WaiverModal({ isOpen, onClose, onSign, waivers }: WaiverModalProps) {
-  const [signed, setSigned] = useState<Set<string>>(new Set());
+// Guest-facing labels, shown in the language the waiver is read in
+const LABELS: Record<WaiverLanguage, { agree: string; signHere: string; clear: string; name: string }> = {
+  en: { agree: 'I have read and agree to this waiver', signHere: 'Sign here', clear: 'Clear', name: 'Printed name' },
+  es: { agree: 'He leído y acepto esta exención', signHere: 'Firme aquí', clear: 'Borrar', name: 'Nombre en letra de molde' },
+};
+
+/**
+ * Shows the current version of the waiver covering a service for the guest to
+ * read and sign on screen. The signed document is saved with the waiver, so it
+ * is remembered across reloads and an admin can pull it up later.
+ */
+export function WaiverModal({ isOpen, onClose, onSigned, guestId, service }: WaiverModalProps) {
+  const [language, setLanguage] = useState<WaiverLanguage>('en');
+  const [agreed, setAgreed] = useState(false);
+  const [signerName, setSignerName] = useState('');
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const guest = useGuestsStore((state) => state.guests.find((g) => g.id === guestId));
+  const templates = useWaiverStore((state) => state.templates);
+  const waivers = useWaiverStore((state) => state.waivers);
+  const signWaiver = useWaiverStore((state) => state.signWaiver);
+  const waiverStatus = useMemo(
+    () => getWaiverStatus(templates, waivers, guestId, service),
+    [templates, waivers, guestId, service]
+  );
 
   if (!isOpen) return null;
 
-  const requiredWaivers = waivers.filter((w) => w.required);
-  const allRequiredSigned = requiredWaivers.every((w) => signed.has(w.id));
+  const { template } = waiverStatus;
+  if (!template) return null;
+
+  const signedWaiver = waiverStatus.status === 'valid' ? waiverStatus.signature : null;
+  const text = template.text[language];
+  const labels = LABELS[language];
+  const guestName = guest ? `${guest.firstName} ${guest.lastName}`.trim() : '';
+  const canContinue = Boolean(signedWaiver) || (agreed && Boolean(signatureImage));
+
+  const reset = () => {
+    setAgreed(false);
+    setSignerName('');
+    setSignatureImage(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
 
   const handleSign = async () => {
     setIsSubmitting(true);
     try {
-      await onSign(Array.from(signed));
-      setSigned(new Set());
-      onClose();
+      if (!signedWaiver && signatureImage) {
+        const document = buildWaiverDocument({ template, language, guestId, guestName, signerName });
+        await signWaiver(guestId, service, undefined, { document, signatureImage });
+      }
+      reset();
+      onSigned();
     } catch (error) {
       console.error('Failed to sign waivers:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sign waiver');
     } finally {
       setIsSubmitting(false);
     }
@@ -42,91 +89,107 @@ export function WaiverModal({ isOpen, onClose, onSign, waivers }: WaiverModalPro
 
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
-      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[80vh] overflow-y-auto m-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto m-4">
         {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-gray-200 sticky top-0 bg-white">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
           <div>
-            <h2 className="text-xl font-bold text-gray-900">Service Waivers</h2>
-            <p className="text-sm text-gray-500 mt-1">
-              Please review and sign the required waivers before proceeding
-            </p>
+            <h2 className="text-xl font-bold text-gray-900">
+              {template.title} <span className="text-sm font-medium text-gray-500">Version {template.version}</span>
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">{template.description}</p>
+            {template.services.length > 1 && (
+              <p className="text-xs text-gray-500 mt-0.5">Covers {describeWaiverCoverage(template)}</p>
+            )}
           </div>
           <button
-            onClick={onClose}
+            onClick={handleClose}
+            aria-label="Close"
             className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
           >
             <X size={20} className="text-gray-500" />
           </button>
         </div>
 
-        {/* Waivers List */}
-        <div className="p-6 space-y-4">
-          {waivers.map((waiver) => {
-            const isSigned = signed.has(waiver.id);
-            const isRequired = waiver.required;
-            const alreadySigned = waiver.signedAt;
-
-            return (
-              <div
-                key={waiver.id}
-                className={`border rounded-lg p-4 transition-colors ${
-                  isSigned || alreadySigned
-                    ? 'border-emerald-200 bg-emerald-50'
-                    : 'border-gray-200 hover:border-gray-300'
-                }`}
-              >
-                <div className="flex items-start gap-4">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <h3 className="font-medium text-gray-900">{waiver.name}</h3>
-                      {isRequired && (
-                        <span className="inline-block px-2 py-1 text-xs font-semibold text-red-700 bg-red-100 rounded">
-                          Required
-                        </span>
-                      )}
-                      {alreadySigned && (
-                        <span className="inline-block px-2 py-1 text-xs font-semibold text-emerald-700 bg-emerald-100 rounded flex items-center gap-1">
-                          <CheckCircle size={12} />
-                          Signed {new Date(alreadySigned).toLocaleDateString()}
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-sm text-gray-600">{waiver.description}</p>
-                  </div>
-
-                  {!alreadySigned && (
-                    <label className="flex items-center gap-2 cursor-pointer mt-1">
-                      <input
-                        type="checkbox"
-                        checked={isSigned}
-                        onChange={(e) => {
-                          if (e.target.checked) {
-                            setSigned((prev) => new Set([...prev, waiver.id]));
-                          } else {
-                            setSigned((prev) => {
-                              const next = new Set(prev);
-                              next.delete(waiver.id);
-                              return next;
-                            });
-                          }
-                        }}
-                        className="w-5 h-5 rounded border-gray-300 text-emerald-600 cursor-pointer"
-                      />
-                      <span className="text-sm font-medium text-gray-700">I agree</span>
-                    </label>
-                  )}
-                </div>
+        {signedWaiver ? (
+          <div className="p-6">
+            <div className="border border-emerald-200 bg-emerald-50 rounded-lg p-4 flex items-center gap-2">
+              <CheckCircle size={18} className="text-emerald-600" />
+              <p className="text-sm font-medium text-emerald-800">
+                Signed {new Date(signedWaiver.signedAt).toLocaleDateString()}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            {(waiverStatus.status === 'outdated' || waiverStatus.status === 'expired') && waiverStatus.signature && (
+              <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 text-sm text-amber-800">
+                {waiverStatus.status === 'outdated'
+                  ? `Version ${template.version} required. The guest signed version ${waiverStatus.signedVersion}`
+                  : `The guest's signature of version ${waiverStatus.signedVersion} has expired. Signed`}{' '}
+                on {new Date(waiverStatus.signature.dismissedAt || waiverStatus.signature.signedAt).toLocaleDateString()}.
               </div>
-            );
-          })}
-        </div>
+            )}
+
+            {/* Language */}
+            <div className="flex gap-2" role="group" aria-label="Waiver language">
+              {WAIVER_LANGUAGES.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setLanguage(option.id)}
+                  aria-pressed={language === option.id}
+                  className={`px-3 py-1.5 text-sm rounded-lg font-medium transition-colors ${
+                    language === option.id
+                      ? 'bg-emerald-600 text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Waiver text */}
+            <div className="border border-gray-200 rounded-lg p-4 max-h-64 overflow-y-auto bg-gray-50">
+              <h3 className="font-semibold text-gray-900 mb-2">{text.title}</h3>
+              <ol className="list-decimal pl-5 space-y-2 text-sm text-gray-700">
+                {text.body.map((paragraph) => (
+                  <li key={paragraph}>{paragraph}</li>
+                ))}
+              </ol>
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={agreed}
+                onChange={(e) => setAgreed(e.target.checked)}
+                className="w-5 h-5 rounded border-gray-300 text-emerald-600 cursor-pointer"
+              />
+              <span className="text-sm font-medium text-gray-700">{labels.agree}</span>
+            </label>
+
+            <label className="block text-sm text-gray-700">
+              {labels.name}
+              <input
+                type="text"
+                value={signerName}
+                onChange={(e) => setSignerName(e.target.value)}
+                placeholder={guestName}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </label>
+
+            <SignaturePad onChange={setSignatureImage} label={labels.signHere} clearLabel={labels.clear} />
+          </div>
+        )}
 
         {/* Info Message */}
-        {requiredWaivers.length > 0 && !allRequiredSigned && (
+        {!canContinue && (
           <div className="px-6 py-4 bg-amber-50 border-t border-amber-200 flex items-start gap-3">
             <AlertCircle size={18} className="text-amber-600 mt-0.5 flex-shrink-0" />
             <p className="text-sm text-amber-800">
-              You must agree to all required waivers to continue.
+              The guest must agree to the waiver and sign above to continue.
             </p>
           </div>
         )}
@@ -134,14 +197,14 @@ export function WaiverModal({ isOpen, onClose, onSign, waivers }: WaiverModalPro
         {/* Actions */}
         <div className="flex items-center gap-3 p-6 border-t border-gray-200 bg-gray-50">
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 font-medium transition-colors"
           >
             Cancel
           </button>
           <button
             onClick={handleSign}
-            disabled={!allRequiredSigned || isSubmitting}
+            disabled={!canContinue || isSubmitting}
             className="flex-1 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
           >
             {isSubmitting ? 'Signing...' : 'Continue'}
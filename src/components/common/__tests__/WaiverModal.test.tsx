@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { WaiverModal } from '../WaiverModal';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { DEFAULT_WAIVER_TEMPLATES } from '@/lib/utils/waivers';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(),
+  getSupabaseClient: vi.fn(),
+  isSupabaseEnabled: vi.fn(() => false),
+}));
+
+const signOnPad = () => {
+  const pad = screen.getByLabelText(/sign here|firme aquí/i);
+  fireEvent.pointerDown(pad, { clientX: 10, clientY: 10, pointerId: 1 });
+  fireEvent.pointerMove(pad, { clientX: 60, clientY: 30, pointerId: 1 });
+  fireEvent.pointerUp(pad, { clientX: 60, clientY: 30, pointerId: 1 });
+};
+
+describe('WaiverModal', () => {
+  beforeEach(() => {
+    useWaiverStore.setState({ templates: DEFAULT_WAIVER_TEMPLATES, waivers: [], reminders: {} });
+    useGuestsStore.setState({
+      guests: [
+        {
+          id: 'guest-1',
+          guestId: 'G-1',
+          firstName: 'Ana',
+          lastName: 'Test',
+          name: 'Ana Test',
+          preferredName: '',
+          housingStatus: 'Unhoused',
+          age: 'Adult 18-59',
+          gender: 'Female',
+          location: 'Mountain View',
+          notes: '',
+          bicycleDescription: '',
+          bannedAt: null,
+          bannedUntil: null,
+          banReason: '',
+          isBanned: false,
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      stroke: vi.fn(),
+      clearRect: vi.fn(),
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,SIG');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows the shared services waiver text and switches to Spanish', () => {
+    render(<WaiverModal isOpen onClose={vi.fn()} onSigned={vi.fn()} guestId="guest-1" service="laundry" />);
+
+    expect(screen.getByText("Hope's Corner Shower and Laundry Waiver")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Español' }));
+    expect(screen.getByText(/Exención de responsabilidad de duchas y lavandería/)).toBeInTheDocument();
+  });
+
+  it('says which version is needed when the guest signed an older one', () => {
+    useWaiverStore.setState({
+      templates: [...DEFAULT_WAIVER_TEMPLATES, { ...DEFAULT_WAIVER_TEMPLATES[0], id: 'services-2', version: 2 }],
+      waivers: [
+        {
+          id: 'w-1',
+          guestId: 'guest-1',
+          serviceType: 'laundry',
+          templateId: DEFAULT_WAIVER_TEMPLATES[0].id,
+          signedAt: new Date().toISOString(),
+          dismissedAt: new Date().toISOString(),
+          dismissedReason: 'signed_by_staff',
+          createdAt: new Date().toISOString(),
+        },
+      ],
+    });
+    render(<WaiverModal isOpen onClose={vi.fn()} onSigned={vi.fn()} guestId="guest-1" service="shower" />);
+
+    expect(screen.getByText('Version 2')).toBeInTheDocument();
+    expect(screen.getByText(/Version 2 required\. The guest signed version 1/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Continue' })).toBeDisabled();
+  });
+
+  it('requires agreement and a signature before continuing', () => {
+    render(<WaiverModal isOpen onClose={vi.fn()} onSigned={vi.fn()} guestId="guest-1" service="shower" />);
+    const continueButton = screen.getByRole('button', { name: 'Continue' });
+
+    expect(continueButton).toBeDisabled();
+    fireEvent.click(screen.getByRole('checkbox'));
+    expect(continueButton).toBeDisabled();
+    signOnPad();
+    expect(continueButton).toBeEnabled();
+  });
+
+  it('saves the signed document and covers both shower and laundry', async () => {
+    const onSigned = vi.fn();
+    const signWaiver = vi.spyOn(useWaiverStore.getState(), 'signWaiver');
+    render(<WaiverModal isOpen onClose={vi.fn()} onSigned={onSigned} guestId="guest-1" service="shower" />);
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    signOnPad();
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+    await waitFor(() => expect(onSigned).toHaveBeenCalled());
+    expect(signWaiver).toHaveBeenCalledWith('guest-1', 'shower', undefined, {
+      document: expect.objectContaining({ waiverKind: 'services', templateVersion: 1, signerName: 'Ana Test', language: 'en' }),
+      signatureImage: 'data:image/png;base64,SIG',
+    });
+    expect(useWaiverStore.getState().hasSignedWaiver('guest-1', 'laundry')).toBe(true);
+  });
+});
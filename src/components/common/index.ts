@@ -2,4 +2,6 @@
 export { DeleteConfirmationModal } from './DeleteConfirmationModal';
 export { default as ErrorBoundary } from './ErrorBoundary';
 export { WaiverModal } from './WaiverModal';
+export { SignaturePad } from './SignaturePad';
 export { ShortcutsModal } from './ShortcutsModal';
+export { SyncConflictReview, ConflictComparison } from './SyncConflictReview';
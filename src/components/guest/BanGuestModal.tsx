@@ -1,39 +1,75 @@
 'use client';
 
 import { useState } from 'react';
-import { X, AlertTriangle, Clock } from 'lucide-react';
+import { X, AlertTriangle, Clock, ShieldAlert } from 'lucide-react';
+import type { BanService, GuestBanInput } from '@/lib/types';
+import { BAN_SERVICES, banEndOfDay } from '@/lib/utils/guestBans';
+import { todayPacificDateString } from '@/lib/utils/date';
 
 interface BanGuestModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onBan: (reason: string, duration: string) => Promise<void>;
+  onBan: (input: GuestBanInput) => Promise<void>;
   guestName: string;
 }
 
 const DURATION_OPTIONS = [
   { id: '1d', label: '1 Day', hours: 24 },
   { id: '1w', label: '1 Week', hours: 168 },
+  { id: '30d', label: '30 Days', hours: 720 },
+  { id: 'custom', label: 'Until a date', hours: 0 },
   { id: 'permanent', label: 'Permanent', hours: 0 },
 ];
 
 export function BanGuestModal({ isOpen, onClose, onBan, guestName }: BanGuestModalProps) {
+  const [action, setAction] = useState<'ban' | 'warning'>('ban');
   const [reason, setReason] = useState('');
   const [duration, setDuration] = useState('1d');
+  const [untilDate, setUntilDate] = useState('');
+  // Empty covers every service
+  const [services, setServices] = useState<BanService[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   if (!isOpen) return null;
 
+  const isWarning = action === 'warning';
+  const needsDate = !isWarning && duration === 'custom';
+  const canSubmit = reason.trim() && (!needsDate || untilDate > todayPacificDateString());
+
+  const toggleService = (service: BanService) => {
+    setServices((current) =>
+      current.includes(service) ? current.filter((s) => s !== service) : [...current, service]
+    );
+  };
+
+  const reset = () => {
+    setAction('ban');
+    setReason('');
+    setDuration('1d');
+    setUntilDate('');
+    setServices([]);
+  };
+
   const handleSubmit = async () => {
     if (!reason.trim()) {
       alert('Please provide a reason for the ban');
       return;
     }
 
+    let endsAt: string | null = null;
+    if (!isWarning) {
+      const option = DURATION_OPTIONS.find((o) => o.id === duration);
+      if (duration === 'custom') {
+        endsAt = banEndOfDay(untilDate);
+      } else if (option && option.hours > 0) {
+        endsAt = new Date(Date.now() + option.hours * 60 * 60 * 1000).toISOString();
+      }
+    }
+
     setIsSubmitting(true);
     try {
-      await onBan(reason, duration);
-      setReason('');
-      setDuration('1d');
+      await onBan({ action, services, reason: reason.trim(), endsAt });
+      reset();
       onClose();
     } catch (error) {
       console.error('Failed to ban guest:', error);
@@ -44,7 +80,7 @@ export function BanGuestModal({ isOpen, onClose, onBan, guestName }: BanGuestMod
 
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
-      <div className="bg-white rounded-xl max-w-md w-full m-4">
+      <div className="bg-white rounded-xl max-w-md w-full m-4 max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <div className="flex items-center gap-3">
@@ -52,7 +88,7 @@ export function BanGuestModal({ isOpen, onClose, onBan, guestName }: BanGuestMod
               <AlertTriangle size={20} className="text-red-600" />
             </div>
             <div>
-              <h2 className="font-bold text-gray-900">Ban Guest</h2>
+              <h2 className="font-bold text-gray-900">{isWarning ? 'Warn Guest' : 'Ban Guest'}</h2>
               <p className="text-sm text-gray-500">{guestName}</p>
             </div>
           </div>
@@ -66,18 +102,39 @@ export function BanGuestModal({ isOpen, onClose, onBan, guestName }: BanGuestMod
 
         {/* Content */}
         <div className="p-6 space-y-4">
+          {/* Ban or warning */}
+          <div className="flex gap-2" role="group" aria-label="Ban or warning">
+            {(['ban', 'warning'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setAction(option)}
+                aria-pressed={action === option}
+                className={`flex-1 px-3 py-2 text-sm rounded-lg font-medium border transition-colors ${
+                  action === option
+                    ? 'border-red-500 bg-red-50 text-red-700'
+                    : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'ban' ? 'Ban' : 'Warning only'}
+              </button>
+            ))}
+          </div>
+
           {/* Warning */}
           <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-3">
             <AlertTriangle size={16} className="text-red-600 mt-0.5 flex-shrink-0" />
             <p className="text-sm text-red-800">
-              Banning a guest will prevent them from accessing services.
+              {isWarning
+                ? 'A warning goes on the guest’s record without blocking any service.'
+                : 'Banning a guest will prevent them from accessing the services selected below.'}
             </p>
           </div>
 
           {/* Reason Input */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Reason for Ban <span className="text-red-600">*</span>
+              Reason <span className="text-red-600">*</span>
             </label>
             <textarea
               value={reason}
@@ -88,35 +145,77 @@ export function BanGuestModal({ isOpen, onClose, onBan, guestName }: BanGuestMod
             />
           </div>
 
-          {/* Duration Selection */}
+          {/* Services */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
-              <Clock size={16} />
-              Ban Duration
+              <ShieldAlert size={16} />
+              Services
             </label>
-            <div className="space-y-2">
-              {DURATION_OPTIONS.map((option) => (
-                <label
-                  key={option.id}
-                  className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
-                    duration === option.id
-                      ? 'border-red-500 bg-red-50'
-                      : 'border-gray-200 hover:bg-gray-50'
-                  }`}
-                >
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+              <input
+                type="checkbox"
+                checked={services.length === 0}
+                onChange={() => setServices([])}
+                className="text-red-600 focus:ring-red-500"
+              />
+              All services
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {BAN_SERVICES.map((option) => (
+                <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700">
                   <input
-                    type="radio"
-                    name="duration"
-                    value={option.id}
-                    checked={duration === option.id}
-                    onChange={(e) => setDuration(e.target.value)}
+                    type="checkbox"
+                    checked={services.includes(option.id)}
+                    onChange={() => toggleService(option.id)}
                     className="text-red-600 focus:ring-red-500"
                   />
-                  <span className="font-medium text-gray-700">{option.label}</span>
+                  {option.label}
                 </label>
               ))}
             </div>
           </div>
+
+          {/* Duration Selection */}
+          {!isWarning && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                <Clock size={16} />
+                Ban Duration
+              </label>
+              <div className="space-y-2">
+                {DURATION_OPTIONS.map((option) => (
+                  <label
+                    key={option.id}
+                    className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                      duration === option.id
+                        ? 'border-red-500 bg-red-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="duration"
+                      value={option.id}
+                      checked={duration === option.id}
+                      onChange={(e) => setDuration(e.target.value)}
+                      className="text-red-600 focus:ring-red-500"
+                    />
+                    <span className="font-medium text-gray-700">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+              {needsDate && (
+                <input
+                  type="date"
+                  aria-label="Ban ends on"
+                  value={untilDate}
+                  min={todayPacificDateString()}
+                  onChange={(e) => setUntilDate(e.target.value)}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 text-sm"
+                />
+              )}
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -129,10 +228,16 @@ export function BanGuestModal({ isOpen, onClose, onBan, guestName }: BanGuestMod
           </button>
           <button
             onClick={handleSubmit}
-            disabled={!reason.trim() || isSubmitting}
+            disabled={!canSubmit || isSubmitting}
             className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors flex items-center justify-center gap-2"
           >
-            {isSubmitting ? 'Banning...' : 'Ban Guest'}
+            {isSubmitting
+              ? isWarning
+                ? 'Saving...'
+                : 'Banning...'
+              : isWarning
+                ? 'Record Warning'
+                : 'Ban Guest'}
           </button>
         </div>
       </div>
@@ -0,0 +1,91 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ShieldAlert, Loader2 } from 'lucide-react';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { GUEST_BAN_ACTION_LABELS, describeBanEnd, describeBanScope } from '@/lib/utils/guestBans';
+import type { GuestBanAction } from '@/lib/types';
+
+interface BanHistoryPanelProps {
+  guestId: string;
+}
+
+const ACTION_STYLES: Record<GuestBanAction, string> = {
+  warning: 'bg-amber-100 text-amber-700',
+  ban: 'bg-red-100 text-red-700',
+  lift: 'bg-emerald-100 text-emerald-700',
+};
+
+/**
+ * Every warning, ban and lift issued to a guest, newest first
+ */
+export function BanHistoryPanel({ guestId }: BanHistoryPanelProps) {
+  const fetchGuestBans = useGuestsStore((state) => state.fetchGuestBans);
+  const guestBans = useGuestsStore((state) => state.guestBans);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Render with a key per guest so a different guest starts loading afresh
+  useEffect(() => {
+    let cancelled = false;
+    fetchGuestBans(guestId)
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load ban history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guestId, fetchGuestBans]);
+
+  const bans = useMemo(
+    () =>
+      guestBans
+        .filter((ban) => ban.guestId === guestId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [guestBans, guestId]
+  );
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 print:hidden">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <ShieldAlert size={18} /> Warnings and bans
+        </h2>
+        {loading && <Loader2 size={14} className="animate-spin text-gray-400" aria-label="Loading ban history" />}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && bans.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No warnings or bans on record.</p>
+      )}
+
+      {bans.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {bans.map((ban) => (
+            <li key={ban.id} className="py-2 text-sm space-y-0.5">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[ban.action]}`}>
+                  {GUEST_BAN_ACTION_LABELS[ban.action]}
+                </span>
+                {ban.action !== 'lift' && <span className="text-gray-900">{describeBanScope(ban.services)}</span>}
+                {ban.action === 'ban' && <span className="text-gray-500">· {describeBanEnd(ban.endsAt)}</span>}
+              </div>
+              {ban.reason && <p className="text-gray-700">{ban.reason}</p>}
+              <p className="text-xs text-gray-500">
+                {new Date(ban.createdAt).toLocaleString()} ·{' '}
+                {ban.issuedByEmail ?? (ban.issuedBy ? 'Staff member' : 'Issued on this device')}
+                {ban.reviewedAt && ` · Reviewed ${new Date(ban.reviewedAt).toLocaleDateString()}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default BanHistoryPanel;
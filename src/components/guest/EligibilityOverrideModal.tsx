@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import type { EligibilityOverride, EligibilityViolation } from '@/lib/types';
+
+interface EligibilityOverrideModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOverride: (override: EligibilityOverride) => Promise<void>;
+  guestName: string;
+  violations: EligibilityViolation[];
+}
+
+/**
+ * Shown when a service would go past an eligibility limit; staff can record
+ * it anyway by giving a reason, which is logged with the override
+ */
+export function EligibilityOverrideModal({
+  isOpen,
+  onClose,
+  onOverride,
+  guestName,
+  violations,
+}: EligibilityOverrideModalProps) {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setReason('');
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onOverride({ reason: reason.trim() });
+      setReason('');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the service');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl max-w-md w-full m-4 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+              <ShieldCheck size={20} className="text-amber-600" />
+            </div>
+            <div>
+              <h2 className="font-bold text-gray-900">Limit reached</h2>
+              <p className="text-sm text-gray-500">{guestName}</p>
+            </div>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <ul className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1 text-sm text-amber-800">
+            {violations.map((violation) => (
+              <li key={violation.rule.id}>{violation.message}</li>
+            ))}
+          </ul>
+
+          <div>
+            <label htmlFor="eligibility-override-reason" className="block text-sm font-medium text-gray-700 mb-2">
+              Reason for override <span className="text-red-600">*</span>
+            </label>
+            <textarea
+              id="eligibility-override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Lost sleeping bag in the rain, approved by case manager..."
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-sm"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={handleClose}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!reason.trim() || isSubmitting}
+            className="flex-1 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
+          >
+            {isSubmitting ? 'Saving...' : 'Override and record'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EligibilityOverrideModal;
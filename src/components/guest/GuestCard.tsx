@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
 import {
   User,
   Home,
@@ -20,9 +21,14 @@ import {
   Gift,
   Undo2,
   Loader2,
+  History,
 } from 'lucide-react';
 import type { Guest } from '@/lib/types';
 import { enhancedToast } from '@/utils/toast';
+import { describeBanEnd, describeBanScope, isGuestBannedFrom } from '@/lib/utils/guestBans';
+import { EligibilityError } from '@/lib/utils/eligibility';
+import { LinkedGuestsPanel } from './LinkedGuestsPanel';
+import { SignedWaiversPanel } from './SignedWaiversPanel';
 
 interface ServiceRecord {
   guestId: string;
@@ -139,7 +145,9 @@ export function GuestCard({
     } catch (e) {
       // rollback optimistic update on failure
       setPendingMeals((p) => p - amount);
-      enhancedToast.error(messages?.error ?? 'Failed to add meal');
+      enhancedToast.error(
+        e instanceof EligibilityError ? e.message : (messages?.error ?? 'Failed to add meal')
+      );
       console.error('Failed to add meal(s):', e);
     } finally {
       setMealLoading(false);
@@ -193,6 +201,10 @@ export function GuestCard({
   );
 
   const isBanned = guest.isBanned || guest.banned === true;
+  // A ban scoped to some services leaves the others available
+  const isPartialBan = isBanned && (guest.bannedServices?.length ?? 0) > 0;
+  const banScope = describeBanScope(guest.bannedServices);
+  const mealsBanned = isGuestBannedFrom(guest, 'meals');
 
   return (
     <div
@@ -232,8 +244,11 @@ export function GuestCard({
               <h3 className="font-semibold text-gray-900 flex items-center gap-2">
                 {getDisplayName(guest)}
                 {isBanned && (
-                  <span className="inline-flex items-center gap-1 text-xs text-red-600 bg-red-50 px-2 py-0.5 rounded-full">
-                    <Ban size={12} /> Banned
+                  <span
+                    className="inline-flex items-center gap-1 text-xs text-red-600 bg-red-50 px-2 py-0.5 rounded-full"
+                    title={`Banned from ${banScope.toLowerCase()}`}
+                  >
+                    <Ban size={12} /> {isPartialBan ? `Banned: ${banScope}` : 'Banned'}
                   </span>
                 )}
               </h3>
@@ -349,22 +364,33 @@ export function GuestCard({
             </div>
           )}
 
-          {/* Ban reason */}
-          {isBanned && guest.banReason && (
-            <div className="bg-red-50 p-3 rounded-lg">
+          {/* Ban scope and reason */}
+          {isBanned && (
+            <div className="bg-red-50 p-3 rounded-lg space-y-1">
               <p className="text-sm text-red-800">
-                <span className="font-medium">Ban reason:</span> {guest.banReason}
+                <span className="font-medium">Banned from:</span> {banScope} · {describeBanEnd(guest.bannedUntil)}
               </p>
+              {guest.banReason && (
+                <p className="text-sm text-red-800">
+                  <span className="font-medium">Ban reason:</span> {guest.banReason}
+                </p>
+              )}
             </div>
           )}
 
+          {/* Linked guests and pick-ups on their behalf */}
+          {showActions && <LinkedGuestsPanel guest={guest} />}
+
+          {/* Waivers signed on screen (admins only) */}
+          {showActions && <SignedWaiversPanel guestId={guest.id} />}
+
           {/* Action buttons */}
           {showActions && (
             <div className="flex flex-wrap gap-2 pt-2">
-              {/* Service buttons */}
-              {!isBanned && (
+              {/* Service buttons, less any the guest is banned from */}
+              {(!isBanned || isPartialBan) && (
                 <>
-                  {!effectiveHasMeal ? (
+                  {mealsBanned ? null : !effectiveHasMeal ? (
                     <>
                       {onAddMeal1 && (
                         <button
@@ -437,7 +463,7 @@ export function GuestCard({
                       )}
                     </>
                   )}
-                  {onAddShower && !hasShowerToday && (
+                  {onAddShower && !hasShowerToday && !isGuestBannedFrom(guest, 'shower') && (
                     <button
                       onClick={() => onAddShower(guest.id)}
                       className="px-3 py-1.5 text-sm bg-cyan-100 text-cyan-700 rounded-lg hover:bg-cyan-200 transition-colors flex items-center gap-1"
@@ -445,7 +471,7 @@ export function GuestCard({
                       <Droplets size={14} /> Shower
                     </button>
                   )}
-                  {onAddLaundry && !hasLaundryToday && (
+                  {onAddLaundry && !hasLaundryToday && !isGuestBannedFrom(guest, 'laundry') && (
                     <button
                       onClick={() => onAddLaundry(guest.id)}
                       className="px-3 py-1.5 text-sm bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors flex items-center gap-1"
@@ -453,7 +479,7 @@ export function GuestCard({
                       <WashingMachine size={14} /> Laundry
                     </button>
                   )}
-                  {onAddHaircut && !hasHaircutToday && (
+                  {onAddHaircut && !hasHaircutToday && !isGuestBannedFrom(guest, 'haircut') && (
                     <button
                       onClick={() => onAddHaircut(guest.id)}
                       className="px-3 py-1.5 text-sm bg-amber-100 text-amber-700 rounded-lg hover:bg-amber-200 transition-colors flex items-center gap-1"
@@ -461,7 +487,7 @@ export function GuestCard({
                       <Scissors size={14} /> Haircut
                     </button>
                   )}
-                  {onAddHoliday && !hasHolidayToday && (
+                  {onAddHoliday && !hasHolidayToday && !isGuestBannedFrom(guest, 'holiday') && (
                     <button
                       onClick={() => onAddHoliday(guest.id)}
                       className="px-3 py-1.5 text-sm bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 transition-colors flex items-center gap-1"
@@ -469,7 +495,7 @@ export function GuestCard({
                       <Gift size={14} /> Holiday
                     </button>
                   )}
-                  {onAddBicycle && !hasBicycleToday && (
+                  {onAddBicycle && !hasBicycleToday && !isGuestBannedFrom(guest, 'bicycle') && (
                     <button
                       onClick={() => onAddBicycle(guest.id)}
                       className="px-3 py-1.5 text-sm bg-cyan-100 text-cyan-700 rounded-lg hover:bg-cyan-200 transition-colors flex items-center gap-1"
@@ -482,6 +508,12 @@ export function GuestCard({
 
               {/* Admin buttons */}
               <div className="flex-1" />
+              <Link
+                href={`/guests/${guest.id}`}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-1"
+              >
+                <History size={14} /> History
+              </Link>
               {onEdit && (
                 <button
                   onClick={() => onEdit(guest)}
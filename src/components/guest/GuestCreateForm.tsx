@@ -1,7 +1,7 @@
 'use client';
 
 import React, { FormEvent, ChangeEvent, RefObject } from 'react';
-import { UserPlus, X, AlertCircle, Plus, MapPin } from 'lucide-react';
+import { UserPlus, UserPen, X, AlertCircle, Plus, Save, MapPin } from 'lucide-react';
 import {
   HOUSING_STATUSES,
   AGE_GROUPS,
@@ -32,7 +32,21 @@ export interface FieldErrors {
   location?: string;
 }
 
+/**
+ * Required-field checks shared by creating and editing a guest
+ */
+export function validateGuestForm(formData: GuestFormData): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!formData.firstName.trim()) errors.firstName = 'First name is required';
+  if (!formData.lastName.trim()) errors.lastName = 'Last name is required';
+  if (!formData.age) errors.age = 'Age group is required';
+  if (!formData.gender) errors.gender = 'Gender is required';
+  return errors;
+}
+
 interface GuestCreateFormProps {
+  // 'edit' relabels the form for changing an existing guest's profile
+  mode?: 'create' | 'edit';
   formData: GuestFormData;
   fieldErrors: FieldErrors;
   isCreating: boolean;
@@ -52,6 +66,7 @@ const locationOptions = [
 ];
 
 export function GuestCreateForm({
+  mode = 'create',
   formData,
   fieldErrors,
   isCreating,
@@ -64,24 +79,35 @@ export function GuestCreateForm({
   onLocationChange,
   firstNameRef,
 }: GuestCreateFormProps) {
+  const isEdit = mode === 'edit';
+  const idPrefix = isEdit ? 'edit-guest' : 'guest';
+
   return (
     <div
       className="bg-white border-2 border-emerald-200 rounded-xl p-6"
       role="dialog"
-      aria-labelledby="create-guest-title"
-      aria-describedby="create-guest-description"
+      aria-labelledby={`${mode}-guest-title`}
+      aria-describedby={`${mode}-guest-description`}
     >
       <div className="flex justify-between items-center mb-6">
         <h3
-          id="create-guest-title"
+          id={`${mode}-guest-title`}
           className="text-lg font-semibold flex items-center gap-2 text-gray-900"
         >
-          <UserPlus size={20} className="text-emerald-600" /> Create New Guest
+          {isEdit ? (
+            <>
+              <UserPen size={20} className="text-emerald-600" /> Edit Guest Profile
+            </>
+          ) : (
+            <>
+              <UserPlus size={20} className="text-emerald-600" /> Create New Guest
+            </>
+          )}
         </h3>
         <button
           onClick={onCancel}
           className="text-gray-400 hover:text-gray-600 transition-colors"
-          aria-label="Close create guest form"
+          aria-label={isEdit ? 'Close edit guest form' : 'Close create guest form'}
           type="button"
         >
           <X size={20} />
@@ -107,13 +133,13 @@ export function GuestCreateForm({
           {/* First Name */}
           <div>
             <label
-              htmlFor="guest-first-name"
+              htmlFor={`${idPrefix}-first-name`}
               className="block text-sm font-semibold text-gray-700 mb-2"
             >
               First Name*
             </label>
             <input
-              id="guest-first-name"
+              id={`${idPrefix}-first-name`}
               type="text"
               name="firstName"
               ref={firstNameRef}
@@ -137,13 +163,13 @@ export function GuestCreateForm({
           {/* Last Name */}
           <div>
             <label
-              htmlFor="guest-last-name"
+              htmlFor={`${idPrefix}-last-name`}
               className="block text-sm font-semibold text-gray-700 mb-2"
             >
               Last Name*
             </label>
             <input
-              id="guest-last-name"
+              id={`${idPrefix}-last-name`}
               type="text"
               name="lastName"
               value={formData.lastName}
@@ -166,13 +192,13 @@ export function GuestCreateForm({
           {/* Preferred Name */}
           <div>
             <label
-              htmlFor="guest-preferred-name"
+              htmlFor={`${idPrefix}-preferred-name`}
               className="block text-sm font-semibold text-gray-700 mb-2"
             >
               Preferred Name
             </label>
             <input
-              id="guest-preferred-name"
+              id={`${idPrefix}-preferred-name`}
               type="text"
               name="preferredName"
               value={formData.preferredName}
@@ -190,7 +216,7 @@ export function GuestCreateForm({
           {/* Housing Status */}
           <div>
             <label
-              htmlFor="guest-housing-status"
+              htmlFor={`${idPrefix}-housing-status`}
               className="block text-sm font-semibold text-gray-700 mb-2"
             >
               Housing Status
@@ -209,7 +235,7 @@ export function GuestCreateForm({
               </span>
             </p>
             <select
-              id="guest-housing-status"
+              id={`${idPrefix}-housing-status`}
               name="housingStatus"
               value={formData.housingStatus}
               onChange={onChange}
@@ -231,13 +257,13 @@ export function GuestCreateForm({
           {/* Age Group */}
           <div>
             <label
-              htmlFor="guest-age-group"
+              htmlFor={`${idPrefix}-age-group`}
               className="block text-sm font-semibold text-gray-700 mb-2"
             >
               Age Group*
             </label>
             <select
-              id="guest-age-group"
+              id={`${idPrefix}-age-group`}
               name="age"
               value={formData.age}
               onChange={onChange}
@@ -257,13 +283,13 @@ export function GuestCreateForm({
           {/* Gender */}
           <div>
             <label
-              htmlFor="guest-gender"
+              htmlFor={`${idPrefix}-gender`}
               className="block text-sm font-semibold text-gray-700 mb-2"
             >
               Gender*
             </label>
             <select
-              id="guest-gender"
+              id={`${idPrefix}-gender`}
               name="gender"
               value={formData.gender}
               onChange={onChange}
@@ -283,7 +309,7 @@ export function GuestCreateForm({
           {/* Location */}
           <div>
             <label
-              htmlFor="guest-location"
+              htmlFor={`${idPrefix}-location`}
               className="block text-sm font-semibold text-gray-700 mb-2"
             >
               Location*
@@ -293,7 +319,7 @@ export function GuestCreateForm({
                 <MapPin size={18} className="text-gray-400" />
               </div>
               <select
-                id="guest-location"
+                id={`${idPrefix}-location`}
                 value={formData.location}
                 onChange={(e) => onLocationChange(e.target.value)}
                 className={`w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 ${formData.location ? 'text-gray-900' : 'text-gray-600'}`}
@@ -313,13 +339,13 @@ export function GuestCreateForm({
         {/* Notes */}
         <div>
           <label
-            htmlFor="guest-notes"
+            htmlFor={`${idPrefix}-notes`}
             className="block text-sm font-semibold text-gray-700 mb-2"
           >
             Notes
           </label>
           <textarea
-            id="guest-notes"
+            id={`${idPrefix}-notes`}
             name="notes"
             value={formData.notes}
             onChange={onChange}
@@ -333,13 +359,13 @@ export function GuestCreateForm({
         {/* Bicycle Description */}
         <div>
           <label
-            htmlFor="guest-bicycle-description"
+            htmlFor={`${idPrefix}-bicycle-description`}
             className="block text-sm font-semibold text-gray-700 mb-2"
           >
             Bicycle Description
           </label>
           <textarea
-            id="guest-bicycle-description"
+            id={`${idPrefix}-bicycle-description`}
             name="bicycleDescription"
             value={formData.bicycleDescription}
             onChange={onChange}
@@ -360,7 +386,15 @@ export function GuestCreateForm({
             disabled={isCreating}
             className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white font-semibold py-3 px-6 rounded-lg flex items-center justify-center gap-2 transition-colors"
           >
-            <Plus size={18} /> {isCreating ? 'Creating...' : 'Create Guest'}
+            {isEdit ? (
+              <>
+                <Save size={18} /> {isCreating ? 'Saving...' : 'Save Changes'}
+              </>
+            ) : (
+              <>
+                <Plus size={18} /> {isCreating ? 'Creating...' : 'Create Guest'}
+              </>
+            )}
           </button>
           <button
             type="button"
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import { X, UserPen, History } from 'lucide-react';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import type { Guest } from '@/lib/types';
+import { enhancedToast } from '@/utils/toast';
+import { GuestCreateForm, validateGuestForm } from './GuestCreateForm';
+import type { FieldErrors, GuestFormData } from './GuestCreateForm';
+import { GuestHistoryPanel } from './GuestHistoryPanel';
+
+interface GuestEditModalProps {
+  guest: Guest | null;
+  onClose: () => void;
+}
+
+type EditTab = 'profile' | 'history';
+
+const formDataFor = (guest: Guest): GuestFormData => ({
+  firstName: guest.firstName,
+  lastName: guest.lastName,
+  preferredName: guest.preferredName,
+  housingStatus: guest.housingStatus,
+  age: guest.age,
+  gender: guest.gender,
+  location: guest.location,
+  notes: guest.notes,
+  bicycleDescription: guest.bicycleDescription,
+});
+
+/**
+ * Edits a guest's profile with the same form and checks used to create one.
+ * Every changed field is kept in the guest's history, shown on its own tab.
+ */
+export function GuestEditModal({ guest, onClose }: GuestEditModalProps) {
+  if (!guest) return null;
+  // Keyed so the form starts from the guest's current profile each time it opens
+  return <GuestEditDialog key={guest.id} guest={guest} onClose={onClose} />;
+}
+
+function GuestEditDialog({ guest, onClose }: { guest: Guest; onClose: () => void }) {
+  const guests = useGuestsStore((state) => state.guests);
+  const updateGuest = useGuestsStore((state) => state.updateGuest);
+  const [tab, setTab] = useState<EditTab>('profile');
+  const [formData, setFormData] = useState<GuestFormData>(() => formDataFor(guest));
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [duplicateWarning, setDuplicateWarning] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleLocationChange = (value: string) => {
+    setFormData((prev) => ({ ...prev, location: value }));
+    setFieldErrors((prev) => ({ ...prev, location: undefined }));
+  };
+
+  const handleNameBlur = () => {
+    if (!formData.firstName || !formData.lastName) return;
+    const fullName = `${formData.firstName} ${formData.lastName}`.toLowerCase();
+    const duplicate = guests.find(
+      (g) => g.id !== guest.id && `${g.firstName} ${g.lastName}`.toLowerCase() === fullName
+    );
+    setDuplicateWarning(
+      duplicate ? `A guest named "${duplicate.firstName} ${duplicate.lastName}" already exists.` : null
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors = validateGuestForm(formData);
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const firstName = formData.firstName.trim();
+      const lastName = formData.lastName.trim();
+      const saved = await updateGuest(guest.id, {
+        firstName,
+        lastName,
+        name: `${firstName} ${lastName}`,
+        preferredName: formData.preferredName,
+        housingStatus: formData.housingStatus,
+        age: formData.age || guest.age,
+        gender: formData.gender || guest.gender,
+        location: formData.location,
+        notes: formData.notes,
+        bicycleDescription: formData.bicycleDescription,
+      });
+      if (!saved) {
+        setSaveError('Unable to save changes. Please try again.');
+        return;
+      }
+      enhancedToast.success(`Saved ${firstName} ${lastName}'s profile`);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto m-4">
+        <div className="flex items-center justify-between px-6 pt-4 border-b border-gray-200">
+          <div className="flex gap-1" role="tablist" aria-label="Guest profile">
+            {[
+              { id: 'profile' as const, label: 'Profile', icon: <UserPen size={16} /> },
+              { id: 'history' as const, label: 'History', icon: <History size={16} /> },
+            ].map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="tab"
+                aria-selected={tab === option.id}
+                onClick={() => setTab(option.id)}
+                className={`flex items-center gap-1.5 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                  tab === option.id
+                    ? 'border-emerald-600 text-emerald-700'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option.icon}
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {tab === 'profile' ? (
+            <GuestCreateForm
+              mode="edit"
+              formData={formData}
+              fieldErrors={fieldErrors}
+              isCreating={isSaving}
+              createError={saveError}
+              duplicateWarning={duplicateWarning}
+              onChange={handleChange}
+              onNameBlur={handleNameBlur}
+              onSubmit={handleSubmit}
+              onCancel={onClose}
+              onLocationChange={handleLocationChange}
+            />
+          ) : (
+            <GuestHistoryPanel key={guest.id} guestId={guest.id} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default GuestEditModal;
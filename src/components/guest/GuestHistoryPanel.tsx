@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { History, ArrowRight, Loader2 } from 'lucide-react';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { GUEST_HISTORY_FIELDS, guestHistoryFieldLabel } from '@/lib/utils/guestHistory';
+import type { GuestHistoryField } from '@/lib/types';
+
+interface GuestHistoryPanelProps {
+  guestId: string;
+}
+
+/**
+ * Every change to a guest's profile, newest first, filterable by field so a
+ * guest's housing status or location can be followed over time
+ */
+export function GuestHistoryPanel({ guestId }: GuestHistoryPanelProps) {
+  const fetchGuestHistory = useGuestsStore((state) => state.fetchGuestHistory);
+  const guestHistory = useGuestsStore((state) => state.guestHistory);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [field, setField] = useState<GuestHistoryField | 'all'>('all');
+
+  // Render with a key per guest so a different guest starts loading afresh
+  useEffect(() => {
+    let cancelled = false;
+    fetchGuestHistory(guestId)
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load guest history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guestId, fetchGuestHistory]);
+
+  const entries = useMemo(
+    () =>
+      guestHistory
+        .filter((entry) => entry.guestId === guestId)
+        .sort((a, b) => b.changedAt.localeCompare(a.changedAt)),
+    [guestHistory, guestId]
+  );
+
+  const fieldsWithChanges = GUEST_HISTORY_FIELDS.filter((f) => entries.some((entry) => entry.field === f.field));
+  const visible = field === 'all' ? entries : entries.filter((entry) => entry.field === field);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-900 flex items-center gap-1">
+          <History size={14} /> Profile history
+        </p>
+        {loading && <Loader2 size={14} className="animate-spin text-gray-400" aria-label="Loading history" />}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {fieldsWithChanges.length > 1 && (
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label="Filter history by field">
+          {[{ field: 'all' as const, label: 'All fields' }, ...fieldsWithChanges].map((option) => (
+            <button
+              key={option.field}
+              type="button"
+              onClick={() => setField(option.field)}
+              aria-pressed={field === option.field}
+              className={`px-2.5 py-1 text-xs rounded-full font-medium transition-colors ${
+                field === option.field
+                  ? 'bg-emerald-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!loading && visible.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No profile changes recorded yet.</p>
+      )}
+
+      {visible.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {visible.map((entry) => (
+            <li key={entry.id} className="px-3 py-2 text-sm">
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="font-medium text-gray-800">{guestHistoryFieldLabel(entry.field)}</span>
+                <span className="text-gray-500 line-through">{entry.oldValue ?? '(blank)'}</span>
+                <ArrowRight size={12} className="text-gray-400" />
+                <span className="text-gray-900">{entry.newValue ?? '(blank)'}</span>
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {new Date(entry.changedAt).toLocaleString()} ·{' '}
+                {entry.changedByEmail ?? (entry.changedBy ? 'Staff member' : 'Recorded on this device')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default GuestHistoryPanel;
@@ -4,10 +4,11 @@ import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react'
 import { Search, UserPlus, X, ChevronDown, Users } from 'lucide-react';
 import { List as VirtualList, type RowComponentProps } from 'react-window';
 import { GuestCard } from './GuestCard';
-import { GuestCreateForm, GuestFormData, FieldErrors } from './GuestCreateForm';
+import { GuestCreateForm, GuestFormData, FieldErrors, validateGuestForm } from './GuestCreateForm';
 import { ListSkeleton } from '@/components/ui/Skeleton';
 import type { Guest, HousingStatus } from '@/lib/types';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { normalizedSimilarity, phoneticNormalize } from '@/lib/utils/guestDuplicates';
 
 interface ServiceRecord {
   guestId: string;
@@ -363,54 +364,6 @@ export function GuestList({
     });
   }, [filteredGuests.length, normalizedQuery]);
 
-  const levenshteinDistance = useCallback((a: string, b: string) => {
-    if (a === b) return 0;
-    if (!a) return b.length;
-    if (!b) return a.length;
-
-    const dp = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
-    for (let i = 0; i <= a.length; i++) dp[i][0] = i;
-    for (let j = 0; j <= b.length; j++) dp[0][j] = j;
-    for (let i = 1; i <= a.length; i++) {
-      for (let j = 1; j <= b.length; j++) {
-        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-        dp[i][j] = Math.min(
-          dp[i - 1][j] + 1,
-          dp[i][j - 1] + 1,
-          dp[i - 1][j - 1] + cost
-        );
-      }
-    }
-    return dp[a.length][b.length];
-  }, []);
-
-  const normalizedSimilarity = useCallback(
-    (a: string, b: string) => {
-      const aa = a.trim().toLowerCase();
-      const bb = b.trim().toLowerCase();
-      if (!aa || !bb) return 0;
-      const maxLen = Math.max(aa.length, bb.length);
-      if (maxLen === 0) return 1;
-      const dist = levenshteinDistance(aa, bb);
-      return 1 - dist / maxLen;
-    },
-    [levenshteinDistance]
-  );
-
-  const phoneticNormalize = useCallback((s: string) => {
-    const str = s.toLowerCase().replace(/[^a-z]/g, '');
-    const vowelsNormalized = str.replace(/[aeiouy]/g, 'a');
-    const simplified = vowelsNormalized
-      .replace(/ph/g, 'f')
-      .replace(/ck/g, 'k')
-      .replace(/c/g, 'k')
-      .replace(/q/g, 'k')
-      .replace(/x/g, 'ks')
-      .replace(/z/g, 's')
-      .replace(/v/g, 'f');
-    return simplified.replace(/(.)\1+/g, '$1');
-  }, []);
-
   const startsLikelyMatchBonus = useCallback((a: string, b: string) => {
     const aa = a.trim().toLowerCase();
     const bb = b.trim().toLowerCase();
@@ -466,7 +419,7 @@ export function GuestList({
 
     candidates.sort((a, b) => b.score - a.score);
     return candidates.slice(0, 5);
-  }, [filteredGuests.length, guests, normalizedQuery, queryTokens, normalizedSimilarity, startsLikelyMatchBonus, phoneticNormalize]);
+  }, [filteredGuests.length, guests, normalizedQuery, queryTokens, startsLikelyMatchBonus]);
 
   const handleSort = useCallback((key: SortKey) => {
     setSortConfig((prev) => ({
@@ -516,11 +469,7 @@ export function GuestList({
       e.preventDefault();
 
       // Validate required fields
-      const errors: FieldErrors = {};
-      if (!formData.firstName.trim()) errors.firstName = 'First name is required';
-      if (!formData.lastName.trim()) errors.lastName = 'Last name is required';
-      if (!formData.age) errors.age = 'Age group is required';
-      if (!formData.gender) errors.gender = 'Gender is required';
+      const errors = validateGuestForm(formData);
 
       if (Object.keys(errors).length > 0) {
         setFieldErrors(errors);
@@ -0,0 +1,276 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Clock, Printer, FileText } from 'lucide-react';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useMealsStore } from '@/lib/stores/useMealsStore';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
+import { useDonationsStore } from '@/lib/stores/useDonationsStore';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
+import { useUserRole } from '@/hooks/useUserRole';
+import {
+  TIMELINE_EVENT_LABELS,
+  TIMELINE_PERIOD_LABELS,
+  buildGuestTimeline,
+  countGuestTimelineByPeriod,
+  countTimelineEvents,
+} from '@/lib/utils/guestTimeline';
+import { formatDisplayDate } from '@/lib/utils/date';
+import type {
+  GuestTimelineEvent,
+  TimelineEventType,
+  TimelinePeriod,
+  VerificationLetter,
+} from '@/lib/types';
+import { Button } from '@/components/ui';
+import { TIMELINE_TYPE_CONFIG, TimelineEventRow } from '@/components/services/TimelineEventRow';
+import { BanHistoryPanel } from './BanHistoryPanel';
+import { IssuedLettersPanel } from './IssuedLettersPanel';
+import { VerificationLetterModal } from './VerificationLetterModal';
+
+interface GuestServiceHistoryProps {
+  guestId: string;
+}
+
+// Plain dates are shown as they are rather than shifted into the browser's timezone
+const formatServiceDate = (date: string, options?: Intl.DateTimeFormatOptions) =>
+  formatDisplayDate(`${date}T12:00:00`, options);
+
+/**
+ * Everything one guest has received, as a timeline grouped by day with counts
+ * per week, month or year and a summary that prints on a single page
+ */
+export function GuestServiceHistory({ guestId }: GuestServiceHistoryProps) {
+  const guests = useGuestsStore((state) => state.guests);
+  const mealRecords = useMealsStore((state) => state.mealRecords);
+  const rvMealRecords = useMealsStore((state) => state.rvMealRecords);
+  const extraMealRecords = useMealsStore((state) => state.extraMealRecords);
+  const holidayRecords = useMealsStore((state) => state.holidayRecords);
+  const haircutRecords = useMealsStore((state) => state.haircutRecords);
+  const showerRecords = useServicesStore((state) => state.showerRecords);
+  const laundryRecords = useServicesStore((state) => state.laundryRecords);
+  const bicycleRecords = useServicesStore((state) => state.bicycleRecords);
+  const itemRecords = useDonationsStore((state) => state.itemRecords);
+  const waivers = useWaiverStore((state) => state.waivers);
+  const { role } = useUserRole();
+  const [period, setPeriod] = useState<TimelinePeriod>('month');
+  // Undefined while closed, null for a new letter, or an issued letter to reprint
+  const [letter, setLetter] = useState<VerificationLetter | null | undefined>(undefined);
+
+  // Letters and the ban record are for staff, not check-in volunteers
+  const isStaff = role === 'admin' || role === 'staff';
+
+  const guest = guests.find((g) => g.id === guestId);
+
+  const events = useMemo(
+    () =>
+      buildGuestTimeline(guestId, {
+        meals: mealRecords,
+        rvMeals: rvMealRecords,
+        extraMeals: extraMealRecords,
+        showers: showerRecords,
+        laundry: laundryRecords,
+        bicycles: bicycleRecords,
+        haircuts: haircutRecords,
+        holidays: holidayRecords,
+        items: itemRecords,
+        waivers,
+      }),
+    [
+      guestId,
+      mealRecords,
+      rvMealRecords,
+      extraMealRecords,
+      showerRecords,
+      laundryRecords,
+      bicycleRecords,
+      haircutRecords,
+      holidayRecords,
+      itemRecords,
+      waivers,
+    ]
+  );
+
+  const totals = useMemo(() => countTimelineEvents(events), [events]);
+  const periodCounts = useMemo(() => countGuestTimelineByPeriod(events, period), [events, period]);
+  const types = (Object.keys(TIMELINE_EVENT_LABELS) as TimelineEventType[]).filter((type) => totals.counts[type]);
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, GuestTimelineEvent[]>();
+    events.forEach((event) => byDay.set(event.date, [...(byDay.get(event.date) || []), event]));
+    return Array.from(byDay.entries());
+  }, [events]);
+
+  if (!guest) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-8 text-center text-gray-500">
+        <p>Guest not found</p>
+        <p className="text-sm mt-1">They may have been merged into another profile or removed.</p>
+      </div>
+    );
+  }
+
+  const firstVisit = events.length > 0 ? events[events.length - 1].date : null;
+  const lastVisit = events.length > 0 ? events[0].date : null;
+
+  // While a letter is open only the letter prints
+  return (
+    <>
+    <div className={`space-y-6 ${letter !== undefined ? 'print:hidden' : ''}`}>
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {guest.firstName} {guest.lastName}
+            {guest.preferredName && (
+              <span className="text-gray-500 font-normal text-lg"> ({guest.preferredName})</span>
+            )}
+          </h1>
+          <p className="text-gray-500 mt-1">
+            {guest.guestId} · {guest.housingStatus} · {guest.location}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 print:hidden">
+          {isStaff && (
+            <Button variant="outline" onClick={() => setLetter(null)} leftIcon={<FileText size={16} />}>
+              Verification letter
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => window.print()} leftIcon={<Printer size={16} />}>
+            Print summary
+          </Button>
+        </div>
+      </div>
+
+      {isStaff && <IssuedLettersPanel key={guestId} guestId={guestId} onView={setLetter} />}
+      {isStaff && <BanHistoryPanel key={`bans-${guestId}`} guestId={guestId} />}
+
+      {/* Summary */}
+      <section className="bg-white rounded-xl border border-gray-200 p-4 break-inside-avoid">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h2 className="text-lg font-semibold text-gray-900">Service summary</h2>
+          <p className="text-sm text-gray-500">
+            {firstVisit && lastVisit
+              ? `${formatServiceDate(firstVisit)} – ${formatServiceDate(lastVisit)}`
+              : 'No services recorded'}
+          </p>
+        </div>
+        <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-2xl font-bold text-gray-900">{totals.total}</p>
+            <p className="text-xs text-gray-500">Services received</p>
+          </div>
+          {types.map((type) => {
+            const config = TIMELINE_TYPE_CONFIG[type];
+            const Icon = config.icon;
+            return (
+              <div key={type} className="rounded-lg bg-gray-50 p-3 flex items-center gap-3">
+                <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${config.color}`}>
+                  <Icon size={16} />
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-gray-900">{totals.counts[type]}</p>
+                  <p className="text-xs text-gray-500">{TIMELINE_EVENT_LABELS[type]}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Counts per period */}
+      {periodCounts.length > 0 && (
+        <section className="bg-white rounded-xl border border-gray-200 p-4 break-inside-avoid">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h2 className="text-lg font-semibold text-gray-900">{TIMELINE_PERIOD_LABELS[period]} counts</h2>
+            <div className="flex gap-1.5 print:hidden" role="group" aria-label="Count services by">
+              {(Object.keys(TIMELINE_PERIOD_LABELS) as TimelinePeriod[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setPeriod(option)}
+                  aria-pressed={period === option}
+                  className={`px-2.5 py-1 text-xs rounded-full font-medium transition-colors ${
+                    period === option
+                      ? 'bg-emerald-600 text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {TIMELINE_PERIOD_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Period</th>
+                  {types.map((type) => (
+                    <th key={type} className="py-2 px-2 font-medium text-right">
+                      {TIMELINE_EVENT_LABELS[type]}
+                    </th>
+                  ))}
+                  <th className="py-2 pl-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {periodCounts.map((row) => (
+                  <tr key={row.period}>
+                    <td className="py-2 pr-4 text-gray-900">{row.label}</td>
+                    {types.map((type) => (
+                      <td key={type} className="py-2 px-2 text-right text-gray-700">
+                        {row.counts[type] || 0}
+                      </td>
+                    ))}
+                    <td className="py-2 pl-2 text-right font-semibold text-gray-900">{row.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* Timeline */}
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Timeline</h2>
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          {days.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              <Clock size={48} className="mx-auto mb-4 opacity-50" />
+              <p>No services recorded for this guest</p>
+              <p className="text-sm mt-1">Meals, services, items and waivers will appear here</p>
+            </div>
+          ) : (
+            days.map(([date, dayEvents]) => (
+              <div key={date}>
+                <h3 className="px-4 py-2 bg-gray-50 text-sm font-medium text-gray-700 border-y border-gray-100">
+                  {formatServiceDate(date, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+                </h3>
+                <div className="divide-y divide-gray-100">
+                  {dayEvents.map((event) => (
+                    <TimelineEventRow
+                      key={event.id}
+                      type={event.type}
+                      title={TIMELINE_EVENT_LABELS[event.type]}
+                      description={event.description}
+                      time={event.time}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+    </div>
+
+    {letter !== undefined && (
+      <VerificationLetterModal guest={guest} events={events} letter={letter} onClose={() => setLetter(undefined)} />
+    )}
+    </>
+  );
+}
+
+export default GuestServiceHistory;
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ScrollText, Loader2 } from 'lucide-react';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import type { VerificationLetter } from '@/lib/types';
+
+interface IssuedLettersPanelProps {
+  guestId: string;
+  onView: (letter: VerificationLetter) => void;
+}
+
+/**
+ * The verification letters issued to a guest, newest first
+ */
+export function IssuedLettersPanel({ guestId, onView }: IssuedLettersPanelProps) {
+  const fetchVerificationLetters = useGuestsStore((state) => state.fetchVerificationLetters);
+  const verificationLetters = useGuestsStore((state) => state.verificationLetters);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Render with a key per guest so a different guest starts loading afresh
+  useEffect(() => {
+    let cancelled = false;
+    fetchVerificationLetters(guestId)
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load verification letters');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guestId, fetchVerificationLetters]);
+
+  const letters = useMemo(
+    () =>
+      verificationLetters
+        .filter((letter) => letter.guestId === guestId)
+        .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt)),
+    [verificationLetters, guestId]
+  );
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 print:hidden">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <ScrollText size={18} /> Verification letters
+        </h2>
+        {loading && <Loader2 size={14} className="animate-spin text-gray-400" aria-label="Loading letters" />}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && letters.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No letters issued yet.</p>
+      )}
+
+      {letters.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {letters.map((letter) => (
+            <li key={letter.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+              <div>
+                <p className="font-mono text-gray-900">{letter.serialNumber}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(letter.issuedAt).toLocaleString()} ·{' '}
+                  {letter.issuedByEmail ?? (letter.issuedBy ? 'Staff member' : 'Issued on this device')}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onView(letter)}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                View copy
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default IssuedLettersPanel;
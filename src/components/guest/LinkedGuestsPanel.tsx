@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Link2, Unlink, Utensils, WashingMachine, Loader2 } from 'lucide-react';
+import type { Guest, LaundryRecord } from '@/lib/types';
+import { MAX_GUEST_PROXIES } from '@/lib/types';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useMealsStore } from '@/lib/stores/useMealsStore';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { isGuestBannedFrom } from '@/lib/utils/guestBans';
+import { enhancedToast } from '@/utils/toast';
+
+interface LinkedGuestsPanelProps {
+  guest: Guest;
+}
+
+// Finished loads waiting for their owner, and the status picking them up moves them to
+const PICKUP_STATUS: Partial<Record<LaundryRecord['status'], LaundryRecord['status']>> = {
+  done: 'picked_up',
+  returned: 'offsite_picked_up',
+};
+
+const guestName = (guest: Guest) => guest.preferredName || `${guest.firstName} ${guest.lastName}`;
+
+/**
+ * Linked guests on a guest card: add or remove links, and let this guest
+ * collect a meal or finished laundry for a linked guest who isn't here
+ */
+export function LinkedGuestsPanel({ guest }: LinkedGuestsPanelProps) {
+  const guests = useGuestsStore((state) => state.guests);
+  const guestProxies = useGuestsStore((state) => state.guestProxies);
+  const linkGuests = useGuestsStore((state) => state.linkGuests);
+  const unlinkGuests = useGuestsStore((state) => state.unlinkGuests);
+  const mealRecords = useMealsStore((state) => state.mealRecords);
+  const addMealRecord = useMealsStore((state) => state.addMealRecord);
+  const laundryRecords = useServicesStore((state) => state.laundryRecords);
+  const updateLaundryStatus = useServicesStore((state) => state.updateLaundryStatus);
+
+  const [search, setSearch] = useState('');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const linkedGuests = useMemo(
+    () =>
+      guestProxies
+        .filter((link) => link.guestId === guest.id)
+        .map((link) => guests.find((g) => g.id === link.proxyId))
+        .filter((g): g is Guest => Boolean(g)),
+    [guestProxies, guests, guest.id]
+  );
+
+  const matches = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (query.length < 2) return [];
+    const linkedIds = new Set(linkedGuests.map((g) => g.id));
+    return guests
+      .filter(
+        (g) =>
+          g.id !== guest.id &&
+          !linkedIds.has(g.id) &&
+          `${g.firstName} ${g.lastName} ${g.preferredName} ${g.guestId}`.toLowerCase().includes(query)
+      )
+      .slice(0, 5);
+  }, [search, guests, guest.id, linkedGuests]);
+
+  const todayStr = todayPacificDateString();
+  const hasMealToday = (guestId: string) =>
+    mealRecords.some((r) => r.guestId === guestId && r.date === todayStr && r.type === 'guest');
+  const readyLaundry = (guestId: string) =>
+    laundryRecords.filter((r) => r.guestId === guestId && PICKUP_STATUS[r.status]);
+
+  const run = async (key: string, action: () => Promise<void>, success: string) => {
+    setBusyKey(key);
+    try {
+      await action();
+      enhancedToast.success(success);
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  // A ban from a service also stops picking it up for someone else
+  const canPickUpMeals = !isGuestBannedFrom(guest, 'meals');
+  const canPickUpLaundry = !isGuestBannedFrom(guest, 'laundry');
+  const atLimit = linkedGuests.length >= MAX_GUEST_PROXIES;
+
+  return (
+    <div className="bg-indigo-50/50 border border-indigo-100 p-3 rounded-lg space-y-2">
+      <p className="text-sm font-medium text-indigo-900 flex items-center gap-1">
+        <Link2 size={14} /> Linked guests ({linkedGuests.length}/{MAX_GUEST_PROXIES})
+      </p>
+
+      {linkedGuests.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Link a partner or family member so either can pick up meals or laundry for the other.
+        </p>
+      )}
+
+      {linkedGuests.map((linked) => {
+        const loads = readyLaundry(linked.id);
+        const mealKey = `meal-${linked.id}`;
+        return (
+          <div key={linked.id} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium text-gray-800">{guestName(linked)}</span>
+            {canPickUpMeals && !isGuestBannedFrom(linked, 'meals') && !hasMealToday(linked.id) && (
+              <button
+                type="button"
+                onClick={() =>
+                  run(
+                    mealKey,
+                    async () => {
+                      await addMealRecord(linked.id, 1, guest.id);
+                    },
+                    `Meal picked up for ${guestName(linked)}`
+                  )
+                }
+                disabled={busyKey !== null}
+                className="px-2 py-1 text-xs bg-emerald-100 text-emerald-700 rounded hover:bg-emerald-200 flex items-center gap-1 disabled:opacity-50"
+              >
+                {busyKey === mealKey ? <Loader2 size={12} className="animate-spin" /> : <Utensils size={12} />}
+                Pick up meal
+              </button>
+            )}
+            {canPickUpLaundry &&
+              loads.map((load) => {
+                const loadKey = `laundry-${load.id}`;
+                return (
+                  <button
+                    key={load.id}
+                    type="button"
+                    onClick={() =>
+                      run(
+                        loadKey,
+                        () => updateLaundryStatus(load.id, PICKUP_STATUS[load.status]!, guest.id),
+                        `Laundry picked up for ${guestName(linked)}`
+                      )
+                    }
+                    disabled={busyKey !== null}
+                    className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200 flex items-center gap-1 disabled:opacity-50"
+                  >
+                    {busyKey === loadKey ? (
+                      <Loader2 size={12} className="animate-spin" />
+                    ) : (
+                      <WashingMachine size={12} />
+                    )}
+                    Pick up laundry{load.bagNumber ? ` #${load.bagNumber}` : ''}
+                  </button>
+                );
+              })}
+            <button
+              type="button"
+              onClick={() =>
+                run(`unlink-${linked.id}`, () => unlinkGuests(guest.id, linked.id), `Unlinked ${guestName(linked)}`)
+              }
+              disabled={busyKey !== null}
+              aria-label={`Unlink ${guestName(linked)}`}
+              className="ml-auto p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            >
+              <Unlink size={14} />
+            </button>
+          </div>
+        );
+      })}
+
+      {!atLimit && (
+        <div>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search a guest to link"
+            aria-label="Search a guest to link"
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-indigo-400 focus:border-indigo-400"
+          />
+          {matches.length > 0 && (
+            <ul className="mt-1 bg-white border border-gray-200 rounded divide-y divide-gray-100">
+              {matches.map((match) => (
+                <li key={match.id} className="flex items-center justify-between px-2 py-1 text-sm">
+                  <span>
+                    {guestName(match)} <span className="text-xs text-gray-400">{match.guestId}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      run(
+                        `link-${match.id}`,
+                        async () => {
+                          await linkGuests(guest.id, match.id);
+                          setSearch('');
+                        },
+                        `Linked ${guestName(match)}`
+                      )
+                    }
+                    disabled={busyKey !== null}
+                    className="px-2 py-0.5 text-xs bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200 disabled:opacity-50"
+                  >
+                    Link
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LinkedGuestsPanel;
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FileSignature, Download, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import type { SignedWaiverDocument } from '@/lib/types';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
+import { useUserRole } from '@/hooks/useUserRole';
+import { WAIVER_LANGUAGES } from '@/lib/utils/waivers';
+import { enhancedToast } from '@/utils/toast';
+
+interface SignedWaiversPanelProps {
+  guestId: string;
+}
+
+const languageLabel = (language: string) =>
+  WAIVER_LANGUAGES.find((option) => option.id === language)?.label ?? language;
+
+const downloadDocument = (signed: SignedWaiverDocument) => {
+  const blob = new Blob([JSON.stringify(signed, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.href = url;
+  link.download = `waiver-${signed.document.waiverKind}-${signed.document.signedAt.slice(0, 10)}.json`;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Admin-only list of the waivers a guest signed on screen, with the exact
+ * text they were shown and their signature
+ */
+export function SignedWaiversPanel({ guestId }: SignedWaiversPanelProps) {
+  const { role } = useUserRole();
+  const fetchWaiverDocuments = useWaiverStore((state) => state.fetchWaiverDocuments);
+  const [documents, setDocuments] = useState<SignedWaiverDocument[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  if (role !== 'admin') return null;
+
+  const handleLoad = async () => {
+    setLoading(true);
+    try {
+      setDocuments(await fetchWaiverDocuments(guestId));
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Unable to load signed waivers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-sky-50/50 border border-sky-100 p-3 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-sky-900 flex items-center gap-1">
+          <FileSignature size={14} /> Signed waivers
+        </p>
+        {documents === null && (
+          <button
+            type="button"
+            onClick={handleLoad}
+            disabled={loading}
+            className="px-2 py-1 text-xs bg-sky-100 text-sky-700 rounded hover:bg-sky-200 flex items-center gap-1 disabled:opacity-50"
+          >
+            {loading && <Loader2 size={12} className="animate-spin" />}
+            Show
+          </button>
+        )}
+      </div>
+
+      {documents?.length === 0 && <p className="text-xs text-gray-500">No waivers signed on screen yet.</p>}
+
+      {documents?.map((signed) => {
+        const isOpen = openId === signed.id;
+        return (
+          <div key={signed.id} className="bg-white border border-gray-200 rounded">
+            <button
+              type="button"
+              onClick={() => setOpenId(isOpen ? null : signed.id)}
+              aria-expanded={isOpen}
+              className="w-full flex items-center justify-between px-2 py-1.5 text-sm text-left"
+            >
+              <span>
+                <span className="font-medium text-gray-800">{signed.document.title}</span>
+                {signed.document.templateVersion && (
+                  <span className="ml-1 text-xs text-gray-500">v{signed.document.templateVersion}</span>
+                )}
+                <span className="ml-2 text-xs text-gray-500">
+                  {new Date(signed.document.signedAt).toLocaleDateString()} · {languageLabel(signed.document.language)}
+                </span>
+              </span>
+              {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+            {isOpen && (
+              <div className="border-t border-gray-100 p-3 space-y-2">
+                <ol className="list-decimal pl-5 space-y-1 text-xs text-gray-700">
+                  {signed.document.body.map((paragraph) => (
+                    <li key={paragraph}>{paragraph}</li>
+                  ))}
+                </ol>
+                {/* eslint-disable-next-line @next/next/no-img-element -- data URL, nothing to optimize */}
+                <img
+                  src={signed.signatureImage}
+                  alt={`Signature of ${signed.document.signerName}`}
+                  className="w-full max-w-xs border border-gray-200 rounded bg-white"
+                />
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    Signed by {signed.document.signerName} on {new Date(signed.document.signedAt).toLocaleString()}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => downloadDocument(signed)}
+                    className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 flex items-center gap-1"
+                  >
+                    <Download size={12} /> Download
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default SignedWaiversPanel;
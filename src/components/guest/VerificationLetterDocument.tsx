@@ -0,0 +1,39 @@
+'use client';
+
+import type { VerificationLetterContent } from '@/lib/types';
+import { formatDisplayDate } from '@/lib/utils/date';
+
+interface VerificationLetterDocumentProps {
+  content: VerificationLetterContent;
+  // Null while the letter is a preview that has not been issued
+  serialNumber: string | null;
+}
+
+/**
+ * A verification letter as it prints, from its logged content
+ */
+export function VerificationLetterDocument({ content, serialNumber }: VerificationLetterDocumentProps) {
+  return (
+    <article className="bg-white text-gray-900 space-y-4 font-serif">
+      <header className="flex flex-wrap items-start justify-between gap-2 border-b border-gray-300 pb-3">
+        <div>
+          <p className="text-xl font-bold">{content.siteName}</p>
+          <h2 className="text-lg">{content.title}</h2>
+        </div>
+        <div className="text-right text-sm">
+          <p>{formatDisplayDate(`${content.issuedOn}T12:00:00`, { month: 'long', day: 'numeric', year: 'numeric' })}</p>
+          <p className="font-mono">
+            {serialNumber ? `Serial No. ${serialNumber}` : 'Serial number assigned when issued'}
+          </p>
+        </div>
+      </header>
+      {content.body.map((paragraph, index) => (
+        <p key={index} className="leading-relaxed">
+          {paragraph}
+        </p>
+      ))}
+    </article>
+  );
+}
+
+export default VerificationLetterDocument;
@@ -0,0 +1,108 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { X, Printer, Stamp } from 'lucide-react';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { buildVerificationLetter } from '@/lib/utils/verificationLetters';
+import { todayPacificDateString } from '@/lib/utils/date';
+import type { Guest, GuestTimelineEvent, VerificationLetter } from '@/lib/types';
+import { enhancedToast } from '@/utils/toast';
+import { Button } from '@/components/ui';
+import { VerificationLetterDocument } from './VerificationLetterDocument';
+
+interface VerificationLetterModalProps {
+  guest: Guest;
+  events: GuestTimelineEvent[];
+  // A letter already issued, shown from its logged copy instead of a new preview
+  letter?: VerificationLetter | null;
+  onClose: () => void;
+}
+
+/**
+ * Previews a verification letter for a guest, issues it with a serial number
+ * and prints it. Issued letters are reprinted from their logged copy.
+ */
+export function VerificationLetterModal({ guest, events, letter = null, onClose }: VerificationLetterModalProps) {
+  const siteName = useSettingsStore((state) => state.siteName);
+  const issueVerificationLetter = useGuestsStore((state) => state.issueVerificationLetter);
+  const [issued, setIssued] = useState<VerificationLetter | null>(letter);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () => buildVerificationLetter({ siteName, guest, events, issuedOn: todayPacificDateString() }),
+    [siteName, guest, events]
+  );
+
+  const handleIssue = async () => {
+    setIsIssuing(true);
+    setError(null);
+    try {
+      const saved = await issueVerificationLetter(guest.id, preview);
+      setIssued(saved);
+      enhancedToast.success(`Issued letter ${saved.serialNumber}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to issue the verification letter');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center print:static print:block print:bg-transparent">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto m-4 print:m-0 print:max-h-none print:overflow-visible print:rounded-none">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 print:hidden">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {issued ? 'Verification letter' : 'Issue a verification letter'}
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 print:p-0">
+          <VerificationLetterDocument
+            content={issued ? issued.content : preview}
+            serialNumber={issued ? issued.serialNumber : null}
+          />
+        </div>
+
+        <div className="px-6 pb-6 space-y-3 print:hidden">
+          {!issued && preview.visitDays === 0 && (
+            <p className="text-sm text-amber-700">
+              This guest has no visits on record yet, so there is nothing to verify.
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              {issued ? 'Close' : 'Cancel'}
+            </Button>
+            {issued ? (
+              <Button onClick={() => window.print()} leftIcon={<Printer size={16} />}>
+                Print letter
+              </Button>
+            ) : (
+              <Button
+                onClick={handleIssue}
+                isLoading={isIssuing}
+                loadingText="Issuing..."
+                disabled={preview.visitDays === 0}
+                leftIcon={<Stamp size={16} />}
+              >
+                Issue letter
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default VerificationLetterModal;
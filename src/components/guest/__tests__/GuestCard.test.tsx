@@ -74,6 +74,24 @@ describe('GuestCard', () => {
       const { container } = render(<GuestCard guest={guest} />);
       expect(container.firstChild).toHaveClass('border-red-300');
     });
+
+    it('shows the scope of a partial ban and keeps the other services available', () => {
+      const guest = createMockGuest({ isBanned: true, bannedServices: ['shower'] });
+      render(
+        <GuestCard
+          guest={guest}
+          isExpanded={true}
+          onAddMeal1={vi.fn()}
+          onAddShower={vi.fn()}
+          onAddLaundry={vi.fn()}
+        />
+      );
+
+      expect(screen.getByText('Banned: Showers')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /1 meal/i })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /laundry/i })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /shower/i })).not.toBeInTheDocument();
+    });
   });
 
   describe('expand/collapse', () => {
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { GuestEditModal } from '../GuestEditModal';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import type { Guest } from '@/lib/types';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(),
+  getSupabaseClient: vi.fn(),
+  isSupabaseEnabled: vi.fn(() => false),
+}));
+
+vi.mock('@/utils/toast', () => ({
+  enhancedToast: { success: vi.fn(), error: vi.fn(), info: vi.fn() },
+}));
+
+const guest: Guest = {
+  id: 'guest-1',
+  guestId: 'G-1',
+  firstName: 'Ana',
+  lastName: 'Test',
+  name: 'Ana Test',
+  preferredName: '',
+  housingStatus: 'Unhoused',
+  age: 'Adult 18-59',
+  gender: 'Female',
+  location: 'Mountain View',
+  notes: '',
+  bicycleDescription: '',
+  bannedAt: null,
+  bannedUntil: null,
+  banReason: '',
+  isBanned: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('GuestEditModal', () => {
+  beforeEach(() => {
+    useGuestsStore.setState({ guests: [guest], guestHistory: [] });
+  });
+
+  it('starts from the current profile and applies the create form checks', () => {
+    render(<GuestEditModal guest={guest} onClose={vi.fn()} />);
+
+    const firstName = screen.getByLabelText(/First Name/);
+    expect(firstName).toHaveValue('Ana');
+
+    fireEvent.change(firstName, { target: { name: 'firstName', value: ' ' } });
+    fireEvent.click(screen.getByRole('button', { name: /Save Changes/ }));
+
+    expect(screen.getByText('First name is required')).toBeInTheDocument();
+    expect(useGuestsStore.getState().guests[0].firstName).toBe('Ana');
+  });
+
+  it('saves changes and shows them on the History tab', async () => {
+    const onClose = vi.fn();
+    const { rerender } = render(<GuestEditModal guest={guest} onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText(/Housing Status/), {
+      target: { name: 'housingStatus', value: 'Housed' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Save Changes/ }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(useGuestsStore.getState().guests[0].housingStatus).toBe('Housed');
+
+    rerender(<GuestEditModal guest={useGuestsStore.getState().guests[0]} onClose={onClose} />);
+    fireEvent.click(screen.getByRole('tab', { name: /History/ }));
+
+    expect(await screen.findByText('Housing status')).toBeInTheDocument();
+    expect(screen.getByText('Unhoused')).toBeInTheDocument();
+    expect(screen.getByText('Housed')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { LinkedGuestsPanel } from '../LinkedGuestsPanel';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useMealsStore } from '@/lib/stores/useMealsStore';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
+import type { Guest, LaundryRecord } from '@/lib/types';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(),
+  getSupabaseClient: vi.fn(),
+  isSupabaseEnabled: vi.fn(() => false),
+}));
+
+vi.mock('@/utils/toast', () => ({
+  enhancedToast: { success: vi.fn(), error: vi.fn(), info: vi.fn() },
+}));
+
+const TODAY = '2024-01-15';
+
+const makeGuest = (id: string, firstName: string): Guest => ({
+  id,
+  guestId: `G-${id}`,
+  firstName,
+  lastName: 'Test',
+  name: `${firstName} Test`,
+  preferredName: '',
+  housingStatus: 'Unhoused',
+  age: 'Adult 18-59',
+  gender: 'Unknown',
+  location: 'Mountain View',
+  notes: '',
+  bicycleDescription: '',
+  bannedAt: null,
+  bannedUntil: null,
+  banReason: '',
+  isBanned: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const ana = makeGuest('ana', 'Ana');
+const ben = makeGuest('ben', 'Ben');
+
+const finishedLoad: LaundryRecord = {
+  id: 'load-1',
+  guestId: 'ben',
+  time: null,
+  laundryType: 'onsite',
+  bagNumber: '42',
+  scheduledFor: TODAY,
+  date: TODAY,
+  status: 'done',
+  createdAt: `${TODAY}T17:00:00.000Z`,
+  lastUpdated: `${TODAY}T17:00:00.000Z`,
+};
+
+describe('LinkedGuestsPanel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${TODAY}T20:00:00.000Z`));
+    useGuestsStore.setState({
+      guests: [ana, ben],
+      guestProxies: [
+        { id: 'p1', guestId: 'ana', proxyId: 'ben', createdAt: TODAY },
+        { id: 'p2', guestId: 'ben', proxyId: 'ana', createdAt: TODAY },
+      ],
+    });
+    useMealsStore.setState({ mealRecords: [] });
+    useServicesStore.setState({ laundryRecords: [finishedLoad] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists linked guests', () => {
+    render(<LinkedGuestsPanel guest={ana} />);
+    expect(screen.getByText('Linked guests (1/3)')).toBeInTheDocument();
+    expect(screen.getByText('Ben Test')).toBeInTheDocument();
+  });
+
+  it('records a meal for the absent guest noting who picked it up', async () => {
+    render(<LinkedGuestsPanel guest={ana} />);
+    fireEvent.click(screen.getByRole('button', { name: /pick up meal/i }));
+
+    await waitFor(() => {
+      expect(useMealsStore.getState().mealRecords).toHaveLength(1);
+    });
+    expect(useMealsStore.getState().mealRecords[0]).toMatchObject({ guestId: 'ben', pickedUpBy: 'ana' });
+    expect(screen.queryByRole('button', { name: /pick up meal/i })).not.toBeInTheDocument();
+  });
+
+  it('marks finished laundry picked up on behalf of the linked guest', async () => {
+    render(<LinkedGuestsPanel guest={ana} />);
+    fireEvent.click(screen.getByRole('button', { name: /pick up laundry #42/i }));
+
+    await waitFor(() => {
+      expect(useServicesStore.getState().laundryRecords[0]).toMatchObject({
+        status: 'picked_up',
+        pickedUpBy: 'ana',
+      });
+    });
+  });
+
+  it('does not offer pick-ups when the guest is banned', () => {
+    render(<LinkedGuestsPanel guest={{ ...ana, isBanned: true }} />);
+    expect(screen.queryByRole('button', { name: /pick up/i })).not.toBeInTheDocument();
+  });
+
+  it('links a guest found by search and unlinks it again', async () => {
+    useGuestsStore.setState({ guestProxies: [] });
+    render(<LinkedGuestsPanel guest={ana} />);
+
+    fireEvent.change(screen.getByLabelText('Search a guest to link'), { target: { value: 'ben' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Link' }));
+
+    await waitFor(() => {
+      expect(useGuestsStore.getState().getLinkedGuests('ana').map((g) => g.id)).toEqual(['ben']);
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Unlink Ben Test' }));
+    await waitFor(() => {
+      expect(useGuestsStore.getState().guestProxies).toEqual([]);
+    });
+  });
+});
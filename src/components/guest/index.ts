@@ -1,7 +1,16 @@
 // Guest components barrel export
 export { GuestCard } from './GuestCard';
-export { GuestCreateForm } from './GuestCreateForm';
+export { GuestCreateForm, validateGuestForm } from './GuestCreateForm';
 export type { GuestFormData, FieldErrors } from './GuestCreateForm';
+export { GuestEditModal } from './GuestEditModal';
+export { GuestHistoryPanel } from './GuestHistoryPanel';
+export { GuestServiceHistory } from './GuestServiceHistory';
 export { GuestList } from './GuestList';
+export { IssuedLettersPanel } from './IssuedLettersPanel';
+export { LinkedGuestsPanel } from './LinkedGuestsPanel';
+export { SignedWaiversPanel } from './SignedWaiversPanel';
+export { VerificationLetterModal } from './VerificationLetterModal';
 export { default as GuestBatchUpload } from './GuestBatchUpload';
 export { BanGuestModal } from './BanGuestModal';
+export { BanHistoryPanel } from './BanHistoryPanel';
+export { EligibilityOverrideModal } from './EligibilityOverrideModal';
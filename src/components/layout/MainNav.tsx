@@ -54,7 +54,7 @@ export function MainNav({ user, role }: MainNavProps) {
   return (
     <>
       {/* Desktop Navigation - Emerald/Green Theme Header */}
-      <header className="hidden md:block bg-green-950 text-white sticky top-0 z-40">
+      <header className="hidden md:block bg-green-950 text-white sticky top-0 z-40 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           {/* Top Row - Logo and User Info */}
           <div className="flex justify-between items-center py-3 border-b border-emerald-800/50">
@@ -125,7 +125,7 @@ export function MainNav({ user, role }: MainNavProps) {
 
       {/* Mobile Navigation - Bottom tabs with safe area */}
       <nav 
-        className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-40"
+        className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-40 print:hidden"
         style={{ paddingBottom: 'env(safe-area-inset-bottom)' }}
       >
         <div className="flex justify-around items-center h-16 px-2">
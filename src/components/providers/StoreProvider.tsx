@@ -6,6 +6,11 @@ import { useMealsStore } from '@/lib/stores/useMealsStore';
 import { useServicesStore } from '@/lib/stores/useServicesStore';
 import { useDonationsStore } from '@/lib/stores/useDonationsStore';
 import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
+import { useInventoryStore } from '@/lib/stores/useInventoryStore';
+import { useFoodSafetyStore } from '@/lib/stores/useFoodSafetyStore';
+import { useFoodRescueStore } from '@/lib/stores/useFoodRescueStore';
+import { useTaxonomyStore } from '@/lib/stores/useTaxonomyStore';
 
 // Store context for hydration management
 interface StoreContextValue {
@@ -53,6 +58,11 @@ export function StoreProvider({ children }: StoreProviderProps) {
         useServicesStore.getState().loadFromSupabase(),
         useDonationsStore.getState().loadFromSupabase(),
         useSettingsStore.getState().loadFromSupabase(),
+        useWaiverStore.getState().loadFromSupabase(),
+        useInventoryStore.getState().loadFromSupabase(),
+        useFoodSafetyStore.getState().loadFromSupabase(),
+        useFoodRescueStore.getState().loadFromSupabase(),
+        useTaxonomyStore.getState().loadFromSupabase(),
       ]);
 
       setIsInitialized(true);
@@ -75,6 +85,11 @@ export function StoreProvider({ children }: StoreProviderProps) {
         useServicesStore.getState().loadFromSupabase(),
         useDonationsStore.getState().loadFromSupabase(),
         useSettingsStore.getState().loadFromSupabase(),
+        useWaiverStore.getState().loadFromSupabase(),
+        useInventoryStore.getState().loadFromSupabase(),
+        useFoodSafetyStore.getState().loadFromSupabase(),
+        useFoodRescueStore.getState().loadFromSupabase(),
+        useTaxonomyStore.getState().loadFromSupabase(),
       ]);
 
       console.log('[StoreProvider] All stores refreshed');
@@ -117,3 +132,4 @@ export { useMealsStore } from '@/lib/stores/useMealsStore';
 export { useServicesStore } from '@/lib/stores/useServicesStore';
 export { useDonationsStore } from '@/lib/stores/useDonationsStore';
 export { useSettingsStore } from '@/lib/stores/useSettingsStore';
+export { useWaiverStore } from '@/lib/stores/useWaiverStore';
@@ -6,7 +6,9 @@ import {
   hasPendingOperations, 
   cleanupCompletedOperations 
 } from '@/lib/utils/offlineQueueManager';
-import { getQueueStats } from '@/lib/utils/indexedDB';
+import { getQueueStats, getConflictOperations, type FailedOperation } from '@/lib/utils/indexedDB';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
+import { useWaitlistAlerts } from '@/hooks/useWaitlistAlerts';
 
 // Types
 interface SyncStats {
@@ -26,6 +28,8 @@ interface SyncContextValue {
   setAutoSyncEnabled: (enabled: boolean) => void;
   triggerSync: (showProgress?: boolean) => Promise<SyncResult | undefined>;
   hasPending: boolean;
+  conflicts: FailedOperation[];
+  refreshConflicts: () => Promise<void>;
 }
 
 interface SyncResult {
@@ -37,7 +41,6 @@ interface SyncResult {
 
 interface SyncProviderProps {
   children: React.ReactNode;
-  executeFunctions?: Record<string, (payload: unknown) => Promise<unknown>>;
 }
 
 const SyncContext = createContext<SyncContextValue | null>(null);
@@ -50,7 +53,7 @@ export function useSyncStatus() {
   return context;
 }
 
-export function SyncProvider({ children, executeFunctions = {} }: SyncProviderProps) {
+export function SyncProvider({ children }: SyncProviderProps) {
   const [isOnline, setIsOnline] = useState(typeof navigator !== 'undefined' ? navigator.onLine : true);
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncStats, setSyncStats] = useState<SyncStats>({
@@ -63,8 +66,15 @@ export function SyncProvider({ children, executeFunctions = {} }: SyncProviderPr
   const [syncError, setSyncError] = useState<string | null>(null);
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(true);
   const [hasPending, setHasPending] = useState(false);
+  const [conflicts, setConflicts] = useState<FailedOperation[]>([]);
   const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Merge row changes from other devices into the stores
+  useRealtimeSync();
+
+  // Announce guests moved up from a waitlist
+  useWaitlistAlerts();
+
   // Update queue statistics
   const updateStats = useCallback(async () => {
     try {
@@ -78,6 +88,15 @@ export function SyncProvider({ children, executeFunctions = {} }: SyncProviderPr
     }
   }, []);
 
+  // Reload conflicted operations awaiting staff review
+  const refreshConflicts = useCallback(async () => {
+    try {
+      setConflicts(await getConflictOperations());
+    } catch (error) {
+      console.error('[SyncProvider] Failed to load conflicts:', error);
+    }
+  }, []);
+
   // Trigger manual sync
   const triggerSync = useCallback(
     async (showProgress = true): Promise<SyncResult | undefined> => {
@@ -98,7 +117,6 @@ export function SyncProvider({ children, executeFunctions = {} }: SyncProviderPr
         console.log('[SyncProvider] Starting manual sync...');
 
         const result = await syncPendingOperations(
-          executeFunctions,
           showProgress
             ? (progress: { completed: number; total: number }) => {
                 console.log('[SyncProvider] Sync progress:', progress);
@@ -112,12 +130,14 @@ export function SyncProvider({ children, executeFunctions = {} }: SyncProviderPr
 
           // Update stats after sync
           await updateStats();
+          await refreshConflicts();
 
           // Cleanup old completed operations
           await cleanupCompletedOperations();
         } else {
           setSyncError(result.error || 'Sync failed');
           console.error('[SyncProvider] Sync failed:', result);
+          await refreshConflicts();
         }
 
         return result;
@@ -130,7 +150,7 @@ export function SyncProvider({ children, executeFunctions = {} }: SyncProviderPr
         setIsSyncing(false);
       }
     },
-    [isOnline, isSyncing, executeFunctions, updateStats]
+    [isOnline, isSyncing, updateStats, refreshConflicts]
   );
 
   // Handle online/offline status changes
@@ -186,9 +206,10 @@ export function SyncProvider({ children, executeFunctions = {} }: SyncProviderPr
   // Update stats on mount and periodically
   useEffect(() => {
     updateStats();
+    refreshConflicts();
     const interval = setInterval(updateStats, 10000);
     return () => clearInterval(interval);
-  }, [updateStats]);
+  }, [updateStats, refreshConflicts]);
 
   // Handle visibility change (sync when tab becomes visible)
   useEffect(() => {
@@ -213,6 +234,8 @@ export function SyncProvider({ children, executeFunctions = {} }: SyncProviderPr
     setAutoSyncEnabled,
     triggerSync,
     hasPending,
+    conflicts,
+    refreshConflicts,
   };
 
   return (
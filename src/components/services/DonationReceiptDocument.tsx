@@ -0,0 +1,81 @@
+'use client';
+
+import type { DonationReceiptContent } from '@/lib/types';
+import { receiptDate } from '@/lib/utils/donationReceipts';
+
+interface DonationReceiptDocumentProps {
+  content: DonationReceiptContent;
+  // Null while the receipt is a preview that has not been issued
+  receiptNumber: string | null;
+}
+
+/**
+ * A donor receipt as it prints, from its logged content
+ */
+export function DonationReceiptDocument({ content, receiptNumber }: DonationReceiptDocumentProps) {
+  const paragraphs = content.body.slice(0, -2);
+  const closing = content.body.slice(-2);
+
+  return (
+    <article className="bg-white text-gray-900 space-y-4 font-serif">
+      <header className="flex flex-wrap items-start justify-between gap-2 border-b border-gray-300 pb-3">
+        <div>
+          <p className="text-xl font-bold">{content.siteName}</p>
+          <h2 className="text-lg">{content.title}</h2>
+        </div>
+        <div className="text-right text-sm">
+          <p>{receiptDate(content.issuedOn)}</p>
+          <p className="font-mono">
+            {receiptNumber ? `Receipt No. ${receiptNumber}` : 'Receipt number assigned when issued'}
+          </p>
+        </div>
+      </header>
+      {paragraphs.map((paragraph, index) => (
+        <p key={index} className="leading-relaxed">
+          {paragraph}
+        </p>
+      ))}
+      <table className="w-full text-sm font-sans">
+        <thead className="border-b border-gray-300">
+          <tr>
+            <th className="text-left py-1 font-medium">Date</th>
+            <th className="text-left py-1 font-medium">Item</th>
+            <th className="text-right py-1 font-medium">Trays</th>
+            <th className="text-right py-1 font-medium">Weight</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {content.lines.map((line, index) => (
+            <tr key={index}>
+              <td className="py-1">{receiptDate(line.date, 'short')}</td>
+              <td className="py-1">
+                {line.itemName}
+                {line.itemName !== line.category && <span className="text-gray-500"> ({line.category})</span>}
+              </td>
+              <td className="py-1 text-right">{line.source === 'la_plaza' ? '—' : line.trays}</td>
+              <td className="py-1 text-right">{Math.round(line.weightLbs * 10) / 10} lbs</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t border-gray-300 font-semibold">
+          <tr>
+            <td className="py-1" colSpan={2}>
+              Total ({content.totals.donations})
+            </td>
+            <td className="py-1 text-right">{content.totals.trays}</td>
+            <td className="py-1 text-right">{content.totals.weightLbs} lbs</td>
+          </tr>
+        </tfoot>
+      </table>
+      <div>
+        {closing.map((line, index) => (
+          <p key={index} className="leading-relaxed">
+            {line}
+          </p>
+        ))}
+      </div>
+    </article>
+  );
+}
+
+export default DonationReceiptDocument;
@@ -0,0 +1,168 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { X, Printer, Stamp, FileDown } from 'lucide-react';
+import { useDonationsStore } from '@/lib/stores/useDonationsStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { useTaxonomyStore } from '@/lib/stores/useTaxonomyStore';
+import {
+  buildDonationReceipt,
+  buildDonationReceiptPdf,
+  donationReceiptFilename,
+} from '@/lib/utils/donationReceipts';
+import { downloadPdf } from '@/lib/utils/pdf';
+import { todayPacificDateString } from '@/lib/utils/date';
+import type { DonationReceipt } from '@/lib/types';
+import { enhancedToast } from '@/utils/toast';
+import { Button } from '@/components/ui';
+import { DonationReceiptDocument } from './DonationReceiptDocument';
+
+interface DonationReceiptModalProps {
+  donor: string;
+  // A receipt already issued, shown from its logged copy instead of a new preview
+  receipt?: DonationReceipt | null;
+  onClose: () => void;
+}
+
+/**
+ * Previews a donor's itemized receipt for a date range, issues it with a
+ * receipt number, and prints it or saves it as a PDF. Issued receipts are
+ * re-issued from their logged copy.
+ */
+export function DonationReceiptModal({ donor, receipt = null, onClose }: DonationReceiptModalProps) {
+  const siteName = useSettingsStore((state) => state.siteName);
+  const donationRecords = useDonationsStore((state) => state.donationRecords);
+  const laPlazaRecords = useDonationsStore((state) => state.laPlazaRecords);
+  const taxonomyValues = useTaxonomyStore((state) => state.taxonomyValues);
+  const issueDonationReceipt = useDonationsStore((state) => state.issueDonationReceipt);
+  const today = todayPacificDateString();
+  // Annual statements are the usual request, so start from January 1
+  const [periodStart, setPeriodStart] = useState(`${today.slice(0, 4)}-01-01`);
+  const [periodEnd, setPeriodEnd] = useState(today);
+  const [issued, setIssued] = useState<DonationReceipt | null>(receipt);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () =>
+      buildDonationReceipt({
+        siteName,
+        donor,
+        donations: donationRecords,
+        laPlazaDonations: laPlazaRecords,
+        periodStart,
+        periodEnd,
+        issuedOn: today,
+        taxonomyValues,
+      }),
+    [siteName, donor, donationRecords, laPlazaRecords, periodStart, periodEnd, today, taxonomyValues]
+  );
+
+  const content = issued ? issued.content : preview;
+  const receiptNumber = issued ? issued.receiptNumber : null;
+  const invalidPeriod = periodStart > periodEnd;
+
+  const handleIssue = async () => {
+    setIsIssuing(true);
+    setError(null);
+    try {
+      const saved = await issueDonationReceipt(preview);
+      setIssued(saved);
+      enhancedToast.success(`Issued receipt ${saved.receiptNumber}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to issue the donation receipt');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleDownload = () => {
+    downloadPdf(buildDonationReceiptPdf(content, receiptNumber), donationReceiptFilename(content, receiptNumber));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center print:static print:block print:bg-transparent">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto m-4 print:m-0 print:max-h-none print:overflow-visible print:rounded-none">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 print:hidden">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {issued ? 'Donation receipt' : `Issue a receipt to ${donor}`}
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        {!issued && (
+          <div className="px-6 pt-4 flex flex-wrap gap-4 print:hidden">
+            <label className="text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                value={periodStart}
+                max={periodEnd}
+                onChange={(e) => e.target.value && setPeriodStart(e.target.value)}
+                className="block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                value={periodEnd}
+                min={periodStart}
+                max={today}
+                onChange={(e) => e.target.value && setPeriodEnd(e.target.value)}
+                className="block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="p-6 print:p-0">
+          <DonationReceiptDocument content={content} receiptNumber={receiptNumber} />
+        </div>
+
+        <div className="px-6 pb-6 space-y-3 print:hidden">
+          {!issued && preview.lines.length === 0 && (
+            <p className="text-sm text-amber-700">
+              {donor} has no donations on record in this period, so there is nothing to acknowledge.
+            </p>
+          )}
+          {invalidPeriod && <p className="text-sm text-red-600">The start date must be before the end date.</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              {issued ? 'Close' : 'Cancel'}
+            </Button>
+            {issued ? (
+              <>
+                <Button variant="outline" onClick={handleDownload} leftIcon={<FileDown size={16} />}>
+                  Download PDF
+                </Button>
+                <Button onClick={() => window.print()} leftIcon={<Printer size={16} />}>
+                  Print receipt
+                </Button>
+              </>
+            ) : (
+              <Button
+                onClick={handleIssue}
+                isLoading={isIssuing}
+                loadingText="Issuing..."
+                disabled={preview.lines.length === 0 || invalidPeriod}
+                leftIcon={<Stamp size={16} />}
+              >
+                Issue receipt
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DonationReceiptModal;
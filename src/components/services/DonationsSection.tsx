@@ -1,35 +1,77 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { Gift, Plus, ChevronLeft, ChevronRight, Scale, FileText, BarChart3 } from 'lucide-react';
+import { Gift, Plus, ChevronLeft, ChevronRight, Scale, FileText, BarChart3, Users, Pencil, Trash2, Save, X, Recycle } from 'lucide-react';
 import { useDonationsStore } from '@/lib/stores/useDonationsStore';
-import { DONATION_TYPES } from '@/lib/constants';
-import type { Donation } from '@/lib/types';
+import { useFoodSafetyStore } from '@/lib/stores/useFoodSafetyStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { useTaxonomyStore } from '@/lib/stores/useTaxonomyStore';
+import {
+  DONATION_DENSITY_OPTIONS,
+  densityForDonation,
+  donorNameSuggestions,
+  estimateServings,
+  normalizeDonorName,
+  type DonationDensity,
+} from '@/lib/utils/donations';
+import { pacificDateStringFrom } from '@/lib/utils/date';
+import { taxonomyLabel, taxonomyOptions } from '@/lib/utils/taxonomies';
+import { FOOD_HOLDING_LABELS, checkTemperature, formatTemperature, parseTemperature } from '@/lib/utils/foodSafety';
+import enhancedToast from '@/utils/toast';
+import { DonorDirectory } from './DonorDirectory';
+import { FoodDispositionPanel } from './FoodDispositionPanel';
+import { TemperatureCheckPrompt } from './TemperatureCheckPrompt';
+import type { Donation, DonationType, FoodHolding } from '@/lib/types';
 
-const DENSITY_OPTIONS = [
-  { value: 'light', label: 'Light', servingsPerLb: 2 },
-  { value: 'medium', label: 'Medium', servingsPerLb: 3 },
-  { value: 'heavy', label: 'Heavy', servingsPerLb: 4 },
-];
+const EMPTY_FORM = {
+  // Filled with the default donation type when the form is reset
+  type: '' as DonationType,
+  itemName: '',
+  trays: '',
+  weightLbs: '',
+  density: 'medium' as DonationDensity,
+  donor: '',
+  // Intake temperature, logged with the new donation when taken
+  holding: '' as FoodHolding | '',
+  temperature: '',
+  correctiveAction: '',
+};
 
 export function DonationsSection() {
-  const { donationRecords } = useDonationsStore();
-  const [activeSubTab, setActiveSubTab] = useState<'log' | 'analytics' | 'export'>('log');
+  const { donationRecords, addDonation, updateDonation, deleteDonation } = useDonationsStore();
+  const [activeSubTab, setActiveSubTab] = useState<'log' | 'outbound' | 'donors' | 'analytics' | 'export'>('log');
   const [selectedDate, setSelectedDate] = useState(new Date());
 
+  const taxonomyValues = useTaxonomyStore((state) => state.taxonomyValues);
+  const defaultDonationType = useSettingsStore((state) => state.defaultDonationType);
+
+  // The default from settings while it's active, otherwise the first active type
+  const blankForm = () => {
+    const activeTypes = taxonomyOptions(taxonomyValues, 'donation_type');
+    const type = activeTypes.some((option) => option.value === defaultDonationType)
+      ? defaultDonationType
+      : activeTypes[0]?.value ?? '';
+    return { ...EMPTY_FORM, type };
+  };
+
   // Form state
-  const [formData, setFormData] = useState({
-    type: DONATION_TYPES[0],
-    itemName: '',
-    trays: '',
-    weightLbs: '',
-    density: 'medium',
-    donor: '',
-  });
+  const [formData, setFormData] = useState(blankForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const recordTemperature = useFoodSafetyStore((state) => state.recordTemperature);
+  const foodSafetyRanges = useSettingsStore((state) => state.foodSafetyRanges);
+
+  const donationTypeOptions = useMemo(
+    () => taxonomyOptions(taxonomyValues, 'donation_type', formData.type),
+    [taxonomyValues, formData.type]
+  );
+  const donorSuggestions = useMemo(() => donorNameSuggestions(donationRecords || []), [donationRecords]);
+  const estimatedServings = estimateServings(Number(formData.weightLbs), formData.density);
+  const temperatureF = formData.holding ? parseTemperature(formData.temperature) : null;
 
   // Filter donations by selected date
   const todayDonations = useMemo(() => {
-    const dateStr = selectedDate.toISOString().split('T')[0];
+    const dateStr = pacificDateStringFrom(selectedDate);
     return donationRecords?.filter((d: Donation) => d.dateKey === dateStr) || [];
   }, [donationRecords, selectedDate]);
 
@@ -52,21 +94,106 @@ export function DonationsSection() {
     setSelectedDate(newDate);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const resetForm = () => {
+    setFormData(blankForm());
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // TODO: Add donation via store
-    console.log('Submit donation:', formData);
-    // Reset form
+    const itemName = formData.itemName.trim();
+    const donor = normalizeDonorName(formData.donor);
+    const trays = Number(formData.trays) || 0;
+    const weightLbs = Number(formData.weightLbs) || 0;
+
+    if (!itemName || !donor) {
+      enhancedToast.error('Item and donor are required');
+      return;
+    }
+    if (trays < 0 || weightLbs < 0) {
+      enhancedToast.error('Trays and weight cannot be negative');
+      return;
+    }
+    // Checked up front so the donation isn't saved without its reading
+    const holding = formData.holding;
+    if (!editingId && holding && temperatureF !== null) {
+      const { inRange } = checkTemperature(temperatureF, holding, foodSafetyRanges);
+      if (!inRange && !formData.correctiveAction.trim()) {
+        enhancedToast.error('Record a corrective action for the out-of-range temperature');
+        return;
+      }
+    }
+
+    const input = {
+      type: formData.type,
+      itemName,
+      trays,
+      weightLbs,
+      servings: estimateServings(weightLbs, formData.density),
+      donor,
+      ...(!editingId &&
+        holding &&
+        temperatureF !== null && { temperature: `${formatTemperature(temperatureF)} (${holding})` }),
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await updateDonation(editingId, input);
+        enhancedToast.success('Donation updated');
+      } else {
+        const donation = await addDonation(input);
+        enhancedToast.success(`Logged ${itemName} from ${donor}`);
+        if (holding && temperatureF !== null) {
+          try {
+            await recordTemperature({
+              stage: 'intake',
+              holding,
+              itemName,
+              temperatureF,
+              donationId: donation.id,
+              correctiveAction: formData.correctiveAction,
+            });
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : 'unknown error';
+            enhancedToast.warning(`Temperature not logged (${reason}); record it under Food Safety`);
+          }
+        }
+      }
+      resetForm();
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to save donation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (donation: Donation) => {
+    setEditingId(donation.id);
     setFormData({
-      type: DONATION_TYPES[0],
-      itemName: '',
-      trays: '',
-      weightLbs: '',
-      density: 'medium',
-      donor: '',
+      type: donation.type,
+      itemName: donation.itemName,
+      trays: donation.trays ? String(donation.trays) : '',
+      weightLbs: donation.weightLbs ? String(donation.weightLbs) : '',
+      density: densityForDonation(donation),
+      donor: donation.donor,
+      holding: '',
+      temperature: '',
+      correctiveAction: '',
     });
   };
 
+  const handleDelete = async (donation: Donation) => {
+    if (!window.confirm(`Delete ${donation.itemName} from ${donation.donor}?`)) return;
+    try {
+      await deleteDonation(donation.id);
+      if (editingId === donation.id) resetForm();
+      enhancedToast.success('Donation deleted');
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to delete donation');
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -86,6 +213,8 @@ export function DonationsSection() {
       <div className="flex gap-2">
         {[
           { id: 'log' as const, label: 'Log', icon: FileText },
+          { id: 'outbound' as const, label: 'Outbound', icon: Recycle },
+          { id: 'donors' as const, label: 'Donors', icon: Users },
           { id: 'analytics' as const, label: 'Analytics', icon: BarChart3 },
           { id: 'export' as const, label: 'Export', icon: Scale },
         ].map((tab) => {
@@ -155,19 +284,20 @@ export function DonationsSection() {
         <>
           {/* New Donation Form */}
           <div className="bg-white rounded-xl border border-gray-200 p-4">
-            <h3 className="font-semibold text-gray-900 mb-4">New Donation</h3>
+            <h3 className="font-semibold text-gray-900 mb-4">{editingId ? 'Edit Donation' : 'New Donation'}</h3>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div>
                   <label className="block text-sm text-gray-600 mb-1">Type</label>
                   <select
                     value={formData.type}
-                    onChange={(e) => setFormData({ ...formData, type: e.target.value as typeof formData.type })}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
                   >
-                    {DONATION_TYPES.map((type) => (
-                      <option key={type} value={type}>
-                        {type}
+                    {donationTypeOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                        {option.active ? '' : ' (retired)'}
                       </option>
                     ))}
                   </select>
@@ -186,6 +316,7 @@ export function DonationsSection() {
                   <label className="block text-sm text-gray-600 mb-1">Trays</label>
                   <input
                     type="number"
+                    min="0"
                     value={formData.trays}
                     onChange={(e) => setFormData({ ...formData, trays: e.target.value })}
                     placeholder="0"
@@ -196,6 +327,8 @@ export function DonationsSection() {
                   <label className="block text-sm text-gray-600 mb-1">Weight (lbs)</label>
                   <input
                     type="number"
+                    min="0"
+                    step="0.1"
                     value={formData.weightLbs}
                     onChange={(e) => setFormData({ ...formData, weightLbs: e.target.value })}
                     placeholder="0"
@@ -203,20 +336,62 @@ export function DonationsSection() {
                   />
                 </div>
               </div>
+              {!editingId && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm text-gray-600 mb-1">Holding</label>
+                      <select
+                        value={formData.holding}
+                        onChange={(e) => setFormData({ ...formData, holding: e.target.value as FoodHolding | '' })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                      >
+                        <option value="">No temperature taken</option>
+                        {(Object.keys(FOOD_HOLDING_LABELS) as FoodHolding[]).map((holding) => (
+                          <option key={holding} value={holding}>
+                            {FOOD_HOLDING_LABELS[holding]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-600 mb-1">Temperature (°F)</label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        value={formData.temperature}
+                        disabled={!formData.holding}
+                        onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                        placeholder="0"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500 disabled:bg-gray-50"
+                      />
+                    </div>
+                  </div>
+                  {formData.holding && (
+                    <TemperatureCheckPrompt
+                      temperatureF={temperatureF}
+                      holding={formData.holding}
+                      correctiveAction={formData.correctiveAction}
+                      onCorrectiveActionChange={(correctiveAction) => setFormData({ ...formData, correctiveAction })}
+                    />
+                  )}
+                </div>
+              )}
               <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
                 <div>
                   <label className="block text-sm text-gray-600 mb-1">Density</label>
                   <select
                     value={formData.density}
-                    onChange={(e) => setFormData({ ...formData, density: e.target.value })}
+                    onChange={(e) => setFormData({ ...formData, density: e.target.value as DonationDensity })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
                   >
-                    {DENSITY_OPTIONS.map((opt) => (
+                    {DONATION_DENSITY_OPTIONS.map((opt) => (
                       <option key={opt.value} value={opt.value}>
-                        {opt.label}
+                        {opt.label} ({opt.servingsPerLb} servings/lb)
                       </option>
                     ))}
                   </select>
+                  <p className="text-xs text-gray-500 mt-1">≈ {estimatedServings} servings</p>
                 </div>
                 <div>
                   <label className="block text-sm text-gray-600 mb-1">Donor</label>
@@ -225,17 +400,34 @@ export function DonationsSection() {
                     value={formData.donor}
                     onChange={(e) => setFormData({ ...formData, donor: e.target.value })}
                     placeholder="e.g., Safeway"
+                    list="donation-donor-suggestions"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
                   />
+                  <datalist id="donation-donor-suggestions">
+                    {donorSuggestions.map((name) => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
                 </div>
-                <div className="flex items-end">
+                <div className="flex items-end gap-2">
                   <button
                     type="submit"
-                    className="w-full px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors flex items-center justify-center gap-2"
+                    disabled={isSaving}
+                    className="flex-1 px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
                   >
-                    <Plus size={18} />
-                    Add Donation
+                    {editingId ? <Save size={18} /> : <Plus size={18} />}
+                    {editingId ? 'Save Changes' : 'Add Donation'}
                   </button>
+                  {editingId && (
+                    <button
+                      type="button"
+                      onClick={resetForm}
+                      className="px-3 py-2 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 transition-colors"
+                      aria-label="Cancel editing"
+                    >
+                      <X size={18} />
+                    </button>
+                  )}
                 </div>
               </div>
             </form>
@@ -257,7 +449,7 @@ export function DonationsSection() {
                     <div>
                       <div className="flex items-center gap-2">
                         <span className="px-2 py-0.5 text-xs rounded-full bg-pink-100 text-pink-700">
-                          {donation.type}
+                          {taxonomyLabel(taxonomyValues, 'donation_type', donation.type)}
                         </span>
                         <span className="font-medium text-gray-900">{donation.itemName}</span>
                       </div>
@@ -265,8 +457,22 @@ export function DonationsSection() {
                         {donation.trays} trays, {donation.weightLbs} lbs - {donation.donor}
                       </p>
                     </div>
-                    <div className="text-sm text-gray-500">
-                      ~{donation.servings} servings
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-gray-500">~{donation.servings} servings</span>
+                      <button
+                        onClick={() => startEditing(donation)}
+                        className="p-1.5 text-gray-400 hover:text-pink-600 hover:bg-pink-50 rounded-lg transition-colors"
+                        aria-label={`Edit ${donation.itemName}`}
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(donation)}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        aria-label={`Delete ${donation.itemName}`}
+                      >
+                        <Trash2 size={16} />
+                      </button>
                     </div>
                   </div>
                 ))}
@@ -276,6 +482,10 @@ export function DonationsSection() {
         </>
       )}
 
+      {activeSubTab === 'outbound' && <FoodDispositionPanel dateKey={pacificDateStringFrom(selectedDate)} />}
+
+      {activeSubTab === 'donors' && <DonorDirectory />}
+
       {activeSubTab === 'analytics' && (
         <div className="bg-white rounded-xl border border-gray-200 p-8 text-center text-gray-500">
           <BarChart3 size={48} className="mx-auto mb-4 opacity-50" />
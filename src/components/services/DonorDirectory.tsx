@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Receipt, Search, Users } from 'lucide-react';
+import { useDonationsStore } from '@/lib/stores/useDonationsStore';
+import { buildDonorDirectory, describeDonationFrequency, isSameDonor } from '@/lib/utils/donations';
+import { LA_PLAZA_DONOR } from '@/lib/utils/donationReceipts';
+import type { DonationReceipt } from '@/lib/types';
+import { DonationReceiptModal } from './DonationReceiptModal';
+import { IssuedReceiptsPanel } from './IssuedReceiptsPanel';
+
+const formatDate = (dateKey: string) =>
+  new Date(`${dateKey}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Everyone who has donated food, with their running totals, last
+ * donation and how often they give, and the receipts issued to them
+ */
+export function DonorDirectory() {
+  const donationRecords = useDonationsStore((state) => state.donationRecords);
+  const laPlazaRecords = useDonationsStore((state) => state.laPlazaRecords);
+  const [search, setSearch] = useState('');
+  const [receiptFor, setReceiptFor] = useState<{ donor: string; receipt: DonationReceipt | null } | null>(null);
+
+  const donors = useMemo(() => buildDonorDirectory(donationRecords || []), [donationRecords]);
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query ? donors.filter((d) => d.donor.toLowerCase().includes(query)) : donors;
+  }, [donors, search]);
+
+  // La Plaza deliveries are receipted to the market, which is not in the directory
+  const showLaPlazaReceipt =
+    (laPlazaRecords || []).length > 0 && !donors.some((d) => isSameDonor(d.donor, LA_PLAZA_DONOR));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Users size={18} className="text-pink-600" />
+            Donors ({donors.length})
+          </h3>
+          <div className="flex flex-wrap items-center gap-2">
+            {showLaPlazaReceipt && (
+              <button
+                type="button"
+                onClick={() => setReceiptFor({ donor: LA_PLAZA_DONOR, receipt: null })}
+                className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-1"
+              >
+                <Receipt size={14} /> {LA_PLAZA_DONOR} receipt
+              </button>
+            )}
+            <div className="relative">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search donors"
+                aria-label="Search donors"
+                className="pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        {filtered.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            {donors.length === 0 ? 'No donations recorded yet' : 'No donors match your search'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="text-left px-4 py-2 font-medium">Donor</th>
+                  <th className="text-right px-4 py-2 font-medium">Donations</th>
+                  <th className="text-right px-4 py-2 font-medium">Weight</th>
+                  <th className="text-right px-4 py-2 font-medium">Trays</th>
+                  <th className="text-right px-4 py-2 font-medium">Servings</th>
+                  <th className="text-left px-4 py-2 font-medium">Last donation</th>
+                  <th className="text-left px-4 py-2 font-medium">Frequency</th>
+                  <th className="px-4 py-2">
+                    <span className="sr-only">Receipt</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filtered.map((summary) => (
+                  <tr key={summary.donor.toLowerCase()}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{summary.donor}</td>
+                    <td className="px-4 py-2 text-right">{summary.donationCount}</td>
+                    <td className="px-4 py-2 text-right">{summary.totalWeightLbs} lbs</td>
+                    <td className="px-4 py-2 text-right">{summary.totalTrays}</td>
+                    <td className="px-4 py-2 text-right">{summary.totalServings}</td>
+                    <td className="px-4 py-2 text-gray-700">{formatDate(summary.lastDonatedOn)}</td>
+                    <td className="px-4 py-2 text-gray-700">{describeDonationFrequency(summary)}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setReceiptFor({ donor: summary.donor, receipt: null })}
+                        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-1 ml-auto"
+                      >
+                        <Receipt size={14} /> Receipt
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <IssuedReceiptsPanel onView={(receipt) => setReceiptFor({ donor: receipt.donor, receipt })} />
+
+      {receiptFor && (
+        <DonationReceiptModal
+          key={receiptFor.receipt?.id ?? receiptFor.donor}
+          donor={receiptFor.donor}
+          receipt={receiptFor.receipt}
+          onClose={() => setReceiptFor(null)}
+        />
+      )}
+    </div>
+  );
+}
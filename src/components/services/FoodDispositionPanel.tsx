@@ -0,0 +1,263 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useDonationsStore } from '@/lib/stores/useDonationsStore';
+import { useFoodRescueStore } from '@/lib/stores/useFoodRescueStore';
+import { useMealsStore } from '@/lib/stores/useMealsStore';
+import {
+  FOOD_DISPOSITION_KINDS,
+  FOOD_DISPOSITION_LABELS,
+  buildFoodRescueLedger,
+  describeDisposition,
+  formatDiversionRate,
+  redistributionRecipients,
+} from '@/lib/utils/foodRescue';
+import enhancedToast from '@/utils/toast';
+import type { FoodDisposition, FoodDispositionKind } from '@/lib/types';
+
+const EMPTY_FORM = {
+  kind: 'served' as FoodDispositionKind,
+  recipient: '',
+  weightLbs: '',
+  notes: '',
+};
+
+interface FoodDispositionPanelProps {
+  // Pacific date (YYYY-MM-DD) the outbound records belong to
+  dateKey: string;
+}
+
+/**
+ * Where the day's rescued food went, with the day's intake weight and
+ * meals served alongside so the two sides can be reconciled
+ */
+export function FoodDispositionPanel({ dateKey }: FoodDispositionPanelProps) {
+  const { donationRecords, laPlazaRecords } = useDonationsStore();
+  const { foodDispositions, addFoodDisposition, deleteFoodDisposition } = useFoodRescueStore();
+  const {
+    mealRecords,
+    rvMealRecords,
+    extraMealRecords,
+    shelterMealRecords,
+    unitedEffortMealRecords,
+    dayWorkerMealRecords,
+    lunchBagMealRecords,
+  } = useMealsStore();
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const recipients = useMemo(() => redistributionRecipients(foodDispositions), [foodDispositions]);
+  const dayDispositions = useMemo(
+    () =>
+      foodDispositions
+        .filter((disposition) => disposition.dateKey === dateKey)
+        .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt)),
+    [foodDispositions, dateKey]
+  );
+
+  const day = useMemo(
+    () =>
+      buildFoodRescueLedger({
+        donations: donationRecords,
+        laPlazaDonations: laPlazaRecords,
+        dispositions: dayDispositions,
+        meals: [
+          ...mealRecords,
+          ...rvMealRecords,
+          ...extraMealRecords,
+          ...shelterMealRecords,
+          ...unitedEffortMealRecords,
+          ...dayWorkerMealRecords,
+          ...lunchBagMealRecords,
+        ],
+        from: dateKey,
+        to: dateKey,
+      })[0],
+    [
+      donationRecords,
+      laPlazaRecords,
+      dayDispositions,
+      mealRecords,
+      rvMealRecords,
+      extraMealRecords,
+      shelterMealRecords,
+      unitedEffortMealRecords,
+      dayWorkerMealRecords,
+      lunchBagMealRecords,
+      dateKey,
+    ]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const weightLbs = Number(formData.weightLbs);
+    if (!formData.weightLbs || !(weightLbs > 0)) {
+      enhancedToast.error('Please enter a weight');
+      return;
+    }
+    if (formData.kind === 'redistributed' && !formData.recipient.trim()) {
+      enhancedToast.error('Please enter who received the food');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addFoodDisposition({
+        kind: formData.kind,
+        weightLbs,
+        recipient: formData.recipient,
+        notes: formData.notes,
+        dateKey,
+      });
+      enhancedToast.success('Outbound food recorded');
+      setFormData({ ...EMPTY_FORM, kind: formData.kind });
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to record outbound food');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (disposition: FoodDisposition) => {
+    if (!window.confirm(`Delete ${describeDisposition(disposition).toLowerCase()} (${disposition.weightLbs} lbs)?`)) return;
+    try {
+      await deleteFoodDisposition(disposition.id);
+      enhancedToast.success('Outbound record deleted');
+    } catch {
+      enhancedToast.error('Failed to delete outbound record');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Day reconciliation */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-sm text-gray-500">Food in</div>
+          <div className="text-2xl font-bold text-gray-900">{day.intakeLbs} lbs</div>
+          <div className="text-xs text-gray-500">
+            {day.donatedLbs} donated · {day.laPlazaLbs} La Plaza
+          </div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-sm text-gray-500">Food out</div>
+          <div className="text-2xl font-bold text-gray-900">{day.totalOutLbs} lbs</div>
+          <div className="text-xs text-gray-500">{day.unaccountedLbs} lbs not yet recorded</div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-sm text-gray-500">Meals served</div>
+          <div className="text-2xl font-bold text-gray-900">{day.mealsServed}</div>
+          <div className="text-xs text-gray-500">~{day.intakeServings} servings donated</div>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <div className="text-sm text-gray-500">Diverted from landfill</div>
+          <div className="text-2xl font-bold text-gray-900">{formatDiversionRate(day.diversionRate)}</div>
+          <div className="text-xs text-gray-500">{day.outLbs.discarded} lbs discarded</div>
+        </div>
+      </div>
+
+      {/* Outbound form */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4">
+        <h3 className="font-semibold text-gray-900 mb-4">Record Outbound Food</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Went to</label>
+              <select
+                value={formData.kind}
+                onChange={(e) => setFormData({ ...formData, kind: e.target.value as FoodDispositionKind })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+              >
+                {FOOD_DISPOSITION_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {FOOD_DISPOSITION_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Weight (lbs)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.weightLbs}
+                onChange={(e) => setFormData({ ...formData, weightLbs: e.target.value })}
+                placeholder="0"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+              />
+            </div>
+            {formData.kind === 'redistributed' && (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Recipient</label>
+                <input
+                  type="text"
+                  list="food-disposition-recipients"
+                  value={formData.recipient}
+                  onChange={(e) => setFormData({ ...formData, recipient: e.target.value })}
+                  placeholder="e.g., Second Harvest"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                />
+                <datalist id="food-disposition-recipients">
+                  {recipients.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Notes</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="Optional"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Plus size={18} />
+            Add Outbound
+          </button>
+        </form>
+      </div>
+
+      {/* Day's outbound records */}
+      <div className="bg-white rounded-xl border border-gray-200">
+        <div className="p-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-900">Outbound</h3>
+        </div>
+        {dayDispositions.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No outbound food recorded for this date</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {dayDispositions.map((disposition) => (
+              <div key={disposition.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium text-gray-900">{describeDisposition(disposition)}</div>
+                  {disposition.notes && <div className="text-sm text-gray-500">{disposition.notes}</div>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-medium text-gray-900">{disposition.weightLbs} lbs</span>
+                  <button
+                    onClick={() => handleDelete(disposition)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    aria-label={`Delete ${describeDisposition(disposition)}`}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Thermometer, Plus, FileText, CalendarDays } from 'lucide-react';
+import { useFoodSafetyStore } from '@/lib/stores/useFoodSafetyStore';
+import { todayPacificDateString } from '@/lib/utils/date';
+import {
+  FOOD_HOLDING_LABELS,
+  TEMPERATURE_STAGE_LABELS,
+  formatTemperature,
+  parseTemperature,
+} from '@/lib/utils/foodSafety';
+import type { FoodHolding, TemperatureStage } from '@/lib/types';
+import enhancedToast from '@/utils/toast';
+import { TemperatureCheckPrompt } from './TemperatureCheckPrompt';
+import { TemperatureMonthlyLog } from './TemperatureMonthlyLog';
+
+const EMPTY_FORM = {
+  stage: 'service' as TemperatureStage,
+  holding: 'hot' as FoodHolding,
+  itemName: '',
+  temperature: '',
+  correctiveAction: '',
+};
+
+/**
+ * Hot and cold holding temperatures taken at intake and at service, with
+ * the monthly log for health inspections
+ */
+export function FoodSafetySection() {
+  const temperatureReadings = useFoodSafetyStore((state) => state.temperatureReadings);
+  const recordTemperature = useFoodSafetyStore((state) => state.recordTemperature);
+  const [activeSubTab, setActiveSubTab] = useState<'today' | 'monthly'>('today');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const temperatureF = parseTemperature(formData.temperature);
+  const today = todayPacificDateString();
+  const todayReadings = useMemo(
+    () =>
+      temperatureReadings
+        .filter((reading) => reading.dateKey === today)
+        .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt)),
+    [temperatureReadings, today]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (temperatureF === null) {
+      enhancedToast.error('Enter the temperature in °F');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const reading = await recordTemperature({
+        stage: formData.stage,
+        holding: formData.holding,
+        itemName: formData.itemName,
+        temperatureF,
+        correctiveAction: formData.correctiveAction,
+      });
+      if (reading.inRange) {
+        enhancedToast.success(`Logged ${reading.itemName} at ${formatTemperature(reading.temperatureF)}`);
+      } else {
+        enhancedToast.warning(`Logged ${reading.itemName} out of range with corrective action`);
+      }
+      // Keep the stage and holding for the next item on the line
+      setFormData({ ...EMPTY_FORM, stage: formData.stage, holding: formData.holding });
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to save the reading');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 print:hidden">
+        <div className="w-10 h-10 bg-orange-100 rounded-xl flex items-center justify-center">
+          <Thermometer className="text-orange-600" size={20} />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Food Safety</h2>
+          <p className="text-gray-500 text-sm">Hot and cold holding temperatures at intake and service</p>
+        </div>
+      </div>
+
+      {/* Sub-tabs */}
+      <div className="flex gap-2 print:hidden">
+        {[
+          { id: 'today' as const, label: 'Today', icon: FileText },
+          { id: 'monthly' as const, label: 'Monthly log', icon: CalendarDays },
+        ].map((tab) => {
+          const Icon = tab.icon;
+          return (
+            <button
+              key={tab.id}
+              onClick={() => setActiveSubTab(tab.id)}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+                activeSubTab === tab.id ? 'bg-orange-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              <Icon size={16} />
+              {tab.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {activeSubTab === 'today' && (
+        <>
+          <div className="bg-white rounded-xl border border-gray-200 p-4">
+            <h3 className="font-semibold text-gray-900 mb-4">Record a Temperature</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">Stage</label>
+                  <select
+                    value={formData.stage}
+                    onChange={(e) => setFormData({ ...formData, stage: e.target.value as TemperatureStage })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(TEMPERATURE_STAGE_LABELS) as TemperatureStage[]).map((stage) => (
+                      <option key={stage} value={stage}>
+                        {TEMPERATURE_STAGE_LABELS[stage]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">Holding</label>
+                  <select
+                    value={formData.holding}
+                    onChange={(e) => setFormData({ ...formData, holding: e.target.value as FoodHolding })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(FOOD_HOLDING_LABELS) as FoodHolding[]).map((holding) => (
+                      <option key={holding} value={holding}>
+                        {FOOD_HOLDING_LABELS[holding]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">Item</label>
+                  <input
+                    type="text"
+                    value={formData.itemName}
+                    onChange={(e) => setFormData({ ...formData, itemName: e.target.value })}
+                    placeholder="e.g., Chicken stew"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">Temperature (°F)</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={formData.temperature}
+                    onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                    placeholder="0"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <TemperatureCheckPrompt
+                temperatureF={temperatureF}
+                holding={formData.holding}
+                correctiveAction={formData.correctiveAction}
+                onCorrectiveActionChange={(correctiveAction) => setFormData({ ...formData, correctiveAction })}
+              />
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Plus size={18} />
+                  Log Temperature
+                </button>
+              </div>
+            </form>
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <div className="p-4 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-900">Today&apos;s Readings</h3>
+            </div>
+            {todayReadings.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">No temperatures recorded today</div>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {todayReadings.map((reading) => (
+                  <div key={reading.id} className="p-4 flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-700">
+                          {TEMPERATURE_STAGE_LABELS[reading.stage]}
+                        </span>
+                        <span className="font-medium text-gray-900">{reading.itemName}</span>
+                      </div>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {FOOD_HOLDING_LABELS[reading.holding]} ·{' '}
+                        {new Date(reading.recordedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                      </p>
+                      {reading.correctiveAction && (
+                        <p className="text-sm text-amber-800 mt-1">Corrective action: {reading.correctiveAction}</p>
+                      )}
+                    </div>
+                    <span
+                      className={`px-2 py-1 text-sm font-semibold rounded-lg ${
+                        reading.inRange ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'
+                      }`}
+                    >
+                      {formatTemperature(reading.temperatureF)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {activeSubTab === 'monthly' && <TemperatureMonthlyLog />}
+    </div>
+  );
+}
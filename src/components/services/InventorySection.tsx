@@ -0,0 +1,349 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Package, PackagePlus, ClipboardCheck, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { useInventoryStore } from '@/lib/stores/useInventoryStore';
+import { describeStockSlot, getStockOnHand, toInventoryItemKey } from '@/lib/utils/inventory';
+import enhancedToast from '@/utils/toast';
+import type { InventoryItem } from '@/lib/types';
+
+type StockAction = 'receive' | 'count';
+
+const EMPTY_ITEM_FORM = { itemKey: '', name: '', sizes: '', lowStockThreshold: '5', active: true };
+
+/**
+ * Stock on hand for every catalog item, with forms to receive stock, record
+ * a shelf count and manage the catalog
+ */
+export function InventorySection() {
+  const inventoryItems = useInventoryStore((state) => state.inventoryItems);
+  const stockLevels = useInventoryStore((state) => state.stockLevels);
+  const receiveStock = useInventoryStore((state) => state.receiveStock);
+  const adjustStock = useInventoryStore((state) => state.adjustStock);
+  const saveInventoryItem = useInventoryStore((state) => state.saveInventoryItem);
+
+  const [stockAction, setStockAction] = useState<StockAction>('receive');
+  const [stockForm, setStockForm] = useState({ itemKey: '', size: '', quantity: '', note: '' });
+  const [itemForm, setItemForm] = useState(EMPTY_ITEM_FORM);
+  const [savingStock, setSavingStock] = useState(false);
+  const [savingItem, setSavingItem] = useState(false);
+
+  const rows = useMemo(
+    () =>
+      inventoryItems.flatMap((item) =>
+        (item.sizes.length > 0 ? item.sizes : [null]).map((size) => ({
+          item,
+          size,
+          onHand: getStockOnHand(stockLevels, item.itemKey, size),
+        }))
+      ),
+    [inventoryItems, stockLevels]
+  );
+
+  const selectedItem = inventoryItems.find((item) => item.itemKey === stockForm.itemKey);
+  const needsSize = Boolean(selectedItem && selectedItem.sizes.length > 0);
+  const selectedSize = needsSize ? stockForm.size || null : null;
+  const onHand = selectedItem ? getStockOnHand(stockLevels, selectedItem.itemKey, selectedSize) : 0;
+
+  const handleStockSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedItem || (needsSize && !selectedSize)) return;
+    const quantity = Number(stockForm.quantity);
+    if (!Number.isInteger(quantity) || quantity < 0 || (stockAction === 'receive' && quantity === 0)) {
+      enhancedToast.error('Enter a whole number');
+      return;
+    }
+
+    const label = describeStockSlot(selectedItem, selectedSize);
+    setSavingStock(true);
+    try {
+      if (stockAction === 'receive') {
+        await receiveStock({ itemKey: selectedItem.itemKey, size: selectedSize, quantity, note: stockForm.note });
+        enhancedToast.success(`Received ${quantity} × ${label}`);
+      } else {
+        // A shelf count is stored as the difference from what the app expected
+        const difference = quantity - onHand;
+        if (difference === 0) {
+          enhancedToast.success(`${label} count matches`);
+        } else {
+          await adjustStock({
+            itemKey: selectedItem.itemKey,
+            size: selectedSize,
+            quantity: difference,
+            note: stockForm.note,
+          });
+          enhancedToast.success(`${label} adjusted by ${difference > 0 ? '+' : ''}${difference}`);
+        }
+      }
+      setStockForm((prev) => ({ ...prev, quantity: '', note: '' }));
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to save the stock change');
+    } finally {
+      setSavingStock(false);
+    }
+  };
+
+  const editItem = (item: InventoryItem) => {
+    setItemForm({
+      itemKey: item.itemKey,
+      name: item.name,
+      sizes: item.sizes.join(', '),
+      lowStockThreshold: String(item.lowStockThreshold),
+      active: item.active,
+    });
+  };
+
+  const handleItemSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const itemKey = itemForm.itemKey || toInventoryItemKey(itemForm.name);
+    if (!itemKey) return;
+
+    setSavingItem(true);
+    try {
+      const saved = await saveInventoryItem({
+        itemKey,
+        name: itemForm.name,
+        sizes: itemForm.sizes
+          .split(',')
+          .map((size) => size.trim())
+          .filter(Boolean),
+        lowStockThreshold: Number(itemForm.lowStockThreshold),
+        active: itemForm.active,
+      });
+      enhancedToast.success(`${saved.name} saved`);
+      setItemForm(EMPTY_ITEM_FORM);
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to save the item');
+    } finally {
+      setSavingItem(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-indigo-100 rounded-xl flex items-center justify-center">
+          <Package className="text-indigo-600" size={20} />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Item Inventory</h2>
+          <p className="text-sm text-gray-500">Items handed to guests come off the shelf automatically</p>
+        </div>
+      </div>
+
+      {/* Stock levels */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No items in the catalog yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-4 py-2 font-medium">Item</th>
+                <th className="text-right px-4 py-2 font-medium">On hand</th>
+                <th className="text-right px-4 py-2 font-medium">Low at</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ item, size, onHand: count }) => {
+                const isLow = item.active && count <= item.lowStockThreshold;
+                return (
+                  <tr key={`${item.itemKey}:${size ?? ''}`} className={item.active ? '' : 'text-gray-400'}>
+                    <td className="px-4 py-2">
+                      {describeStockSlot(item, size)}
+                      {!item.active && <span className="ml-2 text-xs">(not stocked)</span>}
+                    </td>
+                    <td className={`px-4 py-2 text-right font-semibold ${isLow ? 'text-amber-700' : ''}`}>
+                      {count}
+                    </td>
+                    <td className="px-4 py-2 text-right">{item.lowStockThreshold}</td>
+                    <td className="px-4 py-2 text-right">
+                      {isLow && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+                          Low
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Receiving and counts */}
+        <form onSubmit={handleStockSubmit} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+          <div className="flex gap-2" role="group" aria-label="Stock change">
+            {(['receive', 'count'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setStockAction(option)}
+                aria-pressed={stockAction === option}
+                className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg font-medium border transition-colors ${
+                  stockAction === option
+                    ? 'border-emerald-500 bg-emerald-50 text-emerald-700'
+                    : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'receive' ? <PackagePlus size={16} /> : <ClipboardCheck size={16} />}
+                {option === 'receive' ? 'Receive stock' : 'Shelf count'}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Item
+              <select
+                value={stockForm.itemKey}
+                onChange={(e) => setStockForm((prev) => ({ ...prev, itemKey: e.target.value, size: '' }))}
+                className={inputClass}
+              >
+                <option value="">Choose an item</option>
+                {inventoryItems
+                  .filter((item) => item.active)
+                  .map((item) => (
+                    <option key={item.itemKey} value={item.itemKey}>
+                      {item.name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Size
+              <select
+                value={stockForm.size}
+                disabled={!needsSize}
+                onChange={(e) => setStockForm((prev) => ({ ...prev, size: e.target.value }))}
+                className={`${inputClass} disabled:bg-gray-50`}
+              >
+                <option value="">{needsSize ? 'Choose a size' : 'One size'}</option>
+                {selectedItem?.sizes.map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              {stockAction === 'receive' ? 'Quantity received' : 'Counted on shelf'}
+              <input
+                type="number"
+                min={stockAction === 'receive' ? 1 : 0}
+                value={stockForm.quantity}
+                onChange={(e) => setStockForm((prev) => ({ ...prev, quantity: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Note
+              <input
+                type="text"
+                value={stockForm.note}
+                placeholder={stockAction === 'receive' ? 'e.g., Church drive' : 'e.g., Water damage'}
+                onChange={(e) => setStockForm((prev) => ({ ...prev, note: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-500">{selectedItem ? `${onHand} on hand now` : ''}</p>
+            <Button
+              type="submit"
+              variant="primary"
+              size="sm"
+              isLoading={savingStock}
+              disabled={!selectedItem || (needsSize && !selectedSize) || stockForm.quantity === ''}
+            >
+              {stockAction === 'receive' ? 'Record receiving' : 'Record count'}
+            </Button>
+          </div>
+        </form>
+
+        {/* Catalog */}
+        <form onSubmit={handleItemSubmit} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+          <h3 className="font-semibold text-gray-900">{itemForm.itemKey ? 'Edit item' : 'Add an item'}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                value={itemForm.name}
+                onChange={(e) => setItemForm((prev) => ({ ...prev, name: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Low-stock warning at
+              <input
+                type="number"
+                min={0}
+                value={itemForm.lowStockThreshold}
+                onChange={(e) => setItemForm((prev) => ({ ...prev, lowStockThreshold: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-sm text-gray-700 col-span-2">
+              Sizes (comma separated, blank if none)
+              <input
+                type="text"
+                value={itemForm.sizes}
+                placeholder="S, M, L, XL"
+                onChange={(e) => setItemForm((prev) => ({ ...prev, sizes: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={itemForm.active}
+                onChange={(e) => setItemForm((prev) => ({ ...prev, active: e.target.checked }))}
+              />
+              Currently stocked
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-1">
+              {inventoryItems.map((item) => (
+                <button
+                  key={item.itemKey}
+                  type="button"
+                  onClick={() => editItem(item)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  <Pencil size={10} /> {item.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {itemForm.itemKey && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setItemForm(EMPTY_ITEM_FORM)}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                type="submit"
+                variant="primary"
+                size="sm"
+                isLoading={savingItem}
+                disabled={!itemForm.name.trim()}
+              >
+                Save item
+              </Button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default InventorySection;
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ScrollText, Loader2 } from 'lucide-react';
+import { useDonationsStore } from '@/lib/stores/useDonationsStore';
+import { receiptDate } from '@/lib/utils/donationReceipts';
+import type { DonationReceipt } from '@/lib/types';
+
+interface IssuedReceiptsPanelProps {
+  onView: (receipt: DonationReceipt) => void;
+}
+
+/**
+ * Every donor receipt issued, newest first, for re-issuing a copy
+ */
+export function IssuedReceiptsPanel({ onView }: IssuedReceiptsPanelProps) {
+  const fetchDonationReceipts = useDonationsStore((state) => state.fetchDonationReceipts);
+  const donationReceipts = useDonationsStore((state) => state.donationReceipts);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDonationReceipts()
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load donation receipts');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchDonationReceipts]);
+
+  const receipts = useMemo(
+    () => [...donationReceipts].sort((a, b) => b.issuedAt.localeCompare(a.issuedAt)),
+    [donationReceipts]
+  );
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <ScrollText size={18} className="text-pink-600" /> Issued receipts
+        </h3>
+        {loading && <Loader2 size={14} className="animate-spin text-gray-400" aria-label="Loading receipts" />}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && receipts.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No receipts issued yet.</p>
+      )}
+
+      {receipts.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {receipts.map((receipt) => (
+            <li key={receipt.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+              <div>
+                <p className="text-gray-900">
+                  <span className="font-mono">{receipt.receiptNumber}</span> · {receipt.donor}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {receiptDate(receipt.periodStart, 'short')} – {receiptDate(receipt.periodEnd, 'short')} · issued{' '}
+                  {new Date(receipt.issuedAt).toLocaleString()} ·{' '}
+                  {receipt.issuedByEmail ?? (receipt.issuedBy ? 'Staff member' : 'Issued on this device')}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onView(receipt)}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                View copy
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default IssuedReceiptsPanel;
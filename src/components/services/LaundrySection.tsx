@@ -5,6 +5,7 @@ import { Shirt, UserPlus, GripVertical, Package } from 'lucide-react';
 import { useServicesStore } from '@/lib/stores/useServicesStore';
 import { useGuestsStore } from '@/lib/stores/useGuestsStore';
 import type { LaundryRecord, LaundryStatus } from '@/lib/types';
+import { WaitlistPromotions } from './WaitlistPromotions';
 
 const ONSITE_COLUMNS = [
   { id: 'waiting' as const, label: 'Waiting', color: 'bg-gray-100' },
@@ -60,6 +61,8 @@ export function LaundrySection() {
         </button>
       </div>
 
+      <WaitlistPromotions service="laundry" />
+
       {/* Tab Toggle */}
       <div className="flex gap-2">
         <button
@@ -118,6 +121,16 @@ export function LaundrySection() {
                               Bag #{record.bagNumber}
                             </p>
                           )}
+                          {record.pickedUpBy && (
+                            <p className="text-xs text-indigo-600 mt-1">
+                              Picked up by {getGuestName(record.pickedUpBy)}
+                            </p>
+                          )}
+                          {record.closeoutFlag === 'carried_over' && (
+                            <span className="inline-block mt-1 px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs font-medium">
+                              Carried over from {record.date}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,48 @@
+'use client';
+
+import { useMemo } from 'react';
+import { PackageX } from 'lucide-react';
+import { useInventoryStore } from '@/lib/stores/useInventoryStore';
+import { describeStockSlot, findLowStock } from '@/lib/utils/inventory';
+
+interface LowStockAlertProps {
+  onViewInventory?: () => void;
+}
+
+/**
+ * Warns staff about items running low before the shelf is empty
+ */
+export function LowStockAlert({ onViewInventory }: LowStockAlertProps) {
+  const inventoryItems = useInventoryStore((state) => state.inventoryItems);
+  const stockLevels = useInventoryStore((state) => state.stockLevels);
+  const lowStock = useMemo(() => findLowStock(inventoryItems, stockLevels), [inventoryItems, stockLevels]);
+
+  if (lowStock.length === 0) return null;
+
+  return (
+    <div role="status" className="mb-6 print:hidden bg-amber-50 border border-amber-200 rounded-xl p-4 flex flex-wrap items-start gap-3">
+      <PackageX size={20} className="text-amber-600 mt-0.5 flex-shrink-0" />
+      <div className="flex-1 min-w-0 text-sm">
+        <p className="font-semibold text-amber-900">
+          {lowStock.length === 1 ? '1 item is' : `${lowStock.length} items are`} running low
+        </p>
+        <p className="text-amber-800">
+          {lowStock
+            .map((entry) => `${describeStockSlot(entry.item, entry.size)}: ${entry.onHand} left`)
+            .join(' · ')}
+        </p>
+      </div>
+      {onViewInventory && (
+        <button
+          type="button"
+          onClick={onViewInventory}
+          className="text-sm font-medium text-amber-800 hover:text-amber-900 underline"
+        >
+          View inventory
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default LowStockAlert;
@@ -1,8 +1,12 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useState } from 'react';
 import { Utensils, Truck, Home, Users, Plus, Package, AlertCircle } from 'lucide-react';
 import { useMealsStore } from '@/lib/stores/useMealsStore';
+import { useTaxonomyStore } from '@/lib/stores/useTaxonomyStore';
+import { GUEST_MEAL_TYPES, taxonomyValuesFor } from '@/lib/utils/taxonomies';
+import enhancedToast from '@/utils/toast';
+import type { MealType } from '@/lib/types';
 
 interface MealCardProps {
   title: string;
@@ -44,34 +48,72 @@ function MealCard({ title, count, target, icon, color }: MealCardProps) {
   );
 }
 
+// Card look for the partner programs the app started with; new ones use the default
+const PARTNER_CARD_STYLES: Record<string, { icon: React.ReactNode; color: string; target?: number }> = {
+  day_worker: { icon: <Users size={16} className="text-amber-600" />, color: 'bg-amber-100', target: 35 },
+  shelter: { icon: <Home size={16} className="text-cyan-600" />, color: 'bg-cyan-100', target: 25 },
+  united_effort: { icon: <Users size={16} className="text-indigo-600" />, color: 'bg-indigo-100', target: 30 },
+  lunch_bag: { icon: <Package size={16} className="text-purple-600" />, color: 'bg-purple-100' },
+};
+
+const DEFAULT_PARTNER_CARD_STYLE = {
+  icon: <Utensils size={16} className="text-gray-600" />,
+  color: 'bg-gray-100',
+};
+
 export function MealOverview() {
   const { 
     getTodayMeals, 
     getTodayRvMeals, 
     getTodayExtraMeals,
     getTodayMealsByType,
+    addPartnerMealRecord,
   } = useMealsStore();
+  const taxonomyValues = useTaxonomyStore((state) => state.taxonomyValues);
+  const [partnerType, setPartnerType] = useState<MealType>('');
+  const [partnerQuantity, setPartnerQuantity] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sumCounts = (type: MealType) => getTodayMealsByType(type).reduce((sum: number, m) => sum + m.count, 0);
 
-  const counts = useMemo(() => ({
+  const counts = {
     guest: getTodayMeals?.()?.reduce((sum: number, m) => sum + m.count, 0) || 0,
     rv: getTodayRvMeals?.()?.reduce((sum: number, m) => sum + m.count, 0) || 0,
     extra: getTodayExtraMeals?.()?.reduce((sum: number, m) => sum + m.count, 0) || 0,
-    shelter:
-      getTodayMealsByType?.('shelter')?.reduce((sum: number, m) => sum + m.count, 0) || 0,
-    unitedEffort:
-      getTodayMealsByType?.('united_effort')?.reduce((sum: number, m) => sum + m.count, 0) || 0,
-    dayWorker:
-      getTodayMealsByType?.('day_worker')?.reduce((sum: number, m) => sum + m.count, 0) || 0,
-    lunchBags:
-      getTodayMealsByType?.('lunch_bag')?.reduce((sum: number, m) => sum + m.count, 0) || 0,
-  }), [getTodayMeals, getTodayRvMeals, getTodayExtraMeals, getTodayMealsByType]);
+  };
 
   const targets = {
     guestMeals: 150,
     rvMeals: 50,
-    shelter: 25,
-    unitedEffort: 30,
-    dayWorker: 35,
+  };
+
+  // Partner programs from the meal type list; retired ones only show once used today
+  const partnerPrograms = taxonomyValuesFor(taxonomyValues, 'meal_type')
+    .filter((entry) => !GUEST_MEAL_TYPES.includes(entry.value))
+    .map((entry) => ({ ...entry, count: sumCounts(entry.value) }))
+    .filter((entry) => entry.active || entry.count > 0);
+  const activePrograms = partnerPrograms.filter((entry) => entry.active);
+  const selectedPartnerType = partnerType || activePrograms[0]?.value || '';
+
+  const handleAddPartnerMeals = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = Number(partnerQuantity);
+    if (!selectedPartnerType || !Number.isInteger(quantity) || quantity <= 0) {
+      enhancedToast.error('Choose a program and enter how many meals');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addPartnerMealRecord(selectedPartnerType, quantity);
+      const program = activePrograms.find((entry) => entry.value === selectedPartnerType);
+      enhancedToast.success(`Added ${quantity} ${program?.label ?? 'meals'}`);
+      setPartnerQuantity('');
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to add meals');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -118,38 +160,62 @@ export function MealOverview() {
         </div>
       </div>
 
-      {/* Secondary Meal Cards - Placeholders for future types */}
+      {/* Partner program cards, from the admin-managed meal type list */}
       <div>
         <h3 className="font-semibold text-gray-900 mb-3 text-sm uppercase tracking-wide">Supplementary</h3>
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-          <MealCard
-            title="Day Worker"
-            count={counts.dayWorker}
-            target={targets.dayWorker}
-            icon={<Users size={16} className="text-amber-600" />}
-            color="bg-amber-100"
-          />
-          <MealCard
-            title="Shelter Meals"
-            count={counts.shelter}
-            target={targets.shelter}
-            icon={<Home size={16} className="text-cyan-600" />}
-            color="bg-cyan-100"
-          />
-          <MealCard
-            title="United Effort"
-            count={counts.unitedEffort}
-            target={targets.unitedEffort}
-            icon={<Users size={16} className="text-indigo-600" />}
-            color="bg-indigo-100"
-          />
-          <MealCard
-            title="Lunch Bags"
-            count={counts.lunchBags}
-            icon={<Package size={16} className="text-purple-600" />}
-            color="bg-purple-100"
-          />
+          {partnerPrograms.map((program) => {
+            const style = PARTNER_CARD_STYLES[program.value] ?? DEFAULT_PARTNER_CARD_STYLE;
+            return (
+              <MealCard
+                key={program.value}
+                title={program.active ? program.label : `${program.label} (retired)`}
+                count={program.count}
+                target={PARTNER_CARD_STYLES[program.value]?.target}
+                icon={style.icon}
+                color={style.color}
+              />
+            );
+          })}
         </div>
+        {activePrograms.length > 0 && (
+          <form onSubmit={handleAddPartnerMeals} className="mt-4 flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Program</label>
+              <select
+                value={selectedPartnerType}
+                onChange={(e) => setPartnerType(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              >
+                {activePrograms.map((program) => (
+                  <option key={program.value} value={program.value}>
+                    {program.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Meals</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={partnerQuantity}
+                onChange={(e) => setPartnerQuantity(e.target.value)}
+                placeholder="0"
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Plus size={18} />
+              Add Meals
+            </button>
+          </form>
+        )}
       </div>
 
       {/* Info Box */}
@@ -157,7 +223,7 @@ export function MealOverview() {
         <AlertCircle size={18} className="text-emerald-600 mt-0.5 flex-shrink-0" />
         <div className="text-sm text-emerald-900">
           <p className="font-medium">Guest meals are tracked per person during check-in.</p>
-          <p className="text-emerald-800 mt-1">Additional meal types will be enabled in the next update. For detailed per-guest tracking, log from the Check-In tab.</p>
+          <p className="text-emerald-800 mt-1">Partner program counts are added above; admins manage the list of programs in Settings. For detailed per-guest tracking, log from the Check-In tab.</p>
         </div>
       </div>
 
@@ -4,16 +4,10 @@ import React, { useState, useMemo, useCallback } from 'react';
 import { Droplets, Users, CheckCircle, AlertCircle, Info } from 'lucide-react';
 import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { getShowerSlotFill, formatShowerSlotLabel } from '@/lib/utils/showerSlots';
 import type { Guest } from '@/lib/types';
 
-// Shower slot configuration
-const DEFAULT_SHOWER_SLOTS = [
-  '08:30', '09:00', '09:30', '10:00', '10:30', '11:00', '11:30',
-  '12:00', '12:30', '13:00', '13:30', '14:00', '14:30', '15:00',
-];
-
-const MAX_PER_SLOT = 2;
-
 interface ShowerRecord {
   id: string;
   guestId: string;
@@ -31,27 +25,13 @@ interface ShowerBookingProps {
   onWaitlist?: (guestId: string) => Promise<void>;
   showerRecords: ShowerRecord[];
   todayDateString: string;
-  slots?: string[];
 }
 
-const formatSlotLabel = (slotTime: string): string => {
-  if (!slotTime) return '';
-  const [hours, minutes] = slotTime.split(':').map(Number);
-  const date = new Date();
-  date.setHours(hours);
-  date.setMinutes(minutes, 0, 0);
-  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
-};
-
-const toMinutes = (slotTime: string): number => {
-  const [hours, minutes] = slotTime.split(':').map(Number);
-  return hours * 60 + minutes;
-};
-
 interface SlotInfo {
   slotTime: string;
   label: string;
   count: number;
+  capacity: number;
   isFull: boolean;
   isNearlyFull: boolean;
   sortKey: number;
@@ -65,43 +45,35 @@ export function ShowerBooking({
   onWaitlist,
   showerRecords,
   todayDateString,
-  slots = DEFAULT_SHOWER_SLOTS,
 }: ShowerBookingProps) {
+  const slotSettings = useSettingsStore((state) => state.showerSlots);
   const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
   const [isBooking, setIsBooking] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Calculate slot details
+  // Calculate slot details from today's grid
   const slotsWithDetails = useMemo((): SlotInfo[] => {
-    return slots
-      .map((slotTime) => {
-        const todaysRecords = showerRecords.filter(
-          (record) =>
-            record.time === slotTime &&
-            record.date === todayDateString &&
-            record.status !== 'waitlisted' &&
-            record.status !== 'cancelled'
-        );
-        const count = todaysRecords.length;
-        return {
-          slotTime,
-          label: formatSlotLabel(slotTime),
-          count,
-          isFull: count >= MAX_PER_SLOT,
-          isNearlyFull: count === MAX_PER_SLOT - 1,
-          sortKey: toMinutes(slotTime),
-        };
-      })
+    return getShowerSlotFill(slotSettings, todayDateString, showerRecords)
+      .map((slot, index) => ({
+        slotTime: slot.time,
+        label: formatShowerSlotLabel(slot.time),
+        count: slot.booked,
+        capacity: slot.capacity,
+        isFull: slot.isFull,
+        isNearlyFull: slot.available === 1,
+        sortKey: index,
+      }))
       .sort((a, b) => {
         // Show available slots first, then by time
         if (a.isFull !== b.isFull) return a.isFull ? 1 : -1;
         return a.sortKey - b.sortKey;
       });
-  }, [slots, showerRecords, todayDateString]);
+  }, [slotSettings, showerRecords, todayDateString]);
 
   // Capacity stats
-  const totalCapacity = slots.length * MAX_PER_SLOT;
-  const occupied = slotsWithDetails.reduce((sum, slot) => sum + slot.count, 0);
+  const isClosed = slotsWithDetails.length === 0;
+  const totalCapacity = slotsWithDetails.reduce((sum, slot) => sum + slot.capacity, 0);
+  const occupied = slotsWithDetails.reduce((sum, slot) => sum + Math.min(slot.count, slot.capacity), 0);
   const available = totalCapacity - occupied;
   const allSlotsFull = slotsWithDetails.every((slot) => slot.isFull);
 
@@ -182,7 +154,7 @@ export function ShowerBooking({
           <div className="w-32 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
             <div
               className="h-full bg-blue-600 transition-all"
-              style={{ width: `${(occupied / totalCapacity) * 100}%` }}
+              style={{ width: `${totalCapacity > 0 ? (occupied / totalCapacity) * 100 : 0}%` }}
             />
           </div>
         </div>
@@ -221,12 +193,19 @@ export function ShowerBooking({
                 >
                   <div>{slot.label}</div>
                   <div className="text-xs opacity-75">
-                    {slot.isFull ? 'Full' : `${slot.count}/${MAX_PER_SLOT}`}
+                    {slot.isFull ? 'Full' : `${slot.count}/${slot.capacity}`}
                   </div>
                 </button>
               ))}
             </div>
           </div>
+        ) : isClosed ? (
+          <div className="text-center py-4">
+            <AlertCircle size={32} className="mx-auto text-gray-400 mb-2" />
+            <p className="text-gray-700 dark:text-gray-300 font-medium">
+              Showers are closed today
+            </p>
+          </div>
         ) : (
           <div className="text-center py-4">
             <AlertCircle size={32} className="mx-auto text-amber-500 mb-2" />
@@ -269,7 +248,7 @@ export function ShowerBooking({
         <Button variant="secondary" onClick={handleClose} disabled={isBooking}>
           Cancel
         </Button>
-        {allSlotsFull && onWaitlist ? (
+        {allSlotsFull && !isClosed && onWaitlist ? (
           <Button
             variant="primary"
             onClick={handleWaitlist}
@@ -287,7 +266,7 @@ export function ShowerBooking({
             loadingText="Booking..."
             leftIcon={<CheckCircle size={16} />}
           >
-            Book {selectedSlot && `at ${formatSlotLabel(selectedSlot)}`}
+            Book {selectedSlot && `at ${formatShowerSlotLabel(selectedSlot)}`}
           </Button>
         )}
       </ModalFooter>
@@ -1,9 +1,13 @@
 'use client';
 
-import React, { useCallback, useRef } from 'react';
+import React, { useCallback, useMemo, useRef } from 'react';
 import { CheckCircle, Clock, RefreshCw, Trash2 } from 'lucide-react';
 import { usePullToRefresh } from '@/hooks/usePullToRefresh';
 import { useSwipeToComplete } from '@/hooks/useSwipeToComplete';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { getShowerSlotFill, formatShowerSlotLabel, type ShowerSlotFill } from '@/lib/utils/showerSlots';
 import haptics from '@/utils/haptics';
 import enhancedToast from '@/utils/toast';
 
@@ -110,6 +114,43 @@ function ShowerQueueItem({
   );
 }
 
+function fillColor(slot: ShowerSlotFill): string {
+  if (slot.isFull) return 'bg-red-500';
+  if (slot.available === 1) return 'bg-amber-400';
+  return 'bg-emerald-500';
+}
+
+function ShowerSlotGrid({ slots }: { slots: ShowerSlotFill[] }) {
+  if (slots.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 pb-3">Showers are closed today.</p>
+    );
+  }
+
+  return (
+    <ul className="grid grid-cols-4 sm:grid-cols-6 gap-1.5 pb-3" data-testid="shower-slot-grid">
+      {slots.map((slot) => (
+        <li
+          key={slot.time}
+          className="rounded-md border border-gray-200 dark:border-gray-700 px-2 py-1 text-xs"
+          aria-label={`${formatShowerSlotLabel(slot.time)}: ${slot.booked} of ${slot.capacity} stalls booked`}
+        >
+          <div className="flex items-center justify-between gap-1 text-gray-600 dark:text-gray-300">
+            <span className="font-mono">{slot.time}</span>
+            <span>{Math.min(slot.booked, slot.capacity)}/{slot.capacity}</span>
+          </div>
+          <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+            <div
+              className={`h-full ${fillColor(slot)}`}
+              style={{ width: `${Math.min(slot.booked / slot.capacity, 1) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface ShowerQueueProps {
   queue: Guest[];
   setQueue: React.Dispatch<React.SetStateAction<Guest[]>>;
@@ -120,6 +161,22 @@ const noopAsync = async () => {};
 
 export function ShowerQueue({ queue, setQueue, onRefresh = noopAsync }: ShowerQueueProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const slotSettings = useSettingsStore((state) => state.showerSlots);
+  const showerRecords = useServicesStore((state) => state.showerRecords);
+
+  const slotFill = useMemo(
+    () => getShowerSlotFill(slotSettings, todayPacificDateString(), showerRecords),
+    [slotSettings, showerRecords]
+  );
+
+  // Free stalls from the current slot onward, one entry per stall, in queue order
+  const openStallTimes = useMemo(() => {
+    const now = new Date();
+    const nowTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+    return slotFill
+      .filter((slot) => slot.endsAt > nowTime)
+      .flatMap((slot) => Array.from({ length: slot.available }, () => slot.time));
+  }, [slotFill]);
 
   const handleRemove = useCallback(
     (guest: Guest, options?: { silent?: boolean }) => {
@@ -144,17 +201,13 @@ export function ShowerQueue({ queue, setQueue, onRefresh = noopAsync }: ShowerQu
     [handleRemove]
   );
 
-  const getSlotTime = useCallback((index: number) => {
-    const now = new Date();
-    const minutes = Math.floor(now.getMinutes() / 15) * 15;
-    now.setMinutes(minutes, 0, 0);
-    const slotOffset = Math.floor(index / 2) * 15;
-    now.setMinutes(now.getMinutes() + slotOffset);
-    return now.toLocaleTimeString([], {
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  }, []);
+  const getSlotTime = useCallback(
+    (index: number) => {
+      const slotTime = openStallTimes[index];
+      return slotTime ? formatShowerSlotLabel(slotTime) : 'Waitlist';
+    },
+    [openStallTimes]
+  );
 
   const refreshQueue = useCallback(async () => {
     await onRefresh();
@@ -201,6 +254,8 @@ export function ShowerQueue({ queue, setQueue, onRefresh = noopAsync }: ShowerQu
         </div>
       )}
 
+      <ShowerSlotGrid slots={slotFill} />
+
       {queue.length === 0 ? (
         <p className="text-sm text-gray-500 dark:text-gray-400 py-4">Shower queue is empty.</p>
       ) : (
@@ -210,7 +265,7 @@ export function ShowerQueue({ queue, setQueue, onRefresh = noopAsync }: ShowerQu
               key={`${guest.id}-${index}`}
               guest={guest}
               index={index}
-              isActive={index < 2}
+              isActive={index < slotSettings.stallCount}
               onRemove={handleRemove}
               onComplete={handleComplete}
               getSlotTime={getSlotTime}
@@ -4,7 +4,11 @@ import { useMemo, useState } from 'react';
 import { Droplets, UserPlus, Check, Clock } from 'lucide-react';
 import { useServicesStore } from '@/lib/stores/useServicesStore';
 import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { getShowerSlotFill } from '@/lib/utils/showerSlots';
 import type { ShowerRecord, ShowerStatus } from '@/lib/types';
+import { WaitlistPromotions } from './WaitlistPromotions';
 
 interface TimeSlot {
   time: string;
@@ -12,14 +16,6 @@ interface TimeSlot {
   available: number;
 }
 
-const SHOWER_SLOTS_PER_TIME = 2;
-const TIME_SLOTS = [
-  '08:00', '08:15', '08:30', '08:45',
-  '09:00', '09:15', '09:30', '09:45',
-  '10:00', '10:15', '10:30', '10:45',
-  '11:00', '11:15', '11:30', '11:45',
-];
-
 function getStatusColor(status: ShowerStatus): string {
   switch (status) {
     case 'booked':
@@ -40,25 +36,28 @@ function getStatusColor(status: ShowerStatus): string {
 export function ShowerSection() {
   const { getTodayShowers, updateShowerStatus } = useServicesStore();
   const { guests } = useGuestsStore();
+  const slotSettings = useSettingsStore((state) => state.showerSlots);
   const [, setShowBookingModal] = useState(false);
 
   const showerRecords = useMemo(() => getTodayShowers?.() || [], [getTodayShowers]);
 
   // Organize records by time slot
   const timeSlots: TimeSlot[] = useMemo(() => {
-    return TIME_SLOTS.map((time) => {
-      const slotsForTime = showerRecords.filter((r) => r.time === time);
+    return getShowerSlotFill(slotSettings, todayPacificDateString(), showerRecords).map((slot) => {
+      const slotsForTime = showerRecords.filter(
+        (r) => r.time === slot.time && (r.status === 'booked' || r.status === 'done')
+      );
       const slots: (ShowerRecord | null)[] = [];
-      for (let i = 0; i < SHOWER_SLOTS_PER_TIME; i++) {
+      for (let i = 0; i < slot.capacity; i++) {
         slots.push(slotsForTime[i] || null);
       }
       return {
-        time,
+        time: slot.time,
         slots,
-        available: SHOWER_SLOTS_PER_TIME - slotsForTime.length,
+        available: slot.available,
       };
     });
-  }, [showerRecords]);
+  }, [showerRecords, slotSettings]);
 
   const waitlist = useMemo(
     () => showerRecords.filter((r) => r.status === 'waitlisted'),
@@ -102,7 +101,7 @@ export function ShowerSection() {
         <div className="bg-white rounded-xl border border-gray-200 p-4">
           <div className="text-sm text-gray-500">Total Slots</div>
           <div className="text-2xl font-bold text-gray-900">
-            {TIME_SLOTS.length * SHOWER_SLOTS_PER_TIME}
+            {timeSlots.length * slotSettings.stallCount}
           </div>
         </div>
         <div className="bg-white rounded-xl border border-gray-200 p-4">
@@ -121,6 +120,9 @@ export function ShowerSection() {
           <h3 className="font-semibold text-gray-900">Time Slots</h3>
         </div>
         <div className="divide-y divide-gray-100">
+          {timeSlots.length === 0 && (
+            <p className="p-4 text-sm text-gray-500">Showers are closed today.</p>
+          )}
           {timeSlots.map((slot) => (
             <div key={slot.time} className="p-4 flex items-center gap-4">
               <div className="w-16 font-mono text-sm text-gray-600">{slot.time}</div>
@@ -152,6 +154,8 @@ export function ShowerSection() {
         </div>
       </div>
 
+      <WaitlistPromotions service="shower" />
+
       {/* Waitlist Section */}
       {waitlist.length > 0 && (
         <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
@@ -45,7 +45,7 @@ export function StickyQuickActions({ role, onShowerAction, onLaundryAction, onDo
 
   return (
     <div 
-      className="fixed bottom-20 md:bottom-6 left-0 right-0 px-4 z-30"
+      className="fixed bottom-20 md:bottom-6 left-0 right-0 px-4 z-30 print:hidden"
       style={{ paddingBottom: 'env(safe-area-inset-bottom)' }}
     >
       <div className="max-w-7xl mx-auto">
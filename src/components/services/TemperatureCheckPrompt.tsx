@@ -0,0 +1,59 @@
+'use client';
+
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import {
+  FOOD_HOLDING_LABELS,
+  checkTemperature,
+  describeSafeRange,
+  formatTemperature,
+} from '@/lib/utils/foodSafety';
+import type { FoodHolding } from '@/lib/types';
+
+interface TemperatureCheckPromptProps {
+  temperatureF: number | null;
+  holding: FoodHolding;
+  correctiveAction: string;
+  onCorrectiveActionChange: (value: string) => void;
+}
+
+/**
+ * Checks a reading against the safe range as it is typed and, when it is out
+ * of range, asks what was done about it
+ */
+export function TemperatureCheckPrompt({
+  temperatureF,
+  holding,
+  correctiveAction,
+  onCorrectiveActionChange,
+}: TemperatureCheckPromptProps) {
+  const ranges = useSettingsStore((state) => state.foodSafetyRanges);
+  if (temperatureF === null) return null;
+
+  const range = describeSafeRange(ranges[holding]);
+  if (checkTemperature(temperatureF, holding, ranges).inRange) {
+    return (
+      <p className="text-sm text-emerald-700 flex items-center gap-1">
+        <CheckCircle2 size={14} /> Within the safe range ({range})
+      </p>
+    );
+  }
+
+  return (
+    <div role="alert" className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+      <p className="text-sm text-amber-800 flex items-start gap-2">
+        <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+        {formatTemperature(temperatureF)} is outside the safe {FOOD_HOLDING_LABELS[holding].toLowerCase()} range (
+        {range}). Record the corrective action taken before saving.
+      </p>
+      <textarea
+        value={correctiveAction}
+        onChange={(e) => onCorrectiveActionChange(e.target.value)}
+        rows={2}
+        placeholder="e.g., Reheated to 165°F, discarded, moved to walk-in"
+        aria-label="Corrective action"
+        className="w-full px-3 py-2 border border-amber-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { Printer, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { useFoodSafetyStore } from '@/lib/stores/useFoodSafetyStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { formatDisplayDate, todayPacificDateString } from '@/lib/utils/date';
+import {
+  FOOD_HOLDING_LABELS,
+  TEMPERATURE_STAGE_LABELS,
+  buildMonthlyTemperatureLog,
+  describeSafeRange,
+  formatTemperature,
+} from '@/lib/utils/foodSafety';
+import type { TemperatureReading } from '@/lib/types';
+import { enhancedToast } from '@/utils/toast';
+
+/**
+ * A month of temperature readings laid out for printing, for the county
+ * health inspection
+ */
+export function TemperatureMonthlyLog() {
+  const siteName = useSettingsStore((state) => state.siteName);
+  const fetchTemperatureReadings = useFoodSafetyStore((state) => state.fetchTemperatureReadings);
+  const [month, setMonth] = useState(() => todayPacificDateString().slice(0, 7));
+  const [readings, setReadings] = useState<TemperatureReading[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadReadings = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReadings(await fetchTemperatureReadings(month));
+    } catch (error) {
+      enhancedToast.error(error instanceof Error ? error.message : 'Failed to load the temperature log');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchTemperatureReadings, month]);
+
+  useEffect(() => {
+    loadReadings();
+  }, [loadReadings]);
+
+  const log = useMemo(() => buildMonthlyTemperatureLog(readings, month), [readings, month]);
+  const monthLabel = formatDisplayDate(`${month}-01T12:00:00`, { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-4 print:border-0 print:p-0">
+      <div className="flex flex-wrap items-end justify-between gap-3 print:hidden">
+        <label className="text-sm text-gray-700">
+          Month
+          <input
+            type="month"
+            value={month}
+            max={todayPacificDateString().slice(0, 7)}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="block px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+          />
+        </label>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadReadings} isLoading={loading} leftIcon={<RefreshCw size={16} />}>
+            Refresh
+          </Button>
+          <Button onClick={() => window.print()} disabled={log.days.length === 0} leftIcon={<Printer size={16} />}>
+            Print log
+          </Button>
+        </div>
+      </div>
+
+      <header className="border-b border-gray-300 pb-2">
+        <h3 className="text-lg font-bold text-gray-900">{siteName} — Food Temperature Log</h3>
+        <p className="text-sm text-gray-600">
+          {monthLabel} · {log.totals.readings} readings · {log.totals.outOfRange} out of range
+        </p>
+      </header>
+
+      {log.days.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No temperatures recorded this month.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600 print:bg-transparent">
+              <tr>
+                <th className="text-left px-2 py-2 font-medium">Time</th>
+                <th className="text-left px-2 py-2 font-medium">Stage</th>
+                <th className="text-left px-2 py-2 font-medium">Item</th>
+                <th className="text-left px-2 py-2 font-medium">Holding</th>
+                <th className="text-right px-2 py-2 font-medium">Temp</th>
+                <th className="text-left px-2 py-2 font-medium">Safe range</th>
+                <th className="text-left px-2 py-2 font-medium">Corrective action</th>
+                <th className="text-left px-2 py-2 font-medium">Recorded by</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.days.map((day) => (
+                <Fragment key={day.date}>
+                  <tr className="border-t border-gray-300">
+                    <td colSpan={8} className="px-2 pt-3 pb-1 font-semibold text-gray-900">
+                      {formatDisplayDate(`${day.date}T12:00:00`, { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </td>
+                  </tr>
+                  {day.readings.map((reading) => (
+                    <tr key={reading.id} className={reading.inRange ? '' : 'bg-red-50 print:bg-transparent'}>
+                      <td className="px-2 py-1 whitespace-nowrap">
+                        {new Date(reading.recordedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                      </td>
+                      <td className="px-2 py-1">{TEMPERATURE_STAGE_LABELS[reading.stage]}</td>
+                      <td className="px-2 py-1">{reading.itemName}</td>
+                      <td className="px-2 py-1">{FOOD_HOLDING_LABELS[reading.holding]}</td>
+                      <td className={`px-2 py-1 text-right font-medium ${reading.inRange ? '' : 'text-red-700'}`}>
+                        {formatTemperature(reading.temperatureF)}
+                        {!reading.inRange && ' ✗'}
+                      </td>
+                      <td className="px-2 py-1 text-gray-600">
+                        {describeSafeRange({ minF: reading.safeMinF, maxF: reading.safeMaxF })}
+                      </td>
+                      <td className="px-2 py-1">{reading.correctiveAction ?? ''}</td>
+                      <td className="px-2 py-1 text-gray-600">{reading.recordedByEmail ?? ''}</td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="hidden print:block pt-8 text-sm">
+        Reviewed by: ______________________________ Date: ______________
+      </p>
+    </div>
+  );
+}
+
+export default TemperatureMonthlyLog;
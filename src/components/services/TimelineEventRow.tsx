@@ -0,0 +1,59 @@
+'use client';
+
+import {
+  Droplets,
+  Shirt,
+  Utensils,
+  UtensilsCrossed,
+  Truck,
+  Bike,
+  Gift,
+  Scissors,
+  PartyPopper,
+  Package,
+  FileSignature,
+} from 'lucide-react';
+import type { TimelineEventType } from '@/lib/types';
+
+export const TIMELINE_TYPE_CONFIG: Record<TimelineEventType, { icon: typeof Utensils; color: string }> = {
+  meal: { icon: Utensils, color: 'bg-emerald-100 text-emerald-600' },
+  rv_meal: { icon: Truck, color: 'bg-teal-100 text-teal-600' },
+  extra_meal: { icon: UtensilsCrossed, color: 'bg-lime-100 text-lime-700' },
+  shower: { icon: Droplets, color: 'bg-blue-100 text-blue-600' },
+  laundry: { icon: Shirt, color: 'bg-purple-100 text-purple-600' },
+  bicycle: { icon: Bike, color: 'bg-orange-100 text-orange-600' },
+  donation: { icon: Gift, color: 'bg-pink-100 text-pink-600' },
+  haircut: { icon: Scissors, color: 'bg-amber-100 text-amber-600' },
+  holiday: { icon: PartyPopper, color: 'bg-rose-100 text-rose-600' },
+  item: { icon: Package, color: 'bg-indigo-100 text-indigo-600' },
+  waiver: { icon: FileSignature, color: 'bg-gray-100 text-gray-600' },
+};
+
+interface TimelineEventRowProps {
+  type: TimelineEventType;
+  title: string;
+  description: string;
+  time: string;
+}
+
+/**
+ * One entry of an activity timeline: the service icon, a title, the time and what happened
+ */
+export function TimelineEventRow({ type, title, description, time }: TimelineEventRowProps) {
+  const config = TIMELINE_TYPE_CONFIG[type];
+  const Icon = config.icon;
+  return (
+    <div className="p-4 flex items-start gap-4 break-inside-avoid">
+      <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${config.color}`}>
+        <Icon size={20} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="font-medium text-gray-900">{title}</h4>
+          {time && <span className="text-sm text-gray-500 flex-shrink-0">{time}</span>}
+        </div>
+        <p className="text-sm text-gray-600 mt-0.5">{description}</p>
+      </div>
+    </div>
+  );
+}
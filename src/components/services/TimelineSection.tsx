@@ -1,28 +1,24 @@
 'use client';
 
 import { useMemo } from 'react';
-import { Clock, Droplets, Shirt, Utensils, Bike, Gift, Scissors } from 'lucide-react';
+import { Clock } from 'lucide-react';
 import { useMealsStore } from '@/lib/stores/useMealsStore';
 import { useServicesStore } from '@/lib/stores/useServicesStore';
 import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { formatTimelineTime } from '@/lib/utils/guestTimeline';
+import type { TimelineEventType } from '@/lib/types';
+import { TIMELINE_TYPE_CONFIG, TimelineEventRow } from './TimelineEventRow';
 
 interface TimelineEvent {
   id: string;
-  type: 'meal' | 'shower' | 'laundry' | 'bicycle' | 'donation' | 'haircut';
+  type: TimelineEventType;
   guestName: string;
   description: string;
   time: string;
   timestamp: Date;
 }
 
-const TYPE_CONFIG = {
-  meal: { icon: Utensils, color: 'bg-emerald-100 text-emerald-600' },
-  shower: { icon: Droplets, color: 'bg-blue-100 text-blue-600' },
-  laundry: { icon: Shirt, color: 'bg-purple-100 text-purple-600' },
-  bicycle: { icon: Bike, color: 'bg-orange-100 text-orange-600' },
-  donation: { icon: Gift, color: 'bg-pink-100 text-pink-600' },
-  haircut: { icon: Scissors, color: 'bg-amber-100 text-amber-600' },
-};
+const SECTION_TYPES: TimelineEventType[] = ['meal', 'shower', 'laundry', 'bicycle', 'donation', 'haircut'];
 
 export function TimelineSection() {
   const { getTodayMeals, getTodayHaircuts } = useMealsStore();
@@ -46,10 +42,7 @@ export function TimelineSection() {
         type: 'meal',
         guestName: lookupGuest(meal.guestId),
         description: `${meal.count} meal(s) served`,
-        time: new Date(meal.recordedAt).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-        }),
+        time: formatTimelineTime(meal.recordedAt),
         timestamp: new Date(meal.recordedAt),
       });
     });
@@ -88,10 +81,7 @@ export function TimelineSection() {
         type: 'bicycle',
         guestName: lookupGuest(repair.guestId),
         description: `Bicycle repair: ${repair.repairTypes.slice(0, 2).join(', ')}${repair.repairTypes.length > 2 ? '...' : ''}`,
-        time: new Date(repair.lastUpdated).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-        }),
+        time: formatTimelineTime(repair.lastUpdated),
         timestamp: new Date(repair.lastUpdated),
       });
     });
@@ -133,7 +123,8 @@ export function TimelineSection() {
 
       {/* Filter Buttons */}
       <div className="flex flex-wrap gap-2">
-        {Object.entries(TYPE_CONFIG).map(([type, config]) => {
+        {SECTION_TYPES.map((type) => {
+          const config = TIMELINE_TYPE_CONFIG[type];
           const Icon = config.icon;
           return (
             <button
@@ -157,24 +148,15 @@ export function TimelineSection() {
           </div>
         ) : (
           <div className="divide-y divide-gray-100">
-            {events.map((event) => {
-              const config = TYPE_CONFIG[event.type];
-              const Icon = config.icon;
-              return (
-                <div key={event.id} className="p-4 flex items-start gap-4">
-                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${config.color}`}>
-                    <Icon size={20} />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between gap-2">
-                      <h4 className="font-medium text-gray-900">{event.guestName}</h4>
-                      <span className="text-sm text-gray-500 flex-shrink-0">{event.time}</span>
-                    </div>
-                    <p className="text-sm text-gray-600 mt-0.5">{event.description}</p>
-                  </div>
-                </div>
-              );
-            })}
+            {events.map((event) => (
+              <TimelineEventRow
+                key={event.id}
+                type={event.type}
+                title={event.guestName}
+                description={event.description}
+                time={event.time}
+              />
+            ))}
           </div>
         )}
       </div>
@@ -0,0 +1,73 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Megaphone, Check } from 'lucide-react';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { formatShowerSlotLabel } from '@/lib/utils/showerSlots';
+import type { WaitlistService } from '@/lib/types';
+
+interface WaitlistPromotionsProps {
+  service: WaitlistService;
+}
+
+/**
+ * Guests moved up from the waitlist today, so staff can call them by name
+ */
+export function WaitlistPromotions({ service }: WaitlistPromotionsProps) {
+  const promotions = useServicesStore((state) => state.waitlistPromotions);
+  const markPromotionCalled = useServicesStore((state) => state.markPromotionCalled);
+  const guests = useGuestsStore((state) => state.guests);
+
+  const servicePromotions = useMemo(
+    () => promotions.filter((p) => p.service === service),
+    [promotions, service]
+  );
+
+  if (servicePromotions.length === 0) return null;
+
+  const getGuestName = (guestId: string): string => {
+    const guest = guests.find((g) => g.id === guestId);
+    if (!guest) return 'Unknown Guest';
+    const fullName = `${guest.firstName} ${guest.lastName}`;
+    return guest.preferredName ? `${guest.preferredName} (${fullName})` : fullName;
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-amber-200 overflow-hidden">
+      <div className="p-4 border-b border-amber-100 bg-amber-50 flex items-center gap-2">
+        <Megaphone size={18} className="text-amber-600" />
+        <h3 className="font-semibold text-gray-900">Moved Up From Waitlist</h3>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {servicePromotions.map((promotion) => (
+          <li key={promotion.id} className="p-4 flex items-center justify-between gap-3">
+            <div>
+              <div className="font-medium text-gray-900">{getGuestName(promotion.guestId)}</div>
+              <div className="text-xs text-gray-500">
+                {promotion.slotTime
+                  ? `Shower at ${formatShowerSlotLabel(promotion.slotTime)}`
+                  : 'Ready for a washer'}
+                {' · moved up '}
+                {new Date(promotion.promotedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+              </div>
+            </div>
+            {promotion.calledAt ? (
+              <span className="inline-flex items-center gap-1 text-xs font-medium text-emerald-700">
+                <Check size={14} /> Called
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => markPromotionCalled(promotion.id)}
+                className="px-3 py-1 text-sm bg-amber-100 text-amber-800 rounded-lg hover:bg-amber-200 transition-colors"
+              >
+                Mark called
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ShowerQueue } from '../ShowerQueue';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
 
 const hapticsMock = vi.hoisted(() => ({
   delete: vi.fn(),
@@ -166,6 +167,36 @@ describe('ShowerQueue', () => {
     });
   });
 
+  describe('slot grid', () => {
+    afterEach(() => {
+      useServicesStore.setState({ showerRecords: [] });
+    });
+
+    it('shows fill levels and skips stalls that are already booked', () => {
+      useServicesStore.setState({
+        showerRecords: [
+          {
+            id: 'booked-1',
+            guestId: 'guest-9',
+            time: '10:00',
+            scheduledFor: '2025-10-09',
+            date: '2025-10-09',
+            status: 'booked',
+            createdAt: '2025-10-09T09:00:00.000Z',
+            lastUpdated: '2025-10-09T09:00:00.000Z',
+          },
+        ],
+      });
+      render(<ShowerQueue queue={initialQueue} setQueue={mockSetQueue} />);
+
+      expect(screen.getByLabelText('10:00 AM: 1 of 2 stalls booked')).toBeInTheDocument();
+      expect(screen.getByLabelText('10:15 AM: 0 of 2 stalls booked')).toBeInTheDocument();
+      // One stall left at 10:00, so the rest of the queue moves to 10:15
+      expect(screen.getByText('10:00 AM')).toBeInTheDocument();
+      expect(screen.getAllByText('10:15 AM')).toHaveLength(2);
+    });
+  });
+
   describe('pull to refresh', () => {
     it('invokes refresh when pulling the queue', async () => {
       vi.useRealTimers();
@@ -6,6 +6,7 @@ export { ShowerQueue } from './ShowerQueue';
 export { LaundryList } from './LaundryList';
 export { CompactShowerList } from './CompactShowerList';
 export { CompactLaundryList } from './CompactLaundryList';
+export { WaitlistPromotions } from './WaitlistPromotions';
 
 // New service section components
 export { MealOverview } from './MealOverview';
@@ -13,5 +14,15 @@ export { ShowerSection } from './ShowerSection';
 export { LaundrySection } from './LaundrySection';
 export { BicycleSection } from './BicycleSection';
 export { DonationsSection } from './DonationsSection';
+export { DonorDirectory } from './DonorDirectory';
+export { DonationReceiptModal } from './DonationReceiptModal';
+export { IssuedReceiptsPanel } from './IssuedReceiptsPanel';
+export { FoodDispositionPanel } from './FoodDispositionPanel';
+export { InventorySection } from './InventorySection';
+export { LowStockAlert } from './LowStockAlert';
+export { FoodSafetySection } from './FoodSafetySection';
+export { TemperatureCheckPrompt } from './TemperatureCheckPrompt';
+export { TemperatureMonthlyLog } from './TemperatureMonthlyLog';
 export { TimelineSection } from './TimelineSection';
+export { TimelineEventRow, TIMELINE_TYPE_CONFIG } from './TimelineEventRow';
 export { StickyQuickActions } from './StickyQuickActions';
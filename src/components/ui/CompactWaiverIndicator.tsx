@@ -1,11 +1,14 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { AlertTriangle } from 'lucide-react';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
+import { describeWaiverCoverage, getWaiverStatus } from '@/lib/utils/waivers';
+import type { WaiverService } from '@/lib/types';
 
 interface CompactWaiverIndicatorProps {
   guestId: string;
-  serviceType: 'shower' | 'laundry' | 'bicycle';
+  serviceType: WaiverService;
 }
 
 /**
@@ -17,19 +20,29 @@ export const CompactWaiverIndicator: React.FC<CompactWaiverIndicatorProps> = ({
   serviceType,
 }) => {
   const [showTooltip, setShowTooltip] = useState(false);
+  const needsWaiver = useWaiverStore((state) => state.needsWaiverReminder(guestId, serviceType));
+  const checkWaiverReminder = useWaiverStore((state) => state.checkWaiverReminder);
+  const templates = useWaiverStore((state) => state.templates);
+  const waivers = useWaiverStore((state) => state.waivers);
+  const waiverStatus = useMemo(
+    () => getWaiverStatus(templates, waivers, guestId, serviceType),
+    [templates, waivers, guestId, serviceType]
+  );
 
-  // For now, this is a placeholder that doesn't show anything
-  // In a full implementation, this would check waiver status via API
-  const needsWaiver = false;
+  useEffect(() => {
+    if (guestId) {
+      checkWaiverReminder(guestId, serviceType);
+    }
+  }, [guestId, serviceType, checkWaiverReminder]);
 
-  if (!needsWaiver || !guestId) {
+  const { template } = waiverStatus;
+  if (!needsWaiver || !guestId || !template) {
     return null;
   }
 
-  const tooltipText =
-    serviceType === 'bicycle'
-      ? 'Bicycle program waiver needed'
-      : 'Services waiver needed (covers shower & laundry)';
+  const tooltipText = `${template.title} v${template.version} needed${
+    template.services.length > 1 ? ` (covers ${describeWaiverCoverage(template)})` : ''
+  }${waiverStatus.status === 'outdated' ? ` - signed v${waiverStatus.signedVersion}` : ''}`;
 
   return (
     <div
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   AlertTriangle,
   X,
@@ -12,110 +12,75 @@ import {
   Bike,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { useWaiverStore } from '@/lib/stores/useWaiverStore';
+import { WAIVER_SERVICE_LABELS, describeWaiverCoverage, getWaiverStatus } from '@/lib/utils/waivers';
+import type { WaiverService, WaiverTemplate } from '@/lib/types';
 
-type ServiceType = 'shower' | 'laundry' | 'bicycle';
 type WaiverStep = 'initial' | 'submitted' | 'confirmed';
 
+const validityNote = (template: WaiverTemplate) => {
+  switch (template.validityRule) {
+    case 'calendar_year':
+      return 'This waiver requirement will reset on January 1st of next year.';
+    case 'rolling_days':
+      return `A signature of this waiver lasts ${template.validityDays} days.`;
+    default:
+      return 'A signature of this version does not expire.';
+  }
+};
+
 interface WaiverBadgeProps {
   guestId: string;
-  serviceType: ServiceType;
+  serviceType: WaiverService;
   onDismissed?: () => void;
-  // These would come from context/store in actual implementation
-  guestNeedsWaiverReminder: (guestId: string, serviceType: ServiceType) => Promise<boolean>;
-  dismissWaiver: (guestId: string, serviceType: ServiceType, reason: string) => Promise<boolean>;
-  hasActiveWaiver?: (guestId: string, serviceType: ServiceType) => Promise<boolean>;
 }
 
 /**
  * WaiverBadge - Displays a badge for guests needing waiver acknowledgment
  * Shows for guests who have used shower/laundry/bicycle services but haven't signed waivers
  * Staff dismisses the badge after confirming external waiver is signed (paper/separate app)
- * Waiver is required once per year (Jan 1 - Dec 31)
- * 
- * IMPORTANT: Shower and laundry share a common waiver. If one is signed, both are covered.
- * Bicycle has a separate waiver.
+ * The waiver, its version and how long a signature lasts come from the current template
+ *
+ * IMPORTANT: A waiver can cover several services (shower and laundry share one). If one is
+ * signed, all of them are covered. Bicycle has a separate waiver.
  */
-export function WaiverBadge({
-  guestId,
-  serviceType,
-  onDismissed,
-  guestNeedsWaiverReminder,
-  dismissWaiver,
-  hasActiveWaiver,
-}: WaiverBadgeProps) {
-  const [needsWaiver, setNeedsWaiver] = useState(false);
-  const [loading, setLoading] = useState(true);
+export function WaiverBadge({ guestId, serviceType, onDismissed }: WaiverBadgeProps) {
+  const needsWaiver = useWaiverStore((state) => state.needsWaiverReminder(guestId, serviceType));
+  const templates = useWaiverStore((state) => state.templates);
+  const waivers = useWaiverStore((state) => state.waivers);
+  const checkWaiverReminder = useWaiverStore((state) => state.checkWaiverReminder);
+  const signWaiver = useWaiverStore((state) => state.signWaiver);
   const [showModal, setShowModal] = useState(false);
   const [dismissing, setDismissing] = useState(false);
   const [waiverStep, setWaiverStep] = useState<WaiverStep>('initial');
 
-  const isBicycleWaiver = serviceType === 'bicycle';
-  const isShowerLaundryWaiver = serviceType === 'shower' || serviceType === 'laundry';
+  const waiverStatus = useMemo(
+    () => getWaiverStatus(templates, waivers, guestId, serviceType),
+    [templates, waivers, guestId, serviceType]
+  );
+  const template = waiverStatus.template;
+  const isSharedWaiver = (template?.services.length ?? 0) > 1;
 
   useEffect(() => {
-    const checkWaiver = async () => {
-      setLoading(true);
-      try {
-        const needsForThisService = await guestNeedsWaiverReminder(guestId, serviceType);
-
-        if (!needsForThisService) {
-          setNeedsWaiver(false);
-          setLoading(false);
-          return;
-        }
-
-        if (isBicycleWaiver) {
-          setNeedsWaiver(true);
-          setLoading(false);
-          return;
-        }
-
-        const otherService: ServiceType = serviceType === 'shower' ? 'laundry' : 'shower';
-        const hasOtherWaiver = hasActiveWaiver
-          ? await hasActiveWaiver(guestId, otherService)
-          : false;
-
-        if (hasOtherWaiver) {
-          setNeedsWaiver(false);
-        } else {
-          setNeedsWaiver(true);
-        }
-      } catch (error) {
-        console.error('[WaiverBadge] Error checking waiver status:', error);
-        setNeedsWaiver(false);
-      } finally {
-        setLoading(false);
-      }
-    };
-
     if (guestId && serviceType) {
-      checkWaiver();
+      checkWaiverReminder(guestId, serviceType);
     }
-  }, [guestId, serviceType, guestNeedsWaiverReminder, hasActiveWaiver, isBicycleWaiver]);
+  }, [guestId, serviceType, checkWaiverReminder]);
 
   const handleDismiss = async () => {
     setDismissing(true);
     try {
-      const success = await dismissWaiver(guestId, serviceType, 'signed_by_staff');
-
-      if (success) {
-        if (isShowerLaundryWaiver) {
-          const otherService: ServiceType = serviceType === 'shower' ? 'laundry' : 'shower';
-          try {
-            await dismissWaiver(guestId, otherService, 'shared_waiver');
-          } catch {
-            // Silent fail for the other service - the main one is already confirmed
-          }
-          toast.success('Services waiver confirmed for this year (covers both shower & laundry)');
-        } else {
-          toast.success('Bicycle program waiver confirmed for this year');
-        }
+      await signWaiver(guestId, serviceType, 'signed_by_staff');
 
-        setNeedsWaiver(false);
-        setShowModal(false);
-        setWaiverStep('initial');
-        onDismissed?.();
+      if (isSharedWaiver && template) {
+        toast.success(`${template.title} confirmed (covers ${describeWaiverCoverage(template)})`);
+      } else {
+        toast.success(`${template?.title ?? 'Waiver'} confirmed`);
       }
+
+      setShowModal(false);
+      setWaiverStep('initial');
+      onDismissed?.();
     } catch (error) {
       console.error('Error dismissing waiver:', error);
       toast.error('Failed to confirm waiver');
@@ -125,27 +90,25 @@ export function WaiverBadge({
   };
 
   const handleOpenWaiverLink = () => {
-    const waiverUrl = isBicycleWaiver
-      ? 'https://hopes-corner-bicycle-waiver.vercel.app/'
-      : 'https://hopes-corner-waiver-submission-next.vercel.app/';
-
-    window.open(waiverUrl, 'waiver_window');
+    if (template?.signingUrl) {
+      window.open(template.signingUrl, 'waiver_window');
+    }
     setWaiverStep('submitted');
   };
 
-  if (loading || !needsWaiver) {
+  if (!needsWaiver || !template) {
     return null;
   }
 
-  const serviceName =
-    serviceType === 'shower' ? 'Shower' : serviceType === 'laundry' ? 'Laundry' : 'Bicycle';
-  const waiverTitle = isBicycleWaiver ? 'Bicycle Program Waiver' : 'Services Waiver';
-  const waiverDescription = isBicycleWaiver
-    ? 'Confirm bicycle waiver is signed for this year'
-    : 'Confirm waiver is signed for this year';
-  const badgeTitle = isBicycleWaiver
-    ? 'Bicycle program waiver required'
-    : 'Services waiver required (covers shower & laundry)';
+  const serviceName = WAIVER_SERVICE_LABELS[serviceType];
+  const waiverTitle = `${template.title} (version ${template.version})`;
+  const waiverDescription =
+    waiverStatus.status === 'outdated'
+      ? `Guest signed version ${waiverStatus.signedVersion}; version ${template.version} is now required`
+      : `Confirm version ${template.version} of this waiver is signed`;
+  const badgeTitle = `${template.title} v${template.version} required${
+    isSharedWaiver ? ` (covers ${describeWaiverCoverage(template)})` : ''
+  }${waiverStatus.status === 'outdated' ? ` - signed v${waiverStatus.signedVersion}` : ''}`;
 
   return (
     <>
@@ -206,7 +169,7 @@ export function WaiverBadge({
                   </div>
 
                   {/* Service-specific notice */}
-                  {isBicycleWaiver ? (
+                  {!isSharedWaiver ? (
                     <div className="bg-sky-50 dark:bg-sky-900/20 border border-sky-200 dark:border-sky-800 rounded-md p-4 mb-6">
                       <div className="flex items-start gap-3">
                         <div className="flex gap-1.5 flex-shrink-0">
@@ -214,11 +177,11 @@ export function WaiverBadge({
                         </div>
                         <div>
                           <p className="text-sm font-medium text-sky-800 dark:text-sky-300">
-                            Bicycle Program Waiver
+                            {template.title}
                           </p>
                           <p className="text-xs text-sky-700 dark:text-sky-400 mt-1">
-                            This waiver is specific to the bicycle repair program. Shower and
-                            laundry services require a separate waiver.
+                            This waiver only covers {serviceName.toLowerCase()} services. Other
+                            services require a separate waiver.
                           </p>
                         </div>
                       </div>
@@ -235,8 +198,8 @@ export function WaiverBadge({
                             Common Waiver
                           </p>
                           <p className="text-xs text-blue-700 dark:text-blue-400 mt-1">
-                            Shower and laundry share the same waiver. Confirming this will cover
-                            both services for the year.
+                            The {describeWaiverCoverage(template)} services share the same waiver.
+                            Confirming this will cover all of them.
                           </p>
                         </div>
                       </div>
@@ -244,7 +207,7 @@ export function WaiverBadge({
                   )}
 
                   <p className="text-xs text-gray-500 dark:text-gray-400 mb-6 text-center">
-                    This waiver requirement will reset on January 1st of next year.
+                    {validityNote(template)}
                   </p>
 
                   {/* Actions */}
@@ -1,3 +1,5 @@
 export { usePullToRefresh } from './usePullToRefresh';
 export { useSwipeToComplete } from './useSwipeToComplete';
 export { useUserRole } from './useUserRole';
+export { useRealtimeSync } from './useRealtimeSync';
+export { useWaitlistAlerts } from './useWaitlistAlerts';
@@ -0,0 +1,27 @@
+'use client';
+
+import { useEffect } from 'react';
+import { isSupabaseEnabled } from '@/lib/supabase/client';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useMealsStore } from '@/lib/stores/useMealsStore';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
+
+/**
+ * Keep guests, meal check-ins and service queues in step with other devices
+ * for as long as the calling component is mounted
+ */
+export function useRealtimeSync(enabled = true) {
+  useEffect(() => {
+    if (!enabled || !isSupabaseEnabled()) return;
+
+    const unsubscribers = [
+      useGuestsStore.getState().subscribeToRealtime(),
+      useMealsStore.getState().subscribeToRealtime(),
+      useServicesStore.getState().subscribeToRealtime(),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useServicesStore } from '@/lib/stores/useServicesStore';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useSettingsStore } from '@/lib/stores/useSettingsStore';
+import { formatShowerSlotLabel } from '@/lib/utils/showerSlots';
+import enhancedToast from '@/utils/toast';
+import { playChime } from '@/utils/chime';
+import type { WaitlistPromotion } from '@/lib/types';
+
+const describePromotion = (promotion: WaitlistPromotion): string => {
+  const guest = useGuestsStore.getState().guests.find((g) => g.id === promotion.guestId);
+  const name = guest ? guest.preferredName || `${guest.firstName} ${guest.lastName}` : 'Next guest';
+  if (promotion.service === 'shower') {
+    return promotion.slotTime
+      ? `${name} moved up for a ${formatShowerSlotLabel(promotion.slotTime)} shower`
+      : `${name} moved up for a shower`;
+  }
+  return `${name}'s laundry can go in the washer`;
+};
+
+/**
+ * Toast (and optionally chime) whenever a waitlisted guest is promoted on this device
+ */
+export function useWaitlistAlerts(enabled = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    return useServicesStore.subscribe(
+      (state) => state.waitlistPromotions,
+      (promotions, previous) => {
+        const seen = new Set(previous.map((p) => p.id));
+        const added = promotions.filter((p) => !seen.has(p.id));
+        if (added.length === 0) return;
+
+        added.forEach((promotion) => {
+          enhancedToast.info(describePromotion(promotion), { duration: 8000 });
+        });
+        if (useSettingsStore.getState().waitlistChime) {
+          playChime();
+        }
+      }
+    );
+  }, [enabled]);
+}
@@ -31,19 +31,6 @@ export const LAUNDRY_STATUS = {
 
 export type LaundryStatusValue = (typeof LAUNDRY_STATUS)[keyof typeof LAUNDRY_STATUS];
 
-export const DONATION_TYPES = [
-  'Protein',
-  'Carbs',
-  'Vegetables',
-  'Fruit',
-  'Veggie Protein',
-  'Deli Foods',
-  'Pastries',
-  'School lunch',
-] as const;
-
-export type DonationType = (typeof DONATION_TYPES)[number];
-
 export const BICYCLE_REPAIR_STATUS = {
   PENDING: 'pending',
   IN_PROGRESS: 'in_progress',
@@ -52,19 +39,6 @@ export const BICYCLE_REPAIR_STATUS = {
 
 export type BicycleRepairStatusValue = (typeof BICYCLE_REPAIR_STATUS)[keyof typeof BICYCLE_REPAIR_STATUS];
 
-export const LA_PLAZA_CATEGORIES = [
-  'Bakery',
-  'Beverages',
-  'Dairy',
-  'Meat',
-  'Mix',
-  'Nonfood',
-  'Prepared/Perishable',
-  'Produce',
-] as const;
-
-export type LaPlazaCategory = (typeof LA_PLAZA_CATEGORIES)[number];
-
 // Bay Area cities for location selection
 export const BAY_AREA_CITIES = [
   'Campbell',
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useFoodRescueStore } from '../useFoodRescueStore';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({}),
+  isSupabaseEnabled: () => true,
+}));
+
+const queueOperation = vi.fn().mockResolvedValue({ success: true, queued: true, queueId: 1, message: '' });
+
+vi.mock('@/lib/utils/offlineQueueManager', () => ({
+  queueOperation: (...args: unknown[]) => queueOperation(...args),
+}));
+
+describe('useFoodRescueStore', () => {
+  beforeEach(() => {
+    // Offline, so every write is queued rather than sent
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    queueOperation.mockClear();
+    useFoodRescueStore.setState({ foodDispositions: [] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('queues outbound food and removes it again', async () => {
+    const disposition = await useFoodRescueStore.getState().addFoodDisposition({
+      kind: 'redistributed',
+      weightLbs: 12.5,
+      recipient: ' Food Bank ',
+      dateKey: '2024-06-03',
+    });
+
+    expect(disposition).toMatchObject({ kind: 'redistributed', recipient: 'Food Bank', weightLbs: 12.5 });
+    expect(useFoodRescueStore.getState().getDispositionsForDate('2024-06-03')).toHaveLength(1);
+    expect(queueOperation).toHaveBeenCalledWith('addFoodDisposition', {
+      row: expect.objectContaining({ disposition: 'redistributed', weight_lbs: 12.5, date_key: '2024-06-03' }),
+    });
+
+    await useFoodRescueStore.getState().deleteFoodDisposition(disposition.id);
+    expect(useFoodRescueStore.getState().foodDispositions).toHaveLength(0);
+    expect(queueOperation).toHaveBeenLastCalledWith('deleteFoodDisposition', { id: disposition.id });
+  });
+
+  it('requires a weight and a recipient for redistributed food', async () => {
+    const { addFoodDisposition } = useFoodRescueStore.getState();
+    await expect(addFoodDisposition({ kind: 'discarded', weightLbs: 0 })).rejects.toThrow('Weight');
+    await expect(addFoodDisposition({ kind: 'redistributed', weightLbs: 4, recipient: ' ' })).rejects.toThrow(
+      'Recipient'
+    );
+    expect(queueOperation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useFoodSafetyStore } from '../useFoodSafetyStore';
+import { useSettingsStore } from '../useSettingsStore';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({}),
+  isSupabaseEnabled: () => true,
+}));
+
+const queueOperation = vi.fn().mockResolvedValue({ success: true, queued: true, queueId: 1, message: '' });
+
+vi.mock('@/lib/utils/offlineQueueManager', () => ({
+  queueOperation: (...args: unknown[]) => queueOperation(...args),
+}));
+
+describe('useFoodSafetyStore', () => {
+  beforeEach(() => {
+    // Offline, so every write is queued rather than sent
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    queueOperation.mockClear();
+    useFoodSafetyStore.setState({ temperatureReadings: [] });
+    useSettingsStore.setState({
+      foodSafetyRanges: { hot: { minF: 140, maxF: null }, cold: { minF: null, maxF: 41 } },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('queues a reading with the range it was checked against', async () => {
+    const reading = await useFoodSafetyStore.getState().recordTemperature({
+      stage: 'intake',
+      holding: 'cold',
+      itemName: ' Milk ',
+      temperatureF: 38,
+      donationId: 'donation-1',
+    });
+
+    expect(reading).toMatchObject({ itemName: 'Milk', inRange: true, safeMaxF: 41, donationId: 'donation-1' });
+    expect(useFoodSafetyStore.getState().getReadingsForDate(reading.dateKey)).toHaveLength(1);
+    expect(queueOperation).toHaveBeenCalledWith('addTemperatureReading', {
+      row: expect.objectContaining({ holding: 'cold', temperature_f: 38, in_range: true, corrective_action: null }),
+    });
+  });
+
+  it('requires a corrective action when a reading is out of range', async () => {
+    await expect(
+      useFoodSafetyStore
+        .getState()
+        .recordTemperature({ stage: 'service', holding: 'hot', itemName: 'Stew', temperatureF: 138 })
+    ).rejects.toThrow('corrective action');
+    expect(queueOperation).not.toHaveBeenCalled();
+
+    const reading = await useFoodSafetyStore.getState().recordTemperature({
+      stage: 'service',
+      holding: 'hot',
+      itemName: 'Stew',
+      temperatureF: 138,
+      correctiveAction: 'Reheated to 165°F',
+    });
+    expect(reading).toMatchObject({ inRange: false, safeMinF: 140, correctiveAction: 'Reheated to 165°F' });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { useGuestsStore } from '../useGuestsStore';
 import { act } from '@testing-library/react';
+import type { Guest } from '@/lib/types';
 
 // Mock Supabase
 vi.mock('@/lib/supabase/client', () => ({
@@ -27,6 +28,10 @@ describe('useGuestsStore', () => {
       isLoading: false,
       error: null,
       lastFetched: null,
+      guestProxies: [],
+      guestHistory: [],
+      verificationLetters: [],
+      guestBans: [],
     });
   });
 
@@ -154,4 +159,157 @@ describe('useGuestsStore', () => {
       expect(guest).toBeUndefined();
     });
   });
+
+  describe('guest history', () => {
+    it('records each changed profile field with its old and new value', async () => {
+      const guest = await useGuestsStore.getState().addGuest(createTestGuestInput());
+
+      await useGuestsStore.getState().updateGuest(guest.id, {
+        housingStatus: 'Housed',
+        location: 'Mountain View',
+        notes: 'Moved in with family',
+      });
+
+      const history = useGuestsStore.getState().getGuestHistory(guest.id);
+      expect(history.map(({ field, oldValue, newValue }) => ({ field, oldValue, newValue }))).toEqual([
+        { field: 'housingStatus', oldValue: 'Unhoused', newValue: 'Housed' },
+        { field: 'notes', oldValue: null, newValue: 'Moved in with family' },
+      ]);
+      expect(await useGuestsStore.getState().fetchGuestHistory(guest.id)).toHaveLength(2);
+    });
+
+    it('does not record ban changes as profile history', async () => {
+      const guest = await useGuestsStore.getState().addGuest(createTestGuestInput());
+
+      await useGuestsStore.getState().updateGuest(guest.id, {
+        isBanned: true,
+        bannedAt: '2024-06-01T18:00:00.000Z',
+        banReason: 'Test',
+      });
+
+      expect(useGuestsStore.getState().getGuestHistory(guest.id)).toEqual([]);
+    });
+  });
+
+  describe('guest bans', () => {
+    it('keeps every warning, ban and lift while the latest ban or lift sets the current ban', async () => {
+      const guest = await useGuestsStore.getState().addGuest(createTestGuestInput());
+      const { issueGuestBan } = useGuestsStore.getState();
+
+      await issueGuestBan(guest.id, { action: 'warning', services: [], reason: 'First warning', endsAt: null });
+      expect(useGuestsStore.getState().guests[0].isBanned).toBe(false);
+
+      await issueGuestBan(guest.id, { action: 'ban', services: ['shower'], reason: 'Showers only', endsAt: null });
+      let current = useGuestsStore.getState().guests[0];
+      expect(current.isBanned).toBe(true);
+      expect(current.bannedServices).toEqual(['shower']);
+      expect(current.banReason).toBe('Showers only');
+
+      await issueGuestBan(guest.id, { action: 'lift', services: [], reason: '', endsAt: null });
+      current = useGuestsStore.getState().guests[0];
+      expect(current.isBanned).toBe(false);
+      expect(current.bannedServices).toEqual([]);
+
+      const actions = useGuestsStore.getState().guestBans.map((ban) => ban.action);
+      expect(actions).toEqual(['warning', 'ban', 'lift']);
+      expect(await useGuestsStore.getState().fetchGuestBans(guest.id)).toHaveLength(3);
+    });
+  });
+
+  describe('verification letters', () => {
+    const content = {
+      siteName: "Hope's Corner",
+      legalName: 'John Doe',
+      firstVisit: '2024-05-01',
+      lastVisit: '2024-05-06',
+      visitDays: 2,
+      counts: { meal: 2 },
+      issuedOn: '2024-06-01',
+      title: 'Service Verification Letter',
+      body: ['To whom it may concern,'],
+    };
+
+    it('logs each issued letter with its own serial number, newest first', async () => {
+      vi.useFakeTimers();
+      try {
+        const { issueVerificationLetter } = useGuestsStore.getState();
+        vi.setSystemTime(new Date('2024-06-01T18:00:00.000Z'));
+        const first = await issueVerificationLetter('guest-1', content);
+        vi.setSystemTime(new Date('2024-06-02T18:00:00.000Z'));
+        const second = await issueVerificationLetter('guest-1', content);
+        await issueVerificationLetter('guest-2', content);
+
+        expect(first.serialNumber).toMatch(/^VL-/);
+        expect(second.serialNumber).not.toBe(first.serialNumber);
+        expect(first.content).toEqual(content);
+
+        const letters = await useGuestsStore.getState().fetchVerificationLetters('guest-1');
+        expect(letters.map((letter) => letter.id)).toEqual([second.id, first.id]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('guest proxies', () => {
+    const makeGuest = (id: string): Guest => ({
+      id,
+      guestId: `G-${id}`,
+      firstName: id,
+      lastName: 'Test',
+      name: `${id} Test`,
+      preferredName: '',
+      housingStatus: 'Unhoused',
+      age: 'Adult 18-59',
+      gender: 'Unknown',
+      location: 'Mountain View',
+      notes: '',
+      bicycleDescription: '',
+      bannedAt: null,
+      bannedUntil: null,
+      banReason: '',
+      isBanned: false,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    beforeEach(() => {
+      useGuestsStore.setState({ guests: ['a', 'b', 'c', 'd', 'e'].map(makeGuest) });
+    });
+
+    it('links guests in both directions', async () => {
+      await useGuestsStore.getState().linkGuests('a', 'b');
+
+      const { getLinkedGuests } = useGuestsStore.getState();
+      expect(getLinkedGuests('a').map((g) => g.id)).toEqual(['b']);
+      expect(getLinkedGuests('b').map((g) => g.id)).toEqual(['a']);
+    });
+
+    it('rejects self links and duplicate links', async () => {
+      const { linkGuests } = useGuestsStore.getState();
+      await expect(linkGuests('a', 'a')).rejects.toThrow('cannot be linked to themselves');
+
+      await linkGuests('a', 'b');
+      await expect(linkGuests('b', 'a')).rejects.toThrow('already linked');
+    });
+
+    it('enforces the three-link limit on either guest', async () => {
+      const { linkGuests } = useGuestsStore.getState();
+      await linkGuests('a', 'b');
+      await linkGuests('a', 'c');
+      await linkGuests('a', 'd');
+
+      await expect(linkGuests('a', 'e')).rejects.toThrow('at most 3');
+      await expect(linkGuests('e', 'a')).rejects.toThrow('at most 3');
+      expect(useGuestsStore.getState().getLinkedGuests('e')).toEqual([]);
+    });
+
+    it('unlinks both directions', async () => {
+      const { linkGuests, unlinkGuests } = useGuestsStore.getState();
+      await linkGuests('a', 'b');
+      await unlinkGuests('b', 'a');
+
+      expect(useGuestsStore.getState().guestProxies).toEqual([]);
+    });
+  });
 });
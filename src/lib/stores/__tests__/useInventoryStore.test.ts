@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useInventoryStore } from '../useInventoryStore';
+import { useDonationsStore } from '../useDonationsStore';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({}),
+  isSupabaseEnabled: () => true,
+}));
+
+const queueOperation = vi.fn().mockResolvedValue({ success: true, queued: true, queueId: 1, message: '' });
+
+vi.mock('@/lib/utils/offlineQueueManager', () => ({
+  queueOperation: (...args: unknown[]) => queueOperation(...args),
+}));
+
+describe('useInventoryStore', () => {
+  beforeEach(() => {
+    // Offline, so every write is queued rather than sent
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    queueOperation.mockClear();
+    useInventoryStore.setState({
+      inventoryItems: [
+        {
+          id: 'item-1',
+          itemKey: 'tshirt',
+          name: 'T-shirt',
+          sizes: ['M', 'L'],
+          lowStockThreshold: 3,
+          active: true,
+        },
+      ],
+      stockLevels: [{ itemKey: 'tshirt', size: 'M', onHand: 4 }],
+    });
+    useDonationsStore.setState({ itemRecords: [] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('queues received stock and counts it straight away', async () => {
+    await useInventoryStore.getState().receiveStock({ itemKey: 'tshirt', size: 'L', quantity: 12, note: 'Drive' });
+
+    expect(useInventoryStore.getState().getStockOnHand('tshirt', 'L')).toBe(12);
+    expect(queueOperation).toHaveBeenCalledWith('addInventoryTransaction', {
+      row: expect.objectContaining({ item_key: 'tshirt', size: 'L', kind: 'receive', quantity: 12, note: 'Drive' }),
+    });
+  });
+
+  it('rejects stock changes for items outside the catalog', async () => {
+    await expect(
+      useInventoryStore.getState().adjustStock({ itemKey: 'tent', size: null, quantity: -1 })
+    ).rejects.toThrow('not in the inventory catalog');
+    expect(queueOperation).not.toHaveBeenCalled();
+  });
+
+  it('takes distributed items off the shelf and puts deleted ones back', async () => {
+    const record = await useDonationsStore.getState().addItem({ guestId: 'guest-1', item: 'tshirt', size: 'M' });
+
+    expect(useInventoryStore.getState().getStockOnHand('tshirt', 'M')).toBe(3);
+    expect(useInventoryStore.getState().getLowStock()).toEqual([
+      expect.objectContaining({ size: 'L', onHand: 0 }),
+      expect.objectContaining({ size: 'M', onHand: 3 }),
+    ]);
+
+    await useDonationsStore.getState().deleteItem(record.id);
+    expect(useInventoryStore.getState().getStockOnHand('tshirt', 'M')).toBe(4);
+  });
+});
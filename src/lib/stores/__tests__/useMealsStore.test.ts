@@ -1,9 +1,23 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { useMealsStore } from '../useMealsStore';
 
+type ChangeHandler = (payload: Record<string, unknown>) => void;
+const realtimeHandlers: Record<string, ChangeHandler> = {};
+
 // Mock Supabase client
 vi.mock('@/lib/supabase/client', () => ({
   createClient: () => ({
+    channel: () => {
+      const channel = {
+        on: (_type: string, filter: { table: string }, handler: ChangeHandler) => {
+          realtimeHandlers[filter.table] = handler;
+          return channel;
+        },
+        subscribe: () => channel,
+      };
+      return channel;
+    },
+    removeChannel: vi.fn(),
     from: (table: string) => ({
       select: vi.fn().mockReturnValue({
         order: vi.fn().mockResolvedValue({ data: [], error: null }),
@@ -64,6 +78,12 @@ vi.mock('@/lib/supabase/client', () => ({
   isSupabaseEnabled: () => true,
 }));
 
+const queueOperation = vi.fn().mockResolvedValue({ success: true, queued: true, queueId: 1, message: '' });
+
+vi.mock('@/lib/utils/offlineQueueManager', () => ({
+  queueOperation: (...args: unknown[]) => queueOperation(...args),
+}));
+
 describe('useMealsStore', () => {
   beforeEach(() => {
     // Reset store state before each test
@@ -129,6 +149,32 @@ describe('useMealsStore', () => {
     });
   });
 
+  describe('pick-ups on behalf', () => {
+    beforeEach(() => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      queueOperation.mockClear();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('counts only the meals a linked guest collected', async () => {
+      const { addMealRecord } = useMealsStore.getState();
+
+      await addMealRecord('guest-9', 1);
+      await addMealRecord('guest-9', 2, 'guest-8');
+
+      const [record] = useMealsStore.getState().mealRecords;
+      expect(record.count).toBe(3);
+      expect(record.pickedUpBy).toBe('guest-8');
+      expect(record.pickedUpCount).toBe(2);
+      expect(queueOperation).toHaveBeenCalledWith('addMealRecord', {
+        row: expect.objectContaining({ quantity: 2, picked_up_by_guest_id: 'guest-8', picked_up_quantity: 2 }),
+      });
+    });
+  });
+
   describe('holiday records', () => {
     it('should add a holiday record', async () => {
       // Mock insert for holiday
@@ -152,6 +198,67 @@ describe('useMealsStore', () => {
     });
   });
 
+  describe('realtime sync', () => {
+    const mealRow = (overrides: Record<string, unknown> = {}) => ({
+      id: 'meal-remote',
+      guest_id: 'guest-1',
+      quantity: 1,
+      served_on: '2024-01-15',
+      meal_type: 'guest',
+      recorded_at: '2024-01-15T12:00:00.000Z',
+      created_at: '2024-01-15T12:00:00.000Z',
+      updated_at: '2024-01-15T12:00:00.000Z',
+      ...overrides,
+    });
+
+    const emit = (eventType: string, row: Record<string, unknown>) => {
+      realtimeHandlers.meal_attendance({
+        table: 'meal_attendance',
+        eventType,
+        new: eventType === 'DELETE' ? {} : row,
+        old: eventType === 'DELETE' ? { id: row.id } : {},
+      });
+    };
+
+    it('merges check-ins from other devices by id', () => {
+      const unsubscribe = useMealsStore.getState().subscribeToRealtime();
+
+      emit('INSERT', mealRow());
+      emit('UPDATE', mealRow({ quantity: 2 }));
+
+      const { mealRecords } = useMealsStore.getState();
+      expect(mealRecords).toHaveLength(1);
+      expect(mealRecords[0].count).toBe(2);
+      unsubscribe();
+    });
+
+    it('moves a row when its meal type changes and removes deletes', () => {
+      const unsubscribe = useMealsStore.getState().subscribeToRealtime();
+
+      emit('INSERT', mealRow());
+      emit('UPDATE', mealRow({ meal_type: 'extra' }));
+
+      expect(useMealsStore.getState().mealRecords).toHaveLength(0);
+      expect(useMealsStore.getState().extraMealRecords).toHaveLength(1);
+
+      emit('DELETE', mealRow());
+      expect(useMealsStore.getState().extraMealRecords).toHaveLength(0);
+      unsubscribe();
+    });
+
+    it('keeps meal types added by admins in the program list', () => {
+      useMealsStore.setState({ programMealRecords: [] });
+      const unsubscribe = useMealsStore.getState().subscribeToRealtime();
+
+      emit('INSERT', mealRow({ guest_id: null, meal_type: 'senior_center', quantity: 12 }));
+
+      const { programMealRecords, getMealsByType } = useMealsStore.getState();
+      expect(programMealRecords).toHaveLength(1);
+      expect(getMealsByType('senior_center')[0].count).toBe(12);
+      unsubscribe();
+    });
+  });
+
   describe('selectors', () => {
     it('should get meals for today', () => {
       const today = new Date().toISOString().split('T')[0];
@@ -1,10 +1,27 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { useServicesStore } from '../useServicesStore';
-import type { ShowerStatus, LaundryStatus, BicycleRepairStatus } from '@/lib/types';
+import { useSettingsStore, DEFAULT_SHOWER_SLOTS } from '../useSettingsStore';
+import { DEFAULT_ELIGIBILITY_RULES, EligibilityError } from '@/lib/utils/eligibility';
+import type { ShowerStatus, LaundryStatus, LaundryRecord, BicycleRepairStatus } from '@/lib/types';
+
+type ChangeHandler = (payload: Record<string, unknown>) => void;
+const realtimeHandlers: Record<string, ChangeHandler> = {};
+const removeChannel = vi.fn();
 
 // Mock Supabase client
 vi.mock('@/lib/supabase/client', () => ({
   createClient: () => ({
+    channel: () => {
+      const channel = {
+        on: (_type: string, filter: { table: string }, handler: ChangeHandler) => {
+          realtimeHandlers[filter.table] = handler;
+          return channel;
+        },
+        subscribe: () => channel,
+      };
+      return channel;
+    },
+    removeChannel: (...args: unknown[]) => removeChannel(...args),
     from: () => ({
       select: vi.fn().mockReturnValue({
         order: vi.fn().mockResolvedValue({ data: [], error: null }),
@@ -35,6 +52,12 @@ vi.mock('@/lib/supabase/client', () => ({
   isSupabaseEnabled: () => true,
 }));
 
+const queueOperation = vi.fn().mockResolvedValue({ success: true, queued: true, queueId: 1, message: '' });
+
+vi.mock('@/lib/utils/offlineQueueManager', () => ({
+  queueOperation: (...args: unknown[]) => queueOperation(...args),
+}));
+
 describe('useServicesStore', () => {
   beforeEach(() => {
     // Reset store state before each test
@@ -180,6 +203,390 @@ describe('useServicesStore', () => {
     });
   });
 
+  describe('offline queuing', () => {
+    beforeEach(() => {
+      queueOperation.mockClear();
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('queues a shower booking with a client id that matches the local record', async () => {
+      const record = await useServicesStore.getState().addShowerRecord('guest-1', '08:00');
+
+      expect(useServicesStore.getState().showerRecords).toEqual([record]);
+      expect(queueOperation).toHaveBeenCalledWith('addShowerRecord', {
+        row: expect.objectContaining({
+          id: record.id,
+          guest_id: 'guest-1',
+          scheduled_time: '08:00',
+          status: 'booked',
+        }),
+      });
+    });
+
+    it('queues laundry status changes instead of calling Supabase', async () => {
+      const record = await useServicesStore.getState().addLaundryRecord('guest-1', 'onsite');
+      queueOperation.mockClear();
+
+      await useServicesStore.getState().updateLaundryStatus(record.id, 'washer');
+
+      expect(useServicesStore.getState().laundryRecords[0].status).toBe('washer');
+      expect(queueOperation).toHaveBeenCalledWith('updateLaundryStatus', {
+        id: record.id,
+        changes: { status: 'washer' },
+        original: { status: 'waiting' },
+      });
+    });
+
+    it('queues deletes', async () => {
+      const record = await useServicesStore.getState().addBicycleRecord('guest-1');
+      queueOperation.mockClear();
+
+      await useServicesStore.getState().deleteBicycleRecord(record.id);
+
+      expect(useServicesStore.getState().bicycleRecords).toHaveLength(0);
+      expect(queueOperation).toHaveBeenCalledWith('deleteBicycleRecord', { id: record.id });
+    });
+  });
+
+  describe('shower slot capacity', () => {
+    const TODAY = '2025-01-15';
+    const bookedAt = (id: string, time: string) => ({
+      id,
+      guestId: `guest-${id}`,
+      time,
+      scheduledFor: TODAY,
+      date: TODAY,
+      status: 'booked' as ShowerStatus,
+      createdAt: `${TODAY}T16:00:00.000Z`,
+      lastUpdated: `${TODAY}T16:00:00.000Z`,
+    });
+
+    beforeEach(() => {
+      // 09:00 Pacific on a Wednesday
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-15T17:00:00Z'));
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      queueOperation.mockClear();
+      useSettingsStore.setState({
+        showerSlots: { ...DEFAULT_SHOWER_SLOTS, stallCount: 1, slotMinutes: 30, startTime: '08:00', endTime: '10:00' },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      useSettingsStore.setState({ showerSlots: { ...DEFAULT_SHOWER_SLOTS } });
+    });
+
+    it('rejects a booking for a slot whose stalls are all taken', async () => {
+      useServicesStore.setState({ showerRecords: [bookedAt('1', '08:00')] });
+
+      await expect(useServicesStore.getState().addShowerRecord('guest-2', '08:00')).rejects.toThrow(/full/);
+      expect(useServicesStore.getState().showerRecords).toHaveLength(1);
+      expect(queueOperation).not.toHaveBeenCalled();
+    });
+
+    it('rejects times that are not on the grid', async () => {
+      await expect(useServicesStore.getState().addShowerRecord('guest-2', '08:15')).rejects.toThrow(
+        'not a shower slot'
+      );
+    });
+
+    it('rejects bookings on blackout days', async () => {
+      useSettingsStore.setState({
+        showerSlots: { ...useSettingsStore.getState().showerSlots, blackoutDates: [TODAY] },
+      });
+
+      await expect(useServicesStore.getState().addShowerRecord('guest-2')).rejects.toThrow(
+        'Showers are closed today'
+      );
+    });
+
+    it('assigns the next open slot that has not finished yet', async () => {
+      useServicesStore.setState({ showerRecords: [bookedAt('1', '09:00')] });
+
+      const record = await useServicesStore.getState().addShowerRecord('guest-2');
+
+      expect(record).toMatchObject({ time: '09:30', status: 'booked' });
+      expect(queueOperation).toHaveBeenCalledWith('addShowerRecord', {
+        row: expect.objectContaining({ scheduled_time: '09:30', status: 'booked' }),
+      });
+    });
+
+    it('waitlists the guest once every remaining slot is full', async () => {
+      useServicesStore.setState({ showerRecords: [bookedAt('1', '09:00'), bookedAt('2', '09:30')] });
+
+      const record = await useServicesStore.getState().addShowerRecord('guest-3');
+
+      expect(record).toMatchObject({ time: null, status: 'waitlisted' });
+      expect(queueOperation).toHaveBeenCalledWith('addShowerRecord', {
+        row: expect.not.objectContaining({ scheduled_time: expect.anything() }),
+      });
+    });
+  });
+
+  describe('eligibility rules', () => {
+    const TODAY = '2025-01-15';
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-15T17:00:00Z'));
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      queueOperation.mockClear();
+      useServicesStore.setState({
+        showerRecords: [
+          {
+            id: 'yesterday',
+            guestId: 'guest-1',
+            time: '08:00',
+            scheduledFor: '2025-01-14',
+            date: '2025-01-14',
+            status: 'done',
+            createdAt: '2025-01-14T16:00:00.000Z',
+            lastUpdated: '2025-01-14T16:00:00.000Z',
+          },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('blocks a shower inside the rule period', async () => {
+      await expect(useServicesStore.getState().addShowerRecord('guest-1')).rejects.toThrow(EligibilityError);
+      expect(useServicesStore.getState().showerRecords).toHaveLength(1);
+      expect(queueOperation).not.toHaveBeenCalled();
+    });
+
+    it('records the shower with an override and logs the reason', async () => {
+      const record = await useServicesStore
+        .getState()
+        .addShowerRecord('guest-1', undefined, { reason: 'Job interview today' });
+
+      expect(record.date).toBe(TODAY);
+      expect(queueOperation).toHaveBeenCalledWith('addEligibilityOverride', {
+        row: expect.objectContaining({
+          guest_id: 'guest-1',
+          service: 'shower',
+          service_date: TODAY,
+          reason: 'Job interview today',
+          rules: [{ id: 'shower-2-days', description: '1 shower per 2 days', used: 1 }],
+        }),
+      });
+    });
+
+    it('ignores cancelled showers and disabled rules', async () => {
+      useServicesStore.setState((state) => {
+        state.showerRecords[0].status = 'cancelled';
+      });
+      await expect(useServicesStore.getState().addShowerRecord('guest-1')).resolves.toBeDefined();
+
+      useSettingsStore.setState({
+        eligibilityRules: DEFAULT_ELIGIBILITY_RULES.map((rule) => ({ ...rule, enabled: false })),
+      });
+      await expect(useServicesStore.getState().addShowerRecord('guest-1')).resolves.toBeDefined();
+      useSettingsStore.setState({ eligibilityRules: DEFAULT_ELIGIBILITY_RULES });
+      expect(queueOperation).not.toHaveBeenCalledWith('addEligibilityOverride', expect.anything());
+    });
+  });
+
+  describe('waitlist promotion', () => {
+    const TODAY = '2025-01-15';
+    const shower = (id: string, status: ShowerStatus, time: string | null) => ({
+      id,
+      guestId: `guest-${id}`,
+      time,
+      scheduledFor: TODAY,
+      date: TODAY,
+      status,
+      createdAt: `${TODAY}T16:00:0${id}.000Z`,
+      lastUpdated: `${TODAY}T16:00:00.000Z`,
+    });
+    const laundry = (id: string, status: LaundryStatus) => ({
+      id,
+      guestId: `guest-${id}`,
+      time: null,
+      laundryType: 'onsite' as const,
+      bagNumber: id,
+      scheduledFor: TODAY,
+      date: TODAY,
+      status,
+      createdAt: `${TODAY}T16:00:0${id}.000Z`,
+      lastUpdated: `${TODAY}T16:00:00.000Z`,
+    });
+
+    beforeEach(() => {
+      // 08:10 Pacific
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-15T16:10:00Z'));
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      queueOperation.mockClear();
+      useServicesStore.setState({ waitlistPromotions: [] });
+      useSettingsStore.setState({
+        showerSlots: { ...DEFAULT_SHOWER_SLOTS, stallCount: 1, slotMinutes: 30, startTime: '08:00', endTime: '10:00' },
+        maxOnsiteLaundrySlots: 1,
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      useSettingsStore.setState({ showerSlots: { ...DEFAULT_SHOWER_SLOTS }, maxOnsiteLaundrySlots: 5 });
+    });
+
+    it('moves the first waitlisted guest into a cancelled shower slot', async () => {
+      useServicesStore.setState({
+        showerRecords: [
+          shower('1', 'booked', '08:30'),
+          shower('2', 'booked', '08:00'),
+          shower('4', 'waitlisted', null),
+          shower('3', 'waitlisted', null),
+        ],
+      });
+
+      await useServicesStore.getState().updateShowerStatus('1', 'cancelled');
+
+      const records = useServicesStore.getState().showerRecords;
+      expect(records.find((r) => r.id === '3')).toMatchObject({ status: 'booked', time: '08:30' });
+      expect(records.find((r) => r.id === '4')?.status).toBe('waitlisted');
+      expect(queueOperation).toHaveBeenCalledWith('updateShowerStatus', {
+        id: '3',
+        changes: { status: 'booked', scheduled_time: '08:30' },
+      });
+
+      const [promotion] = useServicesStore.getState().waitlistPromotions;
+      expect(promotion).toMatchObject({
+        service: 'shower',
+        recordId: '3',
+        guestId: 'guest-3',
+        freedRecordId: '1',
+        slotTime: '08:30',
+        calledAt: null,
+      });
+      expect(queueOperation).toHaveBeenCalledWith('addWaitlistPromotion', {
+        row: expect.objectContaining({ id: promotion.id, service: 'shower', record_id: '3', slot_time: '08:30' }),
+      });
+    });
+
+    it('promotes when a booked shower is marked no-show or deleted', async () => {
+      useServicesStore.setState({
+        showerRecords: [shower('1', 'booked', '08:00'), shower('2', 'booked', '08:30'), shower('3', 'waitlisted', null), shower('4', 'waitlisted', null)],
+      });
+
+      await useServicesStore.getState().updateShowerStatus('1', 'no_show');
+      await useServicesStore.getState().deleteShowerRecord('2');
+
+      expect(useServicesStore.getState().waitlistPromotions.map((p) => p.recordId)).toEqual(['4', '3']);
+    });
+
+    it('does not promote when a shower is completed', async () => {
+      useServicesStore.setState({ showerRecords: [shower('1', 'booked', '08:00'), shower('2', 'waitlisted', null)] });
+
+      await useServicesStore.getState().updateShowerStatus('1', 'done');
+
+      expect(useServicesStore.getState().showerRecords[1].status).toBe('waitlisted');
+      expect(useServicesStore.getState().waitlistPromotions).toEqual([]);
+    });
+
+    it('starts the next waiting onsite load when a machine frees up', async () => {
+      useServicesStore.setState({ laundryRecords: [laundry('1', 'dryer'), laundry('3', 'waiting'), laundry('2', 'waiting')] });
+
+      await useServicesStore.getState().updateLaundryStatus('1', 'done');
+
+      const records = useServicesStore.getState().laundryRecords;
+      expect(records.find((r) => r.id === '2')?.status).toBe('washer');
+      expect(records.find((r) => r.id === '3')?.status).toBe('waiting');
+      expect(useServicesStore.getState().waitlistPromotions[0]).toMatchObject({
+        service: 'laundry',
+        recordId: '2',
+        slotTime: null,
+      });
+    });
+
+    it('records when a promoted guest has been called', async () => {
+      useServicesStore.setState({ showerRecords: [shower('1', 'booked', '08:00'), shower('2', 'waitlisted', null)] });
+      await useServicesStore.getState().updateShowerStatus('1', 'cancelled');
+      const [promotion] = useServicesStore.getState().waitlistPromotions;
+
+      await useServicesStore.getState().markPromotionCalled(promotion.id);
+
+      expect(useServicesStore.getState().waitlistPromotions[0].calledAt).toBe('2025-01-15T16:10:00.000Z');
+      expect(queueOperation).toHaveBeenCalledWith('updateWaitlistPromotion', {
+        id: promotion.id,
+        changes: { called_at: '2025-01-15T16:10:00.000Z' },
+      });
+    });
+  });
+
+  describe('realtime sync', () => {
+    const emit = (table: string, eventType: string, row: Record<string, unknown>) => {
+      realtimeHandlers[table]({
+        table,
+        eventType,
+        new: eventType === 'DELETE' ? {} : row,
+        old: eventType === 'DELETE' ? { id: row.id } : {},
+      });
+    };
+
+    it('subscribes to every service table and unsubscribes cleanly', () => {
+      const unsubscribe = useServicesStore.getState().subscribeToRealtime();
+
+      expect(Object.keys(realtimeHandlers)).toEqual(
+        expect.arrayContaining(['shower_reservations', 'laundry_bookings', 'bicycle_repairs'])
+      );
+
+      unsubscribe();
+      expect(removeChannel).toHaveBeenCalledTimes(1);
+    });
+
+    it('merges inserts and updates from other devices without duplicating', () => {
+      const unsubscribe = useServicesStore.getState().subscribeToRealtime();
+      const row = {
+        id: 'shower-remote',
+        guest_id: 'guest-1',
+        scheduled_for: '2024-01-15',
+        scheduled_time: '08:00',
+        status: 'booked',
+        created_at: '2024-01-15T08:00:00.000Z',
+        updated_at: '2024-01-15T08:00:00.000Z',
+      };
+
+      emit('shower_reservations', 'INSERT', row);
+      emit('shower_reservations', 'INSERT', row);
+      emit('shower_reservations', 'UPDATE', { ...row, status: 'done' });
+
+      const showers = useServicesStore.getState().showerRecords;
+      expect(showers).toHaveLength(1);
+      expect(showers[0]).toMatchObject({ id: 'shower-remote', status: 'done' });
+      unsubscribe();
+    });
+
+    it('removes rows deleted on another device', () => {
+      const unsubscribe = useServicesStore.getState().subscribeToRealtime();
+
+      emit('laundry_bookings', 'INSERT', {
+        id: 'laundry-remote',
+        guest_id: 'guest-1',
+        laundry_type: 'onsite',
+        status: 'waiting',
+        scheduled_for: '2024-01-15',
+        created_at: '2024-01-15T08:00:00.000Z',
+        updated_at: '2024-01-15T08:00:00.000Z',
+      });
+      expect(useServicesStore.getState().laundryRecords).toHaveLength(1);
+
+      emit('laundry_bookings', 'DELETE', { id: 'laundry-remote' });
+      expect(useServicesStore.getState().laundryRecords).toHaveLength(0);
+      unsubscribe();
+    });
+  });
+
   describe('selectors', () => {
     it('should get today showers', () => {
       const today = new Date().toISOString().split('T')[0];
@@ -209,6 +616,51 @@ describe('useServicesStore', () => {
       expect(getTodayLaundry().length).toBeGreaterThanOrEqual(0);
     });
 
+    it('keeps offsite laundry carried over by a day close-out until it is picked up', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-16T20:00:00.000Z'));
+      const offsite = (id: string, date: string, overrides: Partial<LaundryRecord> = {}): LaundryRecord => ({
+        id,
+        guestId: `guest-${id}`,
+        status: 'transported',
+        date: `${date}T20:00:00.000Z`,
+        scheduledFor: date,
+        time: null,
+        laundryType: 'offsite',
+        bagNumber: id,
+        createdAt: `${date}T16:00:00.000Z`,
+        lastUpdated: `${date}T16:00:00.000Z`,
+        ...overrides,
+      });
+      useServicesStore.setState({
+        laundryRecords: [
+          offsite('today', '2024-01-16'),
+          offsite('carried', '2024-01-15', { closeoutFlag: 'carried_over' }),
+          offsite('collected', '2024-01-15', { closeoutFlag: 'carried_over', status: 'offsite_picked_up' }),
+          offsite('old', '2024-01-15'),
+        ],
+      });
+
+      const ids = useServicesStore.getState().getTodayOffsiteLaundry().map((r) => r.id);
+      expect(ids).toEqual(['today', 'carried']);
+      vi.useRealTimers();
+    });
+
+    it('maps the close-out flag from server rows', () => {
+      useServicesStore.getState().mergeServerRow('laundry_bookings', {
+        id: 'laundry-flagged',
+        guest_id: 'guest-1',
+        laundry_type: 'onsite',
+        status: 'done',
+        closeout_flag: 'unclaimed',
+        scheduled_for: '2024-01-15',
+        created_at: '2024-01-15T08:00:00.000Z',
+        updated_at: '2024-01-15T08:00:00.000Z',
+      });
+
+      expect(useServicesStore.getState().laundryRecords[0].closeoutFlag).toBe('unclaimed');
+    });
+
     it('should filter bicycle repairs by status', () => {
       const statusPending: BicycleRepairStatus = 'pending';
       const statusDone: BicycleRepairStatus = 'done';
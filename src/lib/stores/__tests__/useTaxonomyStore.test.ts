@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useTaxonomyStore } from '../useTaxonomyStore';
+import { DEFAULT_TAXONOMY_VALUES } from '@/lib/utils/taxonomies';
+
+const supabaseEnabled = vi.fn(() => false);
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({}),
+  isSupabaseEnabled: () => supabaseEnabled(),
+}));
+
+describe('useTaxonomyStore', () => {
+  beforeEach(() => {
+    supabaseEnabled.mockReturnValue(false);
+    useTaxonomyStore.setState({ taxonomyValues: DEFAULT_TAXONOMY_VALUES.map((entry) => ({ ...entry })) });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds a value keyed from its label and rejects duplicates', async () => {
+    const { saveTaxonomyValue } = useTaxonomyStore.getState();
+    const saved = await saveTaxonomyValue({ taxonomy: 'meal_type', label: 'Senior Center', sortOrder: 80, active: true });
+
+    expect(saved.value).toBe('senior_center');
+    expect(useTaxonomyStore.getState().getTaxonomyLabel('meal_type', 'senior_center')).toBe('Senior Center');
+    await expect(
+      saveTaxonomyValue({ taxonomy: 'meal_type', label: 'senior center', sortOrder: 90, active: true })
+    ).rejects.toThrow('already in the list');
+  });
+
+  it('retires a value without removing it', async () => {
+    await useTaxonomyStore
+      .getState()
+      .saveTaxonomyValue({ taxonomy: 'donation_type', value: 'Pastries', label: 'Pastries', sortOrder: 70, active: false });
+
+    const { getTaxonomyOptions, getTaxonomyValues } = useTaxonomyStore.getState();
+    expect(getTaxonomyOptions('donation_type').map((entry) => entry.value)).not.toContain('Pastries');
+    expect(getTaxonomyValues('donation_type').map((entry) => entry.value)).toContain('Pastries');
+  });
+
+  it('only saves while online', async () => {
+    supabaseEnabled.mockReturnValue(true);
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    await expect(
+      useTaxonomyStore
+        .getState()
+        .saveTaxonomyValue({ taxonomy: 'la_plaza_category', label: 'Frozen', sortOrder: 90, active: true })
+    ).rejects.toThrow('only be changed while online');
+    expect(useTaxonomyStore.getState().getTaxonomyValues('la_plaza_category')).toHaveLength(8);
+  });
+});
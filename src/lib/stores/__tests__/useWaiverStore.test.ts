@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useWaiverStore } from '../useWaiverStore';
+import { DEFAULT_WAIVER_TEMPLATES, buildWaiverDocument } from '@/lib/utils/waivers';
+
+const [servicesV1, bicycleV1] = DEFAULT_WAIVER_TEMPLATES;
+
+const rpcResults: Record<string, { data: unknown; error: unknown }> = {};
+const rpc = vi.fn((fn: string, params: { p_service_type?: string }) =>
+  Promise.resolve(rpcResults[`${fn}:${params.p_service_type}`] ?? rpcResults[fn] ?? { data: null, error: null })
+);
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    rpc: (fn: string, params: { p_service_type?: string }) => rpc(fn, params),
+  }),
+  isSupabaseEnabled: () => true,
+}));
+
+const queueOperation = vi.fn().mockResolvedValue({ success: true, queued: true, queueId: 1, message: '' });
+
+vi.mock('@/lib/utils/offlineQueueManager', () => ({
+  queueOperation: (...args: unknown[]) => queueOperation(...args),
+}));
+
+describe('useWaiverStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-15T20:00:00.000Z'));
+    useWaiverStore.setState({ templates: DEFAULT_WAIVER_TEMPLATES, waivers: [], reminders: {} });
+    rpc.mockClear();
+    queueOperation.mockClear();
+    for (const key of Object.keys(rpcResults)) delete rpcResults[key];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('signWaiver', () => {
+    it('signs the shared services waiver for both shower and laundry', async () => {
+      await useWaiverStore.getState().signWaiver('guest-1', 'shower');
+
+      expect(rpc.mock.calls.map(([fn, params]) => [fn, params])).toEqual([
+        ['dismiss_waiver', { p_guest_id: 'guest-1', p_service_type: 'shower', p_dismissed_reason: 'signed_by_staff' }],
+        ['dismiss_waiver', { p_guest_id: 'guest-1', p_service_type: 'laundry', p_dismissed_reason: 'shared_waiver' }],
+      ]);
+
+      const store = useWaiverStore.getState();
+      expect(store.hasSignedWaiver('guest-1', 'laundry')).toBe(true);
+      expect(store.hasSignedWaiver('guest-1', 'bicycle')).toBe(false);
+    });
+
+    it('records the version that was signed', async () => {
+      await useWaiverStore.getState().signWaiver('guest-1', 'laundry');
+
+      expect(useWaiverStore.getState().waivers.map((w) => w.templateId)).toEqual([servicesV1.id, servicesV1.id]);
+    });
+
+    it('keeps the bicycle waiver separate', async () => {
+      await useWaiverStore.getState().signWaiver('guest-1', 'bicycle');
+
+      expect(rpc).toHaveBeenCalledTimes(1);
+      const store = useWaiverStore.getState();
+      expect(store.hasSignedWaiver('guest-1', 'bicycle')).toBe(true);
+      expect(store.hasSignedWaiver('guest-1', 'shower')).toBe(false);
+    });
+
+    it('queues the signature while offline and keeps it locally', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      await useWaiverStore.getState().signWaiver('guest-1', 'laundry');
+
+      expect(rpc).not.toHaveBeenCalled();
+      expect(queueOperation.mock.calls).toEqual([
+        ['dismissWaiver', { guestId: 'guest-1', serviceType: 'shower', reason: 'shared_waiver' }],
+        ['dismissWaiver', { guestId: 'guest-1', serviceType: 'laundry', reason: 'signed_by_staff' }],
+      ]);
+      expect(useWaiverStore.getState().hasSignedWaiver('guest-1', 'shower')).toBe(true);
+    });
+
+    it('stores an on-screen signature with its document against the signed service', async () => {
+      const document = buildWaiverDocument({
+        template: servicesV1,
+        language: 'es',
+        guestId: 'guest-1',
+        guestName: 'Ana Test',
+        signerName: '',
+      });
+
+      await useWaiverStore
+        .getState()
+        .signWaiver('guest-1', 'laundry', undefined, { document, signatureImage: 'data:image/png;base64,AAA' });
+
+      const [first, second] = rpc.mock.calls;
+      expect(first).toEqual([
+        'dismiss_waiver',
+        { p_guest_id: 'guest-1', p_service_type: 'shower', p_dismissed_reason: 'shared_waiver' },
+      ]);
+      expect(second[0]).toBe('sign_waiver');
+      expect(second[1]).toMatchObject({
+        p_guest_id: 'guest-1',
+        p_service_type: 'laundry',
+        p_document: document,
+        p_signature_image: 'data:image/png;base64,AAA',
+      });
+      expect(useWaiverStore.getState().hasSignedWaiver('guest-1', 'shower')).toBe(true);
+    });
+
+    it('queues an on-screen signature with a stable document id while offline', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const document = buildWaiverDocument({
+        template: bicycleV1,
+        language: 'en',
+        guestId: 'guest-1',
+        guestName: 'Ana Test',
+        signerName: 'Ana',
+      });
+
+      await useWaiverStore
+        .getState()
+        .signWaiver('guest-1', 'bicycle', undefined, { document, signatureImage: 'data:image/png;base64,AAA' });
+
+      expect(queueOperation).toHaveBeenCalledTimes(1);
+      const [type, payload] = queueOperation.mock.calls[0] as [string, Record<string, unknown>];
+      expect(type).toBe('signWaiverDocument');
+      expect(payload).toMatchObject({ guestId: 'guest-1', serviceType: 'bicycle', document });
+      expect(payload.documentId).toEqual(expect.any(String));
+      expect(useWaiverStore.getState().getSignedWaiver('guest-1', 'bicycle')?.dismissedReason).toBe(
+        'signed_digitally'
+      );
+    });
+
+    it('reverts the local signature when Supabase rejects it', async () => {
+      rpcResults.dismiss_waiver = { data: null, error: { message: 'denied' } };
+
+      await expect(useWaiverStore.getState().signWaiver('guest-1', 'shower')).rejects.toThrow(
+        'Unable to save waiver signature'
+      );
+      expect(useWaiverStore.getState().waivers).toEqual([]);
+    });
+  });
+
+  describe('reminders', () => {
+    it('asks Supabase about every service the waiver covers', async () => {
+      rpcResults['guest_needs_waiver_reminder:laundry'] = { data: true, error: null };
+
+      const needs = await useWaiverStore.getState().checkWaiverReminder('guest-1', 'shower');
+
+      expect(needs).toBe(true);
+      expect(useWaiverStore.getState().needsWaiverReminder('guest-1', 'laundry')).toBe(true);
+      expect(rpc.mock.calls.map(([fn, params]) => `${fn}:${params.p_service_type}`).sort()).toEqual([
+        'guest_needs_waiver_reminder:laundry',
+        'guest_needs_waiver_reminder:shower',
+        'has_active_waiver:laundry',
+        'has_active_waiver:shower',
+      ]);
+    });
+
+    it('does not remind when either service already has an active waiver', async () => {
+      rpcResults['guest_needs_waiver_reminder:shower'] = { data: true, error: null };
+      rpcResults['has_active_waiver:laundry'] = { data: true, error: null };
+
+      expect(await useWaiverStore.getState().checkWaiverReminder('guest-1', 'shower')).toBe(false);
+    });
+
+    it('answers from a signature made this year without calling Supabase', async () => {
+      useWaiverStore.setState({
+        waivers: [
+          {
+            id: 'w-1',
+            guestId: 'guest-1',
+            serviceType: 'laundry',
+            templateId: servicesV1.id,
+            signedAt: '2024-02-01T18:00:00.000Z',
+            dismissedAt: '2024-02-01T18:00:00.000Z',
+            dismissedReason: 'signed_by_staff',
+            createdAt: '2024-02-01T18:00:00.000Z',
+          },
+        ],
+      });
+
+      expect(await useWaiverStore.getState().checkWaiverReminder('guest-1', 'shower')).toBe(false);
+      expect(rpc).not.toHaveBeenCalled();
+    });
+
+    it('asks a guest who signed an older version to sign the current one', async () => {
+      const servicesV2 = { ...servicesV1, id: 'services-2', version: 2 };
+      useWaiverStore.setState({
+        templates: [servicesV1, servicesV2, bicycleV1],
+        waivers: [
+          {
+            id: 'w-1',
+            guestId: 'guest-1',
+            serviceType: 'shower',
+            templateId: servicesV1.id,
+            signedAt: '2024-02-01T18:00:00.000Z',
+            dismissedAt: '2024-02-01T18:00:00.000Z',
+            dismissedReason: 'signed_by_staff',
+            createdAt: '2024-02-01T18:00:00.000Z',
+          },
+        ],
+      });
+      rpcResults['guest_needs_waiver_reminder:shower'] = { data: true, error: null };
+
+      const store = useWaiverStore.getState();
+      expect(store.hasSignedWaiver('guest-1', 'laundry')).toBe(false);
+      expect(store.getWaiverStatus('guest-1', 'laundry')).toMatchObject({ status: 'outdated', signedVersion: 1 });
+      expect(await store.checkWaiverReminder('guest-1', 'laundry')).toBe(true);
+
+      await useWaiverStore.getState().signWaiver('guest-1', 'laundry');
+      expect(useWaiverStore.getState().getWaiverStatus('guest-1', 'shower').status).toBe('valid');
+    });
+
+    it('treats a signature from last year as expired', () => {
+      useWaiverStore.setState({
+        waivers: [
+          {
+            id: 'w-1',
+            guestId: 'guest-1',
+            serviceType: 'shower',
+            templateId: servicesV1.id,
+            signedAt: '2023-12-20T18:00:00.000Z',
+            dismissedAt: '2023-12-20T18:00:00.000Z',
+            dismissedReason: 'signed_by_staff',
+            createdAt: '2023-12-20T18:00:00.000Z',
+          },
+        ],
+      });
+
+      expect(useWaiverStore.getState().hasSignedWaiver('guest-1', 'shower')).toBe(false);
+    });
+  });
+});
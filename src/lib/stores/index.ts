@@ -3,7 +3,12 @@ export { useGuestsStore } from './useGuestsStore';
 export { useMealsStore } from './useMealsStore';
 export { useServicesStore } from './useServicesStore';
 export { useDonationsStore } from './useDonationsStore';
-export { useSettingsStore, DEFAULT_TARGETS, createDefaultSettings } from './useSettingsStore';
+export { useWaiverStore } from './useWaiverStore';
+export { useInventoryStore } from './useInventoryStore';
+export { useFoodSafetyStore } from './useFoodSafetyStore';
+export { useFoodRescueStore } from './useFoodRescueStore';
+export { useTaxonomyStore } from './useTaxonomyStore';
+export { useSettingsStore, DEFAULT_TARGETS, DEFAULT_SHOWER_SLOTS, createDefaultSettings } from './useSettingsStore';
 
 // Re-export store types
 export type { Guest, MealRecord, HolidayRecord, HaircutRecord } from '@/lib/types';
@@ -15,4 +20,7 @@ export type {
   LaPlazaDonation,
   AppSettings,
   ServiceTargets,
+  ShowerSlotSettings,
+  ServiceWaiver,
+  WaiverService,
 } from '@/lib/types';
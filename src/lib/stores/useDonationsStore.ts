@@ -3,7 +3,27 @@ import { persist, devtools } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
-import type { Donation, LaPlazaDonation, DonationType, LaPlazaCategory } from '@/lib/types';
+import { queueOperation } from '@/lib/utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '@/lib/utils/offlineOperations';
+import { isSameDonor } from '@/lib/utils/donations';
+import { assertEligible, logEligibilityOverride, type EligibilityRequest } from '@/lib/utils/eligibility';
+import { useSettingsStore } from './useSettingsStore';
+import { useInventoryStore } from './useInventoryStore';
+import {
+  DONATION_RECEIPT_COLUMNS,
+  mapDonationReceiptRow,
+  type DonationReceiptRow,
+} from '@/lib/utils/donationReceipts';
+import type {
+  Donation,
+  DonationReceipt,
+  DonationReceiptContent,
+  LaPlazaDonation,
+  DonationType,
+  LaPlazaCategory,
+  ItemRecord,
+  EligibilityOverride,
+} from '@/lib/types';
 
 // Database row types
 interface DonationRow {
@@ -36,20 +56,11 @@ interface ItemDistributedRow {
   id: string;
   guest_id: string;
   item_key: string;
+  size: string | null;
   distributed_at: string;
   created_at: string;
 }
 
-// Item record type for local state
-interface ItemRecord {
-  id: string;
-  guestId: string;
-  item: string;
-  quantity: number;
-  date: string;
-  createdAt: string;
-}
-
 // Mappers
 function mapDonationRow(row: DonationRow): Donation {
   return {
@@ -86,6 +97,7 @@ function mapItemRow(row: ItemDistributedRow): ItemRecord {
     id: row.id,
     guestId: row.guest_id,
     item: row.item_key,
+    size: row.size,
     quantity: 1,
     date: pacificDateStringFrom(row.distributed_at),
     createdAt: row.created_at,
@@ -114,7 +126,10 @@ interface LaPlazaInput {
 interface ItemInput {
   guestId: string;
   item: string;
-  quantity?: number;
+  // For items stocked in sizes
+  size?: string | null;
+  // Staff reason for going past an eligibility limit
+  override?: EligibilityOverride;
 }
 
 // Store state interface
@@ -122,6 +137,8 @@ interface DonationsState {
   donationRecords: Donation[];
   laPlazaRecords: LaPlazaDonation[];
   itemRecords: ItemRecord[];
+  // Acknowledgment receipts issued to donors, fetched on demand
+  donationReceipts: DonationReceipt[];
   isLoading: boolean;
   error: string | null;
 }
@@ -141,6 +158,11 @@ interface DonationsActions {
   // Item Actions
   addItem: (input: ItemInput) => Promise<ItemRecord>;
   deleteItem: (recordId: string) => Promise<void>;
+
+  // Donor Receipt Actions
+  issueDonationReceipt: (content: DonationReceiptContent) => Promise<DonationReceipt>;
+  fetchDonationReceipts: () => Promise<DonationReceipt[]>;
+  getDonationReceipts: (donor?: string) => DonationReceipt[];
   
   // Load from Supabase
   loadFromSupabase: () => Promise<void>;
@@ -167,6 +189,7 @@ export const useDonationsStore = create<DonationsStore>()(
         donationRecords: [],
         laPlazaRecords: [],
         itemRecords: [],
+        donationReceipts: [],
         isLoading: false,
         error: null,
 
@@ -178,19 +201,19 @@ export const useDonationsStore = create<DonationsStore>()(
 
           const todayStr = todayPacificDateString();
 
-          if (isSupabaseEnabled()) {
-            const supabase = createClient();
-            const payload = {
-              donation_type: input.type,
-              item_name: input.itemName,
-              trays: input.trays || 0,
-              weight_lbs: input.weightLbs || 0,
-              servings: input.servings || 0,
-              temperature: input.temperature || null,
-              donor: input.donor,
-              date_key: todayStr,
-            };
+          const payload = {
+            donation_type: input.type,
+            item_name: input.itemName,
+            trays: input.trays || 0,
+            weight_lbs: input.weightLbs || 0,
+            servings: input.servings || 0,
+            temperature: input.temperature || null,
+            donor: input.donor,
+            date_key: todayStr,
+          };
 
+          if (isSupabaseEnabled() && !isBrowserOffline()) {
+            const supabase = createClient();
             const { data, error } = await supabase
               .from('donations')
               .insert(payload)
@@ -209,9 +232,10 @@ export const useDonationsStore = create<DonationsStore>()(
             return mapped;
           }
 
-          // Local fallback
+          // Local fallback; queued for replay when Supabase is configured but offline
+          const queueForSync = isSupabaseEnabled();
           const fallbackRecord: Donation = {
-            id: `local-donation-${Date.now()}`,
+            id: queueForSync ? createClientId() : `local-donation-${Date.now()}`,
             type: input.type,
             itemName: input.itemName,
             trays: input.trays || 0,
@@ -225,6 +249,12 @@ export const useDonationsStore = create<DonationsStore>()(
             updatedAt: new Date().toISOString(),
           };
 
+          if (queueForSync) {
+            await queueOperation('addDonation', {
+              row: { ...payload, id: fallbackRecord.id, donated_at: fallbackRecord.donatedAt },
+            });
+          }
+
           set((state) => {
             state.donationRecords.push(fallbackRecord);
           });
@@ -264,6 +294,11 @@ export const useDonationsStore = create<DonationsStore>()(
             if (updates.temperature !== undefined) payload.temperature = updates.temperature;
             if (updates.donor !== undefined) payload.donor = updates.donor;
 
+            if (Object.keys(payload).length > 0 && isBrowserOffline()) {
+              await queueOperation('updateDonation', { id, changes: payload });
+              return;
+            }
+
             if (Object.keys(payload).length > 0) {
               const { error } = await supabase
                 .from('donations')
@@ -293,6 +328,11 @@ export const useDonationsStore = create<DonationsStore>()(
             state.donationRecords = state.donationRecords.filter((r) => r.id !== recordId);
           });
 
+          if (isSupabaseEnabled() && target && isBrowserOffline()) {
+            await queueOperation('deleteDonation', { id: recordId });
+            return;
+          }
+
           if (isSupabaseEnabled() && target) {
             const supabase = createClient();
             const { error } = await supabase
@@ -313,15 +353,15 @@ export const useDonationsStore = create<DonationsStore>()(
 
           const todayStr = todayPacificDateString();
 
-          if (isSupabaseEnabled()) {
-            const supabase = createClient();
-            const payload = {
-              category: input.category,
-              weight_lbs: input.weightLbs,
-              notes: input.notes || null,
-              date_key: todayStr,
-            };
+          const payload = {
+            category: input.category,
+            weight_lbs: input.weightLbs,
+            notes: input.notes || null,
+            date_key: todayStr,
+          };
 
+          if (isSupabaseEnabled() && !isBrowserOffline()) {
+            const supabase = createClient();
             const { data, error } = await supabase
               .from('la_plaza_donations')
               .insert(payload)
@@ -340,9 +380,10 @@ export const useDonationsStore = create<DonationsStore>()(
             return mapped;
           }
 
-          // Local fallback
+          // Local fallback; queued for replay when Supabase is configured but offline
+          const queueForSync = isSupabaseEnabled();
           const fallbackRecord: LaPlazaDonation = {
-            id: `local-laplaza-${Date.now()}`,
+            id: queueForSync ? createClientId() : `local-laplaza-${Date.now()}`,
             category: input.category,
             weightLbs: input.weightLbs,
             notes: input.notes || '',
@@ -352,6 +393,12 @@ export const useDonationsStore = create<DonationsStore>()(
             updatedAt: new Date().toISOString(),
           };
 
+          if (queueForSync) {
+            await queueOperation('addLaPlazaDonation', {
+              row: { ...payload, id: fallbackRecord.id, received_at: fallbackRecord.receivedAt },
+            });
+          }
+
           set((state) => {
             state.laPlazaRecords.push(fallbackRecord);
           });
@@ -383,6 +430,11 @@ export const useDonationsStore = create<DonationsStore>()(
             if (updates.weightLbs !== undefined) payload.weight_lbs = updates.weightLbs;
             if (updates.notes !== undefined) payload.notes = updates.notes;
 
+            if (Object.keys(payload).length > 0 && isBrowserOffline()) {
+              await queueOperation('updateLaPlazaDonation', { id, changes: payload });
+              return;
+            }
+
             if (Object.keys(payload).length > 0) {
               const { error } = await supabase
                 .from('la_plaza_donations')
@@ -411,6 +463,11 @@ export const useDonationsStore = create<DonationsStore>()(
             state.laPlazaRecords = state.laPlazaRecords.filter((r) => r.id !== recordId);
           });
 
+          if (isSupabaseEnabled() && target && isBrowserOffline()) {
+            await queueOperation('deleteLaPlazaDonation', { id: recordId });
+            return;
+          }
+
           if (isSupabaseEnabled() && target) {
             const supabase = createClient();
             const { error } = await supabase
@@ -431,13 +488,33 @@ export const useDonationsStore = create<DonationsStore>()(
 
           const todayStr = todayPacificDateString();
 
-          if (isSupabaseEnabled()) {
-            const supabase = createClient();
-            const payload = {
-              guest_id: input.guestId,
-              item_key: input.item,
-            };
+          const eligibility: EligibilityRequest = {
+            service: 'item',
+            guestId: input.guestId,
+            date: todayStr,
+            quantity: 1,
+            itemKey: input.item,
+          };
+          const violations = assertEligible(
+            useSettingsStore.getState().eligibilityRules,
+            eligibility,
+            get().itemRecords.map((r) => ({
+              guestId: r.guestId,
+              date: r.date,
+              quantity: r.quantity,
+              itemKey: r.item,
+            })),
+            input.override
+          );
+
+          const payload = {
+            guest_id: input.guestId,
+            item_key: input.item,
+            size: input.size || null,
+          };
 
+          if (isSupabaseEnabled() && !isBrowserOffline()) {
+            const supabase = createClient();
             const { data, error } = await supabase
               .from('items_distributed')
               .insert(payload)
@@ -453,22 +530,38 @@ export const useDonationsStore = create<DonationsStore>()(
             set((state) => {
               state.itemRecords.push(mapped);
             });
+            // The database takes it off the shelf; keep the local count in step
+            useInventoryStore.getState().applyDistribution(mapped.item, mapped.size ?? null, mapped.quantity);
+            if (input.override) await logEligibilityOverride(eligibility, violations, input.override);
             return mapped;
           }
 
-          // Local fallback
+          // Local fallback; queued for replay when Supabase is configured but offline
+          const queueForSync = isSupabaseEnabled();
           const fallbackRecord: ItemRecord = {
-            id: `local-item-${Date.now()}`,
+            id: queueForSync ? createClientId() : `local-item-${Date.now()}`,
             guestId: input.guestId,
             item: input.item,
-            quantity: input.quantity || 1,
+            size: input.size || null,
+            // One row per item handed out, as the inventory trigger counts them
+            quantity: 1,
             date: todayStr,
             createdAt: new Date().toISOString(),
           };
 
+          if (queueForSync) {
+            await queueOperation('addItem', {
+              row: { ...payload, id: fallbackRecord.id, distributed_at: fallbackRecord.createdAt },
+            });
+          }
+
           set((state) => {
             state.itemRecords.push(fallbackRecord);
           });
+          useInventoryStore
+            .getState()
+            .applyDistribution(fallbackRecord.item, fallbackRecord.size ?? null, fallbackRecord.quantity);
+          if (input.override) await logEligibilityOverride(eligibility, violations, input.override);
           return fallbackRecord;
         },
 
@@ -479,6 +572,15 @@ export const useDonationsStore = create<DonationsStore>()(
           set((state) => {
             state.itemRecords = state.itemRecords.filter((r) => r.id !== recordId);
           });
+          // Removing the record puts the item back on the shelf
+          if (target) {
+            useInventoryStore.getState().applyDistribution(target.item, target.size ?? null, -target.quantity);
+          }
+
+          if (isSupabaseEnabled() && target && isBrowserOffline()) {
+            await queueOperation('deleteItem', { id: recordId });
+            return;
+          }
 
           if (isSupabaseEnabled() && target) {
             const supabase = createClient();
@@ -545,12 +647,98 @@ export const useDonationsStore = create<DonationsStore>()(
           }
         },
 
+        // Log a donor receipt; the database assigns its receipt number
+        issueDonationReceipt: async (content: DonationReceiptContent): Promise<DonationReceipt> => {
+          const fields = {
+            donor: content.donor,
+            periodStart: content.periodStart,
+            periodEnd: content.periodEnd,
+          };
+
+          if (!isSupabaseEnabled()) {
+            const id = createClientId();
+            const localReceipt: DonationReceipt = {
+              id,
+              receiptNumber: `DR-LOCAL-${id.slice(0, 8).toUpperCase()}`,
+              ...fields,
+              content,
+              issuedBy: null,
+              issuedByEmail: null,
+              issuedAt: new Date().toISOString(),
+            };
+            set((state) => {
+              state.donationReceipts.push(localReceipt);
+            });
+            return localReceipt;
+          }
+
+          // A receipt queued offline would have no receipt number to print on it
+          if (isBrowserOffline()) {
+            throw new Error('Donation receipts can only be issued while online.');
+          }
+
+          const supabase = createClient();
+          const { data, error } = await supabase
+            .from('donation_receipts')
+            .insert({
+              donor: fields.donor,
+              period_start: fields.periodStart,
+              period_end: fields.periodEnd,
+              content,
+            })
+            .select(DONATION_RECEIPT_COLUMNS)
+            .single();
+
+          if (error || !data) {
+            console.error('Failed to issue donation receipt:', error);
+            throw new Error('Unable to issue the donation receipt. Please try again.');
+          }
+
+          const receipt = mapDonationReceiptRow(data as DonationReceiptRow);
+          set((state) => {
+            state.donationReceipts.push(receipt);
+          });
+          return receipt;
+        },
+
+        // Load every issued receipt; local ones are used when offline
+        fetchDonationReceipts: async (): Promise<DonationReceipt[]> => {
+          if (!isSupabaseEnabled() || isBrowserOffline()) {
+            return get().getDonationReceipts();
+          }
+
+          const supabase = createClient();
+          const { data, error } = await supabase
+            .from('donation_receipts')
+            .select(DONATION_RECEIPT_COLUMNS)
+            .order('issued_at', { ascending: false });
+
+          if (error) {
+            console.error('Failed to fetch donation receipts:', error);
+            throw new Error('Unable to load donation receipts. Please try again.');
+          }
+
+          const receipts = (data as DonationReceiptRow[]).map(mapDonationReceiptRow);
+          set((state) => {
+            state.donationReceipts = receipts;
+          });
+          return receipts;
+        },
+
+        // Receipts issued, optionally to one donor, newest first
+        getDonationReceipts: (donor?: string): DonationReceipt[] => {
+          return get()
+            .donationReceipts.filter((receipt) => !donor || isSameDonor(receipt.donor, donor))
+            .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+        },
+
         // Clear all records
         clearDonationRecords: (): void => {
           set((state) => {
             state.donationRecords = [];
             state.laPlazaRecords = [];
             state.itemRecords = [];
+            state.donationReceipts = [];
           });
         },
 
@@ -597,6 +785,7 @@ export const useDonationsStore = create<DonationsStore>()(
           donationRecords: state.donationRecords,
           laPlazaRecords: state.laPlazaRecords,
           itemRecords: state.itemRecords,
+          donationReceipts: state.donationReceipts,
         }),
       }
     ),
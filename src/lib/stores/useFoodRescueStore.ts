@@ -0,0 +1,165 @@
+import { create } from 'zustand';
+import { persist, devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { queueOperation } from '@/lib/utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '@/lib/utils/offlineOperations';
+import {
+  FOOD_DISPOSITION_COLUMNS,
+  mapFoodDispositionRow,
+  type FoodDispositionRow,
+} from '@/lib/utils/foodRescue';
+import type { FoodDisposition, FoodDispositionInput } from '@/lib/types';
+
+// Store state interface
+interface FoodRescueState {
+  // Outbound side of the ledger; intake comes from the donations store
+  foodDispositions: FoodDisposition[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions interface
+interface FoodRescueActions {
+  loadFromSupabase: () => Promise<void>;
+  addFoodDisposition: (input: FoodDispositionInput) => Promise<FoodDisposition>;
+  deleteFoodDisposition: (id: string) => Promise<void>;
+  clearFoodDispositions: () => void;
+
+  // Selectors
+  getDispositionsForDate: (dateKey: string) => FoodDisposition[];
+}
+
+type FoodRescueStore = FoodRescueState & FoodRescueActions;
+
+export const useFoodRescueStore = create<FoodRescueStore>()(
+  devtools(
+    persist(
+      immer((set, get) => ({
+        // Initial State
+        foodDispositions: [],
+        isLoading: false,
+        error: null,
+
+        loadFromSupabase: async (): Promise<void> => {
+          if (!isSupabaseEnabled()) return;
+
+          set((state) => {
+            state.isLoading = true;
+            state.error = null;
+          });
+
+          try {
+            const supabase = createClient();
+            const { data, error } = await supabase
+              .from('food_dispositions')
+              .select(FOOD_DISPOSITION_COLUMNS)
+              .order('recorded_at', { ascending: false });
+
+            if (error) throw error;
+
+            set((state) => {
+              state.foodDispositions = (data || []).map((row) =>
+                mapFoodDispositionRow(row as FoodDispositionRow)
+              );
+              state.isLoading = false;
+            });
+          } catch (error) {
+            console.error('Failed to load food dispositions from Supabase:', error);
+            set((state) => {
+              state.isLoading = false;
+              state.error = error instanceof Error ? error.message : 'Failed to load food dispositions';
+            });
+          }
+        },
+
+        // Redistributed food must name the agency that took it
+        addFoodDisposition: async (input: FoodDispositionInput): Promise<FoodDisposition> => {
+          if (!Number.isFinite(input.weightLbs) || input.weightLbs <= 0) {
+            throw new Error('Weight must be greater than zero');
+          }
+          const recipient = input.recipient?.trim() || null;
+          if (input.kind === 'redistributed' && !recipient) {
+            throw new Error('Recipient is required for redistributed food');
+          }
+
+          const row = {
+            id: createClientId(),
+            disposition: input.kind,
+            recipient: input.kind === 'redistributed' ? recipient : null,
+            weight_lbs: input.weightLbs,
+            notes: input.notes?.trim() || null,
+            date_key: input.dateKey || todayPacificDateString(),
+            recorded_at: new Date().toISOString(),
+          };
+
+          let disposition: FoodDisposition = mapFoodDispositionRow({ ...row, recorded_by_email: null });
+          if (isSupabaseEnabled() && isBrowserOffline()) {
+            await queueOperation('addFoodDisposition', { row });
+          } else if (isSupabaseEnabled()) {
+            const supabase = createClient();
+            const { data, error } = await supabase
+              .from('food_dispositions')
+              .insert(row)
+              .select(FOOD_DISPOSITION_COLUMNS)
+              .single();
+
+            if (error || !data) {
+              console.error('Failed to record food disposition:', error);
+              throw new Error('Unable to save the outbound record');
+            }
+            disposition = mapFoodDispositionRow(data as FoodDispositionRow);
+          }
+
+          set((state) => {
+            state.foodDispositions.unshift(disposition);
+          });
+          return disposition;
+        },
+
+        deleteFoodDisposition: async (id: string): Promise<void> => {
+          const target = get().foodDispositions.find((disposition) => disposition.id === id);
+
+          set((state) => {
+            state.foodDispositions = state.foodDispositions.filter((disposition) => disposition.id !== id);
+          });
+
+          if (isSupabaseEnabled() && target && isBrowserOffline()) {
+            await queueOperation('deleteFoodDisposition', { id });
+            return;
+          }
+
+          if (isSupabaseEnabled() && target) {
+            const supabase = createClient();
+            const { error } = await supabase.from('food_dispositions').delete().eq('id', id);
+
+            if (error) {
+              console.error('Failed to delete food disposition from Supabase:', error);
+            }
+          }
+        },
+
+        clearFoodDispositions: () => {
+          set((state) => {
+            state.foodDispositions = [];
+          });
+        },
+
+        // Selectors
+        getDispositionsForDate: (dateKey: string): FoodDisposition[] => {
+          return get()
+            .foodDispositions.filter((disposition) => disposition.dateKey === dateKey)
+            .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+        },
+      })),
+      {
+        name: 'hopes-corner-food-rescue',
+        partialize: (state) => ({
+          foodDispositions: state.foodDispositions,
+        }),
+      }
+    ),
+    { name: 'FoodRescueStore' }
+  )
+);
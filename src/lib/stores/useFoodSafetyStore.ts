@@ -0,0 +1,197 @@
+import { create } from 'zustand';
+import { persist, devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { queueOperation } from '@/lib/utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '@/lib/utils/offlineOperations';
+import {
+  TEMPERATURE_READING_COLUMNS,
+  checkTemperature,
+  mapTemperatureReadingRow,
+  type TemperatureReadingRow,
+} from '@/lib/utils/foodSafety';
+import { useSettingsStore } from './useSettingsStore';
+import type { TemperatureReading, TemperatureReadingInput } from '@/lib/types';
+
+// Readings from this many days back are loaded with the other stores
+const RECENT_READING_DAYS = 35;
+
+const monthEnd = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return `${month}-${String(new Date(Date.UTC(year, monthIndex, 0)).getUTCDate()).padStart(2, '0')}`;
+};
+
+// Store state interface
+interface FoodSafetyState {
+  // Recent readings plus any month fetched for the log
+  temperatureReadings: TemperatureReading[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions interface
+interface FoodSafetyActions {
+  loadFromSupabase: () => Promise<void>;
+  recordTemperature: (input: TemperatureReadingInput) => Promise<TemperatureReading>;
+  fetchTemperatureReadings: (month: string) => Promise<TemperatureReading[]>;
+  clearTemperatureReadings: () => void;
+
+  // Selectors
+  getReadingsForDate: (dateKey: string) => TemperatureReading[];
+}
+
+type FoodSafetyStore = FoodSafetyState & FoodSafetyActions;
+
+const mergeReadings = (current: TemperatureReading[], incoming: TemperatureReading[]) => {
+  const ids = new Set(incoming.map((reading) => reading.id));
+  return [...current.filter((reading) => !ids.has(reading.id)), ...incoming];
+};
+
+export const useFoodSafetyStore = create<FoodSafetyStore>()(
+  devtools(
+    persist(
+      immer((set, get) => ({
+        // Initial State
+        temperatureReadings: [],
+        isLoading: false,
+        error: null,
+
+        loadFromSupabase: async (): Promise<void> => {
+          if (!isSupabaseEnabled()) return;
+
+          set((state) => {
+            state.isLoading = true;
+            state.error = null;
+          });
+
+          try {
+            const since = new Date(`${todayPacificDateString()}T00:00:00Z`);
+            since.setUTCDate(since.getUTCDate() - RECENT_READING_DAYS);
+            const supabase = createClient();
+            const { data, error } = await supabase
+              .from('food_temperature_logs')
+              .select(TEMPERATURE_READING_COLUMNS)
+              .gte('date_key', since.toISOString().slice(0, 10))
+              .order('recorded_at', { ascending: true });
+
+            if (error) throw error;
+
+            set((state) => {
+              state.temperatureReadings = (data || []).map((row) =>
+                mapTemperatureReadingRow(row as TemperatureReadingRow)
+              );
+              state.isLoading = false;
+            });
+          } catch (error) {
+            console.error('Failed to load temperature log from Supabase:', error);
+            set((state) => {
+              state.isLoading = false;
+              state.error = error instanceof Error ? error.message : 'Failed to load temperature log';
+            });
+          }
+        },
+
+        // Checked against the safe ranges in settings; out-of-range readings need a corrective action
+        recordTemperature: async (input: TemperatureReadingInput): Promise<TemperatureReading> => {
+          const itemName = input.itemName.trim();
+          if (!itemName) throw new Error('Item name is required');
+          if (!Number.isFinite(input.temperatureF)) throw new Error('Temperature must be a number');
+
+          const check = checkTemperature(
+            input.temperatureF,
+            input.holding,
+            useSettingsStore.getState().foodSafetyRanges
+          );
+          const correctiveAction = input.correctiveAction?.trim() || null;
+          if (!check.inRange && !correctiveAction) {
+            throw new Error('A corrective action is required for a reading out of range');
+          }
+
+          const row = {
+            id: createClientId(),
+            stage: input.stage,
+            holding: input.holding,
+            item_name: itemName,
+            donation_id: input.donationId ?? null,
+            temperature_f: input.temperatureF,
+            in_range: check.inRange,
+            safe_min_f: check.safeMinF,
+            safe_max_f: check.safeMaxF,
+            corrective_action: correctiveAction,
+            recorded_at: new Date().toISOString(),
+            date_key: todayPacificDateString(),
+          };
+
+          let reading: TemperatureReading = mapTemperatureReadingRow({ ...row, recorded_by_email: null });
+          if (isSupabaseEnabled() && isBrowserOffline()) {
+            await queueOperation('addTemperatureReading', { row });
+          } else if (isSupabaseEnabled()) {
+            const supabase = createClient();
+            const { data, error } = await supabase
+              .from('food_temperature_logs')
+              .insert(row)
+              .select(TEMPERATURE_READING_COLUMNS)
+              .single();
+
+            if (error || !data) {
+              console.error('Failed to record temperature:', error);
+              throw new Error('Unable to save the temperature reading');
+            }
+            reading = mapTemperatureReadingRow(data as TemperatureReadingRow);
+          }
+
+          set((state) => {
+            state.temperatureReadings.push(reading);
+          });
+          return reading;
+        },
+
+        // A month of readings for the printable log; local readings are used when offline
+        fetchTemperatureReadings: async (month: string): Promise<TemperatureReading[]> => {
+          const local = () => get().temperatureReadings.filter((reading) => reading.dateKey.startsWith(month));
+          if (!isSupabaseEnabled() || isBrowserOffline()) return local();
+
+          const supabase = createClient();
+          const { data, error } = await supabase
+            .from('food_temperature_logs')
+            .select(TEMPERATURE_READING_COLUMNS)
+            .gte('date_key', `${month}-01`)
+            .lte('date_key', monthEnd(month))
+            .order('recorded_at', { ascending: true });
+
+          if (error) {
+            console.error('Failed to load temperature log:', error);
+            throw new Error('Unable to load the temperature log');
+          }
+
+          const readings = (data || []).map((row) => mapTemperatureReadingRow(row as TemperatureReadingRow));
+          set((state) => {
+            state.temperatureReadings = mergeReadings(state.temperatureReadings, readings);
+          });
+          return readings;
+        },
+
+        clearTemperatureReadings: () => {
+          set((state) => {
+            state.temperatureReadings = [];
+          });
+        },
+
+        // Selectors
+        getReadingsForDate: (dateKey: string): TemperatureReading[] => {
+          return get()
+            .temperatureReadings.filter((reading) => reading.dateKey === dateKey)
+            .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+        },
+      })),
+      {
+        name: 'hopes-corner-food-safety',
+        partialize: (state) => ({
+          temperatureReadings: state.temperatureReadings,
+        }),
+      }
+    ),
+    { name: 'FoodSafetyStore' }
+  )
+);
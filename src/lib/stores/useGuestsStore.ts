@@ -1,7 +1,18 @@
 import { create } from 'zustand';
 import { persist, devtools } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import type { Guest, AgeGroup, Gender } from '../types';
+import type {
+  Guest,
+  GuestHistoryEntry,
+  GuestProxy,
+  AgeGroup,
+  Gender,
+  BanService,
+  GuestBan,
+  GuestBanInput,
+  VerificationLetter,
+  VerificationLetterContent,
+} from '../types';
 import { getSupabaseClient, isSupabaseEnabled } from '../supabase/client';
 import {
   toTitleCase,
@@ -9,8 +20,20 @@ import {
   normalizeBicycleDescription,
   normalizeHousingStatus,
   mapGuestRow,
+  guestColumnValues,
+  computeIsGuestBanned,
 } from '../utils/normalizers';
-import { HOUSING_STATUSES, AGE_GROUPS, GENDERS } from '../types';
+import { queueOperation } from '../utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '../utils/offlineOperations';
+import { subscribeToTableChanges, getChangedRowId } from '../utils/realtime';
+import { diffGuestFields, mapGuestHistoryRow, type GuestHistoryRow } from '../utils/guestHistory';
+import {
+  mapVerificationLetterRow,
+  VERIFICATION_LETTER_COLUMNS,
+  type VerificationLetterRow,
+} from '../utils/verificationLetters';
+import { GUEST_BAN_COLUMNS, guestBanFields, mapGuestBanRow, type GuestBanRow } from '../utils/guestBans';
+import { HOUSING_STATUSES, AGE_GROUPS, GENDERS, MAX_GUEST_PROXIES } from '../types';
 
 interface GuestInput {
   firstName?: string;
@@ -42,10 +65,37 @@ interface GuestUpdate {
   bannedUntil?: string | null;
   banReason?: string;
   isBanned?: boolean;
+  bannedServices?: BanService[];
+}
+
+interface GuestProxyRow {
+  id: string;
+  guest_id: string;
+  proxy_id: string;
+  created_at: string;
 }
 
+const mapGuestProxyRow = (row: GuestProxyRow): GuestProxy => ({
+  id: row.id,
+  guestId: row.guest_id,
+  proxyId: row.proxy_id,
+  createdAt: row.created_at,
+});
+
+const isProxyPair = (link: GuestProxy, guestId: string, proxyId: string) =>
+  (link.guestId === guestId && link.proxyId === proxyId) ||
+  (link.guestId === proxyId && link.proxyId === guestId);
+
 interface GuestsState {
   guests: Guest[];
+  // Stored in both directions, like the guest_proxies table
+  guestProxies: GuestProxy[];
+  // Field-level profile changes; server rows once fetched, local ones until then
+  guestHistory: GuestHistoryEntry[];
+  // Verification letters issued, fetched per guest
+  verificationLetters: VerificationLetter[];
+  // Warnings, bans and lifts, fetched per guest
+  guestBans: GuestBan[];
   isLoading: boolean;
   error: string | null;
   lastFetched: number | null;
@@ -58,6 +108,21 @@ interface GuestsActions {
   deleteGuest: (id: string) => Promise<boolean>;
   getGuestById: (id: string) => Guest | undefined;
   getGuestByExternalId: (guestId: string) => Guest | undefined;
+  mergeServerGuest: (row: Record<string, unknown>) => void;
+  removeServerGuest: (id: string) => void;
+  fetchGuestProxies: () => Promise<void>;
+  linkGuests: (guestId: string, proxyId: string) => Promise<void>;
+  unlinkGuests: (guestId: string, proxyId: string) => Promise<void>;
+  getLinkedGuests: (guestId: string) => Guest[];
+  fetchGuestHistory: (guestId: string) => Promise<GuestHistoryEntry[]>;
+  getGuestHistory: (guestId: string) => GuestHistoryEntry[];
+  issueVerificationLetter: (guestId: string, content: VerificationLetterContent) => Promise<VerificationLetter>;
+  fetchVerificationLetters: (guestId: string) => Promise<VerificationLetter[]>;
+  getVerificationLetters: (guestId: string) => VerificationLetter[];
+  issueGuestBan: (guestId: string, input: GuestBanInput) => Promise<GuestBan>;
+  fetchGuestBans: (guestId: string) => Promise<GuestBan[]>;
+  getGuestBans: (guestId: string) => GuestBan[];
+  subscribeToRealtime: () => () => void;
   clearGuests: () => void;
   generateGuestId: () => string;
 }
@@ -68,6 +133,10 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
       immer((set, get) => ({
         // State
         guests: [],
+        guestProxies: [],
+        guestHistory: [],
+        verificationLetters: [],
+        guestBans: [],
         isLoading: false,
         error: null,
         lastFetched: null,
@@ -129,6 +198,8 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
               state.isLoading = false;
               state.lastFetched = Date.now();
             });
+
+            await get().fetchGuestProxies();
           } catch (error) {
             console.error('Failed to fetch guests:', error);
             set((state) => {
@@ -192,10 +263,25 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
             finalGuestId = generateGuestId();
           }
 
-          if (!isSupabaseEnabled()) {
-            // Fallback for offline/no Supabase
+          const payload = {
+            external_id: finalGuestId,
+            first_name: firstName,
+            last_name: lastName,
+            full_name: legalName,
+            preferred_name: preferredName,
+            housing_status: normalizedHousing,
+            age_group: guest.age,
+            gender: guest.gender,
+            location: guest.location,
+            notes: guest.notes || '',
+            bicycle_description: bicycleDescription,
+          };
+
+          if (!isSupabaseEnabled() || isBrowserOffline()) {
+            // Fallback for offline/no Supabase; queued for replay when Supabase is configured
+            const queueForSync = isSupabaseEnabled();
             const fallbackGuest: Guest = {
-              id: `local-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-${Date.now()}`,
               guestId: finalGuestId,
               firstName,
               lastName,
@@ -215,6 +301,10 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
               updatedAt: new Date().toISOString(),
             };
 
+            if (queueForSync) {
+              await queueOperation('addGuest', { row: { ...payload, id: fallbackGuest.id } });
+            }
+
             set((state) => {
               state.guests.unshift(fallbackGuest);
             });
@@ -222,20 +312,6 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
           }
 
           const supabase = getSupabaseClient();
-          const payload = {
-            external_id: finalGuestId,
-            first_name: firstName,
-            last_name: lastName,
-            full_name: legalName,
-            preferred_name: preferredName,
-            housing_status: normalizedHousing,
-            age_group: guest.age,
-            gender: guest.gender,
-            location: guest.location,
-            notes: guest.notes || '',
-            bicycle_description: bicycleDescription,
-          };
-
           const { data, error } = await supabase
             .from('guests')
             .insert(payload)
@@ -254,13 +330,25 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
           return mapped;
         },
 
-        // Update a guest
+        // Update a guest, keeping a history entry for every changed profile field
         updateGuest: async (id: string, updates: GuestUpdate) => {
           const { guests } = get();
           const target = guests.find((g) => g.id === id);
           if (!target) return false;
 
           const originalGuest = { ...target };
+          const changedAt = new Date().toISOString();
+          const historyEntries: GuestHistoryEntry[] = diffGuestFields(originalGuest, updates).map(
+            (change) => ({
+              id: createClientId(),
+              guestId: id,
+              ...change,
+              changedBy: null,
+              changedByEmail: null,
+              changedAt,
+            })
+          );
+          const historyIds = new Set(historyEntries.map((entry) => entry.id));
 
           // Optimistically update local state
           set((state) => {
@@ -268,6 +356,7 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
             if (guestIndex !== -1) {
               Object.assign(state.guests[guestIndex], updates);
             }
+            state.guestHistory.unshift(...historyEntries);
           });
 
           if (!isSupabaseEnabled()) {
@@ -302,9 +391,20 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
               payload.banned_until = updates.bannedUntil;
             if (updates.banReason !== undefined)
               payload.ban_reason = updates.banReason;
+            if (updates.bannedServices !== undefined)
+              payload.banned_services = updates.bannedServices.length > 0 ? updates.bannedServices : null;
 
             if (Object.keys(payload).length === 0) return true;
 
+            if (isBrowserOffline()) {
+              await queueOperation('updateGuest', {
+                id,
+                changes: payload,
+                original: guestColumnValues(originalGuest, Object.keys(payload)),
+              });
+              return true;
+            }
+
             const { data, error } = await supabase
               .from('guests')
               .update(payload)
@@ -333,6 +433,7 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
               if (guestIndex !== -1) {
                 state.guests[guestIndex] = originalGuest;
               }
+              state.guestHistory = state.guestHistory.filter((entry) => !historyIds.has(entry.id));
             });
             return false;
           }
@@ -354,6 +455,11 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
           }
 
           try {
+            if (isBrowserOffline()) {
+              await queueOperation('deleteGuest', { id });
+              return true;
+            }
+
             const supabase = getSupabaseClient();
             const { error } = await supabase.from('guests').delete().eq('id', id);
 
@@ -379,10 +485,372 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
           return get().guests.find((g) => g.guestId === guestId);
         },
 
+        // Merge a guest row fetched from Supabase into local state (dedupe by id)
+        mergeServerGuest: (row: Record<string, unknown>) => {
+          const mapped = mapGuestRow(row);
+          set((state) => {
+            const guestIndex = state.guests.findIndex((g) => g.id === mapped.id);
+            if (guestIndex !== -1) {
+              state.guests[guestIndex] = mapped;
+            } else {
+              state.guests.unshift(mapped);
+            }
+          });
+        },
+
+        // Drop a guest that no longer exists in Supabase from local state
+        removeServerGuest: (id: string) => {
+          set((state) => {
+            state.guests = state.guests.filter((g) => g.id !== id);
+          });
+        },
+
+        // Load every proxy link; failures leave the current links in place
+        fetchGuestProxies: async () => {
+          if (!isSupabaseEnabled()) return;
+
+          const supabase = getSupabaseClient();
+          const { data, error } = await supabase
+            .from('guest_proxies')
+            .select('id,guest_id,proxy_id,created_at');
+
+          if (error) {
+            console.error('Failed to fetch guest proxies:', error);
+            return;
+          }
+
+          set((state) => {
+            state.guestProxies = (data as GuestProxyRow[]).map(mapGuestProxyRow);
+          });
+        },
+
+        // Link two guests so either can pick up meals or laundry for the other
+        linkGuests: async (guestId: string, proxyId: string) => {
+          if (guestId === proxyId) throw new Error('A guest cannot be linked to themselves');
+
+          const { guestProxies } = get();
+          if (guestProxies.some((link) => isProxyPair(link, guestId, proxyId))) {
+            throw new Error('These guests are already linked');
+          }
+          const linkCount = (id: string) => guestProxies.filter((link) => link.guestId === id).length;
+          if (linkCount(guestId) >= MAX_GUEST_PROXIES || linkCount(proxyId) >= MAX_GUEST_PROXIES) {
+            throw new Error(`A guest can have at most ${MAX_GUEST_PROXIES} linked guests`);
+          }
+
+          const createdAt = new Date().toISOString();
+          const forward: GuestProxy = { id: createClientId(), guestId, proxyId, createdAt };
+          // The reverse row's real id comes from the symmetry trigger
+          const reverse: GuestProxy = { id: createClientId(), guestId: proxyId, proxyId: guestId, createdAt };
+
+          set((state) => {
+            state.guestProxies.push(forward, reverse);
+          });
+
+          if (isSupabaseEnabled() && isBrowserOffline()) {
+            await queueOperation('addGuestProxy', {
+              row: { id: forward.id, guest_id: guestId, proxy_id: proxyId },
+            });
+          } else if (isSupabaseEnabled()) {
+            const supabase = getSupabaseClient();
+            const { error } = await supabase
+              .from('guest_proxies')
+              .insert({ id: forward.id, guest_id: guestId, proxy_id: proxyId });
+
+            if (error) {
+              console.error('Failed to link guests in Supabase:', error);
+              set((state) => {
+                state.guestProxies = state.guestProxies.filter(
+                  (link) => link.id !== forward.id && link.id !== reverse.id
+                );
+              });
+              throw new Error('Unable to link guests. Please try again.');
+            }
+
+            await get().fetchGuestProxies();
+          }
+        },
+
+        // Remove the link between two guests (both directions)
+        unlinkGuests: async (guestId: string, proxyId: string) => {
+          const removed = get().guestProxies.filter((link) => isProxyPair(link, guestId, proxyId));
+          if (removed.length === 0) return;
+
+          set((state) => {
+            state.guestProxies = state.guestProxies.filter(
+              (link) => !isProxyPair(link, guestId, proxyId)
+            );
+          });
+
+          if (isSupabaseEnabled() && isBrowserOffline()) {
+            await queueOperation('deleteGuestProxy', { guestId, proxyId });
+          } else if (isSupabaseEnabled()) {
+            const supabase = getSupabaseClient();
+            const { error } = await supabase
+              .from('guest_proxies')
+              .delete()
+              .eq('guest_id', guestId)
+              .eq('proxy_id', proxyId);
+
+            if (error) {
+              console.error('Failed to unlink guests in Supabase:', error);
+              set((state) => {
+                state.guestProxies.push(...removed);
+              });
+              throw new Error('Unable to unlink guests. Please try again.');
+            }
+          }
+        },
+
+        // Guests linked to this guest, in the order they were linked
+        getLinkedGuests: (guestId: string) => {
+          const { guests, guestProxies } = get();
+          return guestProxies
+            .filter((link) => link.guestId === guestId)
+            .map((link) => guests.find((g) => g.id === link.proxyId))
+            .filter((guest): guest is Guest => Boolean(guest));
+        },
+
+        // Load a guest's profile history, newest first. Without Supabase the
+        // history recorded on this device is all there is.
+        fetchGuestHistory: async (guestId: string) => {
+          if (!isSupabaseEnabled() || isBrowserOffline()) {
+            return get().getGuestHistory(guestId);
+          }
+
+          const supabase = getSupabaseClient();
+          const { data, error } = await supabase
+            .from('guest_history')
+            .select('id,guest_id,field,old_value,new_value,changed_by,changed_by_email,changed_at')
+            .eq('guest_id', guestId)
+            .order('changed_at', { ascending: false });
+
+          if (error) {
+            console.error('Failed to fetch guest history:', error);
+            throw new Error('Unable to load guest history. Please try again.');
+          }
+
+          const entries = (data as GuestHistoryRow[]).map(mapGuestHistoryRow);
+          set((state) => {
+            state.guestHistory = [
+              ...state.guestHistory.filter((entry) => entry.guestId !== guestId),
+              ...entries,
+            ];
+          });
+          return entries;
+        },
+
+        // A guest's profile history held locally, newest first
+        getGuestHistory: (guestId: string) => {
+          return get()
+            .guestHistory.filter((entry) => entry.guestId === guestId)
+            .sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+        },
+
+        // Log a verification letter; the database assigns its serial number
+        issueVerificationLetter: async (guestId: string, content: VerificationLetterContent) => {
+          if (!isSupabaseEnabled()) {
+            const id = createClientId();
+            const localLetter: VerificationLetter = {
+              id,
+              serialNumber: `VL-LOCAL-${id.slice(0, 8).toUpperCase()}`,
+              guestId,
+              content,
+              issuedBy: null,
+              issuedByEmail: null,
+              issuedAt: new Date().toISOString(),
+            };
+            set((state) => {
+              state.verificationLetters.push(localLetter);
+            });
+            return localLetter;
+          }
+
+          // A letter queued offline would have no serial number to print on it
+          if (isBrowserOffline()) {
+            throw new Error('Verification letters can only be issued while online.');
+          }
+
+          const supabase = getSupabaseClient();
+          const { data, error } = await supabase
+            .from('verification_letters')
+            .insert({ guest_id: guestId, content })
+            .select(VERIFICATION_LETTER_COLUMNS)
+            .single();
+
+          if (error || !data) {
+            console.error('Failed to issue verification letter:', error);
+            throw new Error('Unable to issue the verification letter. Please try again.');
+          }
+
+          const letter = mapVerificationLetterRow(data as VerificationLetterRow);
+          set((state) => {
+            state.verificationLetters.push(letter);
+          });
+          return letter;
+        },
+
+        // Load the letters issued to a guest; local ones are used when offline
+        fetchVerificationLetters: async (guestId: string) => {
+          if (!isSupabaseEnabled() || isBrowserOffline()) {
+            return get().getVerificationLetters(guestId);
+          }
+
+          const supabase = getSupabaseClient();
+          const { data, error } = await supabase
+            .from('verification_letters')
+            .select(VERIFICATION_LETTER_COLUMNS)
+            .eq('guest_id', guestId)
+            .order('issued_at', { ascending: false });
+
+          if (error) {
+            console.error('Failed to fetch verification letters:', error);
+            throw new Error('Unable to load verification letters. Please try again.');
+          }
+
+          const letters = (data as VerificationLetterRow[]).map(mapVerificationLetterRow);
+          set((state) => {
+            state.verificationLetters = [
+              ...state.verificationLetters.filter((letter) => letter.guestId !== guestId),
+              ...letters,
+            ];
+          });
+          return letters;
+        },
+
+        // Letters issued to a guest, newest first
+        getVerificationLetters: (guestId: string) => {
+          return get()
+            .verificationLetters.filter((letter) => letter.guestId === guestId)
+            .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+        },
+
+        // Record a warning, ban or lift; a ban or lift also becomes the guest's current ban
+        issueGuestBan: async (guestId: string, input: GuestBanInput) => {
+          const applyToGuest = (ban: GuestBan) => {
+            const fields = guestBanFields(ban);
+            set((state) => {
+              state.guestBans.push(ban);
+              const guest = state.guests.find((g) => g.id === guestId);
+              if (guest && fields) {
+                Object.assign(guest, fields, {
+                  isBanned: computeIsGuestBanned(fields.bannedUntil, fields.bannedAt),
+                });
+              }
+            });
+          };
+
+          if (!isSupabaseEnabled()) {
+            const now = new Date().toISOString();
+            const localBan: GuestBan = {
+              id: createClientId(),
+              guestId,
+              ...input,
+              startsAt: now,
+              issuedBy: null,
+              issuedByEmail: null,
+              createdAt: now,
+              reviewedAt: null,
+              reviewedBy: null,
+            };
+            applyToGuest(localBan);
+            return localBan;
+          }
+
+          // The ban record and the guest's current ban are written together by the database
+          if (isBrowserOffline()) {
+            throw new Error('Bans and warnings can only be issued while online.');
+          }
+
+          const supabase = getSupabaseClient();
+          const { data, error } = await supabase
+            .from('guest_bans')
+            .insert({
+              guest_id: guestId,
+              action: input.action,
+              services: input.services.length > 0 ? input.services : null,
+              reason: input.reason,
+              ends_at: input.endsAt,
+            })
+            .select(GUEST_BAN_COLUMNS)
+            .single();
+
+          if (error || !data) {
+            console.error('Failed to issue guest ban:', error);
+            throw new Error('Unable to save the ban. Please try again.');
+          }
+
+          const ban = mapGuestBanRow(data as GuestBanRow);
+          applyToGuest(ban);
+          return ban;
+        },
+
+        // Load a guest's warnings, bans and lifts; local ones are used when offline
+        fetchGuestBans: async (guestId: string) => {
+          if (!isSupabaseEnabled() || isBrowserOffline()) {
+            return get().getGuestBans(guestId);
+          }
+
+          const supabase = getSupabaseClient();
+          const { data, error } = await supabase
+            .from('guest_bans')
+            .select(GUEST_BAN_COLUMNS)
+            .eq('guest_id', guestId)
+            .order('created_at', { ascending: false });
+
+          if (error) {
+            console.error('Failed to fetch guest bans:', error);
+            throw new Error('Unable to load ban history. Please try again.');
+          }
+
+          const bans = (data as GuestBanRow[]).map(mapGuestBanRow);
+          set((state) => {
+            state.guestBans = [...state.guestBans.filter((ban) => ban.guestId !== guestId), ...bans];
+          });
+          return bans;
+        },
+
+        // A guest's warnings, bans and lifts, newest first
+        getGuestBans: (guestId: string) => {
+          return get()
+            .guestBans.filter((ban) => ban.guestId === guestId)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        },
+
+        // Follow guest changes made on other devices; returns an unsubscribe function
+        subscribeToRealtime: () => {
+          if (!isSupabaseEnabled()) return () => {};
+
+          return subscribeToTableChanges('guests-realtime', ['guests', 'guest_proxies'], (change) => {
+            if (change.table === 'guest_proxies') {
+              const id = getChangedRowId(change);
+              set((state) => {
+                state.guestProxies = state.guestProxies.filter((link) => link.id !== id);
+                if (change.eventType !== 'DELETE' && change.row) {
+                  const mapped = mapGuestProxyRow(change.row as unknown as GuestProxyRow);
+                  // Drop any local placeholder for the same pair before adding the server row
+                  state.guestProxies = state.guestProxies.filter(
+                    (link) => !(link.guestId === mapped.guestId && link.proxyId === mapped.proxyId)
+                  );
+                  state.guestProxies.push(mapped);
+                }
+              });
+            } else if (change.eventType === 'DELETE') {
+              const id = getChangedRowId(change);
+              if (id) get().removeServerGuest(id);
+            } else if (change.row) {
+              get().mergeServerGuest(change.row);
+            }
+          });
+        },
+
         // Clear all guests (useful for logout)
         clearGuests: () => {
           set((state) => {
             state.guests = [];
+            state.guestProxies = [];
+            state.guestHistory = [];
+            state.verificationLetters = [];
+            state.guestBans = [];
             state.lastFetched = null;
             state.error = null;
           });
@@ -392,6 +860,10 @@ export const useGuestsStore = create<GuestsState & GuestsActions>()(
         name: 'guests-storage',
         partialize: (state) => ({
           guests: state.guests,
+          guestProxies: state.guestProxies,
+          guestHistory: state.guestHistory,
+          verificationLetters: state.verificationLetters,
+          guestBans: state.guestBans,
           lastFetched: state.lastFetched,
         }),
       }
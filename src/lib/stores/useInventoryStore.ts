@@ -0,0 +1,275 @@
+import { create } from 'zustand';
+import { persist, devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
+import { queueOperation } from '@/lib/utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '@/lib/utils/offlineOperations';
+import {
+  INVENTORY_ITEM_COLUMNS,
+  INVENTORY_TRANSACTION_COLUMNS,
+  applyStockChange,
+  findLowStock,
+  getStockOnHand as stockOnHandFor,
+  mapInventoryItemRow,
+  mapInventoryStockLevelRow,
+  mapInventoryTransactionRow,
+} from '@/lib/utils/inventory';
+import type {
+  InventoryItemRow,
+  InventoryStockLevelRow,
+  InventoryTransactionRow,
+  LowStockEntry,
+} from '@/lib/utils/inventory';
+import type {
+  InventoryItem,
+  InventoryItemInput,
+  InventoryStockLevel,
+  InventoryTransaction,
+  InventoryTransactionInput,
+  InventoryTransactionKind,
+} from '@/lib/types';
+
+// Store state interface
+interface InventoryState {
+  inventoryItems: InventoryItem[];
+  stockLevels: InventoryStockLevel[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions interface
+interface InventoryActions {
+  loadFromSupabase: () => Promise<void>;
+  saveInventoryItem: (input: InventoryItemInput) => Promise<InventoryItem>;
+  receiveStock: (input: InventoryTransactionInput) => Promise<InventoryTransaction>;
+  adjustStock: (input: InventoryTransactionInput) => Promise<InventoryTransaction>;
+  // Mirrors the stock change the database makes when items are handed out or removed
+  applyDistribution: (itemKey: string, size: string | null, quantity: number) => void;
+  fetchInventoryTransactions: (since: string) => Promise<InventoryTransaction[]>;
+  clearInventory: () => void;
+
+  // Selectors
+  getStockOnHand: (itemKey: string, size: string | null) => number;
+  getLowStock: () => LowStockEntry[];
+}
+
+type InventoryStore = InventoryState & InventoryActions;
+
+export const useInventoryStore = create<InventoryStore>()(
+  devtools(
+    persist(
+      immer((set, get) => {
+        // Receiving and adjustments share one path; offline ones are queued for replay
+        const recordTransaction = async (
+          kind: Exclude<InventoryTransactionKind, 'distribute'>,
+          input: InventoryTransactionInput
+        ): Promise<InventoryTransaction> => {
+          if (!get().inventoryItems.some((item) => item.itemKey === input.itemKey)) {
+            throw new Error('Item is not in the inventory catalog');
+          }
+          if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+            throw new Error('Quantity must be a whole number');
+          }
+          if (kind === 'receive' && input.quantity < 0) {
+            throw new Error('Received quantity must be positive');
+          }
+
+          const row = {
+            id: createClientId(),
+            item_key: input.itemKey,
+            size: input.size || null,
+            kind,
+            quantity: input.quantity,
+            note: input.note?.trim() || null,
+          };
+          const localTransaction: InventoryTransaction = {
+            id: row.id,
+            itemKey: row.item_key,
+            size: row.size,
+            kind,
+            quantity: row.quantity,
+            note: row.note,
+            recordedByEmail: null,
+            createdAt: new Date().toISOString(),
+          };
+
+          let transaction = localTransaction;
+          if (isSupabaseEnabled() && isBrowserOffline()) {
+            await queueOperation('addInventoryTransaction', { row });
+          } else if (isSupabaseEnabled()) {
+            const supabase = createClient();
+            const { data, error } = await supabase
+              .from('inventory_transactions')
+              .insert(row)
+              .select(INVENTORY_TRANSACTION_COLUMNS)
+              .single();
+
+            if (error || !data) {
+              console.error('Failed to record inventory transaction:', error);
+              throw new Error('Unable to save the stock change');
+            }
+            transaction = mapInventoryTransactionRow(data as InventoryTransactionRow);
+          }
+
+          set((state) => {
+            state.stockLevels = applyStockChange(
+              state.stockLevels,
+              transaction.itemKey,
+              transaction.size,
+              transaction.quantity
+            );
+          });
+          return transaction;
+        };
+
+        return {
+          // Initial State
+          inventoryItems: [],
+          stockLevels: [],
+          isLoading: false,
+          error: null,
+
+          loadFromSupabase: async (): Promise<void> => {
+            if (!isSupabaseEnabled()) return;
+
+            set((state) => {
+              state.isLoading = true;
+              state.error = null;
+            });
+
+            try {
+              const supabase = createClient();
+              const [itemsRes, levelsRes] = await Promise.all([
+                supabase.from('inventory_items').select(INVENTORY_ITEM_COLUMNS).order('name', { ascending: true }),
+                supabase.from('inventory_stock_levels').select('item_key, size, on_hand'),
+              ]);
+
+              if (itemsRes.error) throw itemsRes.error;
+              if (levelsRes.error) throw levelsRes.error;
+
+              set((state) => {
+                state.inventoryItems = (itemsRes.data || []).map((row) =>
+                  mapInventoryItemRow(row as InventoryItemRow)
+                );
+                state.stockLevels = (levelsRes.data || []).map((row) =>
+                  mapInventoryStockLevelRow(row as InventoryStockLevelRow)
+                );
+                state.isLoading = false;
+              });
+            } catch (error) {
+              console.error('Failed to load inventory from Supabase:', error);
+              set((state) => {
+                state.isLoading = false;
+                state.error = error instanceof Error ? error.message : 'Failed to load inventory';
+              });
+            }
+          },
+
+          // Adds a catalog item or updates the one with the same key
+          saveInventoryItem: async (input: InventoryItemInput): Promise<InventoryItem> => {
+            if (!input.itemKey || !input.name.trim()) throw new Error('Item name is required');
+            if (!Number.isInteger(input.lowStockThreshold) || input.lowStockThreshold < 0) {
+              throw new Error('Low-stock threshold must be zero or more');
+            }
+
+            const existing = get().inventoryItems.find((item) => item.itemKey === input.itemKey);
+            let saved: InventoryItem = { id: existing?.id ?? createClientId(), ...input, name: input.name.trim() };
+
+            if (isSupabaseEnabled()) {
+              if (isBrowserOffline()) {
+                throw new Error('The inventory catalog can only be changed while online.');
+              }
+              const supabase = createClient();
+              const { data, error } = await supabase
+                .from('inventory_items')
+                .upsert(
+                  {
+                    item_key: saved.itemKey,
+                    name: saved.name,
+                    sizes: saved.sizes,
+                    low_stock_threshold: saved.lowStockThreshold,
+                    active: saved.active,
+                    updated_at: new Date().toISOString(),
+                  },
+                  { onConflict: 'item_key' }
+                )
+                .select(INVENTORY_ITEM_COLUMNS)
+                .single();
+
+              if (error || !data) {
+                console.error('Failed to save inventory item:', error);
+                throw new Error('Unable to save the item');
+              }
+              saved = mapInventoryItemRow(data as InventoryItemRow);
+            }
+
+            set((state) => {
+              const index = state.inventoryItems.findIndex((item) => item.itemKey === saved.itemKey);
+              if (index >= 0) {
+                state.inventoryItems[index] = saved;
+              } else {
+                state.inventoryItems.push(saved);
+                state.inventoryItems.sort((a, b) => a.name.localeCompare(b.name));
+              }
+            });
+            return saved;
+          },
+
+          receiveStock: (input: InventoryTransactionInput) => recordTransaction('receive', input),
+
+          adjustStock: (input: InventoryTransactionInput) => recordTransaction('adjust', input),
+
+          applyDistribution: (itemKey: string, size: string | null, quantity: number) => {
+            if (!get().inventoryItems.some((item) => item.itemKey === itemKey)) return;
+            set((state) => {
+              state.stockLevels = applyStockChange(state.stockLevels, itemKey, size, -quantity);
+            });
+          },
+
+          // Transactions are only needed for reports and are not kept in the store
+          fetchInventoryTransactions: async (since: string): Promise<InventoryTransaction[]> => {
+            if (!isSupabaseEnabled()) return [];
+
+            const supabase = createClient();
+            const { data, error } = await supabase
+              .from('inventory_transactions')
+              .select(INVENTORY_TRANSACTION_COLUMNS)
+              .gte('created_at', since)
+              .order('created_at', { ascending: true });
+
+            if (error) {
+              console.error('Failed to load inventory transactions:', error);
+              throw new Error('Unable to load stock history');
+            }
+
+            return (data || []).map((row) => mapInventoryTransactionRow(row as InventoryTransactionRow));
+          },
+
+          clearInventory: () => {
+            set((state) => {
+              state.inventoryItems = [];
+              state.stockLevels = [];
+            });
+          },
+
+          // Selectors
+          getStockOnHand: (itemKey: string, size: string | null): number => {
+            return stockOnHandFor(get().stockLevels, itemKey, size);
+          },
+
+          getLowStock: (): LowStockEntry[] => {
+            return findLowStock(get().inventoryItems, get().stockLevels);
+          },
+        };
+      }),
+      {
+        name: 'hopes-corner-inventory',
+        partialize: (state) => ({
+          inventoryItems: state.inventoryItems,
+          stockLevels: state.stockLevels,
+        }),
+      }
+    ),
+    { name: 'InventoryStore' }
+  )
+);
@@ -3,7 +3,19 @@ import { persist, devtools, subscribeWithSelector } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
-import type { MealRecord, HolidayRecord, HaircutRecord, MealType } from '@/lib/types';
+import { queueOperation } from '@/lib/utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '@/lib/utils/offlineOperations';
+import { subscribeToTableChanges, getChangedRowId } from '@/lib/utils/realtime';
+import { assertEligible, logEligibilityOverride, type EligibilityRequest } from '@/lib/utils/eligibility';
+import { useSettingsStore } from './useSettingsStore';
+import type {
+  MealRecord,
+  HolidayRecord,
+  HaircutRecord,
+  MealType,
+  BuiltInMealType,
+  EligibilityOverride,
+} from '@/lib/types';
 
 // Database row types
 interface MealAttendanceRow {
@@ -16,6 +28,8 @@ interface MealAttendanceRow {
   created_at: string;
   updated_at: string;
   notes: string | null;
+  picked_up_by_guest_id?: string | null;
+  picked_up_quantity?: number;
 }
 
 interface HolidayVisitRow {
@@ -43,6 +57,8 @@ function mapMealRow(row: MealAttendanceRow): MealRecord {
     servedOn: row.served_on,
     createdAt: row.created_at,
     type: row.meal_type || 'guest',
+    pickedUpBy: row.picked_up_by_guest_id ?? null,
+    pickedUpCount: row.picked_up_quantity ?? 0,
   };
 }
 
@@ -64,6 +80,27 @@ function mapHaircutRow(row: HaircutVisitRow): HaircutRecord {
   };
 }
 
+// Which record list holds each meal type
+const MEAL_RECORD_KEYS = {
+  guest: 'mealRecords',
+  rv: 'rvMealRecords',
+  extra: 'extraMealRecords',
+  shelter: 'shelterMealRecords',
+  united_effort: 'unitedEffortMealRecords',
+  day_worker: 'dayWorkerMealRecords',
+  lunch_bag: 'lunchBagMealRecords',
+} as const satisfies Record<BuiltInMealType, keyof MealsState>;
+
+// Meal programs added through the meal type taxonomy share one list
+type MealRecordsKey = (typeof MEAL_RECORD_KEYS)[BuiltInMealType] | 'programMealRecords';
+
+const mealRecordsKeyFor = (type: MealType): MealRecordsKey =>
+  Object.prototype.hasOwnProperty.call(MEAL_RECORD_KEYS, type)
+    ? MEAL_RECORD_KEYS[type as BuiltInMealType]
+    : 'programMealRecords';
+
+const MEAL_RECORD_LISTS: MealRecordsKey[] = [...Object.values(MEAL_RECORD_KEYS), 'programMealRecords'];
+
 // Store state interface
 interface MealsState {
   // State
@@ -74,6 +111,7 @@ interface MealsState {
   unitedEffortMealRecords: MealRecord[];
   dayWorkerMealRecords: MealRecord[];
   lunchBagMealRecords: MealRecord[];
+  programMealRecords: MealRecord[];
   holidayRecords: HolidayRecord[];
   haircutRecords: HaircutRecord[];
   isLoading: boolean;
@@ -83,7 +121,13 @@ interface MealsState {
 // Store actions interface
 interface MealsActions {
   // Meal Actions
-  addMealRecord: (guestId: string, quantity?: number) => Promise<MealRecord>;
+  // pickedUpBy: linked guest collecting the meal for an absent guest
+  addMealRecord: (
+    guestId: string,
+    quantity?: number,
+    pickedUpBy?: string,
+    override?: EligibilityOverride
+  ) => Promise<MealRecord>;
   deleteMealRecord: (recordId: string) => Promise<void>;
   undoMealForGuest: (guestId: string) => Promise<void>;
   
@@ -94,6 +138,10 @@ interface MealsActions {
   // Extra Meal Actions
   addExtraMealRecord: (guestId: string, quantity?: number) => Promise<MealRecord>;
   deleteExtraMealRecord: (recordId: string) => Promise<void>;
+
+  // Partner Meal Actions: counts for a meal program, with no guest attached
+  addPartnerMealRecord: (type: MealType, quantity: number) => Promise<MealRecord>;
+  deletePartnerMealRecord: (recordId: string) => Promise<void>;
   
   // Holiday Records
   addHolidayRecord: (guestId: string) => Promise<HolidayRecord>;
@@ -106,6 +154,13 @@ interface MealsActions {
   // Load from Supabase
   loadFromSupabase: () => Promise<void>;
   
+  // Merge a meal_attendance row from Supabase into local state (dedupe by id)
+  mergeServerMealRow: (row: Record<string, unknown>) => void;
+  removeServerMealRow: (id: string) => void;
+  
+  // Follow changes made on other devices; returns an unsubscribe function
+  subscribeToRealtime: () => () => void;
+  
   // Clear all records
   clearMealRecords: () => void;
   
@@ -136,16 +191,90 @@ export const useMealsStore = create<MealsStore>()(
           unitedEffortMealRecords: [],
           dayWorkerMealRecords: [],
           lunchBagMealRecords: [],
+          programMealRecords: [],
           holidayRecords: [],
           haircutRecords: [],
           isLoading: false,
           error: null,
 
           // Meal Actions
-          addMealRecord: async (guestId: string, quantity = 1): Promise<MealRecord> => {
+          addMealRecord: async (
+            guestId: string,
+            quantity = 1,
+            pickedUpBy?: string,
+            override?: EligibilityOverride
+          ): Promise<MealRecord> => {
             if (!guestId) throw new Error('Guest ID is required');
 
             const todayStr = todayPacificDateString();
+            // Only the meals collected on the guest's behalf count as picked up
+            const pickup = (alreadyPickedUp = 0) =>
+              pickedUpBy
+                ? { picked_up_by_guest_id: pickedUpBy, picked_up_quantity: alreadyPickedUp + quantity }
+                : {};
+
+            // Rules count guest meal check-ins, not the meals handed out at each
+            const eligibility: EligibilityRequest = { service: 'meal', guestId, date: todayStr, quantity: 1 };
+            const violations = assertEligible(
+              useSettingsStore.getState().eligibilityRules,
+              eligibility,
+              get().mealRecords.flatMap((r) =>
+                r.type === 'guest' && r.guestId ? [{ guestId: r.guestId, date: r.date, quantity: 1 }] : []
+              ),
+              override
+            );
+            // Log any override once the check-in is saved
+            const recorded = async (record: MealRecord): Promise<MealRecord> => {
+              if (override) await logEligibilityOverride(eligibility, violations, override);
+              return record;
+            };
+
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              // Offline: fold into today's local record and queue the check-in for replay
+              const id = createClientId();
+              await queueOperation('addMealRecord', {
+                row: { id, guest_id: guestId, quantity, served_on: todayStr, meal_type: 'guest', ...pickup() },
+              });
+
+              const existingLocal = get().mealRecords.find(
+                (r) => r.guestId === guestId && r.date === todayStr && r.type === 'guest'
+              );
+              if (existingLocal) {
+                set((state) => {
+                  const idx = state.mealRecords.findIndex((r) => r.id === existingLocal.id);
+                  if (idx >= 0) {
+                    state.mealRecords[idx].count += quantity;
+                    if (pickedUpBy) {
+                      state.mealRecords[idx].pickedUpBy = pickedUpBy;
+                      state.mealRecords[idx].pickedUpCount = (existingLocal.pickedUpCount ?? 0) + quantity;
+                    }
+                  }
+                });
+                return recorded({
+                  ...existingLocal,
+                  count: existingLocal.count + quantity,
+                  pickedUpBy: pickedUpBy || existingLocal.pickedUpBy,
+                  pickedUpCount: (existingLocal.pickedUpCount ?? 0) + (pickedUpBy ? quantity : 0),
+                });
+              }
+
+              const queuedRecord: MealRecord = {
+                id,
+                guestId,
+                count: quantity,
+                date: todayStr,
+                recordedAt: new Date().toISOString(),
+                servedOn: todayStr,
+                createdAt: new Date().toISOString(),
+                type: 'guest',
+                pickedUpBy: pickedUpBy || null,
+                pickedUpCount: pickedUpBy ? quantity : 0,
+              };
+              set((state) => {
+                state.mealRecords.push(queuedRecord);
+              });
+              return recorded(queuedRecord);
+            }
 
             if (isSupabaseEnabled()) {
               const supabase = createClient();
@@ -153,7 +282,7 @@ export const useMealsStore = create<MealsStore>()(
               // Check if a record already exists for this guest today
               const { data: existing } = await supabase
                 .from('meal_attendance')
-                .select('id, quantity')
+                .select('id, quantity, picked_up_quantity')
                 .eq('guest_id', guestId)
                 .eq('served_on', todayStr)
                 .eq('meal_type', 'guest')
@@ -164,7 +293,11 @@ export const useMealsStore = create<MealsStore>()(
                 const newQuantity = existing.quantity + quantity;
                 const { data, error } = await supabase
                   .from('meal_attendance')
-                  .update({ quantity: newQuantity, updated_at: new Date().toISOString() })
+                  .update({
+                    quantity: newQuantity,
+                    updated_at: new Date().toISOString(),
+                    ...pickup(existing.picked_up_quantity ?? 0),
+                  })
                   .eq('id', existing.id)
                   .select()
                   .single();
@@ -183,7 +316,7 @@ export const useMealsStore = create<MealsStore>()(
                     state.mealRecords.push(mapped);
                   }
                 });
-                return mapped;
+                return recorded(mapped);
               }
 
               // No existing record, create new one
@@ -192,6 +325,7 @@ export const useMealsStore = create<MealsStore>()(
                 quantity,
                 served_on: todayStr,
                 meal_type: 'guest' as MealType,
+                ...pickup(),
               };
 
               const { data, error } = await supabase
@@ -209,7 +343,7 @@ export const useMealsStore = create<MealsStore>()(
               set((state) => {
                 state.mealRecords.push(mapped);
               });
-              return mapped;
+              return recorded(mapped);
             }
 
             // Local fallback
@@ -222,12 +356,14 @@ export const useMealsStore = create<MealsStore>()(
               servedOn: todayStr,
               createdAt: new Date().toISOString(),
               type: 'guest',
+              pickedUpBy: pickedUpBy || null,
+              pickedUpCount: pickedUpBy ? quantity : 0,
             };
 
             set((state) => {
               state.mealRecords.push(fallbackRecord);
             });
-            return fallbackRecord;
+            return recorded(fallbackRecord);
           },
 
           deleteMealRecord: async (recordId: string): Promise<void> => {
@@ -238,6 +374,11 @@ export const useMealsStore = create<MealsStore>()(
               state.mealRecords = state.mealRecords.filter((r) => r.id !== recordId);
             });
 
+            if (isSupabaseEnabled() && target && isBrowserOffline()) {
+              await queueOperation('deleteMealRecord', { id: recordId });
+              return;
+            }
+
             if (isSupabaseEnabled() && target) {
               const supabase = createClient();
               const { error } = await supabase
@@ -256,7 +397,7 @@ export const useMealsStore = create<MealsStore>()(
 
             const todayStr = todayPacificDateString();
 
-            if (isSupabaseEnabled()) {
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
               const supabase = createClient();
 
               // Find today's meal record for this guest
@@ -297,6 +438,9 @@ export const useMealsStore = create<MealsStore>()(
                 set((state) => {
                   state.mealRecords = state.mealRecords.filter((r) => r.id !== todayRecord.id);
                 });
+                if (isSupabaseEnabled()) {
+                  await queueOperation('deleteMealRecord', { id: todayRecord.id });
+                }
               }
             }
           },
@@ -306,16 +450,15 @@ export const useMealsStore = create<MealsStore>()(
             if (!guestId) throw new Error('Guest ID is required');
 
             const todayStr = todayPacificDateString();
+            const payload = {
+              guest_id: guestId,
+              quantity,
+              served_on: todayStr,
+              meal_type: 'rv' as MealType,
+            };
 
-            if (isSupabaseEnabled()) {
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
               const supabase = createClient();
-              const payload = {
-                guest_id: guestId,
-                quantity,
-                served_on: todayStr,
-                meal_type: 'rv' as MealType,
-              };
-
               const { data, error } = await supabase
                 .from('meal_attendance')
                 .insert(payload)
@@ -334,8 +477,10 @@ export const useMealsStore = create<MealsStore>()(
               return mapped;
             }
 
+            // Local fallback; queued for replay when Supabase is configured but offline
+            const queueForSync = isSupabaseEnabled();
             const fallbackRecord: MealRecord = {
-              id: `local-rv-meal-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-rv-meal-${Date.now()}`,
               guestId,
               count: quantity,
               date: todayStr,
@@ -345,6 +490,10 @@ export const useMealsStore = create<MealsStore>()(
               type: 'rv',
             };
 
+            if (queueForSync) {
+              await queueOperation('addRvMealRecord', { row: { ...payload, id: fallbackRecord.id } });
+            }
+
             set((state) => {
               state.rvMealRecords.push(fallbackRecord);
             });
@@ -356,6 +505,11 @@ export const useMealsStore = create<MealsStore>()(
               state.rvMealRecords = state.rvMealRecords.filter((r) => r.id !== recordId);
             });
 
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('deleteMealRecord', { id: recordId });
+              return;
+            }
+
             if (isSupabaseEnabled()) {
               const supabase = createClient();
               const { error } = await supabase
@@ -374,16 +528,15 @@ export const useMealsStore = create<MealsStore>()(
             if (!guestId) throw new Error('Guest ID is required');
 
             const todayStr = todayPacificDateString();
+            const payload = {
+              guest_id: guestId,
+              quantity,
+              served_on: todayStr,
+              meal_type: 'extra' as MealType,
+            };
 
-            if (isSupabaseEnabled()) {
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
               const supabase = createClient();
-              const payload = {
-                guest_id: guestId,
-                quantity,
-                served_on: todayStr,
-                meal_type: 'extra' as MealType,
-              };
-
               const { data, error } = await supabase
                 .from('meal_attendance')
                 .insert(payload)
@@ -402,8 +555,10 @@ export const useMealsStore = create<MealsStore>()(
               return mapped;
             }
 
+            // Local fallback; queued for replay when Supabase is configured but offline
+            const queueForSync = isSupabaseEnabled();
             const fallbackRecord: MealRecord = {
-              id: `local-extra-meal-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-extra-meal-${Date.now()}`,
               guestId,
               count: quantity,
               date: todayStr,
@@ -413,6 +568,10 @@ export const useMealsStore = create<MealsStore>()(
               type: 'extra',
             };
 
+            if (queueForSync) {
+              await queueOperation('addExtraMealRecord', { row: { ...payload, id: fallbackRecord.id } });
+            }
+
             set((state) => {
               state.extraMealRecords.push(fallbackRecord);
             });
@@ -424,6 +583,11 @@ export const useMealsStore = create<MealsStore>()(
               state.extraMealRecords = state.extraMealRecords.filter((r) => r.id !== recordId);
             });
 
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('deleteMealRecord', { id: recordId });
+              return;
+            }
+
             if (isSupabaseEnabled()) {
               const supabase = createClient();
               const { error } = await supabase
@@ -437,16 +601,96 @@ export const useMealsStore = create<MealsStore>()(
             }
           },
 
+          // Partner Meal Actions
+          addPartnerMealRecord: async (type: MealType, quantity: number): Promise<MealRecord> => {
+            if (type === 'guest') throw new Error('Guest meals are recorded at check-in');
+            if (!Number.isInteger(quantity) || quantity <= 0) {
+              throw new Error('Quantity must be a whole number above zero');
+            }
+
+            const todayStr = todayPacificDateString();
+            const listKey = mealRecordsKeyFor(type);
+            const payload = {
+              guest_id: null,
+              quantity,
+              served_on: todayStr,
+              meal_type: type,
+            };
+
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
+              const supabase = createClient();
+              const { data, error } = await supabase
+                .from('meal_attendance')
+                .insert(payload)
+                .select()
+                .single();
+
+              if (error) {
+                console.error('Failed to add partner meal record to Supabase:', error);
+                throw new Error('Unable to save meal record');
+              }
+
+              const mapped = mapMealRow(data as MealAttendanceRow);
+              set((state) => {
+                state[listKey].push(mapped);
+              });
+              return mapped;
+            }
+
+            // Local fallback; queued for replay when Supabase is configured but offline
+            const queueForSync = isSupabaseEnabled();
+            const fallbackRecord: MealRecord = {
+              id: queueForSync ? createClientId() : `local-partner-meal-${Date.now()}`,
+              guestId: null,
+              count: quantity,
+              date: todayStr,
+              recordedAt: new Date().toISOString(),
+              servedOn: todayStr,
+              createdAt: new Date().toISOString(),
+              type,
+            };
+
+            if (queueForSync) {
+              await queueOperation('addPartnerMealRecord', { row: { ...payload, id: fallbackRecord.id } });
+            }
+
+            set((state) => {
+              state[listKey].push(fallbackRecord);
+            });
+            return fallbackRecord;
+          },
+
+          deletePartnerMealRecord: async (recordId: string): Promise<void> => {
+            get().removeServerMealRow(recordId);
+
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('deleteMealRecord', { id: recordId });
+              return;
+            }
+
+            if (isSupabaseEnabled()) {
+              const supabase = createClient();
+              const { error } = await supabase
+                .from('meal_attendance')
+                .delete()
+                .eq('id', recordId);
+
+              if (error) {
+                console.error('Failed to delete partner meal record from Supabase:', error);
+              }
+            }
+          },
+
           // Holiday Records
           addHolidayRecord: async (guestId: string): Promise<HolidayRecord> => {
             if (!guestId) throw new Error('Guest ID is required');
 
-            if (isSupabaseEnabled()) {
-              const supabase = createClient();
-              const payload = {
-                guest_id: guestId,
-              };
+            const payload = {
+              guest_id: guestId,
+            };
 
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
+              const supabase = createClient();
               const { data, error } = await supabase
                 .from('holiday_visits')
                 .insert(payload)
@@ -465,14 +709,22 @@ export const useMealsStore = create<MealsStore>()(
               return mapped;
             }
 
+            // Local fallback; queued for replay when Supabase is configured but offline
             const todayStr = todayPacificDateString();
+            const queueForSync = isSupabaseEnabled();
             const fallbackRecord: HolidayRecord = {
-              id: `local-holiday-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-holiday-${Date.now()}`,
               guestId,
               date: todayStr,
               type: 'holiday',
             };
 
+            if (queueForSync) {
+              await queueOperation('addHolidayRecord', {
+                row: { ...payload, id: fallbackRecord.id, served_at: new Date().toISOString() },
+              });
+            }
+
             set((state) => {
               state.holidayRecords.push(fallbackRecord);
             });
@@ -487,6 +739,11 @@ export const useMealsStore = create<MealsStore>()(
               state.holidayRecords = state.holidayRecords.filter((r) => r.id !== recordId);
             });
 
+            if (isSupabaseEnabled() && target && isBrowserOffline()) {
+              await queueOperation('deleteHolidayRecord', { id: recordId });
+              return;
+            }
+
             if (isSupabaseEnabled() && target) {
               const supabase = createClient();
               const { error } = await supabase
@@ -504,12 +761,12 @@ export const useMealsStore = create<MealsStore>()(
           addHaircutRecord: async (guestId: string): Promise<HaircutRecord> => {
             if (!guestId) throw new Error('Guest ID is required');
 
-            if (isSupabaseEnabled()) {
-              const supabase = createClient();
-              const payload = {
-                guest_id: guestId,
-              };
+            const payload = {
+              guest_id: guestId,
+            };
 
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
+              const supabase = createClient();
               const { data, error } = await supabase
                 .from('haircut_visits')
                 .insert(payload)
@@ -528,14 +785,22 @@ export const useMealsStore = create<MealsStore>()(
               return mapped;
             }
 
+            // Local fallback; queued for replay when Supabase is configured but offline
             const todayStr = todayPacificDateString();
+            const queueForSync = isSupabaseEnabled();
             const fallbackRecord: HaircutRecord = {
-              id: `local-haircut-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-haircut-${Date.now()}`,
               guestId,
               date: todayStr,
               type: 'haircut',
             };
 
+            if (queueForSync) {
+              await queueOperation('addHaircutRecord', {
+                row: { ...payload, id: fallbackRecord.id, served_at: new Date().toISOString() },
+              });
+            }
+
             set((state) => {
               state.haircutRecords.push(fallbackRecord);
             });
@@ -550,6 +815,11 @@ export const useMealsStore = create<MealsStore>()(
               state.haircutRecords = state.haircutRecords.filter((r) => r.id !== recordId);
             });
 
+            if (isSupabaseEnabled() && target && isBrowserOffline()) {
+              await queueOperation('deleteHaircutRecord', { id: recordId });
+              return;
+            }
+
             if (isSupabaseEnabled() && target) {
               const supabase = createClient();
               const { error } = await supabase
@@ -578,7 +848,7 @@ export const useMealsStore = create<MealsStore>()(
               const [mealRes, holidayRes, haircutRes] = await Promise.all([
                 supabase
                   .from('meal_attendance')
-                  .select('id,guest_id,quantity,served_on,meal_type,recorded_at,created_at,updated_at,notes')
+                  .select('id,guest_id,quantity,served_on,meal_type,recorded_at,created_at,updated_at,notes,picked_up_by_guest_id,picked_up_quantity')
                   .order('created_at', { ascending: false }),
                 supabase
                   .from('holiday_visits')
@@ -602,6 +872,7 @@ export const useMealsStore = create<MealsStore>()(
               const unitedEffortMeals = meals.filter((m) => m.type === 'united_effort');
               const dayWorkerMeals = meals.filter((m) => m.type === 'day_worker');
               const lunchBagMeals = meals.filter((m) => m.type === 'lunch_bag');
+              const programMeals = meals.filter((m) => mealRecordsKeyFor(m.type) === 'programMealRecords');
 
               set((state) => {
                 state.mealRecords = guestMeals;
@@ -611,6 +882,7 @@ export const useMealsStore = create<MealsStore>()(
                 state.unitedEffortMealRecords = unitedEffortMeals;
                 state.dayWorkerMealRecords = dayWorkerMeals;
                 state.lunchBagMealRecords = lunchBagMeals;
+                state.programMealRecords = programMeals;
                 state.holidayRecords = (holidayRes.data || []).map((row) => 
                   mapHolidayRow(row as HolidayVisitRow)
                 );
@@ -628,6 +900,45 @@ export const useMealsStore = create<MealsStore>()(
             }
           },
 
+          // Merge a meal row from Supabase, moving it if its type changed
+          mergeServerMealRow: (row: Record<string, unknown>): void => {
+            const mapped = mapMealRow(row as unknown as MealAttendanceRow);
+            const targetKey = mealRecordsKeyFor(mapped.type);
+            set((state) => {
+              MEAL_RECORD_LISTS.forEach((key) => {
+                if (key !== targetKey) {
+                  state[key] = state[key].filter((r) => r.id !== mapped.id);
+                }
+              });
+              const index = state[targetKey].findIndex((r) => r.id === mapped.id);
+              if (index !== -1) state[targetKey][index] = mapped;
+              else state[targetKey].unshift(mapped);
+            });
+          },
+
+          // Drop a meal row that no longer exists in Supabase
+          removeServerMealRow: (id: string): void => {
+            set((state) => {
+              MEAL_RECORD_LISTS.forEach((key) => {
+                state[key] = state[key].filter((r) => r.id !== id);
+              });
+            });
+          },
+
+          // Realtime sync
+          subscribeToRealtime: (): (() => void) => {
+            if (!isSupabaseEnabled()) return () => {};
+
+            return subscribeToTableChanges('meals-realtime', ['meal_attendance'], (change) => {
+              if (change.eventType === 'DELETE') {
+                const id = getChangedRowId(change);
+                if (id) get().removeServerMealRow(id);
+              } else if (change.row) {
+                get().mergeServerMealRow(change.row);
+              }
+            });
+          },
+
           // Clear all records
           clearMealRecords: (): void => {
             set((state) => {
@@ -638,6 +949,7 @@ export const useMealsStore = create<MealsStore>()(
               state.unitedEffortMealRecords = [];
               state.dayWorkerMealRecords = [];
               state.lunchBagMealRecords = [];
+              state.programMealRecords = [];
               state.holidayRecords = [];
               state.haircutRecords = [];
             });
@@ -689,6 +1001,7 @@ export const useMealsStore = create<MealsStore>()(
               ...get().unitedEffortMealRecords,
               ...get().dayWorkerMealRecords,
               ...get().lunchBagMealRecords,
+              ...get().programMealRecords,
             ];
             return allMeals.filter((m) => m.type === type);
           },
@@ -711,6 +1024,7 @@ export const useMealsStore = create<MealsStore>()(
             unitedEffortMealRecords: state.unitedEffortMealRecords,
             dayWorkerMealRecords: state.dayWorkerMealRecords,
             lunchBagMealRecords: state.lunchBagMealRecords,
+            programMealRecords: state.programMealRecords,
             holidayRecords: state.holidayRecords,
             haircutRecords: state.haircutRecords,
           }),
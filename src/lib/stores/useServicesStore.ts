@@ -2,15 +2,31 @@ import { create } from 'zustand';
 import { persist, devtools, subscribeWithSelector } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
-import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
+import { todayPacificDateString, nowPacificTimeString, pacificDateStringFrom } from '@/lib/utils/date';
+import { queueOperation } from '@/lib/utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '@/lib/utils/offlineOperations';
+import { subscribeToTableChanges, getChangedRowId } from '@/lib/utils/realtime';
+import { getShowerSlotFill, findNextOpenShowerSlot, formatShowerSlotLabel } from '@/lib/utils/showerSlots';
+import {
+  releasesShowerSlot,
+  releasesLaundryMachine,
+  findShowerPromotion,
+  findLaundryPromotion,
+} from '@/lib/utils/waitlist';
+import { assertEligible, logEligibilityOverride, type EligibilityRequest } from '@/lib/utils/eligibility';
+import { useSettingsStore } from './useSettingsStore';
 import type { 
   ShowerRecord, 
   LaundryRecord, 
   BicycleRepair, 
   ShowerStatus, 
   LaundryStatus, 
+  LaundryCloseoutFlag,
   LaundryType,
-  BicycleRepairStatus 
+  BicycleRepairStatus,
+  WaitlistPromotion,
+  WaitlistService,
+  EligibilityOverride,
 } from '@/lib/types';
 
 // Database row types
@@ -33,6 +49,8 @@ interface LaundryBookingRow {
   bag_number: string | null;
   scheduled_for: string;
   status: LaundryStatus;
+  closeout_flag?: LaundryCloseoutFlag | null;
+  picked_up_by_guest_id?: string | null;
   created_at: string;
   updated_at: string;
   note: string | null;
@@ -76,6 +94,8 @@ function mapLaundryRow(row: LaundryBookingRow): LaundryRecord {
     scheduledFor: row.scheduled_for,
     date: row.scheduled_for,
     status: row.status,
+    closeoutFlag: row.closeout_flag ?? null,
+    pickedUpBy: row.picked_up_by_guest_id ?? null,
     createdAt: row.created_at,
     lastUpdated: row.updated_at,
   };
@@ -97,11 +117,71 @@ function mapBicycleRow(row: BicycleRepairRow): BicycleRepair {
   };
 }
 
+// Tables whose rows can be merged back into the store
+export type ServiceTable = 'shower_reservations' | 'laundry_bookings' | 'bicycle_repairs';
+
+const SERVICE_TABLES: readonly ServiceTable[] = ['shower_reservations', 'laundry_bookings', 'bicycle_repairs'];
+
+function createPromotion(
+  service: WaitlistService,
+  record: { id: string; guestId: string },
+  freedRecordId: string,
+  slotTime: string | null
+): WaitlistPromotion {
+  return {
+    id: createClientId(),
+    service,
+    recordId: record.id,
+    guestId: record.guestId,
+    freedRecordId,
+    slotTime,
+    promotedAt: new Date().toISOString(),
+    calledAt: null,
+  };
+}
+
+// Promotions only matter for the day they happen; drop earlier days as new ones arrive
+function addTodaysPromotion(
+  promotions: WaitlistPromotion[],
+  promotion: WaitlistPromotion
+): WaitlistPromotion[] {
+  const today = todayPacificDateString();
+  return [promotion, ...promotions.filter((p) => pacificDateStringFrom(p.promotedAt) === today)];
+}
+
+// Keep a server copy of each promotion; failures are logged, the local list still has it
+async function persistPromotion(promotion: WaitlistPromotion): Promise<void> {
+  if (!isSupabaseEnabled()) return;
+
+  const row = {
+    id: promotion.id,
+    service: promotion.service,
+    record_id: promotion.recordId,
+    guest_id: promotion.guestId,
+    freed_record_id: promotion.freedRecordId,
+    slot_time: promotion.slotTime,
+    promoted_at: promotion.promotedAt,
+  };
+
+  if (isBrowserOffline()) {
+    await queueOperation('addWaitlistPromotion', { row });
+    return;
+  }
+
+  const supabase = createClient();
+  const { error } = await supabase.from('waitlist_promotions').insert(row);
+  if (error) {
+    console.error('Failed to record waitlist promotion in Supabase:', error);
+  }
+}
+
 // Store state interface
 interface ServicesState {
   showerRecords: ShowerRecord[];
   laundryRecords: LaundryRecord[];
   bicycleRecords: BicycleRepair[];
+  // Today's waitlist promotions, newest first
+  waitlistPromotions: WaitlistPromotion[];
   isLoading: boolean;
   error: string | null;
 }
@@ -118,13 +198,14 @@ interface BicycleRepairOptions {
 // Store actions interface
 interface ServicesActions {
   // Shower Actions
-  addShowerRecord: (guestId: string, time?: string) => Promise<ShowerRecord>;
+  addShowerRecord: (guestId: string, time?: string, override?: EligibilityOverride) => Promise<ShowerRecord>;
   updateShowerStatus: (recordId: string, status: ShowerStatus) => Promise<void>;
   deleteShowerRecord: (recordId: string) => Promise<void>;
   
   // Laundry Actions
-  addLaundryRecord: (guestId: string, washType: string) => Promise<LaundryRecord>;
-  updateLaundryStatus: (recordId: string, status: LaundryStatus) => Promise<void>;
+  addLaundryRecord: (guestId: string, washType: string, override?: EligibilityOverride) => Promise<LaundryRecord>;
+  // pickedUpBy: linked guest collecting finished laundry for an absent guest
+  updateLaundryStatus: (recordId: string, status: LaundryStatus, pickedUpBy?: string) => Promise<void>;
   deleteLaundryRecord: (recordId: string) => Promise<void>;
   
   // Bicycle Actions
@@ -132,9 +213,21 @@ interface ServicesActions {
   updateBicycleRecord: (recordId: string, updates: Partial<BicycleRepair>) => Promise<void>;
   deleteBicycleRecord: (recordId: string) => Promise<void>;
   
+  // Waitlist Actions: move the next guest up after `freed` gave its place back
+  promoteNextShower: (freed: ShowerRecord) => Promise<WaitlistPromotion | null>;
+  promoteNextLaundry: (freed: LaundryRecord) => Promise<WaitlistPromotion | null>;
+  markPromotionCalled: (promotionId: string) => Promise<void>;
+  
   // Load from Supabase
   loadFromSupabase: () => Promise<void>;
   
+  // Merge a row fetched from Supabase into local state (dedupe by id)
+  mergeServerRow: (table: ServiceTable, row: Record<string, unknown>) => void;
+  removeServerRow: (table: ServiceTable, id: string) => void;
+  
+  // Follow changes made on other devices; returns an unsubscribe function
+  subscribeToRealtime: () => () => void;
+  
   // Clear all records
   clearServiceRecords: () => void;
   
@@ -158,26 +251,66 @@ export const useServicesStore = create<ServicesStore>()(
           showerRecords: [],
           laundryRecords: [],
           bicycleRecords: [],
+          waitlistPromotions: [],
           isLoading: false,
           error: null,
 
           // Shower Actions
-          addShowerRecord: async (guestId: string, time?: string): Promise<ShowerRecord> => {
+          addShowerRecord: async (
+            guestId: string,
+            time?: string,
+            override?: EligibilityOverride
+          ): Promise<ShowerRecord> => {
             if (!guestId) throw new Error('Guest ID is required');
 
             const todayStr = todayPacificDateString();
 
-            if (isSupabaseEnabled()) {
-              const supabase = createClient();
-              const payload: Record<string, unknown> = {
-                guest_id: guestId,
-                scheduled_for: todayStr,
-                status: 'booked',
-              };
-              if (time) {
-                payload.scheduled_time = time;
+            // Cancelled showers and no-shows don't count against the guest
+            const eligibility: EligibilityRequest = { service: 'shower', guestId, date: todayStr, quantity: 1 };
+            const violations = assertEligible(
+              useSettingsStore.getState().eligibilityRules,
+              eligibility,
+              get()
+                .showerRecords.filter((r) => r.status !== 'cancelled' && r.status !== 'no_show')
+                .map((r) => ({ guestId: r.guestId, date: r.date, quantity: 1 })),
+              override
+            );
+
+            // Check the request against today's grid; with no time given, take the
+            // next open slot or fall back to the waitlist once every stall is taken
+            const fill = getShowerSlotFill(
+              useSettingsStore.getState().showerSlots,
+              todayStr,
+              get().showerRecords
+            );
+            if (fill.length === 0) throw new Error('Showers are closed today');
+
+            let slotTime = time || null;
+            let status: ShowerStatus = 'booked';
+            if (slotTime) {
+              const slot = fill.find((s) => s.time === slotTime);
+              if (!slot) throw new Error(`${slotTime} is not a shower slot today`);
+              if (slot.isFull) throw new Error(`The ${formatShowerSlotLabel(slotTime)} shower slot is full`);
+            } else {
+              const openSlot = findNextOpenShowerSlot(fill, nowPacificTimeString());
+              if (openSlot) {
+                slotTime = openSlot.time;
+              } else {
+                status = 'waitlisted';
               }
+            }
+
+            const payload: Record<string, unknown> = {
+              guest_id: guestId,
+              scheduled_for: todayStr,
+              status,
+            };
+            if (slotTime) {
+              payload.scheduled_time = slotTime;
+            }
 
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
+              const supabase = createClient();
               const { data, error } = await supabase
                 .from('shower_reservations')
                 .insert(payload)
@@ -193,24 +326,31 @@ export const useServicesStore = create<ServicesStore>()(
               set((state) => {
                 state.showerRecords.push(mapped);
               });
+              if (override) await logEligibilityOverride(eligibility, violations, override);
               return mapped;
             }
 
-            // Local fallback
+            // Local fallback; queued for replay when Supabase is configured but offline
+            const queueForSync = isSupabaseEnabled();
             const fallbackRecord: ShowerRecord = {
-              id: `local-shower-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-shower-${Date.now()}`,
               guestId,
-              time: time || null,
+              time: slotTime,
               scheduledFor: todayStr,
               date: todayStr,
-              status: 'booked',
+              status,
               createdAt: new Date().toISOString(),
               lastUpdated: new Date().toISOString(),
             };
 
+            if (queueForSync) {
+              await queueOperation('addShowerRecord', { row: { ...payload, id: fallbackRecord.id } });
+            }
+
             set((state) => {
               state.showerRecords.push(fallbackRecord);
             });
+            if (override) await logEligibilityOverride(eligibility, violations, override);
             return fallbackRecord;
           },
 
@@ -230,7 +370,9 @@ export const useServicesStore = create<ServicesStore>()(
               }
             });
 
-            if (isSupabaseEnabled()) {
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('updateShowerStatus', { id: recordId, changes: { status } });
+            } else if (isSupabaseEnabled()) {
               const supabase = createClient();
               const { error } = await supabase
                 .from('shower_reservations')
@@ -249,6 +391,10 @@ export const useServicesStore = create<ServicesStore>()(
                 throw new Error('Unable to update shower status');
               }
             }
+
+            if (releasesShowerSlot(originalRecord.status, status)) {
+              await get().promoteNextShower({ ...originalRecord, status });
+            }
           },
 
           deleteShowerRecord: async (recordId: string): Promise<void> => {
@@ -259,7 +405,9 @@ export const useServicesStore = create<ServicesStore>()(
               state.showerRecords = state.showerRecords.filter((r) => r.id !== recordId);
             });
 
-            if (isSupabaseEnabled() && target) {
+            if (isSupabaseEnabled() && target && isBrowserOffline()) {
+              await queueOperation('deleteShowerRecord', { id: recordId });
+            } else if (isSupabaseEnabled() && target) {
               const supabase = createClient();
               const { error } = await supabase
                 .from('shower_reservations')
@@ -270,24 +418,40 @@ export const useServicesStore = create<ServicesStore>()(
                 console.error('Failed to delete shower record from Supabase:', error);
               }
             }
+
+            if (target && releasesShowerSlot(target.status, null)) {
+              await get().promoteNextShower(target);
+            }
           },
 
           // Laundry Actions
-          addLaundryRecord: async (guestId: string, washType: string): Promise<LaundryRecord> => {
+          addLaundryRecord: async (
+            guestId: string,
+            washType: string,
+            override?: EligibilityOverride
+          ): Promise<LaundryRecord> => {
             if (!guestId) throw new Error('Guest ID is required');
             if (!washType) throw new Error('Wash type is required');
 
             const todayStr = todayPacificDateString();
 
-            if (isSupabaseEnabled()) {
-              const supabase = createClient();
-              const payload = {
-                guest_id: guestId,
-                laundry_type: washType.toLowerCase(),
-                scheduled_for: todayStr,
-                status: 'waiting' as LaundryStatus,
-              };
+            const eligibility: EligibilityRequest = { service: 'laundry', guestId, date: todayStr, quantity: 1 };
+            const violations = assertEligible(
+              useSettingsStore.getState().eligibilityRules,
+              eligibility,
+              get().laundryRecords.map((r) => ({ guestId: r.guestId, date: r.date, quantity: 1 })),
+              override
+            );
+
+            const payload = {
+              guest_id: guestId,
+              laundry_type: washType.toLowerCase(),
+              scheduled_for: todayStr,
+              status: 'waiting' as LaundryStatus,
+            };
 
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
+              const supabase = createClient();
               const { data, error } = await supabase
                 .from('laundry_bookings')
                 .insert(payload)
@@ -303,12 +467,14 @@ export const useServicesStore = create<ServicesStore>()(
               set((state) => {
                 state.laundryRecords.push(mapped);
               });
+              if (override) await logEligibilityOverride(eligibility, violations, override);
               return mapped;
             }
 
-            // Local fallback
+            // Local fallback; queued for replay when Supabase is configured but offline
+            const queueForSync = isSupabaseEnabled();
             const fallbackRecord: LaundryRecord = {
-              id: `local-laundry-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-laundry-${Date.now()}`,
               guestId,
               time: null,
               laundryType: washType.toLowerCase() as LaundryType,
@@ -320,33 +486,51 @@ export const useServicesStore = create<ServicesStore>()(
               lastUpdated: new Date().toISOString(),
             };
 
+            if (queueForSync) {
+              await queueOperation('addLaundryRecord', { row: { ...payload, id: fallbackRecord.id } });
+            }
+
             set((state) => {
               state.laundryRecords.push(fallbackRecord);
             });
+            if (override) await logEligibilityOverride(eligibility, violations, override);
             return fallbackRecord;
           },
 
-          updateLaundryStatus: async (recordId: string, status: LaundryStatus): Promise<void> => {
+          updateLaundryStatus: async (recordId: string, status: LaundryStatus, pickedUpBy?: string): Promise<void> => {
             const { laundryRecords } = get();
             const target = laundryRecords.find((r) => r.id === recordId);
             
             if (!target) throw new Error('Laundry record not found');
 
             const originalRecord = { ...target };
+            const changes: Record<string, unknown> = { status };
+            const original: Record<string, unknown> = { status: originalRecord.status };
+            if (pickedUpBy) {
+              changes.picked_up_by_guest_id = pickedUpBy;
+              original.picked_up_by_guest_id = originalRecord.pickedUpBy ?? null;
+            }
 
             set((state) => {
               const index = state.laundryRecords.findIndex((r) => r.id === recordId);
               if (index !== -1) {
                 state.laundryRecords[index].status = status;
+                if (pickedUpBy) state.laundryRecords[index].pickedUpBy = pickedUpBy;
                 state.laundryRecords[index].lastUpdated = new Date().toISOString();
               }
             });
 
-            if (isSupabaseEnabled()) {
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('updateLaundryStatus', {
+                id: recordId,
+                changes,
+                original,
+              });
+            } else if (isSupabaseEnabled()) {
               const supabase = createClient();
               const { error } = await supabase
                 .from('laundry_bookings')
-                .update({ status })
+                .update(changes)
                 .eq('id', recordId);
 
               if (error) {
@@ -361,6 +545,10 @@ export const useServicesStore = create<ServicesStore>()(
                 throw new Error('Unable to update laundry status');
               }
             }
+
+            if (releasesLaundryMachine(originalRecord, status)) {
+              await get().promoteNextLaundry({ ...originalRecord, status });
+            }
           },
 
           deleteLaundryRecord: async (recordId: string): Promise<void> => {
@@ -371,7 +559,9 @@ export const useServicesStore = create<ServicesStore>()(
               state.laundryRecords = state.laundryRecords.filter((r) => r.id !== recordId);
             });
 
-            if (isSupabaseEnabled() && target) {
+            if (isSupabaseEnabled() && target && isBrowserOffline()) {
+              await queueOperation('deleteLaundryRecord', { id: recordId });
+            } else if (isSupabaseEnabled() && target) {
               const supabase = createClient();
               const { error } = await supabase
                 .from('laundry_bookings')
@@ -382,6 +572,10 @@ export const useServicesStore = create<ServicesStore>()(
                 console.error('Failed to delete laundry record from Supabase:', error);
               }
             }
+
+            if (target && releasesLaundryMachine(target, null)) {
+              await get().promoteNextLaundry(target);
+            }
           },
 
           // Bicycle Actions
@@ -396,18 +590,18 @@ export const useServicesStore = create<ServicesStore>()(
               priority = 0,
             } = options;
 
-            if (isSupabaseEnabled()) {
-              const supabase = createClient();
-              const payload = {
-                guest_id: guestId,
-                repair_type: repairType,
-                repair_types: repairTypes || [repairType],
-                notes,
-                status,
-                priority,
-                completed_repairs: [] as string[],
-              };
+            const payload = {
+              guest_id: guestId,
+              repair_type: repairType,
+              repair_types: repairTypes || [repairType],
+              notes,
+              status,
+              priority,
+              completed_repairs: [] as string[],
+            };
 
+            if (isSupabaseEnabled() && !isBrowserOffline()) {
+              const supabase = createClient();
               const { data, error } = await supabase
                 .from('bicycle_repairs')
                 .insert(payload)
@@ -426,9 +620,10 @@ export const useServicesStore = create<ServicesStore>()(
               return mapped;
             }
 
-            // Local fallback
+            // Local fallback; queued for replay when Supabase is configured but offline
+            const queueForSync = isSupabaseEnabled();
             const fallbackRecord: BicycleRepair = {
-              id: `local-bicycle-${Date.now()}`,
+              id: queueForSync ? createClientId() : `local-bicycle-${Date.now()}`,
               guestId,
               date: new Date().toISOString(),
               repairType,
@@ -441,6 +636,12 @@ export const useServicesStore = create<ServicesStore>()(
               lastUpdated: new Date().toISOString(),
             };
 
+            if (queueForSync) {
+              await queueOperation('addBicycleRecord', {
+                row: { ...payload, id: fallbackRecord.id, requested_at: fallbackRecord.date },
+              });
+            }
+
             set((state) => {
               state.bicycleRecords.push(fallbackRecord);
             });
@@ -480,6 +681,25 @@ export const useServicesStore = create<ServicesStore>()(
                 payload.completed_at = completedAt;
               }
 
+              if (isBrowserOffline()) {
+                const originalColumns: Record<string, unknown> = {
+                  status: originalRecord.status,
+                  notes: originalRecord.notes,
+                  priority: originalRecord.priority,
+                  repair_types: originalRecord.repairTypes,
+                  completed_repairs: originalRecord.completedRepairs,
+                  completed_at: originalRecord.doneAt,
+                };
+                await queueOperation('updateBicycleRecord', {
+                  id: recordId,
+                  changes: payload,
+                  original: Object.fromEntries(
+                    Object.keys(payload).map((column) => [column, originalColumns[column] ?? null])
+                  ),
+                });
+                return;
+              }
+
               const { error } = await supabase
                 .from('bicycle_repairs')
                 .update(payload)
@@ -507,6 +727,11 @@ export const useServicesStore = create<ServicesStore>()(
               state.bicycleRecords = state.bicycleRecords.filter((r) => r.id !== recordId);
             });
 
+            if (isSupabaseEnabled() && target && isBrowserOffline()) {
+              await queueOperation('deleteBicycleRecord', { id: recordId });
+              return;
+            }
+
             if (isSupabaseEnabled() && target) {
               const supabase = createClient();
               const { error } = await supabase
@@ -520,6 +745,135 @@ export const useServicesStore = create<ServicesStore>()(
             }
           },
 
+          // Waitlist Actions
+          promoteNextShower: async (freed: ShowerRecord): Promise<WaitlistPromotion | null> => {
+            const candidate = findShowerPromotion(
+              get().showerRecords,
+              freed,
+              useSettingsStore.getState().showerSlots,
+              freed.date === todayPacificDateString() ? nowPacificTimeString() : undefined
+            );
+            if (!candidate) return null;
+
+            const { record, slotTime } = candidate;
+            const originalRecord = { ...record };
+            const changes = { status: 'booked' as ShowerStatus, scheduled_time: slotTime };
+
+            set((state) => {
+              const index = state.showerRecords.findIndex((r) => r.id === record.id);
+              if (index !== -1) {
+                state.showerRecords[index].status = 'booked';
+                state.showerRecords[index].time = slotTime;
+                state.showerRecords[index].lastUpdated = new Date().toISOString();
+              }
+            });
+
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('updateShowerStatus', { id: record.id, changes });
+            } else if (isSupabaseEnabled()) {
+              const supabase = createClient();
+              const { error } = await supabase
+                .from('shower_reservations')
+                .update(changes)
+                .eq('id', record.id);
+
+              if (error) {
+                // The slot may have been taken on another device; leave the guest waitlisted
+                console.error('Failed to promote waitlisted shower in Supabase:', error);
+                set((state) => {
+                  const index = state.showerRecords.findIndex((r) => r.id === record.id);
+                  if (index !== -1) {
+                    state.showerRecords[index] = originalRecord;
+                  }
+                });
+                return null;
+              }
+            }
+
+            const promotion = createPromotion('shower', record, freed.id, slotTime);
+            set((state) => {
+              state.waitlistPromotions = addTodaysPromotion(state.waitlistPromotions, promotion);
+            });
+            await persistPromotion(promotion);
+            return promotion;
+          },
+
+          promoteNextLaundry: async (freed: LaundryRecord): Promise<WaitlistPromotion | null> => {
+            const next = findLaundryPromotion(
+              get().laundryRecords,
+              freed,
+              useSettingsStore.getState().maxOnsiteLaundrySlots
+            );
+            if (!next) return null;
+
+            const originalRecord = { ...next };
+
+            set((state) => {
+              const index = state.laundryRecords.findIndex((r) => r.id === next.id);
+              if (index !== -1) {
+                state.laundryRecords[index].status = 'washer';
+                state.laundryRecords[index].lastUpdated = new Date().toISOString();
+              }
+            });
+
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('updateLaundryStatus', {
+                id: next.id,
+                changes: { status: 'washer' },
+                original: { status: originalRecord.status },
+              });
+            } else if (isSupabaseEnabled()) {
+              const supabase = createClient();
+              const { error } = await supabase
+                .from('laundry_bookings')
+                .update({ status: 'washer' })
+                .eq('id', next.id);
+
+              if (error) {
+                console.error('Failed to promote waiting laundry in Supabase:', error);
+                set((state) => {
+                  const index = state.laundryRecords.findIndex((r) => r.id === next.id);
+                  if (index !== -1) {
+                    state.laundryRecords[index] = originalRecord;
+                  }
+                });
+                return null;
+              }
+            }
+
+            const promotion = createPromotion('laundry', next, freed.id, null);
+            set((state) => {
+              state.waitlistPromotions = addTodaysPromotion(state.waitlistPromotions, promotion);
+            });
+            await persistPromotion(promotion);
+            return promotion;
+          },
+
+          markPromotionCalled: async (promotionId: string): Promise<void> => {
+            const calledAt = new Date().toISOString();
+            set((state) => {
+              const promotion = state.waitlistPromotions.find((p) => p.id === promotionId);
+              if (promotion) promotion.calledAt = calledAt;
+            });
+
+            if (isSupabaseEnabled() && isBrowserOffline()) {
+              await queueOperation('updateWaitlistPromotion', {
+                id: promotionId,
+                changes: { called_at: calledAt },
+              });
+            } else if (isSupabaseEnabled()) {
+              const supabase = createClient();
+              const { error } = await supabase
+                .from('waitlist_promotions')
+                .update({ called_at: calledAt })
+                .eq('id', promotionId);
+
+              if (error) {
+                console.error('Failed to mark waitlist promotion called in Supabase:', error);
+              }
+            }
+          },
+
           // Load from Supabase
           loadFromSupabase: async (): Promise<void> => {
             if (!isSupabaseEnabled()) return;
@@ -539,7 +893,7 @@ export const useServicesStore = create<ServicesStore>()(
                   .order('created_at', { ascending: false }),
                 supabase
                   .from('laundry_bookings')
-                  .select('id,guest_id,slot_label,laundry_type,bag_number,scheduled_for,status,created_at,updated_at,note')
+                  .select('id,guest_id,slot_label,laundry_type,bag_number,scheduled_for,status,closeout_flag,picked_up_by_guest_id,created_at,updated_at,note')
                   .order('created_at', { ascending: false }),
                 supabase
                   .from('bicycle_repairs')
@@ -572,12 +926,62 @@ export const useServicesStore = create<ServicesStore>()(
             }
           },
 
+          // Merge a row fetched from Supabase into local state
+          mergeServerRow: (table: ServiceTable, row: Record<string, unknown>): void => {
+            set((state) => {
+              if (table === 'shower_reservations') {
+                const mapped = mapShowerRow(row as unknown as ShowerReservationRow);
+                const index = state.showerRecords.findIndex((r) => r.id === mapped.id);
+                if (index !== -1) state.showerRecords[index] = mapped;
+                else state.showerRecords.push(mapped);
+              } else if (table === 'laundry_bookings') {
+                const mapped = mapLaundryRow(row as unknown as LaundryBookingRow);
+                const index = state.laundryRecords.findIndex((r) => r.id === mapped.id);
+                if (index !== -1) state.laundryRecords[index] = mapped;
+                else state.laundryRecords.push(mapped);
+              } else {
+                const mapped = mapBicycleRow(row as unknown as BicycleRepairRow);
+                const index = state.bicycleRecords.findIndex((r) => r.id === mapped.id);
+                if (index !== -1) state.bicycleRecords[index] = mapped;
+                else state.bicycleRecords.push(mapped);
+              }
+            });
+          },
+
+          // Drop a row that no longer exists in Supabase from local state
+          removeServerRow: (table: ServiceTable, id: string): void => {
+            set((state) => {
+              if (table === 'shower_reservations') {
+                state.showerRecords = state.showerRecords.filter((r) => r.id !== id);
+              } else if (table === 'laundry_bookings') {
+                state.laundryRecords = state.laundryRecords.filter((r) => r.id !== id);
+              } else {
+                state.bicycleRecords = state.bicycleRecords.filter((r) => r.id !== id);
+              }
+            });
+          },
+
+          // Realtime sync
+          subscribeToRealtime: (): (() => void) => {
+            if (!isSupabaseEnabled()) return () => {};
+
+            return subscribeToTableChanges('services-realtime', SERVICE_TABLES, (change) => {
+              if (change.eventType === 'DELETE') {
+                const id = getChangedRowId(change);
+                if (id) get().removeServerRow(change.table, id);
+              } else if (change.row) {
+                get().mergeServerRow(change.table, change.row);
+              }
+            });
+          },
+
           // Clear all records
           clearServiceRecords: (): void => {
             set((state) => {
               state.showerRecords = [];
               state.laundryRecords = [];
               state.bicycleRecords = [];
+              state.waitlistPromotions = [];
             });
           },
 
@@ -605,12 +1009,14 @@ export const useServicesStore = create<ServicesStore>()(
             );
           },
 
+          // Includes offsite loads carried over from earlier days until they're picked up
           getTodayOffsiteLaundry: (): LaundryRecord[] => {
             const today = todayPacificDateString();
             return get().laundryRecords.filter(
               (r) =>
-                pacificDateStringFrom(r.date) === today &&
-                r.laundryType === 'offsite'
+                r.laundryType === 'offsite' &&
+                (pacificDateStringFrom(r.date) === today ||
+                  (r.closeoutFlag === 'carried_over' && r.status !== 'offsite_picked_up'))
             );
           },
 
@@ -631,6 +1037,7 @@ export const useServicesStore = create<ServicesStore>()(
             showerRecords: state.showerRecords,
             laundryRecords: state.laundryRecords,
             bicycleRecords: state.bicycleRecords,
+            waitlistPromotions: state.waitlistPromotions,
           }),
         }
       )
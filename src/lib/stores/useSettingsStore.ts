@@ -1,7 +1,16 @@
 import { create } from 'zustand';
 import { persist, devtools } from 'zustand/middleware';
 import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
-import type { AppSettings, ServiceTargets, DonationType } from '@/lib/types';
+import type {
+  AppSettings,
+  ServiceTargets,
+  ShowerSlotSettings,
+  DonationType,
+  EligibilityRule,
+  FoodSafetyRanges,
+} from '@/lib/types';
+import { DEFAULT_ELIGIBILITY_RULES } from '@/lib/utils/eligibility';
+import { DEFAULT_FOOD_SAFETY_RANGES } from '@/lib/utils/foodSafety';
 
 // Default targets
 const DEFAULT_TARGETS: ServiceTargets = {
@@ -19,6 +28,16 @@ const DEFAULT_TARGETS: ServiceTargets = {
   yearlyHolidays: 960,
 };
 
+// Default shower grid: two stalls, 15-minute slots, 8am to noon
+const DEFAULT_SHOWER_SLOTS: ShowerSlotSettings = {
+  stallCount: 2,
+  slotMinutes: 15,
+  startTime: '08:00',
+  endTime: '12:00',
+  blackoutWeekdays: [],
+  blackoutDates: [],
+};
+
 // Default settings factory
 function createDefaultSettings(): Omit<AppSettings, 'id' | 'createdAt' | 'updatedAt'> & { 
   isLoading: boolean; 
@@ -34,6 +53,13 @@ function createDefaultSettings(): Omit<AppSettings, 'id' | 'createdAt' | 'update
     donationAutofill: true,
     defaultDonationType: 'Protein',
     targets: { ...DEFAULT_TARGETS },
+    showerSlots: { ...DEFAULT_SHOWER_SLOTS },
+    waitlistChime: true,
+    eligibilityRules: DEFAULT_ELIGIBILITY_RULES.map((rule) => ({ ...rule })),
+    foodSafetyRanges: {
+      hot: { ...DEFAULT_FOOD_SAFETY_RANGES.hot },
+      cold: { ...DEFAULT_FOOD_SAFETY_RANGES.cold },
+    },
     isLoading: false,
     error: null,
   };
@@ -46,6 +72,8 @@ function mergeSettingsState(
 ): SettingsState {
   const currentTargets = current.targets || DEFAULT_TARGETS;
   const partialTargets = partial.targets || {};
+  const currentShowerSlots = current.showerSlots || DEFAULT_SHOWER_SLOTS;
+  const partialShowerSlots = partial.showerSlots || {};
   
   return {
     ...current,
@@ -57,10 +85,19 @@ function mergeSettingsState(
     ...(partial.defaultReportDays !== undefined && { defaultReportDays: partial.defaultReportDays }),
     ...(partial.donationAutofill !== undefined && { donationAutofill: partial.donationAutofill }),
     ...(partial.defaultDonationType !== undefined && { defaultDonationType: partial.defaultDonationType }),
+    ...(partial.waitlistChime !== undefined && { waitlistChime: partial.waitlistChime }),
+    ...(partial.eligibilityRules !== undefined && { eligibilityRules: partial.eligibilityRules }),
+    ...(partial.foodSafetyRanges !== undefined && {
+      foodSafetyRanges: { ...current.foodSafetyRanges, ...partial.foodSafetyRanges },
+    }),
     targets: {
       ...currentTargets,
       ...partialTargets,
     },
+    showerSlots: {
+      ...currentShowerSlots,
+      ...partialShowerSlots,
+    },
   };
 }
 
@@ -76,6 +113,10 @@ interface AppSettingsRow {
   donation_autofill: boolean;
   default_donation_type: DonationType;
   targets: ServiceTargets;
+  shower_slots: Partial<ShowerSlotSettings> | null;
+  waitlist_chime: boolean | null;
+  eligibility_rules: EligibilityRule[] | null;
+  food_safety_ranges: Partial<FoodSafetyRanges> | null;
   created_at: string;
   updated_at: string;
 }
@@ -91,6 +132,10 @@ interface SettingsState {
   donationAutofill: boolean;
   defaultDonationType: DonationType;
   targets: ServiceTargets;
+  showerSlots: ShowerSlotSettings;
+  waitlistChime: boolean;
+  eligibilityRules: EligibilityRule[];
+  foodSafetyRanges: FoodSafetyRanges;
   isLoading: boolean;
   error: string | null;
 }
@@ -106,6 +151,11 @@ interface SettingsInput {
   donationAutofill?: boolean;
   defaultDonationType?: DonationType;
   targets?: Partial<ServiceTargets>;
+  showerSlots?: Partial<ShowerSlotSettings>;
+  waitlistChime?: boolean;
+  // Replaces the whole rule list
+  eligibilityRules?: EligibilityRule[];
+  foodSafetyRanges?: Partial<FoodSafetyRanges>;
 }
 
 // Store actions interface
@@ -149,6 +199,10 @@ export const useSettingsStore = create<SettingsStore>()(
                 donation_autofill: nextSettings.donationAutofill,
                 default_donation_type: nextSettings.defaultDonationType,
                 targets: nextSettings.targets || { ...DEFAULT_TARGETS },
+                shower_slots: nextSettings.showerSlots || { ...DEFAULT_SHOWER_SLOTS },
+                waitlist_chime: nextSettings.waitlistChime,
+                eligibility_rules: nextSettings.eligibilityRules,
+                food_safety_ranges: nextSettings.foodSafetyRanges,
                 updated_at: new Date().toISOString(),
               };
 
@@ -194,6 +248,10 @@ export const useSettingsStore = create<SettingsStore>()(
                 donationAutofill: row.donation_autofill,
                 defaultDonationType: row.default_donation_type,
                 targets: row.targets,
+                showerSlots: row.shower_slots || undefined,
+                waitlistChime: row.waitlist_chime ?? undefined,
+                eligibilityRules: row.eligibility_rules ?? undefined,
+                foodSafetyRanges: row.food_safety_ranges ?? undefined,
               });
 
               set({ ...nextSettings, isLoading: false });
@@ -231,6 +289,10 @@ export const useSettingsStore = create<SettingsStore>()(
                   donation_autofill: defaults.donationAutofill,
                   default_donation_type: defaults.defaultDonationType,
                   targets: defaults.targets,
+                  shower_slots: defaults.showerSlots,
+                  waitlist_chime: defaults.waitlistChime,
+                  eligibility_rules: defaults.eligibilityRules,
+                  food_safety_ranges: defaults.foodSafetyRanges,
                 });
 
               if (error) {
@@ -254,6 +316,10 @@ export const useSettingsStore = create<SettingsStore>()(
           donationAutofill: state.donationAutofill,
           defaultDonationType: state.defaultDonationType,
           targets: state.targets,
+          showerSlots: state.showerSlots,
+          waitlistChime: state.waitlistChime,
+          eligibilityRules: state.eligibilityRules,
+          foodSafetyRanges: state.foodSafetyRanges,
         }),
       }
     ),
@@ -262,4 +328,4 @@ export const useSettingsStore = create<SettingsStore>()(
 );
 
 // Export defaults for use elsewhere
-export { DEFAULT_TARGETS, createDefaultSettings };
+export { DEFAULT_TARGETS, DEFAULT_SHOWER_SLOTS, createDefaultSettings };
@@ -0,0 +1,166 @@
+import { create } from 'zustand';
+import { persist, devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
+import { isBrowserOffline } from '@/lib/utils/offlineOperations';
+import {
+  DEFAULT_TAXONOMY_VALUES,
+  TAXONOMY_VALUE_COLUMNS,
+  mapTaxonomyValueRow,
+  taxonomyLabel,
+  taxonomyOptions,
+  taxonomyValueFromLabel,
+  taxonomyValuesFor,
+  type TaxonomyValueRow,
+} from '@/lib/utils/taxonomies';
+import type { TaxonomyKind, TaxonomyValue, TaxonomyValueInput } from '@/lib/types';
+
+// Store state interface
+interface TaxonomyState {
+  // Every value of every taxonomy, retired ones included
+  taxonomyValues: TaxonomyValue[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions interface
+interface TaxonomyActions {
+  loadFromSupabase: () => Promise<void>;
+  saveTaxonomyValue: (input: TaxonomyValueInput) => Promise<TaxonomyValue>;
+
+  // Selectors
+  getTaxonomyValues: (taxonomy: TaxonomyKind) => TaxonomyValue[];
+  getTaxonomyOptions: (taxonomy: TaxonomyKind, currentValue?: string | null) => TaxonomyValue[];
+  getTaxonomyLabel: (taxonomy: TaxonomyKind, value: string) => string;
+}
+
+type TaxonomyStore = TaxonomyState & TaxonomyActions;
+
+const sameValue = (a: Pick<TaxonomyValue, 'taxonomy' | 'value'>, b: Pick<TaxonomyValue, 'taxonomy' | 'value'>) =>
+  a.taxonomy === b.taxonomy && a.value === b.value;
+
+export const useTaxonomyStore = create<TaxonomyStore>()(
+  devtools(
+    persist(
+      immer((set, get) => ({
+        // Initial State
+        taxonomyValues: DEFAULT_TAXONOMY_VALUES.map((entry) => ({ ...entry })),
+        isLoading: false,
+        error: null,
+
+        loadFromSupabase: async (): Promise<void> => {
+          if (!isSupabaseEnabled()) return;
+
+          set((state) => {
+            state.isLoading = true;
+            state.error = null;
+          });
+
+          try {
+            const supabase = createClient();
+            const { data, error } = await supabase.from('taxonomy_values').select(TAXONOMY_VALUE_COLUMNS);
+
+            if (error) throw error;
+
+            set((state) => {
+              // Keep the defaults until the migration has seeded the table
+              if (data && data.length > 0) {
+                state.taxonomyValues = data.map((row) => mapTaxonomyValueRow(row as TaxonomyValueRow));
+              }
+              state.isLoading = false;
+            });
+          } catch (error) {
+            console.error('Failed to load taxonomies from Supabase:', error);
+            set((state) => {
+              state.isLoading = false;
+              state.error = error instanceof Error ? error.message : 'Failed to load taxonomies';
+            });
+          }
+        },
+
+        // Adds a value, or updates the label, order and active flag of an existing one
+        saveTaxonomyValue: async (input: TaxonomyValueInput): Promise<TaxonomyValue> => {
+          const label = input.label.trim();
+          if (!label) throw new Error('Label is required');
+          if (!Number.isInteger(input.sortOrder)) throw new Error('Sort order must be a whole number');
+
+          const values = get().taxonomyValues;
+          const isNew = input.value === undefined;
+          const value = input.value ?? taxonomyValueFromLabel(input.taxonomy, label);
+          if (!value) throw new Error('Label must contain letters or numbers');
+          if (isNew && values.some((entry) => sameValue(entry, { taxonomy: input.taxonomy, value }))) {
+            throw new Error(`"${label}" is already in the list`);
+          }
+          if (!isNew && !values.some((entry) => sameValue(entry, { taxonomy: input.taxonomy, value }))) {
+            throw new Error('That value no longer exists');
+          }
+
+          let saved: TaxonomyValue = {
+            taxonomy: input.taxonomy,
+            value,
+            label,
+            sortOrder: input.sortOrder,
+            active: input.active,
+          };
+
+          if (isSupabaseEnabled()) {
+            if (isBrowserOffline()) {
+              throw new Error('Lists can only be changed while online.');
+            }
+            const supabase = createClient();
+            const { data, error } = await supabase
+              .from('taxonomy_values')
+              .upsert(
+                {
+                  taxonomy: saved.taxonomy,
+                  value: saved.value,
+                  label: saved.label,
+                  sort_order: saved.sortOrder,
+                  active: saved.active,
+                },
+                { onConflict: 'taxonomy,value' }
+              )
+              .select(TAXONOMY_VALUE_COLUMNS)
+              .single();
+
+            if (error || !data) {
+              console.error('Failed to save taxonomy value:', error);
+              throw new Error('Unable to save the list entry');
+            }
+            saved = mapTaxonomyValueRow(data as TaxonomyValueRow);
+          }
+
+          set((state) => {
+            const index = state.taxonomyValues.findIndex((entry) => sameValue(entry, saved));
+            if (index >= 0) {
+              state.taxonomyValues[index] = saved;
+            } else {
+              state.taxonomyValues.push(saved);
+            }
+          });
+          return saved;
+        },
+
+        // Selectors
+        getTaxonomyValues: (taxonomy: TaxonomyKind): TaxonomyValue[] => {
+          return taxonomyValuesFor(get().taxonomyValues, taxonomy);
+        },
+
+        getTaxonomyOptions: (taxonomy: TaxonomyKind, currentValue?: string | null): TaxonomyValue[] => {
+          return taxonomyOptions(get().taxonomyValues, taxonomy, currentValue);
+        },
+
+        getTaxonomyLabel: (taxonomy: TaxonomyKind, value: string): string => {
+          return taxonomyLabel(get().taxonomyValues, taxonomy, value);
+        },
+      })),
+      {
+        name: 'hopes-corner-taxonomies',
+        partialize: (state) => ({
+          taxonomyValues: state.taxonomyValues,
+        }),
+      }
+    ),
+    { name: 'TaxonomyStore' }
+  )
+);
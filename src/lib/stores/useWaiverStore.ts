@@ -0,0 +1,379 @@
+import { create } from 'zustand';
+import { persist, devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { queueOperation } from '@/lib/utils/offlineQueueManager';
+import { createClientId, isBrowserOffline } from '@/lib/utils/offlineOperations';
+import {
+  DEFAULT_WAIVER_TEMPLATES,
+  WAIVER_TEMPLATE_COLUMNS,
+  currentTemplateFor,
+  earliestValidSigningDate,
+  findSignedWaiver,
+  getWaiverStatus as waiverStatusFor,
+  mapWaiverTemplateRow,
+  servicesSharingWaiver,
+} from '@/lib/utils/waivers';
+import type { WaiverStatusDetails, WaiverTemplateRow } from '@/lib/utils/waivers';
+import type {
+  ServiceWaiver,
+  SignedWaiverDocument,
+  WaiverDocument,
+  WaiverService,
+  WaiverTemplate,
+} from '@/lib/types';
+
+// Database row type
+interface ServiceWaiverRow {
+  id: string;
+  guest_id: string;
+  service_type: WaiverService;
+  template_id: string | null;
+  signed_at: string;
+  dismissed_at: string | null;
+  dismissed_reason: string | null;
+  created_at: string;
+}
+
+function mapWaiverRow(row: ServiceWaiverRow): ServiceWaiver {
+  return {
+    id: row.id,
+    guestId: row.guest_id,
+    serviceType: row.service_type,
+    templateId: row.template_id,
+    signedAt: row.signed_at,
+    dismissedAt: row.dismissed_at,
+    dismissedReason: row.dismissed_reason,
+    createdAt: row.created_at,
+  };
+}
+
+interface WaiverDocumentRow {
+  id: string;
+  waiver_id: string;
+  guest_id: string;
+  document: WaiverDocument;
+  signature_image: string;
+  created_at: string;
+  service_waivers: { service_type: WaiverService } | null;
+}
+
+function mapWaiverDocumentRow(row: WaiverDocumentRow): SignedWaiverDocument {
+  return {
+    id: row.id,
+    waiverId: row.waiver_id,
+    guestId: row.guest_id,
+    serviceType: row.service_waivers?.service_type ?? row.document.services[0],
+    document: row.document,
+    signatureImage: row.signature_image,
+    createdAt: row.created_at,
+  };
+}
+
+// A waiver signed on screen rather than confirmed from paper
+interface OnScreenSignature {
+  document: WaiverDocument;
+  signatureImage: string;
+}
+
+// Reminders are cached per waiver, so shower and laundry share one entry
+const reminderKey = (templates: WaiverTemplate[], guestId: string, service: WaiverService) =>
+  `${guestId}:${currentTemplateFor(templates, service)?.kind ?? service}`;
+
+// Reminder lookups already on their way to Supabase, so a board full of cards asks once per guest
+const pendingReminderChecks = new Map<string, Promise<boolean>>();
+
+// Store state interface
+interface WaiverState {
+  // Published waiver versions; drafts are only seen in the admin dashboard
+  templates: WaiverTemplate[];
+  waivers: ServiceWaiver[];
+  reminders: Record<string, boolean>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions interface
+interface WaiverActions {
+  loadFromSupabase: () => Promise<void>;
+  checkWaiverReminder: (guestId: string, service: WaiverService) => Promise<boolean>;
+  signWaiver: (
+    guestId: string,
+    service: WaiverService,
+    reason?: string,
+    signature?: OnScreenSignature
+  ) => Promise<void>;
+  fetchWaiverDocuments: (guestId: string) => Promise<SignedWaiverDocument[]>;
+  clearWaivers: () => void;
+
+  // Selectors
+  hasSignedWaiver: (guestId: string, service: WaiverService) => boolean;
+  getSignedWaiver: (guestId: string, service: WaiverService) => ServiceWaiver | null;
+  getWaiverStatus: (guestId: string, service: WaiverService) => WaiverStatusDetails;
+  needsWaiverReminder: (guestId: string, service: WaiverService) => boolean;
+}
+
+type WaiverStore = WaiverState & WaiverActions;
+
+export const useWaiverStore = create<WaiverStore>()(
+  devtools(
+    persist(
+      immer((set, get) => ({
+        // Initial State
+        templates: DEFAULT_WAIVER_TEMPLATES,
+        waivers: [],
+        reminders: {},
+        isLoading: false,
+        error: null,
+
+        // Load the published waiver versions, then the waivers that are still
+        // open or were signed recently enough to still count
+        loadFromSupabase: async (): Promise<void> => {
+          if (!isSupabaseEnabled()) return;
+
+          set((state) => {
+            state.isLoading = true;
+            state.error = null;
+          });
+
+          try {
+            const supabase = createClient();
+            const { data: templateRows, error: templatesError } = await supabase
+              .from('waiver_templates')
+              .select(WAIVER_TEMPLATE_COLUMNS)
+              .not('published_at', 'is', null)
+              .order('version', { ascending: true });
+
+            if (templatesError) throw templatesError;
+
+            const templates = (templateRows || []).map((row) => mapWaiverTemplateRow(row as WaiverTemplateRow));
+            const since = earliestValidSigningDate(templates, todayPacificDateString());
+            let query = supabase
+              .from('service_waivers')
+              .select('id, guest_id, service_type, template_id, signed_at, dismissed_at, dismissed_reason, created_at');
+            if (since) {
+              query = query.or(`dismissed_at.is.null,dismissed_at.gte.${since}`);
+            }
+            const { data, error } = await query.order('created_at', { ascending: false });
+
+            if (error) throw error;
+
+            set((state) => {
+              if (templates.length > 0) state.templates = templates;
+              state.waivers = (data || []).map((row) => mapWaiverRow(row as ServiceWaiverRow));
+              state.reminders = {};
+              state.isLoading = false;
+            });
+          } catch (error) {
+            console.error('Failed to load service waivers from Supabase:', error);
+            set((state) => {
+              state.isLoading = false;
+              state.error = error instanceof Error ? error.message : 'Failed to load waivers';
+            });
+          }
+        },
+
+        // Whether the guest has used a service covered by this waiver this year
+        // without a valid signature of its current version. Valid signatures
+        // answer locally; the rest ask Supabase.
+        checkWaiverReminder: async (guestId: string, service: WaiverService): Promise<boolean> => {
+          const key = reminderKey(get().templates, guestId, service);
+
+          if (!currentTemplateFor(get().templates, service)) return false;
+
+          if (get().hasSignedWaiver(guestId, service)) {
+            if (get().reminders[key] !== false) {
+              set((state) => {
+                state.reminders[key] = false;
+              });
+            }
+            return false;
+          }
+
+          const cached = get().reminders[key];
+          if (cached !== undefined) return cached;
+          if (!isSupabaseEnabled() || isBrowserOffline()) return false;
+
+          const pending = pendingReminderChecks.get(key);
+          if (pending) return pending;
+
+          const check = (async () => {
+            const supabase = createClient();
+            const services = servicesSharingWaiver(get().templates, service);
+            const params = services.map((s) => ({ p_guest_id: guestId, p_service_type: s }));
+
+            const [reminderResults, activeResults] = await Promise.all([
+              Promise.all(params.map((p) => supabase.rpc('guest_needs_waiver_reminder', p))),
+              Promise.all(params.map((p) => supabase.rpc('has_active_waiver', p))),
+            ]);
+
+            const failed = [...reminderResults, ...activeResults].find((r) => r.error);
+            if (failed) {
+              console.error('Failed to check waiver reminder:', failed.error);
+              return false;
+            }
+
+            const needsReminder =
+              reminderResults.some((r) => r.data === true) && !activeResults.some((r) => r.data === true);
+
+            set((state) => {
+              state.reminders[key] = needsReminder;
+            });
+            return needsReminder;
+          })();
+
+          pendingReminderChecks.set(key, check);
+          try {
+            return await check;
+          } finally {
+            pendingReminderChecks.delete(key);
+          }
+        },
+
+        // Record a signature of the current version of the waiver covering this
+        // service. Signing for one covered service signs for all of them, so
+        // shower and laundry go together. A signature drawn on screen is stored
+        // with the signed document.
+        signWaiver: async (
+          guestId: string,
+          service: WaiverService,
+          reason?: string,
+          signature?: OnScreenSignature
+        ): Promise<void> => {
+          if (!guestId) throw new Error('Guest is required');
+
+          const template = currentTemplateFor(get().templates, service);
+          const key = reminderKey(get().templates, guestId, service);
+          const previousReminder = get().reminders[key];
+          const now = new Date().toISOString();
+          const signedReason = reason ?? (signature ? 'signed_digitally' : 'signed_by_staff');
+          const documentId = signature ? createClientId() : null;
+          const dismissals = (template?.services ?? [service]).map((serviceType) => ({
+            serviceType,
+            reason: serviceType === service ? signedReason : 'shared_waiver',
+          }));
+          const localWaivers: ServiceWaiver[] = dismissals.map(({ serviceType, reason: dismissedReason }) => ({
+            id: createClientId(),
+            guestId,
+            serviceType,
+            templateId: template?.id ?? null,
+            signedAt: now,
+            dismissedAt: now,
+            dismissedReason,
+            createdAt: now,
+          }));
+          const localIds = new Set(localWaivers.map((w) => w.id));
+
+          set((state) => {
+            state.waivers.unshift(...localWaivers);
+            state.reminders[key] = false;
+          });
+
+          if (isSupabaseEnabled() && isBrowserOffline()) {
+            for (const dismissal of dismissals) {
+              if (signature && documentId && dismissal.serviceType === service) {
+                await queueOperation('signWaiverDocument', {
+                  documentId,
+                  guestId,
+                  serviceType: service,
+                  document: { ...signature.document },
+                  signatureImage: signature.signatureImage,
+                });
+              } else {
+                await queueOperation('dismissWaiver', { guestId, ...dismissal });
+              }
+            }
+            return;
+          }
+
+          if (isSupabaseEnabled()) {
+            const supabase = createClient();
+            for (const dismissal of dismissals) {
+              const { error } =
+                signature && dismissal.serviceType === service
+                  ? await supabase.rpc('sign_waiver', {
+                      p_guest_id: guestId,
+                      p_service_type: service,
+                      p_document: signature.document,
+                      p_signature_image: signature.signatureImage,
+                      p_document_id: documentId,
+                    })
+                  : await supabase.rpc('dismiss_waiver', {
+                      p_guest_id: guestId,
+                      p_service_type: dismissal.serviceType,
+                      p_dismissed_reason: dismissal.reason,
+                    });
+
+              if (error) {
+                console.error('Failed to record waiver in Supabase:', error);
+                // Revert on error
+                set((state) => {
+                  state.waivers = state.waivers.filter((w) => !localIds.has(w.id));
+                  if (previousReminder === undefined) {
+                    delete state.reminders[key];
+                  } else {
+                    state.reminders[key] = previousReminder;
+                  }
+                });
+                throw new Error('Unable to save waiver signature');
+              }
+            }
+          }
+        },
+
+        // Signed documents are only readable by admins and are not kept in the store
+        fetchWaiverDocuments: async (guestId: string): Promise<SignedWaiverDocument[]> => {
+          if (!isSupabaseEnabled()) return [];
+
+          const supabase = createClient();
+          const { data, error } = await supabase
+            .from('waiver_documents')
+            .select('id, waiver_id, guest_id, document, signature_image, created_at, service_waivers(service_type)')
+            .eq('guest_id', guestId)
+            .order('created_at', { ascending: false });
+
+          if (error) {
+            console.error('Failed to load waiver documents from Supabase:', error);
+            throw new Error('Unable to load signed waivers');
+          }
+
+          return (data || []).map((row) => mapWaiverDocumentRow(row as unknown as WaiverDocumentRow));
+        },
+
+        clearWaivers: () => {
+          set((state) => {
+            state.waivers = [];
+            state.reminders = {};
+          });
+        },
+
+        // Selectors
+        hasSignedWaiver: (guestId: string, service: WaiverService): boolean => {
+          return get().getSignedWaiver(guestId, service) !== null;
+        },
+
+        getSignedWaiver: (guestId: string, service: WaiverService): ServiceWaiver | null => {
+          return findSignedWaiver(get().templates, get().waivers, guestId, service);
+        },
+
+        getWaiverStatus: (guestId: string, service: WaiverService): WaiverStatusDetails => {
+          return waiverStatusFor(get().templates, get().waivers, guestId, service);
+        },
+
+        needsWaiverReminder: (guestId: string, service: WaiverService): boolean => {
+          if (get().hasSignedWaiver(guestId, service)) return false;
+          return get().reminders[reminderKey(get().templates, guestId, service)] === true;
+        },
+      })),
+      {
+        name: 'hopes-corner-waivers',
+        partialize: (state) => ({
+          templates: state.templates,
+          waivers: state.waivers,
+        }),
+      }
+    ),
+    { name: 'WaiverStore' }
+  )
+);
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  hasPermission,
+  hasAccess,
+  getDefaultPermissions,
+  parseEffectivePermissions,
+  type ResolvedPermissions,
+} from '../roles';
+import { loadEffectivePermissions } from '../permissions';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const volunteerLead: ResolvedPermissions = {
+  role: 'staff',
+  permissions: { guests: ['read', 'export'], meals: ['read'] },
+  routes: ['/check-in'],
+};
+
+const clientReturning = (result: { data: unknown; error: { message: string } | null }) =>
+  ({ rpc: vi.fn().mockResolvedValue(result) }) as unknown as SupabaseClient;
+
+describe('roles', () => {
+  it('falls back to the built-in matrix when given a bare role', () => {
+    expect(hasPermission('board', 'guests', 'export')).toBe(true);
+    expect(hasPermission('staff', 'guests', 'export')).toBe(false);
+    expect(hasAccess('staff', '/services/laundry')).toBe(true);
+    expect(hasAccess('checkin', '/admin')).toBe(false);
+    expect(hasPermission(null, 'guests', 'read')).toBe(false);
+  });
+
+  it('reads resolved permissions instead of the role defaults', () => {
+    expect(hasPermission(volunteerLead, 'guests', 'export')).toBe(true);
+    expect(hasPermission(volunteerLead, 'meals', 'delete')).toBe(false);
+    expect(hasPermission(volunteerLead, 'services', 'read')).toBe(false);
+    expect(hasAccess(volunteerLead, '/services')).toBe(false);
+    expect(hasAccess(volunteerLead, '/check-in')).toBe(true);
+  });
+
+  it('parses the get_effective_permissions payload and drops unknown entries', () => {
+    const parsed = parseEffectivePermissions({
+      role: 'checkin',
+      permissions: [
+        { resource: 'guests', action: 'read' },
+        { resource: 'guests', action: 'export' },
+        { resource: 'unknown', action: 'read' },
+        { resource: 'meals', action: 'launch' },
+      ],
+      routes: ['/check-in', 42],
+    });
+
+    expect(parsed).toEqual({
+      role: 'checkin',
+      permissions: { guests: ['read', 'export'] },
+      routes: ['/check-in'],
+    });
+    expect(parseEffectivePermissions({ role: 'superuser' })).toBeNull();
+    expect(parseEffectivePermissions(null)).toBeNull();
+  });
+
+  it('loads permissions from the database and falls back on error', async () => {
+    const loaded = await loadEffectivePermissions(
+      clientReturning({
+        data: { role: 'staff', permissions: [{ resource: 'guests', action: 'export' }], routes: [] },
+        error: null,
+      }),
+      'staff'
+    );
+    expect(hasPermission(loaded, 'guests', 'export')).toBe(true);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fallback = await loadEffectivePermissions(
+      clientReturning({ data: null, error: { message: 'function does not exist' } }),
+      'staff'
+    );
+    expect(fallback).toEqual(getDefaultPermissions('staff'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  getDefaultPermissions,
+  parseEffectivePermissions,
+  type ResolvedPermissions,
+  type UserRole,
+} from './roles';
+
+/**
+ * Load the signed-in user's effective permissions from the database.
+ * Falls back to the built-in matrix for `fallbackRole` if the lookup fails
+ * (e.g. before the permissions migration has been applied).
+ */
+export async function loadEffectivePermissions(
+  supabase: SupabaseClient,
+  fallbackRole: UserRole | null
+): Promise<ResolvedPermissions | null> {
+  const { data, error } = await supabase.rpc('get_effective_permissions');
+
+  if (!error) {
+    const resolved = parseEffectivePermissions(data);
+    if (resolved) return resolved;
+  } else {
+    console.warn('[permissions] Falling back to default permissions:', error.message);
+  }
+
+  return fallbackRole ? getDefaultPermissions(fallbackRole) : null;
+}
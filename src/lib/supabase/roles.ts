@@ -7,8 +7,23 @@ export type Resource = 'guests' | 'meals' | 'services' | 'donations' | 'settings
 // Action types
 export type Action = 'create' | 'read' | 'update' | 'delete' | 'export';
 
-// Permission matrix
-const PERMISSIONS: Record<UserRole, Record<Resource, Action[]>> = {
+export const USER_ROLES: UserRole[] = ['admin', 'board', 'staff', 'checkin'];
+export const RESOURCES: Resource[] = ['guests', 'meals', 'services', 'donations', 'settings'];
+export const ACTIONS: Action[] = ['create', 'read', 'update', 'delete', 'export'];
+
+// Protected top-level routes that can be granted per role
+export const APP_ROUTES = ['/check-in', '/services', '/guests', '/admin', '/settings'];
+
+// Effective permissions for one user, loaded from the role_permissions,
+// role_routes and user_permission_overrides tables
+export interface ResolvedPermissions {
+  role: UserRole;
+  permissions: Partial<Record<Resource, Action[]>>;
+  routes: string[];
+}
+
+// Default permission matrix; seeds the database and is used when it cannot be read
+export const DEFAULT_PERMISSIONS: Record<UserRole, Record<Resource, Action[]>> = {
   admin: {
     guests: ['create', 'read', 'update', 'delete', 'export'],
     meals: ['create', 'read', 'update', 'delete', 'export'],
@@ -39,33 +54,77 @@ const PERMISSIONS: Record<UserRole, Record<Resource, Action[]>> = {
   },
 };
 
-// Route access configuration
+// Default route access; seeds the database and is used when it cannot be read
 export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
-  admin: ['/check-in', '/services', '/admin', '/settings'],
+  admin: ['/check-in', '/services', '/guests', '/admin', '/settings'],
   board: ['/admin'],
-  staff: ['/check-in', '/services'],
-  checkin: ['/check-in'],
+  staff: ['/check-in', '/services', '/guests'],
+  checkin: ['/check-in', '/guests'],
 };
 
-// Check if a role has permission for an action on a resource
+function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+// Fall back to the built-in matrix for a role
+export function getDefaultPermissions(role: UserRole): ResolvedPermissions {
+  return {
+    role,
+    permissions: DEFAULT_PERMISSIONS[role],
+    routes: ROLE_PERMISSIONS[role],
+  };
+}
+
+// Turn the get_effective_permissions() payload into ResolvedPermissions
+export function parseEffectivePermissions(payload: unknown): ResolvedPermissions | null {
+  if (!payload || typeof payload !== 'object') return null;
+  const data = payload as {
+    role?: unknown;
+    permissions?: Array<{ resource?: unknown; action?: unknown }>;
+    routes?: unknown[];
+  };
+  if (!isUserRole(data.role)) return null;
+
+  const permissions: Partial<Record<Resource, Action[]>> = {};
+  (data.permissions || []).forEach(({ resource, action }) => {
+    if (!RESOURCES.includes(resource as Resource) || !ACTIONS.includes(action as Action)) return;
+    const key = resource as Resource;
+    permissions[key] = [...(permissions[key] || []), action as Action];
+  });
+
+  return {
+    role: data.role,
+    permissions,
+    routes: (data.routes || []).filter((path): path is string => typeof path === 'string'),
+  };
+}
+
+function toResolved(subject: UserRole | ResolvedPermissions | null): ResolvedPermissions | null {
+  if (!subject) return null;
+  if (typeof subject === 'string') {
+    return isUserRole(subject) ? getDefaultPermissions(subject) : null;
+  }
+  return subject;
+}
+
+// Check if a user (or a role's default matrix) has permission for an action on a resource
 export function hasPermission(
-  role: UserRole | null,
+  subject: UserRole | ResolvedPermissions | null,
   resource: Resource,
   action: Action
 ): boolean {
-  if (!role) return false;
-  const rolePermissions = PERMISSIONS[role];
-  if (!rolePermissions) return false;
-  const resourcePermissions = rolePermissions[resource];
+  const resolved = toResolved(subject);
+  if (!resolved) return false;
+  const resourcePermissions = resolved.permissions[resource];
   if (!resourcePermissions) return false;
   return resourcePermissions.includes(action);
 }
 
-// Check if a role has access to a path
-export function hasAccess(role: UserRole | null, pathname: string): boolean {
-  if (!role) return false;
-  const allowedPaths = ROLE_PERMISSIONS[role] || [];
-  return allowedPaths.some((path) => pathname.startsWith(path));
+// Check if a user (or a role's default routes) has access to a path
+export function hasAccess(subject: UserRole | ResolvedPermissions | null, pathname: string): boolean {
+  const resolved = toResolved(subject);
+  if (!resolved) return false;
+  return resolved.routes.some((path) => pathname.startsWith(path));
 }
 
 // Get the default redirect path for a role
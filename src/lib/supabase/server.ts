@@ -1,5 +1,7 @@
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import { loadEffectivePermissions } from './permissions';
+import type { ResolvedPermissions, UserRole } from './roles';
 
 export async function createClient() {
   const cookieStore = await cookies();
@@ -68,6 +70,16 @@ export async function getUserRole(): Promise<string | null> {
   return user.user_metadata?.role || null;
 }
 
+// Helper to get the signed-in user's effective permissions (role matrix plus overrides)
+export async function getUserPermissions(): Promise<ResolvedPermissions | null> {
+  const supabase = await createClient();
+  const role = await getUserRole();
+
+  if (!role) return null;
+
+  return loadEffectivePermissions(supabase, role as UserRole);
+}
+
 // Helper to create a user record with role
 export async function createUserWithRole(
   userId: string,
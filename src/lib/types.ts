@@ -22,12 +22,46 @@ export interface Guest {
   banReason: string;
   isBanned: boolean;
   banned?: boolean; // Legacy alias for isBanned
+  bannedServices?: BanService[]; // Services the current ban covers; empty covers all
   visitCount?: number;
   lastVisit?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Guest profile fields whose changes are kept in guest_history
+export type GuestHistoryField =
+  | 'guestId'
+  | 'firstName'
+  | 'lastName'
+  | 'preferredName'
+  | 'housingStatus'
+  | 'age'
+  | 'gender'
+  | 'location'
+  | 'notes'
+  | 'bicycleDescription';
+
+// One changed field of a guest profile; changedBy is null for changes not yet synced
+export interface GuestHistoryEntry {
+  id: string;
+  guestId: string;
+  field: GuestHistoryField;
+  oldValue: string | null;
+  newValue: string | null;
+  changedBy: string | null;
+  changedByEmail: string | null;
+  changedAt: string;
+}
+
+// One direction of a symmetric link between two guests who may pick up for each other
+export interface GuestProxy {
+  id: string;
+  guestId: string;
+  proxyId: string;
+  createdAt: string;
+}
+
 export type HousingStatus = 'Unhoused' | 'Housed' | 'Temp. shelter' | 'RV or vehicle';
 export type AgeGroup = 'Adult 18-59' | 'Senior 60+' | 'Child 0-17';
 export type Gender = 'Male' | 'Female' | 'Unknown' | 'Non-binary';
@@ -42,17 +76,25 @@ export interface MealRecord {
   servedOn: string;
   createdAt: string;
   type: MealType;
+  // Linked guest who collected the meal for this guest
+  pickedUpBy?: string | null;
+  // How many of `count` that guest collected; the rest were eaten in person
+  pickedUpCount?: number;
 }
 
-export type MealType = 
-  | 'guest' 
-  | 'extra' 
-  | 'rv' 
-  | 'shelter' 
-  | 'united_effort' 
-  | 'day_worker' 
+// Meal types with their own record lists and screens
+export type BuiltInMealType =
+  | 'guest'
+  | 'extra'
+  | 'rv'
+  | 'shelter'
+  | 'united_effort'
+  | 'day_worker'
   | 'lunch_bag';
 
+// Any value in the meal_type taxonomy; admins can add partner meal programs
+export type MealType = BuiltInMealType | (string & {});
+
 // Service Types
 export interface ShowerRecord {
   id: string;
@@ -76,6 +118,10 @@ export interface LaundryRecord {
   scheduledFor: string;
   date: string;
   status: LaundryStatus;
+  // Set when a day is closed with the load still open
+  closeoutFlag?: LaundryCloseoutFlag | null;
+  // Linked guest who collected the finished laundry for this guest
+  pickedUpBy?: string | null;
   createdAt: string;
   lastUpdated: string;
 }
@@ -92,6 +138,40 @@ export type LaundryStatus =
   | 'returned' 
   | 'offsite_picked_up';
 
+export type LaundryCloseoutFlag = 'unclaimed' | 'carried_over';
+
+// What closing a service day changed, so reopening it can undo exactly that
+export interface DayCloseoutSummary {
+  noShowShowerIds: string[];
+  unclaimedLaundryIds: string[];
+  carriedOverLaundryIds: string[];
+}
+
+export interface DayCloseout {
+  id: string;
+  serviceDate: string;
+  automatic: boolean;
+  summary: DayCloseoutSummary;
+  closedAt: string;
+  closedBy: string | null;
+  reopenedAt: string | null;
+  reopenedBy: string | null;
+}
+
+export type WaitlistService = 'shower' | 'laundry';
+
+// A waitlisted guest moved into a freed shower slot or laundry machine
+export interface WaitlistPromotion {
+  id: string;
+  service: WaitlistService;
+  recordId: string;
+  guestId: string;
+  freedRecordId: string;
+  slotTime: string | null;
+  promotedAt: string;
+  calledAt: string | null;
+}
+
 export interface BicycleRepair {
   id: string;
   guestId: string | null;
@@ -108,6 +188,78 @@ export interface BicycleRepair {
 
 export type BicycleRepairStatus = 'pending' | 'in_progress' | 'done';
 
+// Waiver Types
+export type WaiverService = 'shower' | 'laundry' | 'bicycle';
+
+// A waiver and all of its versions share a kind. Shower and laundry share the
+// 'services' waiver and bicycle has its own; admins can add more.
+export type WaiverKind = string;
+
+// How long a signature lasts: until Dec 31, for a number of days, or forever
+export type WaiverValidityRule = 'calendar_year' | 'rolling_days' | 'never';
+
+// A row of service_waivers; a waiver counts as signed once it is dismissed
+export interface ServiceWaiver {
+  id: string;
+  guestId: string;
+  serviceType: WaiverService;
+  // The waiver_templates version the guest signed
+  templateId: string | null;
+  signedAt: string;
+  dismissedAt: string | null;
+  dismissedReason: string | null;
+  createdAt: string;
+}
+
+export type WaiverLanguage = 'en' | 'es';
+
+// One version of a waiver; publishedAt is null while it is a draft
+export interface WaiverTemplate {
+  id: string;
+  kind: WaiverKind;
+  version: number;
+  title: string;
+  description: string;
+  // What the guest reads and signs on screen
+  text: Record<WaiverLanguage, { title: string; body: string[] }>;
+  services: WaiverService[];
+  validityRule: WaiverValidityRule;
+  validityDays: number | null;
+  signingUrl: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+}
+
+// Where a guest stands with the current version of a waiver
+export type WaiverStatus = 'valid' | 'outdated' | 'expired' | 'missing' | 'not_required';
+
+// The signed copy of a waiver: the exact text the guest was shown and who signed it
+export interface WaiverDocument {
+  waiverKind: WaiverKind;
+  templateId: string;
+  templateVersion: number;
+  services: WaiverService[];
+  language: WaiverLanguage;
+  title: string;
+  body: string[];
+  guestId: string;
+  guestName: string;
+  signerName: string;
+  signedAt: string;
+}
+
+// A waiver document as stored against its service_waivers row
+export interface SignedWaiverDocument {
+  id: string;
+  waiverId: string;
+  guestId: string;
+  serviceType: WaiverService;
+  document: WaiverDocument;
+  // PNG data URL of the signature drawn on screen
+  signatureImage: string;
+  createdAt: string;
+}
+
 // Holiday/Haircut Records
 export interface HolidayRecord {
   id: string;
@@ -123,6 +275,99 @@ export interface HaircutRecord {
   type: 'haircut';
 }
 
+// Activity Timeline Types
+export type TimelineEventType =
+  | 'meal'
+  | 'rv_meal'
+  | 'extra_meal'
+  | 'shower'
+  | 'laundry'
+  | 'bicycle'
+  | 'donation'
+  | 'haircut'
+  | 'holiday'
+  | 'item'
+  | 'waiver';
+
+// One entry in a guest's service history; date is the Pacific service date
+export interface GuestTimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  date: string;
+  timestamp: string | null;
+  description: string;
+  time: string;
+  // False for entries that are not a service received, like a cancelled shower
+  counted: boolean;
+}
+
+export type TimelinePeriod = 'week' | 'month' | 'year';
+
+// Services a guest received in one week, month or year
+export interface TimelinePeriodCount {
+  period: string;
+  label: string;
+  counts: Partial<Record<TimelineEventType, number>>;
+  total: number;
+}
+
+// What a verification letter said when it was issued, kept as its logged copy
+export interface VerificationLetterContent {
+  siteName: string;
+  legalName: string;
+  firstVisit: string | null;
+  lastVisit: string | null;
+  visitDays: number;
+  counts: Partial<Record<TimelineEventType, number>>;
+  issuedOn: string;
+  title: string;
+  body: string[];
+}
+
+// A letter confirming a guest uses our services, from verification_letters
+export interface VerificationLetter {
+  id: string;
+  serialNumber: string;
+  guestId: string | null;
+  content: VerificationLetterContent;
+  issuedBy: string | null;
+  issuedByEmail: string | null;
+  issuedAt: string;
+}
+
+// Services a ban can be scoped to, matching the database ban guards
+export type BanService = 'meals' | 'shower' | 'laundry' | 'bicycle' | 'haircut' | 'holiday' | 'items';
+
+export type GuestBanAction = 'warning' | 'ban' | 'lift';
+
+// One warning, ban or lift issued to a guest, from guest_bans
+export interface GuestBan {
+  id: string;
+  guestId: string;
+  action: GuestBanAction;
+  // Empty covers every service
+  services: BanService[];
+  reason: string;
+  startsAt: string;
+  // Null for a permanent ban, and for warnings and lifts
+  endsAt: string | null;
+  issuedBy: string | null;
+  issuedByEmail: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+}
+
+// What staff fill in to warn, ban or lift a ban
+export type GuestBanInput = Pick<GuestBan, 'action' | 'services' | 'reason' | 'endsAt'>;
+
+// A current ban ending soon, waiting for a reviewer
+export interface GuestBanReview extends GuestBan {
+  guestName: string;
+}
+
+export type GuestBanReviewOutcome = 'expire' | 'extend' | 'lift';
+
 // Donation Types
 export interface Donation {
   id: string;
@@ -139,15 +384,62 @@ export interface Donation {
   updatedAt: string;
 }
 
-export type DonationType = 
-  | 'Protein' 
-  | 'Carbs' 
-  | 'Vegetables' 
-  | 'Fruit' 
-  | 'Veggie Protein' 
-  | 'Deli Foods' 
-  | 'Pastries' 
-  | 'School lunch';
+// A value in the donation_type taxonomy
+export type DonationType = string;
+
+// An item handed to a guest, from items_distributed
+export interface ItemRecord {
+  id: string;
+  guestId: string;
+  item: string;
+  // For items stocked in sizes
+  size?: string | null;
+  quantity: number;
+  date: string;
+  createdAt: string;
+}
+
+// An item the pantry stocks, from inventory_items
+export interface InventoryItem {
+  id: string;
+  // Matches ItemRecord.item
+  itemKey: string;
+  name: string;
+  // Empty for items that don't come in sizes
+  sizes: string[];
+  lowStockThreshold: number;
+  active: boolean;
+}
+
+export type InventoryItemInput = Pick<InventoryItem, 'itemKey' | 'name' | 'sizes' | 'lowStockThreshold' | 'active'>;
+
+export type InventoryTransactionKind = 'receive' | 'adjust' | 'distribute';
+
+// One change to stock on hand; quantity is signed
+export interface InventoryTransaction {
+  id: string;
+  itemKey: string;
+  size: string | null;
+  kind: InventoryTransactionKind;
+  quantity: number;
+  note: string | null;
+  recordedByEmail: string | null;
+  createdAt: string;
+}
+
+// Stock received or counted by staff
+export interface InventoryTransactionInput {
+  itemKey: string;
+  size: string | null;
+  quantity: number;
+  note?: string;
+}
+
+export interface InventoryStockLevel {
+  itemKey: string;
+  size: string | null;
+  onHand: number;
+}
 
 export interface LaPlazaDonation {
   id: string;
@@ -160,15 +452,130 @@ export interface LaPlazaDonation {
   updatedAt: string;
 }
 
-export type LaPlazaCategory = 
-  | 'Bakery' 
-  | 'Beverages' 
-  | 'Dairy' 
-  | 'Meat' 
-  | 'Mix' 
-  | 'Nonfood' 
-  | 'Prepared/Perishable' 
-  | 'Produce';
+// A value in the la_plaza_category taxonomy
+export type LaPlazaCategory = string;
+
+// Admin-managed lookup lists
+export type TaxonomyKind = 'meal_type' | 'donation_type' | 'la_plaza_category';
+
+export interface TaxonomyValue {
+  taxonomy: TaxonomyKind;
+  // Stored on records; fixed once created
+  value: string;
+  label: string;
+  sortOrder: number;
+  // Retired values stay for display but are not offered in forms
+  active: boolean;
+}
+
+export interface TaxonomyValueInput {
+  taxonomy: TaxonomyKind;
+  // Left out when adding, to derive one from the label
+  value?: string;
+  label: string;
+  sortOrder: number;
+  active: boolean;
+}
+
+// Food safety temperature log
+export type FoodHolding = 'hot' | 'cold';
+
+export type TemperatureStage = 'intake' | 'service';
+
+// Safe holding range in °F; null means no limit on that side
+export interface FoodSafetyRange {
+  minF: number | null;
+  maxF: number | null;
+}
+
+export type FoodSafetyRanges = Record<FoodHolding, FoodSafetyRange>;
+
+// A probe reading from food_temperature_logs, with the range it was checked against
+export interface TemperatureReading {
+  id: string;
+  stage: TemperatureStage;
+  holding: FoodHolding;
+  itemName: string;
+  donationId: string | null;
+  temperatureF: number;
+  inRange: boolean;
+  safeMinF: number | null;
+  safeMaxF: number | null;
+  correctiveAction: string | null;
+  recordedByEmail: string | null;
+  recordedAt: string;
+  dateKey: string;
+}
+
+export interface TemperatureReadingInput {
+  stage: TemperatureStage;
+  holding: FoodHolding;
+  itemName: string;
+  temperatureF: number;
+  donationId?: string | null;
+  // Required when the reading is out of range
+  correctiveAction?: string | null;
+}
+
+// Food rescue ledger: where food goes once it is in the kitchen
+export type FoodDispositionKind = 'served' | 'redistributed' | 'composted' | 'discarded';
+
+export interface FoodDisposition {
+  id: string;
+  kind: FoodDispositionKind;
+  // The agency that received redistributed food
+  recipient: string | null;
+  weightLbs: number;
+  notes: string | null;
+  dateKey: string;
+  recordedByEmail: string | null;
+  recordedAt: string;
+}
+
+export interface FoodDispositionInput {
+  kind: FoodDispositionKind;
+  weightLbs: number;
+  recipient?: string | null;
+  notes?: string | null;
+  // Defaults to today
+  dateKey?: string;
+}
+
+// One donation listed on a receipt; La Plaza lines use the category as the item
+export interface DonationReceiptLine {
+  date: string;
+  source: 'donation' | 'la_plaza';
+  itemName: string;
+  category: string;
+  trays: number;
+  weightLbs: number;
+}
+
+// What a donor receipt said when it was issued, kept as its logged copy
+export interface DonationReceiptContent {
+  siteName: string;
+  donor: string;
+  periodStart: string;
+  periodEnd: string;
+  issuedOn: string;
+  title: string;
+  body: string[];
+  lines: DonationReceiptLine[];
+  totals: { donations: number; trays: number; weightLbs: number };
+}
+
+// An acknowledgment receipt issued to a donor, from donation_receipts
+export interface DonationReceipt {
+  id: string;
+  receiptNumber: string;
+  donor: string;
+  periodStart: string;
+  periodEnd: string;
+  content: DonationReceiptContent;
+  issuedBy: string | null;
+  issuedByEmail: string | null;
+  issuedAt: string;
+}
 
 // App Settings
 export interface AppSettings {
@@ -182,10 +589,53 @@ export interface AppSettings {
   donationAutofill: boolean;
   defaultDonationType: DonationType;
   targets: ServiceTargets;
+  showerSlots: ShowerSlotSettings;
+  waitlistChime: boolean;
+  eligibilityRules: EligibilityRule[];
+  foodSafetyRanges: FoodSafetyRanges;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ShowerSlotSettings {
+  stallCount: number;
+  slotMinutes: number;
+  // Service hours as HH:MM; the last slot must finish by endTime
+  startTime: string;
+  endTime: string;
+  // 0 = Sunday … 6 = Saturday
+  blackoutWeekdays: number[];
+  // One-off closures as YYYY-MM-DD
+  blackoutDates: string[];
+}
+
+// Services whose limits are checked when they are recorded
+export type EligibilityService = 'meal' | 'shower' | 'laundry' | 'item';
+
+// "At most `limit` of a service per `periodDays` days", e.g. 1 shower per 2 days
+export interface EligibilityRule {
+  id: string;
+  service: EligibilityService;
+  // Item rules only: the item_key it limits, or null for every item
+  itemKey: string | null;
+  limit: number;
+  // 1 is a single service day
+  periodDays: number;
+  enabled: boolean;
+}
+
+export interface EligibilityViolation {
+  rule: EligibilityRule;
+  // Already received in the rule's window, before this request
+  used: number;
+  message: string;
+}
+
+// Staff going past a limit must say why; the reason is logged with the rules broken
+export interface EligibilityOverride {
+  reason: string;
+}
+
 export interface ServiceTargets {
   monthlyMeals: number;
   yearlyMeals: number;
@@ -213,24 +663,5 @@ export const AGE_GROUPS: AgeGroup[] = ['Adult 18-59', 'Senior 60+', 'Child 0-17'
 
 export const GENDERS: Gender[] = ['Male', 'Female', 'Unknown', 'Non-binary'];
 
-export const DONATION_TYPES: DonationType[] = [
-  'Protein',
-  'Carbs',
-  'Vegetables',
-  'Fruit',
-  'Veggie Protein',
-  'Deli Foods',
-  'Pastries',
-  'School lunch',
-];
-
-export const LA_PLAZA_CATEGORIES: LaPlazaCategory[] = [
-  'Bakery',
-  'Beverages',
-  'Dairy',
-  'Meat',
-  'Mix',
-  'Nonfood',
-  'Prepared/Perishable',
-  'Produce',
-];
+// Matches the limit enforced by check_guest_proxy_limit()
+export const MAX_GUEST_PROXIES = 3;
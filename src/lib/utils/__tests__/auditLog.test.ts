@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  describeAuditEvent,
+  fetchAuditEvents,
+  getAuditFieldChanges,
+  type AuditEvent,
+} from '../auditLog';
+
+const queryCalls: Array<[string, unknown[]]> = [];
+let queryResult: { data: unknown[] | null; error: { message: string } | null } = { data: [], error: null };
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    from: (table: string) => {
+      queryCalls.push(['from', [table]]);
+      const builder = {
+        select: (...args: unknown[]) => (queryCalls.push(['select', args]), builder),
+        order: (...args: unknown[]) => (queryCalls.push(['order', args]), builder),
+        range: (...args: unknown[]) => (queryCalls.push(['range', args]), builder),
+        eq: (...args: unknown[]) => (queryCalls.push(['eq', args]), builder),
+        ilike: (...args: unknown[]) => (queryCalls.push(['ilike', args]), builder),
+        gte: (...args: unknown[]) => (queryCalls.push(['gte', args]), builder),
+        lte: (...args: unknown[]) => (queryCalls.push(['lte', args]), builder),
+        then: (resolve: (value: typeof queryResult) => unknown) => Promise.resolve(queryResult).then(resolve),
+      };
+      return builder;
+    },
+  }),
+}));
+
+const makeEvent = (overrides: Partial<AuditEvent>): AuditEvent => ({
+  id: 1,
+  occurredAt: '2024-01-15T10:00:00.000Z',
+  actorId: 'user-1',
+  actorEmail: 'staff@example.org',
+  actorRole: 'staff',
+  tableName: 'laundry_bookings',
+  recordId: 'l-1',
+  action: 'update',
+  before: null,
+  after: null,
+  ...overrides,
+});
+
+describe('audit log utilities', () => {
+  beforeEach(() => {
+    queryCalls.length = 0;
+    queryResult = { data: [], error: null };
+  });
+
+  it('lists changed columns, skipping bookkeeping fields', () => {
+    const event = makeEvent({
+      before: { id: 'l-1', status: 'ready', bag_number: '12', updated_at: '2024-01-15T09:00:00Z' },
+      after: { id: 'l-1', status: 'picked_up', bag_number: '12', updated_at: '2024-01-15T10:00:00Z' },
+    });
+
+    expect(getAuditFieldChanges(event)).toEqual([
+      { column: 'status', label: 'Status', before: 'ready', after: 'picked_up' },
+    ]);
+  });
+
+  it('describes status changes, bans and deletes', () => {
+    expect(
+      describeAuditEvent(
+        makeEvent({ before: { status: 'ready' }, after: { status: 'picked_up' } })
+      )
+    ).toBe('Changed laundry status from ready to picked_up');
+
+    expect(
+      describeAuditEvent(
+        makeEvent({
+          tableName: 'guests',
+          before: { full_name: 'John Doe', banned_until: null },
+          after: { full_name: 'John Doe', banned_until: '2024-02-01T00:00:00Z' },
+        })
+      )
+    ).toBe('Banned guest John Doe');
+
+    expect(
+      describeAuditEvent(makeEvent({ tableName: 'meal_attendance', action: 'delete', before: { id: 'm-1' } }))
+    ).toBe('Deleted meals record');
+  });
+
+  it('applies filters and maps rows', async () => {
+    queryResult = {
+      data: [
+        {
+          id: 7,
+          occurred_at: '2024-01-15T10:00:00.000Z',
+          actor_id: 'user-1',
+          actor_email: 'staff@example.org',
+          actor_role: 'staff',
+          table_name: 'guests',
+          record_id: 'g-1',
+          action: 'insert',
+          before_values: null,
+          after_values: { id: 'g-1' },
+        },
+      ],
+      error: null,
+    };
+
+    const events = await fetchAuditEvents(
+      { tableName: 'guests', actorEmail: 'staff', startDate: '2024-01-01' },
+      1
+    );
+
+    expect(events[0]).toMatchObject({ id: 7, tableName: 'guests', after: { id: 'g-1' } });
+    expect(queryCalls).toEqual(
+      expect.arrayContaining([
+        ['from', ['audit_events']],
+        ['range', [50, 99]],
+        ['eq', ['table_name', 'guests']],
+        ['ilike', ['actor_email', '%staff%']],
+        ['gte', ['occurred_at', '2024-01-01T00:00:00']],
+      ])
+    );
+  });
+
+  it('surfaces query errors', async () => {
+    queryResult = { data: null, error: { message: 'permission denied' } };
+
+    await expect(fetchAuditEvents()).rejects.toThrow('permission denied');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ConflictDetails, FailedOperation } from '../indexedDB';
+
+const updateCalls: Array<{ table: string; changes: Record<string, unknown>; id: unknown }> = [];
+const removeFromFailedStore = vi.fn().mockResolvedValue(undefined);
+const mergeServerGuest = vi.fn();
+const removeServerGuest = vi.fn();
+const mergeServerRow = vi.fn();
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    from: (table: string) => ({
+      update: (changes: Record<string, unknown>) => ({
+        eq: (_column: string, id: unknown) => ({
+          select: () => ({
+            single: () => {
+              updateCalls.push({ table, changes, id });
+              return Promise.resolve({ data: { id, location: 'Palo Alto', ...changes }, error: null });
+            },
+          }),
+        }),
+      }),
+    }),
+  }),
+}));
+
+vi.mock('../indexedDB', () => ({
+  removeFromFailedStore: (id: number) => removeFromFailedStore(id),
+}));
+
+vi.mock('@/lib/stores/useGuestsStore', () => ({
+  useGuestsStore: { getState: () => ({ mergeServerGuest, removeServerGuest }) },
+}));
+
+vi.mock('@/lib/stores/useServicesStore', () => ({
+  useServicesStore: { getState: () => ({ mergeServerRow, removeServerRow: vi.fn() }) },
+}));
+
+import { buildResolvedChanges, getConflictFields, resolveConflict } from '../conflictResolution';
+
+const conflict: ConflictDetails = {
+  table: 'guests',
+  recordId: 'g-1',
+  localVersion: { housing_status: 'Housed', location: 'San Jose', notes: 'same' },
+  original: { housing_status: 'Unhoused', location: 'Mountain View', notes: 'old' },
+  serverVersion: { id: 'g-1', housing_status: 'Temp. shelter', location: 'Palo Alto', notes: 'same' },
+  detectedAt: '2024-01-15T10:00:00.000Z',
+};
+
+const operation: FailedOperation = {
+  id: 7,
+  operationType: 'updateGuest',
+  payload: {},
+  timestamp: 0,
+  status: 'failed',
+  retryCount: 0,
+  createdAt: '2024-01-15T09:00:00.000Z',
+  failureCount: 1,
+  errorContext: {
+    errorType: 'conflict',
+    userMessage: '',
+    action: 'resolve',
+    severity: 'medium',
+    retriable: false,
+    errorDetails: '',
+    conflict,
+  },
+};
+
+describe('conflict resolution', () => {
+  beforeEach(() => {
+    updateCalls.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it('lists each edited field with both versions', () => {
+    const fields = getConflictFields(conflict);
+
+    expect(fields.map((f) => [f.label, f.mine, f.theirs, f.differs])).toEqual([
+      ['Housing status', 'Housed', 'Temp. shelter', true],
+      ['Location', 'San Jose', 'Palo Alto', true],
+      ['Notes', 'same', 'same', false],
+    ]);
+  });
+
+  it('builds the changes for each strategy', () => {
+    expect(buildResolvedChanges(conflict, 'keep-theirs')).toEqual({});
+    expect(buildResolvedChanges(conflict, 'keep-mine')).toEqual({
+      housing_status: 'Housed',
+      location: 'San Jose',
+    });
+    expect(buildResolvedChanges(conflict, 'merge', { housing_status: 'mine' })).toEqual({
+      housing_status: 'Housed',
+    });
+  });
+
+  it('defaults a merge to this device for fields only it changed', () => {
+    const localOnly: ConflictDetails = {
+      ...conflict,
+      localVersion: { ...conflict.localVersion, preferred_name: 'Sam' },
+      original: { ...conflict.original, preferred_name: 'Sammy' },
+      serverVersion: { ...conflict.serverVersion!, preferred_name: 'Sammy' },
+    };
+
+    expect(getConflictFields(localOnly).map((f) => [f.column, f.defaultChoice])).toEqual([
+      ['housing_status', 'theirs'],
+      ['location', 'theirs'],
+      ['notes', 'theirs'],
+      ['preferred_name', 'mine'],
+    ]);
+    expect(buildResolvedChanges(localOnly, 'merge')).toEqual({ preferred_name: 'Sam' });
+    expect(buildResolvedChanges(localOnly, 'merge', { preferred_name: 'theirs' })).toEqual({});
+  });
+
+  it('writes a field-by-field merge and updates the store', async () => {
+    await resolveConflict(operation, 'merge', { housing_status: 'mine', location: 'theirs' });
+
+    expect(updateCalls).toEqual([{ table: 'guests', changes: { housing_status: 'Housed' }, id: 'g-1' }]);
+    expect(mergeServerGuest).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'g-1', housing_status: 'Housed', location: 'Palo Alto' })
+    );
+    expect(removeFromFailedStore).toHaveBeenCalledWith(7);
+  });
+
+  it('keeps the server version without writing', async () => {
+    await resolveConflict(operation, 'keep-theirs');
+
+    expect(updateCalls).toHaveLength(0);
+    expect(mergeServerGuest).toHaveBeenCalledWith(conflict.serverVersion);
+    expect(removeFromFailedStore).toHaveBeenCalledWith(7);
+  });
+
+  it('only allows discarding when the server row was deleted', async () => {
+    const deleted: FailedOperation = {
+      ...operation,
+      errorContext: { ...operation.errorContext!, conflict: { ...conflict, serverVersion: null } },
+    };
+
+    await expect(resolveConflict(deleted, 'keep-mine')).rejects.toThrow(/deleted/);
+    await resolveConflict(deleted, 'keep-theirs');
+    expect(removeServerGuest).toHaveBeenCalledWith('g-1');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { buildDisplayBoard, mapDisplayLaundryRow, mapDisplayShowerRow } from '../displayBoard';
+import type { LaundryRecord, ShowerRecord, ShowerSlotSettings } from '@/lib/types';
+
+const DAY = '2025-01-15';
+
+const settings: ShowerSlotSettings = {
+  stallCount: 2,
+  slotMinutes: 30,
+  startTime: '08:00',
+  endTime: '10:00',
+  blackoutWeekdays: [],
+  blackoutDates: [],
+};
+
+const shower = (id: string, overrides: Partial<ShowerRecord> = {}): ShowerRecord => ({
+  id,
+  guestId: `guest-${id}`,
+  time: '08:30',
+  scheduledFor: DAY,
+  date: DAY,
+  status: 'booked',
+  createdAt: `${DAY}T16:00:0${id}.000Z`,
+  lastUpdated: `${DAY}T16:00:00.000Z`,
+  ...overrides,
+});
+
+const laundry = (id: string, overrides: Partial<LaundryRecord> = {}): LaundryRecord => ({
+  id,
+  guestId: `guest-${id}`,
+  time: null,
+  laundryType: 'onsite',
+  bagNumber: id,
+  scheduledFor: DAY,
+  date: DAY,
+  status: 'dryer',
+  createdAt: `${DAY}T16:00:00.000Z`,
+  lastUpdated: `${DAY}T16:00:00.000Z`,
+  ...overrides,
+});
+
+describe('buildDisplayBoard', () => {
+  const initials = { '1': 'J.', '2': 'A.', '3': 'M.' };
+
+  it('shows the slot in progress and the one after it with initials in booking order', () => {
+    const showers = [
+      shower('2'),
+      shower('1', { createdAt: `${DAY}T15:00:00.000Z` }),
+      shower('3', { time: '09:00' }),
+    ];
+
+    const board = buildDisplayBoard(showers, [], initials, settings, DAY, '08:40');
+
+    expect(board.currentSlot).toEqual({ time: '08:30', endsAt: '09:00', initials: ['J.', 'A.'] });
+    expect(board.nextSlot).toEqual({ time: '09:00', endsAt: '09:30', initials: ['M.'] });
+  });
+
+  it('only lists guests still booked, never finished or cancelled showers', () => {
+    const showers = [shower('1', { status: 'done' }), shower('2', { status: 'cancelled' }), shower('3')];
+
+    const board = buildDisplayBoard(showers, [], initials, settings, DAY, '08:30');
+
+    expect(board.currentSlot?.initials).toEqual(['M.']);
+  });
+
+  it('has no current slot before opening and no next slot in the last one', () => {
+    expect(buildDisplayBoard([], [], {}, settings, DAY, '07:50').currentSlot).toBeNull();
+    expect(buildDisplayBoard([], [], {}, settings, DAY, '07:50').nextSlot?.time).toBe('08:00');
+
+    const lastSlot = buildDisplayBoard([], [], {}, settings, DAY, '09:45');
+    expect(lastSlot.currentSlot?.time).toBe('09:30');
+    expect(lastSlot.nextSlot).toBeNull();
+  });
+
+  it('has no slots on a blackout day', () => {
+    const board = buildDisplayBoard([shower('1')], [], initials, { ...settings, blackoutDates: [DAY] }, DAY, '08:40');
+
+    expect(board.currentSlot).toBeNull();
+    expect(board.nextSlot).toBeNull();
+  });
+
+  it('splits today\'s bags into drying and ready, sorted by number', () => {
+    const loads = [
+      laundry('12'),
+      laundry('3'),
+      laundry('7', { status: 'done' }),
+      laundry('9', { status: 'washer' }),
+      laundry('4', { status: 'done', date: '2025-01-14' }),
+    ];
+
+    const board = buildDisplayBoard([], loads, {}, settings, DAY, '08:40');
+
+    expect(board.dryingBags).toEqual(['3', '12']);
+    expect(board.readyBags).toEqual(['7']);
+  });
+
+  it('never shows more than the first initial', () => {
+    const board = buildDisplayBoard([shower('1')], [], { '1': 'j.d.' }, settings, DAY, '08:40');
+
+    expect(board.currentSlot?.initials).toEqual(['J.']);
+  });
+
+  it('falls back to a dash when a booking has no initials', () => {
+    const board = buildDisplayBoard([shower('5')], [], {}, settings, DAY, '08:40');
+
+    expect(board.currentSlot?.initials).toEqual(['—']);
+  });
+});
+
+describe('display board rows', () => {
+  it('maps the anonymous board rows into records the board can lay out', () => {
+    const showers = [
+      mapDisplayShowerRow({
+        id: '1',
+        scheduled_for: DAY,
+        scheduled_time: '08:30',
+        status: 'booked',
+        created_at: `${DAY}T16:00:01.000Z`,
+        updated_at: `${DAY}T16:00:01.000Z`,
+        initials: 'J.',
+      }),
+    ];
+    const bags = [
+      mapDisplayLaundryRow({
+        id: '2',
+        laundry_type: 'onsite',
+        bag_number: '14',
+        scheduled_for: DAY,
+        status: 'done',
+        created_at: `${DAY}T16:00:00.000Z`,
+        updated_at: `${DAY}T17:00:00.000Z`,
+      }),
+    ];
+
+    const board = buildDisplayBoard(showers, bags, { '1': 'J.' }, settings, DAY, '08:40');
+
+    expect(showers[0].guestId).toBe('');
+    expect(board.currentSlot?.initials).toEqual(['J.']);
+    expect(board.readyBags).toEqual(['14']);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildDonationReceipt, buildDonationReceiptPdf, LA_PLAZA_DONOR } from '../donationReceipts';
+import type { Donation, LaPlazaDonation } from '@/lib/types';
+
+const donation = (overrides: Partial<Donation>): Donation => ({
+  id: Math.random().toString(36),
+  type: 'Protein',
+  itemName: 'Chicken',
+  trays: 1,
+  weightLbs: 10,
+  servings: 30,
+  temperature: '',
+  donor: 'Safeway',
+  donatedAt: '2024-06-03T18:00:00.000Z',
+  dateKey: '2024-06-03',
+  createdAt: '2024-06-03T18:00:00.000Z',
+  updatedAt: '2024-06-03T18:00:00.000Z',
+  ...overrides,
+});
+
+const laPlaza = (overrides: Partial<LaPlazaDonation>): LaPlazaDonation => ({
+  id: Math.random().toString(36),
+  category: 'Produce',
+  weightLbs: 20,
+  notes: '',
+  receivedAt: '2024-06-05T18:00:00.000Z',
+  dateKey: '2024-06-05',
+  createdAt: '2024-06-05T18:00:00.000Z',
+  updatedAt: '2024-06-05T18:00:00.000Z',
+  ...overrides,
+});
+
+const receiptFor = (donor: string) =>
+  buildDonationReceipt({
+    siteName: "Hope's Corner",
+    donor,
+    donations: [
+      donation({ itemName: 'Rice', type: 'Carbs', trays: 2, weightLbs: 12.25, dateKey: '2024-06-20' }),
+      donation({ donor: 'safeway ', dateKey: '2024-06-03' }),
+      donation({ dateKey: '2023-12-31' }),
+      donation({ donor: 'Bakery Co', dateKey: '2024-06-10' }),
+    ],
+    laPlazaDonations: [laPlaza({}), laPlaza({ category: 'Dairy', notes: 'Yogurt', dateKey: '2024-07-02' })],
+    periodStart: '2024-01-01',
+    periodEnd: '2024-06-30',
+    issuedOn: '2024-07-01',
+  });
+
+describe('donation receipt utilities', () => {
+  it('itemizes the donor\'s donations in the period, oldest first', () => {
+    const receipt = receiptFor('Safeway');
+
+    expect(receipt.lines.map((line) => [line.date, line.itemName, line.trays, line.weightLbs])).toEqual([
+      ['2024-06-03', 'Chicken', 1, 10],
+      ['2024-06-20', 'Rice', 2, 12.25],
+    ]);
+    expect(receipt.totals).toEqual({ donations: 2, trays: 3, weightLbs: 22.3 });
+    expect(receipt.body[1]).toContain('you donated 2 donations totaling 22.3 lbs of food (3 trays)');
+    expect(receipt.body[1]).toContain('Between January 1, 2024 and June 30, 2024');
+  });
+
+  it('receipts La Plaza deliveries to the market by category', () => {
+    const receipt = receiptFor(LA_PLAZA_DONOR);
+
+    expect(receipt.lines).toEqual([
+      { date: '2024-06-05', source: 'la_plaza', itemName: 'Produce', category: 'Produce', trays: 0, weightLbs: 20 },
+    ]);
+  });
+
+  it('writes the receipt as a PDF with its receipt number', () => {
+    const pdf = new TextDecoder('latin1').decode(buildDonationReceiptPdf(receiptFor('Safeway'), 'DR-2024-000007'));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Receipt No. DR-2024-000007) Tj');
+    expect(pdf).toContain("(Hope's Corner) Tj");
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDonorDirectory,
+  densityForDonation,
+  describeDonationFrequency,
+  donorNameSuggestions,
+  estimateServings,
+} from '../donations';
+import type { Donation } from '@/lib/types';
+
+const donation = (overrides: Partial<Donation>): Donation => ({
+  id: Math.random().toString(36),
+  type: 'Protein',
+  itemName: 'Chicken',
+  trays: 1,
+  weightLbs: 10,
+  servings: 30,
+  temperature: '',
+  donor: 'Safeway',
+  donatedAt: '2024-06-03T18:00:00.000Z',
+  dateKey: '2024-06-03',
+  createdAt: '2024-06-03T18:00:00.000Z',
+  updatedAt: '2024-06-03T18:00:00.000Z',
+  ...overrides,
+});
+
+describe('donation utilities', () => {
+  it('estimates servings from weight and density', () => {
+    expect(estimateServings(10, 'light')).toBe(20);
+    expect(estimateServings(12.5, 'heavy')).toBe(50);
+    expect(estimateServings(Number(''), 'medium')).toBe(0);
+    expect(densityForDonation({ weightLbs: 12.5, servings: 50 })).toBe('heavy');
+    expect(densityForDonation({ weightLbs: 10, servings: 7 })).toBe('medium');
+  });
+
+  it('groups donors ignoring case and spacing', () => {
+    const directory = buildDonorDirectory([
+      donation({ donor: 'safeway ', dateKey: '2024-06-01', weightLbs: 5, servings: 15 }),
+      donation({ donor: 'Safeway', dateKey: '2024-06-15', trays: 2 }),
+      donation({ donor: 'Safeway', dateKey: '2024-06-15', weightLbs: 2.5 }),
+      donation({ donor: 'Bakery  Co', dateKey: '2024-06-10' }),
+      donation({ donor: '  ', dateKey: '2024-06-20' }),
+    ]);
+
+    expect(directory).toEqual([
+      {
+        donor: 'Safeway',
+        donationCount: 3,
+        totalWeightLbs: 17.5,
+        totalTrays: 4,
+        totalServings: 75,
+        firstDonatedOn: '2024-06-01',
+        lastDonatedOn: '2024-06-15',
+        averageDaysBetween: 14,
+      },
+      expect.objectContaining({ donor: 'Bakery Co', donationCount: 1, averageDaysBetween: null }),
+    ]);
+  });
+
+  it('suggests donor names most recent first and describes frequency', () => {
+    expect(
+      donorNameSuggestions([
+        donation({ donor: 'Bakery Co', dateKey: '2024-06-01' }),
+        donation({ donor: 'Safeway', dateKey: '2024-06-02' }),
+      ])
+    ).toEqual(['Safeway', 'Bakery Co']);
+
+    expect(describeDonationFrequency({ averageDaysBetween: null })).toBe('One-time');
+    expect(describeDonationFrequency({ averageDaysBetween: 1 })).toBe('Daily');
+    expect(describeDonationFrequency({ averageDaysBetween: 7 })).toBe('About every 7 days');
+    expect(describeDonationFrequency({ averageDaysBetween: 14 })).toBe('About every 2 weeks');
+    expect(describeDonationFrequency({ averageDaysBetween: 90 })).toBe('About every 3 months');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  EligibilityError,
+  assertEligible,
+  checkEligibility,
+  describeEligibilityRule,
+} from '../eligibility';
+import type { EligibilityRule } from '@/lib/types';
+
+const rule = (overrides: Partial<EligibilityRule> = {}): EligibilityRule => ({
+  id: 'rule-1',
+  service: 'shower',
+  itemKey: null,
+  limit: 1,
+  periodDays: 2,
+  enabled: true,
+  ...overrides,
+});
+
+describe('eligibility rules', () => {
+  it('describes rules the way staff say them', () => {
+    expect(DEFAULT_ELIGIBILITY_RULES.map(describeEligibilityRule)).toEqual([
+      '1 guest meal check-in per service day',
+      '1 shower per 2 days',
+      '1 sleeping bag per 90 days',
+    ]);
+    expect(describeEligibilityRule(rule({ limit: 2, periodDays: 7, service: 'laundry' }))).toBe(
+      '2 laundry loads per 7 days'
+    );
+  });
+
+  it('counts uses inside the period only', () => {
+    const request = { service: 'shower' as const, guestId: 'g1', date: '2024-06-10', quantity: 1 };
+    expect(checkEligibility([rule()], request, [{ guestId: 'g1', date: '2024-06-09', quantity: 1 }])).toHaveLength(1);
+    expect(checkEligibility([rule()], request, [{ guestId: 'g1', date: '2024-06-08', quantity: 1 }])).toEqual([]);
+    // Other guests and later dates don't count
+    expect(
+      checkEligibility([rule()], request, [
+        { guestId: 'g2', date: '2024-06-10', quantity: 1 },
+        { guestId: 'g1', date: '2024-06-11', quantity: 1 },
+      ])
+    ).toEqual([]);
+  });
+
+  it('matches item rules by item and counts quantity', () => {
+    const sleepingBags = rule({ service: 'item', itemKey: 'sleeping_bag', limit: 2, periodDays: 90 });
+    const request = {
+      service: 'item' as const,
+      guestId: 'g1',
+      date: '2024-06-10',
+      quantity: 1,
+      itemKey: 'Sleeping Bag',
+    };
+    const uses = [
+      { guestId: 'g1', date: '2024-04-01', quantity: 2, itemKey: 'sleeping_bag' },
+      { guestId: 'g1', date: '2024-06-01', quantity: 5, itemKey: 'socks' },
+    ];
+
+    const [violation] = checkEligibility([sleepingBags], request, uses);
+    expect(violation.used).toBe(2);
+    expect(violation.message).toBe('Limit of 2 sleeping bags per 90 days reached (2 already received).');
+    expect(checkEligibility([sleepingBags], { ...request, itemKey: 'socks' }, uses)).toEqual([]);
+  });
+
+  it('skips disabled rules and rules for other services', () => {
+    const request = { service: 'shower' as const, guestId: 'g1', date: '2024-06-10', quantity: 1 };
+    const uses = [{ guestId: 'g1', date: '2024-06-10', quantity: 1 }];
+    expect(checkEligibility([rule({ enabled: false }), rule({ service: 'laundry' })], request, uses)).toEqual([]);
+  });
+
+  it('only lets a request past a limit with a reason', () => {
+    const request = { service: 'shower' as const, guestId: 'g1', date: '2024-06-10', quantity: 1 };
+    const uses = [{ guestId: 'g1', date: '2024-06-10', quantity: 1 }];
+
+    expect(() => assertEligible([rule()], request, uses)).toThrow(EligibilityError);
+    expect(() => assertEligible([rule()], request, uses, { reason: '  ' })).toThrow(EligibilityError);
+    expect(assertEligible([rule()], request, uses, { reason: 'Worked a shift cleaning up' })).toHaveLength(1);
+    expect(assertEligible([rule()], request, [])).toEqual([]);
+  });
+});
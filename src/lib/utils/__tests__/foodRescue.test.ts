@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFoodRescueLedger,
+  describeDisposition,
+  formatDiversionRate,
+  mapFoodDispositionRow,
+  redistributionRecipients,
+  totalFoodRescueLedger,
+} from '../foodRescue';
+import type { Donation, FoodDisposition, LaPlazaDonation, MealRecord } from '@/lib/types';
+
+const donation = (dateKey: string, weightLbs: number, servings: number): Donation => ({
+  id: Math.random().toString(36),
+  type: 'Protein',
+  itemName: 'Chicken',
+  trays: 1,
+  weightLbs,
+  servings,
+  temperature: '',
+  donor: 'Bakery',
+  donatedAt: `${dateKey}T18:00:00.000Z`,
+  dateKey,
+  createdAt: `${dateKey}T18:00:00.000Z`,
+  updatedAt: `${dateKey}T18:00:00.000Z`,
+});
+
+const laPlaza = (dateKey: string, weightLbs: number): LaPlazaDonation => ({
+  id: Math.random().toString(36),
+  category: 'Produce',
+  weightLbs,
+  notes: '',
+  receivedAt: `${dateKey}T18:00:00.000Z`,
+  dateKey,
+  createdAt: `${dateKey}T18:00:00.000Z`,
+  updatedAt: `${dateKey}T18:00:00.000Z`,
+});
+
+const meal = (date: string, count: number): MealRecord => ({
+  id: Math.random().toString(36),
+  guestId: null,
+  count,
+  date,
+  servedOn: date,
+  recordedAt: `${date}T19:00:00.000Z`,
+  createdAt: `${date}T19:00:00.000Z`,
+  type: 'guest',
+});
+
+const disposition = (overrides: Partial<FoodDisposition>): FoodDisposition => ({
+  id: Math.random().toString(36),
+  kind: 'served',
+  recipient: null,
+  weightLbs: 10,
+  notes: null,
+  dateKey: '2024-06-03',
+  recordedByEmail: null,
+  recordedAt: '2024-06-03T22:00:00.000Z',
+  ...overrides,
+});
+
+describe('food rescue utilities', () => {
+  it('reconciles intake against outbound food for each day', () => {
+    const rows = buildFoodRescueLedger({
+      donations: [donation('2024-06-03', 30, 60), donation('2024-06-05', 12, 24), donation('2024-05-31', 99, 0)],
+      laPlazaDonations: [laPlaza('2024-06-03', 20)],
+      dispositions: [
+        disposition({ kind: 'served', weightLbs: 25 }),
+        disposition({ kind: 'redistributed', recipient: 'Food Bank', weightLbs: 10 }),
+        disposition({ kind: 'discarded', weightLbs: 5 }),
+      ],
+      meals: [meal('2024-06-03', 40), meal('2024-06-03', 2)],
+      from: '2024-06-03',
+      to: '2024-06-05',
+    });
+
+    expect(rows.map((row) => row.period)).toEqual(['2024-06-03', '2024-06-04', '2024-06-05']);
+    expect(rows[0]).toMatchObject({
+      donatedLbs: 30,
+      laPlazaLbs: 20,
+      intakeLbs: 50,
+      intakeServings: 60,
+      mealsServed: 42,
+      outLbs: { served: 25, redistributed: 10, composted: 0, discarded: 5 },
+      totalOutLbs: 40,
+      unaccountedLbs: 10,
+      diversionRate: 35 / 40,
+    });
+    expect(rows[1]).toMatchObject({ intakeLbs: 0, totalOutLbs: 0, diversionRate: null });
+    expect(rows[2]).toMatchObject({ intakeLbs: 12, unaccountedLbs: 12 });
+
+    const total = totalFoodRescueLedger(rows, '2024-06');
+    expect(total).toMatchObject({ period: '2024-06', intakeLbs: 62, totalOutLbs: 40, unaccountedLbs: 22 });
+    expect(formatDiversionRate(total.diversionRate)).toBe('87.5%');
+    expect(formatDiversionRate(null)).toBe('—');
+  });
+
+  it('groups a range by month', () => {
+    const rows = buildFoodRescueLedger({
+      donations: [donation('2024-05-31', 8, 0), donation('2024-06-01', 4, 0)],
+      laPlazaDonations: [],
+      dispositions: [disposition({ kind: 'composted', weightLbs: 3, dateKey: '2024-06-02' })],
+      meals: [],
+      from: '2024-05-15',
+      to: '2024-06-10',
+      groupBy: 'month',
+    });
+
+    expect(rows.map((row) => [row.period, row.intakeLbs, row.outLbs.composted, row.diversionRate])).toEqual([
+      ['2024-05', 8, 0, null],
+      ['2024-06', 4, 3, 1],
+    ]);
+  });
+
+  it('describes dispositions and suggests past recipients', () => {
+    expect(describeDisposition({ kind: 'redistributed', recipient: 'Food Bank' })).toBe('Redistributed to Food Bank');
+    expect(describeDisposition({ kind: 'discarded', recipient: null })).toBe('Discarded');
+    expect(
+      redistributionRecipients([
+        disposition({ kind: 'redistributed', recipient: 'Shelter' }),
+        disposition({ kind: 'redistributed', recipient: 'Food Bank' }),
+        disposition({ kind: 'redistributed', recipient: 'food bank ' }),
+        disposition({ kind: 'served', recipient: 'Ignored' }),
+      ])
+    ).toEqual(['Food Bank', 'Shelter']);
+  });
+
+  it('maps numeric weights returned as strings', () => {
+    expect(
+      mapFoodDispositionRow({
+        id: 'f1',
+        disposition: 'redistributed',
+        recipient: 'Food Bank',
+        weight_lbs: '12.50',
+        notes: null,
+        date_key: '2024-06-03',
+        recorded_by_email: 'staff@example.org',
+        recorded_at: '2024-06-03T22:00:00.000Z',
+      })
+    ).toMatchObject({ kind: 'redistributed', recipient: 'Food Bank', weightLbs: 12.5 });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_FOOD_SAFETY_RANGES,
+  buildMonthlyTemperatureLog,
+  checkTemperature,
+  describeSafeRange,
+  mapTemperatureReadingRow,
+  parseTemperature,
+} from '../foodSafety';
+import type { TemperatureReading } from '@/lib/types';
+
+const reading = (overrides: Partial<TemperatureReading>): TemperatureReading => ({
+  id: Math.random().toString(36),
+  stage: 'service',
+  holding: 'hot',
+  itemName: 'Stew',
+  donationId: null,
+  temperatureF: 150,
+  inRange: true,
+  safeMinF: 135,
+  safeMaxF: null,
+  correctiveAction: null,
+  recordedByEmail: null,
+  recordedAt: '2024-06-03T18:00:00.000Z',
+  dateKey: '2024-06-03',
+  ...overrides,
+});
+
+describe('food safety utilities', () => {
+  it('checks hot and cold holding against the safe ranges', () => {
+    expect(checkTemperature(135, 'hot', DEFAULT_FOOD_SAFETY_RANGES)).toEqual({
+      inRange: true,
+      safeMinF: 135,
+      safeMaxF: null,
+    });
+    expect(checkTemperature(120.5, 'hot', DEFAULT_FOOD_SAFETY_RANGES).inRange).toBe(false);
+    expect(checkTemperature(41, 'cold', DEFAULT_FOOD_SAFETY_RANGES).inRange).toBe(true);
+    expect(checkTemperature(45, 'cold', DEFAULT_FOOD_SAFETY_RANGES).inRange).toBe(false);
+    expect(
+      checkTemperature(-5, 'cold', { ...DEFAULT_FOOD_SAFETY_RANGES, cold: { minF: 0, maxF: 41 } }).inRange
+    ).toBe(false);
+  });
+
+  it('describes ranges and parses typed temperatures', () => {
+    expect(describeSafeRange({ minF: 135, maxF: null })).toBe('135°F or above');
+    expect(describeSafeRange({ minF: null, maxF: 41 })).toBe('41°F or below');
+    expect(describeSafeRange({ minF: 0, maxF: 41 })).toBe('0°F to 41°F');
+    expect(parseTemperature(' 38.5 ')).toBe(38.5);
+    expect(parseTemperature('')).toBeNull();
+    expect(parseTemperature('warm')).toBeNull();
+  });
+
+  it('groups a month of readings by day in the order taken', () => {
+    const log = buildMonthlyTemperatureLog(
+      [
+        reading({ id: 'late', recordedAt: '2024-06-03T20:00:00.000Z' }),
+        reading({ id: 'early', recordedAt: '2024-06-03T17:00:00.000Z', inRange: false, correctiveAction: 'Reheated' }),
+        reading({ id: 'first', dateKey: '2024-06-01' }),
+        reading({ id: 'july', dateKey: '2024-07-01' }),
+      ],
+      '2024-06'
+    );
+
+    expect(log.days.map((day) => [day.date, day.readings.map((r) => r.id)])).toEqual([
+      ['2024-06-01', ['first']],
+      ['2024-06-03', ['early', 'late']],
+    ]);
+    expect(log.totals).toEqual({ readings: 3, outOfRange: 1 });
+  });
+
+  it('maps numeric columns returned as strings', () => {
+    const mapped = mapTemperatureReadingRow({
+      id: 'r1',
+      stage: 'intake',
+      holding: 'cold',
+      item_name: 'Milk',
+      donation_id: 'd1',
+      temperature_f: '38.5',
+      in_range: true,
+      safe_min_f: null,
+      safe_max_f: '41.0',
+      corrective_action: null,
+      recorded_by_email: 'staff@example.org',
+      recorded_at: '2024-06-03T18:00:00.000Z',
+      date_key: '2024-06-03',
+    });
+
+    expect(mapped).toMatchObject({ temperatureF: 38.5, safeMinF: null, safeMaxF: 41, donationId: 'd1' });
+  });
+});
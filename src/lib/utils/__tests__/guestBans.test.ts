@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { describeBanScope, guestBanFields, isGuestBannedFrom } from '../guestBans';
+import type { Guest } from '@/lib/types';
+
+const guest = (overrides: Partial<Guest> = {}): Guest =>
+  ({
+    id: 'guest-1',
+    isBanned: true,
+    bannedServices: [],
+    ...overrides,
+  }) as Guest;
+
+describe('guest ban utilities', () => {
+  it('treats a ban with no services as covering every service', () => {
+    expect(isGuestBannedFrom(guest(), 'meals')).toBe(true);
+    expect(isGuestBannedFrom(guest({ bannedServices: undefined }), 'laundry')).toBe(true);
+  });
+
+  it('only blocks the services a partial ban covers', () => {
+    const showersOnly = guest({ bannedServices: ['shower'] });
+    expect(isGuestBannedFrom(showersOnly, 'shower')).toBe(true);
+    expect(isGuestBannedFrom(showersOnly, 'meals')).toBe(false);
+    expect(isGuestBannedFrom(guest({ isBanned: false, bannedServices: ['shower'] }), 'shower')).toBe(false);
+  });
+
+  it('describes the scope in the order services are listed', () => {
+    expect(describeBanScope([])).toBe('All services');
+    expect(describeBanScope(['shower'])).toBe('Showers');
+    expect(describeBanScope(['laundry', 'shower', 'meals'])).toBe('Meals, showers and laundry');
+  });
+
+  it('sets the guest ban fields for bans and lifts but not warnings', () => {
+    const ban = {
+      services: ['shower' as const],
+      reason: 'Left a mess',
+      startsAt: '2024-06-01T18:00:00.000Z',
+      endsAt: null,
+    };
+    expect(guestBanFields({ ...ban, action: 'ban' })).toEqual({
+      bannedAt: '2024-06-01T18:00:00.000Z',
+      bannedUntil: null,
+      banReason: 'Left a mess',
+      bannedServices: ['shower'],
+    });
+    expect(guestBanFields({ ...ban, action: 'lift' })).toEqual({
+      bannedAt: null,
+      bannedUntil: null,
+      banReason: '',
+      bannedServices: [],
+    });
+    expect(guestBanFields({ ...ban, action: 'warning' })).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import type { Guest } from '@/lib/types';
+import {
+  levenshteinDistance,
+  normalizedSimilarity,
+  phoneticNormalize,
+  findDuplicateCandidates,
+} from '../guestDuplicates';
+
+const makeGuest = (overrides: Partial<Guest>): Guest => ({
+  id: 'guest-id',
+  guestId: 'G001',
+  firstName: 'John',
+  lastName: 'Doe',
+  name: 'John Doe',
+  preferredName: '',
+  housingStatus: 'Unhoused',
+  age: 'Adult 18-59',
+  gender: 'Male',
+  location: 'Mountain View',
+  notes: '',
+  bicycleDescription: '',
+  bannedAt: null,
+  bannedUntil: null,
+  banReason: '',
+  isBanned: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('guestDuplicates utilities', () => {
+  describe('string similarity', () => {
+    it('computes edit distance', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('', 'abc')).toBe(3);
+      expect(levenshteinDistance('same', 'same')).toBe(0);
+    });
+
+    it('normalizes similarity to 0..1 ignoring case', () => {
+      expect(normalizedSimilarity('John', 'john')).toBe(1);
+      expect(normalizedSimilarity('Jon', 'John')).toBe(0.75);
+      expect(normalizedSimilarity('', 'John')).toBe(0);
+    });
+
+    it('maps similar-sounding names to the same key', () => {
+      expect(phoneticNormalize('Kathy')).toBe(phoneticNormalize('Cathy'));
+      expect(phoneticNormalize('Phillip')).toBe(phoneticNormalize('Filip'));
+    });
+  });
+
+  describe('findDuplicateCandidates', () => {
+    it('pairs guests with matching names and suggests the older profile as survivor', () => {
+      const older = makeGuest({ id: 'a', guestId: 'G001', createdAt: '2023-05-01T00:00:00.000Z' });
+      const newer = makeGuest({ id: 'b', guestId: 'G002', createdAt: '2024-02-01T00:00:00.000Z' });
+
+      const [candidate] = findDuplicateCandidates([newer, older]);
+
+      expect(candidate.primary.id).toBe('a');
+      expect(candidate.duplicate.id).toBe('b');
+      expect(candidate.reasons).toContain('Same name');
+    });
+
+    it('catches misspellings and swapped first/last names', () => {
+      const guests = [
+        makeGuest({ id: 'a', firstName: 'Katherine', lastName: 'Smith' }),
+        makeGuest({ id: 'b', firstName: 'Katharine', lastName: 'Smith' }),
+        makeGuest({ id: 'c', firstName: 'Nguyen', lastName: 'Tran', createdAt: '2024-03-01T00:00:00.000Z' }),
+        makeGuest({ id: 'd', firstName: 'Tran', lastName: 'Nguyen', createdAt: '2024-03-02T00:00:00.000Z' }),
+      ];
+
+      const candidates = findDuplicateCandidates(guests);
+      const pairs = candidates.map((c) => [c.primary.id, c.duplicate.id].sort().join(''));
+
+      expect(pairs).toEqual(expect.arrayContaining(['ab', 'cd']));
+      expect(candidates.find((c) => c.primary.id === 'c')?.reasons).toContain(
+        'First and last name swapped'
+      );
+    });
+
+    it('ignores clearly different guests', () => {
+      const guests = [
+        makeGuest({ id: 'a', firstName: 'Maria', lastName: 'Lopez' }),
+        makeGuest({ id: 'b', firstName: 'Mark', lastName: 'Lewis' }),
+        makeGuest({ id: 'c', firstName: 'Sam', lastName: 'Patel' }),
+      ];
+
+      expect(findDuplicateCandidates(guests)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { diffGuestFields, guestHistoryFieldLabel, mapGuestHistoryRow } from '../guestHistory';
+import type { Guest } from '@/lib/types';
+
+const guest: Guest = {
+  id: 'guest-1',
+  guestId: 'G-1',
+  firstName: 'Ana',
+  lastName: 'Test',
+  name: 'Ana Test',
+  preferredName: '',
+  housingStatus: 'Unhoused',
+  age: 'Adult 18-59',
+  gender: 'Female',
+  location: 'Mountain View',
+  notes: '',
+  bicycleDescription: '',
+  bannedAt: null,
+  bannedUntil: null,
+  banReason: '',
+  isBanned: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('guest history utilities', () => {
+  it('lists only the tracked fields that changed, treating blanks as empty', () => {
+    expect(
+      diffGuestFields(guest, {
+        firstName: 'Ana',
+        preferredName: 'Annie',
+        location: 'Palo Alto',
+        notes: '',
+      })
+    ).toEqual([
+      { field: 'preferredName', oldValue: null, newValue: 'Annie' },
+      { field: 'location', oldValue: 'Mountain View', newValue: 'Palo Alto' },
+    ]);
+  });
+
+  it('maps database columns to profile fields', () => {
+    const entry = mapGuestHistoryRow({
+      id: 7,
+      guest_id: 'guest-1',
+      field: 'housing_status',
+      old_value: 'Unhoused',
+      new_value: 'Housed',
+      changed_by: 'user-1',
+      changed_by_email: 'staff@example.org',
+      changed_at: '2024-06-01T18:00:00.000Z',
+    });
+
+    expect(entry).toMatchObject({ id: '7', field: 'housingStatus', oldValue: 'Unhoused', newValue: 'Housed' });
+    expect(guestHistoryFieldLabel(entry.field)).toBe('Housing status');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { buildGuestTimeline, countGuestTimelineByPeriod, countTimelineEvents } from '../guestTimeline';
+import type { MealRecord, ShowerRecord, ServiceWaiver } from '@/lib/types';
+
+const meal = (id: string, guestId: string, date: string, type: MealRecord['type'] = 'guest'): MealRecord => ({
+  id,
+  guestId,
+  count: 1,
+  date,
+  recordedAt: `${date}T18:00:00.000Z`,
+  servedOn: date,
+  createdAt: `${date}T18:00:00.000Z`,
+  type,
+});
+
+const shower = (id: string, date: string, status: ShowerRecord['status']): ShowerRecord => ({
+  id,
+  guestId: 'guest-1',
+  time: '09:00',
+  scheduledFor: date,
+  date,
+  status,
+  createdAt: `${date}T16:00:00.000Z`,
+  lastUpdated: `${date}T16:00:00.000Z`,
+});
+
+const waiver: ServiceWaiver = {
+  id: 'waiver-1',
+  guestId: 'guest-1',
+  serviceType: 'shower',
+  templateId: null,
+  signedAt: '2024-05-06T17:00:00.000Z',
+  dismissedAt: '2024-05-06T17:00:00.000Z',
+  dismissedReason: 'signed',
+  createdAt: '2024-05-06T17:00:00.000Z',
+};
+
+describe('guest timeline utilities', () => {
+  it("gathers only the guest's records, newest first, and counts only services received", () => {
+    const events = buildGuestTimeline('guest-1', {
+      meals: [meal('m1', 'guest-1', '2024-05-06'), meal('m2', 'guest-2', '2024-05-06')],
+      rvMeals: [meal('rv1', 'guest-1', '2024-04-30', 'rv')],
+      showers: [shower('s1', '2024-05-07', 'done'), shower('s2', '2024-05-08', 'cancelled')],
+      holidays: [{ id: 'h1', guestId: 'guest-1', date: '2024-05-01', type: 'holiday' }],
+      items: [{ id: 'i1', guestId: 'guest-1', item: 'Tent', quantity: 2, date: '2024-05-06', createdAt: '2024-05-06T19:00:00.000Z' }],
+      waivers: [waiver, { ...waiver, id: 'waiver-2', dismissedAt: null }],
+    });
+
+    expect(events.map((event) => event.id)).toEqual([
+      'shower-s2',
+      'shower-s1',
+      'item-i1',
+      'meal-m1',
+      'waiver-waiver-1',
+      'holiday-h1',
+      'rv_meal-rv1',
+    ]);
+    expect(events.find((event) => event.type === 'item')?.description).toBe('Received 2 × Tent');
+    expect(countTimelineEvents(events)).toEqual({
+      counts: { shower: 1, item: 1, meal: 1, holiday: 1, rv_meal: 1 },
+      total: 5,
+    });
+  });
+
+  it('groups counts into Monday-start weeks, months and years', () => {
+    const events = buildGuestTimeline('guest-1', {
+      meals: [
+        meal('m1', 'guest-1', '2024-04-28'),
+        meal('m2', 'guest-1', '2024-04-29'),
+        meal('m3', 'guest-1', '2024-05-05'),
+      ],
+    });
+
+    expect(countGuestTimelineByPeriod(events, 'week')).toEqual([
+      { period: '2024-04-29', label: 'Week of Apr 29, 2024', counts: { meal: 2 }, total: 2 },
+      { period: '2024-04-22', label: 'Week of Apr 22, 2024', counts: { meal: 1 }, total: 1 },
+    ]);
+    expect(countGuestTimelineByPeriod(events, 'month').map((row) => [row.label, row.total])).toEqual([
+      ['May 2024', 1],
+      ['April 2024', 2],
+    ]);
+    expect(countGuestTimelineByPeriod(events, 'year')).toEqual([
+      { period: '2024-01-01', label: '2024', counts: { meal: 3 }, total: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyStockChange,
+  buildInventoryMonthReport,
+  findLowStock,
+  getStockOnHand,
+  toInventoryItemKey,
+} from '../inventory';
+import type { InventoryItem, InventoryTransaction } from '@/lib/types';
+
+const item = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: 'item-1',
+  itemKey: 'sleeping_bag',
+  name: 'Sleeping bag',
+  sizes: [],
+  lowStockThreshold: 5,
+  active: true,
+  ...overrides,
+});
+
+const transaction = (overrides: Partial<InventoryTransaction>): InventoryTransaction => ({
+  id: Math.random().toString(36),
+  itemKey: 'sleeping_bag',
+  size: null,
+  kind: 'receive',
+  quantity: 1,
+  note: null,
+  recordedByEmail: null,
+  createdAt: '2024-06-15T18:00:00.000Z',
+  ...overrides,
+});
+
+describe('inventory utilities', () => {
+  it('builds catalog keys from item names', () => {
+    expect(toInventoryItemKey('  Sleeping Bag ')).toBe('sleeping_bag');
+    expect(toInventoryItemKey('Flip-flops (pair)')).toBe('flip_flops_pair');
+  });
+
+  it('applies stock changes per item and size', () => {
+    const levels = applyStockChange(
+      [{ itemKey: 'tshirt', size: 'M', onHand: 4 }],
+      'tshirt',
+      'M',
+      -1
+    );
+    const withLarge = applyStockChange(levels, 'tshirt', 'L', 10);
+
+    expect(getStockOnHand(withLarge, 'tshirt', 'M')).toBe(3);
+    expect(getStockOnHand(withLarge, 'tshirt', 'L')).toBe(10);
+    expect(getStockOnHand(withLarge, 'tshirt', 'S')).toBe(0);
+  });
+
+  it('flags active items and sizes at or below their threshold', () => {
+    const shirts = item({ itemKey: 'tshirt', name: 'T-shirt', sizes: ['M', 'L'], lowStockThreshold: 3 });
+    const tents = item({ itemKey: 'tent', name: 'Tent', active: false });
+    const levels = [
+      { itemKey: 'tshirt', size: 'M', onHand: 3 },
+      { itemKey: 'tshirt', size: 'L', onHand: 12 },
+      { itemKey: 'sleeping_bag', size: null, onHand: 1 },
+    ];
+
+    expect(
+      findLowStock([item(), shirts, tents], levels).map((entry) => [entry.item.itemKey, entry.size, entry.onHand])
+    ).toEqual([
+      ['sleeping_bag', null, 1],
+      ['tshirt', 'M', 3],
+    ]);
+  });
+
+  it('works a month back from current stock', () => {
+    const report = buildInventoryMonthReport(
+      [item()],
+      [{ itemKey: 'sleeping_bag', size: null, onHand: 7 }],
+      [
+        // Late on May 31 in Pacific time, so not part of June
+        transaction({ quantity: 4, createdAt: '2024-06-01T05:00:00.000Z' }),
+        transaction({ quantity: 10, createdAt: '2024-06-03T18:00:00.000Z' }),
+        transaction({ kind: 'distribute', quantity: -1, createdAt: '2024-06-10T18:00:00.000Z' }),
+        transaction({ kind: 'distribute', quantity: -1, createdAt: '2024-06-11T18:00:00.000Z' }),
+        transaction({ kind: 'adjust', quantity: -2, createdAt: '2024-06-30T18:00:00.000Z' }),
+        transaction({ kind: 'distribute', quantity: -1, createdAt: '2024-07-02T18:00:00.000Z' }),
+      ],
+      '2024-06'
+    );
+
+    expect(report).toEqual([
+      {
+        itemKey: 'sleeping_bag',
+        name: 'Sleeping bag',
+        size: null,
+        opening: 2,
+        received: 10,
+        distributed: 2,
+        adjusted: -2,
+        closing: 8,
+      },
+    ]);
+  });
+});
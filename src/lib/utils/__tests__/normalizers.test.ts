@@ -143,6 +143,14 @@ describe('normalizers utilities', () => {
     it('returns true if ban is today but later time', () => {
       expect(computeIsGuestBanned('2025-06-15T23:59:59Z')).toBe(true);
     });
+
+    it('treats a ban with a start and no end as permanent', () => {
+      expect(computeIsGuestBanned(null, '2025-01-01T00:00:00Z')).toBe(true);
+    });
+
+    it('lets an expired ban lapse even though it has a start', () => {
+      expect(computeIsGuestBanned('2025-01-01', '2024-12-01T00:00:00Z')).toBe(false);
+    });
   });
 
   describe('mapGuestRow', () => {
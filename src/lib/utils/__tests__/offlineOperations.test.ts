@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  OFFLINE_OPERATION_HANDLERS,
+  getOfflineOperationHandler,
+  isOfflineOperationType,
+  createClientId,
+  columnValuesEqual,
+  OfflineConflictError,
+} from '../offlineOperations';
+
+const calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+let selectedRow: Record<string, unknown> | null = null;
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    rpc: (fn: string, params: unknown) => {
+      calls.push({ table: 'rpc', method: fn, args: [params] });
+      return Promise.resolve({ error: null });
+    },
+    from: (table: string) => ({
+      upsert: (...args: unknown[]) => {
+        calls.push({ table, method: 'upsert', args });
+        return Promise.resolve({ error: null });
+      },
+      update: (...args: unknown[]) => ({
+        eq: (...eqArgs: unknown[]) => {
+          calls.push({ table, method: 'update', args: [...args, ...eqArgs] });
+          return Promise.resolve({ error: null });
+        },
+      }),
+      delete: () => ({
+        eq: (...eqArgs: unknown[]) => {
+          calls.push({ table, method: 'delete', args: eqArgs });
+          return Promise.resolve({ error: null });
+        },
+      }),
+      select: () => {
+        const chain = {
+          eq: () => chain,
+          maybeSingle: () => Promise.resolve({ data: selectedRow, error: null }),
+        };
+        return chain;
+      },
+    }),
+  }),
+}));
+
+describe('offline operation registry', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    selectedRow = null;
+  });
+
+  it('recognises registered operation types', () => {
+    expect(isOfflineOperationType('addShowerRecord')).toBe(true);
+    expect(isOfflineOperationType('toString')).toBe(false);
+    expect(isOfflineOperationType('unknownOperation')).toBe(false);
+    expect(getOfflineOperationHandler('unknownOperation')).toBeUndefined();
+  });
+
+  it('replays inserts as idempotent upserts keyed by id', async () => {
+    await OFFLINE_OPERATION_HANDLERS.addDonation({
+      row: { id: 'donation-1', donation_type: 'Protein', item_name: 'Chicken', donor: 'Safeway' },
+    });
+
+    expect(calls).toEqual([
+      {
+        table: 'donations',
+        method: 'upsert',
+        args: [
+          { id: 'donation-1', donation_type: 'Protein', item_name: 'Chicken', donor: 'Safeway' },
+          { onConflict: 'id', ignoreDuplicates: true },
+        ],
+      },
+    ]);
+  });
+
+  it('replays updates and deletes against the right table', async () => {
+    await getOfflineOperationHandler('updateLaundryStatus')!({ id: 'l-1', changes: { status: 'dryer' } });
+    await getOfflineOperationHandler('deleteShowerRecord')!({ id: 's-1' });
+
+    expect(calls).toEqual([
+      { table: 'laundry_bookings', method: 'update', args: [{ status: 'dryer' }, 'id', 'l-1'] },
+      { table: 'shower_reservations', method: 'delete', args: ['id', 's-1'] },
+    ]);
+  });
+
+  it('folds a replayed guest meal into an existing row for the same day', async () => {
+    selectedRow = { id: 'server-meal', quantity: 1 };
+
+    await OFFLINE_OPERATION_HANDLERS.addMealRecord({
+      row: { id: 'queued-meal', guest_id: 'g-1', quantity: 2, served_on: '2024-01-15', meal_type: 'guest' },
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].method).toBe('update');
+    expect(calls[0].args[0]).toMatchObject({ quantity: 3 });
+    expect(calls[0].args.slice(1)).toEqual(['id', 'server-meal']);
+  });
+
+  it('inserts a replayed guest meal when no row exists yet', async () => {
+    await OFFLINE_OPERATION_HANDLERS.addMealRecord({
+      row: { id: 'queued-meal', guest_id: 'g-1', quantity: 1, served_on: '2024-01-15', meal_type: 'guest' },
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({ table: 'meal_attendance', method: 'upsert' });
+  });
+
+  it('replays waiver signatures through dismiss_waiver', async () => {
+    await OFFLINE_OPERATION_HANDLERS.dismissWaiver({
+      guestId: 'g-1',
+      serviceType: 'laundry',
+      reason: 'shared_waiver',
+    });
+
+    expect(calls).toEqual([
+      {
+        table: 'rpc',
+        method: 'dismiss_waiver',
+        args: [{ p_guest_id: 'g-1', p_service_type: 'laundry', p_dismissed_reason: 'shared_waiver' }],
+      },
+    ]);
+  });
+
+  it('generates uuid-shaped client ids', () => {
+    expect(createClientId()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  describe('conflict detection', () => {
+    const queued = {
+      id: 'l-1',
+      changes: { status: 'dryer' },
+      original: { status: 'washer' },
+    };
+
+    it('writes the update when the server still holds the original value', async () => {
+      selectedRow = { id: 'l-1', status: 'washer' };
+
+      await OFFLINE_OPERATION_HANDLERS.updateLaundryStatus(queued);
+
+      expect(calls).toEqual([
+        { table: 'laundry_bookings', method: 'update', args: [{ status: 'dryer' }, 'id', 'l-1'] },
+      ]);
+    });
+
+    it('does not flag a conflict when the server already holds our value', async () => {
+      selectedRow = { id: 'l-1', status: 'dryer' };
+
+      await OFFLINE_OPERATION_HANDLERS.updateLaundryStatus(queued);
+
+      expect(calls).toHaveLength(1);
+    });
+
+    it('raises a conflict carrying both versions when the server moved on', async () => {
+      selectedRow = { id: 'l-1', status: 'done' };
+
+      const error = await OFFLINE_OPERATION_HANDLERS.updateLaundryStatus(queued).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OfflineConflictError);
+      expect(error).toMatchObject({
+        table: 'laundry_bookings',
+        recordId: 'l-1',
+        localVersion: { status: 'dryer' },
+        original: { status: 'washer' },
+        serverVersion: { id: 'l-1', status: 'done' },
+      });
+      expect(calls).toHaveLength(0);
+    });
+
+    it('raises a conflict when the row was deleted on the server', async () => {
+      const error = await OFFLINE_OPERATION_HANDLERS.updateGuest({
+        id: 'g-1',
+        changes: { location: 'San Jose' },
+        original: { location: 'Mountain View' },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OfflineConflictError);
+      expect(error.serverVersion).toBeNull();
+    });
+
+    it('compares column values the way they round-trip', () => {
+      expect(columnValuesEqual('', null)).toBe(true);
+      expect(columnValuesEqual('2024-01-15T10:00:00.000Z', '2024-01-15T10:00:00+00:00')).toBe(true);
+      expect(columnValuesEqual(['Flat Tire'], ['Flat Tire'])).toBe(true);
+      expect(columnValuesEqual(2, '2')).toBe(true);
+      expect(columnValuesEqual('Housed', 'Unhoused')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { createTextPdf, wrapPdfText } from '../pdf';
+
+const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+describe('pdf utilities', () => {
+  it('wraps long text on spaces and splits words longer than a line', () => {
+    const lines = wrapPdfText(`${'word '.repeat(40)}${'x'.repeat(100)}`, 'mono', 12);
+
+    expect(lines.every((line) => line.length <= 65)).toBe(true);
+    expect(lines[0]).toMatch(/^word( word)+$/);
+    expect(lines.join('')).toContain('x'.repeat(35));
+  });
+
+  it('escapes text and points the cross-reference table at each object', () => {
+    const pdf = decode(createTextPdf([{ text: 'Thanks (again) \\ “friends”' }], 'Receipt'));
+
+    expect(pdf).toContain('(Thanks \\(again\\) \\\\ "friends") Tj');
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(startxref).startsWith('xref')).toBe(true);
+    const firstOffset = Number(pdf.match(/0000000000 65535 f \n(\d{10})/)?.[1]);
+    expect(pdf.slice(firstOffset).startsWith('1 0 obj')).toBe(true);
+  });
+
+  it('flows onto another page when a page is full', () => {
+    const pdf = decode(createTextPdf(Array.from({ length: 60 }, (_, i) => ({ text: `Line ${i + 1}` }))));
+
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Line 60) Tj');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { subscribeToTableChanges, getChangedRowId, type RealtimeRowChange } from '../realtime';
+
+type ChangeHandler = (payload: Record<string, unknown>) => void;
+const subscriptions: Array<{ channel: string; filter: Record<string, unknown>; handler: ChangeHandler }> = [];
+const removeChannel = vi.fn();
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: () => ({
+    channel: (name: string) => {
+      const channel = {
+        on: (_type: string, filter: Record<string, unknown>, handler: ChangeHandler) => {
+          subscriptions.push({ channel: name, filter, handler });
+          return channel;
+        },
+        subscribe: () => channel,
+      };
+      return channel;
+    },
+    removeChannel: (...args: unknown[]) => removeChannel(...args),
+  }),
+}));
+
+describe('realtime subscriptions', () => {
+  beforeEach(() => {
+    subscriptions.length = 0;
+    removeChannel.mockClear();
+  });
+
+  it('listens for every event on each table in the public schema', () => {
+    subscribeToTableChanges('test-channel', ['guests', 'meal_attendance'], vi.fn());
+
+    expect(subscriptions.map((s) => [s.channel, s.filter])).toEqual([
+      ['test-channel', { event: '*', schema: 'public', table: 'guests' }],
+      ['test-channel', { event: '*', schema: 'public', table: 'meal_attendance' }],
+    ]);
+  });
+
+  it('normalizes payloads and treats empty rows as missing', () => {
+    const onChange = vi.fn();
+    subscribeToTableChanges('test-channel', ['guests'], onChange);
+
+    subscriptions[0].handler({ table: 'guests', eventType: 'DELETE', new: {}, old: { id: 'g-1' } });
+
+    const change: RealtimeRowChange = onChange.mock.calls[0][0];
+    expect(change).toEqual({ table: 'guests', eventType: 'DELETE', row: null, oldRow: { id: 'g-1' } });
+    expect(getChangedRowId(change)).toBe('g-1');
+  });
+
+  it('removes the channel when unsubscribed', () => {
+    const unsubscribe = subscribeToTableChanges('test-channel', ['guests'], vi.fn());
+    unsubscribe();
+    expect(removeChannel).toHaveBeenCalledTimes(1);
+  });
+});
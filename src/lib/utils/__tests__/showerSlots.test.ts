@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isShowerBlackoutDay,
+  generateShowerSlots,
+  getShowerSlotFill,
+  findNextOpenShowerSlot,
+} from '../showerSlots';
+import type { ShowerSlotSettings } from '@/lib/types';
+
+const settings: ShowerSlotSettings = {
+  stallCount: 2,
+  slotMinutes: 30,
+  startTime: '08:00',
+  endTime: '10:00',
+  blackoutWeekdays: [],
+  blackoutDates: [],
+};
+
+// 2025-01-15 is a Wednesday
+const DAY = '2025-01-15';
+
+describe('shower slot utilities', () => {
+  describe('generateShowerSlots', () => {
+    it('builds slots that finish by closing time', () => {
+      expect(generateShowerSlots(settings, DAY)).toEqual(['08:00', '08:30', '09:00', '09:30']);
+    });
+
+    it('drops a trailing slot that would run past closing', () => {
+      expect(generateShowerSlots({ ...settings, slotMinutes: 45 }, DAY)).toEqual(['08:00', '08:45']);
+    });
+
+    it('returns no slots on blackout weekdays and dates', () => {
+      expect(generateShowerSlots({ ...settings, blackoutWeekdays: [3] }, DAY)).toEqual([]);
+      expect(generateShowerSlots({ ...settings, blackoutDates: [DAY] }, DAY)).toEqual([]);
+    });
+
+    it('returns no slots without any stalls', () => {
+      expect(generateShowerSlots({ ...settings, stallCount: 0 }, DAY)).toEqual([]);
+    });
+  });
+
+  describe('isShowerBlackoutDay', () => {
+    it('only matches the configured weekday', () => {
+      expect(isShowerBlackoutDay({ ...settings, blackoutWeekdays: [0, 6] }, DAY)).toBe(false);
+      expect(isShowerBlackoutDay({ ...settings, blackoutWeekdays: [0, 6] }, '2025-01-18')).toBe(true);
+    });
+  });
+
+  describe('getShowerSlotFill', () => {
+    it('counts booked and done records against stall capacity', () => {
+      const fill = getShowerSlotFill(settings, DAY, [
+        { time: '08:00', date: DAY, status: 'booked' },
+        { time: '08:00', date: DAY, status: 'done' },
+        { time: '08:30', date: DAY, status: 'booked' },
+        { time: '08:30', date: DAY, status: 'cancelled' },
+        { time: '09:00', date: DAY, status: 'no_show' },
+        { time: '09:00', date: '2025-01-14', status: 'booked' },
+        { time: null, date: DAY, status: 'waitlisted' },
+      ]);
+
+      expect(fill.map((slot) => [slot.time, slot.booked, slot.isFull])).toEqual([
+        ['08:00', 2, true],
+        ['08:30', 1, false],
+        ['09:00', 0, false],
+        ['09:30', 0, false],
+      ]);
+      expect(fill[1]).toMatchObject({ endsAt: '09:00', capacity: 2, available: 1 });
+    });
+  });
+
+  describe('findNextOpenShowerSlot', () => {
+    const fill = getShowerSlotFill(settings, DAY, [
+      { time: '08:00', date: DAY, status: 'booked' },
+      { time: '08:00', date: DAY, status: 'booked' },
+    ]);
+
+    it('skips full slots', () => {
+      expect(findNextOpenShowerSlot(fill)?.time).toBe('08:30');
+    });
+
+    it('skips slots that have already finished', () => {
+      expect(findNextOpenShowerSlot(fill, '09:10')?.time).toBe('09:00');
+      expect(findNextOpenShowerSlot(fill, '09:30')?.time).toBe('09:30');
+    });
+
+    it('returns null once the day is over', () => {
+      expect(findNextOpenShowerSlot(fill, '10:00')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TAXONOMY_VALUES,
+  mapTaxonomyValueRow,
+  taxonomyLabel,
+  taxonomyOptions,
+  taxonomyValueFromLabel,
+} from '../taxonomies';
+import type { TaxonomyValue } from '@/lib/types';
+
+const values: TaxonomyValue[] = [
+  ...DEFAULT_TAXONOMY_VALUES,
+  { taxonomy: 'donation_type', value: 'Canned Goods', label: 'Canned goods', sortOrder: 5, active: false },
+];
+
+describe('taxonomies', () => {
+  it('offers active values in order and keeps a retired current value', () => {
+    const options = taxonomyOptions(values, 'donation_type').map((entry) => entry.value);
+    expect(options[0]).toBe('Protein');
+    expect(options).not.toContain('Canned Goods');
+
+    const editing = taxonomyOptions(values, 'donation_type', 'Canned Goods').map((entry) => entry.value);
+    expect(editing[0]).toBe('Canned Goods');
+  });
+
+  it('labels retired and unknown values', () => {
+    expect(taxonomyLabel(values, 'donation_type', 'Canned Goods')).toBe('Canned goods');
+    expect(taxonomyLabel(values, 'meal_type', 'lunch_bag')).toBe('Lunch bags');
+    expect(taxonomyLabel([], 'meal_type', 'united_effort')).toBe('United effort');
+  });
+
+  it('derives stored values from labels', () => {
+    expect(taxonomyValueFromLabel('meal_type', ' Food Pantry  Partner! ')).toBe('food_pantry_partner');
+    expect(taxonomyValueFromLabel('la_plaza_category', ' Frozen  Foods ')).toBe('Frozen Foods');
+  });
+
+  it('maps database rows', () => {
+    expect(
+      mapTaxonomyValueRow({ taxonomy: 'meal_type', value: 'shelter', label: 'Shelter', sort_order: 40, active: false })
+    ).toEqual({ taxonomy: 'meal_type', value: 'shelter', label: 'Shelter', sortOrder: 40, active: false });
+  });
+});
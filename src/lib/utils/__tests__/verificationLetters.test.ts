@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildVerificationLetter, fillLetterTemplate } from '../verificationLetters';
+import type { Guest, GuestTimelineEvent } from '@/lib/types';
+
+const guest = {
+  id: 'guest-1',
+  firstName: 'Maria',
+  lastName: 'Lopez',
+  preferredName: 'Mari',
+} as Guest;
+
+const event = (id: string, type: GuestTimelineEvent['type'], date: string, counted = true): GuestTimelineEvent => ({
+  id,
+  type,
+  date,
+  timestamp: null,
+  description: '',
+  time: '',
+  counted,
+});
+
+describe('verification letter utilities', () => {
+  it('fills known placeholders and leaves unknown ones in place', () => {
+    expect(fillLetterTemplate('{{name}} visited {{site}}', { name: 'Maria' })).toBe('Maria visited {{site}}');
+  });
+
+  it("fills the letter from the guest's legal name and the services they received", () => {
+    const content = buildVerificationLetter({
+      siteName: "Hope's Corner",
+      guest,
+      events: [
+        event('shower-s2', 'shower', '2024-05-08', false),
+        event('shower-s1', 'shower', '2024-05-07'),
+        event('meal-m2', 'meal', '2024-05-07'),
+        event('meal-m1', 'meal', '2024-03-04'),
+      ],
+      issuedOn: '2024-06-01',
+    });
+
+    expect(content).toMatchObject({
+      siteName: "Hope's Corner",
+      legalName: 'Maria Lopez',
+      firstVisit: '2024-03-04',
+      lastVisit: '2024-05-07',
+      visitDays: 2,
+      counts: { meal: 2, shower: 1 },
+      issuedOn: '2024-06-01',
+    });
+    expect(content.body[1]).toBe("This letter confirms that Maria Lopez is a guest of Hope's Corner.");
+    expect(content.body[2]).toContain('first visited on March 4, 2024 and has visited on 2 days in total');
+    expect(content.body[2]).toContain('received 2 meals and 1 shower.');
+    expect(content.body.join(' ')).not.toMatch(/\{\{/);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  releasesShowerSlot,
+  releasesLaundryMachine,
+  findShowerPromotion,
+  findLaundryPromotion,
+} from '../waitlist';
+import type { LaundryRecord, ShowerRecord, ShowerSlotSettings } from '@/lib/types';
+
+const DAY = '2025-01-15';
+
+const settings: ShowerSlotSettings = {
+  stallCount: 1,
+  slotMinutes: 30,
+  startTime: '08:00',
+  endTime: '10:00',
+  blackoutWeekdays: [],
+  blackoutDates: [],
+};
+
+const shower = (id: string, overrides: Partial<ShowerRecord> = {}): ShowerRecord => ({
+  id,
+  guestId: `guest-${id}`,
+  time: null,
+  scheduledFor: DAY,
+  date: DAY,
+  status: 'waitlisted',
+  createdAt: `${DAY}T16:00:0${id}.000Z`,
+  lastUpdated: `${DAY}T16:00:00.000Z`,
+  ...overrides,
+});
+
+const laundry = (id: string, overrides: Partial<LaundryRecord> = {}): LaundryRecord => ({
+  id,
+  guestId: `guest-${id}`,
+  time: null,
+  laundryType: 'onsite',
+  bagNumber: id,
+  scheduledFor: DAY,
+  date: DAY,
+  status: 'waiting',
+  createdAt: `${DAY}T16:00:0${id}.000Z`,
+  lastUpdated: `${DAY}T16:00:00.000Z`,
+  ...overrides,
+});
+
+describe('waitlist utilities', () => {
+  describe('releasesShowerSlot', () => {
+    it('frees the slot when a booking is cancelled, missed or deleted', () => {
+      expect(releasesShowerSlot('booked', 'cancelled')).toBe(true);
+      expect(releasesShowerSlot('booked', 'no_show')).toBe(true);
+      expect(releasesShowerSlot('booked', null)).toBe(true);
+    });
+
+    it('ignores completions and changes to waitlisted guests', () => {
+      expect(releasesShowerSlot('booked', 'done')).toBe(false);
+      expect(releasesShowerSlot('waitlisted', 'cancelled')).toBe(false);
+    });
+  });
+
+  describe('releasesLaundryMachine', () => {
+    it('frees a machine when an onsite load comes out', () => {
+      expect(releasesLaundryMachine({ laundryType: 'onsite', status: 'dryer' }, 'done')).toBe(true);
+      expect(releasesLaundryMachine({ laundryType: 'onsite', status: 'washer' }, null)).toBe(true);
+    });
+
+    it('ignores moves between machines, back to waiting, and offsite loads', () => {
+      expect(releasesLaundryMachine({ laundryType: 'onsite', status: 'washer' }, 'dryer')).toBe(false);
+      expect(releasesLaundryMachine({ laundryType: 'onsite', status: 'washer' }, 'waiting')).toBe(false);
+      expect(releasesLaundryMachine({ laundryType: 'offsite', status: 'transported' }, 'returned')).toBe(false);
+    });
+  });
+
+  describe('findShowerPromotion', () => {
+    it('gives the freed slot to the earliest waitlisted guest', () => {
+      const freed = shower('1', { time: '08:30', status: 'cancelled' });
+      const records = [freed, shower('3'), shower('2'), shower('4', { date: '2025-01-14' })];
+
+      expect(findShowerPromotion(records, freed, settings)).toEqual({
+        record: records[2],
+        slotTime: '08:30',
+      });
+    });
+
+    it('falls back to the next open slot when the freed slot is taken again', () => {
+      const freed = shower('1', { time: '08:00', status: 'no_show' });
+      const records = [
+        freed,
+        shower('2', { time: '08:00', status: 'booked' }),
+        shower('3', { time: '08:30', status: 'booked' }),
+        shower('4'),
+      ];
+
+      expect(findShowerPromotion(records, freed, settings)?.slotTime).toBe('09:00');
+    });
+
+    it('returns null without anyone waiting or anywhere to put them', () => {
+      const freed = shower('1', { time: '08:00', status: 'cancelled' });
+      expect(findShowerPromotion([freed], freed, settings)).toBeNull();
+
+      const untimed = shower('2', { status: 'cancelled' });
+      expect(findShowerPromotion([untimed, shower('3')], untimed, settings, '10:00')).toBeNull();
+    });
+  });
+
+  describe('findLaundryPromotion', () => {
+    it('picks the earliest waiting onsite load once a machine is free', () => {
+      const freed = laundry('1', { status: 'done' });
+      const records = [freed, laundry('3'), laundry('2'), laundry('4', { laundryType: 'offsite', status: 'pending' })];
+
+      expect(findLaundryPromotion(records, freed, 2)?.id).toBe('2');
+    });
+
+    it('waits while every machine is still in use', () => {
+      const freed = laundry('1', { status: 'done' });
+      const records = [freed, laundry('2', { status: 'washer' }), laundry('3', { status: 'dryer' }), laundry('4')];
+
+      expect(findLaundryPromotion(records, freed, 2)).toBeNull();
+    });
+  });
+});
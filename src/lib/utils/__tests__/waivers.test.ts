@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WAIVER_TEMPLATES,
+  buildWaiverDocument,
+  currentTemplateFor,
+  earliestValidSigningDate,
+  findSignedWaiver,
+  getWaiverStatus,
+  servicesSharingWaiver,
+  waiverExpiresOn,
+} from '../waivers';
+import type { ServiceWaiver, WaiverTemplate } from '@/lib/types';
+
+const [servicesV1, bicycleV1] = DEFAULT_WAIVER_TEMPLATES;
+
+const servicesV2: WaiverTemplate = {
+  ...servicesV1,
+  id: 'services-2',
+  version: 2,
+  validityRule: 'rolling_days',
+  validityDays: 90,
+  publishedAt: '2024-05-01T00:00:00.000Z',
+};
+
+const waiver = (overrides: Partial<ServiceWaiver>): ServiceWaiver => ({
+  id: 'w-1',
+  guestId: 'guest-1',
+  serviceType: 'shower',
+  templateId: servicesV1.id,
+  signedAt: '2024-03-01T18:00:00.000Z',
+  dismissedAt: '2024-03-01T18:00:00.000Z',
+  dismissedReason: 'signed_by_staff',
+  createdAt: '2024-03-01T18:00:00.000Z',
+  ...overrides,
+});
+
+describe('waiver utilities', () => {
+  it('maps shower and laundry to the shared services waiver and bicycle to its own', () => {
+    expect(currentTemplateFor(DEFAULT_WAIVER_TEMPLATES, 'shower')?.kind).toBe('services');
+    expect(currentTemplateFor(DEFAULT_WAIVER_TEMPLATES, 'bicycle')?.kind).toBe('bicycle');
+    expect(servicesSharingWaiver(DEFAULT_WAIVER_TEMPLATES, 'laundry')).toEqual(['shower', 'laundry']);
+    expect(servicesSharingWaiver(DEFAULT_WAIVER_TEMPLATES, 'bicycle')).toEqual(['bicycle']);
+  });
+
+  it('uses the newest published version and ignores drafts', () => {
+    const draft = { ...servicesV2, id: 'services-3', version: 3, publishedAt: null };
+    expect(currentTemplateFor([servicesV1, servicesV2, draft, bicycleV1], 'laundry')?.id).toBe('services-2');
+  });
+
+  it('works out when a signature expires under each rule', () => {
+    // 7pm Pacific on Dec 31 is already Jan 1 in UTC
+    expect(waiverExpiresOn(servicesV1, '2024-01-01T03:00:00.000Z')).toBe('2024-01-01');
+    expect(waiverExpiresOn(servicesV2, '2024-06-01T18:00:00.000Z')).toBe('2024-08-30');
+    expect(waiverExpiresOn({ validityRule: 'never', validityDays: null }, '2020-06-01T18:00:00.000Z')).toBeNull();
+  });
+
+  it('looks back as far as the longest-lasting published version', () => {
+    expect(earliestValidSigningDate([servicesV1], '2024-06-15')).toBe('2024-01-01');
+    expect(earliestValidSigningDate([servicesV2], '2024-02-15')).toBe('2023-11-17');
+    expect(earliestValidSigningDate([{ ...bicycleV1, validityRule: 'never' }], '2024-06-15')).toBeNull();
+  });
+
+  it('finds a laundry signature when asked about showers, but not for bicycles', () => {
+    const waivers = [waiver({ serviceType: 'laundry' })];
+    expect(findSignedWaiver(DEFAULT_WAIVER_TEMPLATES, waivers, 'guest-1', 'shower', '2024-06-01')?.id).toBe('w-1');
+    expect(findSignedWaiver(DEFAULT_WAIVER_TEMPLATES, waivers, 'guest-1', 'bicycle', '2024-06-01')).toBeNull();
+    expect(findSignedWaiver(DEFAULT_WAIVER_TEMPLATES, waivers, 'guest-2', 'shower', '2024-06-01')).toBeNull();
+  });
+
+  it('reports an older version as outdated and names the version signed', () => {
+    const templates = [servicesV1, servicesV2, bicycleV1];
+    const status = getWaiverStatus(templates, [waiver({})], 'guest-1', 'laundry', '2024-06-01');
+
+    expect(status).toMatchObject({ status: 'outdated', signedVersion: 1, expiresOn: '2025-01-01' });
+    expect(status.template?.version).toBe(2);
+    expect(findSignedWaiver(templates, [waiver({})], 'guest-1', 'laundry', '2024-06-01')).toBeNull();
+  });
+
+  it('reports expired, missing and not-required services', () => {
+    expect(getWaiverStatus(DEFAULT_WAIVER_TEMPLATES, [waiver({})], 'guest-1', 'shower', '2025-01-02').status).toBe(
+      'expired'
+    );
+    expect(getWaiverStatus(DEFAULT_WAIVER_TEMPLATES, [], 'guest-1', 'shower', '2024-06-01').status).toBe('missing');
+    expect(getWaiverStatus([servicesV1], [], 'guest-1', 'bicycle', '2024-06-01').status).toBe('not_required');
+  });
+
+  it('counts a signature made before versions were tracked as version 1', () => {
+    const status = getWaiverStatus(
+      [servicesV1, servicesV2],
+      [waiver({ templateId: null })],
+      'guest-1',
+      'shower',
+      '2024-06-01'
+    );
+    expect(status).toMatchObject({ status: 'outdated', signedVersion: 1 });
+  });
+
+  it('builds a signed document with the version and text in the chosen language', () => {
+    const document = buildWaiverDocument({
+      template: servicesV2,
+      language: 'es',
+      guestId: 'guest-1',
+      guestName: 'Ana Test',
+      signerName: '  ',
+      signedAt: '2024-06-01T18:00:00.000Z',
+    });
+
+    expect(document).toMatchObject({
+      waiverKind: 'services',
+      templateId: 'services-2',
+      templateVersion: 2,
+      services: ['shower', 'laundry'],
+      language: 'es',
+      guestName: 'Ana Test',
+      signerName: 'Ana Test',
+      signedAt: '2024-06-01T18:00:00.000Z',
+    });
+    expect(document.title).toContain('Exención');
+    expect(document.body.length).toBeGreaterThan(0);
+  });
+});
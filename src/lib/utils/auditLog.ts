@@ -0,0 +1,149 @@
+/**
+ * Audit Log
+ * Reads the audit_events table (filled by database triggers) and turns raw
+ * before/after rows into readable change summaries for the admin timeline.
+ */
+
+import { createClient } from '@/lib/supabase/client';
+import { getFieldLabel } from './conflictResolution';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export interface AuditEvent {
+  id: number;
+  occurredAt: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  tableName: string;
+  recordId: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditEventFilters {
+  tableName?: string;
+  action?: AuditAction;
+  actorEmail?: string;
+  recordId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditFieldChange {
+  column: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEventRow {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  table_name: string;
+  record_id: string | null;
+  action: AuditAction;
+  before_values: Record<string, unknown> | null;
+  after_values: Record<string, unknown> | null;
+}
+
+export const AUDITED_TABLES: Record<string, string> = {
+  guests: 'Guests',
+  meal_attendance: 'Meals',
+  holiday_visits: 'Holiday visits',
+  haircut_visits: 'Haircuts',
+  shower_reservations: 'Showers',
+  laundry_bookings: 'Laundry',
+  bicycle_repairs: 'Bicycle repairs',
+  donations: 'Donations',
+  la_plaza_donations: 'La Plaza donations',
+  items_distributed: 'Items distributed',
+};
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Bookkeeping columns that change on every write and say nothing about intent
+const IGNORED_COLUMNS = new Set(['id', 'created_at', 'updated_at']);
+
+const mapAuditEventRow = (row: AuditEventRow): AuditEvent => ({
+  id: row.id,
+  occurredAt: row.occurred_at,
+  actorId: row.actor_id,
+  actorEmail: row.actor_email,
+  actorRole: row.actor_role,
+  tableName: row.table_name,
+  recordId: row.record_id,
+  action: row.action,
+  before: row.before_values,
+  after: row.after_values,
+});
+
+/**
+ * Fetch one page of audit events, newest first
+ */
+export const fetchAuditEvents = async (
+  filters: AuditEventFilters = {},
+  page = 0
+): Promise<AuditEvent[]> => {
+  const supabase = createClient();
+  let query = supabase
+    .from('audit_events')
+    .select('id,occurred_at,actor_id,actor_email,actor_role,table_name,record_id,action,before_values,after_values')
+    .order('occurred_at', { ascending: false })
+    .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+
+  if (filters.tableName) query = query.eq('table_name', filters.tableName);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.recordId) query = query.eq('record_id', filters.recordId);
+  if (filters.actorEmail) query = query.ilike('actor_email', `%${filters.actorEmail}%`);
+  if (filters.startDate) query = query.gte('occurred_at', `${filters.startDate}T00:00:00`);
+  if (filters.endDate) query = query.lte('occurred_at', `${filters.endDate}T23:59:59.999`);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  return (data || []).map((row) => mapAuditEventRow(row as AuditEventRow));
+};
+
+/**
+ * Columns whose value differs between the before and after rows
+ */
+export const getAuditFieldChanges = (event: AuditEvent): AuditFieldChange[] => {
+  const before = event.before || {};
+  const after = event.after || {};
+  const columns = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...columns]
+    .filter((column) => !IGNORED_COLUMNS.has(column))
+    .filter((column) => JSON.stringify(before[column] ?? null) !== JSON.stringify(after[column] ?? null))
+    .map((column) => ({
+      column,
+      label: getFieldLabel(column),
+      before: before[column] ?? null,
+      after: after[column] ?? null,
+    }));
+};
+
+/**
+ * One-line description of an audit event for the timeline
+ */
+export const describeAuditEvent = (event: AuditEvent): string => {
+  const entity = (AUDITED_TABLES[event.tableName] || getFieldLabel(event.tableName)).toLowerCase();
+  const row = event.after || event.before || {};
+  const name = typeof row.full_name === 'string' ? ` ${row.full_name}` : '';
+
+  if (event.action === 'insert') return `Added ${entity} record${name}`;
+  if (event.action === 'delete') return `Deleted ${entity} record${name}`;
+
+  const changes = getAuditFieldChanges(event);
+  const status = changes.find((c) => c.column === 'status');
+  if (status) return `Changed ${entity} status from ${status.before ?? '—'} to ${status.after ?? '—'}`;
+  if (changes.some((c) => c.column === 'banned_until' || c.column === 'banned_at')) {
+    return event.after?.banned_until ? `Banned guest${name}` : `Lifted ban on${name || ' guest'}`;
+  }
+  return `Updated ${entity} record${name} (${changes.map((c) => c.label.toLowerCase()).join(', ')})`;
+};
@@ -0,0 +1,162 @@
+/**
+ * Offline Conflict Resolution
+ * Turns a conflicted failed operation into a side-by-side field comparison and
+ * applies the staff member's choice: keep mine, keep theirs, or a field merge.
+ */
+
+import { createClient } from '@/lib/supabase/client';
+import { useGuestsStore } from '@/lib/stores/useGuestsStore';
+import { useServicesStore, type ServiceTable } from '@/lib/stores/useServicesStore';
+import { removeFromFailedStore, type ConflictDetails, type FailedOperation } from './indexedDB';
+import { columnValuesEqual } from './offlineOperations';
+
+export type ConflictResolution = 'keep-mine' | 'keep-theirs' | 'merge';
+export type FieldChoice = 'mine' | 'theirs';
+
+export interface ConflictField {
+  column: string;
+  label: string;
+  original: unknown;
+  mine: unknown;
+  theirs: unknown;
+  differs: boolean;
+  // Side picked until staff choose: this device's value when only it changed the field
+  defaultChoice: FieldChoice;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  external_id: 'Guest ID',
+  first_name: 'First name',
+  last_name: 'Last name',
+  full_name: 'Full name',
+  preferred_name: 'Preferred name',
+  housing_status: 'Housing status',
+  age_group: 'Age group',
+  bicycle_description: 'Bicycle description',
+  banned_at: 'Banned at',
+  banned_until: 'Banned until',
+  ban_reason: 'Ban reason',
+  repair_types: 'Repair types',
+  completed_repairs: 'Completed repairs',
+  completed_at: 'Completed at',
+  bag_number: 'Bag number',
+};
+
+const TABLE_LABELS: Record<string, string> = {
+  guests: 'Guest profile',
+  laundry_bookings: 'Laundry',
+  bicycle_repairs: 'Bicycle repair',
+};
+
+/**
+ * Human-readable label for a database column
+ */
+export const getFieldLabel = (column: string): string => {
+  if (FIELD_LABELS[column]) return FIELD_LABELS[column];
+  const words = column.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Human-readable label for the table a conflict came from
+ */
+export const getTableLabel = (table: string): string => TABLE_LABELS[table] || getFieldLabel(table);
+
+/**
+ * List the edited columns with both versions side by side
+ */
+export const getConflictFields = (conflict: ConflictDetails): ConflictField[] => {
+  return Object.keys(conflict.localVersion).map((column) => {
+    const mine = conflict.localVersion[column];
+    const theirs = conflict.serverVersion ? conflict.serverVersion[column] : null;
+    const original = conflict.original[column];
+    const differs = !columnValuesEqual(mine, theirs);
+    return {
+      column,
+      label: getFieldLabel(column),
+      original,
+      mine,
+      theirs,
+      differs,
+      defaultChoice: differs && columnValuesEqual(theirs, original) ? 'mine' : 'theirs',
+    };
+  });
+};
+
+/**
+ * Work out which columns to write back to the server for a resolution.
+ * Columns already matching the server are left out; in a merge, columns
+ * without a choice fall back to their default side.
+ */
+export const buildResolvedChanges = (
+  conflict: ConflictDetails,
+  resolution: ConflictResolution,
+  choices: Record<string, FieldChoice> = {}
+): Record<string, unknown> => {
+  if (resolution === 'keep-theirs' || !conflict.serverVersion) return {};
+
+  const changes: Record<string, unknown> = {};
+  getConflictFields(conflict).forEach((field) => {
+    const choice = resolution === 'keep-mine' ? 'mine' : choices[field.column] || field.defaultChoice;
+    if (choice === 'mine' && field.differs) {
+      changes[field.column] = field.mine;
+    }
+  });
+  return changes;
+};
+
+/**
+ * Reflect the resolved server row in the owning store
+ */
+const applyToStore = (table: string, recordId: string, row: Record<string, unknown> | null) => {
+  if (table === 'guests') {
+    if (row) useGuestsStore.getState().mergeServerGuest(row);
+    else useGuestsStore.getState().removeServerGuest(recordId);
+    return;
+  }
+
+  const serviceTable = table as ServiceTable;
+  if (row) useServicesStore.getState().mergeServerRow(serviceTable, row);
+  else useServicesStore.getState().removeServerRow(serviceTable, recordId);
+};
+
+/**
+ * Apply a resolution to a conflicted failed operation and clear it from review
+ */
+export const resolveConflict = async (
+  operation: FailedOperation,
+  resolution: ConflictResolution,
+  choices: Record<string, FieldChoice> = {}
+): Promise<void> => {
+  const conflict = operation.errorContext?.conflict;
+  if (!conflict) throw new Error('Operation has no conflict to resolve');
+
+  if (!conflict.serverVersion && resolution !== 'keep-theirs') {
+    throw new Error('This record was deleted on another device; it can only be discarded');
+  }
+
+  const changes = buildResolvedChanges(conflict, resolution, choices);
+  let finalRow = conflict.serverVersion;
+
+  if (Object.keys(changes).length > 0) {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from(conflict.table)
+      .update(changes)
+      .eq('id', conflict.recordId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[ConflictResolution] Failed to write resolution:', error);
+      throw new Error('Unable to save the resolved record');
+    }
+    finalRow = data as Record<string, unknown>;
+  }
+
+  applyToStore(conflict.table, conflict.recordId, finalRow);
+
+  if (operation.id !== undefined) {
+    await removeFromFailedStore(operation.id);
+  }
+};
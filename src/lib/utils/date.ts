@@ -11,6 +11,18 @@ export function todayPacificDateString(): string {
   return formatDateString(pacificDate);
 }
 
+/**
+ * Get the current time of day in Pacific timezone (HH:MM, 24-hour)
+ */
+export function nowPacificTimeString(): string {
+  const pacificDate = new Date(
+    new Date().toLocaleString('en-US', { timeZone: 'America/Los_Angeles' })
+  );
+  const hours = String(pacificDate.getHours()).padStart(2, '0');
+  const minutes = String(pacificDate.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
 /**
  * Format a Date object as YYYY-MM-DD
  */
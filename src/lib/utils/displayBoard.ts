@@ -0,0 +1,135 @@
+/**
+ * Display board utilities
+ * Works out what the public "now serving" screen shows: the shower slot in
+ * progress, the one after it, and which laundry bags are drying or ready.
+ * Guests appear as a first initial and bag numbers only.
+ */
+
+import type {
+  LaundryRecord,
+  LaundryStatus,
+  LaundryType,
+  ShowerRecord,
+  ShowerSlotSettings,
+  ShowerStatus,
+} from '@/lib/types';
+import { getShowerSlotFill } from './showerSlots';
+
+export interface DisplayBoardSlot {
+  time: string;
+  endsAt: string;
+  initials: string[];
+}
+
+export interface DisplayBoard {
+  currentSlot: DisplayBoardSlot | null;
+  nextSlot: DisplayBoardSlot | null;
+  dryingBags: string[];
+  readyBags: string[];
+}
+
+// Rows as get_display_board() returns them: no guest ids, only a first initial
+export interface DisplayBoardShowerRow {
+  id: string;
+  scheduled_for: string;
+  scheduled_time: string | null;
+  status: ShowerStatus;
+  created_at: string;
+  updated_at: string;
+  initials: string;
+}
+
+export interface DisplayBoardLaundryRow {
+  id: string;
+  laundry_type: LaundryType;
+  bag_number: string | null;
+  scheduled_for: string;
+  status: LaundryStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export const DISPLAY_TOKEN_STORAGE_KEY = 'hopes-corner-display-token';
+export const DISPLAY_REFRESH_MS = 30_000;
+
+// Bag numbers are free text; sort numerically where they are numbers
+const byBagNumber = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// Only ever the first initial ("J."), whatever the lookup holds
+const firstInitial = (initials: string | undefined): string => {
+  const letter = initials?.trim().charAt(0);
+  return letter ? `${letter.toUpperCase()}.` : '—';
+};
+
+/**
+ * Board rows as records for buildDisplayBoard. They only live on the screen;
+ * the board never writes them into the services store.
+ */
+export const mapDisplayShowerRow = (row: DisplayBoardShowerRow): ShowerRecord => ({
+  id: row.id,
+  guestId: '',
+  time: row.scheduled_time,
+  scheduledFor: row.scheduled_for,
+  date: row.scheduled_for,
+  status: row.status,
+  createdAt: row.created_at,
+  lastUpdated: row.updated_at,
+});
+
+export const mapDisplayLaundryRow = (row: DisplayBoardLaundryRow): LaundryRecord => ({
+  id: row.id,
+  guestId: '',
+  time: null,
+  laundryType: row.laundry_type,
+  bagNumber: row.bag_number || '',
+  scheduledFor: row.scheduled_for,
+  date: row.scheduled_for,
+  status: row.status,
+  createdAt: row.created_at,
+  lastUpdated: row.updated_at,
+});
+
+const bagNumbers = (records: LaundryRecord[], status: LaundryRecord['status']): string[] =>
+  records
+    .filter((record) => record.status === status && record.bagNumber)
+    .map((record) => record.bagNumber)
+    .sort(byBagNumber);
+
+/**
+ * Build the board for a date (YYYY-MM-DD) at `now` (HH:MM). `initials` maps
+ * shower record ids to the guest's first initial, e.g. "J."
+ */
+export const buildDisplayBoard = (
+  showers: ShowerRecord[],
+  laundry: LaundryRecord[],
+  initials: Record<string, string>,
+  settings: ShowerSlotSettings,
+  dateStr: string,
+  now: string
+): DisplayBoard => {
+  const fill = getShowerSlotFill(settings, dateStr, showers);
+
+  const toBoardSlot = (index: number): DisplayBoardSlot | null => {
+    const slot = fill[index];
+    if (!slot) return null;
+    return {
+      time: slot.time,
+      endsAt: slot.endsAt,
+      initials: showers
+        .filter((record) => record.date === dateStr && record.time === slot.time && record.status === 'booked')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((record) => firstInitial(initials[record.id])),
+    };
+  };
+
+  const currentIndex = fill.findIndex((slot) => slot.time <= now && now < slot.endsAt);
+  const nextIndex = fill.findIndex((slot) => slot.time > now);
+  const todaysLaundry = laundry.filter((record) => record.date === dateStr);
+
+  return {
+    currentSlot: currentIndex === -1 ? null : toBoardSlot(currentIndex),
+    nextSlot: nextIndex === -1 ? null : toBoardSlot(nextIndex),
+    dryingBags: bagNumbers(todaysLaundry, 'dryer'),
+    readyBags: bagNumbers(todaysLaundry, 'done'),
+  };
+};
@@ -0,0 +1,201 @@
+/**
+ * Donation receipt utilities
+ * Itemized acknowledgment letters for a donor over a date range, from food
+ * donations and La Plaza Market deliveries. The filled-in receipt is stored
+ * with its receipt number so a statement can be re-issued exactly.
+ */
+
+import type {
+  Donation,
+  DonationReceipt,
+  DonationReceiptContent,
+  DonationReceiptLine,
+  LaPlazaDonation,
+  TaxonomyKind,
+  TaxonomyValue,
+} from '@/lib/types';
+import { formatDisplayDate, pacificDateStringFrom } from './date';
+import { isSameDonor, normalizeDonorName } from './donations';
+import { createTextPdf, type PdfLine } from './pdf';
+import { taxonomyLabel } from './taxonomies';
+import { fillLetterTemplate } from './verificationLetters';
+
+// La Plaza deliveries have no donor field; they all come from the market
+export const LA_PLAZA_DONOR = 'La Plaza Market';
+
+export const DONATION_RECEIPT_TEMPLATE = {
+  title: 'Donation Acknowledgment',
+  body: [
+    'Dear {{donor}},',
+    'Thank you for your generous support of {{siteName}}. Between {{periodStart}} and {{periodEnd}} you donated {{donationCount}} totaling {{weightLbs}} of food ({{trays}}), itemized below.',
+    'No goods or services were provided in exchange for these contributions. Please keep this receipt for your tax records.',
+    'With gratitude,',
+    '{{siteName}}',
+  ],
+};
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+const roundWeight = (lbs: number) => Math.round(lbs * 10) / 10;
+
+// Plain dates are shown as they are rather than shifted into the browser's timezone
+export const receiptDate = (date: string, month: 'long' | 'short' = 'long') =>
+  formatDisplayDate(`${date}T12:00:00`, { month, day: 'numeric', year: 'numeric' });
+
+/**
+ * A donor's receipt for a date range filled in from their donations, ready to
+ * issue. With taxonomy values, categories are printed with their labels.
+ */
+export function buildDonationReceipt({
+  siteName,
+  donor,
+  donations,
+  laPlazaDonations,
+  periodStart,
+  periodEnd,
+  issuedOn,
+  taxonomyValues,
+}: {
+  siteName: string;
+  donor: string;
+  donations: Donation[];
+  laPlazaDonations: LaPlazaDonation[];
+  periodStart: string;
+  periodEnd: string;
+  issuedOn: string;
+  taxonomyValues?: TaxonomyValue[];
+}): DonationReceiptContent {
+  const categoryLabel = (taxonomy: TaxonomyKind, value: string) =>
+    taxonomyValues ? taxonomyLabel(taxonomyValues, taxonomy, value) : value;
+  const inPeriod = (date: string) => date >= periodStart && date <= periodEnd;
+
+  const donationLines: DonationReceiptLine[] = donations
+    .filter((d) => isSameDonor(d.donor || '', donor))
+    .map((d) => ({
+      date: d.dateKey || pacificDateStringFrom(d.donatedAt),
+      source: 'donation' as const,
+      itemName: d.itemName,
+      category: categoryLabel('donation_type', d.type),
+      trays: d.trays || 0,
+      weightLbs: d.weightLbs || 0,
+    }));
+
+  const laPlazaLines: DonationReceiptLine[] = isSameDonor(donor, LA_PLAZA_DONOR)
+    ? laPlazaDonations.map((d) => ({
+        date: d.dateKey || pacificDateStringFrom(d.receivedAt),
+        source: 'la_plaza' as const,
+        itemName: d.notes?.trim() || categoryLabel('la_plaza_category', d.category),
+        category: categoryLabel('la_plaza_category', d.category),
+        trays: 0,
+        weightLbs: d.weightLbs || 0,
+      }))
+    : [];
+
+  const lines = [...donationLines, ...laPlazaLines]
+    .filter((line) => inPeriod(line.date))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.itemName.localeCompare(b.itemName));
+
+  const totals = {
+    donations: lines.length,
+    trays: lines.reduce((sum, line) => sum + line.trays, 0),
+    weightLbs: roundWeight(lines.reduce((sum, line) => sum + line.weightLbs, 0)),
+  };
+
+  const name = normalizeDonorName(donor);
+  const values: Record<string, string> = {
+    siteName,
+    donor: name,
+    periodStart: receiptDate(periodStart),
+    periodEnd: receiptDate(periodEnd),
+    donationCount: plural(totals.donations, 'donation', 'donations'),
+    weightLbs: `${totals.weightLbs} lbs`,
+    trays: plural(totals.trays, 'tray', 'trays'),
+  };
+
+  return {
+    siteName,
+    donor: name,
+    periodStart,
+    periodEnd,
+    issuedOn,
+    title: DONATION_RECEIPT_TEMPLATE.title,
+    body: DONATION_RECEIPT_TEMPLATE.body.map((line) => fillLetterTemplate(line, values)),
+    lines,
+    totals,
+  };
+}
+
+const column = (text: string, width: number, alignRight = false) => {
+  const clipped = text.length > width ? `${text.slice(0, width - 1)}~` : text;
+  return alignRight ? clipped.padStart(width) : clipped.padEnd(width);
+};
+
+const lineRow = (date: string, item: string, trays: string, weight: string) =>
+  `${column(date, 13)} ${column(item, 38)} ${column(trays, 5, true)} ${column(weight, 9, true)}`;
+
+/**
+ * The receipt as a PDF, laid out like the printed copy
+ */
+export function buildDonationReceiptPdf(content: DonationReceiptContent, receiptNumber: string | null): Uint8Array {
+  const [closing, signature] = content.body.slice(-2);
+  const letter: PdfLine[] = [
+    { text: content.siteName, font: 'bold', size: 16 },
+    { text: content.title, size: 13 },
+    { text: receiptDate(content.issuedOn), spaceBefore: 8 },
+    { text: receiptNumber ? `Receipt No. ${receiptNumber}` : 'Receipt number assigned when issued', font: 'mono' },
+    ...content.body.slice(0, -2).map((text) => ({ text, spaceBefore: 10 })),
+    { text: lineRow('Date', 'Item', 'Trays', 'Weight'), font: 'mono' as const, size: 9, spaceBefore: 14 },
+    ...content.lines.map((line) => ({
+      text: lineRow(
+        receiptDate(line.date, 'short'),
+        line.itemName === line.category ? line.itemName : `${line.itemName} (${line.category})`,
+        line.source === 'la_plaza' ? '-' : String(line.trays),
+        `${roundWeight(line.weightLbs)} lbs`
+      ),
+      font: 'mono' as const,
+      size: 9,
+    })),
+    {
+      text: lineRow('Total', plural(content.totals.donations, 'donation', 'donations'), String(content.totals.trays), `${content.totals.weightLbs} lbs`),
+      font: 'mono',
+      size: 9,
+      spaceBefore: 4,
+    },
+    { text: closing, spaceBefore: 18 },
+    { text: signature },
+  ];
+  return createTextPdf(letter, `${content.title} - ${content.donor}`);
+}
+
+export const donationReceiptFilename = (content: DonationReceiptContent, receiptNumber: string | null) =>
+  `${receiptNumber ?? 'receipt-preview'}-${content.donor.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.pdf`;
+
+// Database row type
+export interface DonationReceiptRow {
+  id: string;
+  receipt_number: string;
+  donor: string;
+  period_start: string;
+  period_end: string;
+  content: DonationReceiptContent;
+  issued_by: string | null;
+  issued_by_email: string | null;
+  issued_at: string;
+}
+
+export const DONATION_RECEIPT_COLUMNS =
+  'id,receipt_number,donor,period_start,period_end,content,issued_by,issued_by_email,issued_at';
+
+export function mapDonationReceiptRow(row: DonationReceiptRow): DonationReceipt {
+  return {
+    id: row.id,
+    receiptNumber: row.receipt_number,
+    donor: row.donor,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    content: row.content,
+    issuedBy: row.issued_by,
+    issuedByEmail: row.issued_by_email,
+    issuedAt: row.issued_at,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Donation utilities
+ * Servings estimates for the intake form and the donor directory, which is
+ * worked out from past donations rather than kept as its own table. Donor
+ * names are matched ignoring case and extra spaces, so "Safeway " and
+ * "safeway" are one donor.
+ */
+
+import type { Donation } from '@/lib/types';
+
+export type DonationDensity = 'light' | 'medium' | 'heavy';
+
+export const DONATION_DENSITY_OPTIONS: { value: DonationDensity; label: string; servingsPerLb: number }[] = [
+  { value: 'light', label: 'Light', servingsPerLb: 2 },
+  { value: 'medium', label: 'Medium', servingsPerLb: 3 },
+  { value: 'heavy', label: 'Heavy', servingsPerLb: 4 },
+];
+
+export function estimateServings(weightLbs: number, density: DonationDensity): number {
+  const option = DONATION_DENSITY_OPTIONS.find((o) => o.value === density) ?? DONATION_DENSITY_OPTIONS[1];
+  if (!Number.isFinite(weightLbs) || weightLbs <= 0) return 0;
+  return Math.round(weightLbs * option.servingsPerLb);
+}
+
+/**
+ * The density a saved donation was estimated with, for editing it again;
+ * medium when the servings don't match any option
+ */
+export function densityForDonation(donation: Pick<Donation, 'weightLbs' | 'servings'>): DonationDensity {
+  const match = DONATION_DENSITY_OPTIONS.find(
+    (option) => estimateServings(donation.weightLbs, option.value) === donation.servings
+  );
+  return match?.value ?? 'medium';
+}
+
+export const normalizeDonorName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+const donorKey = (name: string) => normalizeDonorName(name).toLowerCase();
+
+export const isSameDonor = (a: string, b: string): boolean => donorKey(a) === donorKey(b);
+
+export interface DonorSummary {
+  // The spelling used most recently
+  donor: string;
+  donationCount: number;
+  totalWeightLbs: number;
+  totalTrays: number;
+  totalServings: number;
+  firstDonatedOn: string;
+  lastDonatedOn: string;
+  // Average days between donation days; null with only one day on record
+  averageDaysBetween: number | null;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+/**
+ * One entry per donor with their totals, most recent donor first
+ */
+export function buildDonorDirectory(donations: Donation[]): DonorSummary[] {
+  const groups = new Map<string, Donation[]>();
+  for (const donation of donations) {
+    if (!normalizeDonorName(donation.donor || '')) continue;
+    const key = donorKey(donation.donor);
+    groups.set(key, [...(groups.get(key) ?? []), donation]);
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      const sorted = [...group].sort(
+        (a, b) => a.dateKey.localeCompare(b.dateKey) || a.donatedAt.localeCompare(b.donatedAt)
+      );
+      const days = [...new Set(sorted.map((d) => d.dateKey))];
+      const first = days[0];
+      const last = days[days.length - 1];
+      return {
+        donor: normalizeDonorName(sorted[sorted.length - 1].donor),
+        donationCount: group.length,
+        totalWeightLbs: Math.round(group.reduce((sum, d) => sum + (d.weightLbs || 0), 0) * 10) / 10,
+        totalTrays: group.reduce((sum, d) => sum + (d.trays || 0), 0),
+        totalServings: group.reduce((sum, d) => sum + (d.servings || 0), 0),
+        firstDonatedOn: first,
+        lastDonatedOn: last,
+        averageDaysBetween: days.length > 1 ? Math.round(daysBetween(first, last) / (days.length - 1)) : null,
+      };
+    })
+    .sort((a, b) => b.lastDonatedOn.localeCompare(a.lastDonatedOn) || a.donor.localeCompare(b.donor));
+}
+
+/**
+ * Donor names for autocomplete, most recent donor first
+ */
+export const donorNameSuggestions = (donations: Donation[]): string[] =>
+  buildDonorDirectory(donations).map((summary) => summary.donor);
+
+export function describeDonationFrequency(summary: Pick<DonorSummary, 'averageDaysBetween'>): string {
+  const days = summary.averageDaysBetween;
+  if (days === null) return 'One-time';
+  if (days <= 1) return 'Daily';
+  if (days <= 10) return `About every ${days} days`;
+  if (days <= 45) return `About every ${Math.round(days / 7)} weeks`;
+  return `About every ${Math.round(days / 30)} months`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Eligibility rules
+ * Limits on how often a guest may receive a service, like one shower every
+ * two days or one sleeping bag every 90 days. The stores check them before
+ * recording a meal, shower, laundry load or item; staff can go past a limit
+ * with a reason, which is logged to eligibility_overrides.
+ *
+ * Meals, showers and laundry count one per check-in, so a guest taking two
+ * meals at once is one guest meal check-in. Items count by quantity.
+ */
+
+import type {
+  EligibilityOverride,
+  EligibilityRule,
+  EligibilityService,
+  EligibilityViolation,
+} from '@/lib/types';
+import { createClient, isSupabaseEnabled } from '@/lib/supabase/client';
+import { queueOperation } from './offlineQueueManager';
+import { createClientId, isBrowserOffline } from './offlineOperations';
+
+export const ELIGIBILITY_SERVICES: { id: EligibilityService; label: string }[] = [
+  { id: 'meal', label: 'Guest meals' },
+  { id: 'shower', label: 'Showers' },
+  { id: 'laundry', label: 'Laundry' },
+  { id: 'item', label: 'Items' },
+];
+
+// Singular and plural nouns used to describe a rule
+const SERVICE_NOUNS: Record<EligibilityService, [string, string]> = {
+  meal: ['guest meal check-in', 'guest meal check-ins'],
+  shower: ['shower', 'showers'],
+  laundry: ['laundry load', 'laundry loads'],
+  item: ['item', 'items'],
+};
+
+/**
+ * The rules seeded by the eligibility_rules migration, used until settings
+ * load from Supabase and when it is disabled. The daily meal rule starts off.
+ */
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRule[] = [
+  { id: 'meal-daily', service: 'meal', itemKey: null, limit: 1, periodDays: 1, enabled: false },
+  { id: 'shower-2-days', service: 'shower', itemKey: null, limit: 1, periodDays: 2, enabled: true },
+  { id: 'sleeping-bag-90-days', service: 'item', itemKey: 'sleeping_bag', limit: 1, periodDays: 90, enabled: true },
+];
+
+// One service a guest already received, as the rules see it
+export interface EligibilityUse {
+  guestId: string;
+  // YYYY-MM-DD service date
+  date: string;
+  quantity: number;
+  itemKey?: string | null;
+}
+
+// The service about to be recorded
+export interface EligibilityRequest extends EligibilityUse {
+  service: EligibilityService;
+}
+
+const normalizeItemKey = (key: string | null | undefined) =>
+  (key || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * An item_key as staff read it: "sleeping_bag" -> "sleeping bag"
+ */
+export const itemKeyLabel = (key: string): string => normalizeItemKey(key).replace(/_/g, ' ');
+
+/**
+ * A rule in words, e.g. "1 shower per 2 days" or "1 sleeping bag per 90 days"
+ */
+export function describeEligibilityRule(rule: EligibilityRule): string {
+  const [one, many] =
+    rule.service === 'item' && rule.itemKey
+      ? [itemKeyLabel(rule.itemKey), `${itemKeyLabel(rule.itemKey)}s`]
+      : SERVICE_NOUNS[rule.service];
+  const period = rule.periodDays === 1 ? 'service day' : `${rule.periodDays} days`;
+  return `${rule.limit} ${rule.limit === 1 ? one : many} per ${period}`;
+}
+
+// Whole days from one YYYY-MM-DD date to another
+const daysBetween = (from: string, to: string): number => {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86_400_000);
+};
+
+const ruleApplies = (rule: EligibilityRule, service: EligibilityService, itemKey?: string | null) =>
+  rule.enabled &&
+  rule.service === service &&
+  (rule.service !== 'item' || !rule.itemKey || normalizeItemKey(rule.itemKey) === normalizeItemKey(itemKey));
+
+/**
+ * The rules a request would break, given what the guest already received
+ */
+export function checkEligibility(
+  rules: EligibilityRule[],
+  request: EligibilityRequest,
+  uses: EligibilityUse[]
+): EligibilityViolation[] {
+  return rules
+    .filter((rule) => ruleApplies(rule, request.service, request.itemKey))
+    .flatMap((rule) => {
+      const used = uses
+        .filter((use) => {
+          if (use.guestId !== request.guestId) return false;
+          const age = daysBetween(use.date, request.date);
+          if (age < 0 || age >= rule.periodDays) return false;
+          return !rule.itemKey || normalizeItemKey(use.itemKey) === normalizeItemKey(rule.itemKey);
+        })
+        .reduce((sum, use) => sum + use.quantity, 0);
+
+      if (used + request.quantity <= rule.limit) return [];
+      return [
+        {
+          rule,
+          used,
+          message: `Limit of ${describeEligibilityRule(rule)} reached (${used} already received).`,
+        },
+      ];
+    });
+}
+
+/**
+ * Raised when recording a service would break an eligibility rule and no
+ * override was given
+ */
+export class EligibilityError extends Error {
+  readonly violations: EligibilityViolation[];
+
+  constructor(violations: EligibilityViolation[]) {
+    super(violations.map((violation) => violation.message).join(' '));
+    this.name = 'EligibilityError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Check a request and throw unless it passes or carries an override with a
+ * reason. Returns the rules the override goes past, for logging.
+ */
+export function assertEligible(
+  rules: EligibilityRule[],
+  request: EligibilityRequest,
+  uses: EligibilityUse[],
+  override?: EligibilityOverride
+): EligibilityViolation[] {
+  const violations = checkEligibility(rules, request, uses);
+  if (violations.length > 0 && !override?.reason.trim()) {
+    throw new EligibilityError(violations);
+  }
+  return violations;
+}
+
+/**
+ * Log that staff went past one or more limits, and why. A failed write is
+ * reported but never undoes the service that was just recorded.
+ */
+export async function logEligibilityOverride(
+  request: EligibilityRequest,
+  violations: EligibilityViolation[],
+  override: EligibilityOverride
+): Promise<void> {
+  if (violations.length === 0 || !isSupabaseEnabled()) return;
+
+  const row = {
+    id: createClientId(),
+    guest_id: request.guestId,
+    service: request.service,
+    item_key: request.itemKey ?? null,
+    service_date: request.date,
+    reason: override.reason.trim(),
+    rules: violations.map((violation) => ({
+      id: violation.rule.id,
+      description: describeEligibilityRule(violation.rule),
+      used: violation.used,
+    })),
+  };
+
+  try {
+    if (isBrowserOffline()) {
+      await queueOperation('addEligibilityOverride', { row });
+      return;
+    }
+    const supabase = createClient();
+    const { error } = await supabase.from('eligibility_overrides').insert(row);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Failed to log eligibility override:', error);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Food rescue ledger utilities
+ * Food in (donations and La Plaza deliveries) set against food out (served,
+ * redistributed, composted, discarded) per day or month. The diversion rate
+ * is the share of outbound weight kept out of the landfill: everything
+ * recorded except what was discarded.
+ */
+
+import type {
+  Donation,
+  FoodDisposition,
+  FoodDispositionKind,
+  LaPlazaDonation,
+  MealRecord,
+} from '@/lib/types';
+import { pacificDateStringFrom } from './date';
+
+export const FOOD_DISPOSITION_LABELS: Record<FoodDispositionKind, string> = {
+  served: 'Served',
+  redistributed: 'Redistributed',
+  composted: 'Composted',
+  discarded: 'Discarded',
+};
+
+export const FOOD_DISPOSITION_KINDS = Object.keys(FOOD_DISPOSITION_LABELS) as FoodDispositionKind[];
+
+export const DIVERTED_DISPOSITIONS: FoodDispositionKind[] = ['served', 'redistributed', 'composted'];
+
+export const describeDisposition = (disposition: Pick<FoodDisposition, 'kind' | 'recipient'>): string =>
+  disposition.kind === 'redistributed' && disposition.recipient
+    ? `Redistributed to ${disposition.recipient}`
+    : FOOD_DISPOSITION_LABELS[disposition.kind];
+
+/**
+ * Agencies food has been passed on to, most used first, for autocomplete
+ */
+export function redistributionRecipients(dispositions: FoodDisposition[]): string[] {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const disposition of dispositions) {
+    const name = disposition.recipient?.trim();
+    if (disposition.kind !== 'redistributed' || !name) continue;
+    const key = name.toLowerCase();
+    const seen = counts.get(key);
+    counts.set(key, { name: seen?.name ?? name, count: (seen?.count ?? 0) + 1 });
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)).map((r) => r.name);
+}
+
+export interface FoodRescueLedgerRow {
+  // A date (YYYY-MM-DD) or a month (YYYY-MM)
+  period: string;
+  donatedLbs: number;
+  laPlazaLbs: number;
+  intakeLbs: number;
+  // Servings estimated on the donations that came in
+  intakeServings: number;
+  // Meals recorded in meal_attendance
+  mealsServed: number;
+  outLbs: Record<FoodDispositionKind, number>;
+  totalOutLbs: number;
+  // Intake not yet recorded as going anywhere; negative when more went out than came in
+  unaccountedLbs: number;
+  diversionRate: number | null;
+}
+
+const roundLbs = (lbs: number) => Math.round(lbs * 10) / 10;
+
+const emptyOut = (): Record<FoodDispositionKind, number> => ({
+  served: 0,
+  redistributed: 0,
+  composted: 0,
+  discarded: 0,
+});
+
+const finishRow = (row: Omit<FoodRescueLedgerRow, 'intakeLbs' | 'totalOutLbs' | 'unaccountedLbs' | 'diversionRate'>) => {
+  const outLbs = Object.fromEntries(
+    FOOD_DISPOSITION_KINDS.map((kind) => [kind, roundLbs(row.outLbs[kind])])
+  ) as Record<FoodDispositionKind, number>;
+  const intakeLbs = roundLbs(row.donatedLbs + row.laPlazaLbs);
+  const totalOutLbs = roundLbs(FOOD_DISPOSITION_KINDS.reduce((sum, kind) => sum + outLbs[kind], 0));
+  const divertedLbs = DIVERTED_DISPOSITIONS.reduce((sum, kind) => sum + outLbs[kind], 0);
+  return {
+    ...row,
+    donatedLbs: roundLbs(row.donatedLbs),
+    laPlazaLbs: roundLbs(row.laPlazaLbs),
+    outLbs,
+    intakeLbs,
+    totalOutLbs,
+    unaccountedLbs: roundLbs(intakeLbs - totalOutLbs),
+    diversionRate: totalOutLbs > 0 ? divertedLbs / totalOutLbs : null,
+  };
+};
+
+/**
+ * One ledger row per day (or month) between from and to, inclusive, with
+ * a row for every day even when nothing was recorded
+ */
+export function buildFoodRescueLedger({
+  donations,
+  laPlazaDonations,
+  dispositions,
+  meals,
+  from,
+  to,
+  groupBy = 'day',
+}: {
+  donations: Donation[];
+  laPlazaDonations: LaPlazaDonation[];
+  dispositions: FoodDisposition[];
+  meals: MealRecord[];
+  from: string;
+  to: string;
+  groupBy?: 'day' | 'month';
+}): FoodRescueLedgerRow[] {
+  const periodOf = (date: string) => (groupBy === 'month' ? date.slice(0, 7) : date);
+  const rows = new Map<string, Omit<FoodRescueLedgerRow, 'intakeLbs' | 'totalOutLbs' | 'unaccountedLbs' | 'diversionRate'>>();
+
+  for (let day = new Date(`${from}T00:00:00Z`); day.toISOString().slice(0, 10) <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    const period = periodOf(day.toISOString().slice(0, 10));
+    if (!rows.has(period)) {
+      rows.set(period, { period, donatedLbs: 0, laPlazaLbs: 0, intakeServings: 0, mealsServed: 0, outLbs: emptyOut() });
+    }
+  }
+
+  const rowFor = (date: string) => (date >= from && date <= to ? rows.get(periodOf(date)) : undefined);
+
+  for (const donation of donations) {
+    const row = rowFor(donation.dateKey || pacificDateStringFrom(donation.donatedAt));
+    if (!row) continue;
+    row.donatedLbs += donation.weightLbs || 0;
+    row.intakeServings += donation.servings || 0;
+  }
+  for (const delivery of laPlazaDonations) {
+    const row = rowFor(delivery.dateKey || pacificDateStringFrom(delivery.receivedAt));
+    if (row) row.laPlazaLbs += delivery.weightLbs || 0;
+  }
+  for (const meal of meals) {
+    const row = rowFor(meal.servedOn || meal.date);
+    if (row) row.mealsServed += meal.count || 0;
+  }
+  for (const disposition of dispositions) {
+    const row = rowFor(disposition.dateKey);
+    if (row) row.outLbs[disposition.kind] += disposition.weightLbs || 0;
+  }
+
+  return [...rows.values()].map(finishRow);
+}
+
+/**
+ * Add ledger rows together, for a period total
+ */
+export function totalFoodRescueLedger(rows: FoodRescueLedgerRow[], period: string): FoodRescueLedgerRow {
+  const outLbs = emptyOut();
+  for (const row of rows) {
+    for (const kind of FOOD_DISPOSITION_KINDS) outLbs[kind] += row.outLbs[kind];
+  }
+  return finishRow({
+    period,
+    donatedLbs: rows.reduce((sum, row) => sum + row.donatedLbs, 0),
+    laPlazaLbs: rows.reduce((sum, row) => sum + row.laPlazaLbs, 0),
+    intakeServings: rows.reduce((sum, row) => sum + row.intakeServings, 0),
+    mealsServed: rows.reduce((sum, row) => sum + row.mealsServed, 0),
+    outLbs,
+  });
+}
+
+export const formatDiversionRate = (rate: number | null): string =>
+  rate === null ? '—' : `${Math.round(rate * 1000) / 10}%`;
+
+// Database row type
+export interface FoodDispositionRow {
+  id: string;
+  disposition: FoodDispositionKind;
+  recipient: string | null;
+  weight_lbs: number | string;
+  notes: string | null;
+  date_key: string;
+  recorded_by_email: string | null;
+  recorded_at: string;
+}
+
+export const FOOD_DISPOSITION_COLUMNS =
+  'id,disposition,recipient,weight_lbs,notes,date_key,recorded_by_email,recorded_at';
+
+export function mapFoodDispositionRow(row: FoodDispositionRow): FoodDisposition {
+  return {
+    id: row.id,
+    kind: row.disposition,
+    recipient: row.recipient,
+    // numeric columns can come back as strings
+    weightLbs: Number(row.weight_lbs),
+    notes: row.notes,
+    dateKey: row.date_key,
+    recordedByEmail: row.recorded_by_email,
+    recordedAt: row.recorded_at,
+  };
+}
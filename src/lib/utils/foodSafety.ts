@@ -0,0 +1,133 @@
+/**
+ * Food safety utilities
+ * Hot and cold holding checks for the temperature log. Each reading is
+ * checked against the safe range in settings when it is taken, and keeps that
+ * range so the monthly log still shows what applied at the time.
+ */
+
+import type {
+  FoodHolding,
+  FoodSafetyRange,
+  FoodSafetyRanges,
+  TemperatureReading,
+  TemperatureStage,
+} from '@/lib/types';
+
+// FDA Food Code holding temperatures
+export const DEFAULT_FOOD_SAFETY_RANGES: FoodSafetyRanges = {
+  hot: { minF: 135, maxF: null },
+  cold: { minF: null, maxF: 41 },
+};
+
+export const FOOD_HOLDING_LABELS: Record<FoodHolding, string> = {
+  hot: 'Hot holding',
+  cold: 'Cold holding',
+};
+
+export const TEMPERATURE_STAGE_LABELS: Record<TemperatureStage, string> = {
+  intake: 'Intake',
+  service: 'Service',
+};
+
+export const formatTemperature = (temperatureF: number): string => `${Math.round(temperatureF * 10) / 10}°F`;
+
+export function describeSafeRange(range: FoodSafetyRange): string {
+  if (range.minF !== null && range.maxF !== null) {
+    return `${formatTemperature(range.minF)} to ${formatTemperature(range.maxF)}`;
+  }
+  if (range.minF !== null) return `${formatTemperature(range.minF)} or above`;
+  if (range.maxF !== null) return `${formatTemperature(range.maxF)} or below`;
+  return 'Any temperature';
+}
+
+export interface TemperatureCheck {
+  inRange: boolean;
+  safeMinF: number | null;
+  safeMaxF: number | null;
+}
+
+export function checkTemperature(temperatureF: number, holding: FoodHolding, ranges: FoodSafetyRanges): TemperatureCheck {
+  const range = ranges[holding] ?? DEFAULT_FOOD_SAFETY_RANGES[holding];
+  const inRange =
+    (range.minF === null || temperatureF >= range.minF) && (range.maxF === null || temperatureF <= range.maxF);
+  return { inRange, safeMinF: range.minF, safeMaxF: range.maxF };
+}
+
+/**
+ * Parse a temperature typed into a form; null when it isn't a number
+ */
+export function parseTemperature(value: string): number | null {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export interface TemperatureLogDay {
+  date: string;
+  readings: TemperatureReading[];
+}
+
+/**
+ * A month of readings grouped by day, in the order they were taken
+ */
+export function buildMonthlyTemperatureLog(readings: TemperatureReading[], month: string) {
+  const days = new Map<string, TemperatureReading[]>();
+  for (const reading of readings) {
+    if (!reading.dateKey.startsWith(month)) continue;
+    days.set(reading.dateKey, [...(days.get(reading.dateKey) ?? []), reading]);
+  }
+
+  const log: TemperatureLogDay[] = [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayReadings]) => ({
+      date,
+      readings: [...dayReadings].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt)),
+    }));
+
+  const all = log.flatMap((day) => day.readings);
+  return {
+    days: log,
+    totals: { readings: all.length, outOfRange: all.filter((r) => !r.inRange).length },
+  };
+}
+
+// Database row type
+export interface TemperatureReadingRow {
+  id: string;
+  stage: TemperatureStage;
+  holding: FoodHolding;
+  item_name: string;
+  donation_id: string | null;
+  temperature_f: number | string;
+  in_range: boolean;
+  safe_min_f: number | string | null;
+  safe_max_f: number | string | null;
+  corrective_action: string | null;
+  recorded_by_email: string | null;
+  recorded_at: string;
+  date_key: string;
+}
+
+export const TEMPERATURE_READING_COLUMNS =
+  'id,stage,holding,item_name,donation_id,temperature_f,in_range,safe_min_f,safe_max_f,corrective_action,recorded_by_email,recorded_at,date_key';
+
+// numeric columns can come back as strings
+const toNumberOrNull = (value: number | string | null) => (value === null ? null : Number(value));
+
+export function mapTemperatureReadingRow(row: TemperatureReadingRow): TemperatureReading {
+  return {
+    id: row.id,
+    stage: row.stage,
+    holding: row.holding,
+    itemName: row.item_name,
+    donationId: row.donation_id,
+    temperatureF: Number(row.temperature_f),
+    inRange: row.in_range,
+    safeMinF: toNumberOrNull(row.safe_min_f),
+    safeMaxF: toNumberOrNull(row.safe_max_f),
+    correctiveAction: row.corrective_action,
+    recordedByEmail: row.recorded_by_email,
+    recordedAt: row.recorded_at,
+    dateKey: row.date_key,
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Guest ban utilities
+ * A guest's current ban lives on the guest row and may cover only some
+ * services; every warning, ban and lift is kept in guest_bans. Everything
+ * that asks "can this guest get this service?" goes through here.
+ */
+
+import type { BanService, Guest, GuestBan, GuestBanAction, GuestBanReview } from '@/lib/types';
+
+export const BAN_SERVICES: { id: BanService; label: string }[] = [
+  { id: 'meals', label: 'Meals' },
+  { id: 'shower', label: 'Showers' },
+  { id: 'laundry', label: 'Laundry' },
+  { id: 'bicycle', label: 'Bicycle repairs' },
+  { id: 'haircut', label: 'Haircuts' },
+  { id: 'holiday', label: 'Holiday' },
+  { id: 'items', label: 'Item distribution' },
+];
+
+export const GUEST_BAN_ACTION_LABELS: Record<GuestBanAction, string> = {
+  warning: 'Warning',
+  ban: 'Ban',
+  lift: 'Ban lifted',
+};
+
+// How far ahead the reviewer queue looks for bans about to end
+export const BAN_REVIEW_WINDOW_DAYS = 7;
+
+const banServiceLabel = (service: BanService) =>
+  BAN_SERVICES.find((option) => option.id === service)?.label ?? service;
+
+/**
+ * Whether a guest's current ban keeps them from a service
+ */
+export function isGuestBannedFrom(guest: Guest, service: BanService): boolean {
+  if (!guest.isBanned && guest.banned !== true) return false;
+  const services = guest.bannedServices ?? [];
+  return services.length === 0 || services.includes(service);
+}
+
+/**
+ * The services a ban covers, in words: "All services" or "Showers and laundry"
+ */
+export function describeBanScope(services: BanService[] | undefined): string {
+  if (!services || services.length === 0) return 'All services';
+  const labels = BAN_SERVICES.filter((option) => services.includes(option.id)).map((option, index) =>
+    index === 0 ? option.label : option.label.toLowerCase()
+  );
+  if (labels.length === 0) return services.map(banServiceLabel).join(', ');
+  return labels.length === 1 ? labels[0] : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * When a ban ends, in words
+ */
+export function describeBanEnd(endsAt: string | null): string {
+  if (!endsAt) return 'Permanent';
+  return `Until ${new Date(endsAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })}`;
+}
+
+/**
+ * The end of a ban that runs through the given Pacific date (YYYY-MM-DD)
+ */
+export function banEndOfDay(date: string): string {
+  return new Date(`${date}T23:59:59-08:00`).toISOString();
+}
+
+// Database row type
+export interface GuestBanRow {
+  id: string;
+  guest_id: string;
+  action: GuestBanAction;
+  services: BanService[] | null;
+  reason: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  issued_by: string | null;
+  issued_by_email: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+}
+
+export const GUEST_BAN_COLUMNS =
+  'id,guest_id,action,services,reason,starts_at,ends_at,issued_by,issued_by_email,created_at,reviewed_at,reviewed_by';
+
+export function mapGuestBanRow(row: GuestBanRow): GuestBan {
+  return {
+    id: row.id,
+    guestId: row.guest_id,
+    action: row.action,
+    services: row.services ?? [],
+    reason: row.reason ?? '',
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    issuedBy: row.issued_by,
+    issuedByEmail: row.issued_by_email,
+    createdAt: row.created_at,
+    reviewedAt: row.reviewed_at,
+    reviewedBy: row.reviewed_by,
+  };
+}
+
+export function mapGuestBanReviewRow(row: GuestBanRow & { guest_name: string | null }): GuestBanReview {
+  return { ...mapGuestBanRow(row), guestName: row.guest_name ?? '' };
+}
+
+/**
+ * The guest fields a new ban or lift sets, mirroring the apply_guest_ban trigger
+ */
+export function guestBanFields(
+  ban: Pick<GuestBan, 'action' | 'services' | 'reason' | 'startsAt' | 'endsAt'>
+): Pick<Guest, 'bannedAt' | 'bannedUntil' | 'banReason' | 'bannedServices'> | null {
+  if (ban.action === 'ban') {
+    return {
+      bannedAt: ban.startsAt,
+      bannedUntil: ban.endsAt,
+      banReason: ban.reason,
+      bannedServices: ban.services,
+    };
+  }
+  if (ban.action === 'lift') {
+    return { bannedAt: null, bannedUntil: null, banReason: '', bannedServices: [] };
+  }
+  return null;
+}
@@ -0,0 +1,161 @@
+/**
+ * Guest duplicate detection
+ * Fuzzy name matching shared by guest search suggestions and the admin merge tool.
+ */
+
+import type { Guest } from '../types';
+
+export interface DuplicateCandidate {
+  // Suggested survivor (the older profile) and the profile to fold into it
+  primary: Guest;
+  duplicate: Guest;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Edit distance between two strings
+ */
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  const dp = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = 0; i <= a.length; i++) dp[i][0] = i;
+  for (let j = 0; j <= b.length; j++) dp[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + cost
+      );
+    }
+  }
+  return dp[a.length][b.length];
+};
+
+/**
+ * Similarity between 0 and 1, case-insensitive
+ */
+export const normalizedSimilarity = (a: string, b: string): number => {
+  const aa = a.trim().toLowerCase();
+  const bb = b.trim().toLowerCase();
+  if (!aa || !bb) return 0;
+  const maxLen = Math.max(aa.length, bb.length);
+  if (maxLen === 0) return 1;
+  const dist = levenshteinDistance(aa, bb);
+  return 1 - dist / maxLen;
+};
+
+/**
+ * Rough phonetic key so "Jon"/"John" and "Kathy"/"Cathy" compare equal
+ */
+export const phoneticNormalize = (s: string): string => {
+  const str = s.toLowerCase().replace(/[^a-z]/g, '');
+  const vowelsNormalized = str.replace(/[aeiouy]/g, 'a');
+  const simplified = vowelsNormalized
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/c/g, 'k')
+    .replace(/q/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/v/g, 'f');
+  return simplified.replace(/(.)\1+/g, '$1');
+};
+
+const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+// Bucket guests by the initials of their phonetic names (order-independent so
+// swapped first/last names still meet) to avoid comparing every pair
+const blockingKey = (guest: Guest): string => {
+  const initials = [
+    phoneticNormalize(guest.firstName || '').charAt(0),
+    phoneticNormalize(guest.lastName || '').charAt(0),
+  ].sort();
+  return initials.join('');
+};
+
+const scorePair = (a: Guest, b: Guest): { score: number; reasons: string[] } => {
+  const firstA = (a.firstName || '').trim().toLowerCase();
+  const lastA = (a.lastName || '').trim().toLowerCase();
+  const firstB = (b.firstName || '').trim().toLowerCase();
+  const lastB = (b.lastName || '').trim().toLowerCase();
+  const reasons: string[] = [];
+
+  if (!firstA || !lastA || !firstB || !lastB) return { score: 0, reasons };
+
+  const forward = (normalizedSimilarity(firstA, firstB) + normalizedSimilarity(lastA, lastB)) / 2;
+  const swapped = (normalizedSimilarity(firstA, lastB) + normalizedSimilarity(lastA, firstB)) / 2;
+  let score = Math.max(forward, swapped);
+
+  if (forward === 1) {
+    reasons.push('Same name');
+  } else if (swapped === 1) {
+    reasons.push('First and last name swapped');
+  } else if (score >= DEFAULT_DUPLICATE_THRESHOLD) {
+    reasons.push('Similar spelling');
+  }
+
+  if (
+    score < 1 &&
+    phoneticNormalize(`${firstA}${lastA}`) === phoneticNormalize(`${firstB}${lastB}`)
+  ) {
+    score = Math.max(score, 0.9);
+    reasons.push('Sounds alike');
+  }
+
+  const prefA = (a.preferredName || '').trim().toLowerCase();
+  const prefB = (b.preferredName || '').trim().toLowerCase();
+  if (prefA && prefA === prefB) {
+    score += 0.05;
+    reasons.push('Same preferred name');
+  }
+
+  if (a.age === b.age && a.gender === b.gender) {
+    score += 0.02;
+  } else if (a.age !== b.age) {
+    score -= 0.05;
+    reasons.push('Different age group');
+  }
+
+  return { score: Math.min(score, 1), reasons };
+};
+
+/**
+ * Find likely duplicate pairs among existing guests, best matches first.
+ * The older profile of each pair is suggested as the survivor.
+ */
+export const findDuplicateCandidates = (
+  guests: Guest[],
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateCandidate[] => {
+  const buckets = new Map<string, Guest[]>();
+  guests.forEach((guest) => {
+    const key = blockingKey(guest);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(guest);
+    else buckets.set(key, [guest]);
+  });
+
+  const candidates: DuplicateCandidate[] = [];
+  buckets.forEach((bucket) => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const { score, reasons } = scorePair(bucket[i], bucket[j]);
+        if (score < threshold) continue;
+
+        const [primary, duplicate] =
+          (bucket[i].createdAt || '') <= (bucket[j].createdAt || '')
+            ? [bucket[i], bucket[j]]
+            : [bucket[j], bucket[i]];
+        candidates.push({ primary, duplicate, score, reasons });
+      }
+    }
+  });
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,68 @@
+/**
+ * Guest history utilities
+ * Field-level changes to guest profiles, as recorded by the guest_history
+ * trigger and mirrored locally before they sync.
+ */
+
+import type { Guest, GuestHistoryEntry, GuestHistoryField } from '@/lib/types';
+
+export const GUEST_HISTORY_FIELDS: { field: GuestHistoryField; column: string; label: string }[] = [
+  { field: 'guestId', column: 'external_id', label: 'Guest ID' },
+  { field: 'firstName', column: 'first_name', label: 'First name' },
+  { field: 'lastName', column: 'last_name', label: 'Last name' },
+  { field: 'preferredName', column: 'preferred_name', label: 'Preferred name' },
+  { field: 'housingStatus', column: 'housing_status', label: 'Housing status' },
+  { field: 'age', column: 'age_group', label: 'Age group' },
+  { field: 'gender', column: 'gender', label: 'Gender' },
+  { field: 'location', column: 'location', label: 'Location' },
+  { field: 'notes', column: 'notes', label: 'Notes' },
+  { field: 'bicycleDescription', column: 'bicycle_description', label: 'Bicycle description' },
+];
+
+export const guestHistoryFieldLabel = (field: GuestHistoryField): string =>
+  GUEST_HISTORY_FIELDS.find((f) => f.field === field)?.label ?? field;
+
+// Database row type
+export interface GuestHistoryRow {
+  id: number | string;
+  guest_id: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  changed_at: string;
+}
+
+export function mapGuestHistoryRow(row: GuestHistoryRow): GuestHistoryEntry {
+  return {
+    id: String(row.id),
+    guestId: row.guest_id,
+    field: GUEST_HISTORY_FIELDS.find((f) => f.column === row.field)?.field ?? (row.field as GuestHistoryField),
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    changedBy: row.changed_by,
+    changedByEmail: row.changed_by_email,
+    changedAt: row.changed_at,
+  };
+}
+
+const historyValue = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  const text = String(value);
+  return text === '' ? null : text;
+};
+
+/**
+ * The tracked fields that differ between a guest and an update to it
+ */
+export const diffGuestFields = (
+  before: Guest,
+  after: Partial<Record<GuestHistoryField, unknown>>
+): { field: GuestHistoryField; oldValue: string | null; newValue: string | null }[] =>
+  GUEST_HISTORY_FIELDS.flatMap(({ field }) => {
+    if (after[field] === undefined) return [];
+    const oldValue = historyValue(before[field]);
+    const newValue = historyValue(after[field]);
+    return oldValue === newValue ? [] : [{ field, oldValue, newValue }];
+  });
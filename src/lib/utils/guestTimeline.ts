@@ -0,0 +1,253 @@
+/**
+ * Guest timeline utilities
+ * Everything one guest has received, gathered from the meal, service,
+ * donation and waiver records into one chronological list.
+ */
+
+import type {
+  BicycleRepair,
+  GuestTimelineEvent,
+  HaircutRecord,
+  HolidayRecord,
+  ItemRecord,
+  LaundryRecord,
+  MealRecord,
+  ServiceWaiver,
+  ShowerRecord,
+  ShowerStatus,
+  TimelineEventType,
+  TimelinePeriod,
+  TimelinePeriodCount,
+} from '@/lib/types';
+import { pacificDateStringFrom } from './date';
+import { WAIVER_SERVICE_LABELS } from './waivers';
+
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventType, string> = {
+  meal: 'Meal',
+  rv_meal: 'RV meal',
+  extra_meal: 'Extra meal',
+  shower: 'Shower',
+  laundry: 'Laundry',
+  bicycle: 'Bicycle repair',
+  donation: 'Donation',
+  haircut: 'Haircut',
+  holiday: 'Holiday',
+  item: 'Item',
+  waiver: 'Waiver',
+};
+
+export const TIMELINE_PERIOD_LABELS: Record<TimelinePeriod, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+  year: 'Yearly',
+};
+
+// Showers the guest did not actually take stay on the timeline but are not counted
+const UNCOUNTED_SHOWER_STATUSES: ShowerStatus[] = ['waitlisted', 'cancelled', 'no_show'];
+
+export interface GuestTimelineSources {
+  meals: MealRecord[];
+  rvMeals: MealRecord[];
+  extraMeals: MealRecord[];
+  showers: ShowerRecord[];
+  laundry: LaundryRecord[];
+  bicycles: BicycleRepair[];
+  haircuts: HaircutRecord[];
+  holidays: HolidayRecord[];
+  items: ItemRecord[];
+  waivers: ServiceWaiver[];
+}
+
+/**
+ * Time of day shown on a timeline entry
+ */
+export const formatTimelineTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// Service dates are stored either as a plain date or as a timestamp
+const serviceDate = (value: string): string =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : pacificDateStringFrom(value);
+
+/**
+ * Every record belonging to a guest as timeline events, newest first
+ */
+export function buildGuestTimeline(
+  guestId: string,
+  sources: Partial<GuestTimelineSources>
+): GuestTimelineEvent[] {
+  const events: GuestTimelineEvent[] = [];
+  const forGuest = <T extends { guestId: string | null }>(records: T[] | undefined): T[] =>
+    (records || []).filter((record) => record.guestId === guestId);
+
+  const addMeals = (records: MealRecord[] | undefined, type: TimelineEventType, noun: string) => {
+    forGuest(records).forEach((meal) => {
+      events.push({
+        id: `${type}-${meal.id}`,
+        type,
+        date: serviceDate(meal.date),
+        timestamp: meal.recordedAt,
+        description: `${meal.count} ${noun}(s) served${
+          meal.pickedUpCount ? ` (${meal.pickedUpCount} picked up by a linked guest)` : ''
+        }`,
+        time: formatTimelineTime(meal.recordedAt),
+        counted: true,
+      });
+    });
+  };
+  addMeals(sources.meals, 'meal', 'meal');
+  addMeals(sources.rvMeals, 'rv_meal', 'RV meal');
+  addMeals(sources.extraMeals, 'extra_meal', 'extra meal');
+
+  forGuest(sources.showers).forEach((shower) => {
+    events.push({
+      id: `shower-${shower.id}`,
+      type: 'shower',
+      date: serviceDate(shower.date),
+      timestamp: shower.createdAt,
+      description: `Shower ${shower.status}`,
+      time: shower.time || 'Unscheduled',
+      counted: !UNCOUNTED_SHOWER_STATUSES.includes(shower.status),
+    });
+  });
+
+  forGuest(sources.laundry).forEach((record) => {
+    events.push({
+      id: `laundry-${record.id}`,
+      type: 'laundry',
+      date: serviceDate(record.date),
+      timestamp: record.createdAt,
+      description: `Laundry ${record.status} (${record.laundryType})`,
+      time: record.time || 'Unscheduled',
+      counted: true,
+    });
+  });
+
+  forGuest(sources.bicycles).forEach((repair) => {
+    events.push({
+      id: `bicycle-${repair.id}`,
+      type: 'bicycle',
+      date: serviceDate(repair.date),
+      timestamp: repair.date,
+      description: `Bicycle repair: ${repair.repairTypes.slice(0, 2).join(', ')}${repair.repairTypes.length > 2 ? '...' : ''}`,
+      time: formatTimelineTime(repair.date),
+      counted: true,
+    });
+  });
+
+  forGuest(sources.haircuts).forEach((haircut) => {
+    events.push({
+      id: `haircut-${haircut.id}`,
+      type: 'haircut',
+      date: serviceDate(haircut.date),
+      timestamp: null,
+      description: 'Haircut completed',
+      time: '',
+      counted: true,
+    });
+  });
+
+  forGuest(sources.holidays).forEach((holiday) => {
+    events.push({
+      id: `holiday-${holiday.id}`,
+      type: 'holiday',
+      date: serviceDate(holiday.date),
+      timestamp: null,
+      description: 'Holiday visit',
+      time: '',
+      counted: true,
+    });
+  });
+
+  forGuest(sources.items).forEach((record) => {
+    events.push({
+      id: `item-${record.id}`,
+      type: 'item',
+      date: serviceDate(record.date),
+      timestamp: record.createdAt,
+      description: record.quantity > 1 ? `Received ${record.quantity} × ${record.item}` : `Received ${record.item}`,
+      time: formatTimelineTime(record.createdAt),
+      counted: true,
+    });
+  });
+
+  // A waiver is on record once it is dismissed by a signature
+  forGuest(sources.waivers)
+    .filter((waiver) => waiver.dismissedAt)
+    .forEach((waiver) => {
+      const signedAt = waiver.dismissedAt as string;
+      events.push({
+        id: `waiver-${waiver.id}`,
+        type: 'waiver',
+        date: serviceDate(signedAt),
+        timestamp: signedAt,
+        description: `${WAIVER_SERVICE_LABELS[waiver.serviceType]} waiver signed`,
+        time: formatTimelineTime(signedAt),
+        counted: false,
+      });
+    });
+
+  return events.sort((a, b) => {
+    if (a.date !== b.date) return b.date.localeCompare(a.date);
+    return (b.timestamp || '').localeCompare(a.timestamp || '');
+  });
+}
+
+/**
+ * Services received per event type, leaving out entries that are not counted
+ */
+export function countTimelineEvents(
+  events: GuestTimelineEvent[]
+): Pick<TimelinePeriodCount, 'counts' | 'total'> {
+  const counts: Partial<Record<TimelineEventType, number>> = {};
+  let total = 0;
+  events.forEach((event) => {
+    if (!event.counted) return;
+    counts[event.type] = (counts[event.type] || 0) + 1;
+    total += 1;
+  });
+  return { counts, total };
+}
+
+// Weeks start on Monday
+const periodStart = (date: string, period: TimelinePeriod): string => {
+  if (period === 'year') return `${date.slice(0, 4)}-01-01`;
+  if (period === 'month') return `${date.slice(0, 7)}-01`;
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+const periodLabel = (start: string, period: TimelinePeriod): string => {
+  const date = new Date(`${start}T00:00:00.000Z`);
+  if (period === 'year') return start.slice(0, 4);
+  if (period === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+  return `Week of ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`;
+};
+
+/**
+ * Services received in each week, month or year that has any, newest first
+ */
+export function countGuestTimelineByPeriod(
+  events: GuestTimelineEvent[],
+  period: TimelinePeriod
+): TimelinePeriodCount[] {
+  const byPeriod = new Map<string, GuestTimelineEvent[]>();
+  events.forEach((event) => {
+    if (!event.counted) return;
+    const start = periodStart(event.date, period);
+    byPeriod.set(start, [...(byPeriod.get(start) || []), event]);
+  });
+
+  return Array.from(byPeriod.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([start, periodEvents]) => ({
+      period: start,
+      label: periodLabel(start, period),
+      ...countTimelineEvents(periodEvents),
+    }));
+}
@@ -1,5 +1,21 @@
 // Utility functions barrel export
 export * from './bicycles';
 export * from './date';
+export * from './displayBoard';
+export * from './donationReceipts';
+export * from './donations';
+export * from './eligibility';
 export * from './export';
+export * from './foodRescue';
+export * from './foodSafety';
+export * from './guestDuplicates';
+export * from './guestHistory';
+export * from './guestTimeline';
+export * from './inventory';
 export * from './normalizers';
+export * from './pdf';
+export * from './showerSlots';
+export * from './taxonomies';
+export * from './verificationLetters';
+export * from './waitlist';
+export * from './waivers';
@@ -19,7 +19,6 @@ export interface QueueItem {
   id?: number;
   operationType: string;
   payload: unknown;
-  executeFuncName: string;
   timestamp: number;
   status: 'pending' | 'retrying' | 'completed' | 'failed';
   retryCount: number;
@@ -28,6 +27,15 @@ export interface QueueItem {
   lastError?: string;
 }
 
+export interface ConflictDetails {
+  table: string;
+  recordId: string;
+  localVersion: Record<string, unknown>;
+  original: Record<string, unknown>;
+  serverVersion: Record<string, unknown> | null;
+  detectedAt: string;
+}
+
 export interface FailedOperation extends QueueItem {
   failureCount: number;
   errorContext?: {
@@ -37,6 +45,7 @@ export interface FailedOperation extends QueueItem {
     severity: string;
     retriable: boolean;
     errorDetails: string;
+    conflict?: ConflictDetails;
   };
 }
 
@@ -129,7 +138,8 @@ export const addToQueue = async (operation: Omit<QueueItem, 'id' | 'timestamp' |
 };
 
 /**
- * Get all pending operations from queue
+ * Get all operations still awaiting replay from queue
+ * (includes 'retrying' items so a reload mid-backoff does not strand them)
  */
 export const getPendingOperations = async (): Promise<QueueItem[]> => {
   if (!isIndexedDBAvailable()) return [];
@@ -139,11 +149,12 @@ export const getPendingOperations = async (): Promise<QueueItem[]> => {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([QUEUE_STORE], 'readonly');
     const store = transaction.objectStore(QUEUE_STORE);
-    const index = store.index('status');
-    const request = index.getAll('pending');
+    const index = store.index('timestamp');
+    const request = index.getAll();
 
     request.onsuccess = () => {
-      resolve(request.result);
+      const operations = request.result as QueueItem[];
+      resolve(operations.filter(op => op.status === 'pending' || op.status === 'retrying'));
     };
 
     request.onerror = () => {
@@ -346,6 +357,14 @@ export const getFailedOperations = async (): Promise<FailedOperation[]> => {
   });
 };
 
+/**
+ * Get failed operations that hold a local/server conflict awaiting review
+ */
+export const getConflictOperations = async (): Promise<FailedOperation[]> => {
+  const failed = await getFailedOperations();
+  return failed.filter(op => op.errorContext?.conflict);
+};
+
 /**
  * Remove failed operation
  */
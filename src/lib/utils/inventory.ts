@@ -0,0 +1,194 @@
+/**
+ * Item inventory utilities
+ * Stock on hand is the sum of an item's transactions: receiving and counts
+ * entered by staff, and one off for every item handed to a guest. Items that
+ * come in sizes are stocked, and run low, per size.
+ */
+
+import { pacificDateStringFrom } from './date';
+import type {
+  InventoryItem,
+  InventoryStockLevel,
+  InventoryTransaction,
+  InventoryTransactionKind,
+} from '@/lib/types';
+
+export const INVENTORY_TRANSACTION_LABELS: Record<InventoryTransactionKind, string> = {
+  receive: 'Received',
+  adjust: 'Adjustment',
+  distribute: 'Given to guest',
+};
+
+// Database row types
+export interface InventoryItemRow {
+  id: string;
+  item_key: string;
+  name: string;
+  sizes: string[] | null;
+  low_stock_threshold: number;
+  active: boolean;
+}
+
+export interface InventoryTransactionRow {
+  id: string;
+  item_key: string;
+  size: string | null;
+  kind: InventoryTransactionKind;
+  quantity: number;
+  note: string | null;
+  recorded_by_email: string | null;
+  created_at: string;
+}
+
+export interface InventoryStockLevelRow {
+  item_key: string;
+  size: string | null;
+  on_hand: number;
+}
+
+export const INVENTORY_ITEM_COLUMNS = 'id,item_key,name,sizes,low_stock_threshold,active';
+export const INVENTORY_TRANSACTION_COLUMNS = 'id,item_key,size,kind,quantity,note,recorded_by_email,created_at';
+
+export function mapInventoryItemRow(row: InventoryItemRow): InventoryItem {
+  return {
+    id: row.id,
+    itemKey: row.item_key,
+    name: row.name,
+    sizes: row.sizes ?? [],
+    lowStockThreshold: row.low_stock_threshold,
+    active: row.active,
+  };
+}
+
+export function mapInventoryTransactionRow(row: InventoryTransactionRow): InventoryTransaction {
+  return {
+    id: row.id,
+    itemKey: row.item_key,
+    size: row.size,
+    kind: row.kind,
+    quantity: row.quantity,
+    note: row.note,
+    recordedByEmail: row.recorded_by_email,
+    createdAt: row.created_at,
+  };
+}
+
+export function mapInventoryStockLevelRow(row: InventoryStockLevelRow): InventoryStockLevel {
+  return { itemKey: row.item_key, size: row.size, onHand: row.on_hand };
+}
+
+/**
+ * A catalog key from a name staff typed: "Sleeping Bag" -> "sleeping_bag"
+ */
+export const toInventoryItemKey = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+const sameStock = (level: Pick<InventoryStockLevel, 'itemKey' | 'size'>, itemKey: string, size: string | null) =>
+  level.itemKey === itemKey && (level.size ?? null) === (size ?? null);
+
+export function getStockOnHand(levels: InventoryStockLevel[], itemKey: string, size: string | null): number {
+  return levels.find((level) => sameStock(level, itemKey, size))?.onHand ?? 0;
+}
+
+/**
+ * Stock levels with a change applied, as the server will have them once the
+ * transaction is written
+ */
+export function applyStockChange(
+  levels: InventoryStockLevel[],
+  itemKey: string,
+  size: string | null,
+  quantity: number
+): InventoryStockLevel[] {
+  if (!levels.some((level) => sameStock(level, itemKey, size))) {
+    return [...levels, { itemKey, size: size ?? null, onHand: quantity }];
+  }
+  return levels.map((level) =>
+    sameStock(level, itemKey, size) ? { ...level, onHand: level.onHand + quantity } : level
+  );
+}
+
+// Sized items are stocked per size; the rest as one shelf
+const stockSlots = (item: InventoryItem): (string | null)[] => (item.sizes.length > 0 ? item.sizes : [null]);
+
+export interface LowStockEntry {
+  item: InventoryItem;
+  size: string | null;
+  onHand: number;
+}
+
+/**
+ * Active items (or sizes) at or below their low-stock threshold, emptiest first
+ */
+export function findLowStock(items: InventoryItem[], levels: InventoryStockLevel[]): LowStockEntry[] {
+  return items
+    .filter((item) => item.active)
+    .flatMap((item) =>
+      stockSlots(item).map((size) => ({ item, size, onHand: getStockOnHand(levels, item.itemKey, size) }))
+    )
+    .filter((entry) => entry.onHand <= entry.item.lowStockThreshold)
+    .sort((a, b) => a.onHand - b.onHand || a.item.name.localeCompare(b.item.name));
+}
+
+export const describeStockSlot = (item: Pick<InventoryItem, 'name'>, size: string | null): string =>
+  size ? `${item.name} (${size})` : item.name;
+
+export interface InventoryMonthRow {
+  itemKey: string;
+  name: string;
+  size: string | null;
+  opening: number;
+  received: number;
+  // Counted as a positive number of items handed out
+  distributed: number;
+  adjusted: number;
+  closing: number;
+}
+
+/**
+ * Stock in and out for one month (YYYY-MM, Pacific time), worked back from
+ * today's stock levels. `transactions` must include everything since the
+ * month began.
+ */
+export function buildInventoryMonthReport(
+  items: InventoryItem[],
+  levels: InventoryStockLevel[],
+  transactions: InventoryTransaction[],
+  month: string
+): InventoryMonthRow[] {
+  return items.flatMap((item) =>
+    stockSlots(item).map((size) => {
+      const row: InventoryMonthRow = {
+        itemKey: item.itemKey,
+        name: item.name,
+        size,
+        opening: 0,
+        received: 0,
+        distributed: 0,
+        adjusted: 0,
+        closing: 0,
+      };
+      let sinceMonthEnd = 0;
+
+      for (const transaction of transactions) {
+        if (!sameStock(transaction, item.itemKey, size)) continue;
+        const transactionMonth = pacificDateStringFrom(transaction.createdAt).slice(0, 7);
+        if (transactionMonth > month) {
+          sinceMonthEnd += transaction.quantity;
+        } else if (transactionMonth === month) {
+          if (transaction.kind === 'receive') row.received += transaction.quantity;
+          else if (transaction.kind === 'distribute') row.distributed -= transaction.quantity;
+          else row.adjusted += transaction.quantity;
+        }
+      }
+
+      row.closing = getStockOnHand(levels, item.itemKey, size) - sinceMonthEnd;
+      row.opening = row.closing - row.received + row.distributed - row.adjusted;
+      return row;
+    })
+  );
+}
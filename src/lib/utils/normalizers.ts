@@ -43,16 +43,20 @@ export function normalizeHousingStatus(status: string | undefined | null): Housi
   return match || 'Unhoused';
 }
 
-// Check if guest is currently banned
-export function computeIsGuestBanned(bannedUntil: string | null | undefined): boolean {
-  if (!bannedUntil) return false;
+// Check if guest is currently banned; a ban with a start but no end is permanent
+export function computeIsGuestBanned(
+  bannedUntil: string | null | undefined,
+  bannedAt?: string | null
+): boolean {
+  if (!bannedUntil) return Boolean(bannedAt);
   return new Date(bannedUntil) > new Date();
 }
 
 // Map database row to Guest type
 export function mapGuestRow(row: Record<string, unknown>): Guest {
   const bannedUntil = row.banned_until as string | null;
-  
+  const bannedAt = row.banned_at as string | null;
+
   return {
     id: row.id as string,
     guestId: row.external_id as string,
@@ -69,11 +73,41 @@ export function mapGuestRow(row: Record<string, unknown>): Guest {
     location: (row.location as string) || 'Mountain View',
     notes: (row.notes as string) || '',
     bicycleDescription: normalizeBicycleDescription(row.bicycle_description as string),
-    bannedAt: row.banned_at as string | null,
+    bannedAt,
     bannedUntil,
     banReason: (row.ban_reason as string) || '',
-    isBanned: computeIsGuestBanned(bannedUntil),
+    isBanned: computeIsGuestBanned(bannedUntil, bannedAt),
+    bannedServices: (row.banned_services as Guest['bannedServices'] | null) ?? [],
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
 }
+
+// Guest table columns and the Guest fields they map to
+const GUEST_COLUMN_FIELDS: Record<string, keyof Guest> = {
+  external_id: 'guestId',
+  first_name: 'firstName',
+  last_name: 'lastName',
+  full_name: 'name',
+  preferred_name: 'preferredName',
+  housing_status: 'housingStatus',
+  age_group: 'age',
+  gender: 'gender',
+  location: 'location',
+  notes: 'notes',
+  bicycle_description: 'bicycleDescription',
+  banned_at: 'bannedAt',
+  banned_until: 'bannedUntil',
+  ban_reason: 'banReason',
+  banned_services: 'bannedServices',
+};
+
+// Read the given guest table columns back off a mapped Guest
+export function guestColumnValues(guest: Guest, columns: string[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  columns.forEach((column) => {
+    const field = GUEST_COLUMN_FIELDS[column];
+    if (field) values[column] = guest[field] ?? null;
+  });
+  return values;
+}
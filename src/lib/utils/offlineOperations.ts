@@ -0,0 +1,417 @@
+/**
+ * Offline Operation Registry
+ * Describes every store mutation as a serializable operation type plus payload,
+ * and maps each type to the Supabase call that replays it after a reload.
+ */
+
+import { createClient } from '@/lib/supabase/client';
+
+// Payload shapes (must stay JSON-serializable so they survive IndexedDB)
+export interface InsertRowPayload {
+  row: Record<string, unknown>;
+}
+
+export interface UpdateRowPayload {
+  id: string;
+  changes: Record<string, unknown>;
+  // Local values of the changed columns before the edit; when present the
+  // replay checks the server still holds them before writing
+  original?: Record<string, unknown>;
+}
+
+export interface DeleteRowPayload {
+  id: string;
+}
+
+export interface GuestProxyPairPayload {
+  guestId: string;
+  proxyId: string;
+}
+
+export interface WaiverDismissalPayload {
+  guestId: string;
+  serviceType: string;
+  reason: string;
+}
+
+export interface WaiverSignaturePayload {
+  documentId: string;
+  guestId: string;
+  serviceType: string;
+  document: Record<string, unknown>;
+  signatureImage: string;
+}
+
+export interface OfflineOperationPayloads {
+  // Guests
+  addGuest: InsertRowPayload;
+  updateGuest: UpdateRowPayload;
+  deleteGuest: DeleteRowPayload;
+  addGuestProxy: InsertRowPayload;
+  deleteGuestProxy: GuestProxyPairPayload;
+
+  // Meals
+  addMealRecord: InsertRowPayload;
+  addRvMealRecord: InsertRowPayload;
+  addExtraMealRecord: InsertRowPayload;
+  addPartnerMealRecord: InsertRowPayload;
+  deleteMealRecord: DeleteRowPayload;
+  addHolidayRecord: InsertRowPayload;
+  deleteHolidayRecord: DeleteRowPayload;
+  addHaircutRecord: InsertRowPayload;
+  deleteHaircutRecord: DeleteRowPayload;
+
+  // Services
+  addShowerRecord: InsertRowPayload;
+  updateShowerStatus: UpdateRowPayload;
+  deleteShowerRecord: DeleteRowPayload;
+  addLaundryRecord: InsertRowPayload;
+  updateLaundryStatus: UpdateRowPayload;
+  deleteLaundryRecord: DeleteRowPayload;
+  addBicycleRecord: InsertRowPayload;
+  updateBicycleRecord: UpdateRowPayload;
+  deleteBicycleRecord: DeleteRowPayload;
+  addWaitlistPromotion: InsertRowPayload;
+  updateWaitlistPromotion: UpdateRowPayload;
+
+  // Donations
+  addDonation: InsertRowPayload;
+  updateDonation: UpdateRowPayload;
+  deleteDonation: DeleteRowPayload;
+  addLaPlazaDonation: InsertRowPayload;
+  updateLaPlazaDonation: UpdateRowPayload;
+  deleteLaPlazaDonation: DeleteRowPayload;
+  addItem: InsertRowPayload;
+  deleteItem: DeleteRowPayload;
+
+  // Inventory
+  addInventoryTransaction: InsertRowPayload;
+
+  // Eligibility
+  addEligibilityOverride: InsertRowPayload;
+
+  // Food safety
+  addTemperatureReading: InsertRowPayload;
+
+  // Food rescue
+  addFoodDisposition: InsertRowPayload;
+  deleteFoodDisposition: DeleteRowPayload;
+
+  // Waivers
+  dismissWaiver: WaiverDismissalPayload;
+  signWaiverDocument: WaiverSignaturePayload;
+}
+
+export type OfflineOperationType = keyof OfflineOperationPayloads;
+
+type OperationHandler<T extends OfflineOperationType> = (
+  payload: OfflineOperationPayloads[T]
+) => Promise<void>;
+
+type OperationRegistry = { [K in OfflineOperationType]: OperationHandler<K> };
+
+/**
+ * Raised when a replayed update targets a row that was changed (or removed)
+ * on the server after the edit was queued
+ */
+export class OfflineConflictError extends Error {
+  readonly table: string;
+  readonly recordId: string;
+  readonly localVersion: Record<string, unknown>;
+  readonly original: Record<string, unknown>;
+  readonly serverVersion: Record<string, unknown> | null;
+
+  constructor(details: {
+    table: string;
+    recordId: string;
+    localVersion: Record<string, unknown>;
+    original: Record<string, unknown>;
+    serverVersion: Record<string, unknown> | null;
+  }) {
+    super(
+      details.serverVersion
+        ? `Conflict: ${details.table} ${details.recordId} was changed on the server`
+        : `Conflict: ${details.table} ${details.recordId} no longer exists on the server`
+    );
+    this.name = 'OfflineConflictError';
+    this.table = details.table;
+    this.recordId = details.recordId;
+    this.localVersion = details.localVersion;
+    this.original = details.original;
+    this.serverVersion = details.serverVersion;
+  }
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+
+/**
+ * Compare two column values the way Postgres and the stores round-trip them:
+ * empty strings and nulls are equivalent, timestamps compare by instant,
+ * arrays and objects compare structurally
+ */
+export const columnValuesEqual = (a: unknown, b: unknown): boolean => {
+  const isEmpty = (v: unknown) => v === null || v === undefined || v === '';
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (typeof a === 'string' && typeof b === 'string' && ISO_TIMESTAMP.test(a) && ISO_TIMESTAMP.test(b)) {
+    return Date.parse(a) === Date.parse(b);
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a) === Number(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Convert a Supabase error object into an Error so the queue can classify it
+ */
+const toError = (error: { message: string; code?: string }): Error => {
+  const err = new Error(error.message);
+  if (error.code) {
+    (err as Error & { code?: string }).code = error.code;
+  }
+  return err;
+};
+
+// Generic handlers. Inserts carry a client-generated id so a replay that
+// already reached the server is ignored instead of duplicated.
+const insertInto = (table: string) => async ({ row }: InsertRowPayload): Promise<void> => {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from(table)
+    .upsert(row, { onConflict: 'id', ignoreDuplicates: true });
+  if (error) throw toError(error);
+};
+
+const updateIn = (table: string) => async ({ id, changes }: UpdateRowPayload): Promise<void> => {
+  const supabase = createClient();
+  const { error } = await supabase.from(table).update(changes).eq('id', id);
+  if (error) throw toError(error);
+};
+
+const deleteFrom = (table: string) => async ({ id }: DeleteRowPayload): Promise<void> => {
+  const supabase = createClient();
+  const { error } = await supabase.from(table).delete().eq('id', id);
+  if (error) throw toError(error);
+};
+
+/**
+ * Update that first checks the server row still holds the values this device
+ * saw when the edit was made. A column the server changed to something other
+ * than our new value means another device got there first.
+ */
+const updateCheckedIn = (table: string) => async (payload: UpdateRowPayload): Promise<void> => {
+  const { id, changes, original } = payload;
+  if (!original) {
+    await updateIn(table)(payload);
+    return;
+  }
+
+  const supabase = createClient();
+  const { data: serverRow, error: fetchError } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (fetchError) throw toError(fetchError);
+
+  const conflicted =
+    !serverRow ||
+    Object.keys(changes).some(
+      (column) =>
+        !columnValuesEqual(serverRow[column], original[column]) &&
+        !columnValuesEqual(serverRow[column], changes[column])
+    );
+
+  if (conflicted) {
+    throw new OfflineConflictError({
+      table,
+      recordId: id,
+      localVersion: changes,
+      original,
+      serverVersion: serverRow ?? null,
+    });
+  }
+
+  await updateIn(table)(payload);
+};
+
+/**
+ * Guest meals are one row per guest per day, so a replayed check-in is folded
+ * into any row that was created on another device in the meantime.
+ */
+const addGuestMeal = async ({ row }: InsertRowPayload): Promise<void> => {
+  const supabase = createClient();
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('meal_attendance')
+    .select('id, quantity, picked_up_quantity')
+    .eq('guest_id', row.guest_id as string)
+    .eq('served_on', row.served_on as string)
+    .eq('meal_type', 'guest')
+    .maybeSingle();
+
+  if (fetchError) throw toError(fetchError);
+
+  if (existing && existing.id !== row.id) {
+    const { error } = await supabase
+      .from('meal_attendance')
+      .update({
+        quantity: existing.quantity + Number(row.quantity || 1),
+        updated_at: new Date().toISOString(),
+        ...(row.picked_up_by_guest_id
+          ? {
+              picked_up_by_guest_id: row.picked_up_by_guest_id,
+              picked_up_quantity: (existing.picked_up_quantity ?? 0) + Number(row.picked_up_quantity || 0),
+            }
+          : {}),
+      })
+      .eq('id', existing.id);
+    if (error) throw toError(error);
+    return;
+  }
+
+  await insertInto('meal_attendance')({ row });
+};
+
+/**
+ * Proxy links are stored in both directions and the reverse row gets its id
+ * on the server, so unlinking is replayed by guest pair rather than by id.
+ * Deleting one direction removes the other via the symmetry trigger.
+ */
+const deleteGuestProxy = async ({ guestId, proxyId }: GuestProxyPairPayload): Promise<void> => {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('guest_proxies')
+    .delete()
+    .eq('guest_id', guestId)
+    .eq('proxy_id', proxyId);
+  if (error) throw toError(error);
+};
+
+/**
+ * Waiver signatures go through dismiss_waiver(), which closes any open waiver
+ * row for the guest and service or records a new dismissed one
+ */
+const dismissWaiver = async ({ guestId, serviceType, reason }: WaiverDismissalPayload): Promise<void> => {
+  const supabase = createClient();
+  const { error } = await supabase.rpc('dismiss_waiver', {
+    p_guest_id: guestId,
+    p_service_type: serviceType,
+    p_dismissed_reason: reason,
+  });
+  if (error) throw toError(error);
+};
+
+/**
+ * On-screen signatures go through sign_waiver(), which skips a document id it
+ * has already stored so a replay does not record the signature twice
+ */
+const signWaiverDocument = async ({
+  documentId,
+  guestId,
+  serviceType,
+  document,
+  signatureImage,
+}: WaiverSignaturePayload): Promise<void> => {
+  const supabase = createClient();
+  const { error } = await supabase.rpc('sign_waiver', {
+    p_guest_id: guestId,
+    p_service_type: serviceType,
+    p_document: document,
+    p_signature_image: signatureImage,
+    p_document_id: documentId,
+  });
+  if (error) throw toError(error);
+};
+
+export const OFFLINE_OPERATION_HANDLERS: OperationRegistry = {
+  addGuest: insertInto('guests'),
+  updateGuest: updateCheckedIn('guests'),
+  deleteGuest: deleteFrom('guests'),
+  addGuestProxy: insertInto('guest_proxies'),
+  deleteGuestProxy,
+
+  addMealRecord: addGuestMeal,
+  addRvMealRecord: insertInto('meal_attendance'),
+  addExtraMealRecord: insertInto('meal_attendance'),
+  addPartnerMealRecord: insertInto('meal_attendance'),
+  deleteMealRecord: deleteFrom('meal_attendance'),
+  addHolidayRecord: insertInto('holiday_visits'),
+  deleteHolidayRecord: deleteFrom('holiday_visits'),
+  addHaircutRecord: insertInto('haircut_visits'),
+  deleteHaircutRecord: deleteFrom('haircut_visits'),
+
+  addShowerRecord: insertInto('shower_reservations'),
+  updateShowerStatus: updateIn('shower_reservations'),
+  deleteShowerRecord: deleteFrom('shower_reservations'),
+  addLaundryRecord: insertInto('laundry_bookings'),
+  updateLaundryStatus: updateCheckedIn('laundry_bookings'),
+  deleteLaundryRecord: deleteFrom('laundry_bookings'),
+  addBicycleRecord: insertInto('bicycle_repairs'),
+  updateBicycleRecord: updateCheckedIn('bicycle_repairs'),
+  deleteBicycleRecord: deleteFrom('bicycle_repairs'),
+  addWaitlistPromotion: insertInto('waitlist_promotions'),
+  updateWaitlistPromotion: updateIn('waitlist_promotions'),
+
+  addDonation: insertInto('donations'),
+  updateDonation: updateIn('donations'),
+  deleteDonation: deleteFrom('donations'),
+  addLaPlazaDonation: insertInto('la_plaza_donations'),
+  updateLaPlazaDonation: updateIn('la_plaza_donations'),
+  deleteLaPlazaDonation: deleteFrom('la_plaza_donations'),
+  addItem: insertInto('items_distributed'),
+  deleteItem: deleteFrom('items_distributed'),
+
+  addInventoryTransaction: insertInto('inventory_transactions'),
+
+  addEligibilityOverride: insertInto('eligibility_overrides'),
+
+  addTemperatureReading: insertInto('food_temperature_logs'),
+
+  addFoodDisposition: insertInto('food_dispositions'),
+  deleteFoodDisposition: deleteFrom('food_dispositions'),
+
+  dismissWaiver,
+  signWaiverDocument,
+};
+
+/**
+ * Check whether a stored operation type is known to the registry
+ */
+export const isOfflineOperationType = (type: string): type is OfflineOperationType => {
+  return Object.prototype.hasOwnProperty.call(OFFLINE_OPERATION_HANDLERS, type);
+};
+
+/**
+ * Look up the replay handler for a stored operation type
+ */
+export const getOfflineOperationHandler = (
+  type: string
+): ((payload: unknown) => Promise<void>) | undefined => {
+  if (!isOfflineOperationType(type)) return undefined;
+  return OFFLINE_OPERATION_HANDLERS[type] as (payload: unknown) => Promise<void>;
+};
+
+/**
+ * Whether the browser currently reports no network connection
+ */
+export const isBrowserOffline = (): boolean => {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+};
+
+/**
+ * Generate a row id on the client so records created offline keep the same
+ * id locally and in Supabase once replayed
+ */
+export const createClientId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // RFC 4122 v4 fallback for older browsers
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+};
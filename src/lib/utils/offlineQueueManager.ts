@@ -13,6 +13,12 @@ import {
   clearOldCompletedOperations,
   type QueueItem,
 } from './indexedDB';
+import {
+  getOfflineOperationHandler,
+  OfflineConflictError,
+  type OfflineOperationType,
+  type OfflineOperationPayloads,
+} from './offlineOperations';
 
 const RETRY_DELAYS = [1000, 2000, 5000, 10000, 30000]; // Exponential backoff in ms
 const BATCH_SIZE = 10; // Process 10 operations at a time
@@ -40,6 +46,15 @@ type ProgressCallback = (progress: { completed: number; total: number }) => void
  */
 const classifyError = (error: Error): ErrorInfo => {
   const message = error.message.toLowerCase();
+
+  if (error instanceof OfflineConflictError) {
+    return {
+      type: 'conflict',
+      userMessage: 'Changed on another device - review needed',
+      action: 'resolve',
+      severity: 'medium',
+    };
+  }
   
   if (message.includes('network') || message.includes('fetch') || message.includes('offline')) {
     return {
@@ -104,18 +119,18 @@ const getRetryStrategy = (errorType: ErrorInfo['type']): { shouldRetry: boolean;
 };
 
 /**
- * Queue an operation for later execution
+ * Queue an operation for later execution.
+ * Only the operation type and its serializable payload are stored; the
+ * Supabase call is looked up in the operation registry at replay time.
  */
-export const queueOperation = async (
-  operationType: string,
-  payload: unknown,
-  executeFunc: ExecuteFunction
+export const queueOperation = async <T extends OfflineOperationType>(
+  operationType: T,
+  payload: OfflineOperationPayloads[T]
 ): Promise<{ success: boolean; queued: boolean; queueId: number; message: string }> => {
   try {
     const operation = {
       operationType,
       payload,
-      executeFuncName: executeFunc.name || 'anonymous',
     };
 
     const id = await addToQueue(operation);
@@ -208,6 +223,16 @@ const processOperation = async (
         severity: errorInfo.severity,
         retriable: shouldRetry,
         errorDetails: err.message,
+        ...(err instanceof OfflineConflictError && {
+          conflict: {
+            table: err.table,
+            recordId: err.recordId,
+            localVersion: err.localVersion,
+            original: err.original,
+            serverVersion: err.serverVersion,
+            detectedAt: new Date().toISOString(),
+          },
+        }),
       });
 
       return {
@@ -226,7 +251,6 @@ const processOperation = async (
  * Sync all pending operations
  */
 export const syncPendingOperations = async (
-  executeFunctions: Record<string, ExecuteFunction>,
   onProgress?: ProgressCallback
 ): Promise<SyncResult> => {
   console.log('[OfflineQueue] Starting sync of pending operations...');
@@ -258,18 +282,19 @@ export const syncPendingOperations = async (
     for (let i = 0; i < pendingOps.length; i += BATCH_SIZE) {
       const batch = pendingOps.slice(i, i + BATCH_SIZE);
 
-      const results = await Promise.all(
-        batch.map(async (operation) => {
-          const executeFunc = executeFunctions[operation.operationType];
-          
-          if (!executeFunc) {
-            console.warn(`[OfflineQueue] No execute function for ${operation.operationType}`);
-            return { success: false, error: 'No execute function' };
-          }
-
-          return processOperation(operation, executeFunc);
-        })
-      );
+      // Replay in queue order so an update never runs ahead of the insert it targets
+      const results: Awaited<ReturnType<typeof processOperation>>[] = [];
+      for (const operation of batch) {
+        const executeFunc = getOfflineOperationHandler(operation.operationType);
+
+        if (!executeFunc) {
+          console.warn(`[OfflineQueue] No registered handler for ${operation.operationType}`);
+          results.push({ success: false, error: 'No registered handler' });
+          continue;
+        }
+
+        results.push(await processOperation(operation, executeFunc));
+      }
 
       results.forEach((result, index) => {
         if (result.success) {
@@ -296,7 +321,7 @@ export const syncPendingOperations = async (
     for (const { operation, delay } of retryQueue) {
       await new Promise(resolve => setTimeout(resolve, delay));
       
-      const executeFunc = executeFunctions[operation.operationType];
+      const executeFunc = getOfflineOperationHandler(operation.operationType);
       if (executeFunc) {
         const result = await processOperation(operation, executeFunc);
         if (result.success) {
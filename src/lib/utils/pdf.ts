@@ -0,0 +1,138 @@
+/**
+ * PDF utilities
+ * A small writer for text-only documents such as letters and receipts, using
+ * the fonts every PDF reader has built in. Lines are wrapped to the page
+ * width and flow onto new Letter-size pages as needed.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfLine {
+  text: string;
+  font?: PdfFont;
+  // Point size; 11 by default
+  size?: number;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string; charWidth: number }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica', charWidth: 0.5 },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold', charWidth: 0.55 },
+  mono: { name: 'F3', baseFont: 'Courier', charWidth: 0.6 },
+};
+
+/**
+ * Break text into lines that fit the page at the given font and size,
+ * splitting on spaces where possible
+ */
+export function wrapPdfText(text: string, font: PdfFont = 'regular', size = 11): string[] {
+  const maxChars = Math.max(1, Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * FONT_RESOURCES[font].charWidth)));
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/ +/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    let rest = word;
+    while (rest.length > maxChars) {
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+    current = rest;
+  }
+  lines.push(current);
+  return lines;
+}
+
+// Built-in fonts use WinAnsi, so anything outside Latin-1 prints as '?'
+const encodeText = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+/**
+ * Lay the lines out on pages and return the finished PDF file
+ */
+export function createTextPdf(lines: PdfLine[], title = ''): Uint8Array {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const font = line.font ?? 'regular';
+    const size = line.size ?? 11;
+    const leading = Math.round(size * 1.4);
+    y -= line.spaceBefore ?? 0;
+    for (const text of wrapPdfText(line.text, font, size)) {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      pages[pages.length - 1].push(
+        `BT /${FONT_RESOURCES[font].name} ${size} Tf ${MARGIN} ${y} Td (${encodeText(text)}) Tj ET`
+      );
+    }
+  }
+
+  // Objects 1-2 are the catalog and page tree, 3-5 the fonts, 6 the info
+  // dictionary, then a page and its content stream for each page
+  const fonts = Object.values(FONT_RESOURCES);
+  const pageIds = pages.map((_, index) => 7 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...fonts.map((font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+    `<< /Title (${encodeText(title)}) /Producer (Hope's Corner) >>`,
+  ];
+  const fontRefs = fonts.map((font, index) => `/${font.name} ${3 + index} 0 R`).join(' ');
+  pages.forEach((commands, index) => {
+    const stream = commands.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontRefs} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0) & 0xff);
+}
+
+/**
+ * Downloads a PDF file built with createTextPdf
+ */
+export function downloadPdf(bytes: Uint8Array, filename: string): void {
+  const blob = new Blob([bytes as BlobPart], { type: 'application/pdf' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,60 @@
+/**
+ * Realtime Table Subscriptions
+ * Thin wrapper over Supabase postgres_changes channels so each store can keep
+ * its records in step with edits made on other devices.
+ */
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RealtimeRowChange<T extends string = string> {
+  table: T;
+  eventType: RealtimeEventType;
+  row: Record<string, unknown> | null;
+  oldRow: Record<string, unknown> | null;
+}
+
+/**
+ * Subscribe to inserts, updates and deletes on the given tables.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToTableChanges = <T extends string>(
+  channelName: string,
+  tables: readonly T[],
+  onChange: (change: RealtimeRowChange<T>) => void
+): (() => void) => {
+  const supabase = createClient();
+  let channel = supabase.channel(channelName);
+
+  tables.forEach((table) => {
+    channel = channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table },
+      (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+        const row = Object.keys(payload.new || {}).length > 0 ? (payload.new as Record<string, unknown>) : null;
+        const oldRow = Object.keys(payload.old || {}).length > 0 ? (payload.old as Record<string, unknown>) : null;
+        onChange({ table: payload.table as T, eventType: payload.eventType, row, oldRow });
+      }
+    );
+  });
+
+  channel.subscribe((status: string) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.warn(`[Realtime] ${channelName} subscription ${status.toLowerCase()}`);
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Id of the row a change refers to (deletes only carry the old row)
+ */
+export const getChangedRowId = (change: RealtimeRowChange): string | null => {
+  const id = change.row?.id ?? change.oldRow?.id;
+  return typeof id === 'string' ? id : null;
+};
@@ -0,0 +1,103 @@
+/**
+ * Shower slot utilities
+ * Builds the day's shower grid from the slot settings and works out how full
+ * each slot is, so bookings can be checked against real stall capacity.
+ */
+
+import type { ShowerRecord, ShowerSlotSettings } from '@/lib/types';
+
+export interface ShowerSlotFill {
+  time: string;
+  endsAt: string;
+  booked: number;
+  capacity: number;
+  available: number;
+  isFull: boolean;
+}
+
+type SlotRecord = Pick<ShowerRecord, 'time' | 'date' | 'status'>;
+
+// Waitlisted, cancelled and no-show records don't hold a stall
+const SLOT_HOLDING_STATUSES = new Set(['booked', 'done']);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number): string => {
+  const hours = String(Math.floor(total / 60)).padStart(2, '0');
+  const minutes = String(total % 60).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+/**
+ * Whether showers are closed on a date (YYYY-MM-DD)
+ */
+export const isShowerBlackoutDay = (settings: ShowerSlotSettings, dateStr: string): boolean => {
+  if (settings.blackoutDates.includes(dateStr)) return true;
+  const weekday = new Date(`${dateStr}T12:00:00`).getDay();
+  return settings.blackoutWeekdays.includes(weekday);
+};
+
+/**
+ * Slot start times (HH:MM) for a date; empty on blackout days
+ */
+export const generateShowerSlots = (settings: ShowerSlotSettings, dateStr: string): string[] => {
+  if (settings.stallCount < 1 || settings.slotMinutes < 1) return [];
+  if (isShowerBlackoutDay(settings, dateStr)) return [];
+
+  const slots: string[] = [];
+  const end = toMinutes(settings.endTime);
+  for (let start = toMinutes(settings.startTime); start + settings.slotMinutes <= end; start += settings.slotMinutes) {
+    slots.push(fromMinutes(start));
+  }
+  return slots;
+};
+
+/**
+ * The day's grid with how many stalls are taken in each slot
+ */
+export const getShowerSlotFill = (
+  settings: ShowerSlotSettings,
+  dateStr: string,
+  records: SlotRecord[]
+): ShowerSlotFill[] => {
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    if (record.date !== dateStr || !record.time || !SLOT_HOLDING_STATUSES.has(record.status)) return;
+    counts.set(record.time, (counts.get(record.time) || 0) + 1);
+  });
+
+  return generateShowerSlots(settings, dateStr).map((time) => {
+    const booked = counts.get(time) || 0;
+    return {
+      time,
+      endsAt: fromMinutes(toMinutes(time) + settings.slotMinutes),
+      booked,
+      capacity: settings.stallCount,
+      available: Math.max(settings.stallCount - booked, 0),
+      isFull: booked >= settings.stallCount,
+    };
+  });
+};
+
+/**
+ * First slot with a free stall that hasn't already finished by `now` (HH:MM)
+ */
+export const findNextOpenShowerSlot = (
+  fill: ShowerSlotFill[],
+  now?: string
+): ShowerSlotFill | null =>
+  fill.find((slot) => !slot.isFull && (!now || slot.endsAt > now)) || null;
+
+/**
+ * Display label for a slot time, e.g. "09:30" -> "9:30 AM"
+ */
+export const formatShowerSlotLabel = (time: string): string => {
+  if (!time) return '';
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+};
@@ -0,0 +1,115 @@
+/**
+ * Taxonomy utilities
+ * Meal types, donation types and La Plaza categories are lookup rows admins
+ * manage. Forms offer active values in sort order; anything displayed looks
+ * its label up among all values, so retired ones still read correctly.
+ */
+
+import type { MealType, TaxonomyKind, TaxonomyValue } from '@/lib/types';
+
+export const TAXONOMY_LABELS: Record<TaxonomyKind, string> = {
+  meal_type: 'Meal types',
+  donation_type: 'Donation types',
+  la_plaza_category: 'La Plaza categories',
+};
+
+export const TAXONOMY_KINDS = Object.keys(TAXONOMY_LABELS) as TaxonomyKind[];
+
+// Meal types entered per guest rather than as a partner program count
+export const GUEST_MEAL_TYPES: MealType[] = ['guest', 'rv', 'extra'];
+
+const seed = (taxonomy: TaxonomyKind, entries: Array<[string, string]>): TaxonomyValue[] =>
+  entries.map(([value, label], index) => ({ taxonomy, value, label, sortOrder: (index + 1) * 10, active: true }));
+
+// Matches the rows seeded by migration 031; used until the table has loaded
+export const DEFAULT_TAXONOMY_VALUES: TaxonomyValue[] = [
+  ...seed('meal_type', [
+    ['guest', 'Guest meals'],
+    ['rv', 'RV meals'],
+    ['extra', 'Extra meals'],
+    ['shelter', 'Shelter meals'],
+    ['united_effort', 'United Effort'],
+    ['day_worker', 'Day Worker Center'],
+    ['lunch_bag', 'Lunch bags'],
+  ]),
+  ...seed(
+    'donation_type',
+    ['Protein', 'Carbs', 'Vegetables', 'Fruit', 'Veggie Protein', 'Deli Foods', 'Pastries', 'School lunch'].map(
+      (value): [string, string] => [value, value]
+    )
+  ),
+  ...seed(
+    'la_plaza_category',
+    ['Bakery', 'Beverages', 'Dairy', 'Meat', 'Mix', 'Nonfood', 'Prepared/Perishable', 'Produce'].map(
+      (value): [string, string] => [value, value]
+    )
+  ),
+];
+
+const byOrder = (a: TaxonomyValue, b: TaxonomyValue) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label);
+
+/**
+ * Every value of a taxonomy in sort order, retired ones included
+ */
+export function taxonomyValuesFor(values: TaxonomyValue[], taxonomy: TaxonomyKind): TaxonomyValue[] {
+  return values.filter((entry) => entry.taxonomy === taxonomy).sort(byOrder);
+}
+
+/**
+ * Values a form should offer: the active ones, plus the current value when
+ * editing a record that uses a retired one
+ */
+export function taxonomyOptions(
+  values: TaxonomyValue[],
+  taxonomy: TaxonomyKind,
+  currentValue?: string | null
+): TaxonomyValue[] {
+  return taxonomyValuesFor(values, taxonomy).filter(
+    (entry) => entry.active || (currentValue !== undefined && entry.value === currentValue)
+  );
+}
+
+// 'united_effort' -> 'United effort', for values the lookup doesn't know
+const humanizeValue = (value: string) => {
+  const words = value.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export function taxonomyLabel(values: TaxonomyValue[], taxonomy: TaxonomyKind, value: string): string {
+  const entry = values.find((candidate) => candidate.taxonomy === taxonomy && candidate.value === value);
+  return entry ? entry.label : humanizeValue(value);
+}
+
+/**
+ * The stored value for a new entry. Meal types are snake_case keys; donation
+ * types and La Plaza categories have always stored their label.
+ */
+export function taxonomyValueFromLabel(taxonomy: TaxonomyKind, label: string): string {
+  const trimmed = label.trim().replace(/\s+/g, ' ');
+  if (taxonomy !== 'meal_type') return trimmed;
+  return trimmed
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+// Database row type
+export interface TaxonomyValueRow {
+  taxonomy: TaxonomyKind;
+  value: string;
+  label: string;
+  sort_order: number;
+  active: boolean;
+}
+
+export const TAXONOMY_VALUE_COLUMNS = 'taxonomy,value,label,sort_order,active';
+
+export function mapTaxonomyValueRow(row: TaxonomyValueRow): TaxonomyValue {
+  return {
+    taxonomy: row.taxonomy,
+    value: row.value,
+    label: row.label,
+    sortOrder: row.sort_order,
+    active: row.active,
+  };
+}
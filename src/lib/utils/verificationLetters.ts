@@ -0,0 +1,132 @@
+/**
+ * Verification letter utilities
+ * Letters confirming that a guest uses our services, for housing, benefits
+ * and DMV applications. The filled-in letter is stored with its serial number
+ * so a copy can be checked against the log later.
+ */
+
+import type {
+  Guest,
+  GuestTimelineEvent,
+  TimelineEventType,
+  VerificationLetter,
+  VerificationLetterContent,
+} from '@/lib/types';
+import { formatDisplayDate } from './date';
+import { countTimelineEvents } from './guestTimeline';
+
+export const VERIFICATION_LETTER_TEMPLATE = {
+  title: 'Service Verification Letter',
+  body: [
+    'To whom it may concern,',
+    'This letter confirms that {{legalName}} is a guest of {{siteName}}.',
+    'Our records show that {{legalName}} first visited on {{firstVisit}} and has visited on {{visitDays}} in total, most recently on {{lastVisit}}. In that time they have received {{serviceSummary}}.',
+    'This letter was issued on {{issuedOn}}. To confirm it is genuine, contact {{siteName}} and quote the serial number above.',
+    'Sincerely,',
+    '{{siteName}}',
+  ],
+};
+
+// Singular and plural names for the services listed in a letter, in order
+const LETTER_SERVICE_NOUNS: Partial<Record<TimelineEventType, [string, string]>> = {
+  meal: ['meal', 'meals'],
+  rv_meal: ['RV meal', 'RV meals'],
+  extra_meal: ['extra meal', 'extra meals'],
+  shower: ['shower', 'showers'],
+  laundry: ['laundry load', 'laundry loads'],
+  bicycle: ['bicycle repair', 'bicycle repairs'],
+  haircut: ['haircut', 'haircuts'],
+  holiday: ['holiday visit', 'holiday visits'],
+  item: ['distributed item', 'distributed items'],
+};
+
+const plural = (count: number, [one, many]: [string, string]) => `${count} ${count === 1 ? one : many}`;
+
+const listJoin = (parts: string[]): string =>
+  parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+
+// Plain dates are shown as they are rather than shifted into the browser's timezone
+const letterDate = (date: string) =>
+  formatDisplayDate(`${date}T12:00:00`, { month: 'long', day: 'numeric', year: 'numeric' });
+
+/**
+ * Replace each {{name}} in a template line; unknown names are left as they are
+ */
+export const fillLetterTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+
+/**
+ * A guest's letter filled in from their timeline, ready to issue
+ */
+export function buildVerificationLetter({
+  siteName,
+  guest,
+  events,
+  issuedOn,
+}: {
+  siteName: string;
+  guest: Guest;
+  events: GuestTimelineEvent[];
+  issuedOn: string;
+}): VerificationLetterContent {
+  const received = events.filter((event) => event.counted);
+  const dates = Array.from(new Set(received.map((event) => event.date))).sort();
+  const { counts } = countTimelineEvents(received);
+  const legalName = `${guest.firstName} ${guest.lastName}`.trim();
+  const firstVisit = dates[0] ?? null;
+  const lastVisit = dates[dates.length - 1] ?? null;
+
+  const serviceSummary = listJoin(
+    (Object.keys(LETTER_SERVICE_NOUNS) as TimelineEventType[])
+      .filter((type) => counts[type])
+      .map((type) => plural(counts[type] as number, LETTER_SERVICE_NOUNS[type] as [string, string]))
+  );
+
+  const values: Record<string, string> = {
+    siteName,
+    legalName,
+    firstVisit: firstVisit ? letterDate(firstVisit) : '',
+    lastVisit: lastVisit ? letterDate(lastVisit) : '',
+    visitDays: plural(dates.length, ['day', 'days']),
+    serviceSummary,
+    issuedOn: letterDate(issuedOn),
+  };
+
+  return {
+    siteName,
+    legalName,
+    firstVisit,
+    lastVisit,
+    visitDays: dates.length,
+    counts,
+    issuedOn,
+    title: VERIFICATION_LETTER_TEMPLATE.title,
+    body: VERIFICATION_LETTER_TEMPLATE.body.map((line) => fillLetterTemplate(line, values)),
+  };
+}
+
+// Database row type
+export interface VerificationLetterRow {
+  id: string;
+  serial_number: string;
+  guest_id: string | null;
+  content: VerificationLetterContent;
+  issued_by: string | null;
+  issued_by_email: string | null;
+  issued_at: string;
+}
+
+export const VERIFICATION_LETTER_COLUMNS =
+  'id,serial_number,guest_id,content,issued_by,issued_by_email,issued_at';
+
+export function mapVerificationLetterRow(row: VerificationLetterRow): VerificationLetter {
+  return {
+    id: row.id,
+    serialNumber: row.serial_number,
+    guestId: row.guest_id,
+    content: row.content,
+    issuedBy: row.issued_by,
+    issuedByEmail: row.issued_by_email,
+    issuedAt: row.issued_at,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Waitlist utilities
+ * Decide who moves up, first come first served, when a booked shower slot or
+ * an onsite laundry machine frees up.
+ */
+
+import type { LaundryRecord, LaundryStatus, ShowerRecord, ShowerSlotSettings, ShowerStatus } from '@/lib/types';
+import { getShowerSlotFill, findNextOpenShowerSlot } from './showerSlots';
+
+export interface ShowerPromotionCandidate {
+  record: ShowerRecord;
+  slotTime: string;
+}
+
+// Onsite laundry loads that are occupying a machine
+const LAUNDRY_MACHINE_STATUSES = new Set<LaundryStatus>(['washer', 'dryer']);
+
+const byArrival = (a: { createdAt: string; id: string }, b: { createdAt: string; id: string }) =>
+  a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+
+/**
+ * Whether a shower status change gives the guest's slot back
+ */
+export const releasesShowerSlot = (previous: ShowerStatus, next: ShowerStatus | null): boolean =>
+  previous === 'booked' && (next === null || next === 'cancelled' || next === 'no_show');
+
+/**
+ * Whether a laundry status change (or delete, when next is null) frees an onsite machine
+ */
+export const releasesLaundryMachine = (
+  record: Pick<LaundryRecord, 'laundryType' | 'status'>,
+  next: LaundryStatus | null
+): boolean =>
+  record.laundryType === 'onsite' &&
+  LAUNDRY_MACHINE_STATUSES.has(record.status) &&
+  (next === null || (!LAUNDRY_MACHINE_STATUSES.has(next) && next !== 'waiting'));
+
+/**
+ * Earliest waitlisted shower on the freed record's day and the slot to give it:
+ * the freed slot when it is open again, otherwise the next open one.
+ * `records` should already reflect the freed record's new status.
+ */
+export const findShowerPromotion = (
+  records: ShowerRecord[],
+  freed: Pick<ShowerRecord, 'id' | 'date' | 'time'>,
+  settings: ShowerSlotSettings,
+  now?: string
+): ShowerPromotionCandidate | null => {
+  const next = records
+    .filter((r) => r.date === freed.date && r.status === 'waitlisted' && r.id !== freed.id)
+    .sort(byArrival)[0];
+  if (!next) return null;
+
+  const fill = getShowerSlotFill(settings, freed.date, records);
+  const freedSlot = freed.time ? fill.find((slot) => slot.time === freed.time && !slot.isFull) : undefined;
+  const slot = freedSlot || findNextOpenShowerSlot(fill, now);
+  return slot ? { record: next, slotTime: slot.time } : null;
+};
+
+/**
+ * Earliest onsite load still waiting on the freed record's day, provided a
+ * machine is actually free. `records` should already reflect the change.
+ */
+export const findLaundryPromotion = (
+  records: LaundryRecord[],
+  freed: Pick<LaundryRecord, 'id' | 'date'>,
+  machineCount: number
+): LaundryRecord | null => {
+  const sameDayOnsite = records.filter((r) => r.date === freed.date && r.laundryType === 'onsite');
+  const inMachines = sameDayOnsite.filter((r) => LAUNDRY_MACHINE_STATUSES.has(r.status)).length;
+  if (inMachines >= machineCount) return null;
+
+  return sameDayOnsite.filter((r) => r.status === 'waiting' && r.id !== freed.id).sort(byArrival)[0] || null;
+};
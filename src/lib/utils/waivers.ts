@@ -0,0 +1,321 @@
+/**
+ * Waiver utilities
+ * Each waiver kind has numbered versions managed by admins; the newest
+ * published version is the one guests need. Shower and laundry share the
+ * services waiver and the bicycle program has its own. Everything that asks
+ * "is this guest covered?" goes through here.
+ */
+
+import type {
+  ServiceWaiver,
+  WaiverDocument,
+  WaiverLanguage,
+  WaiverService,
+  WaiverStatus,
+  WaiverTemplate,
+} from '@/lib/types';
+import { pacificDateStringFrom, todayPacificDateString } from './date';
+
+export const WAIVER_LANGUAGES: { id: WaiverLanguage; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'es', label: 'Español' },
+];
+
+export const WAIVER_SERVICE_LABELS: Record<WaiverService, string> = {
+  shower: 'Shower',
+  laundry: 'Laundry',
+  bicycle: 'Bicycle',
+};
+
+export const WAIVER_VALIDITY_LABELS: Record<WaiverTemplate['validityRule'], string> = {
+  calendar_year: 'Until the end of the calendar year',
+  rolling_days: 'For a number of days after signing',
+  never: 'Never expires',
+};
+
+/**
+ * Version 1 of each waiver, as seeded by the waiver_templates migration.
+ * Used until published templates load from Supabase, and when it is disabled.
+ *
+ * PLACEHOLDER WAIVER TEXT. The English and Spanish wording was drafted to
+ * build the signing screen against; it was not supplied by Hope's Corner and
+ * has not had legal review. Publish a version with the reviewed wording from
+ * Admin before guests sign on screen.
+ */
+export const DEFAULT_WAIVER_TEMPLATES: WaiverTemplate[] = [
+  {
+    id: 'default-services-1',
+    kind: 'services',
+    version: 1,
+    title: 'Services Waiver',
+    description: 'Required once per year and covers both shower and laundry services.',
+    services: ['shower', 'laundry'],
+    validityRule: 'calendar_year',
+    validityDays: null,
+    signingUrl: 'https://hopes-corner-waiver-submission-next.vercel.app/',
+    publishedAt: '2024-01-01T00:00:00.000Z',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    text: {
+      en: {
+        title: "Hope's Corner Shower and Laundry Waiver",
+        body: [
+          "I am choosing to use the shower and/or laundry services offered by Hope's Corner.",
+          'I will follow staff and volunteer instructions, use the facilities with care and report any unsafe conditions I notice.',
+          "I understand Hope's Corner is not responsible for lost, stolen or damaged personal belongings, including laundry left past pick-up.",
+          "I accept the risks of using these services, including slips and falls, and release Hope's Corner, its staff and volunteers from claims arising from my use of them, except in cases of gross negligence.",
+          'This waiver covers both showers and laundry and is valid until the end of the calendar year.',
+        ],
+      },
+      es: {
+        title: "Exención de responsabilidad de duchas y lavandería de Hope's Corner",
+        body: [
+          "Elijo usar los servicios de ducha y/o lavandería que ofrece Hope's Corner.",
+          'Seguiré las indicaciones del personal y de los voluntarios, usaré las instalaciones con cuidado e informaré cualquier condición insegura que note.',
+          "Entiendo que Hope's Corner no es responsable de pertenencias personales perdidas, robadas o dañadas, incluida la ropa que no se recoja a tiempo.",
+          "Acepto los riesgos de usar estos servicios, incluidos resbalones y caídas, y libero a Hope's Corner, a su personal y a sus voluntarios de reclamos derivados de su uso, salvo en casos de negligencia grave.",
+          'Esta exención cubre duchas y lavandería y es válida hasta el final del año calendario.',
+        ],
+      },
+    },
+  },
+  {
+    id: 'default-bicycle-1',
+    kind: 'bicycle',
+    version: 1,
+    title: 'Bicycle Program Waiver',
+    description: 'Confirm bicycle waiver is signed before logging repair work.',
+    services: ['bicycle'],
+    validityRule: 'calendar_year',
+    validityDays: null,
+    signingUrl: 'https://hopes-corner-bicycle-waiver.vercel.app/',
+    publishedAt: '2024-01-01T00:00:00.000Z',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    text: {
+      en: {
+        title: "Hope's Corner Bicycle Program Waiver",
+        body: [
+          "I am asking Hope's Corner volunteers to inspect and repair my bicycle, or to provide me with a bicycle or parts.",
+          'Repairs are done by volunteers on a best-effort basis. I will check my bicycle, including brakes and tires, before riding it.',
+          "I accept the risks of riding a bicycle and release Hope's Corner, its staff and volunteers from claims arising from repairs, parts or bicycles provided, except in cases of gross negligence.",
+          'This waiver covers the bicycle program only and is valid until the end of the calendar year.',
+        ],
+      },
+      es: {
+        title: "Exención de responsabilidad del programa de bicicletas de Hope's Corner",
+        body: [
+          "Pido a los voluntarios de Hope's Corner que revisen y reparen mi bicicleta, o que me proporcionen una bicicleta o piezas.",
+          'Las reparaciones las hacen voluntarios lo mejor que pueden. Revisaré mi bicicleta, incluidos los frenos y las llantas, antes de usarla.',
+          "Acepto los riesgos de andar en bicicleta y libero a Hope's Corner, a su personal y a sus voluntarios de reclamos derivados de reparaciones, piezas o bicicletas proporcionadas, salvo en casos de negligencia grave.",
+          'Esta exención cubre solo el programa de bicicletas y es válida hasta el final del año calendario.',
+        ],
+      },
+    },
+  },
+];
+
+const addDays = (dateStr: string, days: number): string => {
+  const date = new Date(`${dateStr}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * The newest published version of each waiver kind
+ */
+export const currentWaiverTemplates = (templates: WaiverTemplate[]): WaiverTemplate[] => {
+  const latest = new Map<string, WaiverTemplate>();
+  for (const template of templates) {
+    if (!template.publishedAt) continue;
+    const existing = latest.get(template.kind);
+    if (!existing || template.version > existing.version) latest.set(template.kind, template);
+  }
+  return [...latest.values()];
+};
+
+/**
+ * The waiver version a guest needs to use a service, or null if the service needs none
+ */
+export const currentTemplateFor = (templates: WaiverTemplate[], service: WaiverService): WaiverTemplate | null =>
+  currentWaiverTemplates(templates).find((template) => template.services.includes(service)) ?? null;
+
+/**
+ * Every service covered by the same waiver as the given one, itself included
+ */
+export const servicesSharingWaiver = (templates: WaiverTemplate[], service: WaiverService): WaiverService[] =>
+  currentTemplateFor(templates, service)?.services ?? [service];
+
+/**
+ * The services a waiver covers, e.g. "shower & laundry"
+ */
+export const describeWaiverCoverage = (template: Pick<WaiverTemplate, 'services'>): string =>
+  template.services.map((service) => WAIVER_SERVICE_LABELS[service].toLowerCase()).join(' & ');
+
+/**
+ * The first Pacific date a signature no longer counts, or null if it never
+ * expires. Calendar-year signatures run through Dec 31 of the year signed.
+ */
+export const waiverExpiresOn = (
+  template: Pick<WaiverTemplate, 'validityRule' | 'validityDays'>,
+  signedAt: string
+): string | null => {
+  const signedOn = pacificDateStringFrom(signedAt);
+  switch (template.validityRule) {
+    case 'calendar_year':
+      return `${Number(signedOn.slice(0, 4)) + 1}-01-01`;
+    case 'rolling_days':
+      return addDays(signedOn, template.validityDays ?? 0);
+    default:
+      return null;
+  }
+};
+
+/**
+ * The earliest signing date that could still be valid today under any
+ * published version, or null when some version never expires
+ */
+export const earliestValidSigningDate = (
+  templates: WaiverTemplate[],
+  todayStr: string = todayPacificDateString()
+): string | null => {
+  let earliest = `${todayStr.slice(0, 4)}-01-01`;
+  for (const template of templates) {
+    if (!template.publishedAt) continue;
+    if (template.validityRule === 'never') return null;
+    if (template.validityRule === 'rolling_days') {
+      const start = addDays(todayStr, -(template.validityDays ?? 0));
+      if (start < earliest) earliest = start;
+    }
+  }
+  return earliest;
+};
+
+export interface WaiverStatusDetails {
+  status: WaiverStatus;
+  // The version the guest needs
+  template: WaiverTemplate | null;
+  signature: ServiceWaiver | null;
+  signedVersion: number | null;
+  expiresOn: string | null;
+}
+
+/**
+ * Where a guest stands with the current version of the waiver covering a
+ * service. A signature recorded against any service the waiver covers counts
+ * for all of them. Mirrors guest_waiver_status() in the database.
+ */
+export const getWaiverStatus = (
+  templates: WaiverTemplate[],
+  waivers: ServiceWaiver[],
+  guestId: string,
+  service: WaiverService,
+  todayStr: string = todayPacificDateString()
+): WaiverStatusDetails => {
+  const template = currentTemplateFor(templates, service);
+  if (!template) {
+    return { status: 'not_required', template: null, signature: null, signedVersion: null, expiresOn: null };
+  }
+
+  const covered = new Set(template.services);
+  const signature =
+    waivers
+      .filter((w) => w.guestId === guestId && covered.has(w.serviceType) && w.dismissedAt)
+      .sort(
+        (a, b) =>
+          Number(b.templateId === template.id) - Number(a.templateId === template.id) ||
+          (b.dismissedAt || '').localeCompare(a.dismissedAt || '')
+      )[0] ?? null;
+
+  if (!signature) {
+    return { status: 'missing', template, signature: null, signedVersion: null, expiresOn: null };
+  }
+
+  // Signatures from before versions were tracked count as version 1
+  const signedTemplate =
+    templates.find((t) => t.id === signature.templateId) ??
+    templates.filter((t) => t.kind === template.kind).sort((a, b) => a.version - b.version)[0] ??
+    template;
+  const expiresOn = waiverExpiresOn(signedTemplate, signature.dismissedAt!);
+  const status: WaiverStatus =
+    expiresOn && todayStr >= expiresOn ? 'expired' : signedTemplate.id !== template.id ? 'outdated' : 'valid';
+
+  return { status, template, signature, signedVersion: signedTemplate.version, expiresOn };
+};
+
+/**
+ * The signature covering a guest for a service today, if any: one of the
+ * current version that has not expired
+ */
+export const findSignedWaiver = (
+  templates: WaiverTemplate[],
+  waivers: ServiceWaiver[],
+  guestId: string,
+  service: WaiverService,
+  todayStr: string = todayPacificDateString()
+): ServiceWaiver | null => {
+  const details = getWaiverStatus(templates, waivers, guestId, service, todayStr);
+  return details.status === 'valid' ? details.signature : null;
+};
+
+/**
+ * The signed copy of a waiver, holding the exact text and version the guest was shown
+ */
+export const buildWaiverDocument = (details: {
+  template: WaiverTemplate;
+  language: WaiverLanguage;
+  guestId: string;
+  guestName: string;
+  signerName: string;
+  signedAt?: string;
+}): WaiverDocument => {
+  const { template } = details;
+  const text = template.text[details.language];
+  return {
+    waiverKind: template.kind,
+    templateId: template.id,
+    templateVersion: template.version,
+    services: [...template.services],
+    language: details.language,
+    title: text.title,
+    body: [...text.body],
+    guestId: details.guestId,
+    guestName: details.guestName,
+    signerName: details.signerName.trim() || details.guestName,
+    signedAt: details.signedAt ?? new Date().toISOString(),
+  };
+};
+
+// Database row type for waiver_templates
+export interface WaiverTemplateRow {
+  id: string;
+  kind: string;
+  version: number;
+  title: string;
+  description: string | null;
+  content: WaiverTemplate['text'];
+  services: WaiverService[];
+  validity_rule: WaiverTemplate['validityRule'];
+  validity_days: number | null;
+  signing_url: string | null;
+  published_at: string | null;
+  created_at: string;
+}
+
+export const WAIVER_TEMPLATE_COLUMNS =
+  'id, kind, version, title, description, content, services, validity_rule, validity_days, signing_url, published_at, created_at';
+
+export function mapWaiverTemplateRow(row: WaiverTemplateRow): WaiverTemplate {
+  return {
+    id: row.id,
+    kind: row.kind,
+    version: row.version,
+    title: row.title,
+    description: row.description || '',
+    text: row.content,
+    services: row.services,
+    validityRule: row.validity_rule,
+    validityDays: row.validity_days,
+    signingUrl: row.signing_url,
+    publishedAt: row.published_at,
+    createdAt: row.created_at,
+  };
+}
@@ -1,9 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { updateSession } from '@/lib/supabase/middleware';
 import { hasAccess, getDefaultPath, type UserRole } from '@/lib/supabase/roles';
+import { loadEffectivePermissions } from '@/lib/supabase/permissions';
 
 // Routes that don't require authentication
-const PUBLIC_ROUTES = ['/login', '/offline.html', '/service-worker.js'];
+const PUBLIC_ROUTES = ['/login', '/display', '/offline.html', '/service-worker.js'];
 
 export async function proxy(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -24,7 +25,7 @@ export async function proxy(request: NextRequest) {
   );
 
   // Update session and get user
-  const { user, supabaseResponse } = await updateSession(request);
+  const { user, supabase, supabaseResponse } = await updateSession(request);
   const role = (user?.user_metadata?.role as UserRole | undefined) || 'checkin';
 
   // If not authenticated and trying to access protected route
@@ -56,7 +57,8 @@ export async function proxy(request: NextRequest) {
 
   // Check role-based access for protected routes
   if (user && !isPublicRoute) {
-    const hasRouteAccess = hasAccess(role, pathname);
+    const permissions = await loadEffectivePermissions(supabase, role);
+    const hasRouteAccess = hasAccess(permissions, pathname);
 
     // Root path redirects to check-in
     if (pathname === '/') {
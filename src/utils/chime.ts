@@ -0,0 +1,47 @@
+/**
+ * Chime Utility
+ * Short two-note tone for alerts staff need to hear across the room
+ */
+
+type AudioContextConstructor = typeof AudioContext;
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof window === 'undefined') return null;
+  const Ctor: AudioContextConstructor | undefined =
+    window.AudioContext || (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+  if (!Ctor) return null;
+  if (!audioContext) audioContext = new Ctor();
+  return audioContext;
+};
+
+/**
+ * Play the chime if the browser supports Web Audio; silently does nothing otherwise
+ */
+export const playChime = (): void => {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  try {
+    if (ctx.state === 'suspended') void ctx.resume();
+
+    [880, 1320].forEach((frequency, index) => {
+      const start = ctx.currentTime + index * 0.18;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.25, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.35);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.4);
+    });
+  } catch {
+    // Audio can be blocked until the user interacts with the page
+  }
+};
+
+export default playChime;
@@ -1,3 +1,4 @@
 export * from './date';
 export { default as haptics, triggerHaptic, isHapticSupported } from './haptics';
 export { default as enhancedToast } from './toast';
+export { playChime } from './chime';
@@ -0,0 +1,17 @@
+-- Broadcast row changes for multi-device sync
+-- Migration: 011_enable_realtime
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['guests', 'meal_attendance', 'shower_reservations', 'laundry_bookings', 'bicycle_repairs']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
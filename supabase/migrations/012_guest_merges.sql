@@ -0,0 +1,304 @@
+-- Migration: Merge duplicate guest profiles with an undo record
+-- merge_guests() re-points every row that references the duplicate to the
+-- surviving guest and deletes the duplicate in a single transaction.
+-- undo_guest_merge() replays the stored record in reverse. Both run with
+-- definer rights so row level security can't hide rows from the move, and
+-- check for an admin themselves.
+
+create table if not exists public.guest_merges (
+  id uuid primary key default gen_random_uuid(),
+  survivor_id uuid not null references public.guests(id) on delete cascade,
+  merged_guest_id uuid not null,
+  -- Full guests row of the duplicate as it was before deletion
+  merged_guest_snapshot jsonb not null,
+  -- { "table_name.column_name": [row ids re-pointed to the survivor] }
+  moved_rows jsonb not null default '{}'::jsonb,
+  -- { table_name: [row snapshots deleted because the survivor already had one] }
+  removed_rows jsonb not null default '{}'::jsonb,
+  -- [{ "into": survivor meal id, "quantity": n }] for same-day guest meals folded together
+  folded_meals jsonb not null default '[]'::jsonb,
+  -- Guest ids the duplicate was linked to, and the links added to the survivor
+  proxy_links jsonb not null default '{"removed": [], "added": []}'::jsonb,
+  merged_by uuid,
+  merged_at timestamptz not null default now(),
+  undone_at timestamptz,
+  undone_by uuid
+);
+
+create index if not exists guest_merges_merged_at_idx
+  on public.guest_merges (merged_at desc);
+
+alter table public.guest_merges enable row level security;
+
+drop policy if exists "Authenticated users can view guest merges" on public.guest_merges;
+create policy "Authenticated users can view guest merges"
+  on public.guest_merges for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can manage guest merges" on public.guest_merges;
+create policy "Authenticated users can manage guest merges"
+  on public.guest_merges for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Whether a guest is under a ban right now
+create or replace function public.guest_ban_active(p_guest public.guests)
+returns boolean as $$
+  select p_guest.banned_until is not null and p_guest.banned_until > now();
+$$ language sql stable;
+
+create or replace function public.merge_guests(
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+) returns uuid as $$
+declare
+  v_survivor public.guests;
+  v_duplicate public.guests;
+  v_moved jsonb := '{}'::jsonb;
+  v_removed jsonb := '{}'::jsonb;
+  v_folded jsonb := '[]'::jsonb;
+  v_ids jsonb;
+  v_snapshots jsonb;
+  v_links_removed jsonb;
+  v_links_added jsonb := '[]'::jsonb;
+  v_meal record;
+  v_other uuid;
+  v_merge_id uuid;
+  v_ref record;
+begin
+  if public.get_user_role() <> 'admin' then
+    raise exception 'Only admins can merge guests'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if p_survivor_id = p_duplicate_id then
+    raise exception 'Cannot merge a guest into itself';
+  end if;
+
+  select * into v_survivor from public.guests where id = p_survivor_id for update;
+  select * into v_duplicate from public.guests where id = p_duplicate_id for update;
+
+  if v_survivor.id is null or v_duplicate.id is null then
+    raise exception 'Both guests must exist to merge';
+  end if;
+
+  -- Ban guards on the service tables would reject re-pointed rows
+  if public.guest_ban_active(v_survivor) or public.guest_ban_active(v_duplicate) then
+    raise exception 'Lift the active ban before merging these guests';
+  end if;
+
+  -- Lets row checks tell the merge's re-pointing apart from a new entry
+  perform set_config('hopes_corner.merging_guests', 'on', true);
+
+  -- Same-day primary meals: fold the duplicate's quantity into the survivor's row
+  for v_meal in
+    select d.id as duplicate_meal_id, d.quantity, s.id as survivor_meal_id, to_jsonb(d) as snapshot
+    from public.meal_attendance d
+    join public.meal_attendance s
+      on s.guest_id = p_survivor_id
+     and s.served_on = d.served_on
+     and s.meal_type = 'guest'
+    where d.guest_id = p_duplicate_id
+      and d.meal_type = 'guest'
+  loop
+    update public.meal_attendance
+       set quantity = quantity + v_meal.quantity
+     where id = v_meal.survivor_meal_id;
+    delete from public.meal_attendance where id = v_meal.duplicate_meal_id;
+    v_folded := v_folded || jsonb_build_array(
+      jsonb_build_object('into', v_meal.survivor_meal_id, 'quantity', v_meal.quantity, 'row', v_meal.snapshot)
+    );
+  end loop;
+
+  -- One shower and one laundry booking per guest per day: keep the survivor's
+  select coalesce(jsonb_agg(to_jsonb(d)), '[]'::jsonb) into v_snapshots
+  from public.shower_reservations d
+  where d.guest_id = p_duplicate_id
+    and exists (
+      select 1 from public.shower_reservations s
+      where s.guest_id = p_survivor_id and s.scheduled_for = d.scheduled_for
+    );
+  delete from public.shower_reservations
+  where id in (select (value->>'id')::uuid from jsonb_array_elements(v_snapshots));
+  v_removed := v_removed || jsonb_build_object('shower_reservations', v_snapshots);
+
+  select coalesce(jsonb_agg(to_jsonb(d)), '[]'::jsonb) into v_snapshots
+  from public.laundry_bookings d
+  where d.guest_id = p_duplicate_id
+    and exists (
+      select 1 from public.laundry_bookings s
+      where s.guest_id = p_survivor_id and s.scheduled_for = d.scheduled_for
+    );
+  delete from public.laundry_bookings
+  where id in (select (value->>'id')::uuid from jsonb_array_elements(v_snapshots));
+  v_removed := v_removed || jsonb_build_object('laundry_bookings', v_snapshots);
+
+  -- One active waiver per guest per service: keep the survivor's
+  select coalesce(jsonb_agg(to_jsonb(d)), '[]'::jsonb) into v_snapshots
+  from public.service_waivers d
+  where d.guest_id = p_duplicate_id
+    and d.dismissed_at is null
+    and exists (
+      select 1 from public.service_waivers s
+      where s.guest_id = p_survivor_id
+        and s.service_type = d.service_type
+        and s.dismissed_at is null
+    );
+  delete from public.service_waivers
+  where id in (select (value->>'id')::uuid from jsonb_array_elements(v_snapshots));
+  v_removed := v_removed || jsonb_build_object('service_waivers', v_snapshots);
+
+  -- Re-point everything that is left: every column with a foreign key to
+  -- guests, so tables added later are carried along too. Proxy links are
+  -- handled below and merge records keep their own survivor.
+  for v_ref in
+    select c.conrelid::regclass::text as table_name, a.attname::text as column_name
+    from pg_constraint c
+    join pg_attribute a on a.attrelid = c.conrelid and a.attnum = c.conkey[1]
+    where c.contype = 'f'
+      and c.confrelid = 'public.guests'::regclass
+      and c.conrelid not in ('public.guest_proxies'::regclass, 'public.guest_merges'::regclass)
+    order by 1, 2
+  loop
+    execute format(
+      'with moved as (update public.%I set %I = $1 where %I = $2 returning id)
+       select coalesce(jsonb_agg(id), ''[]''::jsonb) from moved',
+      v_ref.table_name, v_ref.column_name, v_ref.column_name
+    ) into v_ids using p_survivor_id, p_duplicate_id;
+    v_moved := v_moved || jsonb_build_object(v_ref.table_name || '.' || v_ref.column_name, v_ids);
+  end loop;
+
+  -- Proxy links: drop the duplicate's links (the symmetry trigger removes the
+  -- reverse rows) and re-create them on the survivor while it has room
+  select coalesce(jsonb_agg(proxy_id), '[]'::jsonb) into v_links_removed
+  from public.guest_proxies
+  where guest_id = p_duplicate_id;
+
+  delete from public.guest_proxies where guest_id = p_duplicate_id;
+
+  for v_other in
+    select (value #>> '{}')::uuid from jsonb_array_elements(v_links_removed)
+  loop
+    continue when v_other = p_survivor_id;
+    continue when exists (
+      select 1 from public.guest_proxies where guest_id = p_survivor_id and proxy_id = v_other
+    );
+    continue when (select count(*) from public.guest_proxies where guest_id = p_survivor_id) >= 3;
+    continue when (select count(*) from public.guest_proxies where guest_id = v_other) >= 3;
+
+    insert into public.guest_proxies (guest_id, proxy_id) values (p_survivor_id, v_other);
+    v_links_added := v_links_added || to_jsonb(v_other);
+  end loop;
+
+  insert into public.guest_merges (
+    survivor_id, merged_guest_id, merged_guest_snapshot,
+    moved_rows, removed_rows, folded_meals, proxy_links, merged_by
+  ) values (
+    p_survivor_id, p_duplicate_id, to_jsonb(v_duplicate),
+    v_moved, v_removed, v_folded,
+    jsonb_build_object('removed', v_links_removed, 'added', v_links_added),
+    auth.uid()
+  ) returning id into v_merge_id;
+
+  delete from public.guests where id = p_duplicate_id;
+
+  perform set_config('hopes_corner.merging_guests', 'off', true);
+  return v_merge_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace function public.undo_guest_merge(
+  p_merge_id uuid
+) returns uuid as $$
+declare
+  v_merge public.guest_merges;
+  v_table text;
+  v_item jsonb;
+  v_other uuid;
+begin
+  if public.get_user_role() <> 'admin' then
+    raise exception 'Only admins can undo guest merges'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_merge from public.guest_merges where id = p_merge_id for update;
+
+  if v_merge.id is null then
+    raise exception 'Merge record not found';
+  end if;
+
+  if v_merge.undone_at is not null then
+    raise exception 'This merge has already been undone';
+  end if;
+
+  perform set_config('hopes_corner.merging_guests', 'on', true);
+
+  insert into public.guests
+  select * from jsonb_populate_record(null::public.guests, v_merge.merged_guest_snapshot);
+
+  -- Restore proxy links first: restored rows picked up on the duplicate's
+  -- behalf need their link back to pass the pick-up check
+  delete from public.guest_proxies
+  where guest_id = v_merge.survivor_id
+    and proxy_id in (
+      select (value #>> '{}')::uuid from jsonb_array_elements(v_merge.proxy_links->'added')
+    );
+
+  for v_other in
+    select (value #>> '{}')::uuid from jsonb_array_elements(v_merge.proxy_links->'removed')
+  loop
+    insert into public.guest_proxies (guest_id, proxy_id)
+    values (v_merge.merged_guest_id, v_other)
+    on conflict (guest_id, proxy_id) do nothing;
+  end loop;
+
+  -- Move re-pointed rows back; ids are compared as text since not every
+  -- table uses uuid ids
+  for v_table in select jsonb_object_keys(v_merge.moved_rows)
+  loop
+    execute format(
+      'update public.%1$I set %2$I = $1
+       where %2$I = $2
+         and id::text in (select value #>> ''{}'' from jsonb_array_elements($3))',
+      split_part(v_table, '.', 1), split_part(v_table, '.', 2)
+    ) using v_merge.merged_guest_id, v_merge.survivor_id, v_merge.moved_rows -> v_table;
+  end loop;
+
+  -- Restore rows that were dropped in favour of the survivor's
+  for v_table in select jsonb_object_keys(v_merge.removed_rows)
+  loop
+    execute format(
+      'insert into public.%1$I
+       select * from jsonb_populate_recordset(null::public.%1$I, $1)',
+      v_table
+    ) using v_merge.removed_rows -> v_table;
+  end loop;
+
+  -- Split folded meals back out
+  for v_item in select value from jsonb_array_elements(v_merge.folded_meals)
+  loop
+    update public.meal_attendance
+       set quantity = quantity - (v_item->>'quantity')::smallint
+     where id = (v_item->>'into')::uuid;
+    insert into public.meal_attendance
+    select * from jsonb_populate_record(null::public.meal_attendance, v_item->'row');
+  end loop;
+
+  update public.guest_merges
+     set undone_at = now(),
+         undone_by = auth.uid()
+   where id = p_merge_id;
+
+  perform set_config('hopes_corner.merging_guests', 'off', true);
+  return v_merge.merged_guest_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.merge_guests(uuid, uuid) from public;
+grant execute on function public.merge_guests(uuid, uuid) to authenticated;
+revoke all on function public.undo_guest_merge(uuid) from public;
+grant execute on function public.undo_guest_merge(uuid) to authenticated;
+
+comment on table public.guest_merges is 'Undo records for merged duplicate guest profiles.';
@@ -0,0 +1,89 @@
+-- Migration: Audit log of staff changes
+-- A trigger on every table the app stores write to records who made the
+-- change, their role, and the row before and after.
+
+create table if not exists public.audit_events (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id uuid,
+  actor_email text,
+  actor_role text,
+  table_name text not null,
+  record_id text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  before_values jsonb,
+  after_values jsonb
+);
+
+create index if not exists audit_events_occurred_at_idx
+  on public.audit_events (occurred_at desc);
+create index if not exists audit_events_table_record_idx
+  on public.audit_events (table_name, record_id);
+create index if not exists audit_events_actor_idx
+  on public.audit_events (actor_id);
+
+alter table public.audit_events enable row level security;
+
+-- Only admins can read the log; rows are written by the trigger below
+drop policy if exists "admin_audit_events_select" on public.audit_events;
+create policy "admin_audit_events_select"
+  on public.audit_events for select
+  to authenticated
+  using (public.get_user_role() = 'admin');
+
+create or replace function public.record_audit_event()
+returns trigger as $$
+declare
+  v_before jsonb;
+  v_after jsonb;
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    v_before := to_jsonb(old);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    v_after := to_jsonb(new);
+  end if;
+
+  -- Skip updates that only touched the updated_at timestamp
+  if tg_op = 'UPDATE' and (v_before - 'updated_at') = (v_after - 'updated_at') then
+    return null;
+  end if;
+
+  insert into public.audit_events (
+    actor_id, actor_email, actor_role, table_name, record_id, action, before_values, after_values
+  ) values (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    case when auth.uid() is null then null else public.get_user_role() end,
+    tg_table_name,
+    coalesce(v_after ->> 'id', v_before ->> 'id'),
+    lower(tg_op),
+    v_before,
+    v_after
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'guests', 'meal_attendance', 'holiday_visits', 'haircut_visits',
+    'shower_reservations', 'laundry_bookings', 'bicycle_repairs',
+    'donations', 'la_plaza_donations', 'items_distributed'
+  ]
+  loop
+    execute format('drop trigger if exists trg_%1$s_audit on public.%1$I', t);
+    execute format(
+      'create trigger trg_%1$s_audit
+       after insert or update or delete on public.%1$I
+       for each row execute function public.record_audit_event()',
+      t
+    );
+  end loop;
+end $$;
+
+comment on table public.audit_events is 'Who changed what: one row per insert, update or delete on guest and service tables.';
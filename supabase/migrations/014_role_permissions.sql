@@ -0,0 +1,152 @@
+-- Migration: Database-driven role permissions
+-- Moves the permission matrix and route access list out of roles.ts so admins
+-- can edit them, with optional per-user overrides.
+
+create table if not exists public.role_permissions (
+  role text not null check (role in ('admin', 'board', 'staff', 'checkin')),
+  resource text not null check (resource in ('guests', 'meals', 'services', 'donations', 'settings')),
+  action text not null check (action in ('create', 'read', 'update', 'delete', 'export')),
+  primary key (role, resource, action)
+);
+
+create table if not exists public.role_routes (
+  role text not null check (role in ('admin', 'board', 'staff', 'checkin')),
+  path text not null,
+  primary key (role, path)
+);
+
+-- allowed = true grants an action the role lacks; false revokes one it has
+create table if not exists public.user_permission_overrides (
+  user_id uuid not null references public.users(id) on delete cascade,
+  resource text not null check (resource in ('guests', 'meals', 'services', 'donations', 'settings')),
+  action text not null check (action in ('create', 'read', 'update', 'delete', 'export')),
+  allowed boolean not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, resource, action)
+);
+
+-- Seed with the matrix previously hard-coded in src/lib/supabase/roles.ts
+insert into public.role_permissions (role, resource, action)
+select r.role, r.resource, unnest(r.actions)
+from (values
+  ('admin', 'guests', array['create', 'read', 'update', 'delete', 'export']),
+  ('admin', 'meals', array['create', 'read', 'update', 'delete', 'export']),
+  ('admin', 'services', array['create', 'read', 'update', 'delete', 'export']),
+  ('admin', 'donations', array['create', 'read', 'update', 'delete', 'export']),
+  ('admin', 'settings', array['create', 'read', 'update', 'delete']),
+  ('board', 'guests', array['create', 'read', 'update', 'delete', 'export']),
+  ('board', 'meals', array['create', 'read', 'update', 'delete', 'export']),
+  ('board', 'services', array['create', 'read', 'update', 'delete', 'export']),
+  ('board', 'donations', array['create', 'read', 'update', 'delete', 'export']),
+  ('board', 'settings', array['read']),
+  ('staff', 'guests', array['create', 'read', 'update', 'delete']),
+  ('staff', 'meals', array['create', 'read', 'update', 'delete']),
+  ('staff', 'services', array['create', 'read', 'update', 'delete']),
+  ('staff', 'donations', array['create', 'read', 'update', 'delete']),
+  ('staff', 'settings', array['read']),
+  ('checkin', 'guests', array['create', 'read']),
+  ('checkin', 'meals', array['create', 'read']),
+  ('checkin', 'services', array['create', 'read']),
+  ('checkin', 'donations', array['read']),
+  ('checkin', 'settings', array['read'])
+) as r(role, resource, actions)
+on conflict do nothing;
+
+insert into public.role_routes (role, path) values
+  ('admin', '/check-in'),
+  ('admin', '/services'),
+  ('admin', '/admin'),
+  ('admin', '/settings'),
+  ('board', '/admin'),
+  ('staff', '/check-in'),
+  ('staff', '/services'),
+  ('checkin', '/check-in')
+on conflict do nothing;
+
+alter table public.role_permissions enable row level security;
+alter table public.role_routes enable row level security;
+alter table public.user_permission_overrides enable row level security;
+
+-- Everyone signed in may read the matrix; only admins may change it
+drop policy if exists "authenticated_role_permissions_select" on public.role_permissions;
+create policy "authenticated_role_permissions_select"
+  on public.role_permissions for select
+  to authenticated
+  using (true);
+
+drop policy if exists "admin_role_permissions_all" on public.role_permissions;
+create policy "admin_role_permissions_all"
+  on public.role_permissions for all
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+drop policy if exists "authenticated_role_routes_select" on public.role_routes;
+create policy "authenticated_role_routes_select"
+  on public.role_routes for select
+  to authenticated
+  using (true);
+
+drop policy if exists "admin_role_routes_all" on public.role_routes;
+create policy "admin_role_routes_all"
+  on public.role_routes for all
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+drop policy if exists "own_permission_overrides_select" on public.user_permission_overrides;
+create policy "own_permission_overrides_select"
+  on public.user_permission_overrides for select
+  to authenticated
+  using (user_id = auth.uid() or public.get_user_role() = 'admin');
+
+drop policy if exists "admin_permission_overrides_all" on public.user_permission_overrides;
+create policy "admin_permission_overrides_all"
+  on public.user_permission_overrides for all
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+-- Effective permissions for the signed-in user in a single round trip:
+-- { "role": "staff", "permissions": [{"resource": "...", "action": "..."}], "routes": ["/check-in"] }
+create or replace function public.get_effective_permissions()
+returns jsonb as $$
+declare
+  v_role text;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  select u.role into v_role from public.users u where u.id = auth.uid();
+  v_role := coalesce(v_role, auth.jwt() -> 'user_metadata' ->> 'role', 'checkin');
+
+  return jsonb_build_object(
+    'role', v_role,
+    'permissions', coalesce((
+      select jsonb_agg(jsonb_build_object('resource', p.resource, 'action', p.action))
+      from (
+        select rp.resource, rp.action
+        from public.role_permissions rp
+        where rp.role = v_role
+          and not exists (
+            select 1 from public.user_permission_overrides o
+            where o.user_id = auth.uid()
+              and o.resource = rp.resource
+              and o.action = rp.action
+              and not o.allowed
+          )
+        union
+        select o.resource, o.action
+        from public.user_permission_overrides o
+        where o.user_id = auth.uid() and o.allowed
+      ) p
+    ), '[]'::jsonb),
+    'routes', coalesce((
+      select jsonb_agg(rr.path order by rr.path)
+      from public.role_routes rr
+      where rr.role = v_role
+    ), '[]'::jsonb)
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
@@ -0,0 +1,65 @@
+-- Migration: Shower slot settings
+-- Stores the stall count, slot length, service hours and blackout days the
+-- app uses to build the daily shower grid, and stops two devices booking the
+-- same slot past its stall count.
+
+alter table public.app_settings
+  add column if not exists shower_slots jsonb not null default jsonb_build_object(
+    'stallCount', 2,
+    'slotMinutes', 15,
+    'startTime', '08:00',
+    'endTime', '12:00',
+    'blackoutWeekdays', jsonb_build_array(),
+    'blackoutDates', jsonb_build_array()
+  );
+
+create index if not exists shower_reservations_slot_idx
+  on public.shower_reservations (scheduled_for, scheduled_time);
+
+create or replace function public.enforce_shower_slot_capacity()
+returns trigger as $$
+declare
+  v_stalls integer;
+  v_taken integer;
+begin
+  if new.scheduled_time is null or new.status not in ('booked', 'done') then
+    return new;
+  end if;
+
+  -- Moving between booked and done within the same slot doesn't take a new stall
+  if tg_op = 'UPDATE'
+    and old.status in ('booked', 'done')
+    and old.scheduled_for = new.scheduled_for
+    and old.scheduled_time is not distinct from new.scheduled_time then
+    return new;
+  end if;
+
+  select coalesce((shower_slots ->> 'stallCount')::integer, 2)
+    into v_stalls
+    from public.app_settings
+    where id = 'global';
+  v_stalls := coalesce(v_stalls, 2);
+
+  -- Serialise bookings for the same slot so concurrent inserts can't both pass
+  perform pg_advisory_xact_lock(hashtext('shower_slot:' || new.scheduled_for || ' ' || new.scheduled_time));
+
+  select count(*) into v_taken
+    from public.shower_reservations s
+    where s.scheduled_for = new.scheduled_for
+      and s.scheduled_time = new.scheduled_time
+      and s.status in ('booked', 'done')
+      and s.id <> new.id;
+
+  if v_taken >= v_stalls then
+    raise exception 'Shower slot % on % is full', new.scheduled_time, new.scheduled_for
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_shower_reservations_capacity on public.shower_reservations;
+create trigger trg_shower_reservations_capacity
+before insert or update on public.shower_reservations
+for each row execute function public.enforce_shower_slot_capacity();
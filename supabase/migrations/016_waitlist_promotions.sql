@@ -0,0 +1,44 @@
+-- Migration: Waitlist promotions
+-- One row each time a waitlisted shower or waiting laundry load is moved into
+-- a freed slot, so staff can call the guest and see who was called.
+
+create table if not exists public.waitlist_promotions (
+  id uuid primary key default gen_random_uuid(),
+  service text not null check (service in ('shower', 'laundry')),
+  record_id uuid not null,
+  guest_id uuid references public.guests(id) on delete cascade,
+  freed_record_id uuid,
+  slot_time text,
+  promoted_at timestamptz not null default now(),
+  called_at timestamptz,
+  promoted_by uuid default auth.uid()
+);
+
+create index if not exists waitlist_promotions_promoted_at_idx
+  on public.waitlist_promotions (promoted_at desc);
+
+alter table public.waitlist_promotions enable row level security;
+
+drop policy if exists "admin_waitlist_promotions_all" on public.waitlist_promotions;
+create policy "admin_waitlist_promotions_all"
+  on public.waitlist_promotions for all
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+drop policy if exists "board_waitlist_promotions_select" on public.waitlist_promotions;
+create policy "board_waitlist_promotions_select"
+  on public.waitlist_promotions for select
+  to authenticated
+  using (public.get_user_role() = 'board');
+
+-- Staff and check-in volunteers promote guests as part of running the queues
+drop policy if exists "staff_waitlist_promotions_write" on public.waitlist_promotions;
+create policy "staff_waitlist_promotions_write"
+  on public.waitlist_promotions for all
+  to authenticated
+  using (public.get_user_role() in ('staff', 'checkin'))
+  with check (public.get_user_role() in ('staff', 'checkin'));
+
+alter table public.app_settings
+  add column if not exists waitlist_chime boolean not null default true;
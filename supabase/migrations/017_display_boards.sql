@@ -0,0 +1,82 @@
+-- Migration: Public "now serving" display boards
+-- Each kiosk gets its own revocable token. The board reads everything through
+-- get_display_board(), which returns bag numbers and first initials only, so the
+-- anonymous role never touches guest or service tables directly.
+
+create table if not exists public.display_tokens (
+  id uuid primary key default gen_random_uuid(),
+  label text not null,
+  -- sha256 hex of the token; the token itself is only shown once when created
+  token_hash text not null unique,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz,
+  revoked_at timestamptz
+);
+
+alter table public.display_tokens enable row level security;
+
+drop policy if exists "admin_display_tokens_all" on public.display_tokens;
+create policy "admin_display_tokens_all"
+  on public.display_tokens for all
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+-- Returns null for an unknown or revoked token, otherwise:
+-- { "date": "2025-01-15", "showerSlots": {...},
+--   "showers": [{ id, scheduled_for, scheduled_time, status, created_at, updated_at, initials }],
+--   "laundry": [{ id, laundry_type, bag_number, scheduled_for, status, created_at, updated_at }] }
+create or replace function public.get_display_board(p_token text)
+returns jsonb as $$
+declare
+  v_token_id uuid;
+  v_today date := (now() at time zone 'America/Los_Angeles')::date;
+begin
+  select t.id into v_token_id
+  from public.display_tokens t
+  where t.token_hash = encode(sha256(convert_to(coalesce(p_token, ''), 'UTF8')), 'hex')
+    and t.revoked_at is null;
+
+  if v_token_id is null then
+    return null;
+  end if;
+
+  update public.display_tokens set last_seen_at = now() where id = v_token_id;
+
+  return jsonb_build_object(
+    'date', v_today,
+    'showerSlots', (select s.shower_slots from public.app_settings s where s.id = 'global'),
+    'showers', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'scheduled_for', r.scheduled_for,
+        'scheduled_time', r.scheduled_time,
+        'status', r.status,
+        'created_at', r.created_at,
+        'updated_at', r.updated_at,
+        'initials', upper(left(g.first_name, 1)) || '.'
+      ) order by r.scheduled_time)
+      from public.shower_reservations r
+      left join public.guests g on g.id = r.guest_id
+      where r.scheduled_for = v_today and r.status = 'booked'
+    ), '[]'::jsonb),
+    'laundry', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', l.id,
+        'laundry_type', l.laundry_type,
+        'bag_number', l.bag_number,
+        'scheduled_for', l.scheduled_for,
+        'status', l.status,
+        'created_at', l.created_at,
+        'updated_at', l.updated_at
+      ) order by l.updated_at)
+      from public.laundry_bookings l
+      where l.scheduled_for = v_today and l.status in ('dryer', 'done')
+    ), '[]'::jsonb)
+  );
+end;
+$$ language plpgsql volatile security definer set search_path = public;
+
+revoke all on function public.get_display_board(text) from public;
+grant execute on function public.get_display_board(text) to anon, authenticated;
@@ -0,0 +1,241 @@
+-- Migration: End-of-day close-out
+-- Closing a service day marks booked showers whose slot has passed as
+-- no_show, flags onsite laundry that was never picked up and carries open
+-- offsite laundry over, so those records stop counting as open in reports.
+-- Each close writes a day_closeouts row listing what it changed; reopening a
+-- day reverses exactly those changes.
+-- Guests banned since they booked must not stop a day from closing, so the
+-- ban guard lets the close-out's own updates through.
+
+alter table public.laundry_bookings
+  add column if not exists closeout_flag text
+    check (closeout_flag in ('unclaimed', 'carried_over'));
+
+create index if not exists laundry_bookings_carried_over_idx
+  on public.laundry_bookings (scheduled_for)
+  where closeout_flag = 'carried_over';
+
+create table if not exists public.day_closeouts (
+  id uuid primary key default gen_random_uuid(),
+  service_date date not null,
+  automatic boolean not null default false,
+  -- { noShowShowerIds: uuid[], unclaimedLaundryIds: uuid[], carriedOverLaundryIds: uuid[] }
+  summary jsonb not null default '{}'::jsonb,
+  closed_at timestamptz not null default now(),
+  closed_by uuid default auth.uid(),
+  reopened_at timestamptz,
+  reopened_by uuid
+);
+
+-- A day can be closed again after it is reopened, but only one close is live
+create unique index if not exists day_closeouts_open_date_idx
+  on public.day_closeouts (service_date)
+  where reopened_at is null;
+
+alter table public.day_closeouts enable row level security;
+
+drop policy if exists "admin_day_closeouts_all" on public.day_closeouts;
+create policy "admin_day_closeouts_all"
+  on public.day_closeouts for all
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+drop policy if exists "staff_day_closeouts_select" on public.day_closeouts;
+create policy "staff_day_closeouts_select"
+  on public.day_closeouts for select
+  to authenticated
+  using (public.get_user_role() in ('staff', 'board'));
+
+-- Same guard as schema.sql, except for rows a close-out or reopen is updating
+create or replace function public.ensure_guest_not_banned()
+returns trigger as $$
+declare
+  ban_until timestamptz;
+  ban_reason text;
+  guest_name text;
+begin
+  if new.guest_id is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and current_setting('hopes_corner.closing_service_day', true) = 'on' then
+    return new;
+  end if;
+
+  select g.banned_until, g.ban_reason, g.full_name
+    into ban_until, ban_reason, guest_name
+  from public.guests g
+  where g.id = new.guest_id;
+
+  if ban_until is null then
+    return new;
+  end if;
+
+  if ban_until > now() then
+    raise exception using
+      message = format('Guest %s is banned from services until %s', coalesce(guest_name, new.guest_id::text), to_char(ban_until at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI"Z"')),
+      detail = coalesce(ban_reason, ''),
+      hint = 'Update the guest''s ban settings or wait until it expires.';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create or replace function public.close_service_day(p_date date, p_automatic boolean default false)
+returns public.day_closeouts as $$
+declare
+  v_now_local timestamp := now() at time zone 'America/Los_Angeles';
+  v_slot_minutes integer;
+  v_no_show uuid[];
+  v_unclaimed uuid[];
+  v_carried uuid[];
+  v_closeout public.day_closeouts;
+begin
+  -- The scheduled job runs without a user; people need to be admin or staff
+  if auth.uid() is not null and public.get_user_role() not in ('admin', 'staff') then
+    raise exception 'Only admins and staff can close a service day'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if exists (
+    select 1 from public.day_closeouts
+    where service_date = p_date and reopened_at is null
+  ) then
+    raise exception 'Service day % is already closed', p_date
+      using errcode = 'unique_violation';
+  end if;
+
+  select coalesce((shower_slots ->> 'slotMinutes')::integer, 15)
+    into v_slot_minutes
+    from public.app_settings
+    where id = 'global';
+  v_slot_minutes := coalesce(v_slot_minutes, 15);
+
+  perform set_config('hopes_corner.closing_service_day', 'on', true);
+
+  with updated as (
+    update public.shower_reservations r
+      set status = 'no_show'
+      where r.scheduled_for = p_date
+        and r.status = 'booked'
+        and (
+          r.scheduled_time is null
+          or (p_date + r.scheduled_time::time + make_interval(mins => v_slot_minutes)) <= v_now_local
+        )
+      returning r.id
+  )
+  select coalesce(array_agg(id), array[]::uuid[]) into v_no_show from updated;
+
+  with updated as (
+    update public.laundry_bookings l
+      set closeout_flag = 'unclaimed'
+      where l.scheduled_for = p_date
+        and l.laundry_type = 'onsite'
+        and l.status in ('waiting', 'washer', 'dryer', 'done')
+        and l.closeout_flag is null
+      returning l.id
+  )
+  select coalesce(array_agg(id), array[]::uuid[]) into v_unclaimed from updated;
+
+  with updated as (
+    update public.laundry_bookings l
+      set closeout_flag = 'carried_over'
+      where l.scheduled_for = p_date
+        and l.laundry_type = 'offsite'
+        and l.status in ('pending', 'transported', 'returned')
+        and l.closeout_flag is null
+      returning l.id
+  )
+  select coalesce(array_agg(id), array[]::uuid[]) into v_carried from updated;
+
+  insert into public.day_closeouts (service_date, automatic, summary)
+  values (
+    p_date,
+    p_automatic,
+    jsonb_build_object(
+      'noShowShowerIds', to_jsonb(v_no_show),
+      'unclaimedLaundryIds', to_jsonb(v_unclaimed),
+      'carriedOverLaundryIds', to_jsonb(v_carried)
+    )
+  )
+  returning * into v_closeout;
+
+  perform set_config('hopes_corner.closing_service_day', 'off', true);
+  return v_closeout;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace function public.reopen_service_day(p_closeout_id uuid)
+returns public.day_closeouts as $$
+declare
+  v_closeout public.day_closeouts;
+begin
+  if public.get_user_role() <> 'admin' then
+    raise exception 'Only admins can reopen a service day'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_closeout
+    from public.day_closeouts
+    where id = p_closeout_id
+    for update;
+
+  if v_closeout.id is null then
+    raise exception 'Close-out % not found', p_closeout_id;
+  end if;
+  if v_closeout.reopened_at is not null then
+    raise exception 'Service day % was already reopened', v_closeout.service_date;
+  end if;
+
+  perform set_config('hopes_corner.closing_service_day', 'on', true);
+
+  -- Only undo records nobody has touched since the close
+  update public.shower_reservations
+    set status = 'booked'
+    where status = 'no_show'
+      and id in (select jsonb_array_elements_text(v_closeout.summary -> 'noShowShowerIds')::uuid);
+
+  update public.laundry_bookings
+    set closeout_flag = null
+    where (closeout_flag = 'unclaimed'
+        and id in (select jsonb_array_elements_text(v_closeout.summary -> 'unclaimedLaundryIds')::uuid))
+      or (closeout_flag = 'carried_over'
+        and id in (select jsonb_array_elements_text(v_closeout.summary -> 'carriedOverLaundryIds')::uuid));
+
+  update public.day_closeouts
+    set reopened_at = now(), reopened_by = auth.uid()
+    where id = p_closeout_id
+    returning * into v_closeout;
+
+  perform set_config('hopes_corner.closing_service_day', 'off', true);
+  return v_closeout;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.close_service_day(date, boolean) from public;
+grant execute on function public.close_service_day(date, boolean) to authenticated;
+revoke all on function public.reopen_service_day(uuid) from public;
+grant execute on function public.reopen_service_day(uuid) to authenticated;
+
+-- Close the previous Pacific day automatically when pg_cron is available.
+-- 10:00 UTC is 2-3am in Pacific time, after any late service has wrapped up.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'close-service-day',
+      '0 10 * * *',
+      $job$
+        select public.close_service_day(((now() at time zone 'America/Los_Angeles')::date - 1), true)
+        where not exists (
+          select 1 from public.day_closeouts
+          where service_date = (now() at time zone 'America/Los_Angeles')::date - 1
+            and reopened_at is null
+        )
+      $job$
+    );
+  end if;
+end;
+$$;
@@ -0,0 +1,76 @@
+-- Migration: Pick-ups on behalf of linked guests
+-- A guest linked through guest_proxies can collect a meal or finished laundry
+-- for an absent guest. The service row keeps the guest it belongs to and
+-- records who collected it, so reports can count on-behalf pick-ups.
+
+alter table public.meal_attendance
+  add column if not exists picked_up_by_guest_id uuid references public.guests(id) on delete set null;
+
+-- A guest has one meal row per day, so this counts just the meals collected
+-- for them; the rest of the quantity was eaten in person
+alter table public.meal_attendance
+  add column if not exists picked_up_quantity smallint not null default 0
+    check (picked_up_quantity >= 0);
+
+alter table public.laundry_bookings
+  add column if not exists picked_up_by_guest_id uuid references public.guests(id) on delete set null;
+
+create index if not exists meal_attendance_picked_up_by_idx
+  on public.meal_attendance (picked_up_by_guest_id)
+  where picked_up_by_guest_id is not null;
+
+create index if not exists laundry_bookings_picked_up_by_idx
+  on public.laundry_bookings (picked_up_by_guest_id)
+  where picked_up_by_guest_id is not null;
+
+-- Only a guest who is currently linked may be recorded as the one picking up
+create or replace function public.ensure_proxy_pickup_linked()
+returns trigger as $$
+begin
+  if new.picked_up_by_guest_id is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and old.picked_up_by_guest_id is not distinct from new.picked_up_by_guest_id then
+    return new;
+  end if;
+
+  -- A guest merge re-points pick-ups already made; they aren't new ones
+  if current_setting('hopes_corner.merging_guests', true) = 'on' then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.guest_proxies p
+    where p.guest_id = new.guest_id
+      and p.proxy_id = new.picked_up_by_guest_id
+  ) then
+    raise exception 'Guest % is not linked to guest % and cannot pick up for them',
+      new.picked_up_by_guest_id, new.guest_id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_meal_attendance_proxy_pickup on public.meal_attendance;
+create trigger trg_meal_attendance_proxy_pickup
+before insert or update on public.meal_attendance
+for each row execute function public.ensure_proxy_pickup_linked();
+
+drop trigger if exists trg_laundry_bookings_proxy_pickup on public.laundry_bookings;
+create trigger trg_laundry_bookings_proxy_pickup
+before insert or update on public.laundry_bookings
+for each row execute function public.ensure_proxy_pickup_linked();
+
+-- Let devices follow links made elsewhere
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'guest_proxies'
+  ) then
+    alter publication supabase_realtime add table public.guest_proxies;
+  end if;
+end $$;
@@ -0,0 +1,108 @@
+-- Migration: Signed waiver documents
+-- Guests can read and sign a waiver on screen. The signed copy (the text they
+-- were shown plus their drawn signature) is kept against the service_waivers
+-- row it satisfied. Only admins can read documents back.
+
+create table if not exists public.waiver_documents (
+  -- Generated on the device so a replayed offline signature is stored once
+  id uuid primary key default gen_random_uuid(),
+  waiver_id uuid not null references public.service_waivers(id) on delete cascade,
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  language text not null check (language in ('en', 'es')),
+  -- { waiverKind, services, language, title, body[], guestId, guestName, signerName, signedAt }
+  document jsonb not null,
+  -- PNG data URL of the signature
+  signature_image text not null,
+  signed_by uuid default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists waiver_documents_waiver_idx
+  on public.waiver_documents (waiver_id);
+
+create index if not exists waiver_documents_guest_idx
+  on public.waiver_documents (guest_id, created_at desc);
+
+alter table public.waiver_documents enable row level security;
+
+drop policy if exists "admin_waiver_documents_select" on public.waiver_documents;
+create policy "admin_waiver_documents_select"
+  on public.waiver_documents for select
+  to authenticated
+  using (public.get_user_role() = 'admin');
+
+-- Sign a waiver on screen: closes the guest's open waiver for the service
+-- (or records a new one, like dismiss_waiver) and stores the signed document.
+-- Returns the service_waivers id.
+create or replace function public.sign_waiver(
+  p_guest_id uuid,
+  p_service_type text,
+  p_document jsonb,
+  p_signature_image text,
+  p_document_id uuid default null
+) returns uuid as $$
+declare
+  v_waiver_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Only signed-in users can record waivers'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if coalesce(p_signature_image, '') = '' then
+    raise exception 'A signature is required'
+      using errcode = 'check_violation';
+  end if;
+
+  -- Already stored by an earlier replay of the same signature
+  if p_document_id is not null then
+    select d.waiver_id into v_waiver_id
+    from public.waiver_documents d
+    where d.id = p_document_id;
+
+    if v_waiver_id is not null then
+      return v_waiver_id;
+    end if;
+  end if;
+
+  insert into public.service_waivers (
+    guest_id,
+    service_type,
+    signed_at,
+    dismissed_at,
+    dismissed_reason
+  ) values (
+    p_guest_id,
+    p_service_type,
+    now(),
+    now(),
+    'signed_digitally'
+  )
+  on conflict (guest_id, service_type) where dismissed_at is null
+  do update set
+    signed_at = now(),
+    dismissed_at = now(),
+    dismissed_reason = 'signed_digitally'
+  returning id into v_waiver_id;
+
+  insert into public.waiver_documents (
+    id,
+    waiver_id,
+    guest_id,
+    language,
+    document,
+    signature_image
+  ) values (
+    coalesce(p_document_id, gen_random_uuid()),
+    v_waiver_id,
+    p_guest_id,
+    coalesce(p_document->>'language', 'en'),
+    p_document,
+    p_signature_image
+  );
+
+  return v_waiver_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+grant execute on function public.sign_waiver(uuid, text, jsonb, text, uuid) to authenticated;
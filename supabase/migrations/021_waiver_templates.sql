@@ -0,0 +1,385 @@
+-- Migration: Versioned waiver templates
+-- Each waiver (the shared shower/laundry one, the bicycle one, or one an admin
+-- adds later) is a kind with numbered versions. A version carries the text
+-- guests read, the services it covers and how long a signature stays valid.
+-- The newest published version of a kind is the one guests need; signatures
+-- of an older version are reported as outdated until the guest signs again.
+
+create table if not exists public.waiver_templates (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null,
+  version integer not null check (version > 0),
+  title text not null,
+  description text not null default '',
+  -- { "en": { "title": "...", "body": ["...", ...] }, "es": { ... } }
+  content jsonb not null,
+  services text[] not null
+    check (cardinality(services) > 0 and services <@ array['shower', 'laundry', 'bicycle']::text[]),
+  validity_rule text not null default 'calendar_year'
+    check (validity_rule in ('calendar_year', 'rolling_days', 'never')),
+  validity_days integer check (validity_days is null or validity_days > 0),
+  signing_url text,
+  -- Null while the version is a draft
+  published_at timestamptz,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  constraint waiver_templates_kind_version_key unique (kind, version),
+  constraint waiver_templates_rolling_days_check
+    check (validity_rule <> 'rolling_days' or validity_days is not null)
+);
+
+create index if not exists waiver_templates_published_idx
+  on public.waiver_templates (kind, version desc)
+  where published_at is not null;
+
+alter table public.waiver_templates enable row level security;
+
+drop policy if exists "authenticated_waiver_templates_select" on public.waiver_templates;
+create policy "authenticated_waiver_templates_select"
+  on public.waiver_templates for select
+  to authenticated
+  using (true);
+
+-- Admins write drafts; published versions are only changed by publish_waiver_template()
+drop policy if exists "admin_waiver_templates_insert" on public.waiver_templates;
+create policy "admin_waiver_templates_insert"
+  on public.waiver_templates for insert
+  to authenticated
+  with check (public.get_user_role() = 'admin' and published_at is null);
+
+drop policy if exists "admin_waiver_templates_update" on public.waiver_templates;
+create policy "admin_waiver_templates_update"
+  on public.waiver_templates for update
+  to authenticated
+  using (public.get_user_role() = 'admin' and published_at is null)
+  with check (public.get_user_role() = 'admin' and published_at is null);
+
+drop policy if exists "admin_waiver_templates_delete" on public.waiver_templates;
+create policy "admin_waiver_templates_delete"
+  on public.waiver_templates for delete
+  to authenticated
+  using (public.get_user_role() = 'admin' and published_at is null);
+
+-- Version 1 of the two existing waivers, matching the text shown until now.
+-- PLACEHOLDER: that English and Spanish text has not had legal review; an
+-- admin should publish version 2 with the reviewed wording before guests sign.
+insert into public.waiver_templates (
+  kind, version, title, description, content, services, validity_rule, signing_url, published_at
+) values
+  (
+    'services',
+    1,
+    'Services Waiver',
+    'Required once per year and covers both shower and laundry services.',
+    $json${
+      "en": {
+        "title": "Hope's Corner Shower and Laundry Waiver",
+        "body": [
+          "I am choosing to use the shower and/or laundry services offered by Hope's Corner.",
+          "I will follow staff and volunteer instructions, use the facilities with care and report any unsafe conditions I notice.",
+          "I understand Hope's Corner is not responsible for lost, stolen or damaged personal belongings, including laundry left past pick-up.",
+          "I accept the risks of using these services, including slips and falls, and release Hope's Corner, its staff and volunteers from claims arising from my use of them, except in cases of gross negligence.",
+          "This waiver covers both showers and laundry and is valid until the end of the calendar year."
+        ]
+      },
+      "es": {
+        "title": "Exención de responsabilidad de duchas y lavandería de Hope's Corner",
+        "body": [
+          "Elijo usar los servicios de ducha y/o lavandería que ofrece Hope's Corner.",
+          "Seguiré las indicaciones del personal y de los voluntarios, usaré las instalaciones con cuidado e informaré cualquier condición insegura que note.",
+          "Entiendo que Hope's Corner no es responsable de pertenencias personales perdidas, robadas o dañadas, incluida la ropa que no se recoja a tiempo.",
+          "Acepto los riesgos de usar estos servicios, incluidos resbalones y caídas, y libero a Hope's Corner, a su personal y a sus voluntarios de reclamos derivados de su uso, salvo en casos de negligencia grave.",
+          "Esta exención cubre duchas y lavandería y es válida hasta el final del año calendario."
+        ]
+      }
+    }$json$::jsonb,
+    array['shower', 'laundry'],
+    'calendar_year',
+    'https://hopes-corner-waiver-submission-next.vercel.app/',
+    now()
+  ),
+  (
+    'bicycle',
+    1,
+    'Bicycle Program Waiver',
+    'Confirm bicycle waiver is signed before logging repair work.',
+    $json${
+      "en": {
+        "title": "Hope's Corner Bicycle Program Waiver",
+        "body": [
+          "I am asking Hope's Corner volunteers to inspect and repair my bicycle, or to provide me with a bicycle or parts.",
+          "Repairs are done by volunteers on a best-effort basis. I will check my bicycle, including brakes and tires, before riding it.",
+          "I accept the risks of riding a bicycle and release Hope's Corner, its staff and volunteers from claims arising from repairs, parts or bicycles provided, except in cases of gross negligence.",
+          "This waiver covers the bicycle program only and is valid until the end of the calendar year."
+        ]
+      },
+      "es": {
+        "title": "Exención de responsabilidad del programa de bicicletas de Hope's Corner",
+        "body": [
+          "Pido a los voluntarios de Hope's Corner que revisen y reparen mi bicicleta, o que me proporcionen una bicicleta o piezas.",
+          "Las reparaciones las hacen voluntarios lo mejor que pueden. Revisaré mi bicicleta, incluidos los frenos y las llantas, antes de usarla.",
+          "Acepto los riesgos de andar en bicicleta y libero a Hope's Corner, a su personal y a sus voluntarios de reclamos derivados de reparaciones, piezas o bicicletas proporcionadas, salvo en casos de negligencia grave.",
+          "Esta exención cubre solo el programa de bicicletas y es válida hasta el final del año calendario."
+        ]
+      }
+    }$json$::jsonb,
+    array['bicycle'],
+    'calendar_year',
+    'https://hopes-corner-bicycle-waiver.vercel.app/',
+    now()
+  )
+on conflict (kind, version) do nothing;
+
+-- Every signature records the version it was made against
+alter table public.service_waivers
+  add column if not exists template_id uuid references public.waiver_templates(id) on delete set null;
+
+update public.service_waivers sw
+set template_id = t.id
+from public.waiver_templates t
+where sw.template_id is null
+  and t.version = 1
+  and t.kind = case when sw.service_type = 'bicycle' then 'bicycle' else 'services' end;
+
+-- The published version guests currently need for a service: the newest
+-- version of whichever kind covers it
+create or replace function public.current_waiver_template(p_service_type text)
+returns public.waiver_templates as $$
+  select c.*
+  from (
+    select distinct on (t.kind) t.*
+    from public.waiver_templates t
+    where t.published_at is not null
+    order by t.kind, t.version desc
+  ) c
+  where p_service_type = any(c.services)
+  limit 1;
+$$ language sql stable;
+
+-- When a signature stops counting; null means it never expires.
+-- Calendar-year waivers run to the end of the year in Pacific time.
+create or replace function public.waiver_signature_expires_at(
+  p_validity_rule text,
+  p_validity_days integer,
+  p_signed_at timestamptz
+) returns timestamptz as $$
+  select case p_validity_rule
+    when 'calendar_year' then
+      (date_trunc('year', p_signed_at at time zone 'America/Los_Angeles') + interval '1 year')
+        at time zone 'America/Los_Angeles'
+    when 'rolling_days' then p_signed_at + make_interval(days => p_validity_days)
+    else null
+  end;
+$$ language sql immutable;
+
+create or replace function public.stamp_waiver_template()
+returns trigger as $$
+begin
+  -- Stamp new signatures, and re-signing an existing row, with the version signed
+  if new.dismissed_at is not null
+    and (new.template_id is null or (tg_op = 'UPDATE' and new.dismissed_at is distinct from old.dismissed_at)) then
+    new.template_id := (select t.id from public.current_waiver_template(new.service_type) t);
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_service_waivers_stamp_template on public.service_waivers;
+create trigger trg_service_waivers_stamp_template
+before insert or update on public.service_waivers
+for each row execute function public.stamp_waiver_template();
+
+-- Where a guest stands with the waiver covering a service:
+-- { "status": "valid" | "outdated" | "expired" | "missing" | "not_required",
+--   "templateId", "kind", "version", "title", "signedVersion", "signedAt", "expiresAt" }
+create or replace function public.guest_waiver_status(p_guest_id uuid, p_service_type text)
+returns jsonb as $$
+declare
+  v_template public.waiver_templates;
+  v_signature record;
+  v_expires_at timestamptz;
+  v_status text;
+begin
+  select * into v_template from public.current_waiver_template(p_service_type);
+
+  if v_template.id is null then
+    return jsonb_build_object('status', 'not_required');
+  end if;
+
+  -- A signature for any service the waiver covers counts for all of them
+  select sw.template_id, sw.dismissed_at as signed_at, t.version, t.validity_rule, t.validity_days
+  into v_signature
+  from public.service_waivers sw
+  left join public.waiver_templates t on t.id = sw.template_id
+  where sw.guest_id = p_guest_id
+    and sw.service_type = any(v_template.services)
+    and sw.dismissed_at is not null
+  order by (sw.template_id = v_template.id) desc nulls last, sw.dismissed_at desc
+  limit 1;
+
+  if v_signature.signed_at is null then
+    v_status := 'missing';
+  else
+    v_expires_at := public.waiver_signature_expires_at(
+      coalesce(v_signature.validity_rule, v_template.validity_rule),
+      coalesce(v_signature.validity_days, v_template.validity_days),
+      v_signature.signed_at
+    );
+    v_status := case
+      when v_expires_at is not null and v_expires_at <= now() then 'expired'
+      when v_signature.template_id is distinct from v_template.id then 'outdated'
+      else 'valid'
+    end;
+  end if;
+
+  return jsonb_build_object(
+    'status', v_status,
+    'templateId', v_template.id,
+    'kind', v_template.kind,
+    'version', v_template.version,
+    'title', v_template.title,
+    'signedVersion', v_signature.version,
+    'signedAt', v_signature.signed_at,
+    'expiresAt', v_expires_at
+  );
+end;
+$$ language plpgsql stable;
+
+-- Guests who used a service this year and have no valid signature of the
+-- current version of its waiver
+create or replace function public.guest_needs_waiver_reminder(
+  p_guest_id uuid,
+  p_service_type text
+) returns boolean as $$
+declare
+  v_year_start date := date_trunc('year', now())::date;
+  v_used boolean;
+begin
+  v_used := case p_service_type
+    when 'shower' then exists (
+      select 1 from public.shower_reservations sr
+      where sr.guest_id = p_guest_id and sr.scheduled_for >= v_year_start
+    )
+    when 'laundry' then exists (
+      select 1 from public.laundry_bookings lb
+      where lb.guest_id = p_guest_id and lb.scheduled_for >= v_year_start
+    )
+    when 'bicycle' then exists (
+      select 1 from public.bicycle_repairs br
+      where br.guest_id = p_guest_id and br.requested_at >= v_year_start
+    )
+    else false
+  end;
+
+  if not v_used then
+    return false;
+  end if;
+
+  return public.guest_waiver_status(p_guest_id, p_service_type)->>'status' in ('missing', 'expired', 'outdated');
+end;
+$$ language plpgsql stable;
+
+-- Validity now comes from each template's rule, so nothing is deleted at the
+-- turn of the year (signed documents hang off these rows). Reports how many
+-- signatures have lapsed.
+create or replace function public.reset_waivers_for_new_year()
+returns table (reset_count integer) as $$
+  select count(*)::integer
+  from public.service_waivers sw
+  join public.waiver_templates t on t.id = sw.template_id
+  where sw.dismissed_at is not null
+    and public.waiver_signature_expires_at(t.validity_rule, t.validity_days, sw.dismissed_at) <= now();
+$$ language sql stable;
+
+drop view if exists public.guests_needing_waivers cascade;
+create view public.guests_needing_waivers as
+select
+  g.id,
+  g.external_id,
+  g.full_name,
+  g.preferred_name,
+  s.service_type,
+  public.guest_waiver_status(g.id, s.service_type) as waiver_status
+from public.guests g
+cross join (values ('shower'), ('laundry'), ('bicycle')) as s(service_type)
+where public.guest_needs_waiver_reminder(g.id, s.service_type);
+
+-- Publish a draft as the current version of its kind. Returns
+-- { "templateId", "kind", "version", "flaggedGuests" }, where flaggedGuests counts
+-- guests holding an unexpired signature of an older version who must sign again.
+create or replace function public.publish_waiver_template(p_template_id uuid)
+returns jsonb as $$
+declare
+  v_template public.waiver_templates;
+  v_overlap text;
+  v_flagged integer;
+begin
+  if public.get_user_role() is distinct from 'admin' then
+    raise exception 'Only admins can publish waiver templates'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_template
+  from public.waiver_templates
+  where id = p_template_id
+  for update;
+
+  if not found then
+    raise exception 'Waiver template % not found', p_template_id
+      using errcode = 'no_data_found';
+  end if;
+
+  if v_template.published_at is not null then
+    raise exception 'Version % of % is already published', v_template.version, v_template.title
+      using errcode = 'check_violation';
+  end if;
+
+  if exists (
+    select 1 from public.waiver_templates t
+    where t.kind = v_template.kind
+      and t.version > v_template.version
+      and t.published_at is not null
+  ) then
+    raise exception 'A newer version of % is already published', v_template.title
+      using errcode = 'check_violation';
+  end if;
+
+  -- Each service is covered by one kind of waiver at a time
+  select string_agg(distinct s.service, ', ') into v_overlap
+  from (
+    select distinct on (t.kind) t.*
+    from public.waiver_templates t
+    where t.published_at is not null
+    order by t.kind, t.version desc
+  ) c
+  cross join lateral unnest(c.services) as s(service)
+  where c.kind <> v_template.kind
+    and s.service = any(v_template.services);
+
+  if v_overlap is not null then
+    raise exception 'Already covered by another waiver: %', v_overlap
+      using errcode = 'check_violation';
+  end if;
+
+  update public.waiver_templates
+  set published_at = now()
+  where id = p_template_id;
+
+  select count(distinct sw.guest_id) into v_flagged
+  from public.service_waivers sw
+  join public.waiver_templates t on t.id = sw.template_id
+  where t.kind = v_template.kind
+    and t.version < v_template.version
+    and sw.dismissed_at is not null
+    and coalesce(public.waiver_signature_expires_at(t.validity_rule, t.validity_days, sw.dismissed_at) > now(), true);
+
+  return jsonb_build_object(
+    'templateId', v_template.id,
+    'kind', v_template.kind,
+    'version', v_template.version,
+    'flaggedGuests', v_flagged
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+grant execute on function public.publish_waiver_template(uuid) to authenticated;
@@ -0,0 +1,66 @@
+-- Migration: Field-level history of guest profile changes
+-- One row per changed field with the old and new value, who changed it and
+-- when, so changes like housing status or location can be followed over time.
+
+create table if not exists public.guest_history (
+  id bigint generated always as identity primary key,
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  field text not null,
+  old_value text,
+  new_value text,
+  changed_by uuid,
+  changed_by_email text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists guest_history_guest_changed_idx
+  on public.guest_history (guest_id, changed_at desc);
+create index if not exists guest_history_field_idx
+  on public.guest_history (field, changed_at);
+
+alter table public.guest_history enable row level security;
+
+-- Staff can read a guest's history; rows are written by the trigger below
+drop policy if exists "authenticated_guest_history_select" on public.guest_history;
+create policy "authenticated_guest_history_select"
+  on public.guest_history for select
+  to authenticated
+  using (true);
+
+create or replace function public.record_guest_history()
+returns trigger as $$
+declare
+  v_before jsonb := to_jsonb(old);
+  v_after jsonb := to_jsonb(new);
+  v_field text;
+begin
+  -- full_name follows first/last name and ban columns have their own record
+  foreach v_field in array array[
+    'external_id', 'first_name', 'last_name', 'preferred_name', 'housing_status',
+    'age_group', 'gender', 'location', 'notes', 'bicycle_description'
+  ]
+  loop
+    if (v_before -> v_field) is distinct from (v_after -> v_field) then
+      insert into public.guest_history (
+        guest_id, field, old_value, new_value, changed_by, changed_by_email
+      ) values (
+        new.id,
+        v_field,
+        nullif(v_before ->> v_field, ''),
+        nullif(v_after ->> v_field, ''),
+        auth.uid(),
+        auth.jwt() ->> 'email'
+      );
+    end if;
+  end loop;
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_guests_history on public.guests;
+create trigger trg_guests_history
+after update on public.guests
+for each row execute function public.record_guest_history();
+
+comment on table public.guest_history is 'One row per changed guest profile field: old value, new value, who and when.';
@@ -0,0 +1,9 @@
+-- Migration: Per-guest service history page
+-- Everyone who can see guest cards at check-in may open /guests/[id]; admins
+-- can revoke it per role from the permissions matrix like any other route.
+
+insert into public.role_routes (role, path) values
+  ('admin', '/guests'),
+  ('staff', '/guests'),
+  ('checkin', '/guests')
+on conflict do nothing;
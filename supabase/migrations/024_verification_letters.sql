@@ -0,0 +1,42 @@
+-- Migration: Service verification letters
+-- Guests need proof that they use our services for housing, benefits and DMV
+-- applications. Every letter issued is kept with the text it was issued with
+-- and a serial number, so a copy brought back to us can be checked.
+
+create sequence if not exists public.verification_letter_serial_seq;
+
+create table if not exists public.verification_letters (
+  id uuid primary key default gen_random_uuid(),
+  serial_number text not null unique default (
+    'VL-' || to_char(now() at time zone 'America/Los_Angeles', 'YYYY') || '-' ||
+    lpad(nextval('public.verification_letter_serial_seq')::text, 6, '0')
+  ),
+  -- Letters outlive the profile: the content keeps the name they were issued to
+  guest_id uuid references public.guests(id) on delete set null,
+  -- The filled-in letter: { siteName, legalName, firstVisit, lastVisit,
+  -- visitDays, counts, issuedOn, title, body[] }
+  content jsonb not null,
+  issued_by uuid default auth.uid(),
+  issued_by_email text default (auth.jwt() ->> 'email'),
+  issued_at timestamptz not null default now()
+);
+
+create index if not exists verification_letters_guest_idx
+  on public.verification_letters (guest_id, issued_at desc);
+
+alter table public.verification_letters enable row level security;
+
+-- Issued letters are a log: they can be read and added to but never changed
+drop policy if exists "authenticated_verification_letters_select" on public.verification_letters;
+create policy "authenticated_verification_letters_select"
+  on public.verification_letters for select
+  to authenticated
+  using (true);
+
+drop policy if exists "staff_verification_letters_insert" on public.verification_letters;
+create policy "staff_verification_letters_insert"
+  on public.verification_letters for insert
+  to authenticated
+  with check (public.get_user_role() in ('admin', 'staff'));
+
+comment on table public.verification_letters is 'Every service verification letter issued, with its serial number and the text it was issued with.';
@@ -0,0 +1,236 @@
+-- Migration: Per-service bans with ban history
+-- A ban can now cover only some services (for example showers only) and end
+-- on any date. Every warning, ban and lift is kept in guest_bans with who
+-- issued it, instead of each new ban overwriting the last reason. A permanent
+-- ban is a ban with no end date, which the old guard let through.
+
+alter table public.guests
+  add column if not exists banned_services text[];
+
+comment on column public.guests.banned_services is 'Services the current ban covers; null covers every service.';
+
+create table if not exists public.guest_bans (
+  id uuid primary key default gen_random_uuid(),
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  action text not null check (action in ('warning', 'ban', 'lift')),
+  -- Null covers every service
+  services text[] check (
+    services is null
+    or services <@ array['meals', 'shower', 'laundry', 'bicycle', 'haircut', 'holiday', 'items']
+  ),
+  reason text not null default '',
+  starts_at timestamptz not null default now(),
+  -- Null for a permanent ban, and for warnings and lifts
+  ends_at timestamptz,
+  issued_by uuid default auth.uid(),
+  issued_by_email text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  -- Set once a reviewer has looked at a ban that is about to end
+  reviewed_at timestamptz,
+  reviewed_by uuid,
+  constraint guest_bans_window_valid check (ends_at is null or ends_at > starts_at)
+);
+
+create index if not exists guest_bans_guest_created_idx
+  on public.guest_bans (guest_id, created_at desc);
+create index if not exists guest_bans_ends_at_idx
+  on public.guest_bans (ends_at)
+  where action = 'ban' and reviewed_at is null;
+
+alter table public.guest_bans enable row level security;
+
+drop policy if exists "authenticated_guest_bans_select" on public.guest_bans;
+create policy "authenticated_guest_bans_select"
+  on public.guest_bans for select
+  to authenticated
+  using (true);
+
+drop policy if exists "staff_guest_bans_insert" on public.guest_bans;
+create policy "staff_guest_bans_insert"
+  on public.guest_bans for insert
+  to authenticated
+  with check (public.get_user_role() in ('admin', 'staff', 'checkin'));
+
+-- Only reviewers touch an issued row, to mark it reviewed
+drop policy if exists "admin_guest_bans_review" on public.guest_bans;
+create policy "admin_guest_bans_review"
+  on public.guest_bans for update
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+-- A ban or lift becomes the guest's current ban; warnings only go on record
+create or replace function public.apply_guest_ban()
+returns trigger as $$
+begin
+  if new.action = 'ban' then
+    update public.guests
+       set banned_at = new.starts_at,
+           banned_until = new.ends_at,
+           ban_reason = new.reason,
+           banned_services = new.services
+     where id = new.guest_id;
+  elsif new.action = 'lift' then
+    update public.guests
+       set banned_at = null,
+           banned_until = null,
+           ban_reason = null,
+           banned_services = null
+     where id = new.guest_id;
+  end if;
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_guest_bans_apply on public.guest_bans;
+create trigger trg_guest_bans_apply
+after insert on public.guest_bans
+for each row execute function public.apply_guest_ban();
+
+-- Permanent bans count as active too, so guest merges refuse them
+create or replace function public.guest_ban_active(p_guest public.guests)
+returns boolean as $$
+  select p_guest.banned_at is not null
+    and (p_guest.banned_until is null or p_guest.banned_until > now());
+$$ language sql stable;
+
+-- The guard now takes the service it protects as its trigger argument
+create or replace function public.ensure_guest_not_banned()
+returns trigger as $$
+declare
+  ban_at timestamptz;
+  ban_until timestamptz;
+  ban_reason text;
+  ban_services text[];
+  guest_name text;
+  service text := tg_argv[0];
+begin
+  if new.guest_id is null then
+    return new;
+  end if;
+
+  -- Closing or reopening a service day still goes through (see 018)
+  if tg_op = 'UPDATE' and current_setting('hopes_corner.closing_service_day', true) = 'on' then
+    return new;
+  end if;
+
+  select g.banned_at, g.banned_until, g.ban_reason, g.banned_services, g.full_name
+    into ban_at, ban_until, ban_reason, ban_services, guest_name
+  from public.guests g
+  where g.id = new.guest_id;
+
+  if ban_at is null or (ban_until is not null and ban_until <= now()) then
+    return new;
+  end if;
+
+  if ban_services is not null and service is not null and not (service = any(ban_services)) then
+    return new;
+  end if;
+
+  raise exception using
+    message = case
+      when ban_until is null then format('Guest %s is banned from %s', coalesce(guest_name, new.guest_id::text), coalesce(service, 'services'))
+      else format('Guest %s is banned from %s until %s', coalesce(guest_name, new.guest_id::text), coalesce(service, 'services'), to_char(ban_until at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI"Z"'))
+    end,
+    detail = coalesce(ban_reason, ''),
+    hint = 'Update the guest''s ban settings or wait until it expires.';
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_meal_attendance_ban_guard on public.meal_attendance;
+create trigger trg_meal_attendance_ban_guard
+before insert or update on public.meal_attendance
+for each row execute function public.ensure_guest_not_banned('meals');
+
+drop trigger if exists trg_shower_reservations_ban_guard on public.shower_reservations;
+create trigger trg_shower_reservations_ban_guard
+before insert or update on public.shower_reservations
+for each row execute function public.ensure_guest_not_banned('shower');
+
+drop trigger if exists trg_laundry_bookings_ban_guard on public.laundry_bookings;
+create trigger trg_laundry_bookings_ban_guard
+before insert or update on public.laundry_bookings
+for each row execute function public.ensure_guest_not_banned('laundry');
+
+drop trigger if exists trg_bicycle_repairs_ban_guard on public.bicycle_repairs;
+create trigger trg_bicycle_repairs_ban_guard
+before insert or update on public.bicycle_repairs
+for each row execute function public.ensure_guest_not_banned('bicycle');
+
+drop trigger if exists trg_holiday_visits_ban_guard on public.holiday_visits;
+create trigger trg_holiday_visits_ban_guard
+before insert or update on public.holiday_visits
+for each row execute function public.ensure_guest_not_banned('holiday');
+
+drop trigger if exists trg_haircut_visits_ban_guard on public.haircut_visits;
+create trigger trg_haircut_visits_ban_guard
+before insert or update on public.haircut_visits
+for each row execute function public.ensure_guest_not_banned('haircut');
+
+drop trigger if exists trg_items_distributed_ban_guard on public.items_distributed;
+create trigger trg_items_distributed_ban_guard
+before insert or update on public.items_distributed
+for each row execute function public.ensure_guest_not_banned('items');
+
+-- Bans that are still the guest's current one and have not been reviewed;
+-- the app narrows this to the ones ending soon
+create or replace view public.guest_bans_due_for_review
+with (security_invoker = true) as
+select b.*, g.full_name as guest_name
+from public.guest_bans b
+join public.guests g on g.id = b.guest_id
+where b.action = 'ban'
+  and b.reviewed_at is null
+  and b.ends_at is not null
+  and b.ends_at > now()
+  and g.banned_at = b.starts_at
+  and g.banned_until = b.ends_at;
+
+-- A reviewer decides what happens to a ban about to end: let it expire, extend
+-- it to a new end date, or lift it now. Returns the reviewed ban.
+create or replace function public.review_guest_ban(
+  p_ban_id uuid,
+  p_outcome text,
+  p_ends_at timestamptz default null
+)
+returns public.guest_bans as $$
+declare
+  v_ban public.guest_bans;
+begin
+  if public.get_user_role() <> 'admin' then
+    raise exception 'Only admins can review bans';
+  end if;
+
+  select * into v_ban from public.guest_bans where id = p_ban_id for update;
+  if not found or v_ban.action <> 'ban' then
+    raise exception 'Ban % not found', p_ban_id;
+  end if;
+  if v_ban.reviewed_at is not null then
+    raise exception 'Ban % has already been reviewed', p_ban_id;
+  end if;
+
+  if p_outcome = 'extend' then
+    if p_ends_at is null or p_ends_at <= coalesce(v_ban.ends_at, now()) then
+      raise exception 'An extended ban must end after the current one';
+    end if;
+    insert into public.guest_bans (guest_id, action, services, reason, ends_at)
+    values (v_ban.guest_id, 'ban', v_ban.services, v_ban.reason, p_ends_at);
+  elsif p_outcome = 'lift' then
+    insert into public.guest_bans (guest_id, action, reason)
+    values (v_ban.guest_id, 'lift', 'Lifted on review');
+  elsif p_outcome <> 'expire' then
+    raise exception 'Unknown review outcome %', p_outcome;
+  end if;
+
+  update public.guest_bans
+     set reviewed_at = now(),
+         reviewed_by = auth.uid()
+   where id = p_ban_id
+  returning * into v_ban;
+
+  return v_ban;
+end;
+$$ language plpgsql;
+
+comment on table public.guest_bans is 'Every warning, ban and lift issued to a guest: services covered, reason, end date and who issued it.';
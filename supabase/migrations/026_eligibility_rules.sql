@@ -0,0 +1,67 @@
+-- Migration: Eligibility rules
+-- Limits on how often a guest may receive a service, such as one guest meal
+-- per service day or one sleeping bag every 90 days. The app checks them before
+-- recording a service; staff can go past a limit with a reason, and every such
+-- override is kept in eligibility_overrides. The one-meal-per-day rule ships
+-- turned off, so second check-ins keep working until an admin enables it.
+
+alter table public.app_settings
+  add column if not exists eligibility_rules jsonb not null default jsonb_build_array(
+    jsonb_build_object(
+      'id', 'meal-daily',
+      'service', 'meal',
+      'itemKey', null,
+      'limit', 1,
+      'periodDays', 1,
+      'enabled', false
+    ),
+    jsonb_build_object(
+      'id', 'shower-2-days',
+      'service', 'shower',
+      'itemKey', null,
+      'limit', 1,
+      'periodDays', 2,
+      'enabled', true
+    ),
+    jsonb_build_object(
+      'id', 'sleeping-bag-90-days',
+      'service', 'item',
+      'itemKey', 'sleeping_bag',
+      'limit', 1,
+      'periodDays', 90,
+      'enabled', true
+    )
+  );
+
+create table if not exists public.eligibility_overrides (
+  id uuid primary key default gen_random_uuid(),
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  service text not null check (service in ('meal', 'shower', 'laundry', 'item')),
+  item_key text,
+  service_date date not null,
+  reason text not null check (length(trim(reason)) > 0),
+  -- The rules gone past: [{ id, description, used }]
+  rules jsonb not null default '[]'::jsonb,
+  overridden_by uuid default auth.uid(),
+  overridden_by_email text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists eligibility_overrides_guest_created_idx
+  on public.eligibility_overrides (guest_id, created_at desc);
+
+alter table public.eligibility_overrides enable row level security;
+
+drop policy if exists "authenticated_eligibility_overrides_select" on public.eligibility_overrides;
+create policy "authenticated_eligibility_overrides_select"
+  on public.eligibility_overrides for select
+  to authenticated
+  using (true);
+
+drop policy if exists "staff_eligibility_overrides_insert" on public.eligibility_overrides;
+create policy "staff_eligibility_overrides_insert"
+  on public.eligibility_overrides for insert
+  to authenticated
+  with check (public.get_user_role() in ('admin', 'staff', 'checkin'));
+
+comment on table public.eligibility_overrides is 'Services recorded past an eligibility limit, with the reason staff gave and the rules gone past.';
@@ -0,0 +1,110 @@
+-- Migration: Item inventory
+-- Tracks what is left on the shelf for the items handed out to guests. The
+-- catalog lists each item with its sizes and low-stock threshold; stock on
+-- hand is the sum of its transactions. Receiving and adjustments are entered
+-- by staff, and every item distributed takes one off automatically.
+
+alter table public.items_distributed
+  add column if not exists size text;
+
+create table if not exists public.inventory_items (
+  id uuid primary key default gen_random_uuid(),
+  -- Matches items_distributed.item_key
+  item_key text not null unique,
+  name text not null,
+  -- Empty for items that don't come in sizes
+  sizes text[] not null default '{}',
+  low_stock_threshold integer not null default 5 check (low_stock_threshold >= 0),
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.inventory_transactions (
+  id uuid primary key default gen_random_uuid(),
+  item_key text not null references public.inventory_items(item_key) on update cascade on delete cascade,
+  size text,
+  kind text not null check (kind in ('receive', 'adjust', 'distribute')),
+  -- Signed change to stock on hand
+  quantity integer not null,
+  note text,
+  -- Set for distributions, so removing the item record puts it back on the shelf
+  distribution_id uuid references public.items_distributed(id) on delete cascade,
+  recorded_by uuid default auth.uid(),
+  recorded_by_email text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now(),
+  constraint inventory_transactions_sign_valid check (
+    (kind = 'receive' and quantity > 0)
+    or (kind = 'distribute' and quantity < 0)
+    or (kind = 'adjust' and quantity <> 0)
+  )
+);
+
+create index if not exists inventory_transactions_item_created_idx
+  on public.inventory_transactions (item_key, created_at desc);
+create index if not exists inventory_transactions_created_idx
+  on public.inventory_transactions (created_at);
+
+alter table public.inventory_items enable row level security;
+alter table public.inventory_transactions enable row level security;
+
+drop policy if exists "authenticated_inventory_items_select" on public.inventory_items;
+create policy "authenticated_inventory_items_select"
+  on public.inventory_items for select
+  to authenticated
+  using (true);
+
+drop policy if exists "staff_inventory_items_write" on public.inventory_items;
+create policy "staff_inventory_items_write"
+  on public.inventory_items for all
+  to authenticated
+  using (public.get_user_role() in ('admin', 'staff'))
+  with check (public.get_user_role() in ('admin', 'staff'));
+
+drop policy if exists "authenticated_inventory_transactions_select" on public.inventory_transactions;
+create policy "authenticated_inventory_transactions_select"
+  on public.inventory_transactions for select
+  to authenticated
+  using (true);
+
+-- Distributions are only written by the trigger below
+drop policy if exists "staff_inventory_transactions_insert" on public.inventory_transactions;
+create policy "staff_inventory_transactions_insert"
+  on public.inventory_transactions for insert
+  to authenticated
+  with check (public.get_user_role() in ('admin', 'staff') and kind <> 'distribute');
+
+-- Take one off the shelf for each item handed out, if the item is stocked
+create or replace function public.record_item_distribution()
+returns trigger as $$
+begin
+  insert into public.inventory_transactions (item_key, size, kind, quantity, distribution_id)
+  select i.item_key, new.size, 'distribute', -1, new.id
+    from public.inventory_items i
+   where i.item_key = new.item_key;
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_items_distributed_inventory on public.items_distributed;
+create trigger trg_items_distributed_inventory
+after insert on public.items_distributed
+for each row execute function public.record_item_distribution();
+
+create or replace view public.inventory_stock_levels
+with (security_invoker = true) as
+select t.item_key, t.size, sum(t.quantity)::integer as on_hand
+from public.inventory_transactions t
+group by t.item_key, t.size;
+
+insert into public.inventory_items (item_key, name, sizes, low_stock_threshold)
+values
+  ('tshirt', 'T-shirt', array['S', 'M', 'L', 'XL', '2XL'], 5),
+  ('sleeping_bag', 'Sleeping bag', '{}', 5),
+  ('backpack', 'Backpack', '{}', 3),
+  ('tent', 'Tent', '{}', 2),
+  ('flip_flops', 'Flip flops', array['S', 'M', 'L'], 5)
+on conflict (item_key) do nothing;
+
+comment on table public.inventory_transactions is 'Every change to item stock: receiving, adjustments and distributions to guests.';
@@ -0,0 +1,45 @@
+-- Migration: Donor acknowledgment and tax receipts
+-- Itemized thank-you letters for a donor over a date range, built from
+-- donations and la_plaza_donations. Every receipt issued is kept with the
+-- text and line items it was issued with and a receipt number, so an annual
+-- statement can be re-issued exactly as the donor first received it.
+
+create sequence if not exists public.donation_receipt_number_seq;
+
+create table if not exists public.donation_receipts (
+  id uuid primary key default gen_random_uuid(),
+  receipt_number text not null unique default (
+    'DR-' || to_char(now() at time zone 'America/Los_Angeles', 'YYYY') || '-' ||
+    lpad(nextval('public.donation_receipt_number_seq')::text, 6, '0')
+  ),
+  donor text not null check (length(trim(donor)) > 0),
+  period_start date not null,
+  period_end date not null,
+  -- The filled-in receipt: { siteName, donor, periodStart, periodEnd,
+  -- issuedOn, title, body[], lines[], totals }
+  content jsonb not null,
+  issued_by uuid default auth.uid(),
+  issued_by_email text default (auth.jwt() ->> 'email'),
+  issued_at timestamptz not null default now(),
+  constraint donation_receipts_period_check check (period_start <= period_end)
+);
+
+create index if not exists donation_receipts_donor_idx
+  on public.donation_receipts (lower(donor), issued_at desc);
+
+alter table public.donation_receipts enable row level security;
+
+-- Issued receipts are a log: they can be read and added to but never changed
+drop policy if exists "authenticated_donation_receipts_select" on public.donation_receipts;
+create policy "authenticated_donation_receipts_select"
+  on public.donation_receipts for select
+  to authenticated
+  using (true);
+
+drop policy if exists "staff_donation_receipts_insert" on public.donation_receipts;
+create policy "staff_donation_receipts_insert"
+  on public.donation_receipts for insert
+  to authenticated
+  with check (public.get_user_role() in ('admin', 'staff'));
+
+comment on table public.donation_receipts is 'Every donor acknowledgment receipt issued, with its receipt number and the itemized text it was issued with.';
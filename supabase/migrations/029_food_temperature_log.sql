@@ -0,0 +1,52 @@
+-- Migration: Food safety temperature log
+-- Numeric probe readings for hot- and cold-held food, taken when a donation
+-- comes in and again at service. Each reading keeps the safe range it was
+-- checked against, and a reading outside that range must say what was done
+-- about it. The monthly log printed from this table is the one shown to the
+-- county health inspector.
+
+-- Safe holding ranges in °F; a null bound means no limit on that side
+alter table public.app_settings
+  add column if not exists food_safety_ranges jsonb not null default jsonb_build_object(
+    'hot', jsonb_build_object('minF', 135, 'maxF', null),
+    'cold', jsonb_build_object('minF', null, 'maxF', 41)
+  );
+
+create table if not exists public.food_temperature_logs (
+  id uuid primary key default gen_random_uuid(),
+  stage text not null check (stage in ('intake', 'service')),
+  holding text not null check (holding in ('hot', 'cold')),
+  item_name text not null check (length(trim(item_name)) > 0),
+  -- Intake readings are linked to the donation they were taken on
+  donation_id uuid references public.donations(id) on delete set null,
+  temperature_f numeric(5,1) not null,
+  in_range boolean not null,
+  safe_min_f numeric(5,1),
+  safe_max_f numeric(5,1),
+  corrective_action text,
+  recorded_by uuid default auth.uid(),
+  recorded_by_email text default (auth.jwt() ->> 'email'),
+  recorded_at timestamptz not null default now(),
+  date_key date not null default ((now() at time zone 'America/Los_Angeles')::date),
+  constraint food_temperature_logs_corrective_action_check
+    check (in_range or length(trim(coalesce(corrective_action, ''))) > 0)
+);
+
+create index if not exists food_temperature_logs_date_idx
+  on public.food_temperature_logs (date_key, recorded_at);
+
+alter table public.food_temperature_logs enable row level security;
+
+drop policy if exists "authenticated_food_temperature_logs_select" on public.food_temperature_logs;
+create policy "authenticated_food_temperature_logs_select"
+  on public.food_temperature_logs for select
+  to authenticated
+  using (true);
+
+drop policy if exists "staff_food_temperature_logs_insert" on public.food_temperature_logs;
+create policy "staff_food_temperature_logs_insert"
+  on public.food_temperature_logs for insert
+  to authenticated
+  with check (public.get_user_role() in ('admin', 'staff'));
+
+comment on table public.food_temperature_logs is 'Hot and cold holding temperatures taken at donation intake and at service, with corrective actions for readings out of range.';
@@ -0,0 +1,46 @@
+-- Migration: Food rescue outbound ledger
+-- Where rescued food goes once it is in our kitchen: served at meals, passed
+-- on to another agency, composted or thrown away, each with a weight. Set
+-- against donations and la_plaza_donations coming in, this gives the daily
+-- and monthly reconciliation and the diversion rate reported to food-rescue
+-- partners.
+
+create table if not exists public.food_dispositions (
+  id uuid primary key default gen_random_uuid(),
+  disposition text not null check (disposition in ('served', 'redistributed', 'composted', 'discarded')),
+  -- The agency that received redistributed food
+  recipient text,
+  weight_lbs numeric(8,2) not null check (weight_lbs > 0),
+  notes text,
+  date_key date not null default ((now() at time zone 'America/Los_Angeles')::date),
+  recorded_by uuid default auth.uid(),
+  recorded_by_email text default (auth.jwt() ->> 'email'),
+  recorded_at timestamptz not null default now(),
+  constraint food_dispositions_recipient_check
+    check (disposition <> 'redistributed' or length(trim(coalesce(recipient, ''))) > 0)
+);
+
+create index if not exists food_dispositions_date_idx
+  on public.food_dispositions (date_key);
+
+alter table public.food_dispositions enable row level security;
+
+drop policy if exists "authenticated_food_dispositions_select" on public.food_dispositions;
+create policy "authenticated_food_dispositions_select"
+  on public.food_dispositions for select
+  to authenticated
+  using (true);
+
+drop policy if exists "staff_food_dispositions_insert" on public.food_dispositions;
+create policy "staff_food_dispositions_insert"
+  on public.food_dispositions for insert
+  to authenticated
+  with check (public.get_user_role() in ('admin', 'staff'));
+
+drop policy if exists "staff_food_dispositions_delete" on public.food_dispositions;
+create policy "staff_food_dispositions_delete"
+  on public.food_dispositions for delete
+  to authenticated
+  using (public.get_user_role() in ('admin', 'staff'));
+
+comment on table public.food_dispositions is 'Outbound side of the food rescue ledger: weight of food served, redistributed, composted or discarded per day.';
@@ -0,0 +1,164 @@
+-- Migration: Admin-managed taxonomies
+-- Meal types, donation types and La Plaza categories move from Postgres enums
+-- (kept in step by hand in 005 and 007) to lookup rows admins can edit. Each
+-- value has a label and sort order; retiring a value hides it from forms but
+-- keeps it, so historical records still show their label.
+
+create table if not exists public.taxonomy_values (
+  taxonomy text not null check (taxonomy in ('meal_type', 'donation_type', 'la_plaza_category')),
+  -- What is stored on the record; never changes once in use
+  value text not null check (length(trim(value)) > 0),
+  label text not null check (length(trim(label)) > 0),
+  sort_order integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (taxonomy, value)
+);
+
+drop trigger if exists trg_taxonomy_values_updated_at on public.taxonomy_values;
+create trigger trg_taxonomy_values_updated_at
+before update on public.taxonomy_values
+for each row execute function public.touch_updated_at();
+
+insert into public.taxonomy_values (taxonomy, value, label, sort_order) values
+  ('meal_type', 'guest', 'Guest meals', 10),
+  ('meal_type', 'rv', 'RV meals', 20),
+  ('meal_type', 'extra', 'Extra meals', 30),
+  ('meal_type', 'shelter', 'Shelter meals', 40),
+  ('meal_type', 'united_effort', 'United Effort', 50),
+  ('meal_type', 'day_worker', 'Day Worker Center', 60),
+  ('meal_type', 'lunch_bag', 'Lunch bags', 70),
+  ('donation_type', 'Protein', 'Protein', 10),
+  ('donation_type', 'Carbs', 'Carbs', 20),
+  ('donation_type', 'Vegetables', 'Vegetables', 30),
+  ('donation_type', 'Fruit', 'Fruit', 40),
+  ('donation_type', 'Veggie Protein', 'Veggie Protein', 50),
+  ('donation_type', 'Deli Foods', 'Deli Foods', 60),
+  ('donation_type', 'Pastries', 'Pastries', 70),
+  ('donation_type', 'School lunch', 'School lunch', 80),
+  ('la_plaza_category', 'Bakery', 'Bakery', 10),
+  ('la_plaza_category', 'Beverages', 'Beverages', 20),
+  ('la_plaza_category', 'Dairy', 'Dairy', 30),
+  ('la_plaza_category', 'Meat', 'Meat', 40),
+  ('la_plaza_category', 'Mix', 'Mix', 50),
+  ('la_plaza_category', 'Nonfood', 'Nonfood', 60),
+  ('la_plaza_category', 'Prepared/Perishable', 'Prepared/Perishable', 70),
+  ('la_plaza_category', 'Produce', 'Produce', 80)
+on conflict (taxonomy, value) do nothing;
+
+-- Anything already recorded under a value missing above keeps displaying, retired
+insert into public.taxonomy_values (taxonomy, value, label, sort_order, active)
+select distinct on (source.taxonomy, source.value) source.taxonomy, source.value, source.value, 1000, false
+from (
+  select 'meal_type' as taxonomy, meal_type::text as value from public.meal_attendance
+  union all
+  select 'donation_type', donation_type::text from public.donations
+  union all
+  select 'la_plaza_category', category::text from public.la_plaza_donations
+) as source
+on conflict (taxonomy, value) do nothing;
+
+-- Columns become text checked against the lookup table. Besides the column
+-- defaults, the only object tied to the enums is the one-guest-meal-a-day
+-- index, whose predicate compares against meal_type_enum; it is rebuilt
+-- with a text predicate.
+drop index if exists public.meal_attendance_guest_unique;
+
+alter table public.meal_attendance alter column meal_type drop default;
+alter table public.meal_attendance alter column meal_type type text using meal_type::text;
+alter table public.meal_attendance alter column meal_type set default 'guest';
+
+create unique index if not exists meal_attendance_guest_unique
+  on public.meal_attendance (guest_id, served_on)
+  where meal_type = 'guest';
+
+alter table public.donations alter column donation_type type text using donation_type::text;
+
+alter table public.la_plaza_donations alter column category type text using category::text;
+
+alter table public.app_settings alter column default_donation_type drop default;
+alter table public.app_settings alter column default_donation_type type text using default_donation_type::text;
+alter table public.app_settings alter column default_donation_type set default 'Protein';
+
+drop type if exists public.meal_type_enum;
+drop type if exists public.donation_type_enum;
+drop type if exists public.la_plaza_category_enum;
+
+-- Trigger arguments: taxonomy, column name. Retired values are still
+-- accepted so older records can be edited; forms only offer active ones.
+create or replace function public.enforce_taxonomy_value()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_value text := to_jsonb(new) ->> tg_argv[1];
+begin
+  if v_value is not null and not exists (
+    select 1 from public.taxonomy_values
+    where taxonomy = tg_argv[0] and value = v_value
+  ) then
+    raise exception '"%" is not a known % value', v_value, tg_argv[0]
+      using errcode = 'foreign_key_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_meal_attendance_meal_type on public.meal_attendance;
+create trigger trg_meal_attendance_meal_type
+before insert or update of meal_type on public.meal_attendance
+for each row execute function public.enforce_taxonomy_value('meal_type', 'meal_type');
+
+drop trigger if exists trg_donations_donation_type on public.donations;
+create trigger trg_donations_donation_type
+before insert or update of donation_type on public.donations
+for each row execute function public.enforce_taxonomy_value('donation_type', 'donation_type');
+
+drop trigger if exists trg_la_plaza_donations_category on public.la_plaza_donations;
+create trigger trg_la_plaza_donations_category
+before insert or update of category on public.la_plaza_donations
+for each row execute function public.enforce_taxonomy_value('la_plaza_category', 'category');
+
+drop trigger if exists trg_app_settings_default_donation_type on public.app_settings;
+create trigger trg_app_settings_default_donation_type
+before insert or update of default_donation_type on public.app_settings
+for each row execute function public.enforce_taxonomy_value('donation_type', 'default_donation_type');
+
+-- Values in use can't be removed, only retired
+create or replace function public.prevent_taxonomy_value_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Taxonomy values cannot be deleted; set active to false to retire one';
+end;
+$$;
+
+drop trigger if exists trg_taxonomy_values_no_delete on public.taxonomy_values;
+create trigger trg_taxonomy_values_no_delete
+before delete on public.taxonomy_values
+for each row execute function public.prevent_taxonomy_value_delete();
+
+alter table public.taxonomy_values enable row level security;
+
+drop policy if exists "authenticated_taxonomy_values_select" on public.taxonomy_values;
+create policy "authenticated_taxonomy_values_select"
+  on public.taxonomy_values for select
+  to authenticated
+  using (true);
+
+drop policy if exists "admin_taxonomy_values_insert" on public.taxonomy_values;
+create policy "admin_taxonomy_values_insert"
+  on public.taxonomy_values for insert
+  to authenticated
+  with check (public.get_user_role() = 'admin');
+
+drop policy if exists "admin_taxonomy_values_update" on public.taxonomy_values;
+create policy "admin_taxonomy_values_update"
+  on public.taxonomy_values for update
+  to authenticated
+  using (public.get_user_role() = 'admin')
+  with check (public.get_user_role() = 'admin');
+
+comment on table public.taxonomy_values is 'Admin-managed meal types, donation types and La Plaza categories, with labels, sort order and an active flag.';
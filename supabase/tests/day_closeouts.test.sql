@@ -0,0 +1,86 @@
+-- Day close-out against guests banned after they booked, including
+-- permanent bans.
+-- Run with `supabase test db`.
+begin;
+select plan(8);
+
+select set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-0000000000aa", "user_metadata": {"role": "admin"}}',
+  true
+);
+
+insert into public.guests (id, external_id, first_name, last_name, full_name, age_group, gender)
+values
+  ('00000000-0000-0000-0000-000000000001', 'T-BAN-1', 'Ann', 'Lee', 'Ann Lee', 'Adult 18-59', 'Female'),
+  ('00000000-0000-0000-0000-000000000002', 'T-BAN-2', 'Bo', 'Kim', 'Bo Kim', 'Adult 18-59', 'Male');
+
+insert into public.shower_reservations (id, guest_id, scheduled_for)
+values
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-000000000001', current_date - 1),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-000000000002', current_date - 1);
+
+insert into public.laundry_bookings (id, guest_id, scheduled_for, laundry_type, status)
+values
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-000000000001', current_date - 1, 'onsite', 'waiting'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-000000000002', current_date - 1, 'offsite', 'pending');
+
+-- Banned after booking: one for 30 days, one permanently
+update public.guests
+   set banned_at = now(), banned_until = now() + interval '30 days', ban_reason = 'Test'
+ where id = '00000000-0000-0000-0000-000000000001';
+
+insert into public.guest_bans (guest_id, action, reason)
+values ('00000000-0000-0000-0000-000000000002', 'ban', 'Test');
+
+select lives_ok(
+  $$ select public.close_service_day(current_date - 1) $$,
+  'a banned guest''s open bookings do not stop the day from closing'
+);
+
+select is(
+  (select status::text from public.shower_reservations where id = '00000000-0000-0000-0000-0000000000b1'),
+  'no_show',
+  'the banned guest''s shower is marked no-show'
+);
+
+select is(
+  (select closeout_flag from public.laundry_bookings where id = '00000000-0000-0000-0000-0000000000c1'),
+  'unclaimed',
+  'the banned guest''s laundry is flagged unclaimed'
+);
+
+select is(
+  (select status::text from public.shower_reservations where id = '00000000-0000-0000-0000-0000000000b2'),
+  'no_show',
+  'the permanently banned guest''s shower is marked no-show'
+);
+
+select is(
+  (select closeout_flag from public.laundry_bookings where id = '00000000-0000-0000-0000-0000000000c2'),
+  'carried_over',
+  'the permanently banned guest''s offsite laundry is carried over'
+);
+
+select lives_ok(
+  $$ select public.reopen_service_day(
+       (select id from public.day_closeouts where service_date = current_date - 1 and reopened_at is null)
+     ) $$,
+  'the day can be reopened'
+);
+
+select is(
+  (select status::text from public.shower_reservations where id = '00000000-0000-0000-0000-0000000000b1'),
+  'booked',
+  'reopening puts the shower back'
+);
+
+select throws_like(
+  $$ update public.shower_reservations set status = 'done'
+     where id = '00000000-0000-0000-0000-0000000000b1' $$,
+  '%is banned%',
+  'staff still cannot serve a banned guest outside a close-out'
+);
+
+select * from finish();
+rollback;